@@ -10,6 +10,14 @@ import FeesOverviewDashboard from './components/fees/FeesOverviewDashboard';
 import CourseConfigurationPanel from './components/courses/CourseConfigurationPanel';
 import BatchManagementPanel from './components/batches/BatchManagementPanel';
 import LeadsList from './components/leads/LeadsList';
+import LeadFunnelAnalytics from './components/leads/LeadFunnelAnalytics';
+import FamiliesPanel from './components/families/FamiliesPanel';
+import ReconciliationPanel from './components/fees/ReconciliationPanel';
+import RemindersPanel from './components/fees/RemindersPanel';
+import ReportsPanel from './components/reports/ReportsPanel';
+import ImportsPanel from './components/imports/ImportsPanel';
+import PortalLayout from './components/portal/PortalLayout';
+import PortalHome from './components/portal/PortalHome';
 import { Login } from './components/Login';
 import LoadingSpinner from './components/ui/LoadingSpinner';
 import './App.css';
@@ -17,17 +25,29 @@ import './App.css';
 const ROUTE_TO_TAB: Record<string, TabType> = {
   '/students': 'students',
   '/fees': 'fees',
+  '/reconciliation': 'reconciliation',
+  '/reminders': 'reminders',
+  '/reports': 'reports',
   '/leads': 'leads',
+  '/lead-analytics': 'lead-analytics',
+  '/families': 'families',
   '/courses': 'courses',
   '/batches': 'batches',
+  '/imports': 'imports',
 };
 
 const PAGE_TITLES: Record<TabType, string> = {
   students: 'Students',
   fees: 'Fees Overview',
+  reconciliation: 'Payment Reconciliation',
+  reminders: 'Fee Reminders',
+  reports: 'Reports',
   leads: 'Leads',
+  'lead-analytics': 'Lead Analytics',
+  families: 'Families',
   courses: 'Program Setup',
   batches: 'Batches',
+  imports: 'Imports',
 };
 
 function AppContent() {
@@ -50,6 +70,18 @@ function AppContent() {
     return <Login onLoginSuccess={login} />;
   }
 
+  // Parents get the self-service portal instead of the admin shell
+  if (user?.role === 'user') {
+    return (
+      <PortalLayout>
+        <Routes>
+          <Route path="/portal" element={<PortalHome />} />
+          <Route path="*" element={<Navigate to="/portal" replace />} />
+        </Routes>
+      </PortalLayout>
+    );
+  }
+
   const isSuperAdmin = user?.role === 'superadmin';
   const activeTab = ROUTE_TO_TAB[location.pathname] ?? 'students';
   const pageTitle = location.pathname.startsWith('/students/')
@@ -73,9 +105,15 @@ function AppContent() {
             <Route path="/students" element={<StudentsList />} />
             <Route path="/students/:id" element={<StudentProfilePage />} />
             <Route path="/fees" element={<FeesOverviewDashboard />} />
+            <Route path="/reconciliation" element={<ReconciliationPanel />} />
+            <Route path="/reminders" element={<RemindersPanel />} />
+            <Route path="/reports" element={<ReportsPanel />} />
             <Route path="/leads" element={<LeadsList />} />
+            <Route path="/lead-analytics" element={<LeadFunnelAnalytics />} />
+            <Route path="/families" element={<FamiliesPanel />} />
             {isSuperAdmin && <Route path="/courses" element={<CourseConfigurationPanel />} />}
             {isSuperAdmin && <Route path="/batches" element={<BatchManagementPanel />} />}
+            {isSuperAdmin && <Route path="/imports" element={<ImportsPanel />} />}
             <Route path="*" element={<Navigate to="/students" replace />} />
           </Routes>
         </div>
@@ -12,10 +12,12 @@ import StudentsTable from './students/StudentsTable';
 import Pagination from './students/Pagination';
 import StudentModal from './students/StudentModal';
 import BulkActionsBar from './students/BulkActionsBar';
-import ExportButton from './students/ExportButton';
+import ExportButton from './ui/ExportButton';
 import StudentFeesTab from './fees/StudentFeesTab';
 import FeePaymentModal from './fees/FeePaymentModal';
 import AddCreditModal from './fees/AddCreditModal';
+import PauseExpiredWorklist from './students/PauseExpiredWorklist';
+import SeatOffersWorklist from './batches/SeatOffersWorklist';
 
 const getRefId = (value: Student['courseId'] | Student['batchId'] | undefined): string | null => {
   if (!value) return null;
@@ -166,7 +168,7 @@ const StudentsList = () => {
 
         const nextBatchId = getRefId(studentData.batchId);
         const hasBatch = !!nextBatchId;
-        const response = await AdminStudentsAPI.create({
+        const payload = {
           studentName: studentData.studentName!,
           parentName: studentData.parentName,
           phone: studentData.phone,
@@ -184,11 +186,28 @@ const StudentsList = () => {
           discountPct: (studentData as any).discountType === 'percentage' ? Number((studentData as any).discountValue ?? 0) : 0,
           discountAmount: (studentData as any).discountType === 'fixed' ? Number((studentData as any).discountValue ?? 0) : 0,
           discountReason: (studentData as any).discountReason ?? '',
+          familyId: studentData.familyId ?? undefined,
           createFirstFeeRecord: !!hasBatch,
           firstMonthFee: Number(monthlyFee),
-        });
+        };
+        let response;
+        try {
+          response = await AdminStudentsAPI.create(payload);
+        } catch (err: any) {
+          const message: string = err.response?.data?.error ?? '';
+          if (!message.startsWith('Batch is full') || !confirm(`${message}. Add ${payload.studentName} to the batch's waitlist instead?`)) {
+            throw err;
+          }
+          response = await AdminStudentsAPI.create({ ...payload, waitlistIfFull: true });
+        }
 
-        if (response.success && response.data) {
+        const waitlist = (response.data as any)?.waitlist;
+        if (response.success && waitlist) {
+          // Not enrolled yet, so nothing to bill until they are promoted.
+          toast.success(`${payload.studentName} is #${waitlist.position} on the batch waitlist`);
+          setIsModalOpen(false);
+          fetchStudents();
+        } else if (response.success && response.data) {
           toast.success('Student created successfully!');
           setIsModalOpen(false);
           const createdStudent = (response.data as any).student || response.data;
@@ -222,6 +241,7 @@ const StudentsList = () => {
 
         if (academicChanged && courseId && stageNumber != null && levelNumber != null && monthlyFee) {
           const response = await AdminStudentsAPI.upgrade(studentId, {
+            enrollmentId: editingStudent.currentEnrollmentId ?? undefined,
             courseId,
             stageNumber: Number(stageNumber),
             levelNumber: Number(levelNumber),
@@ -236,7 +256,10 @@ const StudentsList = () => {
             return (response as any).error || 'Failed to upgrade student';
           }
         } else if (batchChanged) {
-          const response = await AdminStudentsAPI.changeBatch(studentId, { newBatchId: nextBatchId });
+          const response = await AdminStudentsAPI.changeBatch(studentId, {
+            newBatchId: nextBatchId,
+            enrollmentId: editingStudent.currentEnrollmentId ?? undefined,
+          });
           if (!response.success) {
             return (response as any).error || 'Failed to change batch';
           }
@@ -299,42 +322,14 @@ const StudentsList = () => {
   };
 
   // Bulk actions
-  const handleBulkExport = () => {
-    const selectedStudentData = students.filter((s) =>
-      selectedStudents.includes(s._id)
-    );
-
-    // Use ExportButton logic
-    const csvContent = exportStudentsToCSV(selectedStudentData);
-    downloadCSV(csvContent, `selected-students-${new Date().toISOString().split('T')[0]}.csv`);
-    toast.success(`Exported ${selectedStudents.length} students`);
-  };
-
-  // Helper functions for export
-  const exportStudentsToCSV = (data: Student[]) => {
-    const headers = ['Name', 'Email', 'Phone', 'Skills', 'Skill Level', 'Joined Date'];
-    const rows = data.map((s) => [
-      s.studentName,
-      s.email,
-      s.phone || '',
-      s.combinedSkill || '',
-      s.skillCategory || '',
-      new Date(s.createdAt).toLocaleDateString(),
-    ]);
-    return [
-      headers.join(','),
-      ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
-    ].join('\n');
-  };
-
-  const downloadCSV = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    link.click();
-    URL.revokeObjectURL(url);
+  const handleBulkExport = async () => {
+    // Only the selected rows; the toolbar export covers the whole filtered list
+    try {
+      await StudentsAPI.exportStudents({ ids: selectedStudents }, 'csv');
+      toast.success(`Exported ${selectedStudents.length} students`);
+    } catch {
+      toast.error('Export failed');
+    }
   };
 
   const visibleActive = students.filter((student) => student.isActive).length;
@@ -375,7 +370,13 @@ const StudentsList = () => {
           <span className="h-9 inline-flex items-center px-3 text-xs text-text-tertiary whitespace-nowrap rounded-lg border border-white/8 bg-surface">
             {activeFilterCount ? `${activeFilterCount} filter${activeFilterCount > 1 ? 's' : ''}` : 'No filters'}
           </span>
-          <ExportButton students={students} />
+          <ExportButton
+            onExport={(format) => StudentsAPI.exportStudents({
+              search: searchQuery,
+              stage: selectedCourse !== 'all' ? selectedCourse : undefined,
+              isActive: selectedStatus !== 'all' ? selectedStatus === 'active' : undefined,
+            }, format)}
+          />
           <Button onClick={handleCreateStudent} variant="primary" size="sm" className="h-9 whitespace-nowrap">
             <Plus className="w-4 h-4" />
             <span>Add Student</span>
@@ -400,6 +401,9 @@ const StudentsList = () => {
         })}
       </div>
 
+      <PauseExpiredWorklist onChanged={fetchStudents} />
+      <SeatOffersWorklist onChanged={fetchStudents} />
+
       {/* Students Table */}
       {loading ? (
         <div className="flex flex-col items-center justify-center h-64 bg-surface rounded-lg border border-white/7">
@@ -0,0 +1,295 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import type { Batch } from '../../types/batch';
+import type { AttendanceStatus, BatchAttendance, RosterEntry } from '../../types/attendance';
+import { AdminAttendanceAPI } from '../../services/api';
+
+interface BatchAttendanceSectionProps {
+  batch: Batch;
+}
+
+const STATUS_META: Record<AttendanceStatus, { label: string; short: string; cls: string }> = {
+  present: { label: 'Present', short: 'P', cls: 'bg-accent-600/15 text-accent-400' },
+  late:    { label: 'Late',    short: 'L', cls: 'bg-yellow-100 text-yellow-800' },
+  absent:  { label: 'Absent',  short: 'A', cls: 'bg-error-600/15 text-red-400' },
+  excused: { label: 'Excused', short: 'E', cls: 'bg-surface-hover text-text-secondary' },
+};
+const STATUSES = Object.keys(STATUS_META) as AttendanceStatus[];
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+const formatSessionDate = (d: string) =>
+  new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const BatchAttendanceSection: React.FC<BatchAttendanceSectionProps> = ({ batch }) => {
+  const [month, setMonth] = useState(currentMonth());
+  const [data, setData] = useState<BatchAttendance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [draft, setDraft] = useState<Record<string, AttendanceStatus>>({});
+  const [saving, setSaving] = useState(false);
+
+  const fetchAttendance = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // Sessions are generated on demand so a month is always markable, even
+      // before the daily job has reached it.
+      if (batch.status === 'active') {
+        await AdminAttendanceAPI.generateSessions({ month, batchId: batch.id });
+      }
+      const response = await AdminAttendanceAPI.getBatchAttendance(batch.id, month);
+      if (response.success && response.data) {
+        setData(response.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to fetch attendance');
+    } finally {
+      setLoading(false);
+    }
+  }, [batch.id, batch.status, month]);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [fetchAttendance]);
+
+  const openSession = async (sessionId: string) => {
+    if (selectedSessionId === sessionId) {
+      setSelectedSessionId(null);
+      return;
+    }
+    try {
+      setError(null);
+      const response = await AdminAttendanceAPI.getSession(sessionId);
+      if (response.success && response.data) {
+        setSelectedSessionId(sessionId);
+        setRoster(response.data.roster);
+        const marks: Record<string, AttendanceStatus> = {};
+        for (const entry of response.data.roster) {
+          if (entry.status) marks[entry.studentId] = entry.status;
+        }
+        setDraft(marks);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load session');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedSessionId) return;
+    const marks = Object.entries(draft).map(([studentId, status]) => ({ studentId, status }));
+    if (marks.length === 0) {
+      setError('Mark at least one student');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await AdminAttendanceAPI.markAttendance(selectedSessionId, marks);
+      setSelectedSessionId(null);
+      await fetchAttendance();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save attendance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleCancelled = async (cancelled: boolean) => {
+    if (!selectedSessionId) return;
+    const cancelReason = cancelled ? prompt('Reason for cancelling this class (optional)') ?? undefined : undefined;
+    setSaving(true);
+    setError(null);
+    try {
+      await AdminAttendanceAPI.updateSession(selectedSessionId, { cancelled, cancelReason });
+      setSelectedSessionId(null);
+      await fetchAttendance();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to update session');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedSession = data?.sessions.find((s) => s.id === selectedSessionId);
+  const isFuture = selectedSession
+    ? new Date(selectedSession.sessionDate).getTime() > Date.now()
+    : false;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-text-primary">Attendance</h3>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => {
+            setSelectedSessionId(null);
+            setMonth(e.target.value || currentMonth());
+          }}
+          className="px-2 py-1 text-sm rounded-lg bg-surface-alt border border-white/10 text-text-primary"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-error-600/10 border border-red-200 text-red-400 px-4 py-2 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : !data || data.sessions.length === 0 ? (
+        <div className="text-center py-6 bg-surface-alt rounded-lg text-sm text-text-secondary">
+          No classes scheduled for this batch in {month}.
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-text-tertiary">Click a date to mark or edit that class.</p>
+          <div className="border border-white/10 rounded-lg overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-surface-alt">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-text-tertiary uppercase tracking-wider">
+                    Student
+                  </th>
+                  {data.sessions.map((s) => (
+                    <th key={s.id} className="px-1 py-2 text-center">
+                      <button
+                        onClick={() => openSession(s.id)}
+                        title={s.status === 'cancelled' ? `Cancelled${s.cancelReason ? `: ${s.cancelReason}` : ''}` : s.startTime}
+                        className={`text-xs font-medium px-1.5 py-0.5 rounded whitespace-nowrap ${
+                          s.id === selectedSessionId ? 'bg-primary-600 text-white'
+                            : s.status === 'cancelled' ? 'text-text-tertiary line-through'
+                            : 'text-text-secondary hover:bg-surface-hover'
+                        }`}
+                      >
+                        {formatSessionDate(s.sessionDate)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right text-xs font-medium text-text-tertiary uppercase tracking-wider">
+                    Month
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {data.students.map((student) => (
+                  <tr key={student.studentId}>
+                    <td className="px-3 py-2 whitespace-nowrap text-text-primary">{student.studentName}</td>
+                    {data.sessions.map((s) => {
+                      const status = student.marks[s.id];
+                      return (
+                        <td key={s.id} className="px-1 py-2 text-center">
+                          {status ? (
+                            <span
+                              title={STATUS_META[status].label}
+                              className={`inline-block w-6 rounded text-xs font-medium ${STATUS_META[status].cls}`}
+                            >
+                              {STATUS_META[status].short}
+                            </span>
+                          ) : (
+                            <span className="text-text-tertiary">·</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {student.percentage === null ? (
+                        <span className="text-text-tertiary">—</span>
+                      ) : (
+                        <Badge className={student.lowAttendance ? 'bg-error-600/15 text-red-400' : 'bg-accent-600/15 text-accent-400'}>
+                          {student.percentage}%
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {/* Marking panel for the selected class */}
+      {selectedSession && (
+        <div className="bg-surface-alt p-4 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium text-text-primary">
+              {formatSessionDate(selectedSession.sessionDate)} · {selectedSession.startTime}
+              {selectedSession.status === 'cancelled' && (
+                <Badge className="ml-2 bg-surface-hover text-text-secondary">cancelled</Badge>
+              )}
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleToggleCancelled(selectedSession.status !== 'cancelled')}
+              disabled={saving}
+            >
+              {selectedSession.status === 'cancelled' ? 'Restore class' : 'Cancel class'}
+            </Button>
+          </div>
+
+          {selectedSession.status === 'cancelled' ? (
+            <p className="text-sm text-text-secondary">This class was cancelled and does not count towards attendance.</p>
+          ) : isFuture ? (
+            <p className="text-sm text-text-secondary">Attendance can be marked on or after the class date.</p>
+          ) : roster.length === 0 ? (
+            <p className="text-sm text-text-secondary">No students were enrolled in this batch on this date.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {roster.map((entry) => (
+                  <div key={entry.studentId} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-text-primary">
+                      {entry.studentName}
+                      {entry.makeupCreditId && (
+                        <Badge className="ml-2 bg-primary-600/15 text-primary-300">make-up</Badge>
+                      )}
+                    </span>
+                    <div className="flex gap-1">
+                      {STATUSES.map((status) => (
+                        <button
+                          key={status}
+                          onClick={() => setDraft((d) => ({ ...d, [entry.studentId]: status }))}
+                          className={`px-2 py-1 rounded text-xs font-medium border ${
+                            draft[entry.studentId] === status
+                              ? `${STATUS_META[status].cls} border-transparent`
+                              : 'border-white/10 text-text-tertiary hover:text-text-primary'
+                          }`}
+                        >
+                          {STATUS_META[status].label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setDraft(Object.fromEntries(roster.map((r) => [r.studentId, 'present' as AttendanceStatus])))}
+                  disabled={saving}
+                >
+                  All present
+                </Button>
+                <Button variant="primary" size="sm" onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save attendance'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAttendanceSection;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AlertTriangle, Pencil, RotateCcw, Square, Trash2, Users } from 'lucide-react';
+import { AlertTriangle, ListOrdered, Pencil, RotateCcw, Square, Trash2, Users } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { BatchAPI, AdminCoursesAPI } from '../../services/api';
 import type { Batch, BatchStats, BatchFilters } from '../../types/batch';
@@ -11,6 +11,8 @@ import EmptyState from '../ui/EmptyState';
 import { DAY_NAMES, STATUS_OPTIONS } from '../../types/batch';
 import BatchModal from './BatchModal';
 import BatchStudentsModal from './BatchStudentsModal';
+import BatchWaitlistModal from './BatchWaitlistModal';
+import SeatOffersWorklist from './SeatOffersWorklist';
 import { getErrorMessage, isNetworkError, showErrorToast } from '../../utils/errorHandler';
 
 export const BatchManagementPanel: React.FC = () => {
@@ -21,6 +23,8 @@ export const BatchManagementPanel: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedBatch, setSelectedBatch] = useState<Batch | null>(null);
   const [isStudentsModalOpen, setIsStudentsModalOpen] = useState(false);
+  const [waitlistBatchId, setWaitlistBatchId] = useState<string | null>(null);
+  const [worklistKey, setWorklistKey] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [errorType, setErrorType] = useState<'network' | 'server' | 'general'>('general');
 
@@ -117,6 +121,9 @@ export const BatchManagementPanel: React.FC = () => {
     setIsModalOpen(true);
   };
 
+  // Read from the list so seat counts stay current after a promotion.
+  const waitlistBatch = batches.find((b) => b.id === waitlistBatchId) ?? null;
+
   const handleViewStudents = (batch: Batch) => {
     setSelectedBatch(batch);
     setIsStudentsModalOpen(true);
@@ -328,6 +335,14 @@ export const BatchManagementPanel: React.FC = () => {
         </div>
       </Card>
 
+      <SeatOffersWorklist
+        key={worklistKey}
+        onChanged={() => {
+          fetchBatches();
+          fetchStats();
+        }}
+      />
+
       {loading ? (
         <div className="flex flex-col items-center justify-center h-40 bg-surface rounded-lg border border-white/7">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
@@ -386,6 +401,11 @@ export const BatchManagementPanel: React.FC = () => {
                         />
                       </div>
                     )}
+                    {(batch.waitlistCount ?? 0) > 0 && (
+                      <button onClick={() => setWaitlistBatchId(batch.id)} className="mt-1 block">
+                        <Badge variant="warning" size="sm">{batch.waitlistCount} waiting</Badge>
+                      </button>
+                    )}
                   </td>
                   <td className="px-4 py-3">
                     <span className="text-xs text-text-secondary">{formatSchedule(batch)}</span>
@@ -404,6 +424,13 @@ export const BatchManagementPanel: React.FC = () => {
                       >
                         <Users className="w-3.5 h-3.5" />
                       </button>
+                      <button
+                        onClick={() => setWaitlistBatchId(batch.id)}
+                        title="Waitlist"
+                        className="w-7 h-7 flex items-center justify-center rounded-md text-text-tertiary hover:text-primary-400 hover:bg-primary-600/15 transition-all"
+                      >
+                        <ListOrdered className="w-3.5 h-3.5" />
+                      </button>
                       <button
                         onClick={() => handleEditBatch(batch)}
                         title="Edit"
@@ -455,6 +482,18 @@ export const BatchManagementPanel: React.FC = () => {
         />
       )}
 
+      {waitlistBatch && (
+        <BatchWaitlistModal
+          batch={waitlistBatch}
+          onClose={() => setWaitlistBatchId(null)}
+          onChanged={() => {
+            fetchBatches();
+            fetchStats();
+            setWorklistKey((k) => k + 1);
+          }}
+        />
+      )}
+
       {isStudentsModalOpen && selectedBatch && (
         <BatchStudentsModal
           batch={selectedBatch}
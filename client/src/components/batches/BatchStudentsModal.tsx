@@ -7,6 +7,7 @@ import type { Student } from '../../types/student';
 import { BatchAPI } from '../../services/api';
 import StudentSelectorModal from './StudentSelectorModal';
 import BatchTransferConfirmModal from './BatchTransferConfirmModal';
+import BatchAttendanceSection from './BatchAttendanceSection';
 
 interface BatchStudentsModalProps {
   batch: Batch;
@@ -302,6 +303,13 @@ const BatchStudentsModal: React.FC<BatchStudentsModalProps> = ({ batch, onClose,
             </div>
           )}
 
+          {/* Attendance */}
+          {batch.status !== 'draft' && (
+            <div className="pt-4 border-t border-white/10">
+              <BatchAttendanceSection batch={batch} />
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end pt-4 border-t border-white/10">
             <Button variant="secondary" onClick={onClose}>
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowUpCircle, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { AdminBatchesAPI } from '../../services/api';
+import type { Batch, BatchWaitlistEntry } from '../../types/batch';
+
+interface BatchWaitlistModalProps {
+  batch: Batch;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/** A batch's waitlist in queue order, with promote and remove actions. */
+const BatchWaitlistModal = ({ batch, onClose, onChanged }: BatchWaitlistModalProps) => {
+  const [entries, setEntries] = useState<BatchWaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const seatsFull = batch.maxStudents !== null && (batch.currentStudentCount ?? 0) >= batch.maxStudents;
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await AdminBatchesAPI.getWaitlist(batch.id);
+      setEntries(res.success && res.data ? res.data : []);
+    } catch {
+      toast.error('Failed to load waitlist');
+    } finally {
+      setLoading(false);
+    }
+  }, [batch.id]);
+
+  useEffect(() => { fetchEntries(); }, [fetchEntries]);
+
+  const act = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await fetchEntries();
+      onChanged?.();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const promote = (entry?: BatchWaitlistEntry) => {
+    const next = entry ?? entries[0];
+    if (!next) return;
+    act(
+      () => AdminBatchesAPI.promoteFromWaitlist(batch.id, entry ? { entryId: entry.id } : {}),
+      `${next.studentName} moved into ${batch.batchName}`,
+    );
+  };
+
+  const remove = (entry: BatchWaitlistEntry) => {
+    if (!confirm(`Remove ${entry.studentName} from the waitlist?`)) return;
+    act(() => AdminBatchesAPI.removeFromWaitlist(batch.id, entry.id), `${entry.studentName} removed from the waitlist`);
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Waitlist · ${batch.batchName}`} size="lg">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-text-secondary">
+            {batch.currentStudentCount ?? 0}{batch.maxStudents ? `/${batch.maxStudents}` : ''} seats filled
+            {' '}· {entries.length} waiting
+          </p>
+          <Button
+            size="sm"
+            variant="primary"
+            disabled={busy || entries.length === 0 || seatsFull}
+            onClick={() => promote()}
+            title={seatsFull ? 'No free seat in this batch yet' : undefined}
+          >
+            <ArrowUpCircle className="w-3.5 h-3.5" /> Promote next
+          </Button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-text-tertiary py-6 text-center">Loading waitlist…</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-text-tertiary py-6 text-center">Nobody is waiting for this batch.</p>
+        ) : (
+          <div className="divide-y divide-white/7 border border-white/7 rounded-lg">
+            {entries.map((entry) => (
+              <div key={entry.id} className="px-3 py-2 flex items-center justify-between gap-3">
+                <div className="min-w-0 text-sm">
+                  <span className="text-text-tertiary mr-2">#{entry.position}</span>
+                  <span className="text-text-primary font-medium">{entry.studentName}</span>
+                  <span className="text-xs text-text-tertiary">
+                    {' '}· since {fmtDate(entry.createdAt)}
+                    {entry.seatAvailableAt && ` · seat offered ${fmtDate(entry.seatAvailableAt)}`}
+                  </span>
+                  {entry.note && <div className="text-xs text-text-tertiary truncate">{entry.note}</div>}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="sm" variant="outline" disabled={busy || seatsFull} onClick={() => promote(entry)}>
+                    Promote
+                  </Button>
+                  <button
+                    onClick={() => remove(entry)}
+                    disabled={busy}
+                    title="Remove from waitlist"
+                    className="w-7 h-7 flex items-center justify-center rounded-md text-text-tertiary hover:text-red-400 hover:bg-error-600/15 transition-all"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default BatchWaitlistModal;
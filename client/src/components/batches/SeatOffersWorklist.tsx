@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowUpCircle, Armchair } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminBatchesAPI } from '../../services/api';
+import type { SeatOffer } from '../../types/batch';
+import Button from '../ui/Button';
+
+interface SeatOffersWorklistProps {
+  /** Called after a student is promoted so the list around it can refresh. */
+  onChanged?: () => void;
+}
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Batches where a seat has been released while students are waiting for one,
+ * with the student next in line for each free seat. Renders nothing while
+ * the list is empty.
+ */
+const SeatOffersWorklist = ({ onChanged }: SeatOffersWorklistProps) => {
+  const navigate = useNavigate();
+  const [offers, setOffers] = useState<SeatOffer[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchOffers = useCallback(async () => {
+    try {
+      const res = await AdminBatchesAPI.getSeatOffers();
+      setOffers(res.success && res.data ? res.data : []);
+    } catch {
+      setOffers([]);
+    }
+  }, []);
+
+  useEffect(() => { fetchOffers(); }, [fetchOffers]);
+
+  const promote = async (offer: SeatOffer) => {
+    setBusyId(offer.entryId);
+    try {
+      await AdminBatchesAPI.promoteFromWaitlist(offer.batchId, { entryId: offer.entryId });
+      toast.success(`${offer.studentName} moved into ${offer.batchName}`);
+      await fetchOffers();
+      onChanged?.();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to promote student');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="bg-surface rounded-lg border border-primary-500/30 px-4 py-3">
+      <div className="flex items-center gap-2 mb-2">
+        <Armchair className="w-4 h-4 text-primary-400" />
+        <h3 className="text-sm font-semibold text-text-primary">Seats available · {offers.length}</h3>
+        <span className="text-xs text-text-tertiary">A seat has opened up for these waitlisted students.</span>
+      </div>
+      <div className="divide-y divide-white/7">
+        {offers.map((offer) => (
+          <div key={offer.entryId} className="py-2 flex items-center justify-between gap-3">
+            <div className="min-w-0 text-sm">
+              <button
+                onClick={() => navigate(`/students/${offer.studentId}`)}
+                className="text-text-primary hover:text-primary-400 font-medium"
+              >
+                {offer.studentName}
+              </button>
+              <span className="text-xs text-text-tertiary">
+                {' '}· #{offer.position} for {offer.batchName}{offer.batchCode ? ` (${offer.batchCode})` : ''}
+                {' '}· waiting since {fmtDate(offer.waitingSince)}
+                {offer.seatAvailableAt && ` · seat free since ${fmtDate(offer.seatAvailableAt)}`}
+              </span>
+            </div>
+            <Button
+              size="sm"
+              variant="primary"
+              disabled={busyId === offer.entryId}
+              onClick={() => promote(offer)}
+              className="flex-shrink-0"
+            >
+              <ArrowUpCircle className="w-3.5 h-3.5" /> Promote
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SeatOffersWorklist;
@@ -1,15 +1,24 @@
 import { useState, useEffect } from 'react';
 import { Pencil, Trash2, X } from 'lucide-react';
-import type { Course } from '../../types/course';
+import type { Course, LateFeePolicy, MakeupPolicy, ProRationMethod } from '../../types/course';
 import { AdminCoursesAPI } from '../../services/api';
 import toast from 'react-hot-toast';
 import FeeDivergencePanel from './FeeDivergencePanel';
 import Modal from '../ui/Modal';
 
-interface CourseForm { courseName: string; displayName: string; description: string; isActive: boolean; displayOrder: number; }
+interface CourseForm { courseName: string; displayName: string; description: string; isActive: boolean; displayOrder: number; proRationMethod: ProRationMethod; cutoffDay: number; lateFee: LateFeePolicy; makeup: MakeupPolicy; }
+const DEFAULT_LATE_FEE: LateFeePolicy = { enabled: false, type: 'flat', value: 0, graceDays: 0, capPerInvoice: null };
+const DEFAULT_MAKEUP: MakeupPolicy = { enabled: true, expiryDays: 60, excusedAbsences: true };
 interface StageForm { stageName: string; }
 interface LevelForm { levelNumber: number; feeAmount: number; durationMonthsMin: number; durationMonthsMax: number; approximateHours: number; description: string; }
 
+const PRO_RATION_LABELS: Record<ProRationMethod, string> = {
+  days: 'By days attended',
+  sessions: 'By scheduled classes',
+  cutoff: 'Full month if active on cutoff day',
+  none: 'Always full month',
+};
+
 const inputCls = 'w-full px-3 py-2 text-sm border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface';
 const btnPrimary = 'px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-500 transition-colors font-medium text-sm disabled:opacity-50';
 const btnGhost = 'px-4 py-2 border border-border text-text-secondary rounded-lg hover:bg-surface-hover hover:text-text-primary transition-colors text-sm';
@@ -21,7 +30,7 @@ const CourseConfigurationPanel = () => {
 
   const [showCourseModal, setShowCourseModal] = useState(false);
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
-  const [courseForm, setCourseForm] = useState<CourseForm>({ courseName: '', displayName: '', description: '', isActive: true, displayOrder: 0 });
+  const [courseForm, setCourseForm] = useState<CourseForm>({ courseName: '', displayName: '', description: '', isActive: true, displayOrder: 0, proRationMethod: 'days', cutoffDay: 15, lateFee: DEFAULT_LATE_FEE, makeup: DEFAULT_MAKEUP });
 
   const [showStageModal, setShowStageModal] = useState(false);
   const [stageCourseId, setStageCourseId] = useState('');
@@ -51,19 +60,19 @@ const CourseConfigurationPanel = () => {
   // Course CRUD
   const openCreateCourse = () => {
     setEditingCourse(null);
-    setCourseForm({ courseName: '', displayName: '', description: '', isActive: true, displayOrder: courses.length || 1 });
+    setCourseForm({ courseName: '', displayName: '', description: '', isActive: true, displayOrder: courses.length || 1, proRationMethod: 'days', cutoffDay: 15, lateFee: DEFAULT_LATE_FEE, makeup: DEFAULT_MAKEUP });
     setShowCourseModal(true);
   };
   const openEditCourse = (c: Course) => {
     setEditingCourse(c);
-    setCourseForm({ courseName: c.courseName, displayName: c.displayName, description: c.description || '', isActive: c.isActive, displayOrder: c.displayOrder });
+    setCourseForm({ courseName: c.courseName, displayName: c.displayName, description: c.description || '', isActive: c.isActive, displayOrder: c.displayOrder, proRationMethod: c.proRationPolicy?.method ?? 'days', cutoffDay: c.proRationPolicy?.cutoffDay ?? 15, lateFee: { ...DEFAULT_LATE_FEE, ...c.lateFeePolicy }, makeup: { ...DEFAULT_MAKEUP, ...c.makeupPolicy } });
     setShowCourseModal(true);
   };
   const submitCourse = async (e: React.FormEvent) => {
     e.preventDefault(); setSubmitting(true);
     try {
       if (editingCourse) {
-        await AdminCoursesAPI.update(editingCourse.id || editingCourse._id!, { displayName: courseForm.displayName, description: courseForm.description, displayOrder: courseForm.displayOrder, isActive: courseForm.isActive });
+        await AdminCoursesAPI.update(editingCourse.id || editingCourse._id!, { displayName: courseForm.displayName, description: courseForm.description, displayOrder: courseForm.displayOrder, isActive: courseForm.isActive, proRationPolicy: { method: courseForm.proRationMethod, cutoffDay: courseForm.cutoffDay }, lateFeePolicy: courseForm.lateFee, makeupPolicy: courseForm.makeup });
         toast.success('Program updated');
       } else {
         await AdminCoursesAPI.create({ courseName: courseForm.courseName.toLowerCase().trim(), displayName: courseForm.displayName, description: courseForm.description, displayOrder: courseForm.displayOrder });
@@ -165,7 +174,7 @@ const CourseConfigurationPanel = () => {
                 <div className="flex flex-col sm:flex-row justify-between items-start gap-3 mb-4">
                   <div>
                     <h3 className="text-base md:text-lg font-bold text-text-primary">{course.displayName}</h3>
-                    <p className="text-xs text-text-tertiary mt-0.5">ID: {course.courseName} · Order: {course.displayOrder}</p>
+                    <p className="text-xs text-text-tertiary mt-0.5">ID: {course.courseName} · Order: {course.displayOrder} · Partial months: {PRO_RATION_LABELS[course.proRationPolicy?.method ?? 'days']}{course.proRationPolicy?.method === 'cutoff' ? ` (day ${course.proRationPolicy.cutoffDay})` : ''}{course.lateFeePolicy?.enabled ? ` · Late fee: ${course.lateFeePolicy.type === 'percentage' ? `${course.lateFeePolicy.value}%` : `₹${course.lateFeePolicy.value}`} after ${course.lateFeePolicy.graceDays} days` : ''}</p>
                     {course.description && <p className="text-sm text-text-secondary mt-1">{course.description}</p>}
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
@@ -289,6 +298,76 @@ const CourseConfigurationPanel = () => {
                 </label>
               </div>
             </div>
+            {editingCourse && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className={courseForm.proRationMethod === 'cutoff' ? '' : 'col-span-2'}>
+                  <label className="block text-xs font-medium text-text-secondary mb-1">Partial-month Billing</label>
+                  <select className={inputCls} value={courseForm.proRationMethod} onChange={(e) => setCourseForm({ ...courseForm, proRationMethod: e.target.value as ProRationMethod })}>
+                    {(Object.keys(PRO_RATION_LABELS) as ProRationMethod[]).map((m) => <option key={m} value={m}>{PRO_RATION_LABELS[m]}</option>)}
+                  </select>
+                </div>
+                {courseForm.proRationMethod === 'cutoff' && (
+                  <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">Cutoff Day</label>
+                    <input type="number" className={inputCls} value={courseForm.cutoffDay} onChange={(e) => setCourseForm({ ...courseForm, cutoffDay: parseInt(e.target.value) || 1 })} min={1} max={28} />
+                  </div>
+                )}
+                <p className="col-span-2 text-xs text-text-tertiary">How invoices are priced when a student starts, upgrades, changes batch or leaves mid-month.</p>
+              </div>
+            )}
+            {editingCourse && (
+              <div className="grid grid-cols-2 gap-3">
+                <label className="col-span-2 flex items-center cursor-pointer gap-2">
+                  <input type="checkbox" checked={courseForm.lateFee.enabled} onChange={(e) => setCourseForm({ ...courseForm, lateFee: { ...courseForm.lateFee, enabled: e.target.checked } })} className="w-4 h-4 text-primary-600 rounded" />
+                  <span className="text-sm text-text-primary">Charge a late fee on overdue invoices</span>
+                </label>
+                {courseForm.lateFee.enabled && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-text-secondary mb-1">Late Fee Type</label>
+                      <select className={inputCls} value={courseForm.lateFee.type} onChange={(e) => setCourseForm({ ...courseForm, lateFee: { ...courseForm.lateFee, type: e.target.value as LateFeePolicy['type'] } })}>
+                        <option value="flat">Flat amount (₹)</option>
+                        <option value="percentage">Percentage of invoice</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-text-secondary mb-1">{courseForm.lateFee.type === 'percentage' ? 'Percentage' : 'Amount (₹)'}</label>
+                      <input type="number" className={inputCls} value={courseForm.lateFee.value} onChange={(e) => setCourseForm({ ...courseForm, lateFee: { ...courseForm.lateFee, value: parseFloat(e.target.value) || 0 } })} min={0} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-text-secondary mb-1">Grace Days</label>
+                      <input type="number" className={inputCls} value={courseForm.lateFee.graceDays} onChange={(e) => setCourseForm({ ...courseForm, lateFee: { ...courseForm.lateFee, graceDays: parseInt(e.target.value) || 0 } })} min={0} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-text-secondary mb-1">Cap per Invoice (₹)</label>
+                      <input type="number" className={inputCls} value={courseForm.lateFee.capPerInvoice ?? ''} placeholder="No cap" onChange={(e) => setCourseForm({ ...courseForm, lateFee: { ...courseForm.lateFee, capPerInvoice: e.target.value === '' ? null : parseInt(e.target.value) || 0 } })} min={0} />
+                    </div>
+                  </>
+                )}
+                <p className="col-span-2 text-xs text-text-tertiary">Charged once per invoice still unpaid after the grace days, as a separate late-fee invoice.</p>
+              </div>
+            )}
+            {editingCourse && (
+              <div className="grid grid-cols-2 gap-3">
+                <label className="col-span-2 flex items-center cursor-pointer gap-2">
+                  <input type="checkbox" checked={courseForm.makeup.enabled} onChange={(e) => setCourseForm({ ...courseForm, makeup: { ...courseForm.makeup, enabled: e.target.checked } })} className="w-4 h-4 text-primary-600 rounded" />
+                  <span className="text-sm text-text-primary">Owe a make-up class for cancelled sessions</span>
+                </label>
+                {courseForm.makeup.enabled && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-text-secondary mb-1">Expires After (days)</label>
+                      <input type="number" className={inputCls} value={courseForm.makeup.expiryDays} onChange={(e) => setCourseForm({ ...courseForm, makeup: { ...courseForm.makeup, expiryDays: parseInt(e.target.value) || 1 } })} min={1} />
+                    </div>
+                    <label className="flex items-center cursor-pointer gap-2 pt-5">
+                      <input type="checkbox" checked={courseForm.makeup.excusedAbsences} onChange={(e) => setCourseForm({ ...courseForm, makeup: { ...courseForm.makeup, excusedAbsences: e.target.checked } })} className="w-4 h-4 text-primary-600 rounded" />
+                      <span className="text-sm text-text-primary">Also for excused absences</span>
+                    </label>
+                  </>
+                )}
+                <p className="col-span-2 text-xs text-text-tertiary">Make-ups are booked into another batch at the same stage and level, without taking a permanent seat.</p>
+              </div>
+            )}
             <div className="flex justify-end gap-2 pt-2 border-t border-border">
               <button type="button" onClick={() => setShowCourseModal(false)} className={btnGhost}>Cancel</button>
               <button type="submit" className={btnPrimary} disabled={submitting}>{submitting ? 'Saving…' : editingCourse ? 'Update' : 'Create'}</button>
@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Home, IndianRupee, Pencil, Plus, Trash2, UserPlus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminFamiliesAPI, AdminStudentsAPI } from '../../services/api';
+import type { Family, FamilyFormData, SiblingDiscount } from '../../types/family';
+import Modal from '../ui/Modal';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+const inputCls = 'w-full px-3 py-2 text-sm border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface';
+const btnPrimary = 'px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-500 transition-colors font-medium text-sm disabled:opacity-50';
+const btnGhost = 'px-4 py-2 border border-border text-text-secondary rounded-lg hover:bg-surface-hover hover:text-text-primary transition-colors text-sm';
+
+type PaymentMethod = 'cash' | 'online' | 'card' | 'upi' | 'other';
+
+const EMPTY_DISCOUNT: SiblingDiscount = { enabled: false, type: 'percentage', value: 0, reason: 'Sibling discount' };
+const EMPTY_FORM: FamilyFormData & { siblingDiscount: SiblingDiscount } = {
+  familyName: '', guardianName: '', phone: '', email: '', alternatePhone: '', address: '', notes: '', siblingDiscount: EMPTY_DISCOUNT,
+};
+
+const fmt = (n: number) => `₹${(n ?? 0).toLocaleString('en-IN')}`;
+const familyId = (f: Family) => f.id || f._id;
+
+function discountLabel(rule?: SiblingDiscount): string | null {
+  if (!rule?.enabled || !(rule.value > 0)) return null;
+  return rule.type === 'percentage' ? `${rule.value}% sibling discount` : `${fmt(rule.value)} sibling discount`;
+}
+
+const FamiliesPanel = () => {
+  const [families, setFamilies] = useState<Family[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Create / edit
+  const [editing, setEditing] = useState<Family | null>(null);
+  const [showFamilyModal, setShowFamilyModal] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  // Add member
+  const [addingTo, setAddingTo] = useState<Family | null>(null);
+  const [studentSearch, setStudentSearch] = useState('');
+  const [studentResults, setStudentResults] = useState<Array<{ id: string; studentName: string; studentCode: string; familyId?: string | null }>>([]);
+
+  // Family payment
+  const [payingFor, setPayingFor] = useState<Family | null>(null);
+  const [payment, setPayment] = useState({ amount: 0, paymentMethod: 'cash' as PaymentMethod, transactionId: '', paymentDate: '', remarks: '', creditStudentId: '' });
+
+  const fetchFamilies = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await AdminFamiliesAPI.list(search || undefined);
+      setFamilies(res.success && res.data ? res.data : []);
+    } catch (e: any) {
+      toast.error(e.message || 'Failed to load families');
+    } finally {
+      setLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchFamilies, 300);
+    return () => clearTimeout(timer);
+  }, [fetchFamilies]);
+
+  useEffect(() => {
+    if (!addingTo || studentSearch.trim().length < 2) {
+      setStudentResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const res = await AdminStudentsAPI.list({ search: studentSearch.trim(), limit: 8, isActive: 'all' });
+        const rows = res.data?.data ?? [];
+        setStudentResults(rows.map((s: any) => ({ id: s.id || s._id, studentName: s.studentName, studentCode: s.studentCode, familyId: s.familyId })));
+      } catch { setStudentResults([]); }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [addingTo, studentSearch]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setShowFamilyModal(true);
+  };
+  const openEdit = (f: Family) => {
+    setEditing(f);
+    setForm({
+      familyName: f.familyName, guardianName: f.guardianName ?? '', phone: f.phone ?? '', email: f.email ?? '',
+      alternatePhone: f.alternatePhone ?? '', address: f.address ?? '', notes: f.notes ?? '',
+      siblingDiscount: { ...EMPTY_DISCOUNT, ...f.siblingDiscount },
+    });
+    setShowFamilyModal(true);
+  };
+
+  const submitFamily = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.phone && !form.email) {
+      toast.error('Provide a phone number or email');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      if (editing) {
+        await AdminFamiliesAPI.update(familyId(editing), form);
+        toast.success('Family updated — contact details copied to its students');
+      } else {
+        await AdminFamiliesAPI.create(form);
+        toast.success('Family created');
+      }
+      setShowFamilyModal(false);
+      fetchFamilies();
+    } catch (e: any) { toast.error(e.response?.data?.error || e.message || 'Failed'); }
+    finally { setSubmitting(false); }
+  };
+
+  const deleteFamily = async (f: Family) => {
+    if (!confirm(`Delete family "${f.familyName}"?`)) return;
+    try {
+      await AdminFamiliesAPI.delete(familyId(f));
+      toast.success('Family deleted');
+      fetchFamilies();
+    } catch (e: any) { toast.error(e.response?.data?.error || e.message || 'Failed'); }
+  };
+
+  const addMember = async (studentId: string) => {
+    if (!addingTo) return;
+    try {
+      await AdminFamiliesAPI.addMember(familyId(addingTo), studentId);
+      toast.success('Student added to family');
+      setAddingTo(null);
+      setStudentSearch('');
+      fetchFamilies();
+    } catch (e: any) { toast.error(e.response?.data?.error || e.message || 'Failed'); }
+  };
+
+  const removeMember = async (f: Family, studentId: string, studentName: string) => {
+    if (!confirm(`Remove ${studentName} from ${f.familyName}?`)) return;
+    try {
+      await AdminFamiliesAPI.removeMember(familyId(f), studentId);
+      fetchFamilies();
+    } catch (e: any) { toast.error(e.response?.data?.error || e.message || 'Failed'); }
+  };
+
+  const openPayment = (f: Family) => {
+    setPayingFor(f);
+    setPayment({ amount: f.balanceDue, paymentMethod: 'cash', transactionId: '', paymentDate: new Date().toISOString().slice(0, 10), remarks: '', creditStudentId: '' });
+  };
+
+  const submitPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingFor || !(payment.amount > 0)) return;
+    setSubmitting(true);
+    try {
+      const res = await AdminFamiliesAPI.recordPayment(familyId(payingFor), {
+        amount: payment.amount,
+        paymentMethod: payment.paymentMethod,
+        transactionId: payment.transactionId || undefined,
+        paymentDate: payment.paymentDate || undefined,
+        remarks: payment.remarks || undefined,
+        creditStudentId: payment.creditStudentId || undefined,
+      });
+      const shares = res.data?.shares ?? [];
+      toast.success(`Payment split across ${shares.length} student${shares.length === 1 ? '' : 's'}: ${shares.map((s) => `${s.studentName} ${fmt(s.amount)}`).join(', ')}`);
+      setPayingFor(null);
+      fetchFamilies();
+    } catch (e: any) { toast.error(e.response?.data?.error || e.message || 'Payment failed'); }
+    finally { setSubmitting(false); }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3 justify-between">
+        <input className={`${inputCls} sm:max-w-xs`} placeholder="Search family, guardian, phone…" value={search} onChange={(e) => setSearch(e.target.value)} />
+        <button onClick={openCreate} className={`${btnPrimary} inline-flex items-center gap-1.5`}><Plus className="w-4 h-4" /> New Family</button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12"><LoadingSpinner /></div>
+      ) : families.length === 0 ? (
+        <div className="text-center py-12 bg-surface rounded-lg border border-white/7">
+          <Home className="w-10 h-10 text-text-tertiary mx-auto mb-3" />
+          <p className="text-sm text-text-secondary">No families yet. Group siblings into a family to share contacts and billing.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {families.map((f) => (
+            <div key={familyId(f)} className="bg-surface rounded-lg border border-white/7 p-4 space-y-3">
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <h3 className="text-base font-bold text-text-primary">{f.familyName}</h3>
+                  <p className="text-xs text-text-tertiary mt-0.5">
+                    {[f.guardianName, f.phone, f.email].filter(Boolean).join(' · ')}
+                  </p>
+                  {discountLabel(f.siblingDiscount) && <p className="text-xs text-accent-400 mt-0.5">{discountLabel(f.siblingDiscount)}</p>}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button onClick={() => openEdit(f)} className="p-1.5 text-primary-600 hover:bg-surface-hover rounded-lg" title="Edit"><Pencil className="w-4 h-4" /></button>
+                  <button onClick={() => deleteFamily(f)} className="p-1.5 text-red-400 hover:bg-surface-hover rounded-lg" title="Delete"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </div>
+
+              <ul className="divide-y divide-white/7 border border-white/7 rounded-lg">
+                {f.members.length === 0 && <li className="px-3 py-2 text-xs text-text-tertiary">No students yet</li>}
+                {f.members.map((m) => (
+                  <li key={m.id || m._id} className="px-3 py-2 flex items-center justify-between gap-2 text-sm">
+                    <span className="text-text-primary truncate">
+                      {m.studentName} <span className="text-xs text-text-tertiary">{m.studentCode}{!m.isActive && ' · inactive'}</span>
+                    </span>
+                    <span className="flex items-center gap-2 flex-shrink-0">
+                      <span className={`text-xs ${(m.balanceDue ?? 0) > 0 ? 'text-red-400' : 'text-text-tertiary'}`}>{fmt(m.balanceDue ?? 0)} due</span>
+                      <button onClick={() => removeMember(f, m.id || m._id, m.studentName)} className="p-1 text-text-tertiary hover:text-red-400" title="Remove from family"><X className="w-3.5 h-3.5" /></button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm text-text-secondary">Family balance: <span className="font-semibold text-text-primary">{fmt(f.balanceDue)}</span></span>
+                <div className="flex gap-2">
+                  <button onClick={() => { setAddingTo(f); setStudentSearch(''); }} className={`${btnGhost} inline-flex items-center gap-1.5`}><UserPlus className="w-4 h-4" /> Add Student</button>
+                  <button onClick={() => openPayment(f)} disabled={f.members.length === 0} className={`${btnPrimary} inline-flex items-center gap-1.5`}><IndianRupee className="w-4 h-4" /> Record Payment</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showFamilyModal && (
+        <Modal isOpen={showFamilyModal} title={editing ? 'Edit Family' : 'New Family'} onClose={() => setShowFamilyModal(false)}>
+          <form onSubmit={submitFamily} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-text-secondary mb-1">Family Name *</label>
+                <input className={inputCls} value={form.familyName} onChange={(e) => setForm({ ...form, familyName: e.target.value })} required placeholder="e.g. Sharma family" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Guardian Name</label>
+                <input className={inputCls} value={form.guardianName} onChange={(e) => setForm({ ...form, guardianName: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Phone</label>
+                <input className={inputCls} value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Email</label>
+                <input type="email" className={inputCls} value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Alternate Phone</label>
+                <input className={inputCls} value={form.alternatePhone} onChange={(e) => setForm({ ...form, alternatePhone: e.target.value })} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-text-secondary mb-1">Address</label>
+                <input className={inputCls} value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} />
+              </div>
+              <label className="col-span-2 flex items-center cursor-pointer gap-2 pt-1">
+                <input type="checkbox" checked={form.siblingDiscount.enabled} onChange={(e) => setForm({ ...form, siblingDiscount: { ...form.siblingDiscount, enabled: e.target.checked } })} className="w-4 h-4 text-primary-600 rounded" />
+                <span className="text-sm text-text-primary">Apply a sibling discount from the second child</span>
+              </label>
+              {form.siblingDiscount.enabled && (
+                <>
+                  <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">Discount Type</label>
+                    <select className={inputCls} value={form.siblingDiscount.type} onChange={(e) => setForm({ ...form, siblingDiscount: { ...form.siblingDiscount, type: e.target.value as SiblingDiscount['type'] } })}>
+                      <option value="percentage">Percentage</option>
+                      <option value="fixed">Fixed amount (₹)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-text-secondary mb-1">{form.siblingDiscount.type === 'percentage' ? 'Percentage' : 'Amount (₹)'}</label>
+                    <input type="number" className={inputCls} value={form.siblingDiscount.value} min={0} max={form.siblingDiscount.type === 'percentage' ? 100 : undefined} onChange={(e) => setForm({ ...form, siblingDiscount: { ...form.siblingDiscount, value: parseFloat(e.target.value) || 0 } })} />
+                  </div>
+                  <p className="col-span-2 text-xs text-text-tertiary">Applied to each new enrollment while another sibling is enrolled, unless a discount or custom fee is set when adding the student.</p>
+                </>
+              )}
+            </div>
+            <div className="flex justify-end gap-2 pt-2 border-t border-border">
+              <button type="button" onClick={() => setShowFamilyModal(false)} className={btnGhost}>Cancel</button>
+              <button type="submit" className={btnPrimary} disabled={submitting}>{submitting ? 'Saving…' : editing ? 'Update' : 'Create'}</button>
+            </div>
+          </form>
+        </Modal>
+      )}
+
+      {addingTo && (
+        <Modal isOpen={!!addingTo} title={`Add student to ${addingTo.familyName}`} onClose={() => setAddingTo(null)} size="sm">
+          <div className="space-y-3">
+            <input className={inputCls} autoFocus placeholder="Search by name, code or phone…" value={studentSearch} onChange={(e) => setStudentSearch(e.target.value)} />
+            <ul className="divide-y divide-white/7">
+              {studentResults.map((s) => (
+                <li key={s.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+                  <span className="text-text-primary">{s.studentName} <span className="text-xs text-text-tertiary">{s.studentCode}</span></span>
+                  {s.familyId
+                    ? <span className="text-xs text-text-tertiary">{s.familyId === familyId(addingTo) ? 'Already a member' : 'In another family'}</span>
+                    : <button onClick={() => addMember(s.id)} className="text-xs text-primary-500 hover:underline">Add</button>}
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-text-tertiary">The family's contact details are copied onto the student.</p>
+          </div>
+        </Modal>
+      )}
+
+      {payingFor && (
+        <Modal isOpen={!!payingFor} title={`Family payment — ${payingFor.familyName}`} onClose={() => setPayingFor(null)} size="sm">
+          <form onSubmit={submitPayment} className="space-y-3">
+            <p className="text-xs text-text-tertiary">Settles the siblings' invoices oldest-first. Each student gets their own receipt.</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Amount (₹) *</label>
+                <input type="number" className={inputCls} value={payment.amount} min={1} required onChange={(e) => setPayment({ ...payment, amount: parseInt(e.target.value) || 0 })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Method *</label>
+                <select className={inputCls} value={payment.paymentMethod} onChange={(e) => setPayment({ ...payment, paymentMethod: e.target.value as PaymentMethod })}>
+                  <option value="cash">Cash</option>
+                  <option value="upi">UPI</option>
+                  <option value="online">Online transfer</option>
+                  <option value="card">Card</option>
+                  <option value="other">Other</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Payment Date</label>
+                <input type="date" className={inputCls} value={payment.paymentDate} onChange={(e) => setPayment({ ...payment, paymentDate: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-text-secondary mb-1">Transaction ID</label>
+                <input className={inputCls} value={payment.transactionId} onChange={(e) => setPayment({ ...payment, transactionId: e.target.value })} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-text-secondary mb-1">Store any excess as credit for</label>
+                <select className={inputCls} value={payment.creditStudentId} onChange={(e) => setPayment({ ...payment, creditStudentId: e.target.value })}>
+                  <option value="">Eldest enrolled student</option>
+                  {payingFor.members.map((m) => <option key={m.id || m._id} value={m.id || m._id}>{m.studentName}</option>)}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-text-secondary mb-1">Remarks</label>
+                <input className={inputCls} value={payment.remarks} onChange={(e) => setPayment({ ...payment, remarks: e.target.value })} />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 pt-2 border-t border-border">
+              <button type="button" onClick={() => setPayingFor(null)} className={btnGhost}>Cancel</button>
+              <button type="submit" className={btnPrimary} disabled={submitting || !(payment.amount > 0)}>{submitting ? 'Recording…' : `Record ${fmt(payment.amount)}`}</button>
+            </div>
+          </form>
+        </Modal>
+      )}
+    </div>
+  );
+};
+
+export default FamiliesPanel;
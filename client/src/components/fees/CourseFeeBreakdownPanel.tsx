@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { CourseFeeBreakdown, FeeBreakdownTotals } from '../../types/student';
+
+interface CourseFeeBreakdownPanelProps {
+  courses: CourseFeeBreakdown[];
+  formatCurrency: (amount: number) => string;
+}
+
+const LEGEND = [
+  { color: 'bg-accent-500/70', label: 'Collected' },
+  { color: 'bg-secondary-500/50', label: 'Upcoming' },
+  { color: 'bg-red-500/60', label: 'Overdue' },
+];
+
+/** Collected / upcoming / overdue as one stacked bar; upcoming is outstanding not yet overdue. */
+function FeeBar({ totals }: { totals: FeeBreakdownTotals }) {
+  const upcoming = Math.max(0, totals.outstanding - totals.overdue);
+  const total = (totals.collected + totals.outstanding) || 1;
+  const collectedPct = Math.round((totals.collected / total) * 100);
+  const upcomingPct = Math.round((upcoming / total) * 100);
+  const overduePct = Math.max(0, 100 - collectedPct - upcomingPct);
+  return (
+    <div className="flex-1 flex h-2 rounded-full overflow-hidden bg-white/7 gap-px">
+      <div className="bg-accent-500/70 transition-all duration-500" style={{ width: `${collectedPct}%` }} />
+      <div className="bg-secondary-500/50 transition-all duration-500" style={{ width: `${upcomingPct}%` }} />
+      {totals.overdue > 0 && <div className="bg-red-500/60 transition-all duration-500" style={{ width: `${overduePct}%` }} />}
+    </div>
+  );
+}
+
+/**
+ * Tuition totals per course, then per stage (named from the course's own
+ * configuration), expandable to levels. Courses and stages come from the
+ * invoices themselves, so new ones appear without changes here.
+ */
+const CourseFeeBreakdownPanel = ({ courses, formatCurrency }: CourseFeeBreakdownPanelProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const figures = (totals: FeeBreakdownTotals) => (
+    <div className="flex gap-3 text-xs flex-shrink-0 w-64 justify-end">
+      <span className="text-accent-400">{formatCurrency(totals.collected)}</span>
+      {totals.overdue > 0 && <span className="text-red-400">{formatCurrency(totals.overdue)} overdue</span>}
+      <span className="text-text-tertiary">{totals.students} students</span>
+    </div>
+  );
+
+  return (
+    <div className="bg-surface rounded-lg border border-white/7 p-5">
+      <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest mb-4">Course & Stage Breakdown</h3>
+      {courses.length === 0 ? (
+        <p className="text-sm text-text-tertiary text-center py-4">No fees recorded yet</p>
+      ) : (
+        <div className="space-y-5">
+          {courses.map((course) => (
+            <div key={course.courseId} className="space-y-2.5">
+              <div className="flex items-center gap-4">
+                <span className="text-sm font-semibold text-text-primary w-40 flex-shrink-0 truncate">{course.courseName}</span>
+                <FeeBar totals={course} />
+                {figures(course)}
+              </div>
+              {course.stages.map((stage) => {
+                const key = `${course.courseId}:${stage.stageNumber}`;
+                const isOpen = expanded.has(key);
+                return (
+                  <div key={key} className="space-y-2">
+                    <div className="flex items-center gap-4">
+                      <button
+                        onClick={() => toggle(key)}
+                        className="flex items-center gap-1 text-xs text-text-secondary hover:text-text-primary w-40 flex-shrink-0 pl-3 text-left"
+                      >
+                        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        <span className="truncate">{stage.stageName}</span>
+                      </button>
+                      <FeeBar totals={stage} />
+                      {figures(stage)}
+                    </div>
+                    {isOpen && stage.levels.map((level) => (
+                      <div key={level.levelNumber} className="flex items-center gap-4">
+                        <span className="text-xs text-text-tertiary w-40 flex-shrink-0 pl-10">Level {level.levelNumber}</span>
+                        <FeeBar totals={level} />
+                        {figures(level)}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-4 mt-3 pt-3 border-t border-white/7">
+        {LEGEND.map((l) => (
+          <div key={l.label} className="flex items-center gap-1.5">
+            <span className={`w-2 h-2 rounded-full ${l.color}`} />
+            <span className="text-xs text-text-tertiary">{l.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CourseFeeBreakdownPanel;
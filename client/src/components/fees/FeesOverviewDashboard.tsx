@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import type { FeeStats } from '../../types/student';
-import api from '../../services/api';
+import api, { AdminFeesAPI } from '../../services/api';
 import toast from 'react-hot-toast';
 import { Users, CheckCircle2, Clock, AlertTriangle, Hourglass } from 'lucide-react';
+import CourseFeeBreakdownPanel from './CourseFeeBreakdownPanel';
+import ExportButton from '../ui/ExportButton';
 
 const FeesOverviewDashboard = () => {
   const [stats, setStats] = useState<FeeStats | null>(null);
@@ -15,10 +18,12 @@ const FeesOverviewDashboard = () => {
   const fetchFeeStats = async () => {
     try {
       setLoading(true);
-      const response = await api.get<{ success: boolean; data: any }>('/v2/dashboard');
+      const [response, refunds] = await Promise.all([
+        api.get<{ success: boolean; data: any }>('/v2/dashboard'),
+        AdminFeesAPI.listRefunds('pending'),
+      ]);
       if (response.data.success && response.data.data) {
         const dashboard = response.data.data;
-        const stageBD = dashboard?.stageBreakdown ?? {};
         setStats({
           totalCollected: dashboard?.fees?.totalCollected ?? 0,
           totalUpcoming: dashboard?.fees?.totalOutstanding ?? 0,
@@ -29,11 +34,10 @@ const FeesOverviewDashboard = () => {
           upcomingStudents: dashboard?.fees?.upcomingStudents ?? 0,
           overdueStudentsCount: dashboard?.overdueStudents?.length ?? 0,
           partiallyPaidStudents: dashboard?.fees?.partialStudents ?? 0,
-          stageBreakdown: {
-            beginner: stageBD.beginner ?? { collected: 0, upcoming: 0, overdue: 0, students: 0, paidStudents: 0 },
-            intermediate: stageBD.intermediate ?? { collected: 0, upcoming: 0, overdue: 0, students: 0, paidStudents: 0 },
-            advanced: stageBD.advanced ?? { collected: 0, upcoming: 0, overdue: 0, students: 0, paidStudents: 0 },
-          },
+          lateFees: dashboard?.lateFees ?? { assessed: 0, collected: 0, waived: 0, outstanding: 0 },
+          credits: dashboard?.credits ?? { onAccount: 0, refunded: 0, refundCount: 0, pendingRefunds: 0, pendingRefundCount: 0 },
+          pendingRefunds: refunds.data ?? [],
+          courseBreakdown: dashboard?.courseBreakdown ?? [],
           recentPayments: dashboard?.recentPayments ?? [],
           overdueStudents: dashboard?.overdueStudents ?? [],
         });
@@ -78,7 +82,9 @@ const FeesOverviewDashboard = () => {
   return (
     <div className="space-y-5">
       {/* Toolbar */}
-      <div className="flex items-center justify-end gap-2">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <ExportButton label="Invoices" onExport={(format) => AdminFeesAPI.exportInvoices({}, format)} />
+        <ExportButton label="Payments" onExport={(format) => AdminFeesAPI.exportPayments({}, format)} />
         <button
           onClick={fetchFeeStats}
           className="px-3 py-2 bg-surface-alt border border-white/10 text-text-secondary rounded-lg text-sm hover:border-white/20 hover:text-text-primary transition-all"
@@ -155,44 +161,66 @@ const FeesOverviewDashboard = () => {
         ))}
       </div>
 
-      {/* Stage breakdown — horizontal bar chart */}
-      <div className="bg-surface rounded-lg border border-white/7 p-5">
-        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest mb-4">Stage Breakdown</h3>
-        <div className="space-y-4">
-          {Object.entries(stats.stageBreakdown).map(([stage, data]) => {
-            const total = (data.collected + data.upcoming + data.overdue) || 1;
-            const collectedPct = Math.round((data.collected / total) * 100);
-            const upcomingPct = Math.round((data.upcoming / total) * 100);
-            const overduePct = Math.max(0, 100 - collectedPct - upcomingPct);
-            return (
-              <div key={stage} className="flex items-center gap-4">
-                <span className="text-xs text-text-secondary capitalize w-24 flex-shrink-0">{stage}</span>
-                <div className="flex-1 flex h-2 rounded-full overflow-hidden bg-white/7 gap-px">
-                  <div className="bg-accent-500/70 transition-all duration-500" style={{ width: `${collectedPct}%` }} />
-                  <div className="bg-secondary-500/50 transition-all duration-500" style={{ width: `${upcomingPct}%` }} />
-                  <div className="bg-red-500/60 transition-all duration-500" style={{ width: `${overduePct}%` }} />
-                </div>
-                <div className="flex gap-3 text-xs flex-shrink-0">
-                  <span className="text-accent-400">{formatCurrency(data.collected)}</span>
-                  <span className="text-text-tertiary">{data.students} students</span>
-                </div>
+      {/* Late fees — reported apart from tuition above */}
+      {stats.lateFees.assessed > 0 && (
+        <div className="bg-surface rounded-lg border border-white/7 p-5">
+          <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest mb-4">Late Fees</h3>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {[
+              { label: 'Assessed', value: stats.lateFees.assessed, color: 'text-text-primary' },
+              { label: 'Collected', value: stats.lateFees.collected, color: 'text-accent-400' },
+              { label: 'Waived', value: stats.lateFees.waived, color: 'text-text-secondary' },
+              { label: 'Outstanding', value: stats.lateFees.outstanding, color: 'text-red-400' },
+            ].map((item) => (
+              <div key={item.label}>
+                <p className="text-xs text-text-tertiary">{item.label}</p>
+                <p className={`text-sm font-semibold ${item.color}`}>{formatCurrency(item.value)}</p>
               </div>
-            );
-          })}
+            ))}
+          </div>
         </div>
-        <div className="flex gap-4 mt-3 pt-3 border-t border-white/7">
-          {[
-            { color: 'bg-accent-500/70', label: 'Collected' },
-            { color: 'bg-secondary-500/50', label: 'Upcoming' },
-            { color: 'bg-red-500/60', label: 'Overdue' },
-          ].map((l) => (
-            <div key={l.label} className="flex items-center gap-1.5">
-              <span className={`w-2 h-2 rounded-full ${l.color}`} />
-              <span className="text-xs text-text-tertiary">{l.label}</span>
+      )}
+
+      {/* Credit balances and refunds paid back out */}
+      {(stats.credits.onAccount > 0 || stats.credits.refundCount > 0 || stats.credits.pendingRefundCount > 0) && (
+        <div className="bg-surface rounded-lg border border-white/7 p-5">
+          <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest mb-4">Credit & Refunds</h3>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <p className="text-xs text-text-tertiary">Credit on account</p>
+              <p className="text-sm font-semibold text-accent-400">{formatCurrency(stats.credits.onAccount)}</p>
             </div>
-          ))}
+            <div>
+              <p className="text-xs text-text-tertiary">Refunded ({stats.credits.refundCount})</p>
+              <p className="text-sm font-semibold text-text-primary">{formatCurrency(stats.credits.refunded)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-text-tertiary">Awaiting approval ({stats.credits.pendingRefundCount})</p>
+              <p className="text-sm font-semibold text-secondary-400">{formatCurrency(stats.credits.pendingRefunds)}</p>
+            </div>
+          </div>
+          {stats.pendingRefunds.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-white/7 space-y-1.5">
+              {stats.pendingRefunds.map((refund) => (
+                <Link
+                  key={refund.id}
+                  to={`/students/${refund.studentId}?tab=credits`}
+                  className="flex items-center justify-between text-sm hover:text-primary-400 transition-colors"
+                >
+                  <span className="text-text-primary truncate">
+                    {refund.studentName}
+                    <span className="text-xs text-text-tertiary"> · {refund.reason}{refund.requestedBy?.name ? ` · ${refund.requestedBy.name}` : ''}</span>
+                  </span>
+                  <span className="text-secondary-400 font-medium flex-shrink-0">{formatCurrency(refund.amount)}</span>
+                </Link>
+              ))}
+            </div>
+          )}
         </div>
-      </div>
+      )}
+
+      {/* Course → stage → level breakdown */}
+      <CourseFeeBreakdownPanel courses={stats.courseBreakdown} formatCurrency={formatCurrency} />
 
       {/* Bottom panels */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -0,0 +1,464 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Upload, RefreshCw, FileSpreadsheet, EyeOff, Eye, PlusCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminReconciliationAPI, AdminStudentsAPI } from '../../services/api';
+import type {
+  BankStatementSummary,
+  ReconciledPayment,
+  ReconciliationReport,
+  StatementLine,
+  StatementLineStatus,
+  StatementUploadOptions,
+} from '../../types/reconciliation';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+const STATUS_META: Record<StatementLineStatus, { label: string; cls: string }> = {
+  matched:   { label: 'Matched',   cls: 'bg-accent-400/15 text-accent-400' },
+  mismatch:  { label: 'Mismatch',  cls: 'bg-secondary-400/15 text-secondary-400' },
+  unmatched: { label: 'Bank only', cls: 'bg-error-600/15 text-error-600' },
+  ignored:   { label: 'Ignored',   cls: 'bg-text-tertiary/15 text-text-tertiary' },
+};
+
+const MATCH_LABELS = {
+  transaction_id: 'by reference',
+  amount_date: 'by amount & date',
+  created: 'recorded from statement',
+};
+
+type Filter = 'all' | StatementLineStatus;
+
+const inputCls = 'w-full h-9 px-3 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary placeholder:text-text-tertiary focus:outline-none focus:ring-1 focus:ring-primary-400';
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+function fmtFee(n: number) {
+  return `₹${n.toLocaleString('en-IN')}`;
+}
+
+function PaymentRef({ payment }: { payment: ReconciledPayment }) {
+  return (
+    <div className="text-xs">
+      <span className="text-text-primary">{payment.studentName}</span>
+      <span className="text-text-tertiary">
+        {' '}· {fmtFee(payment.amount)} · {fmtDate(payment.paymentDate)}
+        {payment.receiptNumber && ` · ${payment.receiptNumber}`}
+        {payment.transactionId && ` · ${payment.transactionId}`}
+      </span>
+      {payment.isReversed && <span className="text-error-600"> · reversed since</span>}
+    </div>
+  );
+}
+
+/** Inline form recording an unmatched bank line as a payment for a student. */
+function RecordPaymentForm({ line, onRecord, onCancel, busy }: {
+  line: StatementLine;
+  onRecord: (studentId: string, paymentMethod: 'online' | 'upi' | 'card' | 'other') => void;
+  onCancel: () => void;
+  busy: boolean;
+}) {
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Array<{ id: string; studentName: string; studentCode: string }>>([]);
+  const [student, setStudent] = useState<{ id: string; studentName: string } | null>(null);
+  const [method, setMethod] = useState<'online' | 'upi' | 'card' | 'other'>('upi');
+
+  useEffect(() => {
+    const term = search.trim();
+    const timer = setTimeout(async () => {
+      if (term.length < 2) { setResults([]); return; }
+      try {
+        const res = await AdminStudentsAPI.list({ search: term, limit: 8, isActive: 'all' });
+        const rows = res.data?.data ?? [];
+        setResults(rows.map((s: any) => ({ id: s.id || s._id, studentName: s.studentName, studentCode: s.studentCode })));
+      } catch { setResults([]); }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  return (
+    <div className="mt-2 pt-2 border-t border-white/7 space-y-2">
+      <p className="text-xs text-text-tertiary">
+        Records {fmtFee(line.amount)} dated {fmtDate(line.txnDate)}{line.reference && ` with reference ${line.reference}`},
+        settling the student's oldest open invoices first.
+      </p>
+      {student ? (
+        <div className="flex items-center justify-between text-sm bg-surface border border-white/7 rounded-lg px-3 py-2">
+          <span className="text-text-primary">{student.studentName}</span>
+          <button onClick={() => setStudent(null)} className="text-xs text-text-tertiary hover:text-text-primary">Change</button>
+        </div>
+      ) : (
+        <div>
+          <input className={inputCls} placeholder="Search student by name, code or phone…" value={search} onChange={(e) => setSearch(e.target.value)} />
+          {results.length > 0 && (
+            <div className="mt-1 border border-white/7 rounded-lg divide-y divide-white/7 max-h-48 overflow-y-auto">
+              {results.map((s) => (
+                <button
+                  key={s.id}
+                  onClick={() => { setStudent(s); setResults([]); setSearch(''); }}
+                  className="w-full text-left px-3 py-1.5 text-sm hover:bg-surface-hover"
+                >
+                  <span className="text-text-primary">{s.studentName}</span>
+                  <span className="text-xs text-text-tertiary"> · {s.studentCode}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <div className="flex items-center justify-end gap-2">
+        <select value={method} onChange={(e) => setMethod(e.target.value as typeof method)} className={`${inputCls} w-auto`}>
+          <option value="upi">UPI</option>
+          <option value="online">Online / bank transfer</option>
+          <option value="card">Card</option>
+          <option value="other">Other</option>
+        </select>
+        <Button size="sm" variant="secondary" onClick={onCancel} disabled={busy}>Cancel</Button>
+        <Button size="sm" variant="primary" onClick={() => student && onRecord(student.id, method)} disabled={busy || !student}>
+          {busy ? 'Recording...' : 'Record payment'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const ReconciliationPanel = () => {
+  const [statements, setStatements] = useState<BankStatementSummary[]>([]);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [recordingLineId, setRecordingLineId] = useState<string | null>(null);
+
+  // Upload form
+  const [file, setFile] = useState<File | null>(null);
+  const [options, setOptions] = useState<StatementUploadOptions>({ windowDays: 3 });
+  const [showColumns, setShowColumns] = useState(false);
+
+  const fetchStatements = useCallback(async () => {
+    try {
+      const res = await AdminReconciliationAPI.listStatements();
+      setStatements(res.success && res.data ? res.data : []);
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load statements');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchStatements(); }, [fetchStatements]);
+
+  const showReport = (next: ReconciliationReport) => {
+    setReport(next);
+    setRecordingLineId(null);
+  };
+
+  const openStatement = async (statementId: string) => {
+    setLoadingReport(true);
+    try {
+      const res = await AdminReconciliationAPI.getReport(statementId);
+      if (res.success && res.data) {
+        showReport(res.data);
+        setFilter('all');
+      }
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load report');
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) { toast.error('Choose a CSV statement first'); return; }
+    setBusy(true);
+    try {
+      const res = await AdminReconciliationAPI.uploadStatement(file, options);
+      if (res.success && res.data) {
+        showReport(res.data);
+        setFilter('all');
+        toast.success(`${res.data.summary.lines} bank lines imported, ${res.data.summary.matched} matched`);
+      }
+      setFile(null);
+      await fetchStatements();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Statement import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const run = async (action: () => Promise<ReconciliationReport | undefined>, success: string) => {
+    setBusy(true);
+    try {
+      const next = await action();
+      if (next) showReport(next);
+      toast.success(success);
+      await fetchStatements();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const statementId = report?.statement.id;
+  const lines = report ? report.lines.filter((l) => filter === 'all' || l.status === filter) : [];
+
+  return (
+    <div className="space-y-5">
+      {/* Upload */}
+      <div className="bg-surface border border-white/7 rounded-lg px-5 py-4 space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-text-primary">Import bank / UPI statement</h2>
+          <p className="text-xs text-text-tertiary mt-0.5">
+            Upload the CSV export from the bank or UPI app. Incoming credits are matched to recorded payments by
+            transaction reference, then by amount within the date window.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex-1 min-w-[220px]">
+            <span className="block text-xs font-medium text-text-secondary mb-1.5">Statement (.csv)</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-text-secondary file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-surface-alt file:text-text-primary"
+            />
+          </label>
+          <label className="w-32">
+            <span className="block text-xs font-medium text-text-secondary mb-1.5">Date window (days)</span>
+            <input
+              type="number"
+              min={0}
+              max={15}
+              value={options.windowDays ?? 3}
+              onChange={(e) => setOptions((o) => ({ ...o, windowDays: Number(e.target.value) }))}
+              className={inputCls}
+            />
+          </label>
+          <Button variant="primary" onClick={handleUpload} disabled={busy || !file}>
+            <Upload className="w-4 h-4" /> {busy ? 'Importing...' : 'Import'}
+          </Button>
+        </div>
+        <button onClick={() => setShowColumns((v) => !v)} className="text-xs text-text-tertiary hover:text-text-primary">
+          {showColumns ? 'Hide column names' : 'Columns not detected? Name them'}
+        </button>
+        {showColumns && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {([
+              ['dateColumn', 'Date column'],
+              ['amountColumn', 'Credit / amount column'],
+              ['referenceColumn', 'Reference / UTR column'],
+              ['descriptionColumn', 'Narration column'],
+            ] as const).map(([key, label]) => (
+              <label key={key}>
+                <span className="block text-xs font-medium text-text-secondary mb-1.5">{label}</span>
+                <input
+                  className={inputCls}
+                  placeholder="As in the file header"
+                  value={options[key] ?? ''}
+                  onChange={(e) => setOptions((o) => ({ ...o, [key]: e.target.value }))}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Previous statements */}
+      <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-2">Imported statements</h3>
+        {loading ? (
+          <div className="py-4 flex justify-center"><LoadingSpinner size="md" /></div>
+        ) : statements.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No statements imported yet.</p>
+        ) : (
+          <div className="divide-y divide-white/7">
+            {statements.map((s) => (
+              <button
+                key={s.id}
+                onClick={() => openStatement(s.id)}
+                className={`w-full flex items-center justify-between gap-3 py-2 px-2 -mx-2 rounded-lg text-left hover:bg-surface-hover ${
+                  s.id === statementId ? 'bg-surface-hover' : ''
+                }`}
+              >
+                <div className="min-w-0 flex items-center gap-2">
+                  <FileSpreadsheet className="w-4 h-4 text-text-tertiary flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm text-text-primary truncate">{s.fileName}</div>
+                    <div className="text-xs text-text-tertiary">
+                      {fmtDate(s.periodFrom)} – {fmtDate(s.periodTo)} · imported {fmtDate(s.createdAt)}
+                      {s.uploadedBy?.name && ` by ${s.uploadedBy.name}`}
+                    </div>
+                  </div>
+                </div>
+                <div className="text-xs text-text-tertiary flex-shrink-0">
+                  {s.counts.matched}/{s.lineCount} matched
+                  {s.counts.mismatch > 0 && <span className="text-secondary-400"> · {s.counts.mismatch} mismatch</span>}
+                  {s.counts.unmatched > 0 && <span className="text-error-600"> · {s.counts.unmatched} bank only</span>}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Report */}
+      {loadingReport ? (
+        <div className="py-8 flex justify-center"><LoadingSpinner size="lg" /></div>
+      ) : report && statementId && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-semibold text-text-primary">{report.statement.fileName}</h2>
+              <p className="text-xs text-text-tertiary">
+                {fmtDate(report.statement.periodFrom)} – {fmtDate(report.statement.periodTo)}
+                {' '}· ±{report.statement.dateWindowDays} day window
+                {report.statement.skippedRows > 0 && ` · ${report.statement.skippedRows} debit/other rows skipped`}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy}
+              onClick={() => run(async () => (await AdminReconciliationAPI.rematch(statementId)).data, 'Statement re-matched')}
+            >
+              <RefreshCw className="w-3.5 h-3.5" /> Re-match
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {[
+              { label: 'Bank credits', value: `${report.summary.lines}`, sub: fmtFee(report.summary.bankTotal) },
+              { label: 'Matched', value: `${report.summary.matched}`, sub: fmtFee(report.summary.matchedTotal) },
+              { label: 'Mismatched', value: `${report.summary.mismatch}`, sub: 'linked, needs review' },
+              { label: 'Bank only', value: `${report.summary.unmatched}`, sub: fmtFee(report.summary.unmatchedTotal) },
+              { label: 'LMS only', value: `${report.summary.unmatchedInLms}`, sub: fmtFee(report.summary.unmatchedInLmsTotal) },
+            ].map(({ label, value, sub }) => (
+              <div key={label} className="bg-surface border border-white/7 rounded-lg px-3 py-2">
+                <div className="text-xs text-text-tertiary">{label}</div>
+                <div className="text-lg font-semibold text-text-primary">{value}</div>
+                <div className="text-xs text-text-tertiary">{sub}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Statement lines */}
+          <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+            <div className="flex gap-1 mb-3 flex-wrap">
+              {(['all', 'matched', 'mismatch', 'unmatched', 'ignored'] as Filter[]).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  className={`px-2.5 py-1 rounded-lg text-xs font-medium ${
+                    filter === f ? 'bg-primary-600 text-white' : 'text-text-secondary hover:bg-surface-hover'
+                  }`}
+                >
+                  {f === 'all' ? `All (${report.summary.lines})` : `${STATUS_META[f].label} (${report.summary[f]})`}
+                </button>
+              ))}
+            </div>
+            {lines.length === 0 ? (
+              <p className="text-sm text-text-tertiary">No lines.</p>
+            ) : (
+              <div className="divide-y divide-white/7">
+                {lines.map((line) => (
+                  <div key={line.id} className="py-2.5">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0 text-sm">
+                        <div className="text-text-primary">
+                          {fmtFee(line.amount)} · {fmtDate(line.txnDate)}
+                          {line.reference && <span className="text-text-tertiary"> · {line.reference}</span>}
+                        </div>
+                        {line.description && <div className="text-xs text-text-tertiary truncate">{line.description}</div>}
+                        {line.payments.map((p) => <PaymentRef key={p._id} payment={p} />)}
+                        {line.note && <div className="text-xs text-secondary-400 mt-0.5">{line.note}</div>}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_META[line.status].cls}`}>
+                          {STATUS_META[line.status].label}
+                          {line.matchType && line.status !== 'unmatched' && ` ${MATCH_LABELS[line.matchType]}`}
+                        </span>
+                        {line.status === 'unmatched' && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy}
+                              onClick={() => setRecordingLineId(recordingLineId === line.id ? null : line.id)}
+                            >
+                              <PlusCircle className="w-3.5 h-3.5" /> Payment
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy}
+                              title="Not a fee payment"
+                              onClick={() => {
+                                const note = prompt('Why is this credit not a fee payment? (optional)');
+                                if (note === null) return;
+                                run(async () => (await AdminReconciliationAPI.setLineIgnored(statementId, line.id, true, note)).data, 'Line ignored');
+                              }}
+                            >
+                              <EyeOff className="w-3.5 h-3.5" />
+                            </Button>
+                          </>
+                        )}
+                        {line.status === 'ignored' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() => run(async () => (await AdminReconciliationAPI.setLineIgnored(statementId, line.id, false)).data, 'Line restored')}
+                          >
+                            <Eye className="w-3.5 h-3.5" /> Restore
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {recordingLineId === line.id && (
+                      <RecordPaymentForm
+                        line={line}
+                        busy={busy}
+                        onCancel={() => setRecordingLineId(null)}
+                        onRecord={(studentId, paymentMethod) => run(
+                          async () => (await AdminReconciliationAPI.recordPayment(statementId, line.id, { studentId, paymentMethod })).data?.report,
+                          'Payment recorded',
+                        )}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Recorded in the LMS but missing from the statement */}
+          <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+            <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-1">
+              LMS only · {report.unmatchedInLms.length}
+            </h3>
+            <p className="text-xs text-text-tertiary mb-2">
+              Non-cash payments dated within the statement period that no bank line accounts for.
+            </p>
+            {report.unmatchedInLms.length === 0 ? (
+              <p className="text-sm text-text-tertiary">Every recorded payment in this period is on the statement.</p>
+            ) : (
+              <div className="divide-y divide-white/7">
+                {report.unmatchedInLms.map((p) => (
+                  <div key={p._id} className="py-2 flex items-center justify-between gap-3">
+                    <PaymentRef payment={p} />
+                    <span className="text-xs text-text-tertiary flex-shrink-0">{p.paymentMethod}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
@@ -0,0 +1,508 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Send, Eye, Pencil, Trash2, Plus, ExternalLink, Megaphone } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminBatchesAPI, AdminCoursesAPI, AdminRemindersAPI } from '../../services/api';
+import type { Course } from '../../types/course';
+import type {
+  ReminderCampaign,
+  ReminderCampaignRequest,
+  ReminderCampaignResult,
+  ReminderChannelInfo,
+  ReminderPreview,
+  ReminderSkipReason,
+  ReminderTemplate,
+  ReminderTemplateFormData,
+  ReminderTemplateList,
+} from '../../types/reminder';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+const SKIP_LABELS: Record<ReminderSkipReason, string> = {
+  recent: 'Reminded recently',
+  no_contact: 'No contact for channel',
+};
+
+const inputCls = 'w-full h-9 px-3 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary placeholder:text-text-tertiary focus:outline-none focus:ring-1 focus:ring-primary-400';
+const labelCls = 'block text-xs font-medium text-text-secondary mb-1.5';
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+function fmtMonths(months: string[]) {
+  return months.map((m) => new Date(m).toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' })).join(', ');
+}
+function fmtFee(n: number) {
+  return `₹${n.toLocaleString('en-IN')}`;
+}
+
+/** Create or edit a template; placeholders are shown as insertable chips. */
+function TemplateForm({ initial, placeholders, onSave, onCancel, busy }: {
+  initial: ReminderTemplateFormData;
+  placeholders: string[];
+  onSave: (data: ReminderTemplateFormData) => void;
+  onCancel: () => void;
+  busy: boolean;
+}) {
+  const [form, setForm] = useState<ReminderTemplateFormData>(initial);
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-white/7">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label>
+          <span className={labelCls}>Name</span>
+          <input className={inputCls} value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        </label>
+        <label>
+          <span className={labelCls}>Email subject</span>
+          <input className={inputCls} value={form.subject ?? ''} onChange={(e) => setForm({ ...form, subject: e.target.value })} />
+        </label>
+      </div>
+      <label className="block">
+        <span className={labelCls}>Message</span>
+        <textarea
+          rows={8}
+          className={`${inputCls} h-auto py-2 font-mono text-xs`}
+          value={form.body}
+          onChange={(e) => setForm({ ...form, body: e.target.value })}
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-1.5 text-xs text-text-tertiary">
+        Placeholders:
+        {placeholders.map((p) => (
+          <button
+            key={p}
+            type="button"
+            onClick={() => setForm({ ...form, body: `${form.body}{{${p}}}` })}
+            className="px-1.5 py-0.5 rounded bg-surface-alt text-text-secondary font-mono hover:text-text-primary"
+          >
+            {`{{${p}}}`}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="secondary" onClick={onCancel} disabled={busy}>Cancel</Button>
+        <Button size="sm" variant="primary" onClick={() => onSave(form)} disabled={busy || !form.name.trim() || !form.body.trim()}>
+          {busy ? 'Saving...' : 'Save template'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const RemindersPanel = () => {
+  const [channels, setChannels] = useState<ReminderChannelInfo[]>([]);
+  const [templateList, setTemplateList] = useState<ReminderTemplateList | null>(null);
+  const [campaigns, setCampaigns] = useState<ReminderCampaign[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [batches, setBatches] = useState<Array<{ id: string; batchName: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  // Template editor: null = closed, '' = new template, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Campaign builder
+  const [request, setRequest] = useState<ReminderCampaignRequest>({ channel: 'whatsapp', cooldownDays: 7, filters: {} });
+  const [preview, setPreview] = useState<ReminderPreview | null>(null);
+  const [result, setResult] = useState<ReminderCampaignResult | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    const res = await AdminRemindersAPI.getTemplates();
+    if (res.success && res.data) setTemplateList(res.data);
+  }, []);
+
+  const fetchCampaigns = useCallback(async () => {
+    const res = await AdminRemindersAPI.listCampaigns();
+    if (res.success && res.data) setCampaigns(res.data);
+  }, []);
+
+  useEffect(() => {
+    Promise.all([
+      AdminRemindersAPI.getChannels().then((res) => setChannels(res.data ?? [])),
+      AdminCoursesAPI.list().then((res) => setCourses(res.data ?? [])),
+      fetchTemplates(),
+      fetchCampaigns(),
+    ])
+      .catch((e: any) => toast.error(e?.response?.data?.error ?? 'Failed to load reminders'))
+      .finally(() => setLoading(false));
+  }, [fetchTemplates, fetchCampaigns]);
+
+  const filters = request.filters ?? {};
+  const courseId = filters.courseId;
+
+  useEffect(() => {
+    if (!courseId) return;
+    AdminBatchesAPI.list({ courseId })
+      .then((res) => setBatches((res.data ?? []).map((b: any) => ({ id: b.id, batchName: b.batchName }))))
+      .catch(() => setBatches([]));
+  }, [courseId]);
+
+  const setFilters = (next: Partial<NonNullable<ReminderCampaignRequest['filters']>>) => {
+    setRequest((r) => ({ ...r, filters: { ...r.filters, ...next } }));
+    setPreview(null);
+  };
+
+  const saveTemplate = async (data: ReminderTemplateFormData) => {
+    setBusy(true);
+    try {
+      if (editingId) await AdminRemindersAPI.updateTemplate(editingId, data);
+      else await AdminRemindersAPI.createTemplate(data);
+      toast.success('Template saved');
+      setEditingId(null);
+      await fetchTemplates();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to save template');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deactivateTemplate = async (template: ReminderTemplate) => {
+    if (!confirm(`Deactivate "${template.name}"? Past reminders keep their text.`)) return;
+    try {
+      await AdminRemindersAPI.deactivateTemplate(template.id);
+      if (request.templateId === template.id) setRequest((r) => ({ ...r, templateId: undefined }));
+      await fetchTemplates();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to deactivate template');
+    }
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setResult(null);
+    try {
+      const res = await AdminRemindersAPI.previewCampaign(request);
+      if (res.success && res.data) setPreview(res.data);
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Preview failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRun = async () => {
+    const sendable = preview?.recipients.filter((r) => !r.skip).length ?? 0;
+    if (!confirm(`Send reminders to ${sendable} student(s) by ${request.channel}?`)) return;
+    setBusy(true);
+    try {
+      const res = await AdminRemindersAPI.runCampaign(request);
+      if (res.success && res.data) {
+        const { campaign } = res.data;
+        setResult(res.data);
+        setPreview(null);
+        toast.success(`${campaign.sent} sent, ${campaign.linksGenerated} links ready, ${campaign.failed} failed, ${campaign.skippedRecent + campaign.skippedNoContact} skipped`);
+      }
+      await fetchCampaigns();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Campaign failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openCampaign = async (campaignId: string) => {
+    try {
+      const res = await AdminRemindersAPI.getCampaign(campaignId);
+      if (res.success && res.data) {
+        setResult(res.data);
+        setPreview(null);
+      }
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load campaign');
+    }
+  };
+
+  if (loading) {
+    return <div className="py-12 flex justify-center"><LoadingSpinner size="lg" /></div>;
+  }
+
+  const templates = templateList?.templates ?? [];
+  const editing = editingId ? templates.find((t) => t.id === editingId) : null;
+  const stages = courses.find((c) => (c.id || c._id) === courseId)?.stages ?? [];
+  const levels = stages.find((s) => s.stageNumber === filters.stageNumber)?.levels ?? [];
+  const channel = channels.find((c) => c.name === request.channel);
+
+  return (
+    <div className="space-y-5">
+      {/* Templates */}
+      <div className="bg-surface border border-white/7 rounded-lg px-5 py-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-semibold text-text-primary">Reminder templates</h2>
+            <p className="text-xs text-text-tertiary mt-0.5">
+              Campaigns without a template use the built-in message.
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setEditingId('')} disabled={editingId !== null}>
+            <Plus className="w-3.5 h-3.5" /> New template
+          </Button>
+        </div>
+        {templates.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No custom templates yet.</p>
+        ) : (
+          <div className="divide-y divide-white/7">
+            {templates.map((t) => (
+              <div key={t.id} className="py-2 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm text-text-primary">{t.name}</div>
+                  <div className="text-xs text-text-tertiary truncate">{t.body.split('\n')[0]}</div>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button size="xs" variant="ghost" onClick={() => setEditingId(t.id)} disabled={editingId !== null}>
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button size="xs" variant="ghost" onClick={() => deactivateTemplate(t)}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {editingId !== null && templateList && (
+          <TemplateForm
+            key={editingId}
+            initial={editing
+              ? { name: editing.name, subject: editing.subject ?? '', body: editing.body }
+              : { name: '', subject: templateList.defaultTemplate.subject, body: templateList.defaultTemplate.body }}
+            placeholders={templateList.placeholders}
+            busy={busy}
+            onSave={saveTemplate}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+      </div>
+
+      {/* Campaign builder */}
+      <div className="bg-surface border border-white/7 rounded-lg px-5 py-4 space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-text-primary">Send reminders to overdue students</h2>
+          <p className="text-xs text-text-tertiary mt-0.5">
+            Targets active students with overdue invoices. Students reminded within the cooldown are skipped.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <label>
+            <span className={labelCls}>Channel</span>
+            <select
+              className={inputCls}
+              value={request.channel}
+              onChange={(e) => { setRequest((r) => ({ ...r, channel: e.target.value })); setPreview(null); }}
+            >
+              {channels.map((c) => (
+                <option key={c.name} value={c.name} disabled={!c.available}>
+                  {c.label}{!c.available ? ' (not configured)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className={labelCls}>Template</span>
+            <select
+              className={inputCls}
+              value={request.templateId ?? ''}
+              onChange={(e) => { setRequest((r) => ({ ...r, templateId: e.target.value || undefined })); setPreview(null); }}
+            >
+              <option value="">{templateList?.defaultTemplate.name ?? 'Default'}</option>
+              {templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelCls}>Cooldown (days)</span>
+            <input
+              type="number"
+              min={0}
+              max={90}
+              className={inputCls}
+              value={request.cooldownDays ?? 7}
+              onChange={(e) => { setRequest((r) => ({ ...r, cooldownDays: Number(e.target.value) })); setPreview(null); }}
+            />
+          </label>
+          <label>
+            <span className={labelCls}>Minimum balance (₹)</span>
+            <input
+              type="number"
+              min={0}
+              className={inputCls}
+              value={filters.minBalance ?? ''}
+              onChange={(e) => setFilters({ minBalance: e.target.value ? Number(e.target.value) : undefined })}
+            />
+          </label>
+          <label>
+            <span className={labelCls}>Course</span>
+            <select
+              className={inputCls}
+              value={courseId ?? ''}
+              onChange={(e) => setFilters({ courseId: e.target.value || undefined, stageNumber: undefined, levelNumber: undefined, batchId: undefined })}
+            >
+              <option value="">All courses</option>
+              {courses.map((c) => <option key={c.id || c._id} value={c.id || c._id}>{c.displayName}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelCls}>Stage</span>
+            <select
+              className={inputCls}
+              value={filters.stageNumber ?? ''}
+              disabled={!courseId}
+              onChange={(e) => setFilters({ stageNumber: e.target.value ? Number(e.target.value) : undefined, levelNumber: undefined })}
+            >
+              <option value="">All stages</option>
+              {stages.map((s) => <option key={s.stageNumber} value={s.stageNumber}>{s.stageName}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelCls}>Level</span>
+            <select
+              className={inputCls}
+              value={filters.levelNumber ?? ''}
+              disabled={!filters.stageNumber}
+              onChange={(e) => setFilters({ levelNumber: e.target.value ? Number(e.target.value) : undefined })}
+            >
+              <option value="">All levels</option>
+              {levels.map((l) => <option key={l.levelNumber} value={l.levelNumber}>Level {l.levelNumber}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className={labelCls}>Batch</span>
+            <select
+              className={inputCls}
+              value={filters.batchId ?? ''}
+              disabled={!courseId}
+              onChange={(e) => setFilters({ batchId: e.target.value || undefined })}
+            >
+              <option value="">All batches</option>
+              {courseId && batches.map((b) => <option key={b.id} value={b.id}>{b.batchName}</option>)}
+            </select>
+          </label>
+        </div>
+        {channel?.unavailableReason && <p className="text-xs text-error-600">{channel.unavailableReason}</p>}
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={handlePreview} disabled={busy || !channel?.available}>
+            <Eye className="w-3.5 h-3.5" /> Preview
+          </Button>
+          <Button
+            size="sm"
+            variant="primary"
+            onClick={handleRun}
+            disabled={busy || !preview || preview.recipients.every((r) => r.skip)}
+          >
+            <Send className="w-3.5 h-3.5" /> {busy ? 'Working...' : 'Send reminders'}
+          </Button>
+        </div>
+
+        {preview && (
+          preview.recipients.length === 0 ? (
+            <p className="text-sm text-text-tertiary">No overdue students match these filters.</p>
+          ) : (
+            <div className="divide-y divide-white/7 border-t border-white/7">
+              {preview.recipients.map((r) => (
+                <details key={r.studentId} className="py-2">
+                  <summary className="flex items-center justify-between gap-3 cursor-pointer list-none">
+                    <div className="min-w-0 text-sm">
+                      <span className="text-text-primary">{r.studentName}</span>
+                      <span className="text-xs text-text-tertiary">
+                        {' '}· {fmtFee(r.balanceDue)} · {fmtMonths(r.monthsDue)}
+                        {r.recipient && ` · ${r.recipient}`}
+                      </span>
+                    </div>
+                    {r.skip ? (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-text-tertiary/15 text-text-tertiary flex-shrink-0">
+                        {SKIP_LABELS[r.skip]}{r.lastRemindedAt && r.skip === 'recent' && ` · ${fmtDate(r.lastRemindedAt)}`}
+                      </span>
+                    ) : (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-accent-400/15 text-accent-400 flex-shrink-0">Will send</span>
+                    )}
+                  </summary>
+                  <pre className="mt-2 p-3 bg-surface-alt rounded-lg text-xs text-text-secondary whitespace-pre-wrap font-sans">{r.message}</pre>
+                </details>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+
+      {/* Campaign result */}
+      {result && (
+        <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+          <h3 className="text-sm font-semibold text-text-primary">
+            {result.campaign.templateName} · {result.campaign.channel} · {fmtDate(result.campaign.startedAt)}
+          </h3>
+          <p className="text-xs text-text-tertiary mb-2">
+            {result.campaign.targeted} targeted · {result.campaign.sent} sent
+            {result.campaign.linksGenerated > 0 && ` · ${result.campaign.linksGenerated} links to open`} · {result.campaign.failed} failed
+            {' '}· {result.campaign.skippedRecent} reminded recently · {result.campaign.skippedNoContact} without contact
+          </p>
+          {result.logs.length === 0 ? (
+            <p className="text-sm text-text-tertiary">No messages were sent.</p>
+          ) : (
+            <div className="divide-y divide-white/7">
+              {result.logs.map((log) => (
+                <div key={log.id} className="py-2 flex items-center justify-between gap-3">
+                  <div className="min-w-0 text-sm">
+                    <span className="text-text-primary">
+                      {typeof log.studentId === 'object' ? log.studentId.studentName : log.recipient}
+                    </span>
+                    <span className="text-xs text-text-tertiary"> · {log.recipient} · {fmtFee(log.balanceDue)}</span>
+                    {log.error && <div className="text-xs text-error-600 truncate">{log.error}</div>}
+                  </div>
+                  {log.link ? (
+                    <a
+                      href={log.link}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-accent-400 hover:underline flex-shrink-0"
+                    >
+                      Open WhatsApp <ExternalLink className="w-3 h-3" />
+                    </a>
+                  ) : (
+                    <span className={`text-xs flex-shrink-0 ${log.status === 'sent' ? 'text-accent-400' : 'text-error-600'}`}>
+                      {log.status === 'sent' ? 'Sent' : 'Failed'}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Past campaigns */}
+      <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-2">Recent campaigns</h3>
+        {campaigns.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No campaigns sent yet.</p>
+        ) : (
+          <div className="divide-y divide-white/7">
+            {campaigns.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => openCampaign(c.id)}
+                className={`w-full flex items-center justify-between gap-3 py-2 px-2 -mx-2 rounded-lg text-left hover:bg-surface-hover ${
+                  c.id === result?.campaign.id ? 'bg-surface-hover' : ''
+                }`}
+              >
+                <div className="min-w-0 flex items-center gap-2">
+                  <Megaphone className="w-4 h-4 text-text-tertiary flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm text-text-primary truncate">{c.templateName} · {c.channel}</div>
+                    <div className="text-xs text-text-tertiary">
+                      {fmtDate(c.startedAt)}{c.createdBy?.name && ` by ${c.createdBy.name}`}
+                    </div>
+                  </div>
+                </div>
+                <div className="text-xs text-text-tertiary flex-shrink-0">
+                  {c.linksGenerated > 0 ? `${c.linksGenerated}/${c.targeted} links` : `${c.sent}/${c.targeted} sent`}
+                  {c.failed > 0 && <span className="text-error-600"> · {c.failed} failed</span>}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RemindersPanel;
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import type { Student, FeeRecord, CreditSummary } from '../../types/student';
-import { FeesAPI, CreditAPI } from '../../services/api';
+import { FeesAPI, CreditAPI, AdminFeesAPI } from '../../services/api';
 import toast from 'react-hot-toast';
 import FeePaymentModal from './FeePaymentModal';
 import AddCreditModal from './AddCreditModal';
@@ -123,6 +123,14 @@ const StudentFeesTab = ({ student }: StudentFeesTabProps) => {
     setShowCreditModal(false);
   };
 
+  const handleDownload = async (download: () => Promise<void>) => {
+    try {
+      await download();
+    } catch (error: any) {
+      toast.error(error.message || 'Download failed');
+    }
+  };
+
   const handleEditFee = (fee: FeeRecord) => {
     setEditingFee(fee);
     setShowPaymentModal(true);
@@ -424,12 +432,28 @@ const StudentFeesTab = ({ student }: StudentFeesTabProps) => {
                       {fee.transactionId || '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm">
-                      <button
-                        onClick={() => handleEditFee(fee)}
-                        className="text-primary-400 hover:text-primary-300 font-medium"
-                      >
-                        Edit
-                      </button>
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => handleEditFee(fee)}
+                          className="text-primary-400 hover:text-primary-300 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDownload(() => AdminFeesAPI.downloadInvoicePdf(fee._id))}
+                          className="text-text-secondary hover:text-text-primary font-medium"
+                        >
+                          Invoice
+                        </button>
+                        {fee.paymentTransactionId && (
+                          <button
+                            onClick={() => handleDownload(() => AdminFeesAPI.downloadReceiptPdf(fee.paymentTransactionId!))}
+                            className="text-text-secondary hover:text-text-primary font-medium"
+                          >
+                            Receipt
+                          </button>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { Pencil, Plus, Star, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminImportsAPI } from '../../services/api';
+import type { ImportDateFormat, ImportProfile, ImportProfileField, ImportProfileFormData } from '../../types/import';
+import Button from '../ui/Button';
+
+const inputCls = 'w-full h-9 px-3 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary placeholder:text-text-tertiary focus:outline-none focus:ring-1 focus:ring-primary-400';
+const labelCls = 'block text-xs font-medium text-text-secondary mb-1.5';
+
+const FIELD_LABELS: Record<ImportProfileField, string> = {
+  studentCode: 'Student code',
+  name: 'Name',
+  phone: 'Phone',
+  email: 'Email',
+  status: 'Status',
+  studentStartDate: 'Student start date',
+  level: 'Level',
+  duration: 'Duration (months)',
+  batch: 'Batch',
+  timing: 'Timing',
+  batchStartDate: 'Batch start date',
+};
+
+const DATE_FORMAT_LABELS: Record<ImportDateFormat, string> = {
+  DMY: 'Day/month/year (31/01/2025)',
+  MDY: 'Month/day/year (01/31/2025)',
+  YMD: 'Year-month-day (2025-01-31)',
+};
+
+// Lists are edited as comma-separated text and split again on save.
+interface LevelCodeDraft {
+  code: string;
+  courseName: string;
+  stageNumber: string;
+  stageName: string;
+  levelFees: string;
+}
+
+interface ProfileDraft {
+  name: string;
+  description: string;
+  isDefault: boolean;
+  dateFormat: ImportDateFormat;
+  columns: Record<ImportProfileField, string>;
+  paymentColumns: ImportProfileFormData['paymentColumns'];
+  levelCodes: LevelCodeDraft[];
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+function toDraft(profile: ImportProfileFormData): ProfileDraft {
+  return {
+    name: profile.name,
+    description: profile.description ?? '',
+    isDefault: profile.isDefault ?? false,
+    dateFormat: profile.dateFormat,
+    columns: Object.fromEntries(
+      (Object.keys(FIELD_LABELS) as ImportProfileField[]).map((f) => [f, (profile.columns[f] ?? []).join(', ')]),
+    ) as Record<ImportProfileField, string>,
+    paymentColumns: { ...profile.paymentColumns },
+    levelCodes: profile.levelCodes.map((c) => ({
+      code: c.code,
+      courseName: c.courseName,
+      stageNumber: String(c.stageNumber),
+      stageName: c.stageName,
+      levelFees: c.levelFees.join(', '),
+    })),
+  };
+}
+
+function fromDraft(draft: ProfileDraft): ImportProfileFormData {
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim() || undefined,
+    isDefault: draft.isDefault,
+    dateFormat: draft.dateFormat,
+    columns: Object.fromEntries(
+      (Object.keys(FIELD_LABELS) as ImportProfileField[]).map((f) => [f, splitList(draft.columns[f])]),
+    ) as Record<ImportProfileField, string[]>,
+    paymentColumns: draft.paymentColumns,
+    levelCodes: draft.levelCodes.map((c) => ({
+      code: c.code.trim().toUpperCase(),
+      courseName: c.courseName.trim().toLowerCase(),
+      stageNumber: Number(c.stageNumber),
+      stageName: c.stageName.trim(),
+      levelFees: splitList(c.levelFees).map(Number),
+    })),
+  };
+}
+
+/** Create or edit a mapping profile. */
+function ProfileForm({ initial, onSave, onCancel, busy }: {
+  initial: ProfileDraft;
+  onSave: (data: ImportProfileFormData) => void;
+  onCancel: () => void;
+  busy: boolean;
+}) {
+  const [draft, setDraft] = useState<ProfileDraft>(initial);
+
+  const setLevelCode = (index: number, patch: Partial<LevelCodeDraft>) =>
+    setDraft({ ...draft, levelCodes: draft.levelCodes.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  return (
+    <div className="space-y-4 pt-3 border-t border-white/7">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label>
+          <span className={labelCls}>Name</span>
+          <input className={inputCls} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+        </label>
+        <label className="sm:col-span-2">
+          <span className={labelCls}>Description</span>
+          <input className={inputCls} value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+        </label>
+        <label>
+          <span className={labelCls}>Text dates</span>
+          <select
+            className={inputCls}
+            value={draft.dateFormat}
+            onChange={(e) => setDraft({ ...draft, dateFormat: e.target.value as ImportDateFormat })}
+          >
+            {(Object.keys(DATE_FORMAT_LABELS) as ImportDateFormat[]).map((f) => (
+              <option key={f} value={f}>{DATE_FORMAT_LABELS[f]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 h-9 self-end text-sm text-text-secondary">
+          <input type="checkbox" checked={draft.isDefault} onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })} />
+          Default profile
+        </label>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-1">Columns</h4>
+        <p className="text-xs text-text-tertiary mb-2">Header names for each field, comma-separated; the first one present in the sheet is used.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {(Object.keys(FIELD_LABELS) as ImportProfileField[]).map((field) => (
+            <label key={field}>
+              <span className={labelCls}>{FIELD_LABELS[field]}</span>
+              <input
+                className={inputCls}
+                value={draft.columns[field]}
+                onChange={(e) => setDraft({ ...draft, columns: { ...draft.columns, [field]: e.target.value } })}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-1">Payment columns</h4>
+        <p className="text-xs text-text-tertiary mb-2">
+          Headers of one payment. Put {'{n}'} where the payment number goes (Paid on {'{n}'}); without it the same headers repeat.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {([['dueDate', 'Due date'], ['status', 'Status'], ['paidDate', 'Paid date']] as const).map(([key, label]) => (
+            <label key={key}>
+              <span className={labelCls}>{label}</span>
+              <input
+                className={inputCls}
+                value={draft.paymentColumns[key]}
+                onChange={(e) => setDraft({ ...draft, paymentColumns: { ...draft.paymentColumns, [key]: e.target.value } })}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-1">Level codes</h4>
+        <p className="text-xs text-text-tertiary mb-2">
+          The level column holds a code followed by the level number (B2). Level fees are only used if the course does not exist yet.
+        </p>
+        <div className="space-y-2">
+          {draft.levelCodes.map((c, i) => (
+            <div key={i} className="grid grid-cols-[4rem_1fr_4rem_1fr_1fr_auto] gap-2 items-center">
+              <input className={inputCls} placeholder="Code" value={c.code} onChange={(e) => setLevelCode(i, { code: e.target.value })} />
+              <input className={inputCls} placeholder="Course" value={c.courseName} onChange={(e) => setLevelCode(i, { courseName: e.target.value })} />
+              <input className={inputCls} placeholder="Stage" type="number" min={1} value={c.stageNumber} onChange={(e) => setLevelCode(i, { stageNumber: e.target.value })} />
+              <input className={inputCls} placeholder="Stage name" value={c.stageName} onChange={(e) => setLevelCode(i, { stageName: e.target.value })} />
+              <input className={inputCls} placeholder="Level fees, e.g. 2000, 2500" value={c.levelFees} onChange={(e) => setLevelCode(i, { levelFees: e.target.value })} />
+              <button
+                type="button"
+                title="Remove level code"
+                onClick={() => setDraft({ ...draft, levelCodes: draft.levelCodes.filter((_, j) => j !== i) })}
+                className="w-7 h-7 flex items-center justify-center rounded-md text-text-tertiary hover:text-red-400 hover:bg-error-600/15 transition-all"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <Button
+            size="xs"
+            variant="ghost"
+            onClick={() => setDraft({
+              ...draft,
+              levelCodes: [...draft.levelCodes, { code: '', courseName: draft.levelCodes[0]?.courseName ?? '', stageNumber: '', stageName: '', levelFees: '' }],
+            })}
+          >
+            <Plus className="w-3.5 h-3.5" /> Add level code
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="secondary" onClick={onCancel} disabled={busy}>Cancel</Button>
+        <Button size="sm" variant="primary" onClick={() => onSave(fromDraft(draft))} disabled={busy || !draft.name.trim()}>
+          {busy ? 'Saving...' : 'Save profile'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ImportProfilesCardProps {
+  profiles: ImportProfile[];
+  onChanged: () => Promise<void> | void;
+}
+
+/**
+ * Saved column mapping profiles for workbook imports. A new profile starts
+ * as a copy of the default one.
+ */
+const ImportProfilesCard = ({ profiles, onChanged }: ImportProfilesCardProps) => {
+  const [busy, setBusy] = useState(false);
+  // Profile editor: null = closed, '' = new profile, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const editing = editingId ? profiles.find((p) => p.id === editingId) : null;
+  const base = profiles.find((p) => p.isDefault) ?? profiles[0];
+
+  const act = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await onChanged();
+      return true;
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveProfile = async (data: ImportProfileFormData) => {
+    const saved = await act(
+      () => (editingId ? AdminImportsAPI.updateProfile(editingId, data) : AdminImportsAPI.createProfile(data)),
+      'Profile saved',
+      'Failed to save profile',
+    );
+    if (saved) setEditingId(null);
+  };
+
+  const makeDefault = (profile: ImportProfile) =>
+    act(() => AdminImportsAPI.updateProfile(profile.id, { isDefault: true }), `${profile.name} is now the default`, 'Failed to update profile');
+
+  const deleteProfile = (profile: ImportProfile) => {
+    if (!confirm(`Delete "${profile.name}"? Dry runs made with it will have to be uploaded again.`)) return;
+    act(() => AdminImportsAPI.deleteProfile(profile.id), 'Profile deleted', 'Failed to delete profile');
+  };
+
+  return (
+    <div className="bg-surface border border-white/7 rounded-lg px-5 py-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-text-primary">Mapping profiles</h2>
+          <p className="text-xs text-text-tertiary mt-0.5">
+            How a sheet's headers, level codes, dates and payment columns are read. Editing a profile means pending dry runs made with it must be uploaded again.
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setEditingId('')} disabled={editingId !== null || !base}>
+          <Plus className="w-3.5 h-3.5" /> New profile
+        </Button>
+      </div>
+      <div className="divide-y divide-white/7">
+        {profiles.map((p) => (
+          <div key={p.id} className="py-2 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="text-sm text-text-primary">
+                {p.name}
+                {p.isDefault && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-primary-600/15 text-primary-300">Default</span>}
+              </div>
+              <div className="text-xs text-text-tertiary truncate">
+                {p.description || `Levels ${p.levelCodes.map((c) => c.code).join(', ')}`}
+              </div>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              {!p.isDefault && (
+                <Button size="xs" variant="ghost" onClick={() => makeDefault(p)} disabled={busy} title="Make default">
+                  <Star className="w-3.5 h-3.5" />
+                </Button>
+              )}
+              <Button size="xs" variant="ghost" onClick={() => setEditingId(p.id)} disabled={editingId !== null}>
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+              {!p.isDefault && (
+                <Button size="xs" variant="ghost" onClick={() => deleteProfile(p)} disabled={busy}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {editingId !== null && base && (
+        <ProfileForm
+          key={editingId}
+          initial={editing ? toDraft(editing) : { ...toDraft(base), name: '', description: '', isDefault: false }}
+          busy={busy}
+          onSave={saveProfile}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImportProfilesCard;
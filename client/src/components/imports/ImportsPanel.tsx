@@ -0,0 +1,539 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FileSpreadsheet, PlayCircle, RotateCcw, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminImportsAPI } from '../../services/api';
+import type { ImportChange, ImportIssueSeverity, ImportProfile, ImportRollbackCounts, ImportRollbackPlan, ImportRunDetail, ImportRunSummary } from '../../types/import';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import ImportProfilesCard from './ImportProfilesCard';
+
+type PreviewTab = 'students' | 'batches' | 'changes';
+
+const inputCls = 'w-full h-9 px-3 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary placeholder:text-text-tertiary focus:outline-none focus:ring-1 focus:ring-primary-400';
+
+const SEVERITY_CLS: Record<ImportIssueSeverity, string> = {
+  error: 'bg-error-600/15 text-error-600',
+  warning: 'bg-secondary-400/15 text-secondary-400',
+};
+
+const MATCHED_BY_LABEL: Record<ImportChange['matchedBy'], string> = {
+  studentCode: 'student code',
+  phone: 'phone',
+  email: 'email',
+};
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+function fmtDateTime(d: string) {
+  return new Date(d).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function rollbackSummary(counts: ImportRollbackCounts) {
+  return [
+    `${counts.students} students`,
+    `${counts.batches} batches`,
+    `${counts.enrollments} enrollments`,
+    `${counts.invoices} invoices`,
+    `${counts.payments} payments`,
+  ].join(', ');
+}
+
+function runLabel(run: ImportRunSummary | ImportRunDetail) {
+  if (run.rolledBackAt) return { label: 'Rolled back', cls: 'bg-text-tertiary/15 text-text-tertiary' };
+  if (run.status === 'failed') return { label: 'Failed', cls: 'bg-error-600/15 text-error-600' };
+  if (run.status === 'running') return { label: 'Running', cls: 'bg-primary-600/15 text-primary-300' };
+  if (run.mode === 'apply') return { label: 'Applied', cls: 'bg-accent-400/15 text-accent-400' };
+  if (run.appliedAt) return { label: 'Dry run · applied', cls: 'bg-text-tertiary/15 text-text-tertiary' };
+  return { label: 'Dry run', cls: 'bg-secondary-400/15 text-secondary-400' };
+}
+
+/**
+ * Student workbook imports: upload a workbook for a dry-run, read through a
+ * mapping profile, review what it would create and the issues it found, then
+ * apply it.
+ */
+const ImportsPanel = () => {
+  const [runs, setRuns] = useState<ImportRunSummary[]>([]);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [run, setRun] = useState<ImportRunDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingRun, setLoadingRun] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [incremental, setIncremental] = useState(false);
+  const [previewTab, setPreviewTab] = useState<PreviewTab>('students');
+  const [severity, setSeverity] = useState<ImportIssueSeverity | ''>('');
+  const [code, setCode] = useState('');
+  const [rollbackPlan, setRollbackPlan] = useState<ImportRollbackPlan | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const res = await AdminImportsAPI.list();
+      setRuns(res.success && res.data ? res.data : []);
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load imports');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const res = await AdminImportsAPI.getProfiles();
+      const list = res.success && res.data ? res.data : [];
+      setProfiles(list);
+      // '' picks the default; drop a selection that was deleted or became the default
+      setProfileId((id) => (list.some((p) => p.id === id && !p.isDefault) ? id : ''));
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load mapping profiles');
+    }
+  }, []);
+
+  useEffect(() => { fetchRuns(); fetchProfiles(); }, [fetchRuns, fetchProfiles]);
+
+  const openRun = useCallback(async (runId: string, filter: { severity?: ImportIssueSeverity; code?: string } = {}) => {
+    setLoadingRun(true);
+    try {
+      const res = await AdminImportsAPI.get(runId, filter);
+      if (res.success && res.data) setRun(res.data);
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load import');
+    } finally {
+      setLoadingRun(false);
+    }
+  }, []);
+
+  const selectRun = (runId: string, tab: PreviewTab = 'students') => {
+    setRollbackPlan(null);
+    setSeverity('');
+    setCode('');
+    setPreviewTab(tab);
+    openRun(runId);
+  };
+
+  const applyFilter = (next: { severity: ImportIssueSeverity | ''; code: string }) => {
+    setSeverity(next.severity);
+    setCode(next.code);
+    if (run) openRun(run.id, { severity: next.severity || undefined, code: next.code || undefined });
+  };
+
+  const handleUpload = async () => {
+    if (!file) { toast.error('Choose a workbook first'); return; }
+    setBusy(true);
+    try {
+      const res = await AdminImportsAPI.upload(file, { sheetName: sheetName.trim() || undefined, profileId: profileId || undefined, incremental });
+      if (res.success && res.data?.importRunId) {
+        toast.success(incremental
+          ? `Dry run ready: ${res.data.updatedStudents} updates, ${res.data.createdStudents} new students, ${res.data.issues.length} issues`
+          : `Dry run ready: ${res.data.createdStudents} students, ${res.data.issues.length} issues`);
+        selectRun(res.data.importRunId, incremental ? 'changes' : 'students');
+      }
+      setFile(null);
+      await fetchRuns();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Workbook import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!run) return;
+    const message = run.incremental
+      ? `Apply ${run.fileName}? This updates ${run.updatedStudents} existing students and creates ${run.createdStudents} new ones.`
+      : `Apply ${run.fileName}? This creates ${run.createdStudents} students with their enrollments, invoices and payments.`;
+    if (!confirm(message)) return;
+    setBusy(true);
+    try {
+      const res = await AdminImportsAPI.apply(run.id);
+      if (res.success && res.data) {
+        toast.success(run.incremental
+          ? `Updated ${res.data.updatedStudents} students, imported ${res.data.createdStudents} new`
+          : `Imported ${res.data.createdStudents} students`);
+        await fetchRuns();
+        if (res.data.importRunId) selectRun(res.data.importRunId);
+      }
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Import failed');
+      await fetchRuns();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!run) return;
+    setBusy(true);
+    try {
+      const planRes = await AdminImportsAPI.getRollbackPlan(run.id);
+      const plan = planRes.success ? planRes.data : undefined;
+      if (!plan) return;
+      setRollbackPlan(plan);
+      if (plan.blockers.length > 0) {
+        toast.error('This import can no longer be rolled back');
+        return;
+      }
+      const reversals = plan.counts.reversedPayments > 0
+        ? ` and reverses ${plan.counts.reversedPayments} payments recorded for students who already existed`
+        : '';
+      if (!confirm(`Roll back ${run.fileName}? This deletes ${rollbackSummary(plan.counts)}${reversals}.`)) return;
+      const res = await AdminImportsAPI.rollback(run.id);
+      if (res.success && res.data) {
+        toast.success(`Rolled back ${run.fileName}`);
+        await fetchRuns();
+        selectRun(run.id);
+      }
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Rollback failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canApply = run?.mode === 'dry-run' && run.status === 'completed' && !run.appliedAt;
+  const canRollBack = run?.mode === 'apply' && run.status !== 'running' && run.recordsTagged && !run.rolledBackAt;
+  const preview = run?.preview;
+  // Course names are only worth showing when a sheet spans more than one course
+  const courseNames = new Set([...(preview?.students ?? []), ...(preview?.batches ?? [])].map((r) => r.courseName));
+
+  return (
+    <div className="space-y-5">
+      {/* Upload */}
+      <div className="bg-surface border border-white/7 rounded-lg px-5 py-4 space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-text-primary">Import student workbook</h2>
+          <p className="text-xs text-text-tertiary mt-0.5">
+            Uploading runs a dry run: nothing is created until you review the preview and apply it.
+            An incremental import matches rows to existing students by student code, phone or email
+            and only records what changed.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex-1 min-w-[220px]">
+            <span className="block text-xs font-medium text-text-secondary mb-1.5">Workbook (.xlsx)</span>
+            <input
+              type="file"
+              accept=".xlsx,.xls"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-text-secondary file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-surface-alt file:text-text-primary"
+            />
+          </label>
+          <label className="w-56">
+            <span className="block text-xs font-medium text-text-secondary mb-1.5">Mapping profile</span>
+            <select className={inputCls} value={profileId} onChange={(e) => setProfileId(e.target.value)}>
+              {profiles.map((p) => (
+                <option key={p.id} value={p.isDefault ? '' : p.id}>{p.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="w-48">
+            <span className="block text-xs font-medium text-text-secondary mb-1.5">Sheet</span>
+            <input className={inputCls} placeholder="First sheet" value={sheetName} onChange={(e) => setSheetName(e.target.value)} />
+          </label>
+          <label className="flex items-center gap-2 h-9 text-sm text-text-secondary">
+            <input type="checkbox" checked={incremental} onChange={(e) => setIncremental(e.target.checked)} />
+            Incremental (update existing students)
+          </label>
+          <Button variant="primary" onClick={handleUpload} disabled={busy || !file}>
+            <Upload className="w-4 h-4" /> {busy ? 'Checking...' : 'Dry run'}
+          </Button>
+        </div>
+      </div>
+
+      <ImportProfilesCard profiles={profiles} onChanged={fetchProfiles} />
+
+      {/* Previous runs */}
+      <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-2">Import runs</h3>
+        {loading ? (
+          <div className="py-4 flex justify-center"><LoadingSpinner size="md" /></div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-text-tertiary">No imports yet.</p>
+        ) : (
+          <div className="divide-y divide-white/7">
+            {runs.map((r) => {
+              const meta = runLabel(r);
+              return (
+                <button
+                  key={r.id}
+                  onClick={() => selectRun(r.id)}
+                  className={`w-full flex items-center justify-between gap-3 py-2 px-2 -mx-2 rounded-lg text-left hover:bg-surface-hover ${
+                    r.id === run?.id ? 'bg-surface-hover' : ''
+                  }`}
+                >
+                  <div className="min-w-0 flex items-center gap-2">
+                    <FileSpreadsheet className="w-4 h-4 text-text-tertiary flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="text-sm text-text-primary truncate">{r.fileName}</div>
+                      <div className="text-xs text-text-tertiary">
+                        {fmtDateTime(r.startedAt)}
+                        {r.startedBy?.name && ` by ${r.startedBy.name}`}
+                        {r.incremental && ` · incremental, ${r.updatedStudents} updated`}
+                        {' '}· {r.createdStudents} students · {r.createdInvoices} invoices · {r.createdPayments} payments
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                    {r.issueCounts.error > 0 && <span className="text-error-600">{r.issueCounts.error} errors</span>}
+                    {r.issueCounts.warning > 0 && <span className="text-secondary-400">{r.issueCounts.warning} warnings</span>}
+                    <span className={`px-2 py-0.5 rounded-full font-medium ${meta.cls}`}>{meta.label}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Selected run */}
+      {loadingRun && !run ? (
+        <div className="py-8 flex justify-center"><LoadingSpinner size="lg" /></div>
+      ) : run && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-semibold text-text-primary">{run.fileName}</h2>
+              <p className="text-xs text-text-tertiary">
+                {run.mode === 'dry-run' ? 'Dry run' : 'Applied'}{run.incremental && ' (incremental)'} {fmtDateTime(run.startedAt)}
+                {run.sheetName && ` · sheet ${run.sheetName}`}
+                {run.profileName && ` · ${run.profileName}`}
+                {' '}· {run.totalRows} rows
+                {run.error && <span className="text-error-600"> · {run.error}</span>}
+              </p>
+              {run.rolledBackAt && run.rollback && (
+                <p className="text-xs text-text-tertiary">
+                  Rolled back {fmtDateTime(run.rolledBackAt)}: removed {rollbackSummary(run.rollback)}
+                  {run.rollback.reversedPayments > 0 && `, reversed ${run.rollback.reversedPayments} payments`}
+                </p>
+              )}
+            </div>
+            {canApply && (
+              <Button size="sm" variant="primary" disabled={busy} onClick={handleApply}>
+                <PlayCircle className="w-3.5 h-3.5" /> {busy ? 'Applying...' : 'Apply import'}
+              </Button>
+            )}
+            {canRollBack && (
+              <Button size="sm" variant="danger" disabled={busy} onClick={handleRollback}>
+                <RotateCcw className="w-3.5 h-3.5" /> Roll back
+              </Button>
+            )}
+          </div>
+
+          {rollbackPlan && rollbackPlan.blockers.length > 0 && (
+            <div className="bg-error-600/10 border border-error-600/30 rounded-lg px-4 py-3 text-sm">
+              <div className="font-medium text-error-600">Cannot roll back this import</div>
+              <ul className="mt-1 text-xs text-text-secondary list-disc pl-4">
+                {rollbackPlan.blockers.map((b) => <li key={`${b.code}:${b.message}`}>{b.message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-6 gap-3">
+            {[
+              ...(run.incremental ? [
+                { label: 'Matched students', value: run.matchedStudents },
+                { label: 'Updated students', value: run.updatedStudents },
+                { label: 'Level changes', value: run.levelChanges },
+                { label: 'Batch changes', value: run.batchChanges },
+              ] : []),
+              { label: run.incremental ? 'New students' : 'Students', value: run.createdStudents },
+              { label: 'New batches', value: run.createdBatches },
+              { label: 'Invoices', value: run.createdInvoices },
+              { label: 'Payments', value: run.createdPayments },
+              { label: 'Credits', value: run.createdCredits },
+              { label: 'Skipped rows', value: run.skippedRows },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-surface border border-white/7 rounded-lg px-3 py-2">
+                <div className="text-xs text-text-tertiary">{label}</div>
+                <div className="text-lg font-semibold text-text-primary">{value}</div>
+              </div>
+            ))}
+          </div>
+          {run.mode === 'dry-run' && (
+            <p className="text-xs text-text-tertiary -mt-2">Counts are what applying this dry run would create{run.incremental && ' or change'}.</p>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+              <div className="flex gap-1 mb-3">
+                {((run.incremental ? ['changes', 'students', 'batches'] : ['students', 'batches']) as PreviewTab[]).map((t) => (
+                  <button
+                    key={t}
+                    onClick={() => setPreviewTab(t)}
+                    className={`px-2.5 py-1 rounded-lg text-xs font-medium ${
+                      previewTab === t ? 'bg-primary-600 text-white' : 'text-text-secondary hover:bg-surface-hover'
+                    }`}
+                  >
+                    {t === 'changes'
+                      ? `Changes (${preview.changes.length})`
+                      : t === 'students' ? `New students (${preview.students.length})` : `Batches (${preview.batches.length})`}
+                  </button>
+                ))}
+              </div>
+              <div className="max-h-96 overflow-y-auto">
+                {previewTab === 'changes' ? (
+                  preview.changes.length === 0 ? (
+                    <p className="text-sm text-text-tertiary">None of the matched students have changes to apply.</p>
+                  ) : (
+                    <table className="min-w-full text-sm">
+                      <thead className="text-xs text-text-tertiary text-left">
+                        <tr>
+                          <th className="py-1 pr-3">Row</th>
+                          <th className="py-1 pr-3">Student</th>
+                          <th className="py-1">Changes</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-white/7">
+                        {preview.changes.map((c) => (
+                          <tr key={c.rowNumber} className="align-top">
+                            <td className="py-1.5 pr-3 text-text-tertiary">{c.rowNumber}</td>
+                            <td className="py-1.5 pr-3">
+                              <span className="text-text-primary">{c.studentName}</span>
+                              <span className="text-xs text-text-tertiary"> · matched by {MATCHED_BY_LABEL[c.matchedBy]}</span>
+                            </td>
+                            <td className="py-1.5 text-text-secondary">
+                              {c.diffs.map((d, i) => (
+                                <div key={i} className="text-xs">
+                                  <span className="text-text-tertiary capitalize">{d.field}</span>{' '}
+                                  {d.from !== undefined && <>{d.from} → </>}{d.to}
+                                </div>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )
+                ) : previewTab === 'students' ? (
+                  <table className="min-w-full text-sm">
+                    <thead className="text-xs text-text-tertiary text-left">
+                      <tr>
+                        <th className="py-1 pr-3">Row</th>
+                        <th className="py-1 pr-3">Student</th>
+                        <th className="py-1 pr-3">Level</th>
+                        <th className="py-1 pr-3">Batch</th>
+                        <th className="py-1 pr-3">Start</th>
+                        <th className="py-1 pr-3 text-right">Invoices</th>
+                        <th className="py-1 pr-3 text-right">Payments</th>
+                        <th className="py-1 text-right">Credits</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/7">
+                      {preview.students.map((s) => (
+                        <tr key={s.rowNumber}>
+                          <td className="py-1.5 pr-3 text-text-tertiary">{s.rowNumber}</td>
+                          <td className="py-1.5 pr-3">
+                            <span className="text-text-primary">{s.name}</span>
+                            <span className="text-xs text-text-tertiary"> · {s.phone || s.email}</span>
+                            {s.discontinued && <span className="text-xs text-secondary-400"> · discontinued</span>}
+                          </td>
+                          <td className="py-1.5 pr-3 text-text-secondary">
+                            {courseNames.size > 1 && <span className="text-text-tertiary">{s.courseName} · </span>}
+                            S{s.stageNumber} L{s.levelNumber}
+                          </td>
+                          <td className="py-1.5 pr-3 text-text-secondary">{s.batchCode ?? '—'}</td>
+                          <td className="py-1.5 pr-3 text-text-secondary">{fmtDate(s.startDate)}</td>
+                          <td className="py-1.5 pr-3 text-right text-text-secondary">{s.invoices}</td>
+                          <td className="py-1.5 pr-3 text-right text-text-secondary">{s.payments}</td>
+                          <td className="py-1.5 text-right text-text-secondary">{s.credits}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <table className="min-w-full text-sm">
+                    <thead className="text-xs text-text-tertiary text-left">
+                      <tr>
+                        <th className="py-1 pr-3">Batch</th>
+                        <th className="py-1 pr-3">Level</th>
+                        <th className="py-1 pr-3">Start</th>
+                        <th className="py-1 pr-3">Status</th>
+                        <th className="py-1 text-right">Students</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/7">
+                      {preview.batches.map((b) => (
+                        <tr key={b.batchCode}>
+                          <td className="py-1.5 pr-3">
+                            <span className="text-text-primary">{b.batchCode}</span>
+                            <span className="text-xs text-text-tertiary"> · {b.exists ? 'already exists' : 'new'}</span>
+                          </td>
+                          <td className="py-1.5 pr-3 text-text-secondary">
+                            {courseNames.size > 1 && <span className="text-text-tertiary">{b.courseName} · </span>}
+                            S{b.stageNumber} L{b.levelNumber}
+                          </td>
+                          <td className="py-1.5 pr-3 text-text-secondary">{b.startDate ? fmtDate(b.startDate) : '—'}</td>
+                          <td className="py-1.5 pr-3 text-text-secondary">{b.status}</td>
+                          <td className="py-1.5 text-right text-text-secondary">{b.students}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Issues */}
+          <div className="bg-surface border border-white/7 rounded-lg px-5 py-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider">
+                Issues · {run.issues.length}{run.issues.length !== run.totalIssues && ` of ${run.totalIssues}`}
+              </h3>
+              <div className="flex items-center gap-2">
+                <select
+                  value={severity}
+                  onChange={(e) => applyFilter({ severity: e.target.value as ImportIssueSeverity | '', code })}
+                  className={`${inputCls} w-auto`}
+                >
+                  <option value="">All severities</option>
+                  <option value="error">Errors</option>
+                  <option value="warning">Warnings</option>
+                </select>
+                <select
+                  value={code}
+                  onChange={(e) => applyFilter({ severity, code: e.target.value })}
+                  className={`${inputCls} w-auto`}
+                >
+                  <option value="">All codes</option>
+                  {run.issueCodes
+                    .filter((c) => !severity || c.severity === severity)
+                    .map((c) => (
+                      <option key={`${c.severity}:${c.code}`} value={c.code}>{c.code} ({c.count})</option>
+                    ))}
+                </select>
+              </div>
+            </div>
+            {loadingRun ? (
+              <div className="py-4 flex justify-center"><LoadingSpinner size="md" /></div>
+            ) : run.issues.length === 0 ? (
+              <p className="text-sm text-text-tertiary">{run.totalIssues === 0 ? 'No issues found.' : 'No issues match these filters.'}</p>
+            ) : (
+              <div className="divide-y divide-white/7 max-h-96 overflow-y-auto">
+                {run.issues.map((issue, i) => (
+                  <div key={i} className="py-2 flex items-start justify-between gap-3">
+                    <div className="min-w-0 text-sm">
+                      <span className="text-text-tertiary">{issue.rowNumber ? `Row ${issue.rowNumber}` : 'File'}</span>
+                      {issue.rawName && <span className="text-text-primary"> · {issue.rawName}</span>}
+                      <div className="text-xs text-text-secondary">{issue.message}</div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                      <span className="text-text-tertiary font-mono">{issue.code}</span>
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${SEVERITY_CLS[issue.severity]}`}>{issue.severity}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportsPanel;
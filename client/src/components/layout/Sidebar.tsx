@@ -1,7 +1,13 @@
 import { useState } from 'react';
 import {
+  BarChart3,
+  BellRing,
   BookOpen,
   DollarSign,
+  FileBarChart,
+  FileUp,
+  Home,
+  Landmark,
   LayoutGrid,
   Menu,
   PanelLeftClose,
@@ -12,7 +18,7 @@ import {
 } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 
-export type TabType = 'students' | 'fees' | 'leads' | 'courses' | 'batches';
+export type TabType = 'students' | 'fees' | 'reconciliation' | 'reminders' | 'reports' | 'leads' | 'lead-analytics' | 'families' | 'courses' | 'batches' | 'imports';
 
 interface NavItem {
   id: TabType;
@@ -24,9 +30,15 @@ interface NavItem {
 const NAV_ITEMS: NavItem[] = [
   { id: 'students', label: 'Students', icon: Users },
   { id: 'fees', label: 'Fees', icon: DollarSign },
+  { id: 'reconciliation', label: 'Reconciliation', icon: Landmark },
+  { id: 'reminders', label: 'Reminders', icon: BellRing },
+  { id: 'reports', label: 'Reports', icon: FileBarChart },
   { id: 'leads', label: 'Leads', icon: UserCheck },
+  { id: 'lead-analytics', label: 'Lead Analytics', icon: BarChart3 },
+  { id: 'families', label: 'Families', icon: Home },
   { id: 'courses', label: 'Program Setup', icon: BookOpen, superAdminOnly: true },
   { id: 'batches', label: 'Batches', icon: LayoutGrid, superAdminOnly: true },
+  { id: 'imports', label: 'Imports', icon: FileUp, superAdminOnly: true },
 ];
 
 interface SidebarProps {
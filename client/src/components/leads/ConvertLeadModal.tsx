@@ -164,7 +164,7 @@ export default function ConvertLeadModal({ isOpen, lead, onClose, onConverted }:
 
     setSubmitting(true);
     try {
-      const res = await AdminLeadsAPI.convert(leadId, {
+      const payload = {
         studentName: form.studentName.trim(),
         parentName: form.parentName.trim() || undefined,
         phone: form.phone.trim() || undefined,
@@ -177,8 +177,22 @@ export default function ConvertLeadModal({ isOpen, lead, onClose, onConverted }:
         monthlyFee: Number(form.monthlyFee),
         createFirstFeeRecord: !!form.batchId && form.createFirstFeeRecord,
         firstMonthFee: Number(form.monthlyFee),
-      });
-      if (res.success) {
+      };
+      let res;
+      try {
+        res = await AdminLeadsAPI.convert(leadId, payload);
+      } catch (error: any) {
+        const message: string = error?.response?.data?.error ?? '';
+        if (!message.startsWith('Batch is full') || !confirm(`${message}. Convert and add ${payload.studentName} to the batch's waitlist instead?`)) {
+          throw error;
+        }
+        res = await AdminLeadsAPI.convert(leadId, { ...payload, waitlistIfFull: true });
+      }
+      const waitlist = (res.data as any)?.waitlist;
+      if (res.success && waitlist) {
+        toast.success(`Lead converted; ${payload.studentName} is #${waitlist.position} on the batch waitlist`);
+        onConverted();
+      } else if (res.success) {
         toast.success('Lead converted to student');
         onConverted();
       } else {
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowRight, MessageSquare, Phone, StickyNote, UserCog, MapPin } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { AdminLeadsAPI } from '../../services/api';
+import type { Lead, LeadActivity, LeadActivityOutcome, LeadActivityType, LoggableLeadActivityType } from '../../types/lead';
+import {
+  ALL_LEAD_ACTIVITY_OUTCOMES,
+  LEAD_ACTIVITY_OUTCOME_LABELS,
+  LEAD_ACTIVITY_TYPE_LABELS,
+  LEAD_FOLLOW_UP_AFTER_DAYS,
+  LEAD_STATUS_LABELS,
+  LOGGABLE_LEAD_ACTIVITY_TYPES,
+} from '../../types/lead';
+
+interface LeadActivityModalProps {
+  lead: Lead | null;
+  onClose: () => void;
+  /** Called with the updated lead after an activity is logged. */
+  onLogged?: (lead: Lead) => void;
+}
+
+const selectCls =
+  'w-full px-3 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-text-primary transition-all text-sm';
+
+const TYPE_ICONS: Record<LeadActivityType, typeof Phone> = {
+  call: Phone,
+  message: MessageSquare,
+  visit: MapPin,
+  note: StickyNote,
+  status_change: ArrowRight,
+  assignment: UserCog,
+};
+
+function fmtDateTime(d: string) {
+  return new Date(d).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function describe(activity: LeadActivity): string {
+  if (activity.type === 'status_change') {
+    const from = activity.fromStatus ? LEAD_STATUS_LABELS[activity.fromStatus] : '—';
+    const to = activity.toStatus ? LEAD_STATUS_LABELS[activity.toStatus] : '—';
+    return `Status ${from} → ${to}`;
+  }
+  if (activity.type === 'assignment') {
+    return activity.assignedTo ? `Assigned to ${activity.assignedTo.name}` : 'Unassigned';
+  }
+  const outcome = activity.outcome ? ` · ${LEAD_ACTIVITY_OUTCOME_LABELS[activity.outcome]}` : '';
+  return `${LEAD_ACTIVITY_TYPE_LABELS[activity.type]}${outcome}`;
+}
+
+/**
+ * A lead's timeline with a form to log a call, message, visit or note. The
+ * server reschedules the follow-up from the outcome unless a date is given.
+ * Mount with a key per lead so the form starts blank for each one.
+ */
+const LeadActivityModal = ({ lead, onClose, onLogged }: LeadActivityModalProps) => {
+  const leadId = lead ? lead.id || lead._id : null;
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [type, setType] = useState<LoggableLeadActivityType>('call');
+  const [outcome, setOutcome] = useState<LeadActivityOutcome>('connected');
+  const [notes, setNotes] = useState('');
+  const [followUpMode, setFollowUpMode] = useState<'auto' | 'date' | 'clear'>('auto');
+  const [followUpDate, setFollowUpDate] = useState('');
+
+  const fetchActivities = useCallback(async () => {
+    if (!leadId) return;
+    try {
+      const res = await AdminLeadsAPI.listActivities(leadId);
+      setActivities(res.success && res.data ? res.data : []);
+    } catch {
+      setActivities([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId]);
+
+  useEffect(() => { fetchActivities(); }, [fetchActivities]);
+
+  const isNote = type === 'note';
+  const autoDays = isNote ? undefined : LEAD_FOLLOW_UP_AFTER_DAYS[outcome];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!leadId) return;
+    if (isNote && !notes.trim()) {
+      toast.error('Add the note text');
+      return;
+    }
+    if (followUpMode === 'date' && !followUpDate) {
+      toast.error('Pick the next follow-up date');
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await AdminLeadsAPI.logActivity(leadId, {
+        type,
+        outcome: isNote ? undefined : outcome,
+        notes: notes.trim() || undefined,
+        nextFollowUpDate: followUpMode === 'auto' ? undefined : followUpMode === 'date' ? followUpDate : null,
+      });
+      if (res.success && res.data) {
+        toast.success(`${LEAD_ACTIVITY_TYPE_LABELS[type]} logged`);
+        setNotes('');
+        setFollowUpMode('auto');
+        setFollowUpDate('');
+        onLogged?.(res.data.lead);
+        await fetchActivities();
+      }
+    } catch (err: any) {
+      toast.error(err?.response?.data?.error ?? 'Failed to log activity');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!lead} onClose={onClose} title={lead ? `Activity · ${lead.name}` : 'Activity'} size="md">
+      <form onSubmit={handleSubmit} className="space-y-3 pb-4 border-b border-white/7">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Type</label>
+            <select value={type} onChange={(e) => setType(e.target.value as LoggableLeadActivityType)} className={selectCls}>
+              {LOGGABLE_LEAD_ACTIVITY_TYPES.map((t) => (
+                <option key={t} value={t}>{LEAD_ACTIVITY_TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+          </div>
+          {!isNote && (
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-1">Outcome</label>
+              <select value={outcome} onChange={(e) => setOutcome(e.target.value as LeadActivityOutcome)} className={selectCls}>
+                {ALL_LEAD_ACTIVITY_OUTCOMES.map((o) => (
+                  <option key={o} value={o}>{LEAD_ACTIVITY_OUTCOME_LABELS[o]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          placeholder={isNote ? 'Note…' : 'What was discussed (optional)'}
+          className="w-full px-3 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-text-primary placeholder:text-text-tertiary transition-all text-sm"
+        />
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+          <label className="text-text-secondary font-medium whitespace-nowrap">Next follow-up:</label>
+          <select
+            value={followUpMode}
+            onChange={(e) => setFollowUpMode(e.target.value as 'auto' | 'date' | 'clear')}
+            className="px-3 py-1.5 text-sm border border-border rounded-lg bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="auto">
+              {autoDays === undefined
+                ? 'Keep current'
+                : autoDays === null
+                  ? 'Automatic (none)'
+                  : `Automatic (in ${autoDays} day${autoDays === 1 ? '' : 's'})`}
+            </option>
+            <option value="date">On a date</option>
+            <option value="clear">No follow-up</option>
+          </select>
+          {followUpMode === 'date' && (
+            <input
+              type="date"
+              value={followUpDate}
+              onChange={(e) => setFollowUpDate(e.target.value)}
+              className="h-8 px-2 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary"
+            />
+          )}
+          <Button type="submit" size="sm" variant="primary" className="sm:ml-auto" disabled={saving}>
+            {saving ? 'Saving…' : 'Log'}
+          </Button>
+        </div>
+      </form>
+
+      <div className="pt-4">
+        {loading ? (
+          <LoadingSpinner size="md" className="py-6" />
+        ) : activities.length === 0 ? (
+          <p className="text-sm text-text-tertiary text-center py-6">No activity yet</p>
+        ) : (
+          <ol className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {activities.map((activity) => {
+              const Icon = TYPE_ICONS[activity.type];
+              const system = activity.type === 'status_change' || activity.type === 'assignment';
+              return (
+                <li key={activity.id} className="flex gap-3">
+                  <div className={`mt-0.5 p-1.5 rounded-lg h-fit ${system ? 'bg-white/6 text-text-tertiary' : 'bg-primary-600/15 text-primary-300'}`}>
+                    <Icon className="w-3.5 h-3.5" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-text-primary font-medium">{describe(activity)}</p>
+                    {activity.notes && <p className="text-xs text-text-secondary whitespace-pre-wrap">{activity.notes}</p>}
+                    <p className="text-xs text-text-tertiary">
+                      {fmtDateTime(activity.occurredAt)}
+                      {activity.author && ` · ${activity.author.name}`}
+                      {!system && activity.nextFollowUpDate && ` · next follow-up ${fmtDate(activity.nextFollowUpDate)}`}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default LeadActivityModal;
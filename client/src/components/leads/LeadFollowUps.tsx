@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CalendarCheck, History } from 'lucide-react';
+import { AdminLeadsAPI } from '../../services/api';
+import type { FollowUpLead, LeadAssignee } from '../../types/lead';
+import {
+  LEAD_ACTIVITY_OUTCOME_LABELS,
+  LEAD_ACTIVITY_TYPE_LABELS,
+  LEAD_STATUS_COLORS,
+  LEAD_STATUS_LABELS,
+  leadAssigneeName,
+} from '../../types/lead';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import LeadActivityModal from './LeadActivityModal';
+
+type Due = 'all' | 'today' | 'overdue';
+
+const DUE_LABELS: Record<Due, string> = { all: 'Due & overdue', today: 'Due today', overdue: 'Overdue' };
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Open leads whose follow-up is due today or overdue, defaulting to the
+ * signed-in admin's own. Logging an activity reschedules the lead, which
+ * drops it off the list until it falls due again.
+ */
+const LeadFollowUps = () => {
+  const [leads, setLeads] = useState<FollowUpLead[]>([]);
+  const [assignees, setAssignees] = useState<(LeadAssignee & { id: string })[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [due, setDue] = useState<Due>('all');
+  const [assignedTo, setAssignedTo] = useState('me');
+  const [activityLead, setActivityLead] = useState<FollowUpLead | null>(null);
+
+  const fetchFollowUps = useCallback(async () => {
+    try {
+      const res = await AdminLeadsAPI.followUps({ due, assignedTo: assignedTo === 'all' ? undefined : assignedTo });
+      setLeads(res.success && res.data ? res.data : []);
+    } catch {
+      setLeads([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [due, assignedTo]);
+
+  useEffect(() => { fetchFollowUps(); }, [fetchFollowUps]);
+
+  useEffect(() => {
+    AdminLeadsAPI.assignees()
+      .then((res) => { if (res.success && res.data) setAssignees(res.data); })
+      .catch(console.error);
+  }, []);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-surface rounded-lg border border-white/7 p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(DUE_LABELS) as Due[]).map((d) => (
+            <button
+              key={d}
+              onClick={() => setDue(d)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${due === d ? 'bg-primary-600 text-white border-primary-500' : 'bg-white/6 text-text-secondary border-white/10 hover:bg-white/10 hover:text-text-primary'}`}
+            >
+              {DUE_LABELS[d]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <label className="text-xs text-text-secondary font-medium whitespace-nowrap">Assigned to:</label>
+          <select
+            value={assignedTo}
+            onChange={(e) => setAssignedTo(e.target.value)}
+            className="px-3 py-1.5 text-xs border border-border rounded-lg bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="me">Me</option>
+            <option value="all">Anyone</option>
+            <option value="unassigned">Unassigned</option>
+            {assignees.map((a) => (
+              <option key={a.id} value={a.id}>{a.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <Card className="py-12">
+          <LoadingSpinner size="xl" className="py-8" />
+        </Card>
+      ) : leads.length === 0 ? (
+        <Card className="py-12 text-center">
+          <CalendarCheck className="w-12 h-12 text-text-tertiary mx-auto mb-3 opacity-40" />
+          <p className="text-text-secondary font-medium">No follow-ups due</p>
+        </Card>
+      ) : (
+        <Card padding="none">
+          <div className="divide-y divide-border">
+            {leads.map((lead) => {
+              const id = lead.id || lead._id;
+              const assignee = leadAssigneeName(lead.assignedTo);
+              return (
+                <div key={id} className={`px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3 ${lead.overdue ? 'bg-error-600/10' : ''}`}>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold text-text-primary text-sm truncate">{lead.name}</p>
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${LEAD_STATUS_COLORS[lead.status]}`}>
+                        {LEAD_STATUS_LABELS[lead.status]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-text-secondary">
+                      {[lead.phone, lead.childName && `Child: ${lead.childName}`, assignee && `Assigned: ${assignee}`].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-xs text-text-tertiary">
+                      {lead.lastActivity
+                        ? `Last: ${LEAD_ACTIVITY_TYPE_LABELS[lead.lastActivity.type]}${lead.lastActivity.outcome ? ` · ${LEAD_ACTIVITY_OUTCOME_LABELS[lead.lastActivity.outcome]}` : ''} on ${fmtDate(lead.lastActivity.occurredAt)}`
+                        : 'No activity logged yet'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <span className={`text-xs whitespace-nowrap ${lead.overdue ? 'text-error-600 font-semibold' : 'text-text-secondary'}`}>
+                      {lead.overdue && <AlertTriangle className="mr-1 inline-block w-3 h-3" />}
+                      {lead.overdue ? 'Overdue since ' : 'Due '}{fmtDate(lead.followUpDate!)}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => setActivityLead(lead)}>
+                      <History className="w-3.5 h-3.5" /> Log
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
+      <LeadActivityModal
+        key={activityLead ? activityLead.id || activityLead._id : 'none'}
+        lead={activityLead}
+        onClose={() => setActivityLead(null)}
+        onLogged={() => fetchFollowUps()}
+      />
+    </div>
+  );
+};
+
+export default LeadFollowUps;
@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Clock, IndianRupee, Target, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminLeadsAPI } from '../../services/api';
+import type { LeadFunnelReport, LeadFunnelRow, LeadSource, LeadStatus } from '../../types/lead';
+import { ALL_LEAD_STATUSES, LEAD_SOURCE_LABELS, LEAD_STATUS_LABELS } from '../../types/lead';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+type Grouping = 'bySource' | 'byMonth' | 'byCourse';
+
+const GROUPING_LABELS: Record<Grouping, string> = {
+  bySource: 'Source',
+  byMonth: 'Month',
+  byCourse: 'Course',
+};
+
+const STATUS_BAR_COLORS: Record<LeadStatus, string> = {
+  new: 'bg-primary-500/70',
+  contacted: 'bg-secondary-500/60',
+  'follow-up': 'bg-accent-500/50',
+  converted: 'bg-success-600/80',
+  dropped: 'bg-white/15',
+};
+
+const inputCls =
+  'h-9 px-3 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface-alt text-text-primary';
+
+const formatCurrency = (amount: number) => `INR ${(amount ?? 0).toLocaleString()}`;
+const formatPct = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+function rowLabel(grouping: Grouping, row: LeadFunnelRow) {
+  return grouping === 'bySource' ? LEAD_SOURCE_LABELS[row.key as LeadSource] ?? row.label : row.label;
+}
+
+/**
+ * Where leads come from and what they turn into: a status funnel over every
+ * lead in the range, then the same figures per source, month or course with
+ * the fees converted students paid in their first 3 and 6 months.
+ */
+const LeadFunnelAnalytics = () => {
+  const [report, setReport] = useState<LeadFunnelReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [grouping, setGrouping] = useState<Grouping>('bySource');
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const res = await AdminLeadsAPI.analytics({ from: from || undefined, to: to || undefined });
+      if (res.success && res.data) setReport(res.data);
+    } catch (error: any) {
+      toast.error(error?.response?.data?.error ?? 'Failed to load lead analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  if (loading || !report) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 bg-surface rounded-lg border border-white/7">
+        <LoadingSpinner size="lg" />
+        <p className="mt-4 text-sm text-text-secondary">Loading lead analytics…</p>
+      </div>
+    );
+  }
+
+  const { totals } = report;
+  const reached = totals.total - totals.counts.new;
+  const funnel = [
+    { label: 'Leads', value: totals.total, color: 'bg-primary-500/70' },
+    { label: 'Reached (past New)', value: reached, color: 'bg-secondary-500/60' },
+    { label: 'Converted', value: totals.converted, color: 'bg-success-600/80' },
+  ];
+  const rows = report[grouping];
+  const maxRowTotal = Math.max(1, ...rows.map((r) => r.total));
+
+  return (
+    <div className="space-y-4">
+      {/* Range */}
+      <div className="bg-surface rounded-lg border border-white/7 p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <label className="text-xs text-text-secondary font-medium">Leads created</label>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputCls} />
+        <span className="text-xs text-text-tertiary">to</span>
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputCls} />
+        {(from || to) && (
+          <button onClick={() => { setFrom(''); setTo(''); }} className="text-xs text-error-600 hover:text-error-700 font-medium">
+            All time
+          </button>
+        )}
+      </div>
+
+      {/* KPI row */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {[
+          { label: 'Leads', value: totals.total, sub: `${totals.converted} converted`, icon: <Users className="w-4 h-4" />, accent: 'border-l-primary-500', iconColor: 'text-primary-400' },
+          { label: 'Conversion rate', value: formatPct(totals.conversionRate), sub: null, icon: <Target className="w-4 h-4" />, accent: 'border-l-accent-500', iconColor: 'text-accent-400' },
+          {
+            label: 'Median days to convert',
+            value: totals.medianDaysToConvert ?? '—',
+            sub: null,
+            icon: <Clock className="w-4 h-4" />,
+            accent: 'border-l-secondary-500',
+            iconColor: 'text-secondary-400',
+          },
+          {
+            label: 'Revenue (first 6 months)',
+            value: formatCurrency(totals.revenueFirst6Months),
+            sub: `${formatCurrency(totals.revenueFirst3Months)} in first 3`,
+            icon: <IndianRupee className="w-4 h-4" />,
+            accent: 'border-l-success-600',
+            iconColor: 'text-success-600',
+          },
+        ].map((card) => (
+          <div key={card.label} className={`bg-surface rounded-lg border border-white/7 p-4 border-l-2 ${card.accent} flex flex-col gap-2`}>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-text-tertiary">{card.label}</p>
+              <span className={card.iconColor + ' opacity-50'}>{card.icon}</span>
+            </div>
+            <p className="text-2xl font-bold text-text-primary leading-none">{card.value}</p>
+            {card.sub && <p className={`text-xs font-medium ${card.iconColor}`}>{card.sub}</p>}
+          </div>
+        ))}
+      </div>
+
+      {/* Funnel */}
+      <div className="bg-surface rounded-lg border border-white/7 p-5">
+        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest mb-4">Funnel</h3>
+        <div className="space-y-3">
+          {funnel.map((stage) => {
+            const pct = totals.total ? (stage.value / totals.total) * 100 : 0;
+            return (
+              <div key={stage.label} className="flex items-center gap-4">
+                <span className="text-xs text-text-secondary w-36 flex-shrink-0">{stage.label}</span>
+                <div className="flex-1 flex justify-center">
+                  <div
+                    className={`h-7 rounded-md ${stage.color} transition-all duration-500 flex items-center justify-center`}
+                    style={{ width: `${Math.max(pct, stage.value ? 4 : 0)}%` }}
+                  >
+                    <span className="text-xs font-semibold text-white">{stage.value}</span>
+                  </div>
+                </div>
+                <span className="text-xs text-text-tertiary w-14 text-right flex-shrink-0">{formatPct(pct / 100)}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Breakdown */}
+      <div className="bg-surface rounded-lg border border-white/7 p-5">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest">Conversion by {GROUPING_LABELS[grouping].toLowerCase()}</h3>
+          <div className="inline-flex rounded-lg border border-white/10 p-0.5">
+            {(Object.keys(GROUPING_LABELS) as Grouping[]).map((g) => (
+              <button
+                key={g}
+                onClick={() => setGrouping(g)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${grouping === g ? 'bg-primary-600 text-white' : 'text-text-secondary hover:text-text-primary'}`}
+              >
+                {GROUPING_LABELS[g]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-text-tertiary text-center py-6">No leads in this range</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-text-tertiary">
+                  <th className="py-2 pr-4 font-medium">{GROUPING_LABELS[grouping]}</th>
+                  <th className="py-2 pr-4 font-medium w-1/3">Status mix</th>
+                  <th className="py-2 pr-4 font-medium text-right">Leads</th>
+                  <th className="py-2 pr-4 font-medium text-right">Converted</th>
+                  <th className="py-2 pr-4 font-medium text-right">Rate</th>
+                  <th className="py-2 pr-4 font-medium text-right">Median days</th>
+                  <th className="py-2 pr-4 font-medium text-right">Revenue 3m</th>
+                  <th className="py-2 font-medium text-right">Revenue 6m</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className="py-2 pr-4 text-text-primary whitespace-nowrap">{rowLabel(grouping, row)}</td>
+                    <td className="py-2 pr-4">
+                      <div className="flex h-2 rounded-full overflow-hidden bg-white/7 gap-px" style={{ width: `${(row.total / maxRowTotal) * 100}%` }}>
+                        {ALL_LEAD_STATUSES.map((s) => row.counts[s] > 0 && (
+                          <div
+                            key={s}
+                            className={STATUS_BAR_COLORS[s]}
+                            style={{ width: `${(row.counts[s] / row.total) * 100}%` }}
+                            title={`${LEAD_STATUS_LABELS[s]}: ${row.counts[s]}`}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4 text-right text-text-secondary">{row.total}</td>
+                    <td className="py-2 pr-4 text-right text-text-secondary">{row.converted}</td>
+                    <td className="py-2 pr-4 text-right font-medium text-text-primary">{formatPct(row.conversionRate)}</td>
+                    <td className="py-2 pr-4 text-right text-text-secondary">{row.medianDaysToConvert ?? '—'}</td>
+                    <td className="py-2 pr-4 text-right text-text-secondary whitespace-nowrap">{formatCurrency(row.revenueFirst3Months)}</td>
+                    <td className="py-2 text-right text-text-secondary whitespace-nowrap">{formatCurrency(row.revenueFirst6Months)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-4 mt-3 pt-3 border-t border-white/7">
+          {ALL_LEAD_STATUSES.map((s) => (
+            <div key={s} className="flex items-center gap-1.5">
+              <span className={`w-2 h-2 rounded-full ${STATUS_BAR_COLORS[s]}`} />
+              <span className="text-xs text-text-tertiary">{LEAD_STATUS_LABELS[s]}</span>
+            </div>
+          ))}
+          <span className="text-xs text-text-tertiary sm:ml-auto">Revenue counts payments from the conversion date; recent conversions are still filling their window.</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeadFunnelAnalytics;
@@ -2,10 +2,10 @@ import { useState, useEffect } from 'react';
 import Modal from '../ui/Modal';
 import Button from '../ui/Button';
 import Input from '../ui/Input';
-import type { Lead, LeadStatus, LeadSource } from '../../types/lead';
+import type { Lead, LeadAssignee, LeadStatus, LeadSource } from '../../types/lead';
 import { ALL_LEAD_SOURCES, LEAD_STATUS_LABELS, LEAD_SOURCE_LABELS, MUTABLE_LEAD_STATUSES } from '../../types/lead';
 import type { Course } from '../../types/course';
-import { CourseAPI } from '../../services/api';
+import { AdminLeadsAPI, CourseAPI } from '../../services/api';
 
 interface LeadModalProps {
   isOpen: boolean;
@@ -23,6 +23,7 @@ const sectionTitle = 'text-base font-semibold text-text-primary mb-3 pb-2 border
 const LeadModal = ({ isOpen, onClose, onSubmit, lead, mode }: LeadModalProps) => {
   const [submitting, setSubmitting] = useState(false);
   const [courses, setCourses] = useState<Course[]>([]);
+  const [assignees, setAssignees] = useState<(LeadAssignee & { id: string })[]>([]);
 
   const blank = {
     name: '',
@@ -36,6 +37,7 @@ const LeadModal = ({ isOpen, onClose, onSubmit, lead, mode }: LeadModalProps) =>
     status: 'new' as LeadStatus,
     notes: '',
     followUpDate: '',
+    assignedTo: '',
   };
 
   const [form, setForm] = useState(blank);
@@ -54,6 +56,9 @@ const LeadModal = ({ isOpen, onClose, onSubmit, lead, mode }: LeadModalProps) =>
     CourseAPI.getCourses(true)
       .then((res) => { if (res.success && res.data) setCourses(res.data); })
       .catch(console.error);
+    AdminLeadsAPI.assignees()
+      .then((res) => { if (res.success && res.data) setAssignees(res.data); })
+      .catch(console.error);
   }, [isOpen]);
 
   // Populate form when editing
@@ -78,6 +83,9 @@ const LeadModal = ({ isOpen, onClose, onSubmit, lead, mode }: LeadModalProps) =>
         followUpDate: lead.followUpDate
           ? new Date(lead.followUpDate).toISOString().split('T')[0]
           : '',
+        assignedTo: typeof lead.assignedTo === 'object' && lead.assignedTo
+          ? lead.assignedTo._id ?? lead.assignedTo.id ?? ''
+          : lead.assignedTo ?? '',
       });
     } else {
       setForm(blank);
@@ -118,6 +126,7 @@ const LeadModal = ({ isOpen, onClose, onSubmit, lead, mode }: LeadModalProps) =>
         status: form.status,
         notes: form.notes.trim() || undefined,
         followUpDate: form.followUpDate || undefined,
+        assignedTo: form.assignedTo || null,
       } as Partial<Lead>);
     } finally {
       setSubmitting(false);
@@ -260,13 +269,24 @@ const LeadModal = ({ isOpen, onClose, onSubmit, lead, mode }: LeadModalProps) =>
         <div>
           <h4 className={sectionTitle}>Follow-up & Notes</h4>
           <div className="space-y-3">
-            <Input
-              label="Follow-up Date"
-              name="followUpDate"
-              type="date"
-              value={form.followUpDate}
-              onChange={handleChange}
-            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <Input
+                label="Follow-up Date"
+                name="followUpDate"
+                type="date"
+                value={form.followUpDate}
+                onChange={handleChange}
+              />
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-1">Assigned To</label>
+                <select name="assignedTo" value={form.assignedTo} onChange={handleChange} className={selectCls}>
+                  <option value="">Unassigned</option>
+                  {assignees.map((a) => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
             <div>
               <label className="block text-sm font-medium text-text-primary mb-1">
                 Notes / Requirements
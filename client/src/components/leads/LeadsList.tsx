@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { AlertTriangle, Pencil, Plus, Trash2, UserCheck, UserPlus } from 'lucide-react';
+import { AlertTriangle, History, Pencil, Plus, Trash2, UserCheck, UserPlus } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { AdminLeadsAPI } from '../../services/api';
 import type { Lead, LeadStatus, LeadSource } from '../../types/lead';
@@ -10,12 +10,16 @@ import {
   LEAD_STATUS_COLORS,
   LEAD_SOURCE_LABELS,
   MUTABLE_LEAD_STATUSES,
+  leadAssigneeName,
 } from '../../types/lead';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
+import ExportButton from '../ui/ExportButton';
 import LoadingSpinner from '../ui/LoadingSpinner';
 import LeadModal from './LeadModal';
 import ConvertLeadModal from './ConvertLeadModal';
+import LeadActivityModal from './LeadActivityModal';
+import LeadFollowUps from './LeadFollowUps';
 
 // ─── Status badge ─────────────────────────────────────────────────
 
@@ -49,6 +53,7 @@ function statusOptionsFor(lead: Lead): LeadStatus[] {
 // ─── Main component ───────────────────────────────────────────────
 
 const LeadsList = () => {
+  const [view, setView] = useState<'all' | 'follow-ups'>('all');
   const [leads, setLeads] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -69,6 +74,7 @@ const LeadsList = () => {
   const [modalMode, setModalMode] = useState<'create' | 'edit'>('create');
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
   const [convertLead, setConvertLead] = useState<Lead | null>(null);
+  const [activityLead, setActivityLead] = useState<Lead | null>(null);
 
   // Inline status update state
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
@@ -201,6 +207,29 @@ const LeadsList = () => {
 
   // ─ Render ───────────────────────────────────────────────────────
 
+  const viewToggle = (
+    <div className="inline-flex rounded-lg border border-white/10 p-0.5 bg-surface">
+      {([['all', 'All leads'], ['follow-ups', 'My follow-ups']] as const).map(([v, label]) => (
+        <button
+          key={v}
+          onClick={() => setView(v)}
+          className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${view === v ? 'bg-primary-600 text-white' : 'text-text-secondary hover:text-text-primary'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (view === 'follow-ups') {
+    return (
+      <div className="space-y-4">
+        {viewToggle}
+        <LeadFollowUps />
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <Card className="text-center py-12">
@@ -213,6 +242,7 @@ const LeadsList = () => {
 
   return (
     <div className="space-y-4">
+      {viewToggle}
       {/* Compact toolbar */}
       <div className="bg-surface rounded-lg border border-white/7 p-3 space-y-3">
         <div className="flex flex-col lg:flex-row gap-3 lg:items-center justify-between">
@@ -229,10 +259,19 @@ const LeadsList = () => {
               Total: <span className="font-semibold text-text-primary">{totalLeads}</span> leads
             </span>
           </div>
-          <Button onClick={handleCreate} variant="primary" size="sm" className="h-9 whitespace-nowrap">
-            <Plus className="w-4 h-4" />
-            Add Lead
-          </Button>
+          <div className="flex items-center gap-2">
+            <ExportButton
+              onExport={(format) => AdminLeadsAPI.export({
+                search: search || undefined,
+                status: statusFilter !== 'all' ? statusFilter : undefined,
+                source: sourceFilter !== 'all' ? sourceFilter : undefined,
+              }, format)}
+            />
+            <Button onClick={handleCreate} variant="primary" size="sm" className="h-9 whitespace-nowrap">
+              <Plus className="w-4 h-4" />
+              Add Lead
+            </Button>
+          </div>
         </div>
 
         <div className="flex flex-col lg:flex-row lg:items-center gap-3">
@@ -323,6 +362,9 @@ const LeadsList = () => {
                         <p className="font-semibold text-text-primary text-sm truncate">{lead.name}</p>
                         {lead.phone && <p className="text-xs text-text-secondary">{lead.phone}</p>}
                         {lead.email && <p className="text-xs text-text-tertiary truncate">{lead.email}</p>}
+                        {leadAssigneeName(lead.assignedTo) && (
+                          <p className="text-xs text-text-tertiary truncate">Assigned: {leadAssigneeName(lead.assignedTo)}</p>
+                        )}
                       </td>
                       {/* Child */}
                       <td className="px-4 py-3 max-w-[140px]">
@@ -374,6 +416,13 @@ const LeadsList = () => {
                       {/* Actions */}
                       <td className="px-4 py-3">
                         <div className="flex gap-1">
+                          <button
+                            onClick={() => setActivityLead(lead)}
+                            className="p-1.5 text-text-tertiary hover:text-primary-300 hover:bg-primary-600/15 rounded-lg transition-colors"
+                            title="Activity"
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => handleEdit(lead)}
                             className="p-1.5 text-text-tertiary hover:text-primary-300 hover:bg-primary-600/15 rounded-lg transition-colors"
@@ -420,6 +469,9 @@ const LeadsList = () => {
                       <p className="font-semibold text-text-primary">{lead.name}</p>
                       {lead.phone && <p className="text-xs text-text-secondary">{lead.phone}</p>}
                       {lead.email && <p className="text-xs text-text-tertiary">{lead.email}</p>}
+                      {leadAssigneeName(lead.assignedTo) && (
+                        <p className="text-xs text-text-tertiary">Assigned: {leadAssigneeName(lead.assignedTo)}</p>
+                      )}
                     </div>
                     <StatusBadge status={lead.status} />
                   </div>
@@ -464,6 +516,9 @@ const LeadsList = () => {
                         <option key={s} value={s}>{LEAD_STATUS_LABELS[s]}</option>
                       ))}
                     </select>
+                    <button onClick={() => setActivityLead(lead)} className="p-1.5 text-text-tertiary hover:text-primary-300 hover:bg-primary-600/15 rounded-lg" title="Activity">
+                      <History className="w-4 h-4" />
+                    </button>
                     <button onClick={() => handleEdit(lead)} className="p-1.5 text-text-tertiary hover:text-primary-300 hover:bg-primary-600/15 rounded-lg" title="Edit">
                       <Pencil className="w-4 h-4" />
                     </button>
@@ -523,6 +578,12 @@ const LeadsList = () => {
         onClose={() => setConvertLead(null)}
         onConverted={handleConverted}
       />
+      <LeadActivityModal
+        key={activityLead ? activityLead.id || activityLead._id : 'none'}
+        lead={activityLead}
+        onClose={() => setActivityLead(null)}
+        onLogged={() => fetchLeads()}
+      />
     </div>
   );
 };
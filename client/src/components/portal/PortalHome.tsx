@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BookOpen, CalendarDays, FileDown, Receipt, Wallet, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PortalAPI } from '../../services/api';
+import type { PortalCreditEntry, PortalEnrollment, PortalInvoice, PortalPayment, PortalScheduleEntry, PortalStudent } from '../../types/portal';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import Button from '../ui/Button';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const INVOICE_STATUS: Record<PortalInvoice['status'], { label: string; cls: string }> = {
+  paid:           { label: 'Paid',     cls: 'bg-accent-400/15 text-accent-400' },
+  upcoming:       { label: 'Upcoming', cls: 'bg-primary-400/15 text-primary-400' },
+  overdue:        { label: 'Overdue',  cls: 'bg-error-600/15 text-error-600' },
+  partially_paid: { label: 'Partial',  cls: 'bg-secondary-400/15 text-secondary-400' },
+  void:           { label: 'Void',     cls: 'bg-text-tertiary/15 text-text-tertiary' },
+};
+
+const CREDIT_SIGN: Record<PortalCreditEntry['type'], string> = {
+  credit_added: '+',
+  credit_used: '−',
+  credit_refund: '+',
+  credit_adjustment: '±',
+};
+
+function fmtMonth(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+}
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+function fmtFee(n: number) {
+  return `₹${n.toLocaleString('en-IN')}`;
+}
+
+function scheduleText(schedule: PortalScheduleEntry[] = []) {
+  if (schedule.length === 0) return null;
+  return [...schedule]
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek)
+    .map((s) => `${DAY_NAMES[s.dayOfWeek]} ${s.startTime}`)
+    .join(', ');
+}
+
+function SectionHeading({ icon: Icon, title }: { icon: React.ElementType; title: string }) {
+  return (
+    <h3 className="flex items-center gap-2 text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-2">
+      <Icon className="w-3.5 h-3.5" /> {title}
+    </h3>
+  );
+}
+
+function StudentDetail({ student }: { student: PortalStudent }) {
+  const [invoices, setInvoices] = useState<PortalInvoice[]>([]);
+  const [payments, setPayments] = useState<PortalPayment[]>([]);
+  const [credits, setCredits] = useState<PortalCreditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Keyed by student in the parent, so each child mounts with loading=true
+    let cancelled = false;
+    Promise.all([
+      PortalAPI.getInvoices(student.id, 'outstanding'),
+      PortalAPI.getPayments(student.id),
+      PortalAPI.getCredits(student.id),
+    ])
+      .then(([invRes, payRes, creditRes]) => {
+        if (cancelled) return;
+        setInvoices(invRes.data ?? []);
+        setPayments(payRes.data ?? []);
+        setCredits(creditRes.data?.credits ?? []);
+      })
+      .catch((e: any) => {
+        if (!cancelled) toast.error(e?.response?.data?.error ?? 'Failed to load fee details');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [student.id]);
+
+  async function download(fn: () => Promise<void>) {
+    try {
+      await fn();
+    } catch {
+      toast.error('Download failed');
+    }
+  }
+
+  // Every active enrollment; a paused or former student shows the course on record
+  const courses: PortalEnrollment[] = student.activeEnrollments?.length
+    ? student.activeEnrollments
+    : [{
+      id: student.id,
+      courseName: student.courseId?.displayName ?? null,
+      stageNumber: student.stageNumber ?? 0,
+      stageName: student.stageName ?? null,
+      levelNumber: student.levelNumber ?? 0,
+      batch: student.batchId,
+    }];
+
+  return (
+    <div className="space-y-5">
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-3">
+        {[
+          { label: 'Balance due', value: fmtFee(student.balanceDue) },
+          { label: 'Credit balance', value: fmtFee(student.creditBalance) },
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-surface border border-white/7 rounded-lg px-3 py-2">
+            <div className="text-xs text-text-tertiary">{label}</div>
+            <div className="text-sm font-medium text-text-primary mt-0.5">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-surface border border-white/7 rounded-lg px-4 py-3">
+        <SectionHeading icon={CalendarDays} title="Courses & class schedule" />
+        <div className="divide-y divide-white/7">
+          {courses.map((course) => {
+            const schedule = scheduleText(course.batch?.schedule);
+            return (
+              <div key={course.id} className="py-2 first:pt-0 last:pb-0 text-sm">
+                <div className="text-text-primary">
+                  {course.courseName ?? '—'}
+                  {course.stageNumber > 0 && (
+                    <span className="text-text-tertiary">
+                      {' '}· {course.stageName ?? `Stage ${course.stageNumber}`} · L{course.levelNumber}
+                    </span>
+                  )}
+                </div>
+                {course.batch && schedule ? (
+                  <p className="text-xs text-text-secondary">
+                    {course.batch.batchName} <span className="text-text-tertiary">·</span> {schedule}
+                  </p>
+                ) : (
+                  <p className="text-xs text-text-tertiary">Not assigned to a batch yet.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-8 flex justify-center"><LoadingSpinner size="md" /></div>
+      ) : (
+        <>
+          {/* Outstanding invoices */}
+          <div className="bg-surface border border-white/7 rounded-lg px-4 py-3">
+            <SectionHeading icon={AlertTriangle} title="Outstanding fees" />
+            {invoices.length === 0 ? (
+              <p className="text-sm text-text-tertiary">Nothing due. Thank you!</p>
+            ) : (
+              <div className="divide-y divide-white/7">
+                {invoices.map((inv) => (
+                  <div key={inv.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0 text-sm">
+                      <div className="text-text-primary">
+                        {inv.kind === 'late_fee' ? 'Late fee' : 'Tuition'} · {fmtMonth(inv.invoiceMonth)}
+                      </div>
+                      <div className="text-xs text-text-tertiary">Due {fmtDate(inv.dueDate)}</div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INVOICE_STATUS[inv.status].cls}`}>
+                        {INVOICE_STATUS[inv.status].label}
+                      </span>
+                      <span className="text-sm font-medium text-text-primary">{fmtFee(inv.balanceDue)}</span>
+                      <Button size="sm" variant="outline" onClick={() => download(() => PortalAPI.downloadInvoicePdf(inv.id))}>
+                        <FileDown className="w-3.5 h-3.5" /> PDF
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Payment history */}
+          <div className="bg-surface border border-white/7 rounded-lg px-4 py-3">
+            <SectionHeading icon={Receipt} title="Payments" />
+            {payments.length === 0 ? (
+              <p className="text-sm text-text-tertiary">No payments recorded yet.</p>
+            ) : (
+              <div className="divide-y divide-white/7">
+                {payments.map((p) => (
+                  <div key={p._id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0 text-sm">
+                      <div className={p.isReversed ? 'text-text-tertiary line-through' : 'text-text-primary'}>
+                        {fmtFee(p.amount)} · {p.paymentMethod}
+                      </div>
+                      <div className="text-xs text-text-tertiary">
+                        {fmtDate(p.paymentDate)}
+                        {p.receiptNumber && ` · ${p.receiptNumber}`}
+                        {p.isReversed && ' · reversed'}
+                      </div>
+                    </div>
+                    {!p.isReversed && (
+                      <Button size="sm" variant="outline" onClick={() => download(() => PortalAPI.downloadReceiptPdf(p._id))}>
+                        <FileDown className="w-3.5 h-3.5" /> Receipt
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Credits */}
+          <div className="bg-surface border border-white/7 rounded-lg px-4 py-3">
+            <SectionHeading icon={Wallet} title={`Credit · ${fmtFee(student.creditBalance)} available`} />
+            {credits.length === 0 ? (
+              <p className="text-sm text-text-tertiary">No credit activity.</p>
+            ) : (
+              <div className="divide-y divide-white/7">
+                {credits.map((c) => (
+                  <div key={c._id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="text-text-primary truncate">{c.description}</div>
+                      <div className="text-xs text-text-tertiary">{fmtDate(c.processedAt)}</div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-text-primary">{CREDIT_SIGN[c.type]}{fmtFee(Math.abs(c.amount))}</div>
+                      <div className="text-xs text-text-tertiary">Balance {fmtFee(c.balanceAfter)}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function PortalHome() {
+  const [students, setStudents] = useState<PortalStudent[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await PortalAPI.getStudents();
+      const list = res.data ?? [];
+      setStudents(list);
+      setSelectedId((current) => current ?? list[0]?.id ?? null);
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load your students');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  if (loading) {
+    return (
+      <div className="py-16 flex justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (students.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <BookOpen className="w-8 h-8 text-text-tertiary mx-auto mb-3" />
+        <p className="text-sm text-text-secondary">No students are linked to your account yet.</p>
+        <p className="text-xs text-text-tertiary mt-1">Please contact the club office to get access.</p>
+      </div>
+    );
+  }
+
+  const selected = students.find((s) => s.id === selectedId) ?? students[0];
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      {students.length > 1 && (
+        <div className="flex gap-1.5 flex-wrap">
+          {students.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => setSelectedId(s.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                s.id === selected.id
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-surface border border-white/7 text-text-secondary hover:text-text-primary'
+              }`}
+            >
+              {s.studentName}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-lg font-semibold text-text-primary">{selected.studentName}</h2>
+        <p className="text-xs text-text-tertiary">
+          {selected.studentCode}
+          {selected.enrollmentDate && ` · Enrolled ${fmtDate(selected.enrollmentDate)}`}
+          {!selected.isActive && ' · Inactive'}
+        </p>
+      </div>
+
+      <StudentDetail key={selected.id} student={selected} />
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { type ReactNode } from 'react';
+import { User, LogOut, Sun, Moon } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useTheme } from '../../contexts/ThemeContext';
+
+interface PortalLayoutProps {
+  children: ReactNode;
+}
+
+// Parent-facing shell: no admin sidebar, just the club header and content.
+const PortalLayout = ({ children }: PortalLayoutProps) => {
+  const { user, logout } = useAuth();
+  const { theme, toggleTheme } = useTheme();
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="h-14 flex items-center justify-between px-4 md:px-6 bg-surface border-b border-border flex-shrink-0 sticky top-0 z-40">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-8 h-8 rounded-lg bg-primary-600 flex items-center justify-center shadow-navy flex-shrink-0">
+            <span className="text-white font-bold text-xs tracking-tight">CK</span>
+          </div>
+          <div className="min-w-0">
+            <div className="text-[11px] text-text-tertiary uppercase tracking-wide">Parent Portal</div>
+            <h1 className="text-sm font-semibold text-text-primary tracking-tight truncate">Chess Klub</h1>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-surface-alt border border-border">
+            <div className="w-6 h-6 rounded-lg bg-primary-600 flex items-center justify-center">
+              <User className="w-3 h-3 text-white" strokeWidth={2} />
+            </div>
+            <span className="text-xs font-medium text-text-primary hidden sm:block">{user?.name}</span>
+          </div>
+          <button
+            onClick={toggleTheme}
+            title={theme === 'dark' ? 'Switch to light mode' : 'Switch to dark mode'}
+            className="w-8 h-8 flex items-center justify-center rounded-lg text-text-tertiary hover:text-text-primary hover:bg-surface-hover transition-colors"
+          >
+            {theme === 'dark'
+              ? <Sun className="w-4 h-4" strokeWidth={1.8} />
+              : <Moon className="w-4 h-4" strokeWidth={1.8} />}
+          </button>
+          <button
+            onClick={logout}
+            title="Logout"
+            className="w-8 h-8 flex items-center justify-center rounded-lg text-text-tertiary hover:text-error-400 hover:bg-error-600/10 transition-colors"
+          >
+            <LogOut className="w-4 h-4" strokeWidth={1.8} />
+          </button>
+        </div>
+      </header>
+      <main className="flex-1">
+        <div className="max-w-4xl mx-auto w-full px-4 md:px-6 py-6">
+          {children}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PortalLayout;
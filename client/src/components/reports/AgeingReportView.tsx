@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminReportsAPI } from '../../services/api';
+import type { AgeingAmounts, AgeingBucket, AgeingReport, AgeingView, ReportFormat } from '../../types/report';
+import { AGEING_BUCKETS } from '../../types/report';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+const inputCls = 'h-9 px-3 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary focus:outline-none focus:ring-1 focus:ring-primary-400';
+
+const VIEW_LABELS: Record<AgeingView, string> = { student: 'Student', batch: 'Batch', stage: 'Course stage' };
+
+const BUCKET_COLORS: Record<AgeingBucket, string> = {
+  current: 'bg-primary-500/60',
+  d0_30: 'bg-secondary-400/60',
+  d31_60: 'bg-secondary-600/70',
+  d61_90: 'bg-red-500/50',
+  d90_plus: 'bg-red-500/80',
+};
+
+function fmtFee(n: number) {
+  return `₹${n.toLocaleString('en-IN')}`;
+}
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function BucketCells({ row }: { row: AgeingAmounts }) {
+  return (
+    <>
+      {AGEING_BUCKETS.map(({ key }) => (
+        <td key={key} className={`px-4 py-2 text-right whitespace-nowrap ${row[key] ? (key === 'd61_90' || key === 'd90_plus' ? 'text-error-600' : 'text-text-secondary') : 'text-text-tertiary'}`}>
+          {row[key] ? fmtFee(row[key]) : '—'}
+        </td>
+      ))}
+      <td className="px-4 py-2 text-right font-medium text-text-primary whitespace-nowrap">{fmtFee(row.total)}</td>
+    </>
+  );
+}
+
+/**
+ * Unpaid invoices by how long they have been past due, per student (net of
+ * credit on account), per batch or per course stage. Student rows open the
+ * student's invoices.
+ */
+const AgeingReportView = () => {
+  const navigate = useNavigate();
+  const [report, setReport] = useState<AgeingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [asOf, setAsOf] = useState('');
+  const [view, setView] = useState<AgeingView>('student');
+  const [downloading, setDownloading] = useState<ReportFormat | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const res = await AdminReportsAPI.getAgeing(asOf || undefined);
+      if (res.success && res.data) setReport(res.data);
+    } catch (error: any) {
+      toast.error(error?.response?.data?.error ?? 'Failed to load ageing report');
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf]);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  const download = async (format: ReportFormat) => {
+    setDownloading(format);
+    try {
+      await AdminReportsAPI.downloadAgeing({ asOf: asOf || undefined, view }, format);
+    } catch {
+      toast.error('Export failed');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const groups = report ? (view === 'batch' ? report.byBatch : report.byStage) : [];
+  const grandTotal = report?.totals.total || 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-surface rounded-lg border border-white/7 p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <label className="text-xs text-text-secondary font-medium">As of</label>
+        <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className={inputCls} />
+        <div className="inline-flex rounded-lg border border-white/10 p-0.5">
+          {(Object.keys(VIEW_LABELS) as AgeingView[]).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${view === v ? 'bg-primary-600 text-white' : 'text-text-secondary hover:text-text-primary'}`}
+            >
+              By {VIEW_LABELS[v].toLowerCase()}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 sm:ml-auto">
+          {(['csv', 'xlsx'] as ReportFormat[]).map((format) => (
+            <Button key={format} size="sm" variant="outline" disabled={!!downloading} onClick={() => download(format)}>
+              <Download className="w-3.5 h-3.5" /> {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <div className="bg-surface rounded-lg border border-white/7 py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          {/* Totals by bucket */}
+          <div className="bg-surface rounded-lg border border-white/7 p-5 space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+              {AGEING_BUCKETS.map(({ key, label }) => (
+                <div key={key}>
+                  <p className="text-xs text-text-tertiary">{label}</p>
+                  <p className={`text-lg font-semibold ${key === 'd61_90' || key === 'd90_plus' ? 'text-error-600' : 'text-text-primary'}`}>
+                    {fmtFee(report.totals[key])}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-white/7 gap-px">
+              {AGEING_BUCKETS.map(({ key }) => (
+                <div key={key} className={BUCKET_COLORS[key]} style={{ width: `${(report.totals[key] / grandTotal) * 100}%` }} />
+              ))}
+            </div>
+            <p className="text-xs text-text-tertiary">
+              Total unpaid {fmtFee(report.totals.total)} · credit on account {fmtFee(report.totals.creditApplied)} ·{' '}
+              <span className="text-text-primary font-medium">net due {fmtFee(report.totals.net)}</span>
+            </p>
+          </div>
+
+          <div className="bg-surface rounded-lg border border-white/7 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-surface-alt">
+                <tr className="text-left text-xs text-text-tertiary">
+                  <th className="px-4 py-2 font-medium">{VIEW_LABELS[view]}</th>
+                  {view === 'student' ? (
+                    <th className="px-4 py-2 font-medium">Oldest due</th>
+                  ) : (
+                    <th className="px-4 py-2 font-medium text-right">Students</th>
+                  )}
+                  {AGEING_BUCKETS.map(({ key, label }) => (
+                    <th key={key} className="px-4 py-2 font-medium text-right whitespace-nowrap">{label}</th>
+                  ))}
+                  <th className="px-4 py-2 font-medium text-right">Total</th>
+                  {view === 'student' && (
+                    <>
+                      <th className="px-4 py-2 font-medium text-right">Credit</th>
+                      <th className="px-4 py-2 font-medium text-right">Net due</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {view === 'student'
+                  ? report.byStudent.map((row) => (
+                    <tr
+                      key={row.studentId}
+                      onClick={() => navigate(`/students/${row.studentId}?tab=invoices`)}
+                      className="cursor-pointer hover:bg-surface-hover transition-colors"
+                    >
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <span className="text-text-primary hover:text-primary-400">{row.studentName}</span>
+                        {!row.isActive && <span className="text-xs text-text-tertiary"> · inactive</span>}
+                      </td>
+                      <td className="px-4 py-2 text-xs text-text-tertiary whitespace-nowrap">
+                        {fmtDate(row.oldestDueDate)} · {row.invoiceCount} inv.
+                      </td>
+                      <BucketCells row={row} />
+                      <td className="px-4 py-2 text-right text-accent-400 whitespace-nowrap">{row.creditBalance ? fmtFee(row.creditBalance) : '—'}</td>
+                      <td className="px-4 py-2 text-right font-semibold text-text-primary whitespace-nowrap">{fmtFee(row.net)}</td>
+                    </tr>
+                  ))
+                  : groups.map((row) => (
+                    <tr key={row.key}>
+                      <td className="px-4 py-2 text-text-primary whitespace-nowrap">{row.label}</td>
+                      <td className="px-4 py-2 text-right text-text-secondary">{row.students}</td>
+                      <BucketCells row={row} />
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+            {report.byStudent.length === 0 && (
+              <p className="text-sm text-text-tertiary text-center py-8">Nothing outstanding</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AgeingReportView;
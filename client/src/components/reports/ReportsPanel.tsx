@@ -0,0 +1,34 @@
+import { useState } from 'react';
+import RevenueReportView from './RevenueReportView';
+import AgeingReportView from './AgeingReportView';
+
+type ReportTab = 'revenue' | 'ageing';
+
+const TABS: { id: ReportTab; label: string }[] = [
+  { id: 'revenue', label: 'Revenue & Collections' },
+  { id: 'ageing', label: 'Receivables Ageing' },
+];
+
+const ReportsPanel = () => {
+  const [tab, setTab] = useState<ReportTab>('revenue');
+
+  return (
+    <div className="space-y-4">
+      <div className="inline-flex rounded-lg border border-white/10 p-0.5 bg-surface">
+        {TABS.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${tab === t.id ? 'bg-primary-600 text-white' : 'text-text-secondary hover:text-text-primary'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+      {tab === 'revenue' && <RevenueReportView />}
+      {tab === 'ageing' && <AgeingReportView />}
+    </div>
+  );
+};
+
+export default ReportsPanel;
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminReportsAPI } from '../../services/api';
+import type { ReportFormat, RevenueDelta, RevenueReport } from '../../types/report';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+const inputCls = 'h-9 px-3 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary focus:outline-none focus:ring-1 focus:ring-primary-400';
+
+function fmtFee(n: number) {
+  return `₹${n.toLocaleString('en-IN')}`;
+}
+
+function fmtMonth(month: string) {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, 1)).toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function DeltaBadge({ delta, inverse = false }: { delta: RevenueDelta; inverse?: boolean }) {
+  if (delta.pct === null) return <span className="text-text-tertiary">—</span>;
+  // For outstanding, going down is the good direction.
+  const good = inverse ? delta.change < 0 : delta.change > 0;
+  const cls = delta.change === 0 ? 'text-text-tertiary' : good ? 'text-accent-400' : 'text-error-600';
+  return <span className={cls}>{delta.pct > 0 ? '+' : ''}{delta.pct}%</span>;
+}
+
+/**
+ * Billed, collected (cash vs credit), waived (manual vs discount), voided and
+ * outstanding per month, with month-over-month and year-over-year change.
+ */
+const RevenueReportView = () => {
+  const [report, setReport] = useState<RevenueReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<{ from: string; to: string }>({ from: '', to: '' });
+  const [downloading, setDownloading] = useState<ReportFormat | null>(null);
+
+  const params = { from: range.from || undefined, to: range.to || undefined };
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const res = await AdminReportsAPI.getRevenue({ from: range.from || undefined, to: range.to || undefined });
+      if (res.success && res.data) setReport(res.data);
+    } catch (error: any) {
+      toast.error(error?.response?.data?.error ?? 'Failed to load revenue report');
+    } finally {
+      setLoading(false);
+    }
+  }, [range.from, range.to]);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  const download = async (format: ReportFormat) => {
+    setDownloading(format);
+    try {
+      await AdminReportsAPI.downloadRevenue(params, format);
+    } catch {
+      toast.error('Export failed');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const maxBar = Math.max(1, ...(report?.months ?? []).map((m) => Math.max(m.billed, m.collected)));
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-surface rounded-lg border border-white/7 p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <label className="text-xs text-text-secondary font-medium">From</label>
+        <input type="month" value={range.from || report?.from || ''} onChange={(e) => setRange({ ...range, from: e.target.value })} className={inputCls} />
+        <label className="text-xs text-text-secondary font-medium">to</label>
+        <input type="month" value={range.to || report?.to || ''} onChange={(e) => setRange({ ...range, to: e.target.value })} className={inputCls} />
+        <div className="flex gap-2 sm:ml-auto">
+          {(['csv', 'xlsx'] as ReportFormat[]).map((format) => (
+            <Button key={format} size="sm" variant="outline" disabled={!!downloading} onClick={() => download(format)}>
+              <Download className="w-3.5 h-3.5" /> {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <div className="bg-surface rounded-lg border border-white/7 py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+            {[
+              { label: 'Billed', value: report.totals.billed, sub: `${fmtFee(report.totals.billedLateFees)} late fees` },
+              { label: 'Collected', value: report.totals.collected, sub: `${fmtFee(report.totals.collectedCash)} cash · ${fmtFee(report.totals.collectedCredit)} credit` },
+              { label: 'Waived', value: report.totals.waived, sub: `${fmtFee(report.totals.waivedDiscount)} as discounts` },
+              { label: 'Voided', value: report.totals.voided, sub: null },
+              { label: 'Outstanding', value: report.totals.outstanding, sub: 'on these months’ invoices' },
+            ].map((card) => (
+              <div key={card.label} className="bg-surface rounded-lg border border-white/7 p-4 flex flex-col gap-1.5">
+                <p className="text-xs text-text-tertiary">{card.label}</p>
+                <p className="text-xl font-bold text-text-primary leading-none">{fmtFee(card.value)}</p>
+                {card.sub && <p className="text-xs text-text-tertiary">{card.sub}</p>}
+              </div>
+            ))}
+          </div>
+
+          {/* Billed vs collected per month */}
+          <div className="bg-surface rounded-lg border border-white/7 p-5">
+            <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest mb-4">Billed vs Collected</h3>
+            <div className="flex items-end gap-2 h-40 overflow-x-auto">
+              {report.months.map((m) => (
+                <div key={m.month} className="flex flex-col items-center gap-1 min-w-[2.5rem] flex-1 h-full justify-end">
+                  <div className="flex items-end gap-0.5 h-full w-full justify-center">
+                    <div className="w-2.5 bg-primary-500/70 rounded-t" style={{ height: `${(m.billed / maxBar) * 100}%` }} title={`Billed ${fmtFee(m.billed)}`} />
+                    <div className="w-2.5 bg-accent-500/70 rounded-t" style={{ height: `${(m.collected / maxBar) * 100}%` }} title={`Collected ${fmtFee(m.collected)}`} />
+                  </div>
+                  <span className="text-[10px] text-text-tertiary whitespace-nowrap">{fmtMonth(m.month)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-4 mt-3 pt-3 border-t border-white/7">
+              {[{ color: 'bg-primary-500/70', label: 'Billed' }, { color: 'bg-accent-500/70', label: 'Collected' }].map((l) => (
+                <div key={l.label} className="flex items-center gap-1.5">
+                  <span className={`w-2 h-2 rounded-full ${l.color}`} />
+                  <span className="text-xs text-text-tertiary">{l.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-surface rounded-lg border border-white/7 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-surface-alt">
+                <tr className="text-left text-xs text-text-tertiary">
+                  {['Month', 'Billed', 'MoM', 'YoY', 'Collected', 'Cash / Credit', 'MoM', 'YoY', 'Waived', 'Voided', 'Outstanding'].map((h, i) => (
+                    <th key={`${h}-${i}`} className={`px-4 py-2 font-medium ${i === 0 ? '' : 'text-right'}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {[...report.months].reverse().map((m) => (
+                  <tr key={m.month}>
+                    <td className="px-4 py-2 text-text-primary whitespace-nowrap">{fmtMonth(m.month)}</td>
+                    <td className="px-4 py-2 text-right text-text-primary">{fmtFee(m.billed)}</td>
+                    <td className="px-4 py-2 text-right text-xs"><DeltaBadge delta={m.monthOverMonth.billed} /></td>
+                    <td className="px-4 py-2 text-right text-xs"><DeltaBadge delta={m.yearOverYear.billed} /></td>
+                    <td className="px-4 py-2 text-right text-text-primary">{fmtFee(m.collected)}</td>
+                    <td className="px-4 py-2 text-right text-xs text-text-tertiary whitespace-nowrap">{fmtFee(m.collectedCash)} / {fmtFee(m.collectedCredit)}</td>
+                    <td className="px-4 py-2 text-right text-xs"><DeltaBadge delta={m.monthOverMonth.collected} /></td>
+                    <td className="px-4 py-2 text-right text-xs"><DeltaBadge delta={m.yearOverYear.collected} /></td>
+                    <td className="px-4 py-2 text-right text-text-secondary" title={`Manual ${fmtFee(m.waivedManual)} · Discount ${fmtFee(m.waivedDiscount)}`}>{fmtFee(m.waived)}</td>
+                    <td className="px-4 py-2 text-right text-text-secondary">{fmtFee(m.voided)}</td>
+                    <td className="px-4 py-2 text-right text-text-secondary">{fmtFee(m.outstanding)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-text-tertiary">
+            Billed, voided and outstanding follow the invoice month; collections and waivers follow the day they were recorded.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RevenueReportView;
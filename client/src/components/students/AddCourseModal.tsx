@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { AdminBatchesAPI, AdminStudentsAPI, CourseAPI } from '../../services/api';
+import type { Batch } from '../../types/batch';
+import type { Course } from '../../types/course';
+
+interface AddCourseModalProps {
+  isOpen: boolean;
+  studentId: string;
+  enrolledCourseIds: string[]; // courses the student already has an active enrollment in
+  onClose: () => void;
+  onAdded: () => void;
+}
+
+const selectCls =
+  'w-full px-3 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-text-primary transition-all text-sm';
+
+const emptyForm = () => ({
+  courseId: '',
+  stageNumber: '',
+  levelNumber: '',
+  batchId: '',
+  monthlyFee: '',
+  startDate: new Date().toISOString().split('T')[0],
+});
+
+/**
+ * Enrol an existing student in a second (or third…) course. The new
+ * enrollment has its own batch, fee and invoices; existing courses are left
+ * as they are.
+ */
+export default function AddCourseModal({ isOpen, studentId, enrolledCourseIds, onClose, onAdded }: AddCourseModalProps) {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [loadingBatches, setLoadingBatches] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const available = useMemo(
+    () => courses.filter((course) => !enrolledCourseIds.includes((course.id || course._id) ?? '')),
+    [courses, enrolledCourseIds],
+  );
+  const selectedCourse = available.find((course) => (course.id || course._id) === form.courseId) ?? null;
+  const selectedStage = selectedCourse?.stages?.find((stage) => stage.stageNumber === Number(form.stageNumber)) ?? null;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(emptyForm());
+    CourseAPI.getCourses(true)
+      .then((res) => {
+        if (res.success && res.data) setCourses(res.data);
+      })
+      .catch(() => toast.error('Failed to load courses'));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!form.courseId || !form.stageNumber || !form.levelNumber) {
+      setBatches([]);
+      return;
+    }
+    setLoadingBatches(true);
+    AdminBatchesAPI.list({
+      courseId: form.courseId,
+      stageNumber: Number(form.stageNumber),
+      levelNumber: Number(form.levelNumber),
+      status: 'active',
+    })
+      .then((res) => {
+        if (res.success && res.data) setBatches(res.data);
+      })
+      .catch(() => toast.error('Failed to load batches'))
+      .finally(() => setLoadingBatches(false));
+  }, [form.courseId, form.stageNumber, form.levelNumber]);
+
+  const handleStageChange = (stageNumber: string) => {
+    const stage = selectedCourse?.stages?.find((item) => item.stageNumber === Number(stageNumber));
+    const firstLevel = stage?.levels?.[0];
+    setForm((prev) => ({
+      ...prev,
+      stageNumber,
+      levelNumber: firstLevel ? String(firstLevel.levelNumber) : '',
+      batchId: '',
+      monthlyFee: firstLevel ? String(firstLevel.feeAmount) : '',
+    }));
+  };
+
+  const handleLevelChange = (levelNumber: string) => {
+    const level = selectedStage?.levels?.find((item) => item.levelNumber === Number(levelNumber));
+    setForm((prev) => ({
+      ...prev,
+      levelNumber,
+      batchId: '',
+      monthlyFee: level ? String(level.feeAmount) : prev.monthlyFee,
+    }));
+  };
+
+  // Enrolled in the course (at the level's fee) once promoted from the queue.
+  const joinWaitlist = async (batchId: string) => {
+    try {
+      const res = await AdminBatchesAPI.addToWaitlist(batchId, { studentId });
+      if (res.success && res.data) {
+        toast.success(`Added to the waitlist at #${res.data.position}`);
+        onAdded();
+      }
+    } catch (error: any) {
+      toast.error(error?.response?.data?.error ?? 'Failed to join the waitlist');
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.courseId || !form.stageNumber || !form.levelNumber || !form.monthlyFee) {
+      return toast.error('Course, stage, level and fee are required');
+    }
+    setSubmitting(true);
+    try {
+      const res = await AdminStudentsAPI.addEnrollment(studentId, {
+        courseId: form.courseId,
+        stageNumber: Number(form.stageNumber),
+        levelNumber: Number(form.levelNumber),
+        monthlyFee: Number(form.monthlyFee),
+        startDate: form.startDate,
+        batchId: form.batchId || undefined,
+      });
+      if (res.success) {
+        toast.success(`Enrolled in ${selectedCourse?.displayName ?? 'course'}`);
+        onAdded();
+      } else {
+        toast.error((res as any).error || 'Failed to add course');
+      }
+    } catch (error: any) {
+      const message: string = error?.response?.data?.error ?? 'Failed to add course';
+      if (form.batchId && message.startsWith('Batch is full') && confirm(`${message}. Add the student to the batch's waitlist instead?`)) {
+        await joinWaitlist(form.batchId);
+      } else {
+        toast.error(message);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Add Course" size="lg">
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Course *</label>
+            <select
+              value={form.courseId}
+              onChange={(e) => setForm({ ...emptyForm(), startDate: form.startDate, courseId: e.target.value })}
+              className={selectCls}
+              required
+            >
+              <option value="">Select course</option>
+              {available.map((course) => (
+                <option key={course.id || course._id} value={course.id || course._id}>
+                  {course.displayName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Start Date"
+            type="date"
+            value={form.startDate}
+            onChange={(e) => setForm((prev) => ({ ...prev, startDate: e.target.value }))}
+          />
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Stage *</label>
+            <select
+              value={form.stageNumber}
+              onChange={(e) => handleStageChange(e.target.value)}
+              className={selectCls}
+              disabled={!selectedCourse}
+              required
+            >
+              <option value="">Select stage</option>
+              {(selectedCourse?.stages ?? []).map((stage) => (
+                <option key={stage.stageNumber} value={stage.stageNumber}>
+                  {stage.stageName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Level *</label>
+            <select
+              value={form.levelNumber}
+              onChange={(e) => handleLevelChange(e.target.value)}
+              className={selectCls}
+              disabled={!selectedStage}
+              required
+            >
+              <option value="">Select level</option>
+              {(selectedStage?.levels ?? []).map((level) => (
+                <option key={level.levelNumber} value={level.levelNumber}>
+                  Level {level.levelNumber}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Monthly Fee *"
+            type="number"
+            value={form.monthlyFee}
+            onChange={(e) => setForm((prev) => ({ ...prev, monthlyFee: e.target.value }))}
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Batch</label>
+            <select
+              value={form.batchId}
+              onChange={(e) => setForm((prev) => ({ ...prev, batchId: e.target.value }))}
+              className={selectCls}
+              disabled={!form.levelNumber || loadingBatches}
+            >
+              <option value="">No batch yet</option>
+              {batches.map((batch) => (
+                <option key={batch.id} value={batch.id}>
+                  {batch.batchName} ({batch.batchCode})
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {courses.length > 0 && available.length === 0 && (
+          <p className="text-sm text-text-tertiary">The student is already enrolled in every active course.</p>
+        )}
+
+        <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 pt-4 border-t border-white/7">
+          <Button type="button" variant="ghost" onClick={onClose} className="w-full sm:w-auto">
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" className="w-full sm:w-auto" disabled={submitting}>
+            {submitting ? 'Adding...' : 'Add course'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CalendarCheck, FileText } from 'lucide-react';
+import { AdminAttendanceAPI } from '../../services/api';
+import type { AttendanceStatus, StudentAttendance } from '../../types/attendance';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface AttendanceTabProps {
+  studentId: string;
+}
+
+const ATTENDANCE_META: Record<AttendanceStatus, { label: string; cls: string }> = {
+  present: { label: 'Present', cls: 'bg-accent-400/15 text-accent-400' },
+  late:    { label: 'Late',    cls: 'bg-warning-500/15 text-warning-500' },
+  absent:  { label: 'Absent',  cls: 'bg-error-600/15 text-error-600' },
+  excused: { label: 'Excused', cls: 'bg-text-tertiary/15 text-text-tertiary' },
+};
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function fmtMonth(month: string) {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function pctLabel(pct: number | null) {
+  return pct === null ? '—' : `${pct}%`;
+}
+
+export default function AttendanceTab({ studentId }: AttendanceTabProps) {
+  const [data, setData] = useState<StudentAttendance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    AdminAttendanceAPI.getStudentAttendance(studentId)
+      .then((res) => {
+        if (cancelled) return;
+        if (res.success && res.data) setData(res.data);
+        else setError((res as any).error ?? 'Failed to load attendance');
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err?.response?.data?.error ?? 'Failed to load attendance');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [studentId]);
+
+  if (loading) {
+    return (
+      <div className="py-12 flex justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+  if (error || !data) {
+    return (
+      <div className="text-center py-10">
+        <FileText className="w-8 h-8 mx-auto text-error-600 mb-2" />
+        <p className="text-sm text-error-600">{error ?? 'Failed to load attendance'}</p>
+      </div>
+    );
+  }
+  if (data.records.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <CalendarCheck className="w-10 h-10 mx-auto text-text-tertiary opacity-40 mb-3" />
+        <p className="text-sm text-text-secondary">No attendance has been marked for this student yet.</p>
+      </div>
+    );
+  }
+
+  const latest = data.monthly[0];
+
+  return (
+    <div className="space-y-5">
+      {latest?.lowAttendance && (
+        <div className="flex items-start gap-2 bg-error-600/10 border border-error-600/30 rounded-lg px-3 py-2.5 text-sm text-error-600">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          Attendance in {fmtMonth(latest.month)} is {pctLabel(latest.percentage)} — worth a check-in with the family.
+        </div>
+      )}
+
+      {/* Overall */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        <div className="bg-surface-alt border border-white/7 rounded-xl px-4 py-3">
+          <div className="text-xs text-text-tertiary">Overall</div>
+          <div className="text-xl font-bold text-text-primary mt-0.5">{pctLabel(data.overall.percentage)}</div>
+        </div>
+        {(['present', 'late', 'absent', 'excused'] as AttendanceStatus[]).map((s) => (
+          <div key={s} className="bg-surface-alt border border-white/7 rounded-xl px-4 py-3">
+            <div className="text-xs text-text-tertiary">{ATTENDANCE_META[s].label}</div>
+            <div className="text-xl font-bold text-text-primary mt-0.5">{data.overall[s]}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Monthly */}
+      <div>
+        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-2">By month</h3>
+        <div className="border border-white/7 rounded-lg overflow-hidden">
+          <table className="min-w-full text-sm">
+            <thead className="bg-surface-alt text-xs text-text-tertiary">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Month</th>
+                <th className="px-3 py-2 text-right font-medium">Present</th>
+                <th className="px-3 py-2 text-right font-medium">Late</th>
+                <th className="px-3 py-2 text-right font-medium">Absent</th>
+                <th className="px-3 py-2 text-right font-medium">Excused</th>
+                <th className="px-3 py-2 text-right font-medium">Attendance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/7">
+              {data.monthly.map((m) => (
+                <tr key={m.month}>
+                  <td className="px-3 py-2 text-text-primary">{fmtMonth(m.month)}</td>
+                  <td className="px-3 py-2 text-right text-text-secondary">{m.present}</td>
+                  <td className="px-3 py-2 text-right text-text-secondary">{m.late}</td>
+                  <td className="px-3 py-2 text-right text-text-secondary">{m.absent}</td>
+                  <td className="px-3 py-2 text-right text-text-secondary">{m.excused}</td>
+                  <td className={`px-3 py-2 text-right font-medium ${m.lowAttendance ? 'text-error-600' : 'text-text-primary'}`}>
+                    {pctLabel(m.percentage)}
+                    {m.lowAttendance && <AlertTriangle className="inline w-3.5 h-3.5 ml-1 -mt-0.5" />}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Sessions */}
+      <div>
+        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-2">Sessions</h3>
+        <div className="space-y-1.5">
+          {data.records.map((r) => (
+            <div key={r.id} className="flex items-center justify-between gap-3 bg-surface-alt border border-white/7 rounded-lg px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <div className="text-text-primary">
+                  {fmtDate(r.sessionDate)}{r.startTime ? ` · ${r.startTime}` : ''}
+                </div>
+                <div className="text-xs text-text-tertiary truncate">
+                  {r.batchName ?? 'Batch'}{r.batchCode ? ` (${r.batchCode})` : ''}{r.note ? ` — ${r.note}` : ''}
+                </div>
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ATTENDANCE_META[r.status].cls}`}>
+                {ATTENDANCE_META[r.status].label}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import {
+  BellRing,
   BookOpen,
   CreditCard,
   FileText,
@@ -11,7 +12,7 @@ import {
 import { AdminStudentsAPI } from '../../services/api';
 import LoadingSpinner from '../ui/LoadingSpinner';
 
-type AuditCategory = 'all' | 'fees' | 'payments' | 'credits' | 'enrollment' | 'imports';
+type AuditCategory = 'all' | 'fees' | 'payments' | 'credits' | 'enrollment' | 'imports' | 'reminders';
 
 interface AuditEvent {
   id: string;
@@ -22,7 +23,7 @@ interface AuditEvent {
   description?: string;
   amount?: number;
   actor?: { id: string; name?: string; email?: string };
-  source?: 'manual' | 'import' | 'billing' | 'payment';
+  source?: 'manual' | 'import' | 'billing' | 'payment' | 'automatic';
   related?: {
     invoiceId?: string;
     paymentTransactionId?: string;
@@ -44,6 +45,7 @@ const FILTERS: Array<{ id: AuditCategory; label: string }> = [
   { id: 'credits', label: 'Credits' },
   { id: 'enrollment', label: 'Enrollment' },
   { id: 'imports', label: 'Imports' },
+  { id: 'reminders', label: 'Reminders' },
 ];
 
 const CATEGORY_META: Record<Exclude<AuditCategory, 'all'>, {
@@ -57,6 +59,7 @@ const CATEGORY_META: Record<Exclude<AuditCategory, 'all'>, {
   credits: { label: 'Credits', icon: Wallet, color: 'text-secondary-400', bg: 'bg-secondary-400/10' },
   enrollment: { label: 'Enrollment', icon: BookOpen, color: 'text-info-400', bg: 'bg-info-400/10' },
   imports: { label: 'Imports', icon: Import, color: 'text-warning-500', bg: 'bg-warning-500/10' },
+  reminders: { label: 'Reminders', icon: BellRing, color: 'text-error-600', bg: 'bg-error-600/10' },
 };
 
 function formatDate(value: string) {
@@ -95,6 +98,7 @@ export default function AuditHistoryTab({ studentId }: AuditHistoryTabProps) {
     credits: 0,
     enrollment: 0,
     imports: 0,
+    reminders: 0,
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -113,6 +117,7 @@ export default function AuditHistoryTab({ studentId }: AuditHistoryTabProps) {
             credits: res.data.categories?.credits ?? 0,
             enrollment: res.data.categories?.enrollment ?? 0,
             imports: res.data.categories?.imports ?? 0,
+            reminders: res.data.categories?.reminders ?? 0,
           });
         } else {
           setError((res as any).error ?? 'Failed to load history');
@@ -1,7 +1,9 @@
-import { useState } from 'react';
-import { PlusCircle, TrendingDown, TrendingUp, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { PlusCircle, TrendingDown, TrendingUp, RefreshCw, Undo2, Check, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { AdminFeesAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import type { CreditRefund, RefundMethod } from '../../types/student';
 import Button from '../ui/Button';
 
 interface CreditEntry {
@@ -24,10 +26,26 @@ interface CreditsTabProps {
 const TYPE_META = {
   credit_added:      { label: 'Added',      color: 'text-accent-400',    icon: TrendingUp,   sign: '+' },
   credit_used:       { label: 'Used',        color: 'text-error-600',     icon: TrendingDown, sign: '−' },
-  credit_refund:     { label: 'Refund',      color: 'text-accent-400',    icon: TrendingUp,   sign: '+' },
+  credit_refund:     { label: 'Refund',      color: 'text-error-600',     icon: Undo2,        sign: '−' },
   credit_adjustment: { label: 'Adjustment',  color: 'text-text-secondary',icon: RefreshCw,    sign: '±' },
 };
 
+const REFUND_METHODS: { value: RefundMethod; label: string }[] = [
+  { value: 'online', label: 'Bank transfer' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'other', label: 'Other' },
+];
+
+const REFUND_STATUS_CLS: Record<CreditRefund['status'], string> = {
+  pending: 'bg-warning-100 text-warning-600',
+  completed: 'bg-success-100 text-success-700',
+  rejected: 'bg-white/7 text-text-tertiary',
+};
+
+const inputCls = 'mt-1 w-full bg-surface border border-white/10 rounded-lg px-3 py-2 text-sm text-text-primary focus:outline-none focus:border-primary-500';
+
 function fmtDate(d: string) {
   return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
 }
@@ -37,6 +55,67 @@ export default function CreditsTab({ studentId, creditBalance, credits, onRefres
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+  const isSuperAdmin = user?.role === 'superadmin';
+  const [refunds, setRefunds] = useState<CreditRefund[]>([]);
+  const [showRefund, setShowRefund] = useState(false);
+  const [refund, setRefund] = useState({ amount: '', paymentMethod: 'online' as RefundMethod, reference: '', refundDate: '', reason: '' });
+  const [busyRefundId, setBusyRefundId] = useState<string | null>(null);
+
+  const loadRefunds = useCallback(async () => {
+    try {
+      const res = await AdminFeesAPI.listStudentRefunds(studentId);
+      if (res.success && res.data) setRefunds(res.data);
+    } catch {
+      // The ledger above still shows completed refunds
+    }
+  }, [studentId]);
+
+  useEffect(() => { loadRefunds(); }, [loadRefunds]);
+
+  const pendingTotal = refunds.filter((r) => r.status === 'pending').reduce((sum, r) => sum + r.amount, 0);
+
+  async function handleRefund() {
+    const value = parseFloat(refund.amount);
+    if (!value || value <= 0) return toast.error('Enter a valid amount');
+    if (value > creditBalance - pendingTotal) return toast.error('Amount exceeds the available credit balance');
+    if (!refund.reason.trim()) return toast.error('Reason is required');
+    setLoading(true);
+    try {
+      const res = await AdminFeesAPI.requestRefund(studentId, {
+        amount: value,
+        paymentMethod: refund.paymentMethod,
+        reference: refund.reference || undefined,
+        refundDate: refund.refundDate || undefined,
+        reason: refund.reason,
+      });
+      toast.success(res.data?.status === 'pending' ? 'Refund sent for superadmin approval' : 'Refund recorded');
+      setShowRefund(false);
+      setRefund({ amount: '', paymentMethod: 'online', reference: '', refundDate: '', reason: '' });
+      loadRefunds();
+      onRefresh();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to record refund');
+    } finally { setLoading(false); }
+  }
+
+  async function decideRefund(target: CreditRefund, approve: boolean) {
+    let reason = '';
+    if (!approve) {
+      reason = prompt(`Reason for rejecting the ₹${target.amount.toLocaleString('en-IN')} refund?`)?.trim() ?? '';
+      if (!reason) return;
+    }
+    setBusyRefundId(target.id);
+    try {
+      if (approve) await AdminFeesAPI.approveRefund(target.id);
+      else await AdminFeesAPI.rejectRefund(target.id, reason);
+      toast.success(approve ? 'Refund approved' : 'Refund rejected');
+      loadRefunds();
+      onRefresh();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to update refund');
+    } finally { setBusyRefundId(null); }
+  }
 
   async function handleAdd() {
     if (!amount || parseFloat(amount) <= 0) return toast.error('Enter a valid amount');
@@ -65,11 +144,60 @@ export default function CreditsTab({ studentId, creditBalance, credits, onRefres
             Applied automatically to future invoices
           </div>
         </div>
-        <Button size="sm" variant="outline" onClick={() => setShowAdd(!showAdd)}>
-          <PlusCircle className="w-3.5 h-3.5" /> Add credit
-        </Button>
+        <div className="flex gap-2">
+          {creditBalance > 0 && (
+            <Button size="sm" variant="outline" onClick={() => { setShowRefund(!showRefund); setShowAdd(false); }}>
+              <Undo2 className="w-3.5 h-3.5" /> Refund
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => { setShowAdd(!showAdd); setShowRefund(false); }}>
+            <PlusCircle className="w-3.5 h-3.5" /> Add credit
+          </Button>
+        </div>
       </div>
 
+      {/* Refund form */}
+      {showRefund && (
+        <div className="bg-surface-alt border border-white/10 rounded-lg p-4 space-y-3">
+          <div>
+            <h4 className="text-sm font-medium text-text-primary">Refund credit to parent</h4>
+            <p className="text-xs text-text-tertiary mt-0.5">
+              Up to ₹{Math.max(0, creditBalance - pendingTotal).toLocaleString('en-IN')} available
+              {pendingTotal > 0 && ` (₹${pendingTotal.toLocaleString('en-IN')} awaiting approval)`}.
+              {!isSuperAdmin && ' Large refunds need superadmin approval.'}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-text-secondary">Amount (₹) *</label>
+              <input type="number" value={refund.amount} onChange={(e) => setRefund({ ...refund, amount: e.target.value })} placeholder="0" className={inputCls} />
+            </div>
+            <div>
+              <label className="text-xs text-text-secondary">Paid by *</label>
+              <select value={refund.paymentMethod} onChange={(e) => setRefund({ ...refund, paymentMethod: e.target.value as RefundMethod })} className={inputCls}>
+                {REFUND_METHODS.map((m) => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-text-secondary">Reference</label>
+              <input type="text" value={refund.reference} onChange={(e) => setRefund({ ...refund, reference: e.target.value })} placeholder="UTR / UPI ref" className={inputCls} />
+            </div>
+            <div>
+              <label className="text-xs text-text-secondary">Refund date</label>
+              <input type="date" value={refund.refundDate} onChange={(e) => setRefund({ ...refund, refundDate: e.target.value })} className={inputCls} />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-text-secondary">Reason *</label>
+            <input type="text" value={refund.reason} onChange={(e) => setRefund({ ...refund, reason: e.target.value })} placeholder="e.g. Student left, unused advance" className={inputCls} />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => setShowRefund(false)}>Cancel</Button>
+            <Button variant="primary" size="sm" isLoading={loading} onClick={handleRefund}>Refund</Button>
+          </div>
+        </div>
+      )}
+
       {/* Add credit form */}
       {showAdd && (
         <div className="bg-surface-alt border border-white/10 rounded-lg p-4 space-y-3">
@@ -91,6 +219,41 @@ export default function CreditsTab({ studentId, creditBalance, credits, onRefres
         </div>
       )}
 
+      {/* Refunds */}
+      {refunds.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-semibold text-text-tertiary uppercase tracking-widest">Refunds</h4>
+          {refunds.map((r) => (
+            <div key={r.id} className="flex items-center gap-3 px-3 py-2.5 rounded-lg bg-surface-alt border border-white/7">
+              <Undo2 className="w-4 h-4 flex-shrink-0 text-text-tertiary" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-text-primary truncate">
+                  ₹{r.amount.toLocaleString('en-IN')} by {REFUND_METHODS.find((m) => m.value === r.paymentMethod)?.label ?? r.paymentMethod}
+                  {r.reference && <span className="text-text-tertiary"> · {r.reference}</span>}
+                </div>
+                <div className="text-xs text-text-tertiary truncate">
+                  {fmtDate(r.refundDate)} · {r.reason}
+                  {r.requestedBy?.name && ` · requested by ${r.requestedBy.name}`}
+                  {r.status === 'completed' && r.approvedBy?.name && ` · approved by ${r.approvedBy.name}`}
+                  {r.status === 'rejected' && r.rejectionReason && ` · rejected: ${r.rejectionReason}`}
+                </div>
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${REFUND_STATUS_CLS[r.status]}`}>{r.status}</span>
+              {isSuperAdmin && r.status === 'pending' && (
+                <div className="flex gap-1">
+                  <Button size="sm" variant="primary" disabled={busyRefundId === r.id} onClick={() => decideRefund(r, true)} title="Approve and pay out">
+                    <Check className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={busyRefundId === r.id} onClick={() => decideRefund(r, false)} title="Reject">
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Ledger */}
       {credits.length === 0 ? (
         <div className="text-center py-10 text-sm text-text-tertiary">No credit transactions yet.</div>
@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import {
-  PauseCircle, LogOut, Activity,
+  PauseCircle, LogOut, Activity, Plus,
   ChevronDown, ChevronUp, Lock, Unlock, AlertCircle,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { AdminStudentsAPI } from '../../services/api';
 import Button from '../ui/Button';
+import AddCourseModal from './AddCourseModal';
 
 export interface Enrollment {
   _id: string;
@@ -31,9 +32,8 @@ export interface Enrollment {
 }
 
 interface EnrollmentTimelineProps {
-  enrollments: Enrollment[];
+  enrollments: Enrollment[]; // newest first
   studentId: string;
-  isActive: boolean;
   onAction: () => void; // refresh callback
 }
 
@@ -52,6 +52,9 @@ function fmt(dateStr: string) {
 function fmtFee(n: number) {
   return `₹${n.toLocaleString('en-IN')}`;
 }
+function courseKey(enr: Enrollment) {
+  return enr.courseId?._id ?? '';
+}
 
 // ── Action modals (inline, minimal) ─────────────────────────────
 
@@ -81,14 +84,15 @@ function ConfirmModal({
 
 // ── Main component ────────────────────────────────────────────────
 
-export default function EnrollmentTimeline({ enrollments, studentId, isActive, onAction }: EnrollmentTimelineProps) {
+export default function EnrollmentTimeline({ enrollments, studentId, onAction }: EnrollmentTimelineProps) {
   const [expanded, setExpanded] = useState<string | null>(enrollments[0]?._id ?? null);
   const [loading, setLoading] = useState(false);
+  const [addingCourse, setAddingCourse] = useState(false);
   const [dialog, setDialog] = useState<
-    | { type: 'pause'; pausedUntil: string }
-    | { type: 'resume' }
-    | { type: 'leave' }
-    | { type: 'grandfather'; grandfathered: boolean }
+    | { type: 'pause'; enrollmentId: string; pausedUntil: string }
+    | { type: 'resume'; enrollmentId: string }
+    | { type: 'leave'; enrollmentId: string }
+    | { type: 'grandfather'; enrollmentId: string; grandfathered: boolean }
     | null
   >(null);
 
@@ -106,48 +110,66 @@ export default function EnrollmentTimeline({ enrollments, studentId, isActive, o
     }
   }
 
-  const active = enrollments.find((e) => e.endDate === null);
-  const lastPaused = enrollments.find((e) => e.endReason === 'paused');
-  const canResume = !isActive && !!lastPaused && !active;
+  // One active enrollment per course; a course whose latest enrollment was
+  // paused can be resumed.
+  const activeEnrollments = enrollments.filter((e) => e.endDate === null);
+  const latestByCourse = new Map<string, Enrollment>();
+  for (const enr of enrollments) {
+    if (!latestByCourse.has(courseKey(enr))) latestByCourse.set(courseKey(enr), enr);
+  }
+  const resumable = [...latestByCourse.values()].filter((e) => e.endReason === 'paused');
+  const multiCourse = latestByCourse.size > 1;
+  const courseLabel = (enr: Enrollment) => (multiCourse ? enr.courseId?.displayName ?? 'Course' : null);
 
   return (
     <div className="space-y-3">
-      {/* Action bar */}
-      {active && (
-        <div className="flex flex-wrap gap-2 pb-3 border-b border-white/7">
-          <Button
-            size="sm" variant="outline"
-            onClick={() => setDialog({ type: 'pause', pausedUntil: '' })}
-            disabled={loading}
-          >
-            <PauseCircle className="w-3.5 h-3.5" /> Pause
-          </Button>
-          <Button
-            size="sm" variant="outline"
-            onClick={() => setDialog({ type: 'leave' })}
-            disabled={loading}
-          >
-            <LogOut className="w-3.5 h-3.5" /> Mark as left
-          </Button>
-          <Button
-            size="sm"
-            variant={active.feeGrandfathered ? 'secondary' : 'outline'}
-            onClick={() => setDialog({ type: 'grandfather', grandfathered: !active.feeGrandfathered })}
-            disabled={loading}
-          >
-            {active.feeGrandfathered
-              ? <><Unlock className="w-3.5 h-3.5" /> Un-grandfather fee</>
-              : <><Lock className="w-3.5 h-3.5" /> Grandfather fee</>}
-          </Button>
-        </div>
-      )}
-      {canResume && (
-        <div className="flex gap-2 pb-3 border-b border-white/7">
-          <Button size="sm" variant="primary" onClick={() => setDialog({ type: 'resume' })} disabled={loading}>
-            <Activity className="w-3.5 h-3.5" /> Resume enrollment
-          </Button>
-        </div>
-      )}
+      {/* Action bar — one row per course the student is in */}
+      <div className="space-y-2 pb-3 border-b border-white/7">
+        {activeEnrollments.map((active) => (
+          <div key={active._id} className="flex flex-wrap items-center gap-2">
+            {courseLabel(active) && (
+              <span className="text-xs font-medium text-text-secondary w-full sm:w-auto sm:min-w-[120px]">{courseLabel(active)}</span>
+            )}
+            <Button
+              size="sm" variant="outline"
+              onClick={() => setDialog({ type: 'pause', enrollmentId: active._id, pausedUntil: '' })}
+              disabled={loading}
+            >
+              <PauseCircle className="w-3.5 h-3.5" /> Pause
+            </Button>
+            <Button
+              size="sm" variant="outline"
+              onClick={() => setDialog({ type: 'leave', enrollmentId: active._id })}
+              disabled={loading}
+            >
+              <LogOut className="w-3.5 h-3.5" /> Mark as left
+            </Button>
+            <Button
+              size="sm"
+              variant={active.feeGrandfathered ? 'secondary' : 'outline'}
+              onClick={() => setDialog({ type: 'grandfather', enrollmentId: active._id, grandfathered: !active.feeGrandfathered })}
+              disabled={loading}
+            >
+              {active.feeGrandfathered
+                ? <><Unlock className="w-3.5 h-3.5" /> Un-grandfather fee</>
+                : <><Lock className="w-3.5 h-3.5" /> Grandfather fee</>}
+            </Button>
+          </div>
+        ))}
+        {resumable.map((paused) => (
+          <div key={paused._id} className="flex flex-wrap items-center gap-2">
+            {courseLabel(paused) && (
+              <span className="text-xs font-medium text-text-secondary w-full sm:w-auto sm:min-w-[120px]">{courseLabel(paused)}</span>
+            )}
+            <Button size="sm" variant="primary" onClick={() => setDialog({ type: 'resume', enrollmentId: paused._id })} disabled={loading}>
+              <Activity className="w-3.5 h-3.5" /> Resume enrollment
+            </Button>
+          </div>
+        ))}
+        <Button size="sm" variant="ghost" onClick={() => setAddingCourse(true)} disabled={loading}>
+          <Plus className="w-3.5 h-3.5" /> Add course
+        </Button>
+      </div>
 
       {/* Timeline */}
       {enrollments.length === 0 && (
@@ -191,7 +213,7 @@ export default function EnrollmentTimeline({ enrollments, studentId, isActive, o
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 flex-wrap">
                         <span className={`text-sm font-medium ${isOpen ? 'text-text-primary' : 'text-text-secondary'}`}>
-                          Stage {enr.stageNumber} / Level {enr.levelNumber}
+                          {courseLabel(enr) && `${courseLabel(enr)} · `}Stage {enr.stageNumber} / Level {enr.levelNumber}
                         </span>
                         {isOpen && (
                           <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-accent-400/15 text-accent-400 text-xs font-medium">
@@ -288,11 +310,14 @@ export default function EnrollmentTimeline({ enrollments, studentId, isActive, o
       {dialog?.type === 'pause' && (
         <ConfirmModal
           title="Pause enrollment"
-          message="Student will be marked inactive. No new invoices should be generated while paused."
+          message="No new invoices are generated for this course while paused. The student is marked inactive unless they are still enrolled in another course."
           confirmLabel="Pause"
           onCancel={() => setDialog(null)}
           onConfirm={() => runAction(
-            () => AdminStudentsAPI.pause(studentId, { pausedUntil: dialog.pausedUntil || new Date(Date.now() + 30 * 864e5).toISOString().split('T')[0] }),
+            () => AdminStudentsAPI.pause(studentId, {
+              enrollmentId: dialog.enrollmentId,
+              pausedUntil: dialog.pausedUntil || new Date(Date.now() + 30 * 864e5).toISOString().split('T')[0],
+            }),
             'Enrollment paused',
           )}
         >
@@ -301,7 +326,7 @@ export default function EnrollmentTimeline({ enrollments, studentId, isActive, o
             <input
               type="date"
               value={dialog.pausedUntil}
-              onChange={(e) => setDialog({ type: 'pause', pausedUntil: e.target.value })}
+              onChange={(e) => setDialog({ ...dialog, pausedUntil: e.target.value })}
               className="w-full bg-surface-alt border border-white/10 rounded-lg px-3 py-2 text-sm text-text-primary focus:outline-none focus:border-primary-500"
             />
           </div>
@@ -314,7 +339,7 @@ export default function EnrollmentTimeline({ enrollments, studentId, isActive, o
           confirmLabel="Resume"
           onCancel={() => setDialog(null)}
           onConfirm={() => runAction(
-            () => AdminStudentsAPI.resume(studentId, {}),
+            () => AdminStudentsAPI.resume(studentId, { enrollmentId: dialog.enrollmentId }),
             'Enrollment resumed',
           )}
         />
@@ -322,12 +347,12 @@ export default function EnrollmentTimeline({ enrollments, studentId, isActive, o
       {dialog?.type === 'leave' && (
         <ConfirmModal
           title="Mark as left"
-          message="This will permanently close the enrollment. The student record is kept for history. This cannot be undone — use Pause instead if they may return."
+          message="This will permanently close the enrollment in this course. The student record is kept for history. This cannot be undone — use Pause instead if they may return."
           confirmLabel="Mark as left"
           danger
           onCancel={() => setDialog(null)}
           onConfirm={() => runAction(
-            () => AdminStudentsAPI.leave(studentId, {}),
+            () => AdminStudentsAPI.leave(studentId, { enrollmentId: dialog.enrollmentId }),
             'Student marked as left',
           )}
         />
@@ -341,11 +366,18 @@ export default function EnrollmentTimeline({ enrollments, studentId, isActive, o
           confirmLabel={dialog.grandfathered ? 'Grandfather' : 'Remove'}
           onCancel={() => setDialog(null)}
           onConfirm={() => runAction(
-            () => AdminStudentsAPI.grandfather(studentId, { grandfathered: dialog.grandfathered }),
+            () => AdminStudentsAPI.grandfather(studentId, { enrollmentId: dialog.enrollmentId, grandfathered: dialog.grandfathered }),
             dialog.grandfathered ? 'Fee grandfathered' : 'Grandfather removed',
           )}
         />
       )}
+      <AddCourseModal
+        isOpen={addingCourse}
+        studentId={studentId}
+        enrolledCourseIds={activeEnrollments.map(courseKey)}
+        onClose={() => setAddingCourse(false)}
+        onAdded={() => { setAddingCourse(false); onAction(); }}
+      />
     </div>
   );
 }
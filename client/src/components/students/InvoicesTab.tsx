@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { AlertTriangle, CheckCircle2, Clock, MinusCircle, Ban, CreditCard, Scissors, Trash2, Plus, Edit3, RotateCcw } from 'lucide-react';
+import { AlertTriangle, CheckCircle2, Clock, MinusCircle, Ban, CreditCard, Scissors, Trash2, Plus, Edit3, RotateCcw, FileDown, Receipt } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { AdminFeesAPI } from '../../services/api';
 import Button from '../ui/Button';
@@ -16,6 +16,7 @@ export interface Invoice {
   allocatedAmount: number;
   waivedAmount: number;
   isVoid: boolean;
+  kind?: 'tuition' | 'late_fee';
   status?: 'upcoming' | 'paid' | 'overdue' | 'partially_paid' | 'void';
   balanceDue?: number;
   paymentTransactionId?: string;
@@ -150,6 +151,14 @@ export default function InvoicesTab({ studentId, enrollmentId, invoices, onRefre
     } finally { setLoading(false); }
   }
 
+  async function handleDownload(download: () => Promise<void>) {
+    try {
+      await download();
+    } catch (e: any) {
+      toast.error(e?.message ?? 'Download failed');
+    }
+  }
+
   async function handleCreate() {
     if (!enrollmentId) return toast.error('No active enrollment');
     if (!newInvoiceMonth) return toast.error('Invoice month is required');
@@ -219,7 +228,10 @@ export default function InvoicesTab({ studentId, enrollmentId, invoices, onRefre
 
                 {/* Month + due */}
                 <div className="flex-1 min-w-0">
-                  <div className="text-sm font-medium text-text-primary">{fmtMonth(inv.invoiceMonth)}</div>
+                  <div className="text-sm font-medium text-text-primary">
+                    {fmtMonth(inv.invoiceMonth)}
+                    {inv.kind === 'late_fee' && <span className="ml-2 px-1.5 py-0.5 text-[10px] font-medium rounded bg-red-500/15 text-red-400">Late fee</span>}
+                  </div>
                   <div className="text-xs text-text-tertiary">Due {fmtDate(inv.dueDate)}</div>
                 </div>
 
@@ -240,6 +252,24 @@ export default function InvoicesTab({ studentId, enrollmentId, invoices, onRefre
                 </div>
 
                 {/* Actions */}
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleDownload(() => AdminFeesAPI.downloadInvoicePdf(inv._id))}
+                    className="p-1.5 rounded hover:bg-white/6 text-text-tertiary hover:text-text-primary transition-colors"
+                    title="Download invoice PDF"
+                  >
+                    <FileDown className="w-3.5 h-3.5" />
+                  </button>
+                  {inv.paymentTransactionId && (
+                    <button
+                      onClick={() => handleDownload(() => AdminFeesAPI.downloadReceiptPdf(inv.paymentTransactionId!))}
+                      className="p-1.5 rounded hover:bg-white/6 text-text-tertiary hover:text-text-primary transition-colors"
+                      title="Download payment receipt"
+                    >
+                      <Receipt className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
                 {!inv.isVoid && (
                   <div className="flex gap-1 flex-shrink-0">
                     {balance > 0 && (
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarPlus, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminMakeupsAPI } from '../../services/api';
+import type { MakeupCredit, MakeupOption, MakeupStatus } from '../../types/attendance';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface MakeupsSectionProps {
+  studentId: string;
+  /** Called with the new outstanding count after a booking changes. */
+  onChange?: (outstanding: number) => void;
+}
+
+const STATUS_META: Record<MakeupStatus, { label: string; cls: string }> = {
+  available: { label: 'Available', cls: 'bg-accent-400/15 text-accent-400' },
+  booked:    { label: 'Booked',    cls: 'bg-primary-400/15 text-primary-400' },
+  used:      { label: 'Used',      cls: 'bg-text-tertiary/15 text-text-tertiary' },
+  expired:   { label: 'Expired',   cls: 'bg-error-600/15 text-error-600' },
+  revoked:   { label: 'Revoked',   cls: 'bg-text-tertiary/15 text-text-tertiary' },
+};
+
+const SOURCE_LABELS: Record<MakeupCredit['source'], string> = {
+  cancelled_session: 'Class cancelled',
+  excused_absence: 'Excused absence',
+};
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+}
+
+export default function MakeupsSection({ studentId, onChange }: MakeupsSectionProps) {
+  const [credits, setCredits] = useState<MakeupCredit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [options, setOptions] = useState<MakeupOption[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await AdminMakeupsAPI.getStudentMakeups(studentId);
+      if (res.success && res.data) {
+        setCredits(res.data.credits);
+        onChange?.(res.data.outstanding);
+      }
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load make-ups');
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId, onChange]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function openBooking(creditId: string) {
+    if (bookingId === creditId) {
+      setBookingId(null);
+      return;
+    }
+    setBookingId(creditId);
+    setOptions(null);
+    try {
+      const res = await AdminMakeupsAPI.getOptions(creditId);
+      setOptions(res.success && res.data ? res.data.options : []);
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to load sessions');
+      setBookingId(null);
+    }
+  }
+
+  async function handleBook(sessionId: string) {
+    if (!bookingId) return;
+    setBusy(true);
+    try {
+      await AdminMakeupsAPI.book(bookingId, sessionId);
+      toast.success('Make-up booked');
+      setBookingId(null);
+      await load();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Booking failed');
+    } finally { setBusy(false); }
+  }
+
+  async function handleCancelBooking(creditId: string) {
+    setBusy(true);
+    try {
+      await AdminMakeupsAPI.cancelBooking(creditId);
+      toast.success('Booking cancelled');
+      await load();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to cancel booking');
+    } finally { setBusy(false); }
+  }
+
+  if (loading) {
+    return (
+      <div className="py-6 flex justify-center">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  const outstanding = credits.filter((c) => c.status === 'available' || c.status === 'booked');
+  const past = credits.filter((c) => c.status !== 'available' && c.status !== 'booked');
+  const shown = showHistory ? credits : outstanding;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider">
+          Make-up classes {outstanding.length > 0 && <span className="text-text-primary">· {outstanding.length} owed</span>}
+        </h3>
+        {past.length > 0 && (
+          <button onClick={() => setShowHistory((v) => !v)} className="text-xs text-text-tertiary hover:text-text-primary">
+            {showHistory ? 'Hide past' : `Show past (${past.length})`}
+          </button>
+        )}
+      </div>
+
+      {shown.length === 0 ? (
+        <div className="text-sm text-text-tertiary bg-surface-alt border border-white/7 rounded-lg px-3 py-2.5">
+          No make-up classes owed.
+        </div>
+      ) : (
+        <div className="space-y-1.5">
+          {shown.map((c) => (
+            <div key={c.id} className="bg-surface-alt border border-white/7 rounded-lg px-3 py-2.5">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0 text-sm">
+                  <div className="text-text-primary">
+                    {SOURCE_LABELS[c.source]} · {fmtDate(c.sourceSessionDate)}
+                    {c.sourceBatchName ? <span className="text-text-tertiary"> ({c.sourceBatchName})</span> : null}
+                  </div>
+                  <div className="text-xs text-text-tertiary">
+                    {c.status === 'booked' && c.booking
+                      ? `Booked for ${fmtDate(c.booking.sessionDate)} in ${c.booking.batchName ?? 'another batch'}`
+                      : c.status === 'available'
+                        ? `Book by ${fmtDate(c.expiresAt)}`
+                        : c.statusReason ?? (c.usedAt ? `Used ${fmtDate(c.usedAt)}` : '')}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_META[c.status].cls}`}>
+                    {STATUS_META[c.status].label}
+                  </span>
+                  {c.status === 'available' && (
+                    <Button size="sm" variant="outline" onClick={() => openBooking(c.id)} disabled={busy}>
+                      <CalendarPlus className="w-3.5 h-3.5" /> Book
+                    </Button>
+                  )}
+                  {c.status === 'booked' && (
+                    <Button size="sm" variant="outline" onClick={() => handleCancelBooking(c.id)} disabled={busy}>
+                      <RotateCcw className="w-3.5 h-3.5" /> Unbook
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {bookingId === c.id && (
+                <div className="mt-2 pt-2 border-t border-white/7">
+                  {options === null ? (
+                    <div className="py-3 flex justify-center"><LoadingSpinner size="sm" /></div>
+                  ) : options.length === 0 ? (
+                    <p className="text-xs text-text-tertiary">No upcoming sessions at this stage and level before the make-up expires.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {options.map((o) => (
+                        <div key={o.sessionId} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="text-text-secondary">
+                            {fmtDate(o.sessionDate)} · {o.startTime} — {o.batchName}
+                            <span className="text-xs text-text-tertiary">
+                              {' '}({o.seatsTaken}{o.maxStudents !== null ? `/${o.maxStudents}` : ''} students)
+                            </span>
+                          </span>
+                          <Button size="sm" variant="primary" onClick={() => handleBook(o.sessionId)} disabled={busy || o.full}>
+                            {o.full ? 'Full' : 'Book'}
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, PlayCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminStudentsAPI } from '../../services/api';
+import type { PauseExpiredEntry } from '../../types/student';
+import Button from '../ui/Button';
+
+interface PauseExpiredWorklistProps {
+  /** Called after a student is resumed so the list around it can refresh. */
+  onChanged?: () => void;
+}
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Paused students whose pause has run out without a resume. Renders nothing
+ * while the list is empty.
+ */
+const PauseExpiredWorklist = ({ onChanged }: PauseExpiredWorklistProps) => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<PauseExpiredEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [extending, setExtending] = useState<{ studentId: string; pausedUntil: string } | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const res = await AdminStudentsAPI.getPauseExpired();
+      setEntries(res.success && res.data ? res.data : []);
+    } catch {
+      setEntries([]);
+    }
+  }, []);
+
+  useEffect(() => { fetchEntries(); }, [fetchEntries]);
+
+  const act = async (studentId: string, action: () => Promise<unknown>, success: string) => {
+    setBusyId(studentId);
+    try {
+      await action();
+      toast.success(success);
+      setExtending(null);
+      await fetchEntries();
+      onChanged?.();
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-surface rounded-lg border border-warning-500/30 px-4 py-3">
+      <div className="flex items-center gap-2 mb-2">
+        <CalendarClock className="w-4 h-4 text-warning-500" />
+        <h3 className="text-sm font-semibold text-text-primary">Pause expired · {entries.length}</h3>
+        <span className="text-xs text-text-tertiary">Resume these students or extend their pause.</span>
+      </div>
+      <div className="divide-y divide-white/7">
+        {entries.map((entry) => (
+          <div key={entry.pausedEnrollmentId} className="py-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0 text-sm">
+                <button
+                  onClick={() => navigate(`/students/${entry.studentId}`)}
+                  className="text-text-primary hover:text-primary-400 font-medium"
+                >
+                  {entry.studentName}
+                </button>
+                <span className="text-xs text-text-tertiary">
+                  {' '}· paused {fmtDate(entry.pausedOn)} until {fmtDate(entry.pausedUntil)}
+                  {' '}· Stage {entry.stageNumber} / Level {entry.levelNumber}
+                  {entry.batch && ` · ${entry.batch.batchName}${entry.batch.status !== 'active' ? ` (${entry.batch.status})` : ''}`}
+                </span>
+                {entry.message && <div className="text-xs text-warning-500 truncate">{entry.message}</div>}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busyId === entry.studentId}
+                  onClick={() => setExtending(
+                    extending?.studentId === entry.studentId ? null : { studentId: entry.studentId, pausedUntil: '' },
+                  )}
+                >
+                  Extend
+                </Button>
+                <Button
+                  size="sm"
+                  variant="primary"
+                  disabled={busyId === entry.studentId}
+                  onClick={() => act(entry.studentId, () => AdminStudentsAPI.resume(entry.studentId, { enrollmentId: entry.pausedEnrollmentId }), `${entry.studentName} resumed`)}
+                >
+                  <PlayCircle className="w-3.5 h-3.5" /> Resume
+                </Button>
+              </div>
+            </div>
+            {extending?.studentId === entry.studentId && (
+              <div className="mt-2 flex items-center justify-end gap-2">
+                <input
+                  type="date"
+                  value={extending.pausedUntil}
+                  onChange={(e) => setExtending({ ...extending, pausedUntil: e.target.value })}
+                  className="h-8 px-2 bg-surface-alt border border-white/10 rounded-lg text-sm text-text-primary"
+                />
+                <Button
+                  size="sm"
+                  variant="primary"
+                  disabled={!extending.pausedUntil || busyId === entry.studentId}
+                  onClick={() => act(
+                    entry.studentId,
+                    () => AdminStudentsAPI.extendPause(entry.studentId, {
+                      pausedUntil: extending.pausedUntil,
+                      enrollmentId: entry.pausedEnrollmentId,
+                    }),
+                    'Pause extended',
+                  )}
+                >
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PauseExpiredWorklist;
@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Link2Off } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminStudentsAPI } from '../../services/api';
+import type { PortalAccessUser } from '../../types/portal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface PortalAccessCardProps {
+  studentId: string;
+  /** Siblings can share one login; offers "whole family" when set. */
+  hasFamily: boolean;
+}
+
+export default function PortalAccessCard({ studentId, hasFamily }: PortalAccessCardProps) {
+  const [user, setUser] = useState<PortalAccessUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [includeFamily, setIncludeFamily] = useState(hasFamily);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    AdminStudentsAPI.getPortalAccess(studentId)
+      .then((res) => { if (!cancelled) setUser(res.data?.user ?? null); })
+      .catch(() => { if (!cancelled) setUser(null); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [studentId]);
+
+  async function handleLink() {
+    if (!email.trim()) { toast.error('Email is required'); return; }
+    setBusy(true);
+    try {
+      const res = await AdminStudentsAPI.setPortalAccess(studentId, {
+        email: email.trim(),
+        name: name.trim() || undefined,
+        password: password || undefined,
+        includeFamily: hasFamily && includeFamily,
+      });
+      if (res.data) {
+        setUser(res.data.user);
+        toast.success(`Portal access granted for ${res.data.linkedCount} student(s)`);
+      }
+      setShowForm(false);
+      setEmail(''); setName(''); setPassword('');
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to grant portal access');
+    } finally { setBusy(false); }
+  }
+
+  async function handleUnlink() {
+    const family = hasFamily && confirm('Remove portal access for the whole family? Cancel to remove it for this student only.');
+    setBusy(true);
+    try {
+      await AdminStudentsAPI.removePortalAccess(studentId, family);
+      setUser(null);
+      toast.success('Portal access removed');
+    } catch (e: any) {
+      toast.error(e?.response?.data?.error ?? 'Failed to remove portal access');
+    } finally { setBusy(false); }
+  }
+
+  return (
+    <div className="col-span-full mt-2 pt-3 border-t border-white/7">
+      <div className="text-xs text-text-tertiary mb-3 uppercase tracking-wide font-medium">Parent portal</div>
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : user ? (
+        <div className="flex items-center justify-between gap-3 bg-surface-alt border border-white/7 rounded-lg px-3 py-2">
+          <div className="text-sm min-w-0">
+            <div className="text-text-primary">{user.name}</div>
+            <div className="text-xs text-text-tertiary truncate">
+              {user.email}{!user.isActive && ' · account disabled'}
+            </div>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleUnlink} disabled={busy}>
+            <Link2Off className="w-3.5 h-3.5" /> Unlink
+          </Button>
+        </div>
+      ) : !showForm ? (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-text-tertiary">No parent login linked.</p>
+          <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+            <KeyRound className="w-3.5 h-3.5" /> Give access
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3 bg-surface-alt border border-white/7 rounded-lg p-3">
+          <Input label="Parent email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input label="Name (new account only)" value={name} onChange={(e) => setName(e.target.value)} />
+            <Input
+              label="Password (new account only)"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              helperText="At least 6 characters"
+            />
+          </div>
+          {hasFamily && (
+            <label className="flex items-center gap-2 text-sm text-text-secondary">
+              <input type="checkbox" checked={includeFamily} onChange={(e) => setIncludeFamily(e.target.checked)} />
+              Apply to the whole family
+            </label>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="secondary" onClick={() => setShowForm(false)} disabled={busy}>Cancel</Button>
+            <Button size="sm" variant="primary" onClick={handleLink} disabled={busy}>
+              {busy ? 'Saving...' : 'Link account'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
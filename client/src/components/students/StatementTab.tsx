@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AdminStudentsAPI } from '../../services/api';
+import type { StatementEntry, StudentStatement } from '../../types/student';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface StatementTabProps {
+  studentId: string;
+}
+
+const inputCls = 'h-8 px-2 bg-surface-alt border border-white/10 rounded-lg text-xs text-text-primary focus:outline-none focus:ring-1 focus:ring-primary-400';
+
+function fmtDate(d: string) {
+  return new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function fmtAmount(n: number) {
+  return `₹${n.toLocaleString('en-IN')}`;
+}
+
+/** Negative balances are money held in the student's favour. */
+function fmtBalance(n: number) {
+  return n < 0 ? `${fmtAmount(-n)} Cr` : fmtAmount(n);
+}
+
+const isMemo = (entry: StatementEntry) => entry.debit === 0 && entry.credit === 0;
+
+/**
+ * Debit/credit ledger with a running balance — what to send a parent who
+ * disputes their balance. Downloads as CSV or PDF for the same period.
+ */
+export default function StatementTab({ studentId }: StatementTabProps) {
+  const [statement, setStatement] = useState<StudentStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<{ from: string; to: string }>({ from: '', to: '' });
+  const [downloading, setDownloading] = useState<'csv' | 'pdf' | null>(null);
+
+  const fetchStatement = useCallback(async () => {
+    try {
+      const res = await AdminStudentsAPI.getStatement(studentId, { from: range.from || undefined, to: range.to || undefined });
+      if (res.success && res.data) setStatement(res.data);
+    } catch (error: any) {
+      toast.error(error?.response?.data?.error ?? 'Failed to load statement');
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId, range.from, range.to]);
+
+  useEffect(() => { fetchStatement(); }, [fetchStatement]);
+
+  const download = async (format: 'csv' | 'pdf') => {
+    setDownloading(format);
+    try {
+      await AdminStudentsAPI.downloadStatement(studentId, { from: range.from || undefined, to: range.to || undefined }, format);
+    } catch {
+      toast.error('Download failed');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs text-text-secondary">From</label>
+        <input type="date" value={range.from} onChange={(e) => setRange({ ...range, from: e.target.value })} className={inputCls} />
+        <label className="text-xs text-text-secondary">to</label>
+        <input type="date" value={range.to} onChange={(e) => setRange({ ...range, to: e.target.value })} className={inputCls} />
+        <div className="flex gap-2 ml-auto">
+          {(['csv', 'pdf'] as const).map((format) => (
+            <Button key={format} size="sm" variant="outline" disabled={!!downloading} onClick={() => download(format)}>
+              <Download className="w-3.5 h-3.5" /> {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading || !statement ? (
+        <div className="py-10"><LoadingSpinner size="md" /></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Opening balance', value: fmtBalance(statement.openingBalance) },
+              { label: 'Charges', value: fmtAmount(statement.totalDebits) },
+              { label: 'Payments & adjustments', value: fmtAmount(statement.totalCredits) },
+              { label: statement.closingBalance < 0 ? 'Credit on account' : 'Balance due', value: fmtBalance(statement.closingBalance) },
+            ].map((card) => (
+              <div key={card.label} className="bg-surface-alt border border-white/7 rounded-xl px-4 py-3">
+                <div className="text-xs text-text-tertiary">{card.label}</div>
+                <div className="text-lg font-semibold text-text-primary">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-white/7">
+            <table className="min-w-full text-sm">
+              <thead className="bg-surface-alt">
+                <tr className="text-left text-xs text-text-tertiary">
+                  <th className="px-3 py-2 font-medium">Date</th>
+                  <th className="px-3 py-2 font-medium">Description</th>
+                  <th className="px-3 py-2 font-medium text-right">Debit</th>
+                  <th className="px-3 py-2 font-medium text-right">Credit</th>
+                  <th className="px-3 py-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                <tr>
+                  <td className="px-3 py-2 text-xs text-text-tertiary whitespace-nowrap">{statement.from ? fmtDate(statement.from) : ''}</td>
+                  <td className="px-3 py-2 text-text-secondary font-medium">Opening balance</td>
+                  <td />
+                  <td />
+                  <td className="px-3 py-2 text-right font-medium text-text-primary whitespace-nowrap">{fmtBalance(statement.openingBalance)}</td>
+                </tr>
+                {statement.entries.map((entry, i) => (
+                  <tr key={`${entry.type}-${entry.invoiceId ?? entry.paymentTransactionId ?? ''}-${i}`} className={isMemo(entry) ? 'text-text-tertiary' : ''}>
+                    <td className="px-3 py-2 text-xs whitespace-nowrap text-text-tertiary">{fmtDate(entry.date)}</td>
+                    <td className={`px-3 py-2 ${isMemo(entry) ? 'text-xs italic' : 'text-text-primary'}`}>
+                      {entry.description}
+                      {entry.reference && entry.paymentTransactionId && (
+                        <span className="text-xs text-text-tertiary"> · {entry.reference}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap text-text-secondary">{entry.debit ? fmtAmount(entry.debit) : ''}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap text-accent-400">{entry.credit ? fmtAmount(entry.credit) : ''}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap text-text-primary">{isMemo(entry) ? '' : fmtBalance(entry.balance)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-surface-alt">
+                  <td className="px-3 py-2 text-xs text-text-tertiary whitespace-nowrap">{fmtDate(statement.to)}</td>
+                  <td className="px-3 py-2 text-text-primary font-semibold">Closing balance</td>
+                  <td className="px-3 py-2 text-right text-text-secondary whitespace-nowrap">{fmtAmount(statement.totalDebits)}</td>
+                  <td className="px-3 py-2 text-right text-accent-400 whitespace-nowrap">{fmtAmount(statement.totalCredits)}</td>
+                  <td className="px-3 py-2 text-right font-semibold text-text-primary whitespace-nowrap">{fmtBalance(statement.closingBalance)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {statement.entries.length === 0 && (
+            <p className="text-sm text-text-tertiary text-center py-2">No transactions in this period</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,8 @@ import Button from '../ui/Button';
 import { type Student, type StudentUpdate } from '../../types/student';
 import { type Batch } from '../../types/batch';
 import { type Course } from '../../types/course';
-import { CourseAPI, AdminBatchesAPI } from '../../services/api';
+import { type Family } from '../../types/family';
+import { CourseAPI, AdminBatchesAPI, AdminFamiliesAPI } from '../../services/api';
 
 interface StudentModalProps {
   isOpen: boolean;
@@ -42,6 +43,7 @@ const StudentModal = ({ isOpen, onClose, onSubmit, student, mode }: StudentModal
   const [loadingCourses, setLoadingCourses] = useState(false);
   const [batches, setBatches] = useState<Batch[]>([]);
   const [loadingBatches, setLoadingBatches] = useState(false);
+  const [families, setFamilies] = useState<Family[]>([]);
 
   // Track originals for edit mode change detection
   const [originalCourseId, setOriginalCourseId] = useState<string | null>(null);
@@ -96,6 +98,14 @@ const StudentModal = ({ isOpen, onClose, onSubmit, student, mode }: StudentModal
       .finally(() => setLoadingCourses(false));
   }, [isOpen, mode]);
 
+  // Families for the sibling picker (create only)
+  useEffect(() => {
+    if (!isOpen || mode !== 'create') return;
+    AdminFamiliesAPI.list()
+      .then((res) => setFamilies(res.success && res.data ? res.data : []))
+      .catch(() => setFamilies([]));
+  }, [isOpen, mode]);
+
   useEffect(() => {
     if (!isOpen || mode !== 'create' || !singleProgram || formData.courseId) return;
     setFormData((prev) => ({
@@ -172,6 +182,7 @@ const StudentModal = ({ isOpen, onClose, onSubmit, student, mode }: StudentModal
         referredBy: '',
         enrollmentDate: new Date().toISOString().split('T')[0],
         monthlyFee: 0,
+        familyId: null,
       });
       setOriginalCourseId(null);
       setOriginalStageNumber(null);
@@ -204,6 +215,17 @@ const StudentModal = ({ isOpen, onClose, onSubmit, student, mode }: StudentModal
       setFormData((prev) => ({ ...prev, stageNumber: value ? parseInt(value) : null, levelNumber: null, batchId: null, monthlyFee: 0 }));
     } else if (name === 'levelNumber') {
       setFormData((prev) => ({ ...prev, levelNumber: value ? parseInt(value) : null, batchId: null }));
+    } else if (name === 'familyId') {
+      // A sibling shares the family's contact details; fill any left blank.
+      const family = families.find((f) => (f.id || f._id) === value);
+      setFormData((prev) => ({
+        ...prev,
+        familyId: value || null,
+        parentName: prev.parentName || family?.guardianName || '',
+        phone: prev.phone || family?.phone || '',
+        email: prev.email || family?.email || '',
+        address: prev.address || family?.address || '',
+      }));
     } else if (name === 'monthlyFee') {
       const nextFee = parseFloat(value) || 0;
       setFormData((prev) => ({
@@ -294,6 +316,34 @@ const StudentModal = ({ isOpen, onClose, onSubmit, student, mode }: StudentModal
             <p className="text-sm text-red-400">{formError}</p>
           </div>
         )}
+        {/* Family (siblings) */}
+        {mode === 'create' && families.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">Family</label>
+            <select
+              name="familyId"
+              value={formData.familyId ?? ''}
+              onChange={handleChange}
+              className="w-full px-3 md:px-4 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 bg-surface text-text-primary transition-all"
+            >
+              <option value="">Not part of a family</option>
+              {families.map((f) => (
+                <option key={f.id || f._id} value={f.id || f._id}>
+                  {f.familyName}{f.guardianName ? ` (${f.guardianName})` : ''} · {f.members.length} student{f.members.length === 1 ? '' : 's'}
+                </option>
+              ))}
+            </select>
+            {(() => {
+              const rule = families.find((f) => (f.id || f._id) === formData.familyId)?.siblingDiscount;
+              return rule?.enabled ? (
+                <p className="text-xs text-text-tertiary mt-1">
+                  Sibling discount ({rule.type === 'percentage' ? `${rule.value}%` : `₹${rule.value}`}) applies automatically unless you set a discount or custom fee below.
+                </p>
+              ) : null;
+            })()}
+          </div>
+        )}
+
         {/* Personal Information */}
         <div>
           <h4 className="text-base md:text-lg font-semibold text-text-primary mb-3 md:mb-4 pb-2 border-b border-white/7">Personal Information</h4>
@@ -1,12 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   ArrowLeft, User, BookOpen, Receipt, Wallet,
   Phone, Mail, MapPin, Calendar, Users, Edit2,
-  AlertTriangle, ToggleLeft, ToggleRight, Trash2, History, MoreHorizontal,
+  AlertTriangle, ToggleLeft, ToggleRight, Trash2, History, MoreHorizontal, CalendarCheck, ScrollText,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { AdminStudentsAPI, AdminFeesAPI } from '../../services/api';
+import { AdminStudentsAPI, AdminFeesAPI, AdminMakeupsAPI } from '../../services/api';
 import type { StudentUpdate } from '../../types/student';
 import LoadingSpinner from '../ui/LoadingSpinner';
 import Button from '../ui/Button';
@@ -15,14 +15,20 @@ import InvoicesTab from './InvoicesTab';
 import CreditsTab from './CreditsTab';
 import StudentModal from './StudentModal';
 import AuditHistoryTab from './AuditHistoryTab';
+import StatementTab from './StatementTab';
+import AttendanceTab from './AttendanceTab';
+import MakeupsSection from './MakeupsSection';
+import PortalAccessCard from './PortalAccessCard';
 
-type Tab = 'profile' | 'enrollment' | 'invoices' | 'credits' | 'history';
+type Tab = 'profile' | 'enrollment' | 'attendance' | 'invoices' | 'credits' | 'statement' | 'history';
 
 const TABS: { id: Tab; label: string; icon: React.ElementType }[] = [
   { id: 'profile',    label: 'Profile',     icon: User },
   { id: 'enrollment', label: 'Enrollment',  icon: BookOpen },
+  { id: 'attendance', label: 'Attendance',  icon: CalendarCheck },
   { id: 'invoices',   label: 'Invoices',    icon: Receipt },
   { id: 'credits',    label: 'Credits',     icon: Wallet },
+  { id: 'statement',  label: 'Statement',   icon: ScrollText },
   { id: 'history',    label: 'History',     icon: History },
 ];
 
@@ -52,14 +58,20 @@ function StatusBadge({ isActive }: { isActive: boolean }) {
 export default function StudentProfilePage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
-  const [activeTab, setActiveTab] = useState<Tab>('profile');
+  // ?tab= opens a tab directly, e.g. /students/:id?tab=invoices from a report.
+  const [activeTab, setActiveTab] = useState<Tab>(() => {
+    const requested = searchParams.get('tab');
+    return TABS.some((t) => t.id === requested) ? (requested as Tab) : 'profile';
+  });
   const [loading, setLoading] = useState(true);
   const [student, setStudent] = useState<any>(null);
   const [enrollments, setEnrollments] = useState<any[]>([]);
   const [invoices, setInvoices] = useState<any[]>([]);
   const [credits, setCredits] = useState<any[]>([]);
   const [creditBalance, setCreditBalance] = useState(0);
+  const [makeupsOwed, setMakeupsOwed] = useState(0);
   const [showEditModal, setShowEditModal] = useState(false);
   const [togglingActive, setTogglingActive] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -69,9 +81,10 @@ export default function StudentProfilePage() {
     if (!id) return;
     setLoading(true);
     try {
-      const [profileRes, creditsRes] = await Promise.all([
+      const [profileRes, creditsRes, makeupsRes] = await Promise.all([
         AdminStudentsAPI.get(id),
         AdminFeesAPI.getStudentCredits(id),
+        AdminMakeupsAPI.getStudentMakeups(id),
       ]);
       if (profileRes.success && profileRes.data) {
         setStudent(profileRes.data.student ?? profileRes.data);
@@ -82,6 +95,9 @@ export default function StudentProfilePage() {
         setCredits(creditsRes.data.credits ?? []);
         setCreditBalance(creditsRes.data.creditBalance ?? 0);
       }
+      if (makeupsRes.success && makeupsRes.data) {
+        setMakeupsOwed(makeupsRes.data.outstanding);
+      }
     } catch (e: any) {
       toast.error(e?.response?.data?.error ?? 'Failed to load student');
     } finally {
@@ -134,7 +150,11 @@ export default function StudentProfilePage() {
     );
   }
 
-  const activeEnrollment = enrollments.find((e: any) => e.endDate === null);
+  // The enrollment the student's course fields mirror; students in several
+  // courses have other active enrollments on the Enrollment tab.
+  const primaryEnrollmentId: string | undefined = student.currentEnrollmentId?._id ?? student.currentEnrollmentId ?? undefined;
+  const activeEnrollment = enrollments.find((e: any) => e._id === primaryEnrollmentId)
+    ?? enrollments.find((e: any) => e.endDate === null);
   const stageName = student.courseId?.stages?.find((s: any) => s.stageNumber === student.stageNumber)?.stageName;
   const stageLabel = stageName
     ? `${stageName} (Stage ${student.stageNumber})`
@@ -163,6 +183,7 @@ export default function StudentProfilePage() {
 
       if (academicChanged && courseId && stageNumber != null && levelNumber != null && monthlyFee) {
         const response = await AdminStudentsAPI.upgrade(id, {
+          enrollmentId: primaryEnrollmentId,
           courseId,
           stageNumber: Number(stageNumber),
           levelNumber: Number(levelNumber),
@@ -175,7 +196,7 @@ export default function StudentProfilePage() {
         });
         if (!response.success) return (response as any).error || 'Failed to update enrollment';
       } else if (batchChanged) {
-        const response = await AdminStudentsAPI.changeBatch(id, { newBatchId: nextBatchId });
+        const response = await AdminStudentsAPI.changeBatch(id, { newBatchId: nextBatchId, enrollmentId: primaryEnrollmentId });
         if (!response.success) return (response as any).error || 'Failed to change batch';
       }
 
@@ -222,6 +243,15 @@ export default function StudentProfilePage() {
                 {overdueCount} overdue
               </span>
             )}
+            {makeupsOwed > 0 && (
+              <button
+                onClick={() => setActiveTab('attendance')}
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-primary-400/15 text-primary-400 text-xs font-medium"
+              >
+                <CalendarCheck className="w-3 h-3" />
+                {makeupsOwed} make-up{makeupsOwed === 1 ? '' : 's'} owed
+              </button>
+            )}
           </div>
           {stageLabel && (
             <div className="text-xs text-text-tertiary mt-0.5">
@@ -338,6 +368,8 @@ export default function StudentProfilePage() {
                 </div>
               </div>
             )}
+
+            <PortalAccessCard studentId={id!} hasFamily={!!student.familyId} />
           </div>
         )}
 
@@ -346,11 +378,18 @@ export default function StudentProfilePage() {
           <EnrollmentTimeline
             enrollments={enrollments}
             studentId={id!}
-            isActive={student.isActive}
             onAction={load}
           />
         )}
 
+        {/* Attendance tab */}
+        {activeTab === 'attendance' && (
+          <div className="space-y-6">
+            <MakeupsSection studentId={id!} onChange={setMakeupsOwed} />
+            <AttendanceTab studentId={id!} />
+          </div>
+        )}
+
         {/* Invoices tab */}
         {activeTab === 'invoices' && (
           <InvoicesTab
@@ -371,6 +410,11 @@ export default function StudentProfilePage() {
           />
         )}
 
+        {/* Statement tab */}
+        {activeTab === 'statement' && (
+          <StatementTab studentId={id!} />
+        )}
+
         {/* History tab */}
         {activeTab === 'history' && (
           <AuditHistoryTab studentId={id!} />
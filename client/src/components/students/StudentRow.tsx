@@ -1,8 +1,10 @@
 import { Pencil, Phone, Mail, Calendar, ExternalLink, AlertTriangle, Power, MessageCircle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import Badge from '../ui/Badge';
 import { type Student } from '../../types/student';
-import { sendWhatsAppReminder, isValidWhatsAppPhone } from '../../utils/whatsapp';
+import { isValidWhatsAppPhone } from '../../utils/whatsapp';
+import { AdminRemindersAPI } from '../../services/api';
 
 interface StudentRowProps {
   student: Student;
@@ -15,8 +17,26 @@ interface StudentRowProps {
 
 const StudentRow = ({ student, isSelected, onSelect, onEdit, onToggleActive }: StudentRowProps) => {
   const navigate = useNavigate();
-  const handleWhatsAppReminder = () => {
-    sendWhatsAppReminder(student.studentName, student.phone, 'Chess Klub');
+  // The reminder is rendered and logged server-side; open the tab up front so
+  // the popup blocker treats it as part of the click.
+  const handleWhatsAppReminder = async (force = false) => {
+    const tab = window.open('', '_blank');
+    try {
+      const res = await AdminRemindersAPI.sendToStudent(student._id, { channel: 'whatsapp', force });
+      if (res.success && res.data?.link && tab) {
+        tab.location.href = res.data.link;
+      } else {
+        tab?.close();
+      }
+    } catch (e: any) {
+      tab?.close();
+      const error = e?.response?.data?.error ?? 'Failed to send reminder';
+      if (e?.response?.status === 409) {
+        if (confirm(`${error}. Send another reminder anyway?`)) handleWhatsAppReminder(true);
+      } else {
+        toast.error(error);
+      }
+    }
   };
   const getBadgeVariant = (category?: string) => {
     switch (category) {
@@ -31,6 +51,9 @@ const StudentRow = ({ student, isSelected, onSelect, onEdit, onToggleActive }: S
     }
   };
 
+  // Concurrent courses beyond the one mirrored on the student
+  const otherCourses = (student.activeEnrollments ?? []).filter((c) => c.id !== student.currentEnrollmentId);
+
   const getStageDisplayName = () => {
     if (student.stageName) return student.stageName;
     if (typeof student.courseId === 'object') {
@@ -123,6 +146,14 @@ const StudentRow = ({ student, isSelected, onSelect, onEdit, onToggleActive }: S
         <div className="text-sm text-text-primary font-medium truncate" title={getStageDisplayName()}>
           {getStageDisplayName()}
         </div>
+        {otherCourses.length > 0 && (
+          <div
+            className="text-xs text-text-tertiary truncate"
+            title={otherCourses.map((c) => `${c.courseName ?? 'Course'} · ${c.stageName ?? `Stage ${c.stageNumber}`} L${c.levelNumber}`).join('\n')}
+          >
+            +{otherCourses.length} more {otherCourses.length === 1 ? 'course' : 'courses'}
+          </div>
+        )}
       </td>
 
       {/* Level */}
@@ -154,7 +185,7 @@ const StudentRow = ({ student, isSelected, onSelect, onEdit, onToggleActive }: S
           </button>
           {student.hasOverdueFees && isValidWhatsAppPhone(student.phone) && (
             <button
-              onClick={handleWhatsAppReminder}
+              onClick={() => handleWhatsAppReminder()}
               title="WhatsApp reminder"
               className="w-7 h-7 flex items-center justify-center rounded-md text-text-tertiary hover:text-accent-400 hover:bg-accent-600/15 transition-all"
             >
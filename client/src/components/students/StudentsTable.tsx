@@ -296,6 +296,14 @@ const StudentsTable = ({
                     <span className="text-text-tertiary text-xs">Batch</span>
                     <span className="text-text-secondary text-xs truncate ml-3">{batchName}</span>
                   </div>
+                  {(student.activeEnrollments?.length ?? 0) > 1 && (
+                    <div className="flex justify-between">
+                      <span className="text-text-tertiary text-xs">Courses</span>
+                      <span className="text-text-secondary text-xs text-right ml-3">
+                        {student.activeEnrollments!.map((c) => c.courseName ?? 'Course').join(', ')}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-2 pt-2 border-t border-white/7">
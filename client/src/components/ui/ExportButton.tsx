@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Button from './Button';
+import type { ReportFormat } from '../../types/report';
+
+interface ExportButtonProps {
+  // Downloads every row matching the page's current filters, not just the visible page
+  onExport: (format: ReportFormat) => Promise<void>;
+  // What is exported, when the page offers more than one export
+  label?: string;
+}
+
+const ExportButton = ({ onExport, label }: ExportButtonProps) => {
+  const [downloading, setDownloading] = useState<ReportFormat | null>(null);
+
+  const download = async (format: ReportFormat) => {
+    setDownloading(format);
+    try {
+      await onExport(format);
+    } catch {
+      toast.error('Export failed');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {label && <span className="text-xs text-text-tertiary whitespace-nowrap">{label}</span>}
+      {(['csv', 'xlsx'] as ReportFormat[]).map((format) => (
+        <Button key={format} size="sm" variant="outline" className="h-9 whitespace-nowrap" disabled={!!downloading} onClick={() => download(format)}>
+          <Download className="w-3.5 h-3.5" /> {format.toUpperCase()}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportButton;
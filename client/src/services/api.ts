@@ -1,7 +1,14 @@
 import axios from 'axios';
-import type { Student, ApiResponse, PaginatedResponse, StudentFilters } from '../types/student';
-import type { Course, CourseFormData, LevelFormData } from '../types/course';
-import type { Batch, CreateBatchData, UpdateBatchData, BatchStats, BatchFilters, EligibleStudent, BulkAssignResult } from '../types/batch';
+import type { Student, ApiResponse, PaginatedResponse, PauseExpiredEntry, PauseExpiryRunSummary, StudentFilters, StudentStatement, CreditRefund, RefundMethod } from '../types/student';
+import type { Course, CourseFormData, LateFeePolicy, LevelFormData, MakeupPolicy, ProRationPolicy } from '../types/course';
+import type { Family, FamilyFormData, FamilyPaymentResult } from '../types/family';
+import type { PortalAccessUser, PortalCreditEntry, PortalInvoice, PortalPayment, PortalStudent } from '../types/portal';
+import type { BankStatementSummary, ReconciliationReport, StatementUploadOptions } from '../types/reconciliation';
+import type { ImportIssueSeverity, ImportProfile, ImportProfileFormData, ImportResult, ImportRollbackPlan, ImportRunDetail, ImportRunSummary } from '../types/import';
+import type { AgeingReport, AgeingView, ExportEntity, ReportFormat, RevenueReport } from '../types/report';
+import type { ReminderCampaign, ReminderCampaignRequest, ReminderCampaignResult, ReminderChannelInfo, ReminderLog, ReminderPreview, ReminderTemplate, ReminderTemplateFormData, ReminderTemplateList } from '../types/reminder';
+import type { AttendanceStatus, BatchAttendance, ClassSession, MakeupCredit, MakeupOption, RosterEntry, StudentAttendance, StudentMakeups } from '../types/attendance';
+import type { Batch, CreateBatchData, UpdateBatchData, BatchStats, BatchFilters, EligibleStudent, BulkAssignResult, BatchWaitlistEntry, SeatOffer } from '../types/batch';
 
 import { env } from '../config/env';
 import { parseError, getErrorMessage } from '../utils/errorHandler';
@@ -168,26 +175,35 @@ export class AuthAPI {
   }
 }
 
+function studentListParams(filters: StudentFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.page) params.append('page', filters.page.toString());
+  if (filters.limit) params.append('limit', filters.limit.toString());
+  if (filters.sortBy) params.append('sortBy', filters.sortBy);
+  if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
+  if (filters.search) params.append('search', filters.search);
+  if (filters.stage) {
+    const stageNum = STAGE_NUMBER_BY_NAME[filters.stage];
+    if (stageNum) params.append('stageNumber', stageNum.toString());
+  }
+  if (filters.isActive !== undefined) params.append('isActive', filters.isActive.toString());
+  if (filters.ids?.length) params.append('ids', filters.ids.join(','));
+  return params;
+}
+
 export class StudentsAPI {
   // Get all students with pagination and filters
   static async getStudents(filters: StudentFilters = {}): Promise<ApiResponse<PaginatedResponse<Student>>> {
-    const params = new URLSearchParams();
-
-    if (filters.page) params.append('page', filters.page.toString());
-    if (filters.limit) params.append('limit', filters.limit.toString());
-    if (filters.sortBy) params.append('sortBy', filters.sortBy);
-    if (filters.sortOrder) params.append('sortOrder', filters.sortOrder);
-    if (filters.search) params.append('search', filters.search);
-    if (filters.stage) {
-      const stageNum = STAGE_NUMBER_BY_NAME[filters.stage];
-      if (stageNum) params.append('stageNumber', stageNum.toString());
-    }
-    if (filters.isActive !== undefined) params.append('isActive', filters.isActive.toString());
-
-    const response = await api.get(`/v2/students?${params.toString()}`);
+    const response = await api.get(`/v2/students?${studentListParams(filters).toString()}`);
     return response.data;
   }
 
+  // Every student matching the list filters (not just one page) as a file
+  static async exportStudents(filters: StudentFilters, format: ReportFormat): Promise<void> {
+    await downloadExport('students', studentListParams({ ...filters, page: undefined, limit: undefined }), format);
+  }
+
   // Get student by ID
   static async getStudentById(id: string): Promise<ApiResponse<Student>> {
     const response = await api.get(`/v2/students/${id}`);
@@ -674,6 +690,42 @@ export class AdminStudentsAPI {
     return response.data;
   }
 
+  static async getStatement(studentId: string, range: { from?: string; to?: string } = {}): Promise<ApiResponse<StudentStatement>> {
+    const params = new URLSearchParams();
+    if (range.from) params.append('from', range.from);
+    if (range.to) params.append('to', range.to);
+    const suffix = params.toString() ? `?${params.toString()}` : '';
+    const response = await api.get(`/v2/students/${studentId}/statement${suffix}`);
+    return response.data;
+  }
+
+  static async downloadStatement(studentId: string, range: { from?: string; to?: string }, format: 'csv' | 'pdf'): Promise<void> {
+    const params = new URLSearchParams({ format });
+    if (range.from) params.append('from', range.from);
+    if (range.to) params.append('to', range.to);
+    await downloadFile(`/v2/students/${studentId}/statement?${params}`, `statement.${format}`);
+  }
+
+  static async getPortalAccess(studentId: string): Promise<ApiResponse<{ user: PortalAccessUser | null }>> {
+    const response = await api.get(`/v2/students/${studentId}/portal-access`);
+    return response.data;
+  }
+
+  static async setPortalAccess(studentId: string, data: {
+    email: string;
+    name?: string;
+    password?: string;
+    includeFamily?: boolean;
+  }): Promise<ApiResponse<{ user: PortalAccessUser; linkedCount: number }>> {
+    const response = await api.put(`/v2/students/${studentId}/portal-access`, data);
+    return response.data;
+  }
+
+  static async removePortalAccess(studentId: string, includeFamily = false): Promise<ApiResponse> {
+    const response = await api.delete(`/v2/students/${studentId}/portal-access?includeFamily=${includeFamily}`);
+    return response.data;
+  }
+
   static async create(data: {
     studentName: string;
     parentName?: string;
@@ -692,9 +744,11 @@ export class AdminStudentsAPI {
     discountPct?: number;
     discountAmount?: number;
     discountReason?: string;
+    familyId?: string;
     createFirstFeeRecord?: boolean;
     firstMonthFee?: number;
     firstMonthDueDate?: string;
+    waitlistIfFull?: boolean; // queue the student instead when the batch has no seat
   }): Promise<ApiResponse> {
     const response = await api.post('/v2/students', data);
     return response.data;
@@ -731,7 +785,22 @@ export class AdminStudentsAPI {
     return response.data;
   }
 
+  /** Enrol the student in another course alongside their current ones. */
+  static async addEnrollment(studentId: string, data: {
+    courseId: string;
+    stageNumber: number;
+    levelNumber: number;
+    monthlyFee: number;
+    startDate?: string;
+    batchId?: string;
+  }): Promise<ApiResponse> {
+    const response = await api.post(`/v2/students/${studentId}/enrollments`, data);
+    return response.data;
+  }
+
+  // enrollmentId picks the course's enrollment when the student is in several
   static async upgrade(studentId: string, data: {
+    enrollmentId?: string;
     courseId: string;
     stageNumber: number;
     levelNumber: number;
@@ -747,27 +816,42 @@ export class AdminStudentsAPI {
     return response.data;
   }
 
-  static async changeBatch(studentId: string, data: { newBatchId: string | null; changeDate?: string }): Promise<ApiResponse> {
+  static async changeBatch(studentId: string, data: { newBatchId: string | null; changeDate?: string; enrollmentId?: string }): Promise<ApiResponse> {
     const response = await api.post(`/v2/students/${studentId}/enrollments/change-batch`, data);
     return response.data;
   }
 
-  static async pause(studentId: string, data: { pausedUntil: string; pauseDate?: string }): Promise<ApiResponse> {
+  static async pause(studentId: string, data: { pausedUntil: string; pauseDate?: string; enrollmentId?: string }): Promise<ApiResponse> {
     const response = await api.post(`/v2/students/${studentId}/enrollments/pause`, data);
     return response.data;
   }
 
-  static async resume(studentId: string, data: { resumeDate?: string }): Promise<ApiResponse> {
+  static async resume(studentId: string, data: { resumeDate?: string; enrollmentId?: string }): Promise<ApiResponse> {
     const response = await api.post(`/v2/students/${studentId}/enrollments/resume`, data);
     return response.data;
   }
 
-  static async leave(studentId: string, data: { leaveDate?: string }): Promise<ApiResponse> {
+  static async extendPause(studentId: string, data: { pausedUntil: string; enrollmentId?: string }): Promise<ApiResponse> {
+    const response = await api.post(`/v2/students/${studentId}/enrollments/extend-pause`, data);
+    return response.data;
+  }
+
+  static async getPauseExpired(): Promise<ApiResponse<PauseExpiredEntry[]>> {
+    const response = await api.get('/v2/students/pause-expired');
+    return response.data;
+  }
+
+  static async runPauseExpiry(data: { action?: 'resume' | 'flag'; dryRun?: boolean }): Promise<ApiResponse<PauseExpiryRunSummary>> {
+    const response = await api.post('/v2/students/pause-expired/run', data);
+    return response.data;
+  }
+
+  static async leave(studentId: string, data: { leaveDate?: string; enrollmentId?: string }): Promise<ApiResponse> {
     const response = await api.post(`/v2/students/${studentId}/enrollments/leave`, data);
     return response.data;
   }
 
-  static async grandfather(studentId: string, data: { grandfathered: boolean; note?: string }): Promise<ApiResponse> {
+  static async grandfather(studentId: string, data: { grandfathered: boolean; note?: string; enrollmentId?: string }): Promise<ApiResponse> {
     const response = await api.patch(`/v2/students/${studentId}/enrollments/grandfather`, data);
     return response.data;
   }
@@ -785,7 +869,7 @@ export class AdminCoursesAPI {
     return response.data;
   }
 
-  static async update(courseId: string, data: { displayName?: string; description?: string; displayOrder?: number; isActive?: boolean }): Promise<ApiResponse> {
+  static async update(courseId: string, data: { displayName?: string; description?: string; displayOrder?: number; isActive?: boolean; proRationPolicy?: ProRationPolicy; lateFeePolicy?: LateFeePolicy; makeupPolicy?: MakeupPolicy }): Promise<ApiResponse> {
     const response = await api.put(`/v2/courses/${courseId}`, data);
     return response.data;
   }
@@ -878,32 +962,105 @@ export class AdminBatchesAPI {
     if (response.data?.success) response.data.data = response.data.data.map(normalizeBatchForLegacyUi);
     return response.data;
   }
+
+  static async getWaitlist(batchId: string): Promise<ApiResponse<BatchWaitlistEntry[]>> {
+    const response = await api.get(`/v2/batches/${batchId}/waitlist`);
+    return response.data;
+  }
+
+  static async addToWaitlist(batchId: string, data: { studentId: string; note?: string }): Promise<ApiResponse<BatchWaitlistEntry>> {
+    const response = await api.post(`/v2/batches/${batchId}/waitlist`, data);
+    return response.data;
+  }
+
+  // Without entryId the student at the front of the queue is promoted.
+  static async promoteFromWaitlist(batchId: string, data: { entryId?: string; date?: string } = {}): Promise<ApiResponse> {
+    const response = await api.post(`/v2/batches/${batchId}/waitlist/promote`, data);
+    return response.data;
+  }
+
+  static async removeFromWaitlist(batchId: string, entryId: string): Promise<ApiResponse<BatchWaitlistEntry>> {
+    const response = await api.delete(`/v2/batches/${batchId}/waitlist/${entryId}`);
+    return response.data;
+  }
+
+  static async getSeatOffers(): Promise<ApiResponse<SeatOffer[]>> {
+    const response = await api.get('/v2/batches/waitlist/seat-offers');
+    return response.data;
+  }
+}
+
+// Fetch an authenticated file and hand it to the browser as a download.
+async function downloadFile(url: string, fallbackName: string): Promise<void> {
+  const response = await api.get(url, { responseType: 'blob' });
+  const disposition: string = response.headers['content-disposition'] ?? '';
+  const filename = disposition.match(/filename="?([^"]+)"?/)?.[1] ?? fallbackName;
+  const href = URL.createObjectURL(response.data);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(href);
+}
+
+// Server-side export of a whole list; params are the list endpoint's filters.
+async function downloadExport(entity: ExportEntity, params: URLSearchParams, format: ReportFormat): Promise<void> {
+  params.set('format', format);
+  await downloadFile(`/v2/exports/${entity}?${params}`, `${entity}.${format}`);
+}
+
+interface InvoiceListFilters {
+  page?: number;
+  limit?: number;
+  studentId?: string;
+  status?: 'upcoming' | 'paid' | 'overdue' | 'partially_paid';
+  courseId?: string;
+  stageNumber?: number;
+  levelNumber?: number;
+  monthFrom?: string;
+  monthTo?: string;
+}
+
+function invoiceListParams(filters: InvoiceListFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.page) params.append('page', filters.page.toString());
+  if (filters.limit) params.append('limit', filters.limit.toString());
+  if (filters.studentId) params.append('studentId', filters.studentId);
+  if (filters.status) params.append('status', filters.status);
+  if (filters.courseId) params.append('courseId', filters.courseId);
+  if (filters.stageNumber !== undefined) params.append('stageNumber', filters.stageNumber.toString());
+  if (filters.levelNumber !== undefined) params.append('levelNumber', filters.levelNumber.toString());
+  if (filters.monthFrom) params.append('monthFrom', filters.monthFrom);
+  if (filters.monthTo) params.append('monthTo', filters.monthTo);
+  return params;
 }
 
 export class AdminFeesAPI {
-  static async list(filters: {
-    page?: number;
-    limit?: number;
+  static async list(filters: InvoiceListFilters = {}): Promise<ApiResponse> {
+    const response = await api.get(`/v2/fees?${invoiceListParams(filters)}`);
+    return response.data;
+  }
+
+  static async exportInvoices(filters: Omit<InvoiceListFilters, 'page' | 'limit'>, format: ReportFormat): Promise<void> {
+    await downloadExport('invoices', invoiceListParams(filters), format);
+  }
+
+  // from / to bound the payment date (inclusive); reversed payments are included unless isReversed is 'false'
+  static async exportPayments(filters: {
     studentId?: string;
-    status?: 'upcoming' | 'paid' | 'overdue' | 'partially_paid';
-    courseId?: string;
-    stageNumber?: number;
-    levelNumber?: number;
-    monthFrom?: string;
-    monthTo?: string;
-  } = {}): Promise<ApiResponse> {
+    paymentMethod?: string;
+    source?: 'manual' | 'import';
+    from?: string;
+    to?: string;
+    isReversed?: 'true' | 'false';
+  }, format: ReportFormat): Promise<void> {
     const params = new URLSearchParams();
-    if (filters.page) params.append('page', filters.page.toString());
-    if (filters.limit) params.append('limit', filters.limit.toString());
-    if (filters.studentId) params.append('studentId', filters.studentId);
-    if (filters.status) params.append('status', filters.status);
-    if (filters.courseId) params.append('courseId', filters.courseId);
-    if (filters.stageNumber !== undefined) params.append('stageNumber', filters.stageNumber.toString());
-    if (filters.levelNumber !== undefined) params.append('levelNumber', filters.levelNumber.toString());
-    if (filters.monthFrom) params.append('monthFrom', filters.monthFrom);
-    if (filters.monthTo) params.append('monthTo', filters.monthTo);
-    const response = await api.get(`/v2/fees?${params}`);
-    return response.data;
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.append(key, value);
+    }
+    await downloadExport('payments', params, format);
   }
 
   static async create(data: {
@@ -956,6 +1113,14 @@ export class AdminFeesAPI {
     return response.data;
   }
 
+  static async downloadInvoicePdf(invoiceId: string): Promise<void> {
+    await downloadFile(`/v2/fees/${invoiceId}/pdf`, `invoice-${invoiceId}.pdf`);
+  }
+
+  static async downloadReceiptPdf(paymentTransactionId: string): Promise<void> {
+    await downloadFile(`/v2/fees/payment/${paymentTransactionId}/receipt.pdf`, `receipt-${paymentTransactionId}.pdf`);
+  }
+
   static async getStudentCredits(studentId: string): Promise<ApiResponse> {
     const response = await api.get(`/v2/fees/student/${studentId}/credits`);
     return response.data;
@@ -970,30 +1135,422 @@ export class AdminFeesAPI {
     const response = await api.post(`/v2/fees/student/${studentId}/credits`, data);
     return response.data;
   }
+
+  static async listStudentRefunds(studentId: string): Promise<ApiResponse<CreditRefund[]>> {
+    const response = await api.get(`/v2/fees/student/${studentId}/refunds`);
+    return response.data;
+  }
+
+  static async requestRefund(studentId: string, data: {
+    amount: number;
+    paymentMethod: RefundMethod;
+    reference?: string;
+    refundDate?: string;
+    reason: string;
+  }): Promise<ApiResponse<CreditRefund>> {
+    const response = await api.post(`/v2/fees/student/${studentId}/refunds`, data);
+    return response.data;
+  }
+
+  static async listRefunds(status?: CreditRefund['status']): Promise<ApiResponse<CreditRefund[]>> {
+    const response = await api.get(`/v2/fees/refunds${status ? `?status=${status}` : ''}`);
+    return response.data;
+  }
+
+  static async approveRefund(refundId: string, data: { refundDate?: string; reference?: string } = {}): Promise<ApiResponse<CreditRefund>> {
+    const response = await api.post(`/v2/fees/refunds/${refundId}/approve`, data);
+    return response.data;
+  }
+
+  static async rejectRefund(refundId: string, reason: string): Promise<ApiResponse<CreditRefund>> {
+    const response = await api.post(`/v2/fees/refunds/${refundId}/reject`, { reason });
+    return response.data;
+  }
 }
 
-export class AdminLeadsAPI {
-  static async list(filters: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    status?: string;
-    source?: string;
-    followUpFrom?: string;
-    followUpTo?: string;
-  } = {}): Promise<ApiResponse> {
+export class AdminFamiliesAPI {
+  static async list(search?: string): Promise<ApiResponse<Family[]>> {
     const params = new URLSearchParams();
-    if (filters.page) params.append('page', filters.page.toString());
-    if (filters.limit) params.append('limit', filters.limit.toString());
-    if (filters.search) params.append('search', filters.search);
-    if (filters.status && filters.status !== 'all') params.append('status', filters.status);
-    if (filters.source && filters.source !== 'all') params.append('source', filters.source);
-    if (filters.followUpFrom) params.append('followUpFrom', filters.followUpFrom);
-    if (filters.followUpTo) params.append('followUpTo', filters.followUpTo);
-    const response = await api.get(`/v2/leads?${params}`);
+    if (search) params.append('search', search);
+    const response = await api.get(`/v2/families?${params}`);
+    return response.data;
+  }
+
+  static async get(familyId: string): Promise<ApiResponse> {
+    const response = await api.get(`/v2/families/${familyId}`);
+    return response.data;
+  }
+
+  static async create(data: FamilyFormData & { studentIds?: string[] }): Promise<ApiResponse<Family>> {
+    const response = await api.post('/v2/families', data);
+    return response.data;
+  }
+
+  static async update(familyId: string, data: Partial<FamilyFormData>): Promise<ApiResponse<Family>> {
+    const response = await api.put(`/v2/families/${familyId}`, data);
+    return response.data;
+  }
+
+  static async delete(familyId: string): Promise<ApiResponse> {
+    const response = await api.delete(`/v2/families/${familyId}`);
+    return response.data;
+  }
+
+  static async addMember(familyId: string, studentId: string): Promise<ApiResponse> {
+    const response = await api.post(`/v2/families/${familyId}/members`, { studentId });
+    return response.data;
+  }
+
+  static async removeMember(familyId: string, studentId: string): Promise<ApiResponse> {
+    const response = await api.delete(`/v2/families/${familyId}/members/${studentId}`);
+    return response.data;
+  }
+
+  static async recordPayment(familyId: string, data: {
+    amount: number;
+    paymentMethod: 'cash' | 'online' | 'card' | 'upi' | 'other';
+    transactionId?: string;
+    paymentDate?: string;
+    remarks?: string;
+    creditStudentId?: string;
+    idempotencyKey?: string;
+  }): Promise<ApiResponse<FamilyPaymentResult>> {
+    const response = await api.post(`/v2/families/${familyId}/payments`, data);
+    return response.data;
+  }
+}
+
+export class AdminAttendanceAPI {
+  static async generateSessions(data: { month?: string; from?: string; to?: string; batchId?: string }): Promise<ApiResponse> {
+    const response = await api.post('/v2/attendance/sessions/generate', data);
+    return response.data;
+  }
+
+  static async listSessions(filters: { batchId?: string; from?: string; to?: string; status?: string } = {}): Promise<ApiResponse<ClassSession[]>> {
+    const params = new URLSearchParams();
+    if (filters.batchId) params.append('batchId', filters.batchId);
+    if (filters.from) params.append('from', filters.from);
+    if (filters.to) params.append('to', filters.to);
+    if (filters.status) params.append('status', filters.status);
+    const response = await api.get(`/v2/attendance/sessions?${params}`);
+    return response.data;
+  }
+
+  static async getSession(sessionId: string): Promise<ApiResponse<{ session: ClassSession; roster: RosterEntry[] }>> {
+    const response = await api.get(`/v2/attendance/sessions/${sessionId}`);
+    return response.data;
+  }
+
+  static async markAttendance(
+    sessionId: string,
+    marks: { studentId: string; status: AttendanceStatus; note?: string }[],
+  ): Promise<ApiResponse<{ session: ClassSession; roster: RosterEntry[] }>> {
+    const response = await api.put(`/v2/attendance/sessions/${sessionId}/attendance`, { marks });
+    return response.data;
+  }
+
+  static async updateSession(sessionId: string, data: { cancelled?: boolean; cancelReason?: string; notes?: string }): Promise<ApiResponse<ClassSession>> {
+    const response = await api.patch(`/v2/attendance/sessions/${sessionId}`, data);
+    return response.data;
+  }
+
+  static async getStudentAttendance(studentId: string, filters: { from?: string; to?: string } = {}): Promise<ApiResponse<StudentAttendance>> {
+    const params = new URLSearchParams();
+    if (filters.from) params.append('from', filters.from);
+    if (filters.to) params.append('to', filters.to);
+    const response = await api.get(`/v2/attendance/students/${studentId}?${params}`);
+    return response.data;
+  }
+
+  static async getBatchAttendance(batchId: string, month?: string): Promise<ApiResponse<BatchAttendance>> {
+    const params = new URLSearchParams();
+    if (month) params.append('month', month);
+    const response = await api.get(`/v2/attendance/batches/${batchId}?${params}`);
+    return response.data;
+  }
+}
+
+export class AdminMakeupsAPI {
+  static async getStudentMakeups(studentId: string): Promise<ApiResponse<StudentMakeups>> {
+    const response = await api.get(`/v2/makeups/students/${studentId}`);
+    return response.data;
+  }
+
+  static async getOptions(creditId: string): Promise<ApiResponse<{ credit: MakeupCredit; options: MakeupOption[] }>> {
+    const response = await api.get(`/v2/makeups/${creditId}/options`);
+    return response.data;
+  }
+
+  static async book(creditId: string, sessionId: string): Promise<ApiResponse<MakeupCredit>> {
+    const response = await api.post(`/v2/makeups/${creditId}/book`, { sessionId });
+    return response.data;
+  }
+
+  static async cancelBooking(creditId: string): Promise<ApiResponse<MakeupCredit>> {
+    const response = await api.delete(`/v2/makeups/${creditId}/booking`);
+    return response.data;
+  }
+}
+
+/** Parent portal — every call is scoped server-side to the caller's linked students. */
+export class AdminImportsAPI {
+  // Upload a workbook for a dry-run; nothing is written until it is applied.
+  static async upload(file: File, options: { sheetName?: string; profileId?: string; incremental?: boolean } = {}): Promise<ApiResponse<ImportResult>> {
+    const form = new FormData();
+    form.append('file', file);
+    if (options.sheetName) form.append('sheetName', options.sheetName);
+    if (options.profileId) form.append('profileId', options.profileId);
+    if (options.incremental) form.append('incremental', 'true');
+    const response = await api.post('/v2/imports', form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  static async list(): Promise<ApiResponse<ImportRunSummary[]>> {
+    const response = await api.get('/v2/imports');
+    return response.data;
+  }
+
+  static async get(runId: string, filter: { severity?: ImportIssueSeverity; code?: string } = {}): Promise<ApiResponse<ImportRunDetail>> {
+    const params = new URLSearchParams();
+    if (filter.severity) params.append('severity', filter.severity);
+    if (filter.code) params.append('code', filter.code);
+    const response = await api.get(`/v2/imports/${runId}?${params}`);
+    return response.data;
+  }
+
+  static async apply(runId: string): Promise<ApiResponse<ImportResult>> {
+    const response = await api.post(`/v2/imports/${runId}/apply`);
+    return response.data;
+  }
+
+  // What rolling back an applied run would undo, and anything blocking it
+  static async getRollbackPlan(runId: string): Promise<ApiResponse<ImportRollbackPlan>> {
+    const response = await api.get(`/v2/imports/${runId}/rollback`);
+    return response.data;
+  }
+
+  static async rollback(runId: string): Promise<ApiResponse<ImportRollbackPlan>> {
+    const response = await api.post(`/v2/imports/${runId}/rollback`);
+    return response.data;
+  }
+
+  // Mapping profiles; the default one is listed first
+  static async getProfiles(): Promise<ApiResponse<ImportProfile[]>> {
+    const response = await api.get('/v2/imports/profiles');
+    return response.data;
+  }
+
+  static async createProfile(data: ImportProfileFormData): Promise<ApiResponse<ImportProfile>> {
+    const response = await api.post('/v2/imports/profiles', data);
+    return response.data;
+  }
+
+  static async updateProfile(profileId: string, data: Partial<ImportProfileFormData>): Promise<ApiResponse<ImportProfile>> {
+    const response = await api.put(`/v2/imports/profiles/${profileId}`, data);
+    return response.data;
+  }
+
+  static async deleteProfile(profileId: string): Promise<ApiResponse<ImportProfile>> {
+    const response = await api.delete(`/v2/imports/profiles/${profileId}`);
+    return response.data;
+  }
+}
+
+export class AdminReconciliationAPI {
+  static async uploadStatement(file: File, options: StatementUploadOptions = {}): Promise<ApiResponse<ReconciliationReport>> {
+    const form = new FormData();
+    form.append('file', file);
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined && value !== '') form.append(key, String(value));
+    }
+    const response = await api.post('/v2/reconciliation/statements', form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  static async listStatements(): Promise<ApiResponse<BankStatementSummary[]>> {
+    const response = await api.get('/v2/reconciliation/statements');
+    return response.data;
+  }
+
+  static async getReport(statementId: string): Promise<ApiResponse<ReconciliationReport>> {
+    const response = await api.get(`/v2/reconciliation/statements/${statementId}`);
+    return response.data;
+  }
+
+  static async rematch(statementId: string): Promise<ApiResponse<ReconciliationReport>> {
+    const response = await api.post(`/v2/reconciliation/statements/${statementId}/rematch`);
+    return response.data;
+  }
+
+  static async recordPayment(statementId: string, lineId: string, data: {
+    studentId: string;
+    paymentMethod?: 'online' | 'upi' | 'card' | 'other';
+    invoiceIds?: string[];
+  }): Promise<ApiResponse<{ payment: any; report: ReconciliationReport }>> {
+    const response = await api.post(`/v2/reconciliation/statements/${statementId}/lines/${lineId}/payment`, data);
+    return response.data;
+  }
+
+  static async setLineIgnored(statementId: string, lineId: string, ignored: boolean, note?: string): Promise<ApiResponse<ReconciliationReport>> {
+    const response = await api.patch(`/v2/reconciliation/statements/${statementId}/lines/${lineId}`, { ignored, note });
+    return response.data;
+  }
+}
+
+export class AdminRemindersAPI {
+  static async getChannels(): Promise<ApiResponse<ReminderChannelInfo[]>> {
+    const response = await api.get('/v2/reminders/channels');
+    return response.data;
+  }
+
+  static async getTemplates(includeInactive = false): Promise<ApiResponse<ReminderTemplateList>> {
+    const response = await api.get('/v2/reminders/templates', { params: includeInactive ? { includeInactive: 'true' } : {} });
     return response.data;
   }
 
+  static async createTemplate(data: ReminderTemplateFormData): Promise<ApiResponse<ReminderTemplate>> {
+    const response = await api.post('/v2/reminders/templates', data);
+    return response.data;
+  }
+
+  static async updateTemplate(templateId: string, data: Partial<ReminderTemplateFormData> & { isActive?: boolean }): Promise<ApiResponse<ReminderTemplate>> {
+    const response = await api.put(`/v2/reminders/templates/${templateId}`, data);
+    return response.data;
+  }
+
+  static async deactivateTemplate(templateId: string): Promise<ApiResponse<ReminderTemplate>> {
+    const response = await api.delete(`/v2/reminders/templates/${templateId}`);
+    return response.data;
+  }
+
+  static async previewCampaign(data: ReminderCampaignRequest): Promise<ApiResponse<ReminderPreview>> {
+    const response = await api.post('/v2/reminders/campaigns/preview', data);
+    return response.data;
+  }
+
+  static async runCampaign(data: ReminderCampaignRequest): Promise<ApiResponse<ReminderCampaignResult>> {
+    const response = await api.post('/v2/reminders/campaigns', data);
+    return response.data;
+  }
+
+  static async listCampaigns(): Promise<ApiResponse<ReminderCampaign[]>> {
+    const response = await api.get('/v2/reminders/campaigns');
+    return response.data;
+  }
+
+  static async getCampaign(campaignId: string): Promise<ApiResponse<ReminderCampaignResult>> {
+    const response = await api.get(`/v2/reminders/campaigns/${campaignId}`);
+    return response.data;
+  }
+
+  static async sendToStudent(studentId: string, data: { channel: string; templateId?: string; force?: boolean }): Promise<ApiResponse<ReminderLog>> {
+    const response = await api.post(`/v2/reminders/students/${studentId}`, data);
+    return response.data;
+  }
+
+  static async getStudentReminders(studentId: string): Promise<ApiResponse<ReminderLog[]>> {
+    const response = await api.get(`/v2/reminders/students/${studentId}`);
+    return response.data;
+  }
+}
+
+export class AdminReportsAPI {
+  /** from / to are months (YYYY-MM), inclusive; the server defaults to the last 12 months. */
+  static async getRevenue(params: { from?: string; to?: string } = {}): Promise<ApiResponse<RevenueReport>> {
+    const response = await api.get('/v2/reports/revenue', { params });
+    return response.data;
+  }
+
+  static async downloadRevenue(params: { from?: string; to?: string }, format: ReportFormat): Promise<void> {
+    const query = new URLSearchParams({ format });
+    if (params.from) query.append('from', params.from);
+    if (params.to) query.append('to', params.to);
+    await downloadFile(`/v2/reports/revenue?${query}`, `revenue.${format}`);
+  }
+
+  /** asOf is YYYY-MM-DD; the server defaults to today. */
+  static async getAgeing(asOf?: string): Promise<ApiResponse<AgeingReport>> {
+    const response = await api.get('/v2/reports/ageing', { params: asOf ? { asOf } : {} });
+    return response.data;
+  }
+
+  static async downloadAgeing(params: { asOf?: string; view: AgeingView }, format: ReportFormat): Promise<void> {
+    const query = new URLSearchParams({ format, view: params.view });
+    if (params.asOf) query.append('asOf', params.asOf);
+    await downloadFile(`/v2/reports/ageing?${query}`, `ageing.${format}`);
+  }
+}
+
+export class PortalAPI {
+  static async getStudents(): Promise<ApiResponse<PortalStudent[]>> {
+    const response = await api.get('/portal/students');
+    return response.data;
+  }
+
+  static async getInvoices(studentId: string, status?: 'outstanding'): Promise<ApiResponse<PortalInvoice[]>> {
+    const params = new URLSearchParams();
+    if (status) params.append('status', status);
+    const response = await api.get(`/portal/students/${studentId}/invoices?${params}`);
+    return response.data;
+  }
+
+  static async getPayments(studentId: string): Promise<ApiResponse<PortalPayment[]>> {
+    const response = await api.get(`/portal/students/${studentId}/payments`);
+    return response.data;
+  }
+
+  static async getCredits(studentId: string): Promise<ApiResponse<{ creditBalance: number; credits: PortalCreditEntry[] }>> {
+    const response = await api.get(`/portal/students/${studentId}/credits`);
+    return response.data;
+  }
+
+  static async downloadInvoicePdf(invoiceId: string): Promise<void> {
+    await downloadFile(`/portal/invoices/${invoiceId}/pdf`, `invoice-${invoiceId}.pdf`);
+  }
+
+  static async downloadReceiptPdf(paymentId: string): Promise<void> {
+    await downloadFile(`/portal/payments/${paymentId}/receipt.pdf`, `receipt-${paymentId}.pdf`);
+  }
+}
+
+interface LeadListFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: string;
+  source?: string;
+  followUpFrom?: string;
+  followUpTo?: string;
+  assignedTo?: string;
+}
+
+function leadListParams(filters: LeadListFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.page) params.append('page', filters.page.toString());
+  if (filters.limit) params.append('limit', filters.limit.toString());
+  if (filters.search) params.append('search', filters.search);
+  if (filters.status && filters.status !== 'all') params.append('status', filters.status);
+  if (filters.source && filters.source !== 'all') params.append('source', filters.source);
+  if (filters.followUpFrom) params.append('followUpFrom', filters.followUpFrom);
+  if (filters.followUpTo) params.append('followUpTo', filters.followUpTo);
+  if (filters.assignedTo) params.append('assignedTo', filters.assignedTo);
+  return params;
+}
+
+export class AdminLeadsAPI {
+  static async list(filters: LeadListFilters = {}): Promise<ApiResponse> {
+    const response = await api.get(`/v2/leads?${leadListParams(filters)}`);
+    return response.data;
+  }
+
+  static async export(filters: Omit<LeadListFilters, 'page' | 'limit'>, format: ReportFormat): Promise<void> {
+    await downloadExport('leads', leadListParams(filters), format);
+  }
+
   static async get(id: string): Promise<ApiResponse> {
     const response = await api.get(`/v2/leads/${id}`);
     return response.data;
@@ -1011,6 +1568,7 @@ export class AdminLeadsAPI {
     status?: string;
     notes?: string;
     followUpDate?: string;
+    assignedTo?: string;
   }): Promise<ApiResponse> {
     const response = await api.post('/v2/leads', data);
     return response.data;
@@ -1028,11 +1586,51 @@ export class AdminLeadsAPI {
     status: string;
     notes: string;
     followUpDate: string | null;
+    assignedTo: string | null;
   }>): Promise<ApiResponse> {
     const response = await api.put(`/v2/leads/${id}`, data);
     return response.data;
   }
 
+  /** Due today / overdue leads; assignedTo is 'me', 'unassigned' or an admin's id. */
+  static async followUps(params: { due?: 'today' | 'overdue' | 'all'; assignedTo?: string } = {}): Promise<ApiResponse> {
+    const query = new URLSearchParams();
+    if (params.due) query.append('due', params.due);
+    if (params.assignedTo) query.append('assignedTo', params.assignedTo);
+    const response = await api.get(`/v2/leads/follow-ups?${query}`);
+    return response.data;
+  }
+
+  /** Funnel and conversion report over leads created between from and to (YYYY-MM-DD). */
+  static async analytics(params: { from?: string; to?: string } = {}): Promise<ApiResponse> {
+    const query = new URLSearchParams();
+    if (params.from) query.append('from', params.from);
+    if (params.to) query.append('to', params.to);
+    const response = await api.get(`/v2/leads/analytics?${query}`);
+    return response.data;
+  }
+
+  static async assignees(): Promise<ApiResponse> {
+    const response = await api.get('/v2/leads/assignees');
+    return response.data;
+  }
+
+  static async listActivities(id: string): Promise<ApiResponse> {
+    const response = await api.get(`/v2/leads/${id}/activities`);
+    return response.data;
+  }
+
+  static async logActivity(id: string, data: {
+    type: 'call' | 'message' | 'visit' | 'note';
+    outcome?: string;
+    notes?: string;
+    occurredAt?: string;
+    nextFollowUpDate?: string | null;
+  }): Promise<ApiResponse> {
+    const response = await api.post(`/v2/leads/${id}/activities`, data);
+    return response.data;
+  }
+
   static async updateStatus(id: string, status: string): Promise<ApiResponse> {
     const response = await api.patch(`/v2/leads/${id}/status`, { status });
     return response.data;
@@ -1059,6 +1657,7 @@ export class AdminLeadsAPI {
     createFirstFeeRecord?: boolean;
     firstMonthFee?: number;
     firstMonthDueDate?: string;
+    waitlistIfFull?: boolean;
   }): Promise<ApiResponse> {
     const response = await api.post(`/v2/leads/${id}/convert`, data);
     return response.data;
@@ -0,0 +1,112 @@
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
+
+export interface ClassSession {
+  id: string;
+  batchId: string;
+  courseId: string;
+  stageNumber: number;
+  levelNumber: number;
+  sessionDate: string;
+  startTime: string;
+  status: 'scheduled' | 'held' | 'cancelled';
+  cancelReason?: string;
+  notes?: string;
+}
+
+export interface RosterEntry {
+  studentId: string;
+  enrollmentId: string;
+  studentName: string;
+  studentCode?: string;
+  /** Set for make-up guests booked in from another batch. */
+  makeupCreditId?: string;
+  status: AttendanceStatus | null;
+  note?: string;
+  markedAt?: string;
+}
+
+export interface AttendanceCounts {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  total: number;
+  /** (present + late) / (present + late + absent), whole percent; null when nothing countable. */
+  percentage: number | null;
+  lowAttendance: boolean;
+}
+
+export interface MonthlyAttendance extends AttendanceCounts {
+  month: string;
+}
+
+export interface StudentAttendanceRecord {
+  id: string;
+  sessionId: string;
+  sessionDate: string;
+  startTime?: string;
+  batchId: string;
+  batchName?: string;
+  batchCode?: string;
+  status: AttendanceStatus;
+  note?: string;
+}
+
+export interface StudentAttendance {
+  records: StudentAttendanceRecord[];
+  monthly: MonthlyAttendance[];
+  overall: AttendanceCounts;
+}
+
+export interface BatchAttendanceStudent extends AttendanceCounts {
+  studentId: string;
+  studentName: string;
+  studentCode?: string;
+  marks: Record<string, AttendanceStatus>;
+}
+
+export interface BatchAttendance {
+  month: string;
+  sessions: ClassSession[];
+  students: BatchAttendanceStudent[];
+}
+
+export type MakeupStatus = 'available' | 'booked' | 'used' | 'expired' | 'revoked';
+
+export interface MakeupCredit {
+  id: string;
+  studentId: string;
+  source: 'cancelled_session' | 'excused_absence';
+  sourceSessionId: string;
+  sourceBatchId: string;
+  sourceBatchName?: string;
+  sourceSessionDate: string;
+  expiresAt: string;
+  status: MakeupStatus;
+  statusReason?: string;
+  booking: {
+    sessionId: string;
+    batchId: string;
+    batchName?: string;
+    sessionDate: string;
+    bookedAt: string;
+  } | null;
+  usedAt?: string;
+}
+
+export interface StudentMakeups {
+  outstanding: number;
+  credits: MakeupCredit[];
+}
+
+export interface MakeupOption {
+  sessionId: string;
+  batchId: string;
+  batchName: string;
+  batchCode: string;
+  sessionDate: string;
+  startTime: string;
+  seatsTaken: number;
+  maxStudents: number | null;
+  full: boolean;
+}
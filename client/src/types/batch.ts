@@ -24,11 +24,39 @@ export interface Batch {
     email: string;
   };
   currentStudentCount?: number;
+  waitlistCount?: number;
   isAvailable?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BatchWaitlistEntry {
+  id: string;
+  batchId: string;
+  studentId: string;
+  studentName: string;
+  status: 'waiting' | 'promoted' | 'removed';
+  note?: string;
+  seatAvailableAt: string | null;
+  addedBy?: { name: string; email: string } | string;
+  position: number;
+  createdAt: string;
+}
+
+// A free seat in a batch and the waiting student it should go to.
+export interface SeatOffer {
+  entryId: string;
+  batchId: string;
+  batchName: string;
+  batchCode?: string;
+  freeSeats: number | null;
+  studentId: string;
+  studentName: string;
+  position: number;
+  waitingSince: string;
+  seatAvailableAt: string | null;
+}
+
 export interface CreateBatchData {
   batchName: string;
   batchCode: string;
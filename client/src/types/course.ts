@@ -14,6 +14,27 @@ export interface CourseStage {
   levels: CourseLevel[];
 }
 
+export type ProRationMethod = 'none' | 'days' | 'sessions' | 'cutoff';
+
+export interface ProRationPolicy {
+  method: ProRationMethod;
+  cutoffDay: number;
+}
+
+export interface LateFeePolicy {
+  enabled: boolean;
+  type: 'flat' | 'percentage';
+  value: number;
+  graceDays: number;
+  capPerInvoice: number | null;
+}
+
+export interface MakeupPolicy {
+  enabled: boolean;
+  expiryDays: number;
+  excusedAbsences: boolean;
+}
+
 export interface Course {
   _id?: string;
   id?: string;
@@ -24,6 +45,9 @@ export interface Course {
   displayOrder: number;
   stages?: CourseStage[];
   levels: CourseLevel[];
+  proRationPolicy?: ProRationPolicy;
+  lateFeePolicy?: LateFeePolicy;
+  makeupPolicy?: MakeupPolicy;
   numberOfLevels?: number;
   numberOfStages?: number;
   createdBy: string;
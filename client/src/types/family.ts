@@ -0,0 +1,52 @@
+export interface SiblingDiscount {
+  enabled: boolean;
+  type: 'percentage' | 'fixed';
+  value: number;
+  reason: string;
+}
+
+export interface FamilyMember {
+  _id: string;
+  id?: string;
+  studentName: string;
+  studentCode: string;
+  isActive: boolean;
+  creditBalance: number;
+  balanceDue?: number;
+}
+
+export interface Family {
+  _id: string;
+  id?: string;
+  familyName: string;
+  guardianName?: string;
+  phone?: string;
+  email?: string;
+  alternatePhone?: string;
+  address?: string;
+  notes?: string;
+  siblingDiscount: SiblingDiscount;
+  members: FamilyMember[];
+  balanceDue: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FamilyFormData = Pick<Family, 'familyName' | 'guardianName' | 'phone' | 'email' | 'alternatePhone' | 'address' | 'notes'> & {
+  siblingDiscount?: Partial<SiblingDiscount>;
+};
+
+export interface FamilyPaymentShare {
+  studentId: string;
+  studentName: string;
+  amount: number;
+  paymentTransactionId: string | null;
+  creditUsed: number;
+  creditAdded: number;
+}
+
+export interface FamilyPaymentResult {
+  familyPaymentId: string;
+  amount: number;
+  shares: FamilyPaymentShare[];
+}
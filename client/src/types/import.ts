@@ -0,0 +1,170 @@
+export type ImportIssueSeverity = 'warning' | 'error';
+
+export interface ImportIssue {
+  rowNumber?: number;
+  severity: ImportIssueSeverity;
+  code: string;
+  message: string;
+  rawName?: string;
+}
+
+export interface ImportPreviewStudent {
+  rowNumber: number;
+  name: string;
+  phone?: string;
+  email?: string;
+  courseName: string;
+  stageNumber: number;
+  levelNumber: number;
+  batchCode?: string;
+  startDate: string;
+  discontinued: boolean;
+  invoices: number;
+  payments: number;
+  credits: number;
+}
+
+export interface ImportPreviewBatch {
+  batchCode: string;
+  batchName: string;
+  courseName: string;
+  stageNumber: number;
+  levelNumber: number;
+  status: 'active' | 'draft';
+  startDate?: string;
+  students: number;
+  exists: boolean;
+}
+
+export interface ImportDiff {
+  field: 'level' | 'batch' | 'payment' | 'credit';
+  from?: string;
+  to: string;
+}
+
+// A row matched to an existing student by an incremental import.
+export interface ImportChange {
+  rowNumber: number;
+  studentId: string;
+  studentName: string;
+  matchedBy: 'studentCode' | 'phone' | 'email';
+  diffs: ImportDiff[];
+}
+
+// For a dry-run the created* counts are what applying it would create.
+interface ImportRunBase {
+  id: string;
+  fileName: string;
+  mode: 'dry-run' | 'apply';
+  incremental: boolean;
+  profileName?: string;
+  status: 'running' | 'completed' | 'failed';
+  totalRows: number;
+  createdStudents: number;
+  createdBatches: number;
+  createdEnrollments: number;
+  createdInvoices: number;
+  createdPayments: number;
+  createdCredits: number;
+  skippedRows: number;
+  matchedStudents: number;
+  updatedStudents: number;
+  levelChanges: number;
+  batchChanges: number;
+  sheetName?: string;
+  dryRunId?: string;
+  appliedRunId?: string;
+  appliedAt?: string;
+  recordsTagged?: boolean;
+  rolledBackAt?: string;
+  rollback?: ImportRollbackCounts;
+  startedBy?: { name: string; email: string };
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface ImportRunSummary extends ImportRunBase {
+  issueCounts: Record<ImportIssueSeverity, number>;
+}
+
+export interface ImportRunDetail extends ImportRunBase {
+  preview?: { students: ImportPreviewStudent[]; batches: ImportPreviewBatch[]; changes: ImportChange[] };
+  issues: ImportIssue[];
+  totalIssues: number;
+  issueCodes: { code: string; severity: ImportIssueSeverity; count: number }[];
+}
+
+export interface ImportRollbackCounts {
+  students: number;
+  batches: number;
+  enrollments: number;
+  invoices: number;
+  payments: number;
+  reversedPayments: number;   // payments to students who existed before the import
+  allocations: number;
+  creditEntries: number;
+}
+
+export interface ImportRollbackBlocker {
+  code: 'lifecycle_changes' | 'student_records' | 'batch_records' | 'credit_spent';
+  message: string;
+  count: number;
+}
+
+export interface ImportRollbackPlan {
+  importRunId: string;
+  counts: ImportRollbackCounts;
+  blockers: ImportRollbackBlocker[];
+}
+
+// What the upload and apply endpoints return.
+export interface ImportResult {
+  importRunId?: string;
+  mode: 'dry-run' | 'apply';
+  createdStudents: number;
+  updatedStudents: number;
+  skippedRows: number;
+  issues: ImportIssue[];
+}
+
+export type ImportProfileField =
+  | 'studentCode'
+  | 'name'
+  | 'phone'
+  | 'email'
+  | 'status'
+  | 'studentStartDate'
+  | 'level'
+  | 'duration'
+  | 'batch'
+  | 'timing'
+  | 'batchStartDate';
+
+export type ImportDateFormat = 'DMY' | 'MDY' | 'YMD';
+
+// A level-column code (followed by the level number, e.g. B2) and where it imports to.
+export interface ImportLevelCode {
+  code: string;
+  courseName: string;
+  stageNumber: number;
+  stageName: string;
+  levelFees: number[];   // used only if the course has to be created
+}
+
+export interface ImportProfileFormData {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  columns: Record<ImportProfileField, string[]>;
+  levelCodes: ImportLevelCode[];
+  dateFormat: ImportDateFormat;
+  paymentColumns: { dueDate: string; status: string; paidDate: string };
+}
+
+export interface ImportProfile extends ImportProfileFormData {
+  id: string;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -19,7 +19,7 @@ export interface Lead {
   status: LeadStatus;
   notes?: string;
   followUpDate?: string | null;
-  assignedTo?: string | null;
+  assignedTo?: string | LeadAssignee | null;
   convertedStudentId?: string | { _id: string; studentName?: string; studentCode?: string } | null;
   convertedAt?: string | null;
   createdBy: string;
@@ -35,6 +35,98 @@ export interface LeadFilters {
   source?: LeadSource | 'all';
   followUpFrom?: string;
   followUpTo?: string;
+  /** 'me', 'unassigned' or an admin's id. */
+  assignedTo?: string;
+}
+
+export interface LeadAssignee {
+  _id?: string;
+  id?: string;
+  name: string;
+  email?: string;
+}
+
+export type LeadActivityType = 'call' | 'message' | 'visit' | 'note' | 'status_change' | 'assignment';
+export type LeadActivityOutcome = 'connected' | 'no_answer' | 'interested' | 'call_back' | 'not_interested';
+/** Activity types an admin logs by hand; the rest are written by the server. */
+export type LoggableLeadActivityType = 'call' | 'message' | 'visit' | 'note';
+
+export interface LeadActivity {
+  id: string;
+  leadId: string;
+  type: LeadActivityType;
+  outcome?: LeadActivityOutcome | null;
+  notes?: string;
+  fromStatus?: LeadStatus | null;
+  toStatus?: LeadStatus | null;
+  assignedTo?: LeadAssignee | null;
+  nextFollowUpDate?: string | null;
+  author?: LeadAssignee | null;
+  occurredAt: string;
+  createdAt: string;
+}
+
+/** A lead on the follow-up worklist, with its most recent logged activity. */
+export interface FollowUpLead extends Lead {
+  overdue: boolean;
+  lastActivity: Pick<LeadActivity, 'type' | 'outcome' | 'notes' | 'occurredAt'> | null;
+}
+
+/** One row of the funnel report: a source, a month (YYYY-MM) or a course. */
+export interface LeadFunnelRow {
+  key: string;
+  label: string;
+  total: number;
+  counts: Record<LeadStatus, number>;
+  converted: number;
+  conversionRate: number;
+  medianDaysToConvert: number | null;
+  revenueFirst3Months: number;
+  revenueFirst6Months: number;
+}
+
+export interface LeadFunnelReport {
+  from: string | null;
+  to: string | null;
+  totals: LeadFunnelRow;
+  bySource: LeadFunnelRow[];
+  byMonth: LeadFunnelRow[];
+  byCourse: LeadFunnelRow[];
+}
+
+export const LEAD_ACTIVITY_TYPE_LABELS: Record<LeadActivityType, string> = {
+  call: 'Call',
+  message: 'Message',
+  visit: 'Visit',
+  note: 'Note',
+  status_change: 'Status change',
+  assignment: 'Assignment',
+};
+
+export const LEAD_ACTIVITY_OUTCOME_LABELS: Record<LeadActivityOutcome, string> = {
+  connected: 'Connected',
+  no_answer: 'No answer',
+  interested: 'Interested',
+  call_back: 'Call back',
+  not_interested: 'Not interested',
+};
+
+/** Days until the next follow-up the server schedules for each outcome (null clears it). */
+export const LEAD_FOLLOW_UP_AFTER_DAYS: Record<LeadActivityOutcome, number | null> = {
+  no_answer: 1,
+  call_back: 2,
+  interested: 3,
+  connected: 7,
+  not_interested: null,
+};
+
+export const LOGGABLE_LEAD_ACTIVITY_TYPES: LoggableLeadActivityType[] = ['call', 'message', 'visit', 'note'];
+export const ALL_LEAD_ACTIVITY_OUTCOMES: LeadActivityOutcome[] = ['connected', 'no_answer', 'interested', 'call_back', 'not_interested'];
+
+/** Display name of a lead's assignee, whether populated or a bare id. */
+export function leadAssigneeName(assignedTo: Lead['assignedTo']): string | null {
+  if (!assignedTo) return null;
+  return typeof assignedTo === 'string' ? null : assignedTo.name;
 }
 
 export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
@@ -0,0 +1,67 @@
+export interface PortalScheduleEntry {
+  dayOfWeek: number;
+  startTime: string;
+}
+
+export interface PortalEnrollment {
+  id: string;
+  courseName: string | null;
+  stageNumber: number;
+  stageName: string | null;
+  levelNumber: number;
+  batch: { _id: string; batchName: string; schedule: PortalScheduleEntry[]; status: string } | null;
+}
+
+export interface PortalStudent {
+  id: string;
+  studentName: string;
+  studentCode: string;
+  isActive: boolean;
+  enrollmentDate?: string;
+  courseId: { _id: string; displayName: string } | null;
+  stageNumber?: number;
+  stageName?: string | null;
+  levelNumber?: number;
+  batchId: { _id: string; batchName: string; schedule: PortalScheduleEntry[]; status: string } | null;
+  activeEnrollments: PortalEnrollment[]; // every course the student is in
+  creditBalance: number;
+  balanceDue: number;
+}
+
+export interface PortalInvoice {
+  id: string;
+  invoiceMonth: string;
+  dueDate: string;
+  amount: number;
+  allocatedAmount: number;
+  waivedAmount: number;
+  balanceDue: number;
+  kind?: 'tuition' | 'late_fee';
+  status: 'paid' | 'partially_paid' | 'overdue' | 'upcoming' | 'void';
+}
+
+export interface PortalPayment {
+  _id: string;
+  amount: number;
+  paymentDate: string;
+  paymentMethod: string;
+  transactionId?: string;
+  receiptNumber?: string;
+  isReversed?: boolean;
+}
+
+export interface PortalCreditEntry {
+  _id: string;
+  type: 'credit_added' | 'credit_used' | 'credit_refund' | 'credit_adjustment';
+  amount: number;
+  balanceAfter: number;
+  description: string;
+  processedAt: string;
+}
+
+export interface PortalAccessUser {
+  _id: string;
+  name: string;
+  email?: string;
+  isActive: boolean;
+}
@@ -0,0 +1,63 @@
+export type StatementLineStatus = 'matched' | 'mismatch' | 'unmatched' | 'ignored';
+export type StatementMatchType = 'transaction_id' | 'amount_date' | 'created';
+
+export interface ReconciledPayment {
+  _id: string;
+  studentId: string;
+  studentName: string;
+  amount: number;
+  paymentDate: string;
+  paymentMethod: string;
+  transactionId?: string;
+  receiptNumber?: string;
+  familyPaymentId?: string | null;
+  isReversed?: boolean;
+}
+
+export interface StatementLine {
+  id: string;
+  lineNumber: number;
+  txnDate: string;
+  amount: number;
+  reference?: string;
+  description?: string;
+  status: StatementLineStatus;
+  matchType?: StatementMatchType | null;
+  note?: string;
+  payments: ReconciledPayment[];
+}
+
+export interface BankStatementSummary {
+  id: string;
+  fileName: string;
+  periodFrom: string;
+  periodTo: string;
+  dateWindowDays: number;
+  skippedRows: number;
+  uploadedBy?: { _id: string; name: string } | null;
+  createdAt: string;
+  lineCount: number;
+  counts: Record<StatementLineStatus, number>;
+}
+
+export interface ReconciliationReport {
+  statement: Omit<BankStatementSummary, 'lineCount' | 'counts'>;
+  summary: Record<StatementLineStatus, number> & {
+    lines: number;
+    unmatchedInLms: number;
+    bankTotal: number;
+    matchedTotal: number;
+    unmatchedTotal: number;
+    unmatchedInLmsTotal: number;
+  };
+  lines: StatementLine[];
+  unmatchedInLms: ReconciledPayment[];
+}
+
+export interface StatementUploadOptions {
+  windowDays?: number;
+  dateColumn?: string;
+  amountColumn?: string;
+  referenceColumn?: string;
+  descriptionColumn?: string;
+}
@@ -0,0 +1,102 @@
+export type ReminderStatus = 'sent' | 'link_generated' | 'failed';
+export type ReminderSkipReason = 'recent' | 'no_contact';
+
+export interface ReminderChannelInfo {
+  name: string;
+  label: string;
+  available: boolean;
+  unavailableReason: string | null;
+}
+
+export interface ReminderTemplate {
+  id: string;
+  name: string;
+  subject?: string;
+  body: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReminderTemplateList {
+  templates: ReminderTemplate[];
+  defaultTemplate: { name: string; subject: string; body: string };
+  placeholders: string[];
+}
+
+export interface ReminderTemplateFormData {
+  name: string;
+  subject?: string;
+  body: string;
+}
+
+export interface ReminderCampaignFilters {
+  courseId?: string;
+  stageNumber?: number;
+  levelNumber?: number;
+  batchId?: string;
+  minBalance?: number;
+}
+
+export interface ReminderCampaignRequest {
+  channel: string;
+  templateId?: string;
+  filters?: ReminderCampaignFilters;
+  cooldownDays?: number;
+}
+
+export interface ReminderPreviewRecipient {
+  studentId: string;
+  studentName: string;
+  recipient: string | null;
+  balanceDue: number;
+  monthsDue: string[];
+  lastRemindedAt: string | null;
+  skip: ReminderSkipReason | null;
+  message: string;
+}
+
+export interface ReminderPreview {
+  template: { id: string | null; name: string };
+  channel: string;
+  recipients: ReminderPreviewRecipient[];
+}
+
+export interface ReminderLog {
+  id: string;
+  studentId: string | { id: string; studentName: string; studentCode?: string };
+  campaignId?: string | null;
+  channel: string;
+  recipient: string;
+  subject?: string;
+  message: string;
+  link?: string;
+  status: ReminderStatus;
+  error?: string;
+  balanceDue: number;
+  monthsDue: string[];
+  sentBy?: string | { name?: string; email?: string };
+  sentAt: string;
+}
+
+export interface ReminderCampaign {
+  id: string;
+  templateName: string;
+  channel: string;
+  filters: ReminderCampaignFilters;
+  cooldownDays: number;
+  targeted: number;
+  sent: number;
+  linksGenerated: number;
+  failed: number;
+  skippedRecent: number;
+  skippedNoContact: number;
+  createdBy?: { name?: string; email?: string };
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface ReminderCampaignResult {
+  campaign: ReminderCampaign;
+  logs: ReminderLog[];
+}
@@ -0,0 +1,78 @@
+export type ReportFormat = 'csv' | 'xlsx';
+
+// Lists with a full server-side export (GET /v2/exports/:entity)
+export type ExportEntity = 'students' | 'invoices' | 'payments' | 'leads';
+
+export interface RevenueMonth {
+  /** YYYY-MM */
+  month: string;
+  billed: number;
+  billedLateFees: number;
+  voided: number;
+  collectedCash: number;
+  collectedCredit: number;
+  collected: number;
+  waivedManual: number;
+  waivedDiscount: number;
+  waived: number;
+  outstanding: number;
+}
+
+export interface RevenueDelta {
+  change: number;
+  /** null when the earlier month was 0 */
+  pct: number | null;
+}
+
+export type RevenueDeltaMetric = 'billed' | 'collected' | 'collectedCash' | 'waived' | 'outstanding';
+
+export interface RevenueReportRow extends RevenueMonth {
+  monthOverMonth: Record<RevenueDeltaMetric, RevenueDelta>;
+  yearOverYear: Record<RevenueDeltaMetric, RevenueDelta>;
+}
+
+export interface RevenueReport {
+  from: string;
+  to: string;
+  months: RevenueReportRow[];
+  totals: Omit<RevenueMonth, 'month'>;
+}
+
+export type AgeingBucket = 'current' | 'd0_30' | 'd31_60' | 'd61_90' | 'd90_plus';
+export type AgeingView = 'student' | 'batch' | 'stage';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string }[] = [
+  { key: 'current', label: 'Not yet due' },
+  { key: 'd0_30', label: '0–30 days' },
+  { key: 'd31_60', label: '31–60 days' },
+  { key: 'd61_90', label: '61–90 days' },
+  { key: 'd90_plus', label: '90+ days' },
+];
+
+export type AgeingAmounts = Record<AgeingBucket, number> & { total: number };
+
+export interface AgeingStudentRow extends AgeingAmounts {
+  studentId: string;
+  studentName: string;
+  studentCode?: string;
+  isActive: boolean;
+  invoiceCount: number;
+  oldestDueDate: string;
+  creditBalance: number;
+  /** total less credit on account, never below 0 */
+  net: number;
+}
+
+export interface AgeingGroupRow extends AgeingAmounts {
+  key: string;
+  label: string;
+  students: number;
+}
+
+export interface AgeingReport {
+  asOf: string;
+  totals: AgeingAmounts & { creditApplied: number; net: number };
+  byStudent: AgeingStudentRow[];
+  byBatch: AgeingGroupRow[];
+  byStage: AgeingGroupRow[];
+}
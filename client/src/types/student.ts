@@ -1,7 +1,18 @@
+/** One of a student's active enrollments, as the student list returns them. */
+export interface StudentCourseSummary {
+  id: string;
+  courseName?: string;
+  stageNumber: number;
+  stageName?: string;
+  levelNumber: number;
+  batchName: string | null;
+}
+
 export interface Student {
   _id: string;
   studentCode: string; // Unique system-generated identifier
   userId?: string; // Reference to User (guardian account) - can be shared by siblings
+  familyId?: string | null; // Family (sibling group) with shared contacts and billing
   studentName: string;
   dob?: string;
   parentName?: string;
@@ -22,6 +33,7 @@ export interface Student {
   batch?: string;
   batchId?: string | { _id?: string; id?: string; batchName?: string; batchCode?: string } | null;
   currentEnrollmentId?: string | null;
+  activeEnrollments?: StudentCourseSummary[]; // every course the student is in (list view)
   creditBalance?: number;
   referredBy?: string;
   emailId?: string;
@@ -66,6 +78,7 @@ export interface StudentFilters {
   search?: string;
   stage?: string; // Course name (maps to course.courseName)
   isActive?: boolean; // Filter by active/inactive status
+  ids?: string[]; // Only these students (e.g. the selected rows)
 }
 
 export interface FeeRecord {
@@ -94,6 +107,7 @@ export interface FeeRecord {
   paymentDate?: string;
   paymentMethod?: 'cash' | 'online' | 'card' | 'upi' | 'other';
   transactionId?: string;
+  paymentTransactionId?: string;
   paymentScreenshot?: string;
   remarks?: string;
   updatedBy?: string;
@@ -104,6 +118,25 @@ export interface FeeRecord {
   paymentPercentage?: number;
 }
 
+/** Tuition totals for one slice of the course → stage → level breakdown. */
+export interface FeeBreakdownTotals {
+  collected: number;
+  outstanding: number;
+  overdue: number;
+  students: number;
+  paidStudents: number;
+}
+
+export interface CourseFeeBreakdown extends FeeBreakdownTotals {
+  courseId: string;
+  courseName: string;
+  stages: Array<FeeBreakdownTotals & {
+    stageNumber: number;
+    stageName: string;
+    levels: Array<FeeBreakdownTotals & { levelNumber: number }>;
+  }>;
+}
+
 export interface FeeStats {
   totalCollected: number;
   totalUpcoming: number;
@@ -114,11 +147,10 @@ export interface FeeStats {
   upcomingStudents: number;
   overdueStudentsCount: number;
   partiallyPaidStudents: number;
-  stageBreakdown: {
-    beginner: { collected: number; upcoming: number; overdue: number; students: number; paidStudents: number };
-    intermediate: { collected: number; upcoming: number; overdue: number; students: number; paidStudents: number };
-    advanced: { collected: number; upcoming: number; overdue: number; students: number; paidStudents: number };
-  };
+  lateFees: { assessed: number; collected: number; waived: number; outstanding: number };
+  credits: { onAccount: number; refunded: number; refundCount: number; pendingRefunds: number; pendingRefundCount: number };
+  pendingRefunds: CreditRefund[];
+  courseBreakdown: CourseFeeBreakdown[];
   recentPayments: Array<{
     _id: string;
     studentId: string;
@@ -179,3 +211,89 @@ export interface CreditSummary {
   totalUsed: number;
   totalRemaining: number;
 }
+
+/** A paused student whose pausedUntil has passed without a resume. */
+export interface PauseExpiredEntry {
+  studentId: string;
+  studentName: string;
+  studentCode?: string;
+  pausedEnrollmentId: string;
+  pausedOn: string;
+  pausedUntil: string;
+  stageNumber: number;
+  levelNumber: number;
+  batch: { id: string; batchName: string; status: string } | null;
+  flaggedAt: string | null;
+  code: string | null;
+  message: string | null;
+}
+
+export interface PauseExpiryRunSummary {
+  mode: 'dry-run' | 'apply';
+  action: 'resume' | 'flag';
+  asOf: string;
+  totalExpired: number;
+  resumedCount: number;
+  resumedWithoutBatchCount: number;
+  flaggedCount: number;
+  skippedCount: number;
+}
+
+export type StatementEntryType =
+  | 'invoice'
+  | 'late_fee'
+  | 'invoice_void'
+  | 'payment'
+  | 'payment_reversal'
+  | 'waiver'
+  | 'waiver_reversal'
+  | 'credit_applied'
+  | 'refund'
+  | 'credit_adjustment';
+
+/** One line of a student account statement; balance is what the student owes after it (negative = in credit). */
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  description: string;
+  reference?: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  invoiceId?: string;
+  paymentTransactionId?: string;
+}
+
+export interface StudentStatement {
+  student: { id: string; studentName: string; studentCode?: string; parentName?: string; phone?: string; email?: string };
+  from: string | null;
+  to: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+  generatedAt: string;
+}
+
+export type RefundMethod = 'cash' | 'online' | 'card' | 'upi' | 'other';
+
+/** Credit balance paid back to a parent; large ones wait for superadmin approval. */
+export interface CreditRefund {
+  id: string;
+  studentId: string;
+  studentName: string;
+  amount: number;
+  paymentMethod: RefundMethod;
+  reference?: string;
+  refundDate: string;
+  reason: string;
+  status: 'pending' | 'completed' | 'rejected';
+  requestedBy?: { name?: string; email?: string } | null;
+  approvedBy?: { name?: string; email?: string } | null;
+  approvedAt?: string;
+  rejectedBy?: { name?: string; email?: string } | null;
+  rejectedAt?: string;
+  rejectionReason?: string;
+  createdAt: string;
+}
@@ -1,5 +1,6 @@
 /**
- * WhatsApp utility functions for sending reminders
+ * WhatsApp phone helpers. Reminder messages are rendered by the server
+ * (AdminRemindersAPI) so they are templated and logged.
  */
 
 /**
@@ -30,29 +31,6 @@ export const formatPhoneForWhatsApp = (phone: string | undefined, countryCode: s
   return cleanPhone;
 };
 
-/**
- * Generate WhatsApp message for fee reminder
- * @param studentName - Name of the student
- * @param instituteName - Name of the institute (optional)
- * @returns Pre-formatted message text
- */
-export const generateFeeReminderMessage = (
-  studentName: string,
-  instituteName: string = 'Chess Klub'
-): string => {
-  const message = `Hello ${studentName},
-
-This is a gentle reminder about your pending fee payment at ${instituteName}.
-
-We request you to kindly make the payment at your earliest convenience to avoid any interruption in your classes.
-
-For any queries or assistance regarding payment, please feel free to contact us.
-
-Thank you for your cooperation!`;
-
-  return message;
-};
-
 /**
  * Generate WhatsApp URL with pre-filled message
  * @param phone - Phone number (will be formatted automatically)
@@ -71,28 +49,6 @@ export const generateWhatsAppURL = (phone: string | undefined, message: string):
   return `https://wa.me/${formattedPhone}?text=${encodedMessage}`;
 };
 
-/**
- * Send WhatsApp fee reminder
- * @param studentName - Name of the student
- * @param phone - Phone number
- * @param instituteName - Name of the institute (optional)
- * @returns Opens WhatsApp with pre-filled message or returns null if phone is invalid
- */
-export const sendWhatsAppReminder = (
-  studentName: string,
-  phone: string | undefined,
-  instituteName?: string
-): void => {
-  const message = generateFeeReminderMessage(studentName, instituteName);
-  const url = generateWhatsAppURL(phone, message);
-  
-  if (url) {
-    window.open(url, '_blank');
-  } else {
-    console.error('Invalid phone number for WhatsApp');
-  }
-};
-
 /**
  * Check if phone number is valid for WhatsApp
  * @param phone - Phone number to validate
@@ -38,6 +38,27 @@ export const config = {
     emailSyncInterval: parseInt(process.env.EMAIL_SYNC_INTERVAL || '300000', 10), // 5 minutes default
     senderEmail: process.env.SENDER_EMAIL || 'rrnagar@chessklub.net',
     
+    // Printed on invoice and receipt PDFs
+    organizationName: process.env.ORG_NAME || 'Chess Klub',
+    organizationAddress: process.env.ORG_ADDRESS || '',
+
+    // SMTP for emailed fee reminders (the email channel is off until host is set)
+    smtpHost: process.env.SMTP_HOST || '',
+    smtpPort: parseInt(process.env.SMTP_PORT || '587', 10),
+    smtpSecure: process.env.SMTP_SECURE === 'true',
+    smtpUser: process.env.SMTP_USER || '',
+    smtpPass: process.env.SMTP_PASS || '',
+    smtpFrom: process.env.SMTP_FROM || process.env.SENDER_EMAIL || '',
+    // File the 'log' reminder channel appends to; console when unset
+    reminderLogFile: process.env.REMINDER_LOG_FILE || '',
+
+    // What the pause-expiry cron does with expired pauses: 'resume' them
+    // automatically, or only 'flag' them on the admins' worklist
+    pauseExpiryAction: (process.env.PAUSE_EXPIRY_ACTION === 'flag' ? 'flag' : 'resume') as 'resume' | 'flag',
+
+    // Credit refunds above this amount (₹) wait for a superadmin to approve
+    refundApprovalThreshold: parseInt(process.env.REFUND_APPROVAL_THRESHOLD || '5000', 10),
+
     // Admin Configuration
     maxSuperAdmins: parseInt(process.env.MAX_SUPER_ADMINS || '3', 10) // Default: allow 3 superadmins
 } as const;
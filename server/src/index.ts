@@ -5,6 +5,8 @@ import morgan from 'morgan';
 import { config } from './config/index.js';
 import Database from './config/database.js';
 import authRoutes from './routes/auth.js';
+import cronRoutes from './routes/cron.js';
+import portalRoutes from './routes/portal.js';
 import { errorHandler, notFound } from './middleware/errorHandler.js';
 import { authenticate, authorize } from './middleware/auth.js';
 import adminDashboardRoutes from './routes/admin/dashboard.js';
@@ -14,6 +16,14 @@ import adminCoursesRoutes from './routes/admin/courses.js';
 import adminBatchesRoutes from './routes/admin/batches.js';
 import adminFeesRoutes from './routes/admin/fees.js';
 import adminLeadsRoutes from './routes/admin/leads.js';
+import adminReportsRoutes from './routes/admin/reports.js';
+import adminFamiliesRoutes from './routes/admin/families.js';
+import adminAttendanceRoutes from './routes/admin/attendance.js';
+import adminMakeupsRoutes from './routes/admin/makeups.js';
+import adminReconciliationRoutes from './routes/admin/reconciliation.js';
+import adminRemindersRoutes from './routes/admin/reminders.js';
+import adminImportsRoutes from './routes/admin/imports.js';
+import adminExportsRoutes from './routes/admin/exports.js';
 
 // Nest enrollment routes under students/:id/enrollments
 adminStudentsRoutes.use('/:id/enrollments', adminEnrollmentsRouter);
@@ -27,7 +37,9 @@ const allowedCorsOrigin = config.nodeEnv === 'production'
 app.use(helmet());
 app.use(cors({
   origin: allowedCorsOrigin,
-  credentials: true
+  credentials: true,
+  // Lets the client read the server-chosen filename on PDF downloads
+  exposedHeaders: ['Content-Disposition'],
 }));
 
 // Logging middleware
@@ -50,6 +62,10 @@ app.get('/health', (req, res) => {
 
 // API routes
 app.use('/api/auth', authRoutes);
+// Scheduled jobs (authenticated by X-Cron-API-Key, not a user token)
+app.use('/api/cron', cronRoutes);
+// Parent portal (role 'user'), scoped to the caller's linked students
+app.use('/api/portal', authenticate, authorize('user'), portalRoutes);
 // V2 admin routes (all require authentication)
 app.use('/api/v2/dashboard', authenticate, authorize('admin', 'superadmin'), adminDashboardRoutes);
 app.use('/api/v2/students', authenticate, authorize('admin', 'superadmin'), adminStudentsRoutes);
@@ -57,6 +73,15 @@ app.use('/api/v2/courses', authenticate, authorize('admin', 'superadmin'), admin
 app.use('/api/v2/batches', authenticate, authorize('admin', 'superadmin'), adminBatchesRoutes);
 app.use('/api/v2/fees', authenticate, authorize('admin', 'superadmin'), adminFeesRoutes);
 app.use('/api/v2/leads', authenticate, authorize('admin', 'superadmin'), adminLeadsRoutes);
+app.use('/api/v2/families', authenticate, authorize('admin', 'superadmin'), adminFamiliesRoutes);
+app.use('/api/v2/attendance', authenticate, authorize('admin', 'superadmin'), adminAttendanceRoutes);
+app.use('/api/v2/makeups', authenticate, authorize('admin', 'superadmin'), adminMakeupsRoutes);
+app.use('/api/v2/reconciliation', authenticate, authorize('admin', 'superadmin'), adminReconciliationRoutes);
+app.use('/api/v2/reminders', authenticate, authorize('admin', 'superadmin'), adminRemindersRoutes);
+app.use('/api/v2/reports', authenticate, authorize('admin', 'superadmin'), adminReportsRoutes);
+app.use('/api/v2/exports', authenticate, authorize('admin', 'superadmin'), adminExportsRoutes);
+// Workbook imports create students in bulk, so they are superadmin-only
+app.use('/api/v2/imports', authenticate, authorize('superadmin'), adminImportsRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
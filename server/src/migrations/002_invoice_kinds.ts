@@ -0,0 +1,72 @@
+/**
+ * MIGRATION: 002_invoice_kinds
+ *
+ * Prepares existing invoices for late fees, which are stored as Invoices with
+ * kind: 'late_fee' linked to the tuition invoice they penalise.
+ *
+ * Steps:
+ *   1. Backfill kind: 'tuition' on invoices created before the field existed
+ *   2. Drop the old unique_student_enrollment_invoice_month index, which would
+ *      reject a late fee for the same enrollment-month as its tuition invoice
+ *   3. Build the new indexes (unique_tuition_invoice_month, unique_live_late_fee)
+ *
+ * Step 1 must run before step 3: the new tuition index only covers documents
+ * that have kind: 'tuition'. Safe to re-run.
+ *
+ * Usage:
+ *   npm run migrate:invoice-kinds
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+dotenv.config();
+
+import Database from '../config/database.js';
+import Invoice from '../models/v2/Invoice.js';
+
+const LEGACY_INDEX = 'unique_student_enrollment_invoice_month';
+
+async function migrate() {
+  const db = Database.getInstance();
+  await db.connect();
+
+  try {
+    // ── Step 1: Backfill kind ────────────────────────────────────
+    console.log('\n── Step 1: Backfill invoice kind ──');
+    const backfill = await Invoice.updateMany(
+      { kind: { $exists: false } },
+      { $set: { kind: 'tuition', penaltyForInvoiceId: null, lateFee: null } },
+    );
+    console.log(`  Marked ${backfill.modifiedCount} invoices as tuition`);
+
+    // ── Step 2: Drop the legacy unique index ─────────────────────
+    console.log('\n── Step 2: Drop legacy index ──');
+    const collection = mongoose.connection.collection(Invoice.collection.name);
+    const indexes = await collection.indexes();
+    if (indexes.some((idx) => idx.name === LEGACY_INDEX)) {
+      await collection.dropIndex(LEGACY_INDEX);
+      console.log(`  Dropped ${LEGACY_INDEX}`);
+    } else {
+      console.log(`  ${LEGACY_INDEX} not present, nothing to drop`);
+    }
+
+    // ── Step 3: Build the new indexes ────────────────────────────
+    console.log('\n── Step 3: Sync indexes ──');
+    const dropped = await Invoice.syncIndexes();
+    if (dropped.length > 0) console.log(`  Removed stale indexes: ${dropped.join(', ')}`);
+    const finalIndexes = await collection.indexes();
+    finalIndexes.forEach((idx) => {
+      console.log(`   - ${idx.name}: ${JSON.stringify(idx.key)}${idx.unique ? ' (unique)' : ''}`);
+    });
+
+    console.log('\n✓ Migration completed successfully');
+  } catch (err) {
+    console.error('\n✗ Migration failed');
+    console.error(err);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+}
+
+migrate();
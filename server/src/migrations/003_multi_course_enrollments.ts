@@ -0,0 +1,62 @@
+/**
+ * MIGRATION: 003_multi_course_enrollments
+ *
+ * Lets a student hold concurrent enrollments in different courses.
+ *
+ * Steps:
+ *   1. Drop the old active_enrollment_per_student index, which allows only
+ *      one active enrollment per student across all courses
+ *   2. Build active_enrollment_per_student_course (one active enrollment per
+ *      student per course)
+ *
+ * Existing data already satisfies the new index. Safe to re-run.
+ *
+ * Usage:
+ *   npm run migrate:multi-course
+ */
+
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+dotenv.config();
+
+import Database from '../config/database.js';
+import Enrollment from '../models/v2/Enrollment.js';
+
+const LEGACY_INDEX = 'active_enrollment_per_student';
+
+async function migrate() {
+  const db = Database.getInstance();
+  await db.connect();
+
+  try {
+    // ── Step 1: Drop the legacy unique index ─────────────────────
+    console.log('\n── Step 1: Drop legacy index ──');
+    const collection = mongoose.connection.collection(Enrollment.collection.name);
+    const indexes = await collection.indexes();
+    if (indexes.some((idx) => idx.name === LEGACY_INDEX)) {
+      await collection.dropIndex(LEGACY_INDEX);
+      console.log(`  Dropped ${LEGACY_INDEX}`);
+    } else {
+      console.log(`  ${LEGACY_INDEX} not present, nothing to drop`);
+    }
+
+    // ── Step 2: Build the new indexes ────────────────────────────
+    console.log('\n── Step 2: Sync indexes ──');
+    const dropped = await Enrollment.syncIndexes();
+    if (dropped.length > 0) console.log(`  Removed stale indexes: ${dropped.join(', ')}`);
+    const finalIndexes = await collection.indexes();
+    finalIndexes.forEach((idx) => {
+      console.log(`   - ${idx.name}: ${JSON.stringify(idx.key)}${idx.unique ? ' (unique)' : ''}`);
+    });
+
+    console.log('\n✓ Migration completed successfully');
+  } catch (err) {
+    console.error('\n✗ Migration failed');
+    console.error(err);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+}
+
+migrate();
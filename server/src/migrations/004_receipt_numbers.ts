@@ -0,0 +1,53 @@
+/**
+ * MIGRATION: 004_receipt_numbers
+ *
+ * Gives a receipt number to every payment recorded before receipts were
+ * introduced, so receipt downloads never have to number a payment.
+ *
+ * Steps:
+ *   1. Number unnumbered payments in payment-date order, each from its
+ *      payment date's financial year
+ *
+ * Already numbered payments are left alone. Safe to re-run.
+ *
+ * Usage:
+ *   npm run migrate:receipt-numbers
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import Database from '../config/database.js';
+import PaymentTransaction from '../models/v2/PaymentTransaction.js';
+import { assignMissingReceiptNumber } from '../services/v2/feeService.js';
+
+async function migrate() {
+  const db = Database.getInstance();
+  await db.connect();
+
+  try {
+    // ── Step 1: Number older payments ────────────────────────────
+    console.log('\n── Step 1: Assign missing receipt numbers ──');
+    const unnumbered = await PaymentTransaction.find({ receiptNumber: { $not: { $type: 'string' } } })
+      .sort({ paymentDate: 1, createdAt: 1 })
+      .select('_id')
+      .lean();
+    let assigned = 0;
+    for (const { _id } of unnumbered) {
+      const payment = await assignMissingReceiptNumber(_id.toString());
+      assigned += 1;
+      if (assigned % 500 === 0) console.log(`  ${assigned}/${unnumbered.length} (last: ${payment.receiptNumber})`);
+    }
+    console.log(`  Numbered ${assigned} payments`);
+
+    console.log('\n✓ Migration completed successfully');
+  } catch (err) {
+    console.error('\n✗ Migration failed');
+    console.error(err);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+}
+
+migrate();
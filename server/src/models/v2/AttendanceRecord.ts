@@ -0,0 +1,67 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * AttendanceRecord — one student's attendance at one ClassSession.
+ *
+ * enrollmentId is the Enrollment that placed the student in the batch on the
+ * session date (the roster is derived from Enrollment rows, not
+ * StudentV2.batchId, so past sessions keep the roster they had).
+ * batchId and sessionDate are denormalised from the session for per-student
+ * and per-batch history queries. makeupCreditId is set when the student
+ * attended as a make-up guest rather than a regular member of the batch.
+ */
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
+
+export interface IAttendanceRecord extends Document {
+  sessionId: Types.ObjectId;
+  batchId: Types.ObjectId;
+  studentId: Types.ObjectId;
+  enrollmentId: Types.ObjectId;
+  makeupCreditId: Types.ObjectId | null;
+  sessionDate: Date;
+  status: AttendanceStatus;
+  note?: string;
+  markedBy: Types.ObjectId;
+  markedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AttendanceRecordSchema = new Schema<IAttendanceRecord>(
+  {
+    sessionId: { type: Schema.Types.ObjectId, ref: 'ClassSession', required: true },
+    batchId: { type: Schema.Types.ObjectId, ref: 'Batch', required: true },
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true },
+    enrollmentId: { type: Schema.Types.ObjectId, ref: 'Enrollment', required: true },
+    makeupCreditId: { type: Schema.Types.ObjectId, ref: 'MakeupCredit', default: null },
+    sessionDate: { type: Date, required: true },
+    status: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['present', 'absent', 'late', 'excused'],
+        message: 'status must be one of: present, absent, late, excused',
+      },
+    },
+    note: { type: String, trim: true, maxlength: 500 },
+    markedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    markedAt: { type: Date, required: true },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+AttendanceRecordSchema.index({ sessionId: 1, studentId: 1 }, { unique: true });
+AttendanceRecordSchema.index({ studentId: 1, sessionDate: -1 });
+AttendanceRecordSchema.index({ batchId: 1, sessionDate: -1 });
+
+AttendanceRecordSchema.set('toJSON', {
+  virtuals: true,
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const AttendanceRecord = mongoose.model<IAttendanceRecord>('AttendanceRecord', AttendanceRecordSchema);
+export default AttendanceRecord;
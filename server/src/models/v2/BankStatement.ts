@@ -0,0 +1,82 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+export type StatementLineStatus = 'matched' | 'mismatch' | 'unmatched' | 'ignored';
+// transaction_id: reference matched a payment's transactionId; amount_date:
+// same amount within the date window; created: payment recorded from the line.
+export type StatementMatchType = 'transaction_id' | 'amount_date' | 'created';
+
+export interface IStatementLine {
+  _id: Types.ObjectId;
+  lineNumber: number;
+  txnDate: Date;
+  amount: number;
+  reference?: string;
+  description?: string;
+  status: StatementLineStatus;
+  matchType?: StatementMatchType | null;
+  // Several ids when the line paid a family payment split across siblings.
+  paymentTransactionIds: Types.ObjectId[];
+  note?: string;
+}
+
+/**
+ * One imported bank/UPI statement (incoming credits only) and the result of
+ * reconciling its lines against PaymentTransaction. Payments recorded in the
+ * LMS with no line are worked out when the report is read, not stored.
+ */
+export interface IBankStatement extends Document {
+  fileName: string;
+  periodFrom: Date;
+  periodTo: Date;
+  dateWindowDays: number;
+  lines: IStatementLine[];
+  // Rows that were not incoming credits (debits, balances, blank lines).
+  skippedRows: number;
+  uploadedBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StatementLineSchema = new Schema<IStatementLine>({
+  lineNumber: { type: Number, required: true },
+  txnDate: { type: Date, required: true },
+  amount: { type: Number, required: true, min: 0 },
+  reference: { type: String, trim: true, maxlength: 200 },
+  description: { type: String, trim: true, maxlength: 1000 },
+  status: {
+    type: String,
+    enum: ['matched', 'mismatch', 'unmatched', 'ignored'],
+    required: true,
+    default: 'unmatched',
+  },
+  matchType: { type: String, enum: ['transaction_id', 'amount_date', 'created', null], default: null },
+  paymentTransactionIds: { type: [{ type: Schema.Types.ObjectId, ref: 'PaymentTransaction' }], default: [] },
+  note: { type: String, trim: true, maxlength: 500 },
+});
+
+const BankStatementSchema = new Schema<IBankStatement>(
+  {
+    fileName: { type: String, required: true, trim: true },
+    periodFrom: { type: Date, required: true },
+    periodTo: { type: Date, required: true },
+    dateWindowDays: { type: Number, required: true, min: 0 },
+    lines: { type: [StatementLineSchema], default: [] },
+    skippedRows: { type: Number, default: 0 },
+    uploadedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+BankStatementSchema.index({ createdAt: -1 });
+BankStatementSchema.index({ 'lines.paymentTransactionIds': 1 });
+
+BankStatementSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const BankStatement = mongoose.model<IBankStatement>('BankStatement', BankStatementSchema);
+export default BankStatement;
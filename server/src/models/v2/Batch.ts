@@ -141,6 +141,13 @@ const BatchSchema = new Schema<IBatch>(
       ref: 'User',
       required: [true, 'createdBy is required'],
     },
+    /** The import run that created it; rolling the run back removes it. */
+    importRunId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ImportRun',
+      index: true,
+      sparse: true,
+    },
   },
   {
     timestamps: true,
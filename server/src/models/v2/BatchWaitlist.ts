@@ -0,0 +1,97 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * BatchWaitlistEntry — a student waiting for a seat in a full batch.
+ *
+ * Entries are served in the order they were added:
+ *
+ *   waiting  → promoted   given a seat: moved into the batch, or enrolled in
+ *                         its course if they were not in it yet
+ *   waiting  → removed    taken off the list by an admin
+ *
+ * A student who is not in the batch's course yet is only enrolled on
+ * promotion, at the fee held here, so nobody is billed while they wait.
+ * When a seat is released the first waiting entry not yet told about one
+ * gets seatAvailableAt; the admins' worklist shows batches with free seats
+ * and students still waiting.
+ */
+export type WaitlistStatus = 'waiting' | 'promoted' | 'removed';
+
+export interface WaitlistFee {
+  grossFee: number;
+  monthlyFee: number;
+  discountType: 'none' | 'percentage' | 'fixed';
+  discountPct: number;
+  discountAmount: number;
+  discountReason: string;
+  feeOverridden: boolean;
+}
+
+export interface IBatchWaitlistEntry extends Document {
+  batchId: Types.ObjectId;
+  studentId: Types.ObjectId;
+  studentName: string;
+  status: WaitlistStatus;
+  fee: WaitlistFee | null;       // set when promotion opens a new enrollment
+  note?: string;
+  seatAvailableAt: Date | null;  // when a released seat was first offered to this entry
+  addedBy: Types.ObjectId;
+  resolvedBy?: Types.ObjectId;
+  resolvedAt?: Date;
+  enrollmentId?: Types.ObjectId; // the enrollment promotion put the student in
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistFeeSchema = new Schema<WaitlistFee>(
+  {
+    grossFee: { type: Number, required: true, min: 0 },
+    monthlyFee: { type: Number, required: true, min: 0 },
+    discountType: { type: String, enum: ['none', 'percentage', 'fixed'], default: 'none' },
+    discountPct: { type: Number, default: 0 },
+    discountAmount: { type: Number, default: 0 },
+    discountReason: { type: String, default: '' },
+    feeOverridden: { type: Boolean, default: false },
+  },
+  { _id: false },
+);
+
+const BatchWaitlistEntrySchema = new Schema<IBatchWaitlistEntry>(
+  {
+    batchId: { type: Schema.Types.ObjectId, ref: 'Batch', required: true },
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true },
+    studentName: { type: String, required: true },
+    status: { type: String, enum: ['waiting', 'promoted', 'removed'], default: 'waiting' },
+    fee: { type: WaitlistFeeSchema, default: null },
+    note: { type: String, trim: true, maxlength: 500 },
+    seatAvailableAt: { type: Date, default: null },
+    addedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    resolvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    resolvedAt: Date,
+    enrollmentId: { type: Schema.Types.ObjectId, ref: 'Enrollment' },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+/** Queue order within a batch */
+BatchWaitlistEntrySchema.index({ batchId: 1, status: 1, createdAt: 1 });
+BatchWaitlistEntrySchema.index(
+  { batchId: 1, studentId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: 'waiting' },
+    name: 'one_waiting_entry_per_batch_student',
+  },
+);
+
+BatchWaitlistEntrySchema.set('toJSON', {
+  virtuals: true,
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const BatchWaitlistEntry = mongoose.model<IBatchWaitlistEntry>('BatchWaitlistEntry', BatchWaitlistEntrySchema);
+export default BatchWaitlistEntry;
@@ -0,0 +1,89 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * BillingRun — one execution of the monthly billing job.
+ *
+ * A run walks every active Enrollment (endDate: null) and creates that month's
+ * Invoice with createdBySource: 'billing'. Each enrollment visited gets one
+ * outcome row so an admin can see exactly which students were billed, which
+ * were skipped (and why), and which failed. Mirrors ImportRun's shape.
+ */
+export type BillingOutcome = 'created' | 'would_create' | 'skipped' | 'failed';
+
+export interface IBillingRunOutcome {
+  studentId: Types.ObjectId;
+  studentName?: string;
+  enrollmentId: Types.ObjectId;
+  outcome: BillingOutcome;
+  code?: string;
+  message?: string;
+  invoiceId?: Types.ObjectId;
+  amount?: number;
+}
+
+export interface IBillingRun extends Document {
+  billingMonth: Date;
+  mode: 'dry-run' | 'apply';
+  trigger: 'manual' | 'cron' | 'cli';
+  status: 'running' | 'completed' | 'failed';
+  totalEnrollments: number;
+  createdInvoices: number;
+  skippedCount: number;
+  failedCount: number;
+  totalAmount: number;
+  outcomes: IBillingRunOutcome[];
+  startedBy: Types.ObjectId;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BillingRunOutcomeSchema = new Schema<IBillingRunOutcome>(
+  {
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true },
+    studentName: String,
+    enrollmentId: { type: Schema.Types.ObjectId, ref: 'Enrollment', required: true },
+    outcome: { type: String, enum: ['created', 'would_create', 'skipped', 'failed'], required: true },
+    code: String,
+    message: String,
+    invoiceId: { type: Schema.Types.ObjectId, ref: 'Invoice' },
+    amount: Number,
+  },
+  { _id: false },
+);
+
+const BillingRunSchema = new Schema<IBillingRun>(
+  {
+    billingMonth: { type: Date, required: true },
+    mode: { type: String, enum: ['dry-run', 'apply'], required: true },
+    trigger: { type: String, enum: ['manual', 'cron', 'cli'], default: 'manual' },
+    status: { type: String, enum: ['running', 'completed', 'failed'], required: true, default: 'running' },
+    totalEnrollments: { type: Number, default: 0 },
+    createdInvoices: { type: Number, default: 0 },
+    skippedCount: { type: Number, default: 0 },
+    failedCount: { type: Number, default: 0 },
+    totalAmount: { type: Number, default: 0 },
+    outcomes: { type: [BillingRunOutcomeSchema], default: [] },
+    startedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    startedAt: { type: Date, default: Date.now },
+    finishedAt: Date,
+    error: String,
+  },
+  { timestamps: true, versionKey: false },
+);
+
+BillingRunSchema.index({ startedAt: -1 });
+BillingRunSchema.index({ billingMonth: 1, mode: 1 });
+
+BillingRunSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const BillingRun = mongoose.model<IBillingRun>('BillingRun', BillingRunSchema);
+export default BillingRun;
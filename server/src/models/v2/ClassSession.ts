@@ -0,0 +1,55 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * ClassSession — one dated occurrence of a batch's weekly schedule.
+ *
+ * Sessions are materialised ahead of time from Batch.schedule by
+ * attendanceService.materializeSessions, so each class day has a stable id to
+ * mark attendance against. stageNumber/levelNumber are snapshots of the batch
+ * at generation time. A cancelled session keeps its attendance records but is
+ * left out of attendance percentages.
+ */
+export interface IClassSession extends Document {
+  batchId: Types.ObjectId;
+  courseId: Types.ObjectId;
+  stageNumber: number;
+  levelNumber: number;
+  sessionDate: Date;          // UTC date-only
+  startTime: string;          // HH:MM, from the schedule entry
+  status: 'scheduled' | 'held' | 'cancelled';
+  cancelReason?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ClassSessionSchema = new Schema<IClassSession>(
+  {
+    batchId: { type: Schema.Types.ObjectId, ref: 'Batch', required: true },
+    courseId: { type: Schema.Types.ObjectId, ref: 'Course', required: true },
+    stageNumber: { type: Number, required: true },
+    levelNumber: { type: Number, required: true },
+    sessionDate: { type: Date, required: true },
+    startTime: { type: String, required: true, trim: true },
+    status: { type: String, enum: ['scheduled', 'held', 'cancelled'], default: 'scheduled' },
+    cancelReason: { type: String, trim: true, maxlength: 500 },
+    notes: { type: String, trim: true, maxlength: 1000 },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+// Re-running generation upserts on this key, so a session is never duplicated.
+ClassSessionSchema.index({ batchId: 1, sessionDate: 1, startTime: 1 }, { unique: true, name: 'unique_batch_session' });
+ClassSessionSchema.index({ sessionDate: 1 });
+
+ClassSessionSchema.set('toJSON', {
+  virtuals: true,
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const ClassSession = mongoose.model<IClassSession>('ClassSession', ClassSessionSchema);
+export default ClassSession;
@@ -87,6 +87,49 @@ const CourseStageSchema = new Schema(
   { _id: false },
 );
 
+// ── Pro-ration policy sub-schema ──────────────────────────────────
+
+const ProRationPolicySchema = new Schema(
+  {
+    method: {
+      type: String,
+      enum: ['none', 'days', 'sessions', 'cutoff'],
+      default: 'days',
+    },
+    cutoffDay: {
+      type: Number,
+      min: [1, 'cutoffDay must be between 1 and 28'],
+      max: [28, 'cutoffDay must be between 1 and 28'],
+      default: 15,
+    },
+  },
+  { _id: false },
+);
+
+// ── Late-fee policy sub-schema ────────────────────────────────────
+
+const LateFeePolicySchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    type: { type: String, enum: ['flat', 'percentage'], default: 'flat' },
+    value: { type: Number, min: [0, 'Late fee value must be ≥ 0'], default: 0 },
+    graceDays: { type: Number, min: [0, 'graceDays must be ≥ 0'], default: 0 },
+    capPerInvoice: { type: Number, min: [0, 'capPerInvoice must be ≥ 0'], default: null },
+  },
+  { _id: false },
+);
+
+// ── Make-up policy sub-schema ─────────────────────────────────────
+
+const MakeupPolicySchema = new Schema(
+  {
+    enabled: { type: Boolean, default: true },
+    expiryDays: { type: Number, min: [1, 'expiryDays must be ≥ 1'], default: 60 },
+    excusedAbsences: { type: Boolean, default: true },
+  },
+  { _id: false },
+);
+
 // ── Course schema ─────────────────────────────────────────────────
 
 const CourseSchema = new Schema<ICourse>(
@@ -124,6 +167,18 @@ const CourseSchema = new Schema<ICourse>(
         message: 'Stage numbers must be sequential starting from 1',
       },
     },
+    proRationPolicy: {
+      type: ProRationPolicySchema,
+      default: () => ({}),
+    },
+    lateFeePolicy: {
+      type: LateFeePolicySchema,
+      default: () => ({}),
+    },
+    makeupPolicy: {
+      type: MakeupPolicySchema,
+      default: () => ({}),
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -13,6 +13,7 @@ export interface ICreditLedger extends Document {
   processedBy: Types.ObjectId;
   processedAt: Date;
   createdBySource: 'manual' | 'import' | 'payment';
+  importRunId?: Types.ObjectId;   // the import run that created it (see importRollbackService)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,6 +37,7 @@ const CreditLedgerSchema = new Schema<ICreditLedger>(
     processedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     processedAt: { type: Date, required: true, default: Date.now },
     createdBySource: { type: String, enum: ['manual', 'import', 'payment'], default: 'manual' },
+    importRunId: { type: Schema.Types.ObjectId, ref: 'ImportRun', index: true, sparse: true },
   },
   { timestamps: true, versionKey: false },
 );
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * CreditRefund — credit balance paid back out to a parent.
+ *
+ * Refunds up to config.refundApprovalThreshold (or requested by a superadmin)
+ * are paid out immediately. Larger ones wait for a superadmin:
+ *
+ *   pending  → completed  approved; balance decremented, credit_refund written
+ *   pending  → rejected   declined; nothing moves
+ *
+ * A completed refund points at its CreditLedger entry, which is what the
+ * student's statement shows.
+ */
+export type CreditRefundStatus = 'pending' | 'completed' | 'rejected';
+export type RefundMethod = 'cash' | 'online' | 'card' | 'upi' | 'other';
+
+export interface ICreditRefund extends Document {
+  studentId: Types.ObjectId;
+  studentName: string;
+  amount: number;
+  paymentMethod: RefundMethod;
+  reference?: string;          // bank / UPI reference of the payout
+  refundDate: Date;            // when the money left (or is to leave)
+  reason: string;
+  status: CreditRefundStatus;
+  requestedBy: Types.ObjectId;
+  approvedBy?: Types.ObjectId; // the superadmin, or the requester when no approval was needed
+  approvedAt?: Date;
+  rejectedBy?: Types.ObjectId;
+  rejectedAt?: Date;
+  rejectionReason?: string;
+  creditLedgerId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CreditRefundSchema = new Schema<ICreditRefund>(
+  {
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true },
+    studentName: { type: String, required: true },
+    amount: { type: Number, required: true, min: 1 },
+    paymentMethod: { type: String, enum: ['cash', 'online', 'card', 'upi', 'other'], required: true },
+    reference: { type: String, trim: true, maxlength: 200 },
+    refundDate: { type: Date, required: true },
+    reason: { type: String, required: true, trim: true, maxlength: 500 },
+    status: { type: String, enum: ['pending', 'completed', 'rejected'], default: 'pending' },
+    requestedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    approvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    approvedAt: Date,
+    rejectedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    rejectedAt: Date,
+    rejectionReason: { type: String, trim: true, maxlength: 500 },
+    creditLedgerId: { type: Schema.Types.ObjectId, ref: 'CreditLedger' },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+CreditRefundSchema.index({ studentId: 1, createdAt: -1 });
+CreditRefundSchema.index({ status: 1, createdAt: -1 });
+
+CreditRefundSchema.set('toJSON', {
+  virtuals: true,
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const CreditRefund = mongoose.model<ICreditRefund>('CreditRefund', CreditRefundSchema);
+export default CreditRefund;
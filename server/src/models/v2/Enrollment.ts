@@ -5,7 +5,10 @@
  * course/stage/level, from when, at what fee".
  *
  * Design rules:
- *  1. Only ONE active enrollment (endDate === null) per student at a time.
+ *  1. Only ONE active enrollment (endDate === null) per student per course.
+ *     A student may attend several courses at once, each with its own batch,
+ *     fee and invoices; StudentV2's denormalised course fields mirror one of
+ *     them (see currentEnrollmentId).
  *  2. When a student upgrades, changes batch, or leaves:
  *     - Set endDate + endReason on the current enrollment.
  *     - Insert a new enrollment with a new startDate (and the new fee snapshot).
@@ -174,6 +177,13 @@ const EnrollmentSchema = new Schema<IEnrollment>(
       ref: 'User',
       required: [true, 'createdBy is required'],
     },
+    /** The import run that created it; rolling the run back removes it. */
+    importRunId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ImportRun',
+      index: true,
+      sparse: true,
+    },
   },
   {
     timestamps: true,
@@ -186,13 +196,13 @@ const EnrollmentSchema = new Schema<IEnrollment>(
 /** Fast lookup of all enrollments for a student (history view) */
 EnrollmentSchema.index({ studentId: 1, startDate: -1 });
 
-/** Fast lookup of the active enrollment for a student */
+/** Fast lookup of a student's active enrollments — at most one per course */
 EnrollmentSchema.index(
-  { studentId: 1 },
+  { studentId: 1, courseId: 1 },
   {
     unique: true,
     partialFilterExpression: { endDate: null },
-    name: 'active_enrollment_per_student',
+    name: 'active_enrollment_per_student_course',
   },
 );
 
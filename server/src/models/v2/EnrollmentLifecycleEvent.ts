@@ -0,0 +1,66 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * Something the pause-expiry job (or an admin working its worklist) did to a
+ * paused enrollment. Append-only; read by the student's audit history.
+ *
+ * - auto_resumed          → resumed into the same batch on pausedUntil
+ * - resumed_without_batch → resumed, but the batch was full or no longer active
+ * - flagged               → pause expired and left for an admin (flag mode,
+ *                           or the automatic resume failed — see code/message)
+ * - pause_extended        → an admin moved pausedUntil later
+ */
+export type LifecycleAction = 'auto_resumed' | 'resumed_without_batch' | 'flagged' | 'pause_extended';
+
+export interface IEnrollmentLifecycleEvent extends Document {
+  studentId: Types.ObjectId;
+  pausedEnrollmentId: Types.ObjectId;
+  resumedEnrollmentId?: Types.ObjectId | null;
+  action: LifecycleAction;
+  pausedUntil: Date;                    // the pausedUntil this event acted on
+  newPausedUntil?: Date | null;         // pause_extended only
+  batchId?: Types.ObjectId | null;      // the paused enrollment's batch
+  code?: string;
+  message?: string;
+  trigger: 'cron' | 'manual';
+  processedBy: Types.ObjectId;
+  occurredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EnrollmentLifecycleEventSchema = new Schema<IEnrollmentLifecycleEvent>(
+  {
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true },
+    pausedEnrollmentId: { type: Schema.Types.ObjectId, ref: 'Enrollment', required: true },
+    resumedEnrollmentId: { type: Schema.Types.ObjectId, ref: 'Enrollment', default: null },
+    action: {
+      type: String,
+      enum: ['auto_resumed', 'resumed_without_batch', 'flagged', 'pause_extended'],
+      required: true,
+    },
+    pausedUntil: { type: Date, required: true },
+    newPausedUntil: { type: Date, default: null },
+    batchId: { type: Schema.Types.ObjectId, ref: 'Batch', default: null },
+    code: { type: String, trim: true },
+    message: { type: String, trim: true, maxlength: 500 },
+    trigger: { type: String, enum: ['cron', 'manual'], required: true },
+    processedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    occurredAt: { type: Date, required: true, default: Date.now },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+EnrollmentLifecycleEventSchema.index({ studentId: 1, occurredAt: -1 });
+EnrollmentLifecycleEventSchema.index({ pausedEnrollmentId: 1, action: 1 });
+
+EnrollmentLifecycleEventSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const EnrollmentLifecycleEvent = mongoose.model<IEnrollmentLifecycleEvent>('EnrollmentLifecycleEvent', EnrollmentLifecycleEventSchema);
+export default EnrollmentLifecycleEvent;
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * Family — the guardian account shared by siblings.
+ *
+ * Students link here via StudentV2.familyId. The guardian's contact details
+ * live on the family and are copied onto each member (parentName, phone,
+ * email, address) so existing student screens and reminders keep working.
+ *
+ * siblingDiscount is applied automatically to the enrollment of every child
+ * who joins while another member is already enrolled, unless the admin sets a
+ * discount or fee of their own.
+ */
+export interface ISiblingDiscount {
+  enabled: boolean;
+  type: 'percentage' | 'fixed';
+  value: number;
+  reason: string;
+}
+
+export interface IFamily extends Document {
+  familyName: string;
+  guardianName?: string;
+  phone?: string;
+  email?: string;
+  alternatePhone?: string;
+  address?: string;
+  notes?: string;
+  siblingDiscount: ISiblingDiscount;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SiblingDiscountSchema = new Schema<ISiblingDiscount>(
+  {
+    enabled: { type: Boolean, default: false },
+    type: { type: String, enum: ['percentage', 'fixed'], default: 'percentage' },
+    value: { type: Number, min: [0, 'Sibling discount must be ≥ 0'], default: 0 },
+    reason: { type: String, trim: true, maxlength: 500, default: 'Sibling discount' },
+  },
+  { _id: false },
+);
+
+const FamilySchema = new Schema<IFamily>(
+  {
+    familyName: {
+      type: String,
+      required: [true, 'Family name is required'],
+      trim: true,
+      maxlength: [100, 'Family name cannot exceed 100 characters'],
+    },
+    guardianName: { type: String, trim: true, maxlength: [100, 'Guardian name cannot exceed 100 characters'] },
+    phone: { type: String, trim: true, maxlength: [20, 'Phone number cannot exceed 20 characters'] },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please provide a valid email address'],
+    },
+    alternatePhone: { type: String, trim: true, maxlength: [20, 'Alternate phone number cannot exceed 20 characters'] },
+    address: { type: String, trim: true, maxlength: [500, 'Address cannot exceed 500 characters'] },
+    notes: { type: String, trim: true, maxlength: [1000, 'Notes cannot exceed 1000 characters'] },
+    siblingDiscount: { type: SiblingDiscountSchema, default: () => ({}) },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+FamilySchema.path('email').validate(function (this: IFamily) {
+  return !!(this.email || this.phone);
+}, 'At least one contact method (email or phone) is required');
+
+FamilySchema.index({ familyName: 1 });
+FamilySchema.index({ phone: 1 });
+FamilySchema.index({ email: 1 });
+
+FamilySchema.set('toJSON', {
+  virtuals: true,
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const Family = mongoose.model<IFamily>('Family', FamilySchema);
+export default Family;
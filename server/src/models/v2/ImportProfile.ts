@@ -0,0 +1,119 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * ImportProfile — how a branch's student workbook maps onto the importer.
+ *
+ *   columns       accepted header names per field, tried in order
+ *   levelCodes    the code in the level column (followed by the level
+ *                 number, e.g. B2) → course and stage. levelFees are the
+ *                 per-level fees used only if the course has to be created.
+ *   dateFormat    how text dates such as 03/04/2025 are read; real Excel
+ *                 dates are unaffected
+ *   paymentColumns  header names of one payment's due date, status and paid
+ *                 date. A header containing {n} is numbered from 1; otherwise
+ *                 the same headers repeat and the sheet reader suffixes the
+ *                 repeats (__1, .1, ...).
+ *
+ * Exactly one profile is the default; the chess layout is created as the
+ * default the first time profiles are needed.
+ */
+
+export const IMPORT_PROFILE_FIELDS = [
+  'studentCode',
+  'name',
+  'phone',
+  'email',
+  'status',
+  'studentStartDate',
+  'level',
+  'duration',
+  'batch',
+  'timing',
+  'batchStartDate',
+] as const;
+
+export type ImportProfileField = typeof IMPORT_PROFILE_FIELDS[number];
+
+export const IMPORT_DATE_FORMATS = ['DMY', 'MDY', 'YMD'] as const;
+
+export type ImportDateFormat = typeof IMPORT_DATE_FORMATS[number];
+
+export interface IImportLevelCode {
+  code: string;
+  courseName: string;
+  stageNumber: number;
+  stageName: string;
+  levelFees: number[];
+}
+
+export interface IImportPaymentColumns {
+  dueDate: string;
+  status: string;
+  paidDate: string;
+}
+
+export interface IImportProfile extends Document {
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  columns: Record<ImportProfileField, string[]>;
+  levelCodes: IImportLevelCode[];
+  dateFormat: ImportDateFormat;
+  paymentColumns: IImportPaymentColumns;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ColumnsSchema = new Schema(
+  Object.fromEntries(IMPORT_PROFILE_FIELDS.map((field) => [field, { type: [String], default: [] }])),
+  { _id: false },
+);
+
+const LevelCodeSchema = new Schema<IImportLevelCode>(
+  {
+    code: { type: String, required: true, trim: true, uppercase: true, maxlength: 10 },
+    courseName: { type: String, required: true, trim: true, lowercase: true },
+    stageNumber: { type: Number, required: true, min: 1 },
+    stageName: { type: String, required: true, trim: true, maxlength: 100 },
+    levelFees: { type: [Number], default: [] },
+  },
+  { _id: false },
+);
+
+const ImportProfileSchema = new Schema<IImportProfile>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    description: { type: String, trim: true, maxlength: 500 },
+    isDefault: { type: Boolean, default: false },
+    columns: { type: ColumnsSchema, required: true },
+    levelCodes: { type: [LevelCodeSchema], default: [] },
+    dateFormat: { type: String, enum: IMPORT_DATE_FORMATS, default: 'DMY' },
+    paymentColumns: {
+      type: new Schema<IImportPaymentColumns>({
+        dueDate: { type: String, trim: true, default: '' },
+        status: { type: String, trim: true, default: '' },
+        paidDate: { type: String, trim: true, default: '' },
+      }, { _id: false }),
+      default: () => ({}),
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+ImportProfileSchema.index({ name: 1 }, { unique: true });
+ImportProfileSchema.index({ isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
+
+ImportProfileSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const ImportProfile = mongoose.model<IImportProfile>('ImportProfile', ImportProfileSchema);
+export default ImportProfile;
@@ -1,5 +1,29 @@
 import mongoose, { Schema, Types, Document } from 'mongoose';
 
+/**
+ * ImportRun — one pass of the student workbook import.
+ *
+ *   dry-run   parses and plans without writing anything; the created* counts
+ *             and preview are what applying it would create. The uploaded
+ *             workbook is kept (never selected by default) so the run can be
+ *             applied later as it was reviewed.
+ *   apply     writes students, batches, enrollments, invoices, payments and
+ *             credits; dryRunId links back to the reviewed dry-run, which in
+ *             turn records appliedRunId so it is applied at most once.
+ *
+ * An incremental run matches rows to existing students (student code, then
+ * phone, then email) instead of creating them again, and applies what changed
+ * — level, batch, newly paid months — through the normal lifecycle and
+ * payment flows. Only unmatched rows create students.
+ *
+ * profileId / profileName record the mapping profile the workbook was read
+ * with; applying a dry-run reads it again with the same profile.
+ *
+ * Everything an apply run writes carries its importRunId (recordsTagged is
+ * false for runs applied before that), so the run can be rolled back: see
+ * importRollbackService. rolledBackAt and rollback record when and what.
+ */
+
 export interface IImportIssue {
   rowNumber?: number;
   severity: 'warning' | 'error';
@@ -8,9 +32,65 @@ export interface IImportIssue {
   rawName?: string;
 }
 
+export interface IImportPreviewStudent {
+  rowNumber: number;
+  name: string;
+  phone?: string;
+  email?: string;
+  courseName: string;
+  stageNumber: number;
+  levelNumber: number;
+  batchCode?: string;
+  startDate: Date;
+  discontinued: boolean;
+  invoices: number;
+  payments: number;
+  credits: number;
+}
+
+export interface IImportPreviewBatch {
+  batchCode: string;
+  batchName: string;
+  courseName: string;
+  stageNumber: number;
+  levelNumber: number;
+  status: 'active' | 'draft';
+  startDate?: Date;
+  students: number;
+  exists: boolean;   // already in the database; students join it, nothing is created
+}
+
+export interface IImportDiff {
+  field: 'level' | 'batch' | 'payment' | 'credit';
+  from?: string;
+  to: string;
+}
+
+export interface IImportChange {
+  rowNumber: number;
+  studentId: Types.ObjectId;
+  studentName: string;
+  matchedBy: 'studentCode' | 'phone' | 'email';
+  diffs: IImportDiff[];
+}
+
+export interface IImportRollback {
+  students: number;
+  batches: number;
+  enrollments: number;
+  invoices: number;
+  payments: number;
+  reversedPayments: number;
+  allocations: number;
+  creditEntries: number;
+}
+
 export interface IImportRun extends Document {
   fileName: string;
   mode: 'dry-run' | 'apply';
+  incremental: boolean;
+  profileId?: Types.ObjectId;
+  profileName?: string;
   status: 'running' | 'completed' | 'failed';
   totalRows: number;
   createdStudents: number;
@@ -20,7 +100,21 @@ export interface IImportRun extends Document {
   createdPayments: number;
   createdCredits: number;
   skippedRows: number;
+  matchedStudents: number;
+  updatedStudents: number;
+  levelChanges: number;
+  batchChanges: number;
   issues: IImportIssue[];
+  preview?: { students: IImportPreviewStudent[]; batches: IImportPreviewBatch[]; changes: IImportChange[] };
+  sheetName?: string;
+  workbook?: Buffer;
+  dryRunId?: Types.ObjectId;
+  appliedRunId?: Types.ObjectId;
+  appliedAt?: Date;
+  recordsTagged: boolean;
+  rolledBackAt?: Date;
+  rolledBackBy?: Types.ObjectId;
+  rollback?: IImportRollback;
   startedBy: Types.ObjectId;
   startedAt: Date;
   finishedAt?: Date;
@@ -40,10 +134,63 @@ const ImportIssueSchema = new Schema<IImportIssue>(
   { _id: false },
 );
 
+const PreviewStudentSchema = new Schema<IImportPreviewStudent>(
+  {
+    rowNumber: Number,
+    name: String,
+    phone: String,
+    email: String,
+    courseName: String,
+    stageNumber: Number,
+    levelNumber: Number,
+    batchCode: String,
+    startDate: Date,
+    discontinued: Boolean,
+    invoices: Number,
+    payments: Number,
+    credits: Number,
+  },
+  { _id: false },
+);
+
+const PreviewBatchSchema = new Schema<IImportPreviewBatch>(
+  {
+    batchCode: String,
+    batchName: String,
+    courseName: String,
+    stageNumber: Number,
+    levelNumber: Number,
+    status: { type: String, enum: ['active', 'draft'] },
+    startDate: Date,
+    students: Number,
+    exists: Boolean,
+  },
+  { _id: false },
+);
+
+const ImportChangeSchema = new Schema<IImportChange>(
+  {
+    rowNumber: Number,
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student' },
+    studentName: String,
+    matchedBy: { type: String, enum: ['studentCode', 'phone', 'email'] },
+    diffs: [{
+      _id: false,
+      field: { type: String, enum: ['level', 'batch', 'payment', 'credit'] },
+      from: String,
+      to: String,
+    }],
+  },
+  { _id: false },
+);
+
 const ImportRunSchema = new Schema<IImportRun>(
   {
     fileName: { type: String, required: true },
     mode: { type: String, enum: ['dry-run', 'apply'], required: true },
+    incremental: { type: Boolean, default: false },
+    profileId: { type: Schema.Types.ObjectId, ref: 'ImportProfile' },
+    profileName: String,
     status: { type: String, enum: ['running', 'completed', 'failed'], required: true, default: 'running' },
     totalRows: { type: Number, default: 0 },
     createdStudents: { type: Number, default: 0 },
@@ -53,7 +200,40 @@ const ImportRunSchema = new Schema<IImportRun>(
     createdPayments: { type: Number, default: 0 },
     createdCredits: { type: Number, default: 0 },
     skippedRows: { type: Number, default: 0 },
+    matchedStudents: { type: Number, default: 0 },
+    updatedStudents: { type: Number, default: 0 },
+    levelChanges: { type: Number, default: 0 },
+    batchChanges: { type: Number, default: 0 },
     issues: { type: [ImportIssueSchema], default: [] },
+    preview: {
+      type: new Schema({
+        students: { type: [PreviewStudentSchema], default: [] },
+        batches: { type: [PreviewBatchSchema], default: [] },
+        changes: { type: [ImportChangeSchema], default: [] },
+      }, { _id: false }),
+      default: undefined,
+    },
+    sheetName: String,
+    workbook: { type: Buffer, select: false },
+    dryRunId: { type: Schema.Types.ObjectId, ref: 'ImportRun' },
+    appliedRunId: { type: Schema.Types.ObjectId, ref: 'ImportRun' },
+    appliedAt: Date,
+    recordsTagged: { type: Boolean, default: false },
+    rolledBackAt: Date,
+    rolledBackBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    rollback: {
+      type: new Schema<IImportRollback>({
+        students: Number,
+        batches: Number,
+        enrollments: Number,
+        invoices: Number,
+        payments: Number,
+        reversedPayments: Number,
+        allocations: Number,
+        creditEntries: Number,
+      }, { _id: false }),
+      default: undefined,
+    },
     startedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     startedAt: { type: Date, default: Date.now },
     finishedAt: Date,
@@ -64,5 +244,14 @@ const ImportRunSchema = new Schema<IImportRun>(
 
 ImportRunSchema.index({ startedAt: -1 });
 
+ImportRunSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    delete ret.workbook;
+    return ret;
+  },
+});
+
 const ImportRun = mongoose.model<IImportRun>('ImportRun', ImportRunSchema);
 export default ImportRun;
@@ -1,4 +1,30 @@
 import mongoose, { Schema, Types, Document } from 'mongoose';
+import type { ProRationMethod } from '../../types/v2.js';
+
+/**
+ * Breakdown of a partial-month amount, recorded whenever the course's
+ * pro-ration policy billed less than the full monthly fee. Units are days for
+ * 'days', scheduled classes for 'sessions', and 0/1 for 'cutoff'.
+ */
+export interface IInvoiceProRation {
+  method: ProRationMethod;
+  fullMonthFee: number;
+  activeUnits: number;
+  totalUnits: number;
+  periodStart: Date;
+  periodEnd: Date;        // exclusive
+  cutoffDay?: number;
+}
+
+/** Snapshot of the course rule a late-fee invoice was assessed under. */
+export interface IInvoiceLateFee {
+  type: 'flat' | 'percentage';
+  value: number;
+  graceDays: number;
+  capPerInvoice: number | null;
+  daysLate: number;
+  assessedAt: Date;
+}
 
 export interface IInvoice extends Document {
   studentId: Types.ObjectId;
@@ -9,6 +35,12 @@ export interface IInvoice extends Document {
   levelNumber: number;
   invoiceMonth: Date;
   dueDate: Date;
+  // 'late_fee' invoices are penalties charged against the tuition invoice in
+  // penaltyForInvoiceId; they share its month and are paid/waived/voided
+  // through the same flows.
+  kind: 'tuition' | 'late_fee';
+  penaltyForInvoiceId?: Types.ObjectId | null;
+  lateFee?: IInvoiceLateFee | null;
   amount: number;
   allocatedAmount: number;
   waivedAmount: number;
@@ -16,18 +48,45 @@ export interface IInvoice extends Document {
   waivedReason?: string;
   waivedAt?: Date;
   correctionReason?: string;
+  proRation?: IInvoiceProRation | null;
   isVoid: boolean;
   voidReason?: string;
   voidedBy?: Types.ObjectId;
   voidedAt?: Date;
   createdBy?: Types.ObjectId;
   createdBySource: 'manual' | 'import' | 'billing';
+  importRunId?: Types.ObjectId;   // the import run that created it (see importRollbackService)
   createdAt: Date;
   updatedAt: Date;
   status?: 'upcoming' | 'paid' | 'overdue' | 'partially_paid' | 'void';
   balanceDue?: number;
 }
 
+const InvoiceProRationSchema = new Schema<IInvoiceProRation>(
+  {
+    method: { type: String, enum: ['none', 'days', 'sessions', 'cutoff'], required: true },
+    fullMonthFee: { type: Number, required: true, min: 0 },
+    activeUnits: { type: Number, required: true, min: 0 },
+    totalUnits: { type: Number, required: true, min: 0 },
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    cutoffDay: { type: Number },
+  },
+  { _id: false },
+);
+
+const InvoiceLateFeeSchema = new Schema<IInvoiceLateFee>(
+  {
+    type: { type: String, enum: ['flat', 'percentage'], required: true },
+    value: { type: Number, required: true, min: 0 },
+    graceDays: { type: Number, required: true, min: 0 },
+    capPerInvoice: { type: Number, default: null },
+    daysLate: { type: Number, required: true, min: 0 },
+    assessedAt: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
 const InvoiceSchema = new Schema<IInvoice>(
   {
     studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true, index: true },
@@ -38,6 +97,9 @@ const InvoiceSchema = new Schema<IInvoice>(
     levelNumber: { type: Number, required: true, min: 1 },
     invoiceMonth: { type: Date, required: true },
     dueDate: { type: Date, required: true },
+    kind: { type: String, enum: ['tuition', 'late_fee'], default: 'tuition', index: true },
+    penaltyForInvoiceId: { type: Schema.Types.ObjectId, ref: 'Invoice', default: null },
+    lateFee: { type: InvoiceLateFeeSchema, default: null },
     amount: { type: Number, required: true, min: 0 },
     allocatedAmount: { type: Number, required: true, min: 0, default: 0 },
     waivedAmount: { type: Number, required: true, min: 0, default: 0 },
@@ -45,6 +107,7 @@ const InvoiceSchema = new Schema<IInvoice>(
     waivedReason: { type: String, trim: true, maxlength: 500 },
     waivedAt: { type: Date },
     correctionReason: { type: String, trim: true, maxlength: 1000 },
+    proRation: { type: InvoiceProRationSchema, default: null },
     isVoid: { type: Boolean, default: false, index: true },
     voidReason: { type: String, trim: true, maxlength: 1000 },
     voidedBy: { type: Schema.Types.ObjectId, ref: 'User' },
@@ -55,13 +118,25 @@ const InvoiceSchema = new Schema<IInvoice>(
       enum: ['manual', 'import', 'billing'],
       default: 'manual',
     },
+    importRunId: { type: Schema.Types.ObjectId, ref: 'ImportRun', index: true, sparse: true },
   },
   { timestamps: true, versionKey: false },
 );
 
+// One tuition invoice per enrollment-month, and at most one live late fee per
+// tuition invoice. Replaces unique_student_enrollment_invoice_month — run
+// src/migrations/002_invoice_kinds.ts on existing databases.
 InvoiceSchema.index(
   { studentId: 1, enrollmentId: 1, invoiceMonth: 1 },
-  { unique: true, name: 'unique_student_enrollment_invoice_month' },
+  { unique: true, name: 'unique_tuition_invoice_month', partialFilterExpression: { kind: 'tuition' } },
+);
+InvoiceSchema.index(
+  { penaltyForInvoiceId: 1 },
+  {
+    unique: true,
+    name: 'unique_live_late_fee',
+    partialFilterExpression: { kind: 'late_fee', isVoid: false },
+  },
 );
 InvoiceSchema.index({ invoiceMonth: 1 });
 InvoiceSchema.index({ dueDate: 1, isVoid: 1 });
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+import type { LeadStatus } from './Lead.js';
+
+/**
+ * One entry on a lead's timeline. Outreach (call / message / visit) and notes
+ * are logged by admins; status_change and assignment rows are written by the
+ * leads routes whenever those fields change. Append-only.
+ */
+export type LeadActivityType = 'call' | 'message' | 'visit' | 'note' | 'status_change' | 'assignment';
+export type LeadActivityOutcome = 'connected' | 'no_answer' | 'interested' | 'call_back' | 'not_interested';
+
+export interface ILeadActivity extends Document {
+  leadId: Types.ObjectId;
+  type: LeadActivityType;
+  outcome?: LeadActivityOutcome | null;   // outreach only
+  notes?: string;
+  fromStatus?: LeadStatus | null;         // status_change only
+  toStatus?: LeadStatus | null;
+  assignedTo?: Types.ObjectId | null;     // assignment only; null = unassigned
+  nextFollowUpDate?: Date | null;         // follow-up the lead was given by this entry
+  author: Types.ObjectId;
+  occurredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LEAD_STATUSES = ['new', 'contacted', 'follow-up', 'converted', 'dropped'];
+
+const LeadActivitySchema = new Schema<ILeadActivity>(
+  {
+    leadId: { type: Schema.Types.ObjectId, ref: 'Lead', required: true },
+    type: {
+      type: String,
+      enum: ['call', 'message', 'visit', 'note', 'status_change', 'assignment'],
+      required: true,
+    },
+    outcome: {
+      type: String,
+      enum: ['connected', 'no_answer', 'interested', 'call_back', 'not_interested', null],
+      default: null,
+    },
+    notes: { type: String, trim: true, maxlength: [2000, 'Notes cannot exceed 2000 characters'] },
+    fromStatus: { type: String, enum: [...LEAD_STATUSES, null], default: null },
+    toStatus: { type: String, enum: [...LEAD_STATUSES, null], default: null },
+    assignedTo: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    nextFollowUpDate: { type: Date, default: null },
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    occurredAt: { type: Date, required: true, default: Date.now },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+LeadActivitySchema.index({ leadId: 1, occurredAt: -1 });
+
+LeadActivitySchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const LeadActivity = mongoose.model<ILeadActivity>('LeadActivity', LeadActivitySchema);
+export default LeadActivity;
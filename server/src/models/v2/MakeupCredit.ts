@@ -0,0 +1,101 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * MakeupCredit — one make-up class owed to a student.
+ *
+ * Created by attendanceService when a ClassSession is cancelled (one per
+ * student on its roster) or a student is marked excused, under the course's
+ * makeupPolicy. Each source session yields at most one credit per student.
+ *
+ * Lifecycle:
+ *   available → booked   booked into a session of another batch at the same
+ *                        stage/level (the student joins that session's roster
+ *                        as a guest; Batch.filledSeats is never touched)
+ *   booked    → used     attendance marked on the make-up session
+ *   booked    → available booking cancelled, or the guest was excused
+ *   available → expired  expiresAt passed (expireMakeupCredits)
+ *   available → revoked  source session restored / excused mark changed
+ */
+export type MakeupSource = 'cancelled_session' | 'excused_absence';
+export type MakeupStatus = 'available' | 'booked' | 'used' | 'expired' | 'revoked';
+
+export interface IMakeupBooking {
+  sessionId: Types.ObjectId;
+  batchId: Types.ObjectId;
+  sessionDate: Date;
+  bookedBy: Types.ObjectId;
+  bookedAt: Date;
+}
+
+export interface IMakeupCredit extends Document {
+  studentId: Types.ObjectId;
+  enrollmentId: Types.ObjectId;
+  courseId: Types.ObjectId;
+  stageNumber: number;
+  levelNumber: number;
+  source: MakeupSource;
+  sourceSessionId: Types.ObjectId;
+  sourceBatchId: Types.ObjectId;
+  sourceSessionDate: Date;
+  expiresAt: Date;            // last date (UTC) a make-up can be booked for
+  status: MakeupStatus;
+  booking: IMakeupBooking | null;
+  usedAt?: Date;
+  statusReason?: string;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MakeupBookingSchema = new Schema<IMakeupBooking>(
+  {
+    sessionId: { type: Schema.Types.ObjectId, ref: 'ClassSession', required: true },
+    batchId: { type: Schema.Types.ObjectId, ref: 'Batch', required: true },
+    sessionDate: { type: Date, required: true },
+    bookedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    bookedAt: { type: Date, required: true },
+  },
+  { _id: false },
+);
+
+const MakeupCreditSchema = new Schema<IMakeupCredit>(
+  {
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true },
+    enrollmentId: { type: Schema.Types.ObjectId, ref: 'Enrollment', required: true },
+    courseId: { type: Schema.Types.ObjectId, ref: 'Course', required: true },
+    stageNumber: { type: Number, required: true },
+    levelNumber: { type: Number, required: true },
+    source: { type: String, enum: ['cancelled_session', 'excused_absence'], required: true },
+    sourceSessionId: { type: Schema.Types.ObjectId, ref: 'ClassSession', required: true },
+    sourceBatchId: { type: Schema.Types.ObjectId, ref: 'Batch', required: true },
+    sourceSessionDate: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ['available', 'booked', 'used', 'expired', 'revoked'],
+      default: 'available',
+    },
+    booking: { type: MakeupBookingSchema, default: null },
+    usedAt: Date,
+    statusReason: { type: String, trim: true, maxlength: 500 },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+MakeupCreditSchema.index({ studentId: 1, sourceSessionId: 1 }, { unique: true });
+MakeupCreditSchema.index({ studentId: 1, status: 1 });
+MakeupCreditSchema.index({ 'booking.sessionId': 1 });
+MakeupCreditSchema.index({ status: 1, expiresAt: 1 });
+
+MakeupCreditSchema.set('toJSON', {
+  virtuals: true,
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const MakeupCredit = mongoose.model<IMakeupCredit>('MakeupCredit', MakeupCreditSchema);
+export default MakeupCredit;
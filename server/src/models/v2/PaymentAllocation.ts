@@ -13,6 +13,7 @@ export interface IPaymentAllocation extends Document {
   // allocation history remains auditable.
   isReversed?: boolean;
   reversedAt?: Date;
+  importRunId?: Types.ObjectId;   // the import run that created it (see importRollbackService)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,6 +30,7 @@ const PaymentAllocationSchema = new Schema<IPaymentAllocation>(
     allocatedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     isReversed: { type: Boolean, default: false },
     reversedAt: { type: Date },
+    importRunId: { type: Schema.Types.ObjectId, ref: 'ImportRun', index: true, sparse: true },
   },
   { timestamps: true, versionKey: false },
 );
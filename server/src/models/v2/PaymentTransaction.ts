@@ -20,6 +20,14 @@ export interface IPaymentTransaction extends Document {
   remarks?: string;
   processedBy: Types.ObjectId;
   createdBySource: 'manual' | 'import';
+  importRunId?: Types.ObjectId;   // the import run that created it (see importRollbackService)
+  // Gap-free per-financial-year number, e.g. "RCT/2026-27/00042". Assigned in
+  // the recording transaction; kept (not reused) if the payment is reversed.
+  receiptNumber?: string;
+  // Set when the payment is one sibling's share of a family payment; every
+  // share of the same payment carries the same familyPaymentId.
+  familyId?: Types.ObjectId | null;
+  familyPaymentId?: Types.ObjectId | null;
   // Reversal audit (a reversed payment is never deleted; it is marked so the
   // ledger remains complete and auditable).
   isReversed?: boolean;
@@ -50,6 +58,10 @@ const PaymentTransactionSchema = new Schema<IPaymentTransaction>(
     remarks: { type: String, trim: true, maxlength: 1000 },
     processedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
     createdBySource: { type: String, enum: ['manual', 'import'], default: 'manual' },
+    importRunId: { type: Schema.Types.ObjectId, ref: 'ImportRun', index: true, sparse: true },
+    receiptNumber: { type: String, trim: true },
+    familyId: { type: Schema.Types.ObjectId, ref: 'Family', default: null },
+    familyPaymentId: { type: Schema.Types.ObjectId, default: null, index: true },
     isReversed: { type: Boolean, default: false, index: true },
     reversedAt: { type: Date },
     reversedBy: { type: Schema.Types.ObjectId, ref: 'User' },
@@ -77,6 +89,14 @@ PaymentTransactionSchema.index(
   },
 );
 
+PaymentTransactionSchema.index(
+  { receiptNumber: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { receiptNumber: { $exists: true, $type: 'string' } },
+  },
+);
+
 PaymentTransactionSchema.set('toJSON', {
   transform(_doc: unknown, ret: any) {
     ret.id = ret._id?.toString();
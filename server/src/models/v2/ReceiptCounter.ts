@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * ReceiptCounter — one row per Indian financial year (April–March), holding
+ * the last receipt number issued in that year. Incremented inside the same
+ * transaction that records the payment, so an aborted payment never consumes
+ * a number and the sequence stays gap-free.
+ */
+export interface IReceiptCounter extends Document {
+  financialYear: string;  // e.g. "2026-27"
+  lastNumber: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReceiptCounterSchema = new Schema<IReceiptCounter>(
+  {
+    financialYear: { type: String, required: true, unique: true, trim: true },
+    lastNumber: { type: Number, required: true, min: 0, default: 0 },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+const ReceiptCounter = mongoose.model<IReceiptCounter>('ReceiptCounter', ReceiptCounterSchema);
+export default ReceiptCounter;
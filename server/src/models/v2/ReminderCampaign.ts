@@ -0,0 +1,72 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+export interface IReminderCampaignFilters {
+  courseId?: Types.ObjectId | null;
+  stageNumber?: number | null;
+  levelNumber?: number | null;
+  batchId?: Types.ObjectId | null;
+  minBalance?: number | null;
+}
+
+/**
+ * One run of fee reminders to the overdue students matching filters. Each
+ * message is a ReminderLog row carrying campaignId; the counts here are the
+ * run's summary, kept current while the run is in progress.
+ */
+export interface IReminderCampaign extends Document {
+  templateId?: Types.ObjectId | null;   // null: the built-in default message
+  templateName: string;
+  channel: string;
+  filters: IReminderCampaignFilters;
+  cooldownDays: number;
+  targeted: number;
+  sent: number;
+  linksGenerated: number;               // WhatsApp links left for an admin to open
+  failed: number;
+  skippedRecent: number;                // reminded within cooldownDays
+  skippedNoContact: number;             // no phone/email for the channel
+  createdBy: Types.ObjectId;
+  startedAt: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReminderCampaignSchema = new Schema<IReminderCampaign>(
+  {
+    templateId: { type: Schema.Types.ObjectId, ref: 'ReminderTemplate', default: null },
+    templateName: { type: String, required: true, trim: true },
+    channel: { type: String, required: true, trim: true },
+    filters: {
+      courseId: { type: Schema.Types.ObjectId, ref: 'Course', default: null },
+      stageNumber: { type: Number, default: null },
+      levelNumber: { type: Number, default: null },
+      batchId: { type: Schema.Types.ObjectId, ref: 'Batch', default: null },
+      minBalance: { type: Number, default: null },
+    },
+    cooldownDays: { type: Number, required: true, min: 0 },
+    targeted: { type: Number, default: 0 },
+    sent: { type: Number, default: 0 },
+    linksGenerated: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    skippedRecent: { type: Number, default: 0 },
+    skippedNoContact: { type: Number, default: 0 },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    startedAt: { type: Date, default: Date.now },
+    finishedAt: Date,
+  },
+  { timestamps: true, versionKey: false },
+);
+
+ReminderCampaignSchema.index({ startedAt: -1 });
+
+ReminderCampaignSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const ReminderCampaign = mongoose.model<IReminderCampaign>('ReminderCampaign', ReminderCampaignSchema);
+export default ReminderCampaign;
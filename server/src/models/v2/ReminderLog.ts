@@ -0,0 +1,63 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+export type ReminderStatus = 'sent' | 'link_generated' | 'failed';
+
+/**
+ * One fee reminder to one student, as rendered and handed to a channel.
+ * Append-only. Channels the admin completes by hand (WhatsApp) only produce
+ * a link for them to open; those rows are 'link_generated' and link holds it.
+ *
+ * The most recent 'sent' or 'link_generated' row per student drives the
+ * campaign cooldown, so a parent is not messaged twice within it.
+ */
+export interface IReminderLog extends Document {
+  studentId: Types.ObjectId;
+  campaignId?: Types.ObjectId | null;   // null for one-off reminders
+  templateId?: Types.ObjectId | null;
+  channel: string;
+  recipient: string;                    // phone or email address used
+  subject?: string;
+  message: string;
+  link?: string;
+  status: ReminderStatus;
+  error?: string;
+  balanceDue: number;
+  monthsDue: Date[];
+  sentBy: Types.ObjectId;
+  sentAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReminderLogSchema = new Schema<IReminderLog>(
+  {
+    studentId: { type: Schema.Types.ObjectId, ref: 'Student', required: true },
+    campaignId: { type: Schema.Types.ObjectId, ref: 'ReminderCampaign', default: null, index: true },
+    templateId: { type: Schema.Types.ObjectId, ref: 'ReminderTemplate', default: null },
+    channel: { type: String, required: true, trim: true },
+    recipient: { type: String, required: true, trim: true },
+    subject: { type: String, trim: true },
+    message: { type: String, required: true },
+    link: { type: String },
+    status: { type: String, enum: ['sent', 'link_generated', 'failed'], required: true },
+    error: { type: String, trim: true, maxlength: 1000 },
+    balanceDue: { type: Number, required: true, min: 0 },
+    monthsDue: { type: [Date], default: [] },
+    sentBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    sentAt: { type: Date, required: true, default: Date.now },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+ReminderLogSchema.index({ studentId: 1, sentAt: -1 });
+
+ReminderLogSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const ReminderLog = mongoose.model<IReminderLog>('ReminderLog', ReminderLogSchema);
+export default ReminderLog;
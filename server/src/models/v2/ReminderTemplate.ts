@@ -0,0 +1,42 @@
+import mongoose, { Schema, Types, Document } from 'mongoose';
+
+/**
+ * A fee reminder message. subject is used by channels that have one (email);
+ * body is sent everywhere. Both may use the placeholders listed in
+ * reminderService's REMINDER_PLACEHOLDERS, written as {{studentName}}.
+ */
+export interface IReminderTemplate extends Document {
+  name: string;
+  subject?: string;
+  body: string;
+  isActive: boolean;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReminderTemplateSchema = new Schema<IReminderTemplate>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    subject: { type: String, trim: true, maxlength: 200 },
+    body: { type: String, required: true, trim: true, maxlength: 2000 },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { timestamps: true, versionKey: false },
+);
+
+ReminderTemplateSchema.index({ name: 1 }, { unique: true });
+
+ReminderTemplateSchema.set('toJSON', {
+  transform(_doc: unknown, ret: any) {
+    ret.id = ret._id?.toString();
+    delete ret._id;
+    return ret;
+  },
+});
+
+const ReminderTemplate = mongoose.model<IReminderTemplate>('ReminderTemplate', ReminderTemplateSchema);
+export default ReminderTemplate;
@@ -83,7 +83,16 @@ const StudentV2Schema = new Schema<IStudentV2>({
     maxlength: [100, 'Referred by cannot exceed 100 characters']
   },
 
-  // ── Denormalized from active Enrollment ─────────────────────────
+  /** Guardian account shared with siblings. Null for students not in a family. */
+  familyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Family',
+    default: null
+  },
+
+  // ── Denormalized from the primary active Enrollment ─────────────
+  // A student enrolled in several courses mirrors the one currentEnrollmentId
+  // points at; the others are only on their Enrollment documents.
   courseId: {
     type: Schema.Types.ObjectId,
     ref: 'Course',
@@ -106,7 +115,7 @@ const StudentV2Schema = new Schema<IStudentV2>({
     ref: 'Batch',
     default: null
   },
-  /** Points to the active Enrollment (endDate: null). Null if no active enrollment. */
+  /** Points to the primary active Enrollment (endDate: null). Null if no active enrollment. */
   currentEnrollmentId: {
     type: Schema.Types.ObjectId,
     ref: 'Enrollment',
@@ -133,6 +142,13 @@ const StudentV2Schema = new Schema<IStudentV2>({
     required: true,
     default: 0,
     min: [0, 'creditBalance cannot be negative']
+  },
+  /** The import run that created the student; rolling the run back removes them. */
+  importRunId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ImportRun',
+    index: true,
+    sparse: true
   }
 }, {
   timestamps: true,
@@ -184,6 +200,7 @@ StudentV2Schema.index({ currentEnrollmentId: 1 });
 StudentV2Schema.index({ batchId: 1, isActive: 1 });
 StudentV2Schema.index({ courseId: 1, stageNumber: 1, levelNumber: 1, isActive: 1 });
 StudentV2Schema.index({ creditBalance: 1 });
+StudentV2Schema.index({ familyId: 1 });
 
 // ── Cascade delete ──────────────────────────────────────────────
 
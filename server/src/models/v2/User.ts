@@ -46,6 +46,14 @@ const UserSchema = new Schema<IUser>({
   deletedAt: {
     type: Date,
     default: null,
+  },
+  // The staff member who created this parent portal account. Only such
+  // accounts can have students linked: public registration verifies nothing
+  // about the email.
+  portalProvisionedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
   }
 }, {
   timestamps: true,
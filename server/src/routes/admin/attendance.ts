@@ -0,0 +1,129 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import ClassSession from '../../models/v2/ClassSession.js';
+import { parseBillingMonth } from '../../services/v2/billingService.js';
+import {
+  ATTENDANCE_STATUSES,
+  getBatchAttendance,
+  getSessionRoster,
+  getStudentAttendance,
+  markAttendance,
+  materializeSessions,
+  setSessionCancelled,
+} from '../../services/v2/attendanceService.js';
+
+const router = Router();
+
+// Longest range one generate call may cover (about three months).
+const MAX_GENERATE_DAYS = 92;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: unknown): Date | null {
+  if (!value) return null;
+  const parsed = new Date(String(value));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// ── Sessions ──────────────────────────────────────────────────────
+
+// Generate sessions for [from, to) — or for a whole month — from batch
+// schedules. Idempotent; the batch screens call it before showing a month.
+router.post('/sessions/generate', asyncHandler(async (req: Request, res: Response) => {
+  const { month, from, to, batchId } = req.body;
+  let range: { from: Date; to: Date } | null = null;
+  if (month) {
+    const monthStart = parseBillingMonth(month);
+    if (!monthStart) return res.status(400).json({ success: false, error: 'month must be in YYYY-MM format' });
+    range = { from: monthStart, to: new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1)) };
+  } else {
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+    if (!fromDate || !toDate) return res.status(400).json({ success: false, error: 'month, or from and to, are required' });
+    if (fromDate > toDate) return res.status(400).json({ success: false, error: 'from must be on or before to' });
+    if (toDate.getTime() - fromDate.getTime() > MAX_GENERATE_DAYS * DAY_MS) {
+      return res.status(400).json({ success: false, error: `Session range cannot exceed ${MAX_GENERATE_DAYS} days` });
+    }
+    range = { from: fromDate, to: toDate };
+  }
+  const summary = await materializeSessions({ ...range, batchId });
+  res.json({ success: true, data: summary, timestamp: new Date().toISOString() });
+}));
+
+router.get('/sessions', asyncHandler(async (req: Request, res: Response) => {
+  const { batchId, from, to, status } = req.query;
+  const filter: any = {};
+  if (batchId) filter.batchId = new Types.ObjectId(String(batchId));
+  if (status) filter.status = status;
+  const fromDate = parseDate(from);
+  const toDate = parseDate(to);
+  if (fromDate || toDate) {
+    filter.sessionDate = {};
+    if (fromDate) filter.sessionDate.$gte = fromDate;
+    if (toDate) filter.sessionDate.$lt = toDate;
+  }
+  const sessions = await ClassSession.find(filter)
+    .sort({ sessionDate: 1, startTime: 1 })
+    .limit(Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 200)));
+  res.json({ success: true, data: sessions, timestamp: new Date().toISOString() });
+}));
+
+router.get('/sessions/:id', asyncHandler(async (req: Request, res: Response) => {
+  const data = await getSessionRoster(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Body: { marks: [{ studentId, status, note? }] } — status is one of
+// present, absent, late, excused. Only students on the session's roster.
+router.put('/sessions/:id/attendance', asyncHandler(async (req: Request, res: Response) => {
+  const { marks } = req.body;
+  if (!Array.isArray(marks) || marks.length === 0) {
+    return res.status(400).json({ success: false, error: 'marks must be a non-empty array' });
+  }
+  for (const mark of marks) {
+    if (!mark?.studentId || !ATTENDANCE_STATUSES.includes(mark.status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Each mark needs a studentId and a status of ${ATTENDANCE_STATUSES.join(', ')}`,
+      });
+    }
+  }
+  const data = await markAttendance(req.params.id, marks, req.user!._id.toString());
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Body: { cancelled: boolean, cancelReason?, notes? }
+router.patch('/sessions/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { cancelled, cancelReason, notes } = req.body;
+  if (cancelled !== undefined && typeof cancelled !== 'boolean') {
+    return res.status(400).json({ success: false, error: 'cancelled must be a boolean' });
+  }
+  let session = cancelled !== undefined
+    ? await setSessionCancelled(req.params.id, cancelled, req.user!._id.toString(), cancelReason)
+    : await ClassSession.findById(req.params.id);
+  if (!session) return res.status(404).json({ success: false, error: 'Session not found' });
+  if (notes !== undefined) {
+    session.notes = notes;
+    session = await session.save();
+  }
+  res.json({ success: true, data: session, timestamp: new Date().toISOString() });
+}));
+
+// ── History ───────────────────────────────────────────────────────
+
+router.get('/students/:studentId', asyncHandler(async (req: Request, res: Response) => {
+  const data = await getStudentAttendance(req.params.studentId, {
+    from: parseDate(req.query.from) ?? undefined,
+    to: parseDate(req.query.to) ?? undefined,
+  });
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/batches/:batchId', asyncHandler(async (req: Request, res: Response) => {
+  const month = parseBillingMonth(req.query.month ?? new Date().toISOString().slice(0, 7));
+  if (!month) return res.status(400).json({ success: false, error: 'month must be in YYYY-MM format' });
+  const data = await getBatchAttendance(req.params.batchId, month);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+export default router;
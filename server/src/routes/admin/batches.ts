@@ -4,6 +4,14 @@ import { asyncHandler } from '../../middleware/errorHandler.js';
 import { authorize } from '../../middleware/auth.js';
 import Batch from '../../models/v2/Batch.js';
 import Enrollment from '../../models/v2/Enrollment.js';
+import {
+  addToWaitlist,
+  listSeatOffers,
+  listWaitlist,
+  promoteFromWaitlist,
+  removeFromWaitlist,
+  waitlistSizes,
+} from '../../services/v2/waitlistService.js';
 
 const router = Router();
 const requireSuperAdmin = authorize('superadmin');
@@ -26,16 +34,59 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   ]);
   const countMap: Record<string, number> = {};
   (counts as any[]).forEach((c) => { countMap[c._id.toString()] = c.count; });
+  const waiting = await waitlistSizes(batchIds);
 
   const data = batches.map((b: any) => ({
     ...b,
     id: b._id.toString(),
     activeStudentCount: countMap[b._id.toString()] ?? 0,
+    waitlistCount: waiting.get(b._id.toString()) ?? 0,
   }));
 
   res.json({ success: true, data, timestamp: new Date().toISOString() });
 }));
 
+// ── Waitlists ─────────────────────────────────────────────────────
+//
+// Queue management is an enrolment task, so any admin may do it (batch
+// set-up below stays superadmin-only).
+
+// Worklist: batches with a free seat and students waiting for one.
+router.get('/waitlist/seat-offers', asyncHandler(async (_req: Request, res: Response) => {
+  const data = await listSeatOffers();
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/:id/waitlist', asyncHandler(async (req: Request, res: Response) => {
+  const data = await listWaitlist(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.post('/:id/waitlist', asyncHandler(async (req: Request, res: Response) => {
+  const { studentId, note } = req.body ?? {};
+  if (!studentId) return res.status(400).json({ success: false, error: 'studentId is required' });
+  const { entry, position } = await addToWaitlist(req.params.id, studentId, req.user!._id.toString(), note);
+  res.status(201).json({ success: true, data: { ...entry.toJSON(), position }, timestamp: new Date().toISOString() });
+}));
+
+// Promote the student at the front of the queue, or entryId.
+router.post('/:id/waitlist/promote', asyncHandler(async (req: Request, res: Response) => {
+  const { entryId, date } = req.body ?? {};
+  if (date && Number.isNaN(new Date(date).getTime())) {
+    return res.status(400).json({ success: false, error: 'date must be a valid date' });
+  }
+  const result = await promoteFromWaitlist(req.params.id, req.user!._id.toString(), {
+    entryId,
+    date: date ? new Date(date) : undefined,
+  });
+  res.json({ success: true, data: result, timestamp: new Date().toISOString() });
+}));
+
+router.delete('/:id/waitlist/:entryId', asyncHandler(async (req: Request, res: Response) => {
+  const entry = await removeFromWaitlist(req.params.id, req.params.entryId, req.user!._id.toString());
+  res.json({ success: true, data: entry, timestamp: new Date().toISOString() });
+}));
+
 router.post('/', requireSuperAdmin, asyncHandler(async (req: Request, res: Response) => {
   const {
     batchName, batchCode, courseId, stageNumber, levelNumber,
@@ -56,14 +56,47 @@ router.post('/', requireSuperAdmin, asyncHandler(async (req: Request, res: Respo
 // ── Update course metadata ────────────────────────────────────────
 
 router.put('/:id', requireSuperAdmin, asyncHandler(async (req: Request, res: Response) => {
-  const { displayName, description, displayOrder, isActive } = req.body;
+  const { displayName, description, displayOrder, isActive, proRationPolicy, lateFeePolicy, makeupPolicy } = req.body;
   const update: any = {};
   if (displayName !== undefined) update.displayName = displayName;
   if (description !== undefined) update.description = description;
   if (displayOrder !== undefined) update.displayOrder = displayOrder;
   if (isActive !== undefined) update.isActive = isActive;
+  if (proRationPolicy !== undefined) {
+    const { method, cutoffDay } = proRationPolicy ?? {};
+    if (!['none', 'days', 'sessions', 'cutoff'].includes(method)) {
+      return res.status(400).json({ success: false, error: 'proRationPolicy.method must be none, days, sessions or cutoff' });
+    }
+    update['proRationPolicy.method'] = method;
+    if (cutoffDay !== undefined) update['proRationPolicy.cutoffDay'] = parseInt(cutoffDay);
+  }
+  if (lateFeePolicy !== undefined) {
+    const { enabled, type, value, graceDays, capPerInvoice } = lateFeePolicy ?? {};
+    if (type !== undefined && !['flat', 'percentage'].includes(type)) {
+      return res.status(400).json({ success: false, error: 'lateFeePolicy.type must be flat or percentage' });
+    }
+    for (const [field, v] of Object.entries({ value, graceDays, capPerInvoice })) {
+      if (v !== undefined && v !== null && !(Number(v) >= 0)) {
+        return res.status(400).json({ success: false, error: `lateFeePolicy.${field} must be a non-negative number` });
+      }
+    }
+    if (enabled !== undefined) update['lateFeePolicy.enabled'] = Boolean(enabled);
+    if (type !== undefined) update['lateFeePolicy.type'] = type;
+    if (value !== undefined) update['lateFeePolicy.value'] = Number(value);
+    if (graceDays !== undefined) update['lateFeePolicy.graceDays'] = parseInt(graceDays);
+    if (capPerInvoice !== undefined) update['lateFeePolicy.capPerInvoice'] = capPerInvoice === null || capPerInvoice === '' ? null : Number(capPerInvoice);
+  }
+  if (makeupPolicy !== undefined) {
+    const { enabled, expiryDays, excusedAbsences } = makeupPolicy ?? {};
+    if (expiryDays !== undefined && !(parseInt(expiryDays) >= 1)) {
+      return res.status(400).json({ success: false, error: 'makeupPolicy.expiryDays must be at least 1' });
+    }
+    if (enabled !== undefined) update['makeupPolicy.enabled'] = Boolean(enabled);
+    if (expiryDays !== undefined) update['makeupPolicy.expiryDays'] = parseInt(expiryDays);
+    if (excusedAbsences !== undefined) update['makeupPolicy.excusedAbsences'] = Boolean(excusedAbsences);
+  }
 
-  const course = await Course.findByIdAndUpdate(req.params.id, { $set: update }, { new: true });
+  const course = await Course.findByIdAndUpdate(req.params.id, { $set: update }, { new: true, runValidators: true });
   if (!course) return res.status(404).json({ success: false, error: 'Course not found' });
   res.json({ success: true, data: course, timestamp: new Date().toISOString() });
 }));
@@ -378,6 +411,7 @@ router.post('/:id/stages/:stageNum/levels/:levelNum/bulk-apply-fee', requireSupe
       // Load the current enrollment to carry the discount forward
       const currentEnrollment = await Enrollment.findOne({
         studentId: new Types.ObjectId(studentId),
+        courseId: course._id,
         endDate: null,
       }).lean() as any;
 
@@ -414,6 +448,7 @@ router.post('/:id/stages/:stageNum/levels/:levelNum/bulk-apply-fee', requireSupe
         existingDiscountAmount,
         false,
         'fee_change',
+        currentEnrollment._id.toString(),
       );
       if (!result.success) {
         failed.push({ studentId, error: (result as any).error ?? 'Unknown error' });
@@ -430,6 +465,7 @@ router.post('/:id/stages/:stageNum/levels/:levelNum/bulk-apply-fee', requireSupe
     try {
       const enrollment = await Enrollment.findOne({
         studentId: new Types.ObjectId(studentId),
+        courseId: course._id,
         endDate: null,
       });
       if (!enrollment) {
@@ -5,14 +5,95 @@ import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
 import StudentV2 from '../../models/v2/Student.js';
 import Enrollment from '../../models/v2/Enrollment.js';
 import Batch from '../../models/v2/Batch.js';
+import Course from '../../models/v2/Course.js';
+import CreditRefund from '../../models/v2/CreditRefund.js';
 
 const router = Router();
 
+interface BreakdownTotals {
+  collected: number;
+  outstanding: number;
+  overdue: number;
+  students: number;
+  paidStudents: number;
+}
+
+interface BreakdownRow {
+  _id: { courseId: unknown; stageNumber: number; levelNumber: number };
+  collected: number;
+  outstanding: number;
+  overdue: number;
+  studentIds: unknown[];
+  paidStudentIds: unknown[];
+}
+
+/**
+ * Roll per-(course, stage, level) invoice totals up into course → stage →
+ * level, named from each course's own stage configuration. Student counts are
+ * distinct at every level, so a student who moved stage counts once per
+ * course.
+ */
+async function buildCourseBreakdown(rows: BreakdownRow[]) {
+  const courseIds = [...new Set(rows.map((r) => String(r._id.courseId)))];
+  const courses = await Course.find({ _id: { $in: courseIds } }).select('displayName stages').lean();
+  const courseById = new Map(courses.map((c) => [c._id.toString(), c]));
+
+  type Acc = Omit<BreakdownTotals, 'students' | 'paidStudents'> & { studentIds: Set<string>; paidStudentIds: Set<string> };
+  const emptyAcc = (): Acc => ({ collected: 0, outstanding: 0, overdue: 0, studentIds: new Set(), paidStudentIds: new Set() });
+  const add = (acc: Acc, row: BreakdownRow) => {
+    acc.collected += row.collected ?? 0;
+    acc.outstanding += row.outstanding ?? 0;
+    acc.overdue += row.overdue ?? 0;
+    for (const id of row.studentIds ?? []) acc.studentIds.add(String(id));
+    for (const id of row.paidStudentIds ?? []) if (id !== null) acc.paidStudentIds.add(String(id));
+  };
+  const totals = ({ studentIds, paidStudentIds, ...money }: Acc): BreakdownTotals => ({
+    ...money,
+    students: studentIds.size,
+    paidStudents: paidStudentIds.size,
+  });
+
+  const byCourse = new Map<string, { acc: Acc; stages: Map<number, { acc: Acc; levels: Map<number, Acc> }> }>();
+  for (const row of rows) {
+    const courseKey = String(row._id.courseId);
+    if (!byCourse.has(courseKey)) byCourse.set(courseKey, { acc: emptyAcc(), stages: new Map() });
+    const course = byCourse.get(courseKey)!;
+    if (!course.stages.has(row._id.stageNumber)) course.stages.set(row._id.stageNumber, { acc: emptyAcc(), levels: new Map() });
+    const stage = course.stages.get(row._id.stageNumber)!;
+    if (!stage.levels.has(row._id.levelNumber)) stage.levels.set(row._id.levelNumber, emptyAcc());
+    add(course.acc, row);
+    add(stage.acc, row);
+    add(stage.levels.get(row._id.levelNumber)!, row);
+  }
+
+  return [...byCourse].map(([courseId, course]) => {
+    const config = courseById.get(courseId);
+    return {
+      courseId,
+      courseName: config?.displayName ?? 'Unknown course',
+      ...totals(course.acc),
+      stages: [...course.stages]
+        .sort(([a], [b]) => a - b)
+        .map(([stageNumber, stage]) => ({
+          stageNumber,
+          stageName: config?.stages.find((s) => s.stageNumber === stageNumber)?.stageName ?? `Stage ${stageNumber}`,
+          ...totals(stage.acc),
+          levels: [...stage.levels]
+            .sort(([a], [b]) => a - b)
+            .map(([levelNumber, level]) => ({ levelNumber, ...totals(level) })),
+        })),
+    };
+  }).sort((a, b) => a.courseName.localeCompare(b.courseName));
+}
+
 router.get('/', asyncHandler(async (_req: Request, res: Response) => {
   const now = new Date();
   const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
   const monthEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0, 23, 59, 59, 999));
 
+  // Late fees are reported on their own so tuition figures stay comparable
+  // month to month; every tuition query below excludes them.
+  const tuitionOnly = { isVoid: false, kind: { $ne: 'late_fee' } };
   const balanceExpr = {
     $max: [0, { $subtract: ['$amount', { $add: ['$allocatedAmount', { $ifNull: ['$waivedAmount', 0] }] }] }],
   };
@@ -20,8 +101,8 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
   const [
     totalActive, totalInactive, paused,
     feeStats, recentPayments, overdueRecords,
-    batchStats, creditTotal,
-    studentStatusCounts, stageBreakdownAgg,
+    batchStats, creditTotal, refundTotals,
+    studentStatusCounts, courseBreakdownAgg, lateFeeStats,
   ] = await Promise.all([
     StudentV2.countDocuments({ isActive: true }),
     StudentV2.countDocuments({ isActive: false }),
@@ -39,7 +120,7 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
     ]),
 
     Invoice.aggregate([
-      { $match: { isVoid: false } },
+      { $match: tuitionOnly },
       {
         $addFields: { balance: balanceExpr },
       },
@@ -74,8 +155,8 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
       .lean(),
 
     Invoice.find({
+      ...tuitionOnly,
       dueDate: { $lt: now },
-      isVoid: false,
       $expr: {
         $gt: [{ $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] }, 0],
       },
@@ -111,9 +192,14 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
 
     StudentV2.aggregate([{ $group: { _id: null, total: { $sum: '$creditBalance' } } }]),
 
+    CreditRefund.aggregate([
+      { $match: { status: { $in: ['pending', 'completed'] } } },
+      { $group: { _id: '$status', amount: { $sum: '$amount' }, count: { $sum: 1 } } },
+    ]),
+
     // Per-student status flags → roll up to counts
     Invoice.aggregate([
-      { $match: { isVoid: false } },
+      { $match: tuitionOnly },
       { $addFields: { balance: balanceExpr } },
       {
         $group: {
@@ -147,24 +233,20 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
       },
     ]),
 
-    // Per-stage fee breakdown
+    // Per course / stage / level fee breakdown
     Invoice.aggregate([
-      { $match: { isVoid: false } },
+      { $match: tuitionOnly },
       { $addFields: { balance: balanceExpr } },
       {
         $group: {
-          _id: '$stageNumber',
+          _id: { courseId: '$courseId', stageNumber: '$stageNumber', levelNumber: '$levelNumber' },
           collected: { $sum: '$allocatedAmount' },
+          outstanding: { $sum: '$balance' },
           overdue: {
             $sum: {
               $cond: [{ $and: [{ $lt: ['$dueDate', now] }, { $gt: ['$balance', 0] }] }, '$balance', 0],
             },
           },
-          upcoming: {
-            $sum: {
-              $cond: [{ $and: [{ $gte: ['$dueDate', now] }, { $gt: ['$balance', 0] }] }, '$balance', 0],
-            },
-          },
           studentIds: { $addToSet: '$studentId' },
           paidStudentIds: {
             $addToSet: { $cond: [{ $eq: ['$balance', 0] }, '$studentId', null] },
@@ -172,6 +254,19 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
         },
       },
     ]),
+
+    Invoice.aggregate([
+      { $match: { isVoid: false, kind: 'late_fee' } },
+      {
+        $group: {
+          _id: null,
+          assessed: { $sum: '$amount' },
+          collected: { $sum: '$allocatedAmount' },
+          waived: { $sum: { $ifNull: ['$waivedAmount', 0] } },
+          outstanding: { $sum: balanceExpr },
+        },
+      },
+    ]),
   ]);
 
   const stats = feeStats[0] ?? { totalFees: 0, totalPaid: 0, totalWaived: 0, totalPartiallyPaid: 0 };
@@ -179,28 +274,12 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
     return sum + Math.max(0, r.amount - r.allocatedAmount - (r.waivedAmount ?? 0));
   }, 0);
 
+  const lateFees = (lateFeeStats as any[])[0] ?? { assessed: 0, collected: 0, waived: 0, outstanding: 0 };
   const statusCounts = (studentStatusCounts as any[])[0] ?? { paidStudents: 0, upcomingStudents: 0, partialStudents: 0 };
   const pausedCount = (paused as any[])[0]?.count ?? 0;
 
-  // Map stageNumber → stage name for frontend compatibility
-  const STAGE_NAMES: Record<number, string> = { 1: 'beginner', 2: 'intermediate', 3: 'advanced' };
-  const stageBreakdown: Record<string, any> = {
-    beginner: { collected: 0, upcoming: 0, overdue: 0, students: 0, paidStudents: 0 },
-    intermediate: { collected: 0, upcoming: 0, overdue: 0, students: 0, paidStudents: 0 },
-    advanced: { collected: 0, upcoming: 0, overdue: 0, students: 0, paidStudents: 0 },
-  };
-  (stageBreakdownAgg as any[]).forEach((s) => {
-    const stageName = STAGE_NAMES[s._id] ?? `stage_${s._id}`;
-    const studentCount = (s.studentIds ?? []).length;
-    const paidStudentCount = (s.paidStudentIds ?? []).filter((id: any) => id !== null).length;
-    stageBreakdown[stageName] = {
-      collected: s.collected ?? 0,
-      upcoming: s.upcoming ?? 0,
-      overdue: s.overdue ?? 0,
-      students: studentCount,
-      paidStudents: paidStudentCount,
-    };
-  });
+  const courseBreakdown = await buildCourseBreakdown(courseBreakdownAgg as BreakdownRow[]);
+  const refundsByStatus = new Map((refundTotals as any[]).map((r) => [r._id as string, r as { amount: number; count: number }]));
 
   res.json({
     success: true,
@@ -216,8 +295,21 @@ router.get('/', asyncHandler(async (_req: Request, res: Response) => {
         upcomingStudents: statusCounts.upcomingStudents,
         partialStudents: statusCounts.partialStudents,
       },
-      stageBreakdown,
+      lateFees: {
+        assessed: lateFees.assessed,
+        collected: lateFees.collected,
+        waived: lateFees.waived,
+        outstanding: lateFees.outstanding,
+      },
+      courseBreakdown,
       totalCreditsOnAccount: (creditTotal as any[])[0]?.total ?? 0,
+      credits: {
+        onAccount: (creditTotal as any[])[0]?.total ?? 0,
+        refunded: refundsByStatus.get('completed')?.amount ?? 0,
+        refundCount: refundsByStatus.get('completed')?.count ?? 0,
+        pendingRefunds: refundsByStatus.get('pending')?.amount ?? 0,
+        pendingRefundCount: refundsByStatus.get('pending')?.count ?? 0,
+      },
       recentPayments,
       overdueStudents: (overdueRecords as any[]).map((r) => ({
         studentId: r.studentId,
@@ -4,15 +4,51 @@ import { asyncHandler } from '../../middleware/errorHandler.js';
 import Enrollment from '../../models/v2/Enrollment.js';
 import Course from '../../models/v2/Course.js';
 import {
+  addCourseEnrollment,
+  findActiveEnrollment,
   upgradeStudentLevel,
   changeBatch,
   pauseEnrollment,
   resumeEnrollment,
   leaveEnrollment,
 } from '../../services/v2/feeService.js';
+import { extendPause } from '../../services/v2/pauseExpiryService.js';
 
 const router = Router({ mergeParams: true });
 
+/**
+ * Effective fee for an enrollment priced from the course level: the admin's
+ * figure, or the level fee less the chosen discount.
+ */
+async function priceEnrollment(body: Record<string, any>) {
+  const { courseId, stageNumber, levelNumber, monthlyFee, discountPct, discountType, discountAmount } = body;
+  const adminEnteredFee = parseInt(monthlyFee);
+  const resolvedDiscountType: 'none' | 'percentage' | 'fixed' = discountType ?? 'none';
+  const resolvedDiscountPct = discountType === 'percentage' ? parseFloat(discountPct ?? 0) : 0;
+  const resolvedDiscountAmount = discountType === 'fixed' ? parseFloat(discountAmount ?? 0) : 0;
+
+  // grossFee = authoritative course level fee
+  const course = await Course.findById(courseId);
+  if (!course) return null;
+  const courseLevelFee = (course as any).getFeeForLevel(parseInt(stageNumber), parseInt(levelNumber)) ?? adminEnteredFee;
+
+  let effectiveFee = adminEnteredFee;
+  if (resolvedDiscountType === 'percentage') {
+    effectiveFee = Math.round(courseLevelFee * (1 - resolvedDiscountPct / 100));
+  } else if (resolvedDiscountType === 'fixed') {
+    effectiveFee = Math.max(0, courseLevelFee - resolvedDiscountAmount);
+  }
+
+  return {
+    effectiveFee,
+    courseLevelFee,
+    discountType: resolvedDiscountType,
+    discountPct: resolvedDiscountPct,
+    discountAmount: resolvedDiscountAmount,
+    feeOverridden: resolvedDiscountType === 'none' && adminEnteredFee !== courseLevelFee,
+  };
+}
+
 // ── Enrollment history for a student ─────────────────────────────
 
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
@@ -23,42 +59,63 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   res.json({ success: true, data: enrollments, timestamp: new Date().toISOString() });
 }));
 
-// ── Upgrade stage/level ───────────────────────────────────────────
+// ── Enrol in another course ───────────────────────────────────────
+//
+// Adds a concurrent enrollment; the student's existing courses are untouched.
 
-router.post('/upgrade', asyncHandler(async (req: Request, res: Response) => {
-  const { courseId, stageNumber, levelNumber, monthlyFee, upgradeDate, batchId,
-    discountPct, discountReason, discountType, discountAmount } = req.body;
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const { courseId, stageNumber, levelNumber, monthlyFee, startDate, batchId, discountReason } = req.body;
   const adminUserId = (req as any).user._id.toString();
 
   if (!courseId || stageNumber === undefined || levelNumber === undefined || monthlyFee === undefined) {
     return res.status(400).json({ success: false, error: 'courseId, stageNumber, levelNumber, and monthlyFee are required' });
   }
+  const pricing = await priceEnrollment(req.body);
+  if (!pricing) return res.status(400).json({ success: false, error: 'Course not found' });
+
+  const enrollment = await addCourseEnrollment({
+    studentId: req.params.id,
+    courseId,
+    stageNumber: parseInt(stageNumber),
+    levelNumber: parseInt(levelNumber),
+    batchId: batchId || null,
+    monthlyFee: pricing.effectiveFee,
+    grossFee: pricing.courseLevelFee,
+    discountType: pricing.discountType,
+    discountPct: pricing.discountPct,
+    discountAmount: pricing.discountAmount,
+    discountReason,
+    feeOverridden: pricing.feeOverridden,
+    startDate: startDate ? new Date(startDate) : new Date(),
+    createdBy: adminUserId,
+  });
 
-  const adminEnteredFee = parseInt(monthlyFee);
-  const resolvedDiscountType: 'none' | 'percentage' | 'fixed' = discountType ?? 'none';
-  const resolvedDiscountPct = discountType === 'percentage' ? parseFloat(discountPct ?? 0) : 0;
-  const resolvedDiscountAmount = discountType === 'fixed' ? parseFloat(discountAmount ?? 0) : 0;
+  res.status(201).json({ success: true, data: enrollment, timestamp: new Date().toISOString() });
+}));
 
-  // grossFee = authoritative course level fee
-  const course = await Course.findById(courseId);
-  if (!course) return res.status(400).json({ success: false, error: 'Course not found' });
-  const courseLevelFee = (course as any).getFeeForLevel(parseInt(stageNumber), parseInt(levelNumber)) ?? adminEnteredFee;
+// ── Upgrade stage/level ───────────────────────────────────────────
+//
+// enrollmentId picks which course's enrollment moves when the student is
+// enrolled in more than one.
 
-  let effectiveFee = adminEnteredFee;
-  if (resolvedDiscountType === 'percentage') {
-    effectiveFee = Math.round(courseLevelFee * (1 - resolvedDiscountPct / 100));
-  } else if (resolvedDiscountType === 'fixed') {
-    effectiveFee = Math.max(0, courseLevelFee - resolvedDiscountAmount);
+router.post('/upgrade', asyncHandler(async (req: Request, res: Response) => {
+  const { courseId, stageNumber, levelNumber, monthlyFee, upgradeDate, batchId, discountReason, enrollmentId } = req.body;
+  const adminUserId = (req as any).user._id.toString();
+
+  if (!courseId || stageNumber === undefined || levelNumber === undefined || monthlyFee === undefined) {
+    return res.status(400).json({ success: false, error: 'courseId, stageNumber, levelNumber, and monthlyFee are required' });
   }
 
-  const feeOverridden = resolvedDiscountType === 'none' && adminEnteredFee !== courseLevelFee;
+  const pricing = await priceEnrollment(req.body);
+  if (!pricing) return res.status(400).json({ success: false, error: 'Course not found' });
   const requestedBatchId = Object.prototype.hasOwnProperty.call(req.body, 'batchId')
     ? (batchId ?? null)
     : undefined;
 
   // Detect whether this is a fee-only change (same stage/level) vs a true level upgrade
-  const currentEnrollment = await Enrollment.findOne({ studentId: new Types.ObjectId(req.params.id), endDate: null });
+  const currentEnrollment = await findActiveEnrollment(req.params.id, { enrollmentId, courseId });
   const isFeeChange = currentEnrollment
+    && currentEnrollment.courseId.toString() === courseId
     && currentEnrollment.stageNumber === parseInt(stageNumber)
     && currentEnrollment.levelNumber === parseInt(levelNumber);
   const endReason: 'upgraded' | 'fee_change' = isFeeChange ? 'fee_change' : 'upgraded';
@@ -66,17 +123,18 @@ router.post('/upgrade', asyncHandler(async (req: Request, res: Response) => {
   const result = await upgradeStudentLevel(
     req.params.id, courseId,
     parseInt(stageNumber), parseInt(levelNumber),
-    effectiveFee,
+    pricing.effectiveFee,
     upgradeDate ? new Date(upgradeDate) : new Date(),
     adminUserId,
     requestedBatchId,
-    resolvedDiscountPct,
+    pricing.discountPct,
     discountReason,
-    courseLevelFee,
-    resolvedDiscountType,
-    resolvedDiscountAmount,
-    feeOverridden,
+    pricing.courseLevelFee,
+    pricing.discountType,
+    pricing.discountAmount,
+    pricing.feeOverridden,
     endReason,
+    enrollmentId,
   );
 
   if (!result.success) return res.status(400).json({ success: false, error: result.error });
@@ -86,7 +144,7 @@ router.post('/upgrade', asyncHandler(async (req: Request, res: Response) => {
 // ── Change batch (same stage/level) ──────────────────────────────
 
 router.post('/change-batch', asyncHandler(async (req: Request, res: Response) => {
-  const { newBatchId, changeDate } = req.body;
+  const { newBatchId, changeDate, enrollmentId } = req.body;
   const adminUserId = (req as any).user._id.toString();
 
   const result = await changeBatch(
@@ -94,6 +152,7 @@ router.post('/change-batch', asyncHandler(async (req: Request, res: Response) =>
     newBatchId ?? null,
     changeDate ? new Date(changeDate) : new Date(),
     adminUserId,
+    enrollmentId,
   );
 
   if (!result.success) return res.status(400).json({ success: false, error: result.error });
@@ -103,7 +162,7 @@ router.post('/change-batch', asyncHandler(async (req: Request, res: Response) =>
 // ── Pause enrollment ──────────────────────────────────────────────
 
 router.post('/pause', asyncHandler(async (req: Request, res: Response) => {
-  const { pauseDate, pausedUntil } = req.body;
+  const { pauseDate, pausedUntil, enrollmentId } = req.body;
   const adminUserId = (req as any).user._id.toString();
 
   if (!pausedUntil) return res.status(400).json({ success: false, error: 'pausedUntil is required' });
@@ -113,6 +172,7 @@ router.post('/pause', asyncHandler(async (req: Request, res: Response) => {
     pauseDate ? new Date(pauseDate) : new Date(),
     new Date(pausedUntil),
     adminUserId,
+    enrollmentId,
   );
 
   res.json({ success: true, message: 'Enrollment paused', timestamp: new Date().toISOString() });
@@ -121,28 +181,45 @@ router.post('/pause', asyncHandler(async (req: Request, res: Response) => {
 // ── Resume enrollment ─────────────────────────────────────────────
 
 router.post('/resume', asyncHandler(async (req: Request, res: Response) => {
-  const { resumeDate } = req.body;
+  const { resumeDate, enrollmentId } = req.body;
   const adminUserId = (req as any).user._id.toString();
 
   const enrollment = await resumeEnrollment(
     req.params.id,
     resumeDate ? new Date(resumeDate) : new Date(),
     adminUserId,
+    { enrollmentId },
   );
 
   res.json({ success: true, data: enrollment, timestamp: new Date().toISOString() });
 }));
 
+// ── Extend pause ──────────────────────────────────────────────────
+
+router.post('/extend-pause', asyncHandler(async (req: Request, res: Response) => {
+  const { pausedUntil, enrollmentId } = req.body;
+  const adminUserId = (req as any).user._id.toString();
+
+  if (!pausedUntil || Number.isNaN(new Date(pausedUntil).getTime())) {
+    return res.status(400).json({ success: false, error: 'pausedUntil must be a valid date' });
+  }
+
+  const enrollment = await extendPause(req.params.id, new Date(pausedUntil), adminUserId, enrollmentId);
+
+  res.json({ success: true, data: enrollment, timestamp: new Date().toISOString() });
+}));
+
 // ── Mark as left ──────────────────────────────────────────────────
 
 router.post('/leave', asyncHandler(async (req: Request, res: Response) => {
-  const { leaveDate } = req.body;
+  const { leaveDate, enrollmentId } = req.body;
   const adminUserId = (req as any).user._id.toString();
 
   await leaveEnrollment(
     req.params.id,
     leaveDate ? new Date(leaveDate) : new Date(),
     adminUserId,
+    enrollmentId,
   );
 
   res.json({ success: true, message: 'Student marked as left', timestamp: new Date().toISOString() });
@@ -154,15 +231,12 @@ router.post('/leave', asyncHandler(async (req: Request, res: Response) => {
 // and will be excluded from the fee-divergence report.
 
 router.patch('/grandfather', asyncHandler(async (req: Request, res: Response) => {
-  const { grandfathered, note } = req.body;
+  const { grandfathered, note, enrollmentId } = req.body;
   if (typeof grandfathered !== 'boolean') {
     return res.status(400).json({ success: false, error: 'grandfathered (boolean) is required' });
   }
 
-  const enrollment = await Enrollment.findOne({
-    studentId: new Types.ObjectId(req.params.id),
-    endDate: null,
-  });
+  const enrollment = await findActiveEnrollment(req.params.id, { enrollmentId });
   if (!enrollment) {
     return res.status(404).json({ success: false, error: 'No active enrollment found for this student' });
   }
@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import { EXPORT_ENTITIES, EntityExport, ExportEntity, buildEntityExport } from '../../services/v2/exportService.js';
+import { TABULAR_FORMATS, TabularFormat, streamTabular } from '../../utils/tabular.js';
+
+const router = Router();
+
+// ── Full list exports ─────────────────────────────────────────────
+//
+// entity: students | invoices | payments | leads. format: csv (default) or
+// xlsx. Every other query parameter is the entity's list filter, so an
+// export holds every row the list would page through.
+
+router.get('/:entity', asyncHandler(async (req: Request, res: Response) => {
+  const entity = req.params.entity as ExportEntity;
+  if (!EXPORT_ENTITIES.includes(entity)) {
+    return res.status(400).json({ success: false, error: `entity must be one of: ${EXPORT_ENTITIES.join(', ')}` });
+  }
+  const format = ((req.query.format as string | undefined) ?? 'csv') as TabularFormat;
+  if (!TABULAR_FORMATS.includes(format)) {
+    return res.status(400).json({ success: false, error: `format must be one of: ${TABULAR_FORMATS.join(', ')}` });
+  }
+
+  const send = <Row>({ sheetName, columns, rows }: EntityExport<Row>) =>
+    streamTabular(res, format, `${entity}-${new Date().toISOString().slice(0, 10)}`, columns, rows, sheetName);
+  const data = await buildEntityExport(entity, req.query, req.user!._id as Types.ObjectId);
+  switch (data.entity) {
+    case 'students': return send(data);
+    case 'invoices': return send(data);
+    case 'payments': return send(data);
+    case 'leads': return send(data);
+  }
+}));
+
+export default router;
@@ -0,0 +1,238 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import Family from '../../models/v2/Family.js';
+import StudentV2 from '../../models/v2/Student.js';
+import Invoice from '../../models/v2/Invoice.js';
+import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
+import { processFamilyPayment } from '../../services/v2/feeService.js';
+
+const router = Router();
+
+// Family field → the student field it is shared into.
+const SHARED_CONTACTS: Record<string, string> = {
+  guardianName: 'parentName',
+  phone: 'phone',
+  email: 'email',
+  alternatePhone: 'alternatePhone',
+  address: 'address',
+};
+
+/** The family's contact details as a $set for its members (unset fields are left alone). */
+function memberContactUpdate(family: Record<string, any>): Record<string, string> {
+  const update: Record<string, string> = {};
+  for (const [from, to] of Object.entries(SHARED_CONTACTS)) {
+    if (family[from]) update[to] = family[from];
+  }
+  return update;
+}
+
+function validateSiblingDiscount(rule: any): string | null {
+  if (rule === undefined) return null;
+  if (rule.type !== undefined && !['percentage', 'fixed'].includes(rule.type)) {
+    return 'siblingDiscount.type must be percentage or fixed';
+  }
+  if (rule.value !== undefined && !(Number(rule.value) >= 0)) return 'siblingDiscount.value must be ≥ 0';
+  if (rule.type === 'percentage' && Number(rule.value) > 100) return 'siblingDiscount.value cannot exceed 100%';
+  return null;
+}
+
+const balanceExpr = { $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] };
+
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const { search } = req.query;
+  const filter: any = {};
+  if (search) {
+    const pattern = new RegExp(String(search).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    filter.$or = [{ familyName: pattern }, { guardianName: pattern }, { phone: pattern }, { email: pattern }];
+  }
+  const families = await Family.find(filter).sort({ familyName: 1 }).lean();
+  const familyIds = families.map((f) => f._id);
+
+  const members = await StudentV2.find({ familyId: { $in: familyIds } })
+    .select('familyId studentName studentCode isActive creditBalance')
+    .sort({ enrollmentDate: 1 })
+    .lean();
+  const balances = await Invoice.aggregate([
+    { $match: { studentId: { $in: members.map((m) => m._id) }, isVoid: false } },
+    { $group: { _id: '$studentId', balanceDue: { $sum: { $max: [0, balanceExpr] } } } },
+  ]);
+  const balanceByStudent = new Map((balances as any[]).map((b) => [b._id.toString(), b.balanceDue]));
+
+  const data = families.map((f) => {
+    const familyMembers = members
+      .filter((m) => m.familyId?.toString() === f._id.toString())
+      .map((m) => ({ ...m, id: m._id.toString(), balanceDue: balanceByStudent.get(m._id.toString()) ?? 0 }));
+    return {
+      ...f,
+      id: f._id.toString(),
+      members: familyMembers,
+      balanceDue: familyMembers.reduce((sum, m) => sum + m.balanceDue, 0),
+    };
+  });
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const family = await Family.findById(req.params.id).lean();
+  if (!family) return res.status(404).json({ success: false, error: 'Family not found' });
+  const members = await StudentV2.find({ familyId: family._id })
+    .select('studentName studentCode isActive creditBalance courseId stageNumber levelNumber currentEnrollmentId')
+    .sort({ enrollmentDate: 1 })
+    .lean();
+  const openInvoices = await Invoice.find({
+    studentId: { $in: members.map((m) => m._id) },
+    isVoid: false,
+    $expr: { $gt: [balanceExpr, 0] },
+  })
+    .sort({ dueDate: 1, invoiceMonth: 1 })
+    .lean({ virtuals: true });
+
+  res.json({
+    success: true,
+    data: { ...family, id: family._id.toString(), members, openInvoices },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const { familyName, guardianName, phone, email, alternatePhone, address, notes, siblingDiscount, studentIds } = req.body;
+  if (!familyName) return res.status(400).json({ success: false, error: 'familyName is required' });
+  if (!phone && !email) return res.status(400).json({ success: false, error: 'phone or email is required' });
+  const ruleError = validateSiblingDiscount(siblingDiscount);
+  if (ruleError) return res.status(400).json({ success: false, error: ruleError });
+
+  // Same rules as adding members one at a time, checked before anything is written.
+  const memberIds: Types.ObjectId[] = [];
+  if (studentIds !== undefined) {
+    if (!Array.isArray(studentIds) || studentIds.some((id) => typeof id !== 'string' || !Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ success: false, error: 'studentIds must be a list of student IDs' });
+    }
+    memberIds.push(...Array.from(new Set(studentIds as string[]), (id) => new Types.ObjectId(id)));
+    const students = await StudentV2.find({ _id: { $in: memberIds } }).select('familyId').lean();
+    if (students.length !== memberIds.length) {
+      return res.status(404).json({ success: false, error: 'Student not found' });
+    }
+    if (students.some((s) => s.familyId)) {
+      return res.status(409).json({ success: false, error: 'Student already belongs to another family — remove them from it first' });
+    }
+  }
+
+  const family = await Family.create({
+    familyName, guardianName, phone, email, alternatePhone, address, notes,
+    siblingDiscount: siblingDiscount ?? {},
+    createdBy: req.user!._id,
+  });
+  if (memberIds.length > 0) {
+    await StudentV2.updateMany(
+      // familyId: null guards against a student joining another family meanwhile
+      { _id: { $in: memberIds }, familyId: null },
+      { $set: { familyId: family._id, ...memberContactUpdate(family.toObject()) } },
+    );
+  }
+  res.status(201).json({ success: true, data: family, timestamp: new Date().toISOString() });
+}));
+
+// Contact changes are shared: they are copied onto every member.
+router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const allowed = ['familyName', 'guardianName', 'phone', 'email', 'alternatePhone', 'address', 'notes'];
+  const update: any = {};
+  for (const key of allowed) {
+    if (req.body[key] !== undefined) update[key] = req.body[key];
+  }
+  const { siblingDiscount } = req.body;
+  const ruleError = validateSiblingDiscount(siblingDiscount);
+  if (ruleError) return res.status(400).json({ success: false, error: ruleError });
+  if (siblingDiscount !== undefined) {
+    for (const key of ['enabled', 'type', 'value', 'reason']) {
+      if (siblingDiscount[key] !== undefined) update[`siblingDiscount.${key}`] = siblingDiscount[key];
+    }
+  }
+
+  const family = await Family.findByIdAndUpdate(req.params.id, { $set: update }, { new: true, runValidators: true });
+  if (!family) return res.status(404).json({ success: false, error: 'Family not found' });
+
+  const changedContacts = Object.fromEntries(Object.keys(SHARED_CONTACTS).filter((k) => k in update).map((k) => [k, update[k]]));
+  const memberUpdate = memberContactUpdate(changedContacts);
+  if (Object.keys(memberUpdate).length > 0) {
+    await StudentV2.updateMany({ familyId: family._id }, { $set: memberUpdate });
+  }
+  res.json({ success: true, data: family, timestamp: new Date().toISOString() });
+}));
+
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const memberCount = await StudentV2.countDocuments({ familyId: new Types.ObjectId(req.params.id) });
+  if (memberCount > 0) {
+    return res.status(400).json({ success: false, error: `Cannot delete: ${memberCount} student(s) still belong to this family` });
+  }
+  const family = await Family.findByIdAndDelete(req.params.id);
+  if (!family) return res.status(404).json({ success: false, error: 'Family not found' });
+  res.json({ success: true, message: 'Family deleted', timestamp: new Date().toISOString() });
+}));
+
+// ── Members ───────────────────────────────────────────────────────
+
+router.post('/:id/members', asyncHandler(async (req: Request, res: Response) => {
+  const { studentId } = req.body;
+  if (!studentId) return res.status(400).json({ success: false, error: 'studentId is required' });
+  const family = await Family.findById(req.params.id).lean();
+  if (!family) return res.status(404).json({ success: false, error: 'Family not found' });
+
+  const student = await StudentV2.findById(studentId).select('familyId');
+  if (!student) return res.status(404).json({ success: false, error: 'Student not found' });
+  if (student.familyId && !student.familyId.equals(family._id)) {
+    return res.status(409).json({ success: false, error: 'Student already belongs to another family — remove them from it first' });
+  }
+  const updated = await StudentV2.findByIdAndUpdate(
+    studentId,
+    { $set: { familyId: family._id, ...memberContactUpdate(family) } },
+    { new: true },
+  );
+  res.json({ success: true, data: updated, timestamp: new Date().toISOString() });
+}));
+
+router.delete('/:id/members/:studentId', asyncHandler(async (req: Request, res: Response) => {
+  const student = await StudentV2.findOneAndUpdate(
+    { _id: new Types.ObjectId(req.params.studentId), familyId: new Types.ObjectId(req.params.id) },
+    { $set: { familyId: null } },
+    { new: true },
+  );
+  if (!student) return res.status(404).json({ success: false, error: 'Student is not a member of this family' });
+  res.json({ success: true, data: student, timestamp: new Date().toISOString() });
+}));
+
+// ── Family payments ───────────────────────────────────────────────
+//
+// One payment from the guardian, split across the siblings' open invoices
+// oldest-first. Each sibling's share is recorded as its own payment (with its
+// own receipt) linked by familyPaymentId.
+
+router.post('/:id/payments', asyncHandler(async (req: Request, res: Response) => {
+  const { amount, paymentMethod, transactionId, idempotencyKey, paymentDate, remarks, creditStudentId } = req.body;
+  // Whole rupees only: the amount is split across several students' invoices.
+  const rupees = Number(amount);
+  if (!Number.isInteger(rupees) || rupees <= 0) {
+    return res.status(400).json({ success: false, error: 'amount must be a positive whole number' });
+  }
+  if (!paymentMethod) return res.status(400).json({ success: false, error: 'paymentMethod is required' });
+
+  const result = await processFamilyPayment(
+    req.params.id,
+    rupees,
+    paymentMethod,
+    req.user!._id.toString(),
+    transactionId,
+    { idempotencyKey, paymentDate: paymentDate ? new Date(paymentDate) : undefined, remarks, creditStudentId },
+  );
+  res.status(201).json({ success: true, data: result, timestamp: new Date().toISOString() });
+}));
+
+router.get('/:id/payments', asyncHandler(async (req: Request, res: Response) => {
+  const payments = await PaymentTransaction.find({ familyId: new Types.ObjectId(req.params.id) })
+    .sort({ paymentDate: -1, createdAt: -1 })
+    .limit(Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50)))
+    .lean();
+  res.json({ success: true, data: payments, timestamp: new Date().toISOString() });
+}));
+
+export default router;
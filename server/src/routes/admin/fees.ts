@@ -1,11 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { Types } from 'mongoose';
 import { asyncHandler } from '../../middleware/errorHandler.js';
+import { authorize } from '../../middleware/auth.js';
 import Invoice from '../../models/v2/Invoice.js';
 import CreditLedger from '../../models/v2/CreditLedger.js';
 import WaiverLedger from '../../models/v2/WaiverLedger.js';
 import StudentV2 from '../../models/v2/Student.js';
 import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
+import BillingRun from '../../models/v2/BillingRun.js';
+import { parseBillingMonth, runMonthlyBilling } from '../../services/v2/billingService.js';
+import { assessLateFees } from '../../services/v2/lateFeeService.js';
+import { RenderedDocument, renderInvoicePdf, renderReceiptPdf } from '../../services/v2/documentService.js';
 import {
   addCredit,
   correctInvoiceAmount,
@@ -16,45 +21,28 @@ import {
   voidInvoice,
   waiveInvoice,
 } from '../../services/v2/feeService.js';
+import { invoiceListFilter } from '../../services/v2/listFilterService.js';
+import {
+  approveCreditRefund,
+  listCreditRefunds,
+  rejectCreditRefund,
+  requestCreditRefund,
+} from '../../services/v2/refundService.js';
+import type { CreditRefundStatus, RefundMethod } from '../../models/v2/CreditRefund.js';
 
 const router = Router();
+const requireSuperAdmin = authorize('superadmin');
+
+function sendPdf(res: Response, document: RenderedDocument) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+  res.send(document.buffer);
+}
 
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const page = Math.max(1, parseInt(req.query.page as string) || 1);
   const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
-  const { studentId, status, courseId, stageNumber, levelNumber, monthFrom, monthTo } = req.query;
-
-  const filter: any = { isVoid: false };
-  if (studentId) filter.studentId = new Types.ObjectId(studentId as string);
-  if (courseId) filter.courseId = new Types.ObjectId(courseId as string);
-  if (stageNumber) filter.stageNumber = parseInt(stageNumber as string);
-  if (levelNumber) filter.levelNumber = parseInt(levelNumber as string);
-  if (monthFrom || monthTo) {
-    filter.invoiceMonth = {};
-    if (monthFrom) filter.invoiceMonth.$gte = new Date(monthFrom as string);
-    if (monthTo) filter.invoiceMonth.$lte = new Date(monthTo as string);
-  }
-
-  const now = new Date();
-  const balanceExpr = { $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] };
-  if (status === 'paid') {
-    filter.$expr = { $lte: [balanceExpr, 0] };
-  } else if (status === 'partially_paid') {
-    filter.$expr = {
-      $and: [
-        { $gt: [{ $add: ['$allocatedAmount', '$waivedAmount'] }, 0] },
-        { $gt: [balanceExpr, 0] },
-      ],
-    };
-  } else if (status === 'overdue') {
-    filter.dueDate = { $lt: now };
-    filter.$expr = { $gt: [balanceExpr, 0] };
-  } else if (status === 'upcoming') {
-    filter.dueDate = { $gte: now };
-    filter.$expr = { $gt: [balanceExpr, 0] };
-  } else if (status === 'void') {
-    filter.isVoid = true;
-  }
+  const filter = invoiceListFilter(req.query);
 
   const [total, invoices] = await Promise.all([
     Invoice.countDocuments(filter),
@@ -101,6 +89,61 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
   res.status(201).json({ success: true, data: invoice, timestamp: new Date().toISOString() });
 }));
 
+// ── Monthly billing runs ──────────────────────────────────────────
+//
+// Creates the month's invoice for every active enrollment. dryRun (the
+// default) returns the would-be outcomes without writing; only applied runs
+// are persisted as BillingRun records.
+
+router.post('/billing-runs', asyncHandler(async (req: Request, res: Response) => {
+  const { month, dryRun } = req.body ?? {};
+  const billingMonth = parseBillingMonth(month ?? new Date().toISOString().slice(0, 7));
+  if (!billingMonth) return res.status(400).json({ success: false, error: 'month must be in YYYY-MM format' });
+
+  const summary = await runMonthlyBilling({
+    billingMonth,
+    apply: dryRun === false || dryRun === 'false',
+    adminUserId: req.user!._id.toString(),
+    trigger: 'manual',
+  });
+  res.status(summary.mode === 'apply' ? 201 : 200).json({ success: true, data: summary, timestamp: new Date().toISOString() });
+}));
+
+router.get('/billing-runs', asyncHandler(async (req: Request, res: Response) => {
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+  const runs = await BillingRun.find()
+    .select('-outcomes')
+    .sort({ startedAt: -1 })
+    .limit(limit)
+    .populate('startedBy', 'name email')
+    .lean();
+  res.json({ success: true, data: runs, timestamp: new Date().toISOString() });
+}));
+
+router.get('/billing-runs/:runId', asyncHandler(async (req: Request, res: Response) => {
+  const run = await BillingRun.findById(req.params.runId).populate('startedBy', 'name email').lean();
+  if (!run) return res.status(404).json({ success: false, error: 'Billing run not found' });
+  res.json({ success: true, data: run, timestamp: new Date().toISOString() });
+}));
+
+// ── Late fees ─────────────────────────────────────────────────────
+//
+// Charges each course's late-fee rule on tuition invoices overdue past the
+// grace period (as of asOf, default today). dryRun is the default, as above.
+
+router.post('/late-fees', asyncHandler(async (req: Request, res: Response) => {
+  const { asOf, dryRun } = req.body ?? {};
+  const asOfDate = asOf ? new Date(asOf) : new Date();
+  if (Number.isNaN(asOfDate.getTime())) return res.status(400).json({ success: false, error: 'asOf must be a valid date' });
+
+  const summary = await assessLateFees({
+    asOf: asOfDate,
+    apply: dryRun === false || dryRun === 'false',
+    adminUserId: req.user!._id.toString(),
+  });
+  res.status(summary.mode === 'apply' ? 201 : 200).json({ success: true, data: summary, timestamp: new Date().toISOString() });
+}));
+
 router.post('/payment', asyncHandler(async (req: Request, res: Response) => {
   const {
     studentId, amount, invoiceIds, feeRecordIds, paymentMethod, transactionId,
@@ -158,6 +201,12 @@ router.post('/payment/:id/reverse', asyncHandler(async (req: Request, res: Respo
   }
 }));
 
+// Printable receipt. Payments recorded before receipt numbering are numbered
+// by the receipt-numbers migration; until then they have no receipt.
+router.get('/payment/:id/receipt.pdf', asyncHandler(async (req: Request, res: Response) => {
+  sendPdf(res, await renderReceiptPdf(req.params.id));
+}));
+
 // Edit a payment's NON-MONEY metadata (transactionId, paymentMethod, remarks).
 // Each changed field is appended to an audit trail on the payment. Money changes
 // (amount/date) must go through reverse + re-record, not this endpoint.
@@ -181,6 +230,10 @@ router.patch('/payment/:id', asyncHandler(async (req: Request, res: Response) =>
   }
 }));
 
+router.get('/:id/pdf', asyncHandler(async (req: Request, res: Response) => {
+  sendPdf(res, await renderInvoicePdf(req.params.id));
+}));
+
 router.patch('/:id/correct-amount', asyncHandler(async (req: Request, res: Response) => {
   const { amount, feeAmount, reason } = req.body;
   const nextAmount = amount ?? feeAmount;
@@ -239,6 +292,65 @@ router.post('/student/:studentId/credits', asyncHandler(async (req: Request, res
   });
 }));
 
+// ── Credit refunds ────────────────────────────────────────────────
+//
+// Paying credit balance back to the parent. Amounts above
+// config.refundApprovalThreshold requested by an admin stay pending until a
+// superadmin approves or rejects them.
+
+router.get('/student/:studentId/refunds', asyncHandler(async (req: Request, res: Response) => {
+  if (!Types.ObjectId.isValid(req.params.studentId)) {
+    return res.status(400).json({ success: false, error: 'Invalid student ID' });
+  }
+  const refunds = await listCreditRefunds({ studentId: req.params.studentId });
+  res.json({ success: true, data: refunds, timestamp: new Date().toISOString() });
+}));
+
+router.post('/student/:studentId/refunds', asyncHandler(async (req: Request, res: Response) => {
+  const { amount, paymentMethod, reference, refundDate, reason } = req.body ?? {};
+  if (amount === undefined || Number(amount) <= 0) return res.status(400).json({ success: false, error: 'amount must be > 0' });
+  if (!paymentMethod) return res.status(400).json({ success: false, error: 'paymentMethod is required' });
+  if (!reason || !String(reason).trim()) return res.status(400).json({ success: false, error: 'reason is required' });
+  const date = refundDate ? new Date(refundDate) : undefined;
+  if (date && Number.isNaN(date.getTime())) return res.status(400).json({ success: false, error: 'refundDate must be a valid date' });
+
+  const refund = await requestCreditRefund(
+    req.params.studentId,
+    { amount: parseInt(amount), paymentMethod: paymentMethod as RefundMethod, reference, refundDate: date, reason: String(reason) },
+    { id: req.user!._id.toString(), role: req.user!.role },
+  );
+  res.status(201).json({
+    success: true,
+    data: refund,
+    message: refund.status === 'pending' ? 'Refund submitted for superadmin approval' : 'Refund recorded',
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+router.get('/refunds', asyncHandler(async (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+  if (status && !['pending', 'completed', 'rejected'].includes(status)) {
+    return res.status(400).json({ success: false, error: 'status must be one of: pending, completed, rejected' });
+  }
+  const refunds = await listCreditRefunds({ status: status as CreditRefundStatus | undefined });
+  res.json({ success: true, data: refunds, timestamp: new Date().toISOString() });
+}));
+
+router.post('/refunds/:id/approve', requireSuperAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const { refundDate, reference } = req.body ?? {};
+  const date = refundDate ? new Date(refundDate) : undefined;
+  if (date && Number.isNaN(date.getTime())) return res.status(400).json({ success: false, error: 'refundDate must be a valid date' });
+  const refund = await approveCreditRefund(req.params.id, req.user!._id.toString(), { refundDate: date, reference });
+  res.json({ success: true, data: refund, message: 'Refund approved', timestamp: new Date().toISOString() });
+}));
+
+router.post('/refunds/:id/reject', requireSuperAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const { reason } = req.body ?? {};
+  if (!reason || !String(reason).trim()) return res.status(400).json({ success: false, error: 'reason is required' });
+  const refund = await rejectCreditRefund(req.params.id, req.user!._id.toString(), String(reason));
+  res.json({ success: true, data: refund, message: 'Refund rejected', timestamp: new Date().toISOString() });
+}));
+
 router.get('/:id/allocations', asyncHandler(async (req: Request, res: Response) => {
   const allocations = await PaymentAllocation.find({ invoiceId: new Types.ObjectId(req.params.id) })
     .populate('paymentTransactionId')
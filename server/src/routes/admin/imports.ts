@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import {
+  ImportIssueSeverity,
+  applyImportRun,
+  getImportRun,
+  importExcel,
+  listImportRuns,
+} from '../../services/v2/excelImportService.js';
+import {
+  createImportProfile,
+  deleteImportProfile,
+  listImportProfiles,
+  updateImportProfile,
+} from '../../services/v2/importProfileService.js';
+import { planImportRollback, rollbackImportRun } from '../../services/v2/importRollbackService.js';
+
+const router = Router();
+
+const SEVERITIES: ImportIssueSeverity[] = ['warning', 'error'];
+
+// The workbook is parsed in memory and stored on the dry-run, never on disk.
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (/\.xlsx?$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only Excel workbooks (.xlsx, .xls) are allowed'));
+    }
+  },
+});
+
+// Multipart form: file (workbook), sheetName? (defaults to the first sheet),
+// profileId? (mapping profile; defaults to the default profile),
+// incremental? ('true' to update matching existing students instead of
+// creating them). Always a dry-run: nothing is written until it is applied.
+router.post('/', upload.single('file'), asyncHandler(async (req: Request, res: Response) => {
+  if (!req.file) return res.status(400).json({ success: false, error: 'file is required' });
+  const data = await importExcel({
+    buffer: req.file.buffer,
+    fileName: req.file.originalname,
+    sheetName: req.body?.sheetName || undefined,
+    profileId: req.body?.profileId || undefined,
+    incremental: req.body?.incremental === 'true',
+    apply: false,
+    adminUserId: req.user!._id.toString(),
+  });
+  res.status(201).json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+  const data = await listImportRuns();
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// ── Mapping profiles ──────────────────────────────────────────────
+
+router.get('/profiles', asyncHandler(async (req: Request, res: Response) => {
+  const data = await listImportProfiles(req.user!._id.toString());
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.post('/profiles', asyncHandler(async (req: Request, res: Response) => {
+  const data = await createImportProfile(req.body, req.user!._id.toString());
+  res.status(201).json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Editing a profile's mapping means dry-runs made with it must be uploaded again.
+router.put('/profiles/:profileId', asyncHandler(async (req: Request, res: Response) => {
+  const data = await updateImportProfile(req.params.profileId, req.body, req.user!._id.toString());
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.delete('/profiles/:profileId', asyncHandler(async (req: Request, res: Response) => {
+  const data = await deleteImportProfile(req.params.profileId);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// ── Runs ──────────────────────────────────────────────────────────
+
+// Query: severity?, code? narrow the returned issues; issueCodes always covers all of them.
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { severity, code } = req.query as Record<string, string | undefined>;
+  if (severity && !SEVERITIES.includes(severity as ImportIssueSeverity)) {
+    return res.status(400).json({ success: false, error: `severity must be one of ${SEVERITIES.join(', ')}` });
+  }
+  const data = await getImportRun(req.params.id, {
+    severity: severity as ImportIssueSeverity | undefined,
+    code: code || undefined,
+  });
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.post('/:id/apply', asyncHandler(async (req: Request, res: Response) => {
+  const data = await applyImportRun(req.params.id, req.user!._id.toString());
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// What a rollback would remove or reverse, and anything that blocks it.
+router.get('/:id/rollback', asyncHandler(async (req: Request, res: Response) => {
+  const data = await planImportRollback(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.post('/:id/rollback', asyncHandler(async (req: Request, res: Response) => {
+  const data = await rollbackImportRun(req.params.id, req.user!._id.toString());
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+export default router;
@@ -3,7 +3,26 @@ import mongoose, { Types } from 'mongoose';
 import { asyncHandler } from '../../middleware/errorHandler.js';
 import Lead from '../../models/v2/Lead.js';
 import Course from '../../models/v2/Course.js';
-import { createInvoice, createStudentWithEnrollment } from '../../services/v2/feeService.js';
+import LeadActivity from '../../models/v2/LeadActivity.js';
+import User from '../../models/v2/User.js';
+import {
+  createInvoice,
+  createStudentOnWaitlist,
+  createStudentWithEnrollment,
+  isBatchFull,
+  quoteInvoiceAmount,
+} from '../../services/v2/feeService.js';
+import {
+  LEAD_ACTIVITY_OUTCOMES,
+  OUTREACH_TYPES,
+  getLeadFunnel,
+  listFollowUps,
+  listLeadActivities,
+  logLeadActivity,
+  recordLeadAssignment,
+  recordLeadStatusChange,
+} from '../../services/v2/leadService.js';
+import { leadListFilter } from '../../services/v2/listFilterService.js';
 
 const router = Router();
 
@@ -12,28 +31,7 @@ const router = Router();
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const page = Math.max(1, parseInt(req.query.page as string) || 1);
   const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
-  const { search, status, source, followUpFrom, followUpTo } = req.query;
-
-  const filter: any = {};
-
-  if (search) {
-    const escaped = (search as string).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    filter.$or = [
-      { name: { $regex: escaped, $options: 'i' } },
-      { phone: { $regex: escaped, $options: 'i' } },
-      { email: { $regex: escaped, $options: 'i' } },
-      { childName: { $regex: escaped, $options: 'i' } },
-    ];
-  }
-
-  if (status) filter.status = status;
-  if (source) filter.source = source;
-
-  if (followUpFrom || followUpTo) {
-    filter.followUpDate = {};
-    if (followUpFrom) filter.followUpDate.$gte = new Date(followUpFrom as string);
-    if (followUpTo) filter.followUpDate.$lte = new Date(followUpTo as string);
-  }
+  const filter = leadListFilter(req.query, req.user!._id as Types.ObjectId);
 
   const [total, leads] = await Promise.all([
     Lead.countDocuments(filter),
@@ -43,6 +41,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
       .limit(limit)
       .populate('interestedCourseId', 'displayName courseName')
       .populate('convertedStudentId', 'studentName studentCode')
+      .populate('assignedTo', 'name email')
       .lean(),
   ]);
 
@@ -63,16 +62,111 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+// ── Follow-up worklist ────────────────────────────────────────────
+//
+// due: today | overdue | all (default: both). assignedTo: me | unassigned |
+// a user id; omitted lists everyone's.
+
+router.get('/follow-ups', asyncHandler(async (req: Request, res: Response) => {
+  const due = (req.query.due as string) || 'all';
+  if (!['today', 'overdue', 'all'].includes(due)) {
+    return res.status(400).json({ success: false, error: 'due must be one of: today, overdue, all' });
+  }
+  const { assignedTo } = req.query;
+  let assignee: string | null | undefined;
+  if (assignedTo === 'me') assignee = req.user!._id.toString();
+  else if (assignedTo === 'unassigned') assignee = null;
+  else if (assignedTo) {
+    if (!Types.ObjectId.isValid(assignedTo as string)) return res.status(400).json({ success: false, error: 'Invalid assignedTo' });
+    assignee = assignedTo as string;
+  }
+
+  const data = await listFollowUps({ due: due as 'today' | 'overdue' | 'all', assignedTo: assignee });
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// ── Funnel analytics ──────────────────────────────────────────────
+//
+// from/to (YYYY-MM-DD) bound when the leads were created; both optional.
+
+router.get('/analytics', asyncHandler(async (req: Request, res: Response) => {
+  const { from, to } = req.query;
+  const fromDate = from ? new Date(from as string) : undefined;
+  const toDate = to ? new Date(to as string) : undefined;
+  if ((fromDate && Number.isNaN(fromDate.getTime())) || (toDate && Number.isNaN(toDate.getTime()))) {
+    return res.status(400).json({ success: false, error: 'from and to must be valid dates' });
+  }
+  // Include the whole of the last day.
+  if (toDate) toDate.setUTCHours(23, 59, 59, 999);
+
+  const data = await getLeadFunnel({ from: fromDate, to: toDate });
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Admins a lead can be assigned to.
+router.get('/assignees', asyncHandler(async (_req: Request, res: Response) => {
+  const users = await User.find({ role: { $in: ['admin', 'superadmin'] }, isActive: true, deletedAt: null })
+    .select('name email role')
+    .sort({ name: 1 })
+    .lean();
+  const data = users.map((u) => ({ id: u._id.toString(), name: u.name, email: u.email, role: u.role }));
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
 // ── Get single lead ───────────────────────────────────────────────
 
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   const lead = await Lead.findById(req.params.id)
     .populate('interestedCourseId', 'displayName courseName stages')
-    .populate('convertedStudentId', 'studentName studentCode');
+    .populate('convertedStudentId', 'studentName studentCode')
+    .populate('assignedTo', 'name email');
   if (!lead) return res.status(404).json({ success: false, error: 'Lead not found' });
   res.json({ success: true, data: lead, timestamp: new Date().toISOString() });
 }));
 
+// ── Activity timeline ─────────────────────────────────────────────
+
+router.get('/:id/activities', asyncHandler(async (req: Request, res: Response) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ success: false, error: 'Invalid lead ID' });
+  const data = await listLeadActivities(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Body: { type: call | message | visit | note, outcome? (required for
+// outreach), notes?, occurredAt?, nextFollowUpDate? (null clears; omitted
+// schedules from the outcome) }. Returns the updated lead and the entry.
+router.post('/:id/activities', asyncHandler(async (req: Request, res: Response) => {
+  const { type, outcome, notes, occurredAt, nextFollowUpDate } = req.body ?? {};
+  const types = [...OUTREACH_TYPES, 'note'];
+  if (!types.includes(type)) {
+    return res.status(400).json({ success: false, error: `type must be one of: ${types.join(', ')}` });
+  }
+  if (outcome !== undefined && outcome !== null && !LEAD_ACTIVITY_OUTCOMES.includes(outcome)) {
+    return res.status(400).json({ success: false, error: `outcome must be one of: ${LEAD_ACTIVITY_OUTCOMES.join(', ')}` });
+  }
+  for (const [field, value] of [['occurredAt', occurredAt], ['nextFollowUpDate', nextFollowUpDate]] as const) {
+    if (value && Number.isNaN(new Date(value).getTime())) {
+      return res.status(400).json({ success: false, error: `${field} must be a valid date` });
+    }
+  }
+  if (notes !== undefined && typeof notes !== 'string') {
+    return res.status(400).json({ success: false, error: 'notes must be a string' });
+  }
+
+  const data = await logLeadActivity(
+    req.params.id,
+    {
+      type,
+      outcome: outcome || undefined,
+      notes,
+      occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+      nextFollowUpDate: nextFollowUpDate === undefined ? undefined : nextFollowUpDate ? new Date(nextFollowUpDate) : null,
+    },
+    req.user!._id.toString(),
+  );
+  res.status(201).json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
 // ── Create lead ───────────────────────────────────────────────────
 
 router.post('/', asyncHandler(async (req: Request, res: Response) => {
@@ -103,6 +197,7 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     assignedTo: assignedTo ? new Types.ObjectId(assignedTo) : undefined,
     createdBy: req.user!._id,
   });
+  if (lead.assignedTo) await recordLeadAssignment(lead._id as Types.ObjectId, lead.assignedTo, req.user!._id.toString());
 
   res.status(201).json({ success: true, data: lead, timestamp: new Date().toISOString() });
 }));
@@ -131,8 +226,8 @@ router.post('/:id/convert', asyncHandler(async (req: Request, res: Response) =>
       studentName, parentName, phone, email, dob, address, referredBy,
       enrollmentDate, courseId, stageNumber, levelNumber, batchId,
       monthlyFee, discountPct, discountReason,
-      discountType, discountAmount,
-      createFirstFeeRecord, firstMonthFee, firstMonthDueDate,
+      discountType, discountAmount, familyId,
+      createFirstFeeRecord, firstMonthFee, firstMonthDueDate, waitlistIfFull,
     } = req.body;
 
     const resolvedStudentName = String(studentName || lead.childName || '').trim();
@@ -148,7 +243,7 @@ router.post('/:id/convert', asyncHandler(async (req: Request, res: Response) =>
       await session.abortTransaction();
       return res.status(400).json({ success: false, error: 'studentName is required' });
     }
-    if (!resolvedPhone && !resolvedEmail) {
+    if (!resolvedPhone && !resolvedEmail && !familyId) {
       await session.abortTransaction();
       return res.status(400).json({ success: false, error: 'phone or email is required' });
     }
@@ -186,7 +281,7 @@ router.post('/:id/convert', asyncHandler(async (req: Request, res: Response) =>
     const adminUserId = req.user!._id.toString();
     const startDate = enrollmentDate ? new Date(enrollmentDate) : new Date();
 
-    const { student, enrollment } = await createStudentWithEnrollment({
+    const newStudent = {
       student: {
         studentName: resolvedStudentName,
         parentName: resolvedParentName || undefined,
@@ -199,7 +294,6 @@ router.post('/:id/convert', asyncHandler(async (req: Request, res: Response) =>
       courseId: resolvedCourseId,
       stageNumber: resolvedStageNumber,
       levelNumber: resolvedLevelNumber,
-      batchId: batchId || null,
       grossFee: courseLevelFee,
       monthlyFee: effectiveFee,
       discountType: resolvedDiscountType,
@@ -207,32 +301,51 @@ router.post('/:id/convert', asyncHandler(async (req: Request, res: Response) =>
       discountAmount: resolvedDiscountAmount,
       discountReason: discountReason ?? '',
       feeOverridden,
+      familyId: familyId || null,
       startDate,
       createdBy: adminUserId,
       session,
-    });
+    };
 
+    // Converting into a full batch the admin chose to queue for: the child
+    // joins the waitlist and is enrolled (and billed) on promotion.
+    let student;
+    let enrollment = null;
     let invoice = null;
-    if (createFirstFeeRecord ?? !!batchId) {
+    let waitlist = null;
+    if (waitlistIfFull && batchId && await isBatchFull(batchId, session)) {
+      const queued = await createStudentOnWaitlist({ ...newStudent, batchId });
+      student = queued.student;
+      waitlist = { ...queued.waitlistEntry.toJSON(), position: queued.position };
+    } else {
+      ({ student, enrollment } = await createStudentWithEnrollment({ ...newStudent, batchId: batchId || null }));
+    }
+
+    if (enrollment && (createFirstFeeRecord ?? !!batchId)) {
       const explicitFirstMonthFee = firstMonthFee !== undefined && firstMonthFee !== null && firstMonthFee !== '';
       const invoiceMonth = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), 1));
       const dueDate = firstMonthDueDate
         ? new Date(firstMonthDueDate)
         : new Date(Date.UTC(invoiceMonth.getUTCFullYear(), invoiceMonth.getUTCMonth(), 5));
-      invoice = await createInvoice({
-        studentId: student._id.toString(),
-        enrollmentId: enrollment._id.toString(),
-        invoiceMonth,
-        dueDate,
-        amount: explicitFirstMonthFee && resolvedDiscountType === 'none'
-          ? Number(firstMonthFee)
-          : effectiveFee,
-        createdBy: adminUserId,
-        createdBySource: 'manual',
-        session,
-      });
+      // enrollment.discountType, not the request's: a sibling discount may apply.
+      const overrideFee = explicitFirstMonthFee && enrollment.discountType === 'none';
+      // Without an explicit first-month fee the course's pro-ration policy
+      // prices a mid-month start, and may leave it unbilled (cutoff policy).
+      if (overrideFee || (await quoteInvoiceAmount(enrollment, invoiceMonth, session)).amount > 0) {
+        invoice = await createInvoice({
+          studentId: student._id.toString(),
+          enrollmentId: enrollment._id.toString(),
+          invoiceMonth,
+          dueDate,
+          amount: overrideFee ? Number(firstMonthFee) : undefined,
+          createdBy: adminUserId,
+          createdBySource: 'manual',
+          session,
+        });
+      }
     }
 
+    await recordLeadStatusChange(lead._id as Types.ObjectId, lead.status, 'converted', adminUserId, session);
     lead.status = 'converted';
     lead.convertedStudentId = student._id;
     lead.convertedAt = new Date();
@@ -242,7 +355,7 @@ router.post('/:id/convert', asyncHandler(async (req: Request, res: Response) =>
     await session.commitTransaction();
     res.status(201).json({
       success: true,
-      data: { lead, student, enrollment, invoice },
+      data: { lead, student, enrollment, invoice, waitlist },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -262,7 +375,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     'source', 'status', 'notes', 'followUpDate', 'assignedTo',
   ];
   const update: any = {};
-  const existing = await Lead.findById(req.params.id).select('convertedStudentId');
+  const existing = await Lead.findById(req.params.id).select('convertedStudentId status assignedTo');
   if (!existing) return res.status(404).json({ success: false, error: 'Lead not found' });
 
   for (const key of ALLOWED) {
@@ -297,9 +410,15 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     { new: true, runValidators: true },
   )
     .populate('interestedCourseId', 'displayName courseName stages')
-    .populate('convertedStudentId', 'studentName studentCode');
+    .populate('convertedStudentId', 'studentName studentCode')
+    .populate('assignedTo', 'name email');
 
   if (!lead) return res.status(404).json({ success: false, error: 'Lead not found' });
+  const adminUserId = req.user!._id.toString();
+  if (update.status) await recordLeadStatusChange(lead._id as Types.ObjectId, existing.status, update.status, adminUserId);
+  if (update.assignedTo !== undefined && String(update.assignedTo ?? '') !== String(existing.assignedTo ?? '')) {
+    await recordLeadAssignment(lead._id as Types.ObjectId, update.assignedTo, adminUserId);
+  }
   res.json({ success: true, data: lead, timestamp: new Date().toISOString() });
 }));
 
@@ -311,7 +430,7 @@ router.patch('/:id/status', asyncHandler(async (req: Request, res: Response) =>
   if (!status || !valid.includes(status)) {
     return res.status(400).json({ success: false, error: `status must be one of: ${valid.join(', ')}` });
   }
-  const existing = await Lead.findById(req.params.id).select('convertedStudentId');
+  const existing = await Lead.findById(req.params.id).select('convertedStudentId status');
   if (!existing) return res.status(404).json({ success: false, error: 'Lead not found' });
   if (existing.convertedStudentId) {
     return res.status(400).json({ success: false, error: 'Converted lead status cannot be changed' });
@@ -319,6 +438,7 @@ router.patch('/:id/status', asyncHandler(async (req: Request, res: Response) =>
 
   const lead = await Lead.findByIdAndUpdate(req.params.id, { $set: { status } }, { new: true });
   if (!lead) return res.status(404).json({ success: false, error: 'Lead not found' });
+  await recordLeadStatusChange(lead._id as Types.ObjectId, existing.status, status, req.user!._id.toString());
   res.json({ success: true, data: lead, timestamp: new Date().toISOString() });
 }));
 
@@ -327,6 +447,7 @@ router.patch('/:id/status', asyncHandler(async (req: Request, res: Response) =>
 router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   const lead = await Lead.findByIdAndDelete(req.params.id);
   if (!lead) return res.status(404).json({ success: false, error: 'Lead not found' });
+  await LeadActivity.deleteMany({ leadId: lead._id });
   res.json({ success: true, message: 'Lead deleted', timestamp: new Date().toISOString() });
 }));
 
@@ -0,0 +1,45 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import { materializeSessions } from '../../services/v2/attendanceService.js';
+import {
+  MAKEUP_BOOKING_WINDOW_DAYS,
+  bookMakeup,
+  cancelMakeupBooking,
+  getMakeupOptionBatchIds,
+  getMakeupOptions,
+  getStudentMakeups,
+} from '../../services/v2/makeupService.js';
+
+const router = Router();
+
+router.get('/students/:studentId', asyncHandler(async (req: Request, res: Response) => {
+  const data = await getStudentMakeups(req.params.studentId);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Sessions the make-up can be booked into. Generates the booking window's
+// sessions of the eligible batches first, since the daily job only looks two
+// weeks ahead.
+router.get('/:id/options', asyncHandler(async (req: Request, res: Response) => {
+  const batchIds = await getMakeupOptionBatchIds(req.params.id);
+  const from = new Date();
+  await materializeSessions({ from, to: new Date(from.getTime() + MAKEUP_BOOKING_WINDOW_DAYS * 24 * 60 * 60 * 1000), batchIds });
+  const data = await getMakeupOptions(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Body: { sessionId } — a session of another batch at the same stage/level.
+// The student attends as a guest; the batch's permanent seats are untouched.
+router.post('/:id/book', asyncHandler(async (req: Request, res: Response) => {
+  const { sessionId } = req.body;
+  if (!sessionId) return res.status(400).json({ success: false, error: 'sessionId is required' });
+  const credit = await bookMakeup(req.params.id, sessionId, req.user!._id.toString());
+  res.json({ success: true, data: credit, timestamp: new Date().toISOString() });
+}));
+
+router.delete('/:id/booking', asyncHandler(async (req: Request, res: Response) => {
+  const credit = await cancelMakeupBooking(req.params.id);
+  res.json({ success: true, data: credit, timestamp: new Date().toISOString() });
+}));
+
+export default router;
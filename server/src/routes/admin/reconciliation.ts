@@ -0,0 +1,102 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import {
+  DEFAULT_MATCH_WINDOW_DAYS,
+  MAX_MATCH_WINDOW_DAYS,
+  getReconciliationReport,
+  importStatement,
+  listStatements,
+  recordPaymentFromLine,
+  rematchStatement,
+  setLineIgnored,
+} from '../../services/v2/reconciliationService.js';
+
+const router = Router();
+
+const PAYMENT_METHODS = ['online', 'upi', 'card', 'other'];
+
+// Statement exports are small; keep them in memory and never touch disk.
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    if (file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV statement exports (.csv) are allowed'));
+    }
+  },
+});
+
+// Multipart form: file (CSV), windowDays?, and optional column overrides
+// dateColumn, amountColumn, referenceColumn, descriptionColumn (header names
+// as they appear in the file) for exports the auto-detection does not know.
+router.post('/statements', upload.single('file'), asyncHandler(async (req: Request, res: Response) => {
+  if (!req.file) return res.status(400).json({ success: false, error: 'file is required' });
+  const { windowDays, dateColumn, amountColumn, referenceColumn, descriptionColumn } = req.body ?? {};
+  const dateWindowDays = windowDays === undefined || windowDays === '' ? DEFAULT_MATCH_WINDOW_DAYS : Number(windowDays);
+  if (!Number.isInteger(dateWindowDays) || dateWindowDays < 0 || dateWindowDays > MAX_MATCH_WINDOW_DAYS) {
+    return res.status(400).json({ success: false, error: `windowDays must be a whole number from 0 to ${MAX_MATCH_WINDOW_DAYS}` });
+  }
+  const data = await importStatement({
+    fileName: req.file.originalname,
+    buffer: req.file.buffer,
+    mapping: {
+      date: dateColumn || undefined,
+      amount: amountColumn || undefined,
+      reference: referenceColumn || undefined,
+      description: descriptionColumn || undefined,
+    },
+    dateWindowDays,
+    adminUserId: req.user!._id.toString(),
+  });
+  res.status(201).json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/statements', asyncHandler(async (_req: Request, res: Response) => {
+  const data = await listStatements();
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/statements/:id', asyncHandler(async (req: Request, res: Response) => {
+  const data = await getReconciliationReport(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.post('/statements/:id/rematch', asyncHandler(async (req: Request, res: Response) => {
+  const data = await rematchStatement(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Body: { studentId, paymentMethod?, invoiceIds? } — records the unmatched
+// line as a payment (its amount, date and reference) for the chosen student.
+router.post('/statements/:id/lines/:lineId/payment', asyncHandler(async (req: Request, res: Response) => {
+  const { studentId, paymentMethod = 'upi', invoiceIds } = req.body ?? {};
+  if (!studentId) return res.status(400).json({ success: false, error: 'studentId is required' });
+  if (!PAYMENT_METHODS.includes(paymentMethod)) {
+    return res.status(400).json({ success: false, error: `paymentMethod must be one of ${PAYMENT_METHODS.join(', ')}` });
+  }
+  if (invoiceIds !== undefined && !Array.isArray(invoiceIds)) {
+    return res.status(400).json({ success: false, error: 'invoiceIds must be an array' });
+  }
+  const payment = await recordPaymentFromLine(
+    req.params.id,
+    req.params.lineId,
+    { studentId, paymentMethod, invoiceIds },
+    req.user!._id.toString(),
+  );
+  const report = await getReconciliationReport(req.params.id);
+  res.status(201).json({ success: true, data: { payment, report }, timestamp: new Date().toISOString() });
+}));
+
+// Body: { ignored: boolean, note? } — for credits that are not fee payments.
+router.patch('/statements/:id/lines/:lineId', asyncHandler(async (req: Request, res: Response) => {
+  const { ignored, note } = req.body ?? {};
+  if (typeof ignored !== 'boolean') return res.status(400).json({ success: false, error: 'ignored must be a boolean' });
+  await setLineIgnored(req.params.id, req.params.lineId, ignored, note ? String(note).trim() : undefined);
+  const data = await getReconciliationReport(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+export default router;
@@ -0,0 +1,188 @@
+import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import ReminderTemplate from '../../models/v2/ReminderTemplate.js';
+import { listReminderChannels } from '../../services/v2/reminderChannels.js';
+import {
+  CampaignParams,
+  DEFAULT_COOLDOWN_DAYS,
+  DEFAULT_REMINDER_TEMPLATE,
+  REMINDER_PLACEHOLDERS,
+  getCampaign,
+  getStudentReminders,
+  listCampaigns,
+  previewCampaign,
+  runCampaign,
+  sendStudentReminder,
+  unknownPlaceholders,
+} from '../../services/v2/reminderService.js';
+
+const router = Router();
+
+const MAX_COOLDOWN_DAYS = 90;
+
+/** Parse the campaign body shared by preview and run; returns an error message or the params. */
+function parseCampaignBody(body: any): string | CampaignParams {
+  const { templateId, channel, filters = {}, cooldownDays } = body ?? {};
+  if (!channel || typeof channel !== 'string') return 'channel is required';
+  if (templateId && !Types.ObjectId.isValid(templateId)) return 'templateId is invalid';
+  for (const key of ['courseId', 'batchId'] as const) {
+    if (filters[key] && !Types.ObjectId.isValid(filters[key])) return `filters.${key} is invalid`;
+  }
+  for (const key of ['stageNumber', 'levelNumber'] as const) {
+    if (filters[key] !== undefined && filters[key] !== null && (!Number.isInteger(Number(filters[key])) || Number(filters[key]) < 1)) {
+      return `filters.${key} must be a positive whole number`;
+    }
+  }
+  if (filters.minBalance !== undefined && filters.minBalance !== null && (!Number.isFinite(Number(filters.minBalance)) || Number(filters.minBalance) < 0)) {
+    return 'filters.minBalance must be a non-negative number';
+  }
+  const cooldown = cooldownDays === undefined || cooldownDays === null ? DEFAULT_COOLDOWN_DAYS : Number(cooldownDays);
+  if (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > MAX_COOLDOWN_DAYS) {
+    return `cooldownDays must be a whole number from 0 to ${MAX_COOLDOWN_DAYS}`;
+  }
+  return {
+    templateId: templateId || undefined,
+    channel,
+    filters: {
+      courseId: filters.courseId || undefined,
+      stageNumber: filters.stageNumber ? Number(filters.stageNumber) : undefined,
+      levelNumber: filters.levelNumber ? Number(filters.levelNumber) : undefined,
+      batchId: filters.batchId || undefined,
+      minBalance: filters.minBalance ? Number(filters.minBalance) : undefined,
+    },
+    cooldownDays: cooldown,
+  };
+}
+
+/** Validate template text fields; returns an error message or null. */
+function templateError(subject: unknown, body: unknown): string | null {
+  for (const [field, text] of [['subject', subject], ['body', body]] as const) {
+    if (typeof text !== 'string') continue;
+    const unknown = unknownPlaceholders(text);
+    if (unknown.length > 0) {
+      return `${field} uses unknown placeholder(s) ${unknown.map((p) => `{{${p}}}`).join(', ')}. Available: ${REMINDER_PLACEHOLDERS.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+router.get('/channels', asyncHandler(async (_req: Request, res: Response) => {
+  res.json({ success: true, data: listReminderChannels(), timestamp: new Date().toISOString() });
+}));
+
+// ── Templates ─────────────────────────────────────────────────────
+
+router.get('/templates', asyncHandler(async (req: Request, res: Response) => {
+  const filter = req.query.includeInactive === 'true' ? {} : { isActive: true };
+  const templates = await ReminderTemplate.find(filter).sort({ name: 1 });
+  res.json({
+    success: true,
+    data: { templates, defaultTemplate: DEFAULT_REMINDER_TEMPLATE, placeholders: REMINDER_PLACEHOLDERS },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+router.post('/templates', asyncHandler(async (req: Request, res: Response) => {
+  const { name, subject, body } = req.body ?? {};
+  if (!name || !String(name).trim()) return res.status(400).json({ success: false, error: 'name is required' });
+  if (!body || !String(body).trim()) return res.status(400).json({ success: false, error: 'body is required' });
+  const error = templateError(subject, body);
+  if (error) return res.status(400).json({ success: false, error });
+  if (await ReminderTemplate.exists({ name: String(name).trim() })) {
+    return res.status(409).json({ success: false, error: 'A template with this name already exists' });
+  }
+  const template = await ReminderTemplate.create({
+    name,
+    subject: subject || undefined,
+    body,
+    createdBy: req.user!._id,
+  });
+  res.status(201).json({ success: true, data: template, timestamp: new Date().toISOString() });
+}));
+
+router.put('/templates/:id', asyncHandler(async (req: Request, res: Response) => {
+  const template = await ReminderTemplate.findById(req.params.id);
+  if (!template) return res.status(404).json({ success: false, error: 'Reminder template not found' });
+  const { name, subject, body, isActive } = req.body ?? {};
+  const error = templateError(subject, body);
+  if (error) return res.status(400).json({ success: false, error });
+  if (name !== undefined) {
+    if (!String(name).trim()) return res.status(400).json({ success: false, error: 'name cannot be empty' });
+    if (await ReminderTemplate.exists({ name: String(name).trim(), _id: { $ne: template._id } })) {
+      return res.status(409).json({ success: false, error: 'A template with this name already exists' });
+    }
+    template.name = name;
+  }
+  if (subject !== undefined) template.subject = subject || undefined;
+  if (body !== undefined) {
+    if (!String(body).trim()) return res.status(400).json({ success: false, error: 'body cannot be empty' });
+    template.body = body;
+  }
+  if (isActive !== undefined) template.isActive = Boolean(isActive);
+  template.updatedBy = req.user!._id as Types.ObjectId;
+  await template.save();
+  res.json({ success: true, data: template, timestamp: new Date().toISOString() });
+}));
+
+// Templates are referenced by past campaigns and logs, so delete only deactivates.
+router.delete('/templates/:id', asyncHandler(async (req: Request, res: Response) => {
+  const template = await ReminderTemplate.findByIdAndUpdate(
+    req.params.id,
+    { isActive: false, updatedBy: req.user!._id },
+    { new: true },
+  );
+  if (!template) return res.status(404).json({ success: false, error: 'Reminder template not found' });
+  res.json({ success: true, data: template, timestamp: new Date().toISOString() });
+}));
+
+// ── Campaigns ─────────────────────────────────────────────────────
+
+// Body: { channel, templateId?, filters?: { courseId, stageNumber, levelNumber,
+// batchId, minBalance }, cooldownDays? } — same body for preview and run.
+router.post('/campaigns/preview', asyncHandler(async (req: Request, res: Response) => {
+  const params = parseCampaignBody(req.body);
+  if (typeof params === 'string') return res.status(400).json({ success: false, error: params });
+  const data = await previewCampaign(params);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.post('/campaigns', asyncHandler(async (req: Request, res: Response) => {
+  const params = parseCampaignBody(req.body);
+  if (typeof params === 'string') return res.status(400).json({ success: false, error: params });
+  const data = await runCampaign({ ...params, adminUserId: req.user!._id.toString() });
+  res.status(201).json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/campaigns', asyncHandler(async (_req: Request, res: Response) => {
+  const data = await listCampaigns();
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/campaigns/:id', asyncHandler(async (req: Request, res: Response) => {
+  const data = await getCampaign(req.params.id);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// ── Individual students ───────────────────────────────────────────
+
+// Body: { channel, templateId?, force? } — force sends even if the student was
+// reminded within the last DEFAULT_COOLDOWN_DAYS days.
+router.post('/students/:studentId', asyncHandler(async (req: Request, res: Response) => {
+  const { channel, templateId, force } = req.body ?? {};
+  if (!channel || typeof channel !== 'string') return res.status(400).json({ success: false, error: 'channel is required' });
+  if (templateId && !Types.ObjectId.isValid(templateId)) return res.status(400).json({ success: false, error: 'templateId is invalid' });
+  const data = await sendStudentReminder(
+    req.params.studentId,
+    { channel, templateId: templateId || undefined, force: force === true },
+    req.user!._id.toString(),
+  );
+  res.status(201).json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+router.get('/students/:studentId', asyncHandler(async (req: Request, res: Response) => {
+  const data = await getStudentReminders(req.params.studentId);
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+export default router;
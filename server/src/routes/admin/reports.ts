@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler.js';
+import { parseBillingMonth } from '../../services/v2/billingService.js';
+import {
+  AGEING_BUCKETS,
+  AgeingAmounts,
+  AgeingGroupRow,
+  AgeingStudentRow,
+  RevenueReportRow,
+  getAgeingReport,
+  getRevenueReport,
+} from '../../services/v2/reportService.js';
+import { TABULAR_FORMATS, TabularColumn, TabularFormat, sendTabular } from '../../utils/tabular.js';
+
+const router = Router();
+
+/** ?format= json (default), csv or xlsx; undefined when it is none of them. */
+function parseFormat(value: unknown): TabularFormat | 'json' | undefined {
+  const format = (value as string | undefined) ?? 'json';
+  return format === 'json' || (TABULAR_FORMATS as string[]).includes(format) ? (format as TabularFormat | 'json') : undefined;
+}
+
+const pctCell = (pct: number | null) => (pct === null ? '' : pct);
+
+const REVENUE_COLUMNS: TabularColumn<RevenueReportRow>[] = [
+  { header: 'Month', value: (r) => r.month, width: 10 },
+  { header: 'Billed', value: (r) => r.billed },
+  { header: 'Billed (late fees)', value: (r) => r.billedLateFees },
+  { header: 'Voided', value: (r) => r.voided },
+  { header: 'Collected (cash)', value: (r) => r.collectedCash },
+  { header: 'Collected (credit)', value: (r) => r.collectedCredit },
+  { header: 'Collected (total)', value: (r) => r.collected },
+  { header: 'Waived (manual)', value: (r) => r.waivedManual },
+  { header: 'Waived (discount)', value: (r) => r.waivedDiscount },
+  { header: 'Waived (total)', value: (r) => r.waived },
+  { header: 'Outstanding', value: (r) => r.outstanding },
+  { header: 'Billed MoM %', value: (r) => pctCell(r.monthOverMonth.billed.pct) },
+  { header: 'Collected MoM %', value: (r) => pctCell(r.monthOverMonth.collected.pct) },
+  { header: 'Billed YoY %', value: (r) => pctCell(r.yearOverYear.billed.pct) },
+  { header: 'Collected YoY %', value: (r) => pctCell(r.yearOverYear.collected.pct) },
+];
+
+// ── Revenue & collections ─────────────────────────────────────────
+//
+// from / to: YYYY-MM, inclusive; default the last 12 months.
+
+router.get('/revenue', asyncHandler(async (req: Request, res: Response) => {
+  const format = parseFormat(req.query.format);
+  if (!format) return res.status(400).json({ success: false, error: 'format must be one of: json, csv, xlsx' });
+
+  const now = new Date();
+  const to = req.query.to ? parseBillingMonth(req.query.to) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const from = req.query.from ? parseBillingMonth(req.query.from) : to && new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - 11, 1));
+  if (!from || !to) return res.status(400).json({ success: false, error: 'from and to must be months (YYYY-MM)' });
+
+  const report = await getRevenueReport(from, to);
+  if (format !== 'json') {
+    return sendTabular(res, format, `revenue-${report.from}-to-${report.to}`, REVENUE_COLUMNS, report.months, 'Revenue');
+  }
+  res.json({ success: true, data: report, timestamp: new Date().toISOString() });
+}));
+
+const bucketColumns = <Row extends AgeingAmounts>(): TabularColumn<Row>[] => [
+  ...AGEING_BUCKETS.map(({ key, label }) => ({ header: label, value: (r: Row) => r[key] })),
+  { header: 'Total', value: (r) => r.total },
+];
+
+const AGEING_STUDENT_COLUMNS: TabularColumn<AgeingStudentRow>[] = [
+  { header: 'Student', value: (r) => r.studentName, width: 28 },
+  { header: 'Code', value: (r) => r.studentCode },
+  { header: 'Active', value: (r) => (r.isActive ? 'Yes' : 'No'), width: 8 },
+  { header: 'Invoices', value: (r) => r.invoiceCount, width: 10 },
+  { header: 'Oldest due', value: (r) => r.oldestDueDate },
+  ...bucketColumns<AgeingStudentRow>(),
+  { header: 'Credit on account', value: (r) => r.creditBalance },
+  { header: 'Net due', value: (r) => r.net },
+];
+
+const ageingGroupColumns = (title: string): TabularColumn<AgeingGroupRow>[] => [
+  { header: title, value: (r) => r.label, width: 32 },
+  { header: 'Students', value: (r) => r.students, width: 10 },
+  ...bucketColumns<AgeingGroupRow>(),
+];
+
+// ── Accounts receivable ageing ────────────────────────────────────
+//
+// asOf: YYYY-MM-DD (default today). For csv/xlsx, view picks the table:
+// student (default), batch or stage.
+
+router.get('/ageing', asyncHandler(async (req: Request, res: Response) => {
+  const format = parseFormat(req.query.format);
+  if (!format) return res.status(400).json({ success: false, error: 'format must be one of: json, csv, xlsx' });
+  const view = (req.query.view as string) || 'student';
+  if (!['student', 'batch', 'stage'].includes(view)) {
+    return res.status(400).json({ success: false, error: 'view must be one of: student, batch, stage' });
+  }
+  const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+  if (Number.isNaN(asOf.getTime())) return res.status(400).json({ success: false, error: 'asOf must be a valid date' });
+
+  const report = await getAgeingReport(asOf);
+  if (format !== 'json') {
+    const basename = `ageing-by-${view}-${report.asOf.toISOString().slice(0, 10)}`;
+    if (view === 'batch') return sendTabular(res, format, basename, ageingGroupColumns('Batch'), report.byBatch, 'Ageing by batch');
+    if (view === 'stage') return sendTabular(res, format, basename, ageingGroupColumns('Course stage'), report.byStage, 'Ageing by stage');
+    return sendTabular(res, format, basename, AGEING_STUDENT_COLUMNS, report.byStudent, 'Ageing by student');
+  }
+  res.json({ success: true, data: report, timestamp: new Date().toISOString() });
+}));
+
+export default router;
@@ -10,11 +10,27 @@ import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
 import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
 import CreditLedger from '../../models/v2/CreditLedger.js';
 import WaiverLedger from '../../models/v2/WaiverLedger.js';
-import { createInvoice, createStudentWithEnrollment } from '../../services/v2/feeService.js';
+import User from '../../models/v2/User.js';
+import ReminderLog from '../../models/v2/ReminderLog.js';
+import EnrollmentLifecycleEvent from '../../models/v2/EnrollmentLifecycleEvent.js';
+import {
+  createInvoice,
+  createStudentOnWaitlist,
+  createStudentWithEnrollment,
+  isBatchFull,
+  overdueInvoiceFilter,
+  quoteInvoiceAmount,
+} from '../../services/v2/feeService.js';
+import { studentListFilter } from '../../services/v2/listFilterService.js';
+import { listExpiredPauses, processExpiredPauses } from '../../services/v2/pauseExpiryService.js';
+import { StatementEntry, getStudentStatement } from '../../services/v2/statementService.js';
+import { renderStatementPdf } from '../../services/v2/documentService.js';
+import { TabularColumn, sendTabular } from '../../utils/tabular.js';
+import { config } from '../../config/index.js';
 
 const router = Router();
 
-type AuditCategory = 'fees' | 'payments' | 'credits' | 'enrollment' | 'imports';
+type AuditCategory = 'fees' | 'payments' | 'credits' | 'enrollment' | 'imports' | 'reminders';
 
 type AuditEvent = {
   id: string;
@@ -25,7 +41,7 @@ type AuditEvent = {
   description?: string;
   amount?: number;
   actor?: { id: string; name?: string; email?: string };
-  source?: 'manual' | 'import' | 'billing' | 'payment';
+  source?: 'manual' | 'import' | 'billing' | 'payment' | 'automatic';
   related?: Record<string, string>;
   metadata?: Record<string, unknown>;
 };
@@ -54,53 +70,16 @@ function monthLabel(value: Date): string {
   return value.toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' });
 }
 
+function dayLabel(value: Date): string {
+  return value.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
 // ── List students (paginated, filtered) ───────────────────────────
 
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 20;
-  const { search, courseId, stageNumber, levelNumber, batchId, isActive, overdueOnly } = req.query;
-
-  const filter: any = {};
-
-  if (search) {
-    const escapedSearch = (search as string).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    filter.$or = [
-      { studentName: { $regex: escapedSearch, $options: 'i' } },
-      { parentName: { $regex: escapedSearch, $options: 'i' } },
-      { phone: { $regex: escapedSearch, $options: 'i' } },
-      { email: { $regex: escapedSearch, $options: 'i' } },
-      { studentCode: { $regex: escapedSearch, $options: 'i' } },
-    ];
-  }
-  if (courseId) filter.courseId = new Types.ObjectId(courseId as string);
-  if (stageNumber) filter.stageNumber = parseInt(stageNumber as string);
-  if (levelNumber) filter.levelNumber = parseInt(levelNumber as string);
-  if (batchId) filter.batchId = new Types.ObjectId(batchId as string);
-  if (isActive !== undefined && isActive !== 'all') filter.isActive = isActive === 'true';
-
-  // Overdue filter: only students with at least one overdue fee record
-  if (overdueOnly === 'true') {
-    const now = new Date();
-    const overdueIds = await Invoice.distinct('studentId', {
-      dueDate: { $lt: now },
-      isVoid: false,
-      $expr: {
-        $gt: [{ $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] }, 0],
-      },
-    });
-    if (overdueIds.length === 0) {
-      return res.json({
-        success: true,
-        data: {
-          data: [],
-          pagination: { currentPage: page, totalPages: 0, totalItems: 0, itemsPerPage: limit, hasNext: false, hasPrev: false },
-        },
-        timestamp: new Date().toISOString(),
-      });
-    }
-    filter._id = { $in: overdueIds };
-  }
+  const filter = await studentListFilter(req.query);
 
   const [total, students] = await Promise.all([
     StudentV2.countDocuments(filter),
@@ -114,24 +93,39 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   ]);
 
   // Attach hasOverdueFees flag efficiently
-  const now = new Date();
   const studentIds = (students as any[]).map((s) => s._id);
   const overdueIds = await Invoice.distinct('studentId', {
     studentId: { $in: studentIds },
-    dueDate: { $lt: now },
-    isVoid: false,
-    $expr: {
-      $gt: [{ $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] }, 0],
-    },
+    ...overdueInvoiceFilter(),
   });
   const overdueSet = new Set(overdueIds.map((id: any) => id.toString()));
 
+  // Every course the student is in, for students enrolled in more than one
+  const active = await Enrollment.find({ studentId: { $in: studentIds }, endDate: null })
+    .sort({ startDate: 1 })
+    .populate('courseId', 'displayName stages')
+    .populate('batchId', 'batchName batchCode')
+    .lean() as any[];
+  const activeByStudent = new Map<string, any[]>();
+  for (const e of active) {
+    const key = e.studentId.toString();
+    activeByStudent.set(key, [...(activeByStudent.get(key) ?? []), {
+      id: e._id.toString(),
+      courseName: e.courseId?.displayName,
+      stageNumber: e.stageNumber,
+      stageName: e.courseId?.stages?.find((stage: any) => stage.stageNumber === e.stageNumber)?.stageName,
+      levelNumber: e.levelNumber,
+      batchName: e.batchId?.batchName ?? null,
+    }]);
+  }
+
   const data = (students as any[]).map((s) => {
     const stageName = s.courseId?.stages?.find((stage: any) => stage.stageNumber === s.stageNumber)?.stageName;
     return {
       ...s,
       id: s._id.toString(),
       stageName,
+      activeEnrollments: activeByStudent.get(s._id.toString()) ?? [],
       hasOverdueFees: overdueSet.has(s._id.toString()),
     };
   });
@@ -160,12 +154,13 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     studentName, parentName, phone, email, dob, address, referredBy,
     enrollmentDate, courseId, stageNumber, levelNumber, batchId,
     monthlyFee, discountPct, discountReason,
-    discountType, discountAmount,
-    createFirstFeeRecord, firstMonthFee, firstMonthDueDate,
+    discountType, discountAmount, familyId,
+    createFirstFeeRecord, firstMonthFee, firstMonthDueDate, waitlistIfFull,
   } = req.body;
 
   if (!studentName) return res.status(400).json({ success: false, error: 'studentName is required' });
-  if (!phone && !email) return res.status(400).json({ success: false, error: 'phone or email is required' });
+  // A sibling added to a family inherits the family's contact details.
+  if (!phone && !email && !familyId) return res.status(400).json({ success: false, error: 'phone or email is required' });
   if (!courseId) return res.status(400).json({ success: false, error: 'courseId is required' });
   if (stageNumber === undefined || levelNumber === undefined) {
     return res.status(400).json({ success: false, error: 'stageNumber and levelNumber are required' });
@@ -200,13 +195,11 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     // Flag if the admin manually typed a fee that differs from the course level fee
     // (only relevant when no explicit discount type was set)
     const feeOverridden = resolvedDiscountType === 'none' && adminEnteredFee !== courseLevelFee;
-
-    const { student, enrollment } = await createStudentWithEnrollment({
+    const newStudent = {
       student: { studentName, parentName, phone, email, dob, address, referredBy },
       courseId,
       stageNumber: parseInt(stageNumber),
       levelNumber: parseInt(levelNumber),
-      batchId: batchId ?? null,
       grossFee: courseLevelFee,
       monthlyFee: effectiveFee,
       discountType: resolvedDiscountType,
@@ -214,9 +207,23 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
       discountAmount: resolvedDiscountAmount,
       discountReason: discountReason ?? '',
       feeOverridden,
+      familyId: familyId || null,
       startDate,
       createdBy: adminUserId,
-    });
+    };
+
+    // The admin chose to queue the student if the batch has no seat left:
+    // no enrollment (or invoice) until they are promoted.
+    if (waitlistIfFull && batchId && await isBatchFull(batchId)) {
+      const { student, waitlistEntry, position } = await createStudentOnWaitlist({ ...newStudent, batchId });
+      return res.status(201).json({
+        success: true,
+        data: { student, enrollment: null, invoice: null, waitlist: { ...waitlistEntry.toJSON(), position } },
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const { student, enrollment } = await createStudentWithEnrollment({ ...newStudent, batchId: batchId ?? null });
 
     let invoice = null;
     if (createFirstFeeRecord) {
@@ -225,17 +232,21 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
       const dueDate = firstMonthDueDate
         ? new Date(firstMonthDueDate)
         : new Date(Date.UTC(invoiceMonth.getUTCFullYear(), invoiceMonth.getUTCMonth(), 5));
-      invoice = await createInvoice({
-        studentId: student._id.toString(),
-        enrollmentId: enrollment._id.toString(),
-        invoiceMonth,
-        dueDate,
-        amount: explicitFirstMonthFee && resolvedDiscountType === 'none'
-          ? Number(firstMonthFee)
-          : effectiveFee,
-        createdBy: adminUserId,
-        createdBySource: 'manual',
-      });
+      // enrollment.discountType, not the request's: a sibling discount may apply.
+      const overrideFee = explicitFirstMonthFee && enrollment.discountType === 'none';
+      // Without an explicit first-month fee the course's pro-ration policy
+      // prices a mid-month start, and may leave it unbilled (cutoff policy).
+      if (overrideFee || (await quoteInvoiceAmount(enrollment, invoiceMonth)).amount > 0) {
+        invoice = await createInvoice({
+          studentId: student._id.toString(),
+          enrollmentId: enrollment._id.toString(),
+          invoiceMonth,
+          dueDate,
+          amount: overrideFee ? Number(firstMonthFee) : undefined,
+          createdBy: adminUserId,
+          createdBySource: 'manual',
+        });
+      }
     }
 
     res.status(201).json({
@@ -248,6 +259,33 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// ── Pause-expired worklist ────────────────────────────────────────
+//
+// Paused students whose pausedUntil has passed and who have not been resumed,
+// with the reason the pause-expiry job flagged them (if it has).
+
+router.get('/pause-expired', asyncHandler(async (_req: Request, res: Response) => {
+  const data = await listExpiredPauses();
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// Runs the pause-expiry job now. action defaults to PAUSE_EXPIRY_ACTION;
+// dryRun is the default, as for billing runs and late fees.
+router.post('/pause-expired/run', asyncHandler(async (req: Request, res: Response) => {
+  const { action = config.pauseExpiryAction, dryRun } = req.body ?? {};
+  if (action !== 'resume' && action !== 'flag') {
+    return res.status(400).json({ success: false, error: 'action must be resume or flag' });
+  }
+  const summary = await processExpiredPauses({
+    asOf: new Date(),
+    action,
+    apply: dryRun === false || dryRun === 'false',
+    adminUserId: req.user!._id.toString(),
+    trigger: 'manual',
+  });
+  res.status(summary.mode === 'apply' ? 201 : 200).json({ success: true, data: summary, timestamp: new Date().toISOString() });
+}));
+
 // ── Student audit history (read-only ledger aggregation) ──────────
 
 router.get('/:id/audit-history', asyncHandler(async (req: Request, res: Response) => {
@@ -256,7 +294,7 @@ router.get('/:id/audit-history', asyncHandler(async (req: Request, res: Response
   }
   const studentId = new Types.ObjectId(req.params.id);
   const category = String(req.query.category ?? 'all');
-  const allowedCategories = new Set(['all', 'fees', 'payments', 'credits', 'enrollment', 'imports']);
+  const allowedCategories = new Set(['all', 'fees', 'payments', 'credits', 'enrollment', 'imports', 'reminders']);
   if (!allowedCategories.has(category)) {
     return res.status(400).json({ success: false, error: 'Invalid category filter' });
   }
@@ -271,6 +309,8 @@ router.get('/:id/audit-history', asyncHandler(async (req: Request, res: Response
     allocations,
     credits,
     waivers,
+    reminders,
+    lifecycleEvents,
   ] = await Promise.all([
     Enrollment.find({ studentId })
       .sort({ startDate: -1 })
@@ -304,6 +344,15 @@ router.get('/:id/audit-history', asyncHandler(async (req: Request, res: Response
       .populate('waivedBy', 'name email')
       .populate('paymentTransactionId', 'amount paymentDate paymentMethod transactionId createdBySource')
       .lean(),
+    ReminderLog.find({ studentId })
+      .sort({ sentAt: -1 })
+      .populate('sentBy', 'name email')
+      .lean(),
+    EnrollmentLifecycleEvent.find({ studentId })
+      .sort({ occurredAt: -1 })
+      .populate('processedBy', 'name email')
+      .populate('batchId', 'batchName')
+      .lean(),
   ]);
 
   const events: AuditEvent[] = [];
@@ -359,6 +408,33 @@ router.get('/:id/audit-history', asyncHandler(async (req: Request, res: Response
     }
   }
 
+  for (const event of lifecycleEvents as any[]) {
+    const pausedUntil = dayLabel(event.pausedUntil);
+    const batchName = event.batchId?.batchName;
+    events.push({
+      id: `lifecycle:${event._id}`,
+      occurredAt: event.occurredAt,
+      category: 'enrollment',
+      action: event.action,
+      title: ({
+        auto_resumed: 'Enrollment resumed automatically',
+        resumed_without_batch: 'Enrollment resumed without batch',
+        flagged: 'Pause expired — needs review',
+        pause_extended: 'Pause extended',
+      } as Record<string, string>)[event.action] ?? 'Pause updated',
+      description: event.action === 'pause_extended'
+        ? `Paused until ${dayLabel(event.newPausedUntil)} (was ${pausedUntil})`
+        : event.message || `Pause ended ${pausedUntil}${batchName ? ` · ${batchName}` : ''}`,
+      actor: event.trigger === 'manual' ? actorFrom(event.processedBy) : undefined,
+      source: event.trigger === 'cron' ? 'automatic' : 'manual',
+      related: {
+        enrollmentId: event.pausedEnrollmentId.toString(),
+        resumedEnrollmentId: asId(event.resumedEnrollmentId) ?? '',
+      },
+      metadata: { code: event.code, pausedUntil: event.pausedUntil, newPausedUntil: event.newPausedUntil },
+    });
+  }
+
   for (const invoice of invoices as any[]) {
     const invoiceMonth = monthLabel(invoice.invoiceMonth);
     events.push({
@@ -539,6 +615,24 @@ router.get('/:id/audit-history', asyncHandler(async (req: Request, res: Response
     });
   }
 
+  for (const reminder of reminders as any[]) {
+    const months = (reminder.monthsDue ?? []).map(monthLabel).join(', ');
+    events.push({
+      id: `reminder:${reminder._id}`,
+      occurredAt: reminder.sentAt,
+      category: 'reminders',
+      action: reminder.status === 'failed' ? 'reminder_failed' : 'reminder_sent',
+      title: reminder.status === 'failed'
+        ? 'Fee reminder failed'
+        : reminder.status === 'link_generated' ? 'Fee reminder link generated' : 'Fee reminder sent',
+      description: `${reminder.channel} to ${reminder.recipient}${months ? ` · ${months}` : ''}${reminder.error ? ` · ${reminder.error}` : ''}`,
+      amount: reminder.balanceDue,
+      actor: actorFrom(reminder.sentBy),
+      related: { reminderLogId: reminder._id.toString(), campaignId: asId(reminder.campaignId) ?? '' },
+      metadata: { channel: reminder.channel, link: reminder.link, error: reminder.error },
+    });
+  }
+
   const filtered = events
     .filter((event) => category === 'all' || event.category === category)
     .sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime())
@@ -559,12 +653,67 @@ router.get('/:id/audit-history', asyncHandler(async (req: Request, res: Response
         credits: events.filter((e) => e.category === 'credits').length,
         enrollment: events.filter((e) => e.category === 'enrollment').length,
         imports: events.filter((e) => e.category === 'imports').length,
+        reminders: events.filter((e) => e.category === 'reminders').length,
       },
     },
     timestamp: new Date().toISOString(),
   });
 }));
 
+// ── Account statement ─────────────────────────────────────────────
+//
+// Chronological debit/credit ledger with opening and closing balances.
+// from / to: YYYY-MM-DD, inclusive (from defaults to the start of the
+// account, to to today). format: json (default), csv or pdf.
+
+type StatementCsvRow = Omit<StatementEntry, 'type'> & { type: StatementEntry['type'] | 'opening_balance' | 'closing_balance' };
+
+const STATEMENT_COLUMNS: TabularColumn<StatementCsvRow>[] = [
+  { header: 'Date', value: (e) => e.date },
+  { header: 'Type', value: (e) => e.type, width: 16 },
+  { header: 'Description', value: (e) => e.description, width: 60 },
+  { header: 'Reference', value: (e) => e.reference },
+  { header: 'Debit', value: (e) => e.debit || null },
+  { header: 'Credit', value: (e) => e.credit || null },
+  { header: 'Balance', value: (e) => e.balance },
+];
+
+router.get('/:id/statement', asyncHandler(async (req: Request, res: Response) => {
+  const format = (req.query.format as string | undefined) ?? 'json';
+  if (!['json', 'csv', 'pdf'].includes(format)) {
+    return res.status(400).json({ success: false, error: 'format must be one of: json, csv, pdf' });
+  }
+  const parseDay = (value: unknown) => {
+    if (value === undefined || value === '') return null;
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? new Date(`${value}T00:00:00Z`) : new Date(NaN);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  };
+  const from = parseDay(req.query.from);
+  const to = parseDay(req.query.to);
+  if (from === undefined || to === undefined) {
+    return res.status(400).json({ success: false, error: 'from and to must be dates (YYYY-MM-DD)' });
+  }
+
+  const statement = await getStudentStatement(req.params.id, from, to);
+  if (format === 'pdf') {
+    const document = renderStatementPdf(statement);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+    return res.send(document.buffer);
+  }
+  if (format === 'csv') {
+    // Opening and closing balances ride along as the first and last rows.
+    const rows: StatementCsvRow[] = [
+      { date: statement.from ?? statement.entries[0]?.date ?? statement.to, type: 'opening_balance', description: 'Opening balance', debit: 0, credit: 0, balance: statement.openingBalance },
+      ...statement.entries,
+      { date: statement.to, type: 'closing_balance', description: 'Closing balance', debit: 0, credit: 0, balance: statement.closingBalance },
+    ];
+    const code = (statement.student.studentCode ?? statement.student.studentName).replace(/\s+/g, '_');
+    return sendTabular(res, 'csv', `statement-${code}-${statement.to.toISOString().slice(0, 10)}`, STATEMENT_COLUMNS, rows);
+  }
+  res.json({ success: true, data: statement, timestamp: new Date().toISOString() });
+}));
+
 // ── Get full student profile ──────────────────────────────────────
 
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
@@ -620,6 +769,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
       paymentMethod: txn.paymentMethod,
       paymentDate: txn.paymentDate,
       paymentRemarks: txn.remarks,
+      receiptNumber: txn.receiptNumber,
       isPaymentReversed: txn.isReversed === true,
     } : inv;
   });
@@ -651,6 +801,94 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
   res.json({ success: true, data: student, timestamp: new Date().toISOString() });
 }));
 
+// ── Parent portal access ──────────────────────────────────────────
+//
+// A portal login is a User with role 'user' linked via StudentV2.userId; one
+// account may hold several siblings. includeFamily applies the change to every
+// member of the student's family.
+
+async function portalTargets(studentId: string, includeFamily: boolean) {
+  if (!Types.ObjectId.isValid(studentId)) return null;
+  const student = await StudentV2.findById(studentId).select('familyId');
+  if (!student) return null;
+  if (includeFamily && student.familyId) {
+    return StudentV2.find({ familyId: student.familyId }).select('_id').lean().then((rows) => rows.map((r) => r._id));
+  }
+  return [student._id];
+}
+
+router.get('/:id/portal-access', asyncHandler(async (req: Request, res: Response) => {
+  const student = await StudentV2.findById(req.params.id).select('userId').lean();
+  if (!student) return res.status(404).json({ success: false, error: 'Student not found' });
+  const user = student.userId
+    ? await User.findById(student.userId).select('name email phone isActive').lean()
+    : null;
+  res.json({ success: true, data: { user }, timestamp: new Date().toISOString() });
+}));
+
+// Body: { email, name?, password?, includeFamily? } — links an existing portal
+// account by email, or creates one when name and password are given. Only
+// accounts created here (or already holding linked students) can be linked:
+// anyone can self-register with a parent's email before the admin gets to it.
+router.put('/:id/portal-access', asyncHandler(async (req: Request, res: Response) => {
+  const { email, name, password, includeFamily } = req.body;
+  if (!email) return res.status(400).json({ success: false, error: 'email is required' });
+  // Resolve the students first so a bad id never leaves an unlinked account behind.
+  const targets = await portalTargets(req.params.id, includeFamily === true);
+  if (!targets) return res.status(404).json({ success: false, error: 'Student not found' });
+
+  const existing = await User.findOne({ email: String(email).toLowerCase().trim(), deletedAt: null });
+  if (existing && existing.role !== 'user') {
+    return res.status(400).json({ success: false, error: 'That email belongs to a staff account and cannot be used for the parent portal' });
+  }
+  if (existing && !existing.portalProvisionedBy && !(await StudentV2.exists({ userId: existing._id }))) {
+    return res.status(409).json({
+      success: false,
+      error: 'That email belongs to a self-registered account, which cannot be linked because its ownership is unverified',
+    });
+  }
+  if (!existing) {
+    if (!name || !password) {
+      return res.status(404).json({ success: false, error: 'No portal account with that email — provide name and password to create one' });
+    }
+    if (String(password).length < 6) {
+      return res.status(400).json({ success: false, error: 'Password must be at least 6 characters long' });
+    }
+  }
+
+  // A new account and its links are written together.
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const user = existing ?? (await User.create([{
+      email: String(email).toLowerCase().trim(),
+      name,
+      password,
+      role: 'user',
+      portalProvisionedBy: req.user!._id,
+    }], { session }))[0];
+    await StudentV2.updateMany({ _id: { $in: targets } }, { $set: { userId: user._id } }, { session });
+    await session.commitTransaction();
+    res.json({
+      success: true,
+      data: { user: { _id: user._id, name: user.name, email: user.email, isActive: user.isActive }, linkedCount: targets.length },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}));
+
+router.delete('/:id/portal-access', asyncHandler(async (req: Request, res: Response) => {
+  const targets = await portalTargets(req.params.id, req.query.includeFamily === 'true');
+  if (!targets) return res.status(404).json({ success: false, error: 'Student not found' });
+  await StudentV2.updateMany({ _id: { $in: targets } }, { $unset: { userId: 1 } });
+  res.json({ success: true, data: { unlinkedCount: targets.length }, timestamp: new Date().toISOString() });
+}));
+
 // ── Toggle active status ──────────────────────────────────────────
 
 router.patch('/:id/toggle-active', asyncHandler(async (req: Request, res: Response) => {
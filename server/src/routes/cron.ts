@@ -1,4 +1,12 @@
 import express, { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import User from '../models/v2/User.js';
+import { parseBillingMonth, runMonthlyBilling } from '../services/v2/billingService.js';
+import { assessLateFees } from '../services/v2/lateFeeService.js';
+import { materializeSessions } from '../services/v2/attendanceService.js';
+import { expireMakeupCredits } from '../services/v2/makeupService.js';
+import { processExpiredPauses } from '../services/v2/pauseExpiryService.js';
+import { config } from '../config/index.js';
 
 const router = express.Router();
 
@@ -28,6 +36,81 @@ const verifyCronApiKey = (req: Request, res: Response, next: express.NextFunctio
   next();
 };
 
+// Scheduled jobs record a real user as createdBy/processedBy. Use the oldest
+// active superadmin — the same account the CLI scripts fall back to.
+const systemUserId = async (): Promise<string | null> => {
+  const admin = await User.findOne({ role: 'superadmin', isActive: true, deletedAt: null }).sort({ createdAt: 1 });
+  return admin ? admin._id.toString() : null;
+};
+
+// Monthly billing: invoice every active enrollment for the given month
+// (default: the current month). Safe to call repeatedly — already-invoiced
+// enrollments are skipped.
+router.post('/billing-run', verifyCronApiKey, asyncHandler(async (req: Request, res: Response) => {
+  const billingMonth = parseBillingMonth(req.body?.month ?? new Date().toISOString().slice(0, 7));
+  if (!billingMonth) {
+    res.status(400).json({ success: false, error: 'month must be in YYYY-MM format', timestamp: new Date().toISOString() });
+    return;
+  }
+  const adminUserId = await systemUserId();
+  if (!adminUserId) {
+    res.status(500).json({ success: false, error: 'No active superadmin to run billing as', timestamp: new Date().toISOString() });
+    return;
+  }
+  const summary = await runMonthlyBilling({ billingMonth, apply: true, adminUserId, trigger: 'cron' });
+  const { outcomes: _outcomes, ...counts } = summary;
+  res.json({ success: true, data: counts, timestamp: new Date().toISOString() });
+}));
+
+// Late fees: charge each course's late-fee rule on invoices overdue past its
+// grace period. Each invoice is assessed once, so daily calls are safe.
+router.post('/late-fees', verifyCronApiKey, asyncHandler(async (_req: Request, res: Response) => {
+  const adminUserId = await systemUserId();
+  if (!adminUserId) {
+    res.status(500).json({ success: false, error: 'No active superadmin to assess late fees as', timestamp: new Date().toISOString() });
+    return;
+  }
+  const summary = await assessLateFees({ asOf: new Date(), apply: true, adminUserId });
+  const { outcomes: _outcomes, ...counts } = summary;
+  res.json({ success: true, data: counts, timestamp: new Date().toISOString() });
+}));
+
+// Class sessions: keep the next two weeks of each active batch's schedule
+// materialised so attendance can be marked on the day.
+router.post('/class-sessions', verifyCronApiKey, asyncHandler(async (_req: Request, res: Response) => {
+  const from = new Date();
+  const to = new Date(from.getTime() + 14 * 24 * 60 * 60 * 1000);
+  const summary = await materializeSessions({ from, to });
+  res.json({ success: true, data: summary, timestamp: new Date().toISOString() });
+}));
+
+// Make-ups: expire entitlements that were not booked before their course's
+// expiry window closed. Booked make-ups stay valid for their booking.
+router.post('/makeup-expiry', verifyCronApiKey, asyncHandler(async (_req: Request, res: Response) => {
+  const result = await expireMakeupCredits(new Date());
+  res.json({ success: true, data: result, timestamp: new Date().toISOString() });
+}));
+
+// Pause expiry: resume (or, with PAUSE_EXPIRY_ACTION=flag, only flag for the
+// worklist) paused enrollments whose pausedUntil has passed. Resumed and
+// flagged pauses drop out of the next run, so daily calls are safe.
+router.post('/pause-expiry', verifyCronApiKey, asyncHandler(async (_req: Request, res: Response) => {
+  const adminUserId = await systemUserId();
+  if (!adminUserId) {
+    res.status(500).json({ success: false, error: 'No active superadmin to resume enrollments as', timestamp: new Date().toISOString() });
+    return;
+  }
+  const summary = await processExpiredPauses({
+    asOf: new Date(),
+    action: config.pauseExpiryAction,
+    apply: true,
+    adminUserId,
+    trigger: 'cron',
+  });
+  const { outcomes: _outcomes, ...counts } = summary;
+  res.json({ success: true, data: counts, timestamp: new Date().toISOString() });
+}));
+
 // Note: The update-overdue-fees endpoint has been removed since fee status
 // is now computed dynamically based on dueDate and paymentDate fields.
 // No scheduled job is needed to update status.
@@ -0,0 +1,166 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import StudentV2 from '../models/v2/Student.js';
+import Invoice from '../models/v2/Invoice.js';
+import PaymentTransaction from '../models/v2/PaymentTransaction.js';
+import CreditLedger from '../models/v2/CreditLedger.js';
+import Enrollment from '../models/v2/Enrollment.js';
+import { RenderedDocument, renderInvoicePdf, renderReceiptPdf } from '../services/v2/documentService.js';
+
+/**
+ * Parent/student self-service portal, mounted at /api/portal for the 'user'
+ * role. Every route is scoped to the StudentV2 records whose userId is the
+ * caller: a student, invoice or payment belonging to anyone else answers 404,
+ * exactly as if it did not exist.
+ *
+ * Read-only apart from document downloads. Fields are whitelisted — admin-only
+ * data (discount reasons, internal remarks, audit trails) is never returned.
+ */
+const router = Router();
+
+const STUDENT_FIELDS = 'studentName studentCode dob parentName email phone isActive enrollmentDate courseId stageNumber levelNumber batchId creditBalance';
+const INVOICE_FIELDS = 'studentId invoiceMonth dueDate amount allocatedAmount waivedAmount kind isVoid';
+const PAYMENT_FIELDS = 'studentId studentName amount paymentDate paymentMethod transactionId receiptNumber isReversed';
+
+const balanceExpr = { $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] };
+
+function sendPdf(res: Response, document: RenderedDocument) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${document.filename}"`);
+  res.send(document.buffer);
+}
+
+function notFound(res: Response, what: string) {
+  return res.status(404).json({ success: false, error: `${what} not found`, timestamp: new Date().toISOString() });
+}
+
+/** Ids of the caller's linked students. */
+async function linkedStudentIds(req: Request): Promise<Types.ObjectId[]> {
+  const students = await StudentV2.find({ userId: req.user!._id }).select('_id').lean();
+  return students.map((s) => s._id as Types.ObjectId);
+}
+
+// Resolves :studentId against the caller's links before any handler runs.
+router.param('studentId', async (req: Request, res: Response, next: NextFunction, studentId: string) => {
+  try {
+    if (!Types.ObjectId.isValid(studentId)) return notFound(res, 'Student');
+    const linked = await StudentV2.exists({ _id: new Types.ObjectId(studentId), userId: req.user!._id });
+    if (!linked) return notFound(res, 'Student');
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ── Overview ──────────────────────────────────────────────────────
+
+router.get('/students', asyncHandler(async (req: Request, res: Response) => {
+  const students = await StudentV2.find({ userId: req.user!._id })
+    .select(STUDENT_FIELDS)
+    .populate('courseId', 'displayName stages')
+    .populate('batchId', 'batchName schedule status')
+    .sort({ enrollmentDate: 1 })
+    .lean();
+
+  const balances = await Invoice.aggregate([
+    { $match: { studentId: { $in: students.map((s) => s._id) }, isVoid: false } },
+    { $group: { _id: '$studentId', balanceDue: { $sum: { $max: [0, balanceExpr] } } } },
+  ]);
+  const balanceByStudent = new Map((balances as any[]).map((b) => [b._id.toString(), b.balanceDue]));
+
+  // Every course the student is in, each with its own level and batch schedule
+  const active = await Enrollment.find({ studentId: { $in: students.map((s) => s._id) }, endDate: null })
+    .select('studentId courseId stageNumber levelNumber batchId')
+    .sort({ startDate: 1 })
+    .populate('courseId', 'displayName stages')
+    .populate('batchId', 'batchName schedule status')
+    .lean() as any[];
+  const enrollmentsByStudent = new Map<string, any[]>();
+  for (const e of active) {
+    const key = e.studentId.toString();
+    enrollmentsByStudent.set(key, [...(enrollmentsByStudent.get(key) ?? []), {
+      id: e._id.toString(),
+      courseName: e.courseId?.displayName ?? null,
+      stageNumber: e.stageNumber,
+      stageName: e.courseId?.stages?.find((stage: any) => stage.stageNumber === e.stageNumber)?.stageName ?? null,
+      levelNumber: e.levelNumber,
+      batch: e.batchId
+        ? { _id: e.batchId._id, batchName: e.batchId.batchName, schedule: e.batchId.schedule, status: e.batchId.status }
+        : null,
+    }]);
+  }
+
+  const data = students.map((s) => {
+    const course = s.courseId as any;
+    const stage = course?.stages?.find((st: any) => st.stageNumber === s.stageNumber);
+    return {
+      ...s,
+      id: s._id.toString(),
+      courseId: course ? { _id: course._id, displayName: course.displayName } : null,
+      stageName: stage?.stageName ?? null,
+      activeEnrollments: enrollmentsByStudent.get(s._id.toString()) ?? [],
+      balanceDue: balanceByStudent.get(s._id.toString()) ?? 0,
+    };
+  });
+  res.json({ success: true, data, timestamp: new Date().toISOString() });
+}));
+
+// ── Fees ──────────────────────────────────────────────────────────
+
+router.get('/students/:studentId/invoices', asyncHandler(async (req: Request, res: Response) => {
+  const filter: any = { studentId: new Types.ObjectId(req.params.studentId), isVoid: false };
+  if (req.query.status === 'outstanding') filter.$expr = { $gt: [balanceExpr, 0] };
+  const invoices = await Invoice.find(filter)
+    .select(INVOICE_FIELDS)
+    .sort({ invoiceMonth: -1, dueDate: -1 });
+  res.json({ success: true, data: invoices, timestamp: new Date().toISOString() });
+}));
+
+router.get('/students/:studentId/payments', asyncHandler(async (req: Request, res: Response) => {
+  const payments = await PaymentTransaction.find({ studentId: new Types.ObjectId(req.params.studentId) })
+    .select(PAYMENT_FIELDS)
+    .sort({ paymentDate: -1, createdAt: -1 })
+    .limit(Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50)))
+    .lean();
+  res.json({ success: true, data: payments, timestamp: new Date().toISOString() });
+}));
+
+router.get('/students/:studentId/credits', asyncHandler(async (req: Request, res: Response) => {
+  const studentId = new Types.ObjectId(req.params.studentId);
+  const [student, credits] = await Promise.all([
+    StudentV2.findById(studentId).select('creditBalance').lean(),
+    CreditLedger.find({ studentId })
+      .select('type amount balanceAfter description processedAt')
+      .sort({ processedAt: -1 })
+      .limit(100)
+      .lean(),
+  ]);
+  res.json({
+    success: true,
+    data: { creditBalance: student?.creditBalance ?? 0, credits },
+    timestamp: new Date().toISOString(),
+  });
+}));
+
+// ── Documents ─────────────────────────────────────────────────────
+
+router.get('/invoices/:id/pdf', asyncHandler(async (req: Request, res: Response) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return notFound(res, 'Invoice');
+  const owned = await Invoice.exists({ _id: new Types.ObjectId(req.params.id), studentId: { $in: await linkedStudentIds(req) } });
+  if (!owned) return notFound(res, 'Invoice');
+  sendPdf(res, await renderInvoicePdf(req.params.id));
+}));
+
+router.get('/payments/:id/receipt.pdf', asyncHandler(async (req: Request, res: Response) => {
+  if (!Types.ObjectId.isValid(req.params.id)) return notFound(res, 'Payment');
+  const owned = await PaymentTransaction.exists({
+    _id: new Types.ObjectId(req.params.id),
+    studentId: { $in: await linkedStudentIds(req) },
+    isReversed: { $ne: true },
+  });
+  if (!owned) return notFound(res, 'Payment');
+  sendPdf(res, await renderReceiptPdf(req.params.id));
+}));
+
+export default router;
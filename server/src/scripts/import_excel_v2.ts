@@ -3,6 +3,7 @@ import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import Database from '../config/database.js';
 import User from '../models/v2/User.js';
+import ImportProfile from '../models/v2/ImportProfile.js';
 import { importExcel } from '../services/v2/excelImportService.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -20,6 +21,10 @@ async function main() {
   const apply = process.argv.includes('--apply');
   const dryRun = process.argv.includes('--dry-run') || !apply;
   const resetFreshDb = process.argv.includes('--reset-fresh-db');
+  // Update students already in the database instead of creating them again
+  const incremental = process.argv.includes('--incremental');
+  // Mapping profile by name; the default profile when omitted
+  const profileName = argValue('--profile');
 
   const db = Database.getInstance();
   await db.connect();
@@ -35,10 +40,15 @@ async function main() {
     });
   }
 
+  const profile = profileName ? await ImportProfile.findOne({ name: profileName }) : null;
+  if (profileName && !profile) throw new Error(`Import profile not found: ${profileName}`);
+
   const summary = await importExcel({
     filePath,
     apply: apply && !dryRun,
     resetFreshDb,
+    incremental,
+    profileId: profile?._id.toString(),
     adminUserId: admin._id.toString(),
   });
   console.log(JSON.stringify(summary, null, 2));
@@ -0,0 +1,42 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import dotenv from 'dotenv';
+import Database from '../config/database.js';
+import User from '../models/v2/User.js';
+import { parseBillingMonth, runMonthlyBilling } from '../services/v2/billingService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const billingMonth = parseBillingMonth(argValue('--month') ?? new Date().toISOString().slice(0, 7));
+  if (!billingMonth) throw new Error('--month must be in YYYY-MM format');
+  const apply = process.argv.includes('--apply');
+
+  const db = Database.getInstance();
+  await db.connect();
+
+  const admin = await User.findOne({ role: 'superadmin', isActive: true }).sort({ createdAt: 1 });
+  if (!admin) throw new Error('No active superadmin found — create one with npm run create-admin');
+
+  const summary = await runMonthlyBilling({
+    billingMonth,
+    apply,
+    adminUserId: admin._id.toString(),
+    trigger: 'cli',
+  });
+  console.log(JSON.stringify(summary, null, 2));
+  await db.disconnect();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,461 @@
+import mongoose, { Types } from 'mongoose';
+import Batch from '../../models/v2/Batch.js';
+import Enrollment from '../../models/v2/Enrollment.js';
+import StudentV2 from '../../models/v2/Student.js';
+import ClassSession, { IClassSession } from '../../models/v2/ClassSession.js';
+import AttendanceRecord, { AttendanceStatus } from '../../models/v2/AttendanceRecord.js';
+import { ApiError } from '../../utils/errors.js';
+import { bookedGuests, consumeBookings, grantMakeups, releaseBookings, revokeMakeups } from './makeupService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A month below this attendance rate (present + late) flags the student as drifting. */
+export const LOW_ATTENDANCE_THRESHOLD = 60;
+/** Months with fewer countable sessions than this are never flagged — one missed class is not a trend. */
+const LOW_ATTENDANCE_MIN_SESSIONS = 3;
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'excused'];
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+function monthKey(d: Date): string {
+  return d.toISOString().slice(0, 7);
+}
+
+// ── Session generation ────────────────────────────────────────────
+
+export interface MaterializeSummary {
+  from: Date;
+  to: Date;
+  batches: number;
+  created: number;
+  existing: number;
+  removed: number;
+}
+
+/**
+ * Create a ClassSession for every schedule slot of every active batch in
+ * [from, to), clamped to each batch's own start and end dates.
+ *
+ * Upserts on (batchId, sessionDate, startTime), so overlapping calls are safe.
+ * Unmarked future sessions that no longer match the batch's schedule (the
+ * schedule was edited since they were generated) are removed; sessions with
+ * attendance are always kept.
+ */
+export async function materializeSessions(params: {
+  from: Date;
+  to: Date;
+  batchId?: string;
+  batchIds?: Types.ObjectId[];   // only these batches (still active ones)
+}): Promise<MaterializeSummary> {
+  const from = dateOnlyUTC(params.from);
+  const to = dateOnlyUTC(params.to);
+  const summary: MaterializeSummary = { from, to, batches: 0, created: 0, existing: 0, removed: 0 };
+  if (to <= from) return summary;
+
+  const filter: any = { status: 'active' };
+  if (params.batchId) filter._id = new Types.ObjectId(params.batchId);
+  else if (params.batchIds) filter._id = { $in: params.batchIds };
+  const batches = await Batch.find(filter).lean();
+  summary.batches = batches.length;
+  const today = dateOnlyUTC(new Date());
+
+  for (const batch of batches) {
+    const start = new Date(Math.max(from.getTime(), dateOnlyUTC(batch.startDate).getTime()));
+    const end = batch.endDate
+      ? new Date(Math.min(to.getTime(), dateOnlyUTC(batch.endDate).getTime() + DAY_MS))
+      : to;
+
+    const slots: { sessionDate: Date; startTime: string }[] = [];
+    for (let d = start; d < end; d = new Date(d.getTime() + DAY_MS)) {
+      for (const entry of batch.schedule) {
+        if (entry.dayOfWeek === d.getUTCDay()) slots.push({ sessionDate: d, startTime: entry.startTime });
+      }
+    }
+
+    if (slots.length > 0) {
+      const result = await ClassSession.bulkWrite(slots.map((slot) => ({
+        updateOne: {
+          filter: { batchId: batch._id, sessionDate: slot.sessionDate, startTime: slot.startTime },
+          update: {
+            $setOnInsert: {
+              batchId: batch._id,
+              courseId: batch.courseId,
+              stageNumber: batch.stageNumber,
+              levelNumber: batch.levelNumber,
+              sessionDate: slot.sessionDate,
+              startTime: slot.startTime,
+              status: 'scheduled',
+            },
+          },
+          upsert: true,
+        },
+      })));
+      summary.created += result.upsertedCount;
+      summary.existing += slots.length - result.upsertedCount;
+    }
+
+    // Drop stale slots left behind by a schedule change.
+    const staleFrom = new Date(Math.max(from.getTime(), today.getTime()));
+    const candidates = await ClassSession.find({
+      batchId: batch._id,
+      status: 'scheduled',
+      sessionDate: { $gte: staleFrom, $lt: to },
+    }).select('sessionDate startTime').lean();
+    const wanted = new Set(slots.map((s) => `${s.sessionDate.getTime()}|${s.startTime}`));
+    const stale = candidates.filter((s) => !wanted.has(`${s.sessionDate.getTime()}|${s.startTime}`));
+    if (stale.length > 0) {
+      const marked = new Set(
+        (await AttendanceRecord.distinct('sessionId', { sessionId: { $in: stale.map((s) => s._id) } }))
+          .map((id) => id.toString()),
+      );
+      const removable = stale.filter((s) => !marked.has(s._id.toString())).map((s) => s._id);
+      if (removable.length > 0) {
+        const { deletedCount } = await ClassSession.deleteMany({ _id: { $in: removable } });
+        summary.removed += deletedCount;
+      }
+    }
+  }
+
+  return summary;
+}
+
+// ── Roster and marking ────────────────────────────────────────────
+
+export interface RosterEntry {
+  studentId: Types.ObjectId;
+  enrollmentId: Types.ObjectId;
+  studentName: string;
+  studentCode?: string;
+  /** Set for make-up guests booked in from another batch. */
+  makeupCreditId?: Types.ObjectId;
+  status: AttendanceStatus | null;
+  note?: string;
+  markedAt?: Date;
+}
+
+/** Enrollments that placed a student in the batch on the given date. */
+async function enrollmentsOn(batchId: Types.ObjectId, date: Date) {
+  return Enrollment.find({
+    batchId,
+    startDate: { $lt: new Date(date.getTime() + DAY_MS) },
+    $or: [{ endDate: null }, { endDate: { $gt: date } }],
+  }).select('studentId').lean();
+}
+
+/**
+ * A session with its roster: every student enrolled in the batch on the
+ * session date, make-up guests booked into it, plus anyone already marked (so
+ * a later transfer out does not hide a past mark).
+ */
+export async function getSessionRoster(sessionId: string): Promise<{ session: IClassSession; roster: RosterEntry[] }> {
+  const session = await ClassSession.findById(sessionId);
+  if (!session) throw new ApiError('Session not found', 404, 'SESSION_NOT_FOUND');
+
+  const [enrollments, guests, records] = await Promise.all([
+    enrollmentsOn(session.batchId, session.sessionDate),
+    bookedGuests(session._id as Types.ObjectId),
+    AttendanceRecord.find({ sessionId: session._id }).lean(),
+  ]);
+  const recordByStudent = new Map(records.map((r) => [r.studentId.toString(), r]));
+  const enrollmentByStudent = new Map<string, Types.ObjectId>();
+  for (const e of enrollments) enrollmentByStudent.set(e.studentId.toString(), e._id as Types.ObjectId);
+  const guestCredit = new Map<string, Types.ObjectId>();
+  for (const g of guests) {
+    if (enrollmentByStudent.has(g.studentId.toString())) continue;
+    enrollmentByStudent.set(g.studentId.toString(), g.enrollmentId);
+    guestCredit.set(g.studentId.toString(), g._id as Types.ObjectId);
+  }
+  for (const r of records) {
+    if (!enrollmentByStudent.has(r.studentId.toString())) enrollmentByStudent.set(r.studentId.toString(), r.enrollmentId);
+    if (r.makeupCreditId && !guestCredit.has(r.studentId.toString())) guestCredit.set(r.studentId.toString(), r.makeupCreditId);
+  }
+
+  const students = await StudentV2.find({ _id: { $in: [...enrollmentByStudent.keys()].map((id) => new Types.ObjectId(id)) } })
+    .select('studentName studentCode')
+    .lean();
+  const roster = students
+    .map((s): RosterEntry => {
+      const record = recordByStudent.get(s._id.toString());
+      return {
+        studentId: s._id as Types.ObjectId,
+        enrollmentId: enrollmentByStudent.get(s._id.toString())!,
+        studentName: s.studentName,
+        studentCode: s.studentCode,
+        makeupCreditId: guestCredit.get(s._id.toString()),
+        status: record?.status ?? null,
+        note: record?.note,
+        markedAt: record?.markedAt,
+      };
+    })
+    .sort((a, b) => a.studentName.localeCompare(b.studentName));
+
+  return { session, roster };
+}
+
+/**
+ * Record attendance for some or all of a session's roster. Re-marking a
+ * student overwrites their previous status. The session becomes 'held'.
+ *
+ * Excusing a regular student owes them a make-up (revoked again if the mark
+ * changes before it is booked). Marking a make-up guest uses up their booking,
+ * except excused, which hands the make-up back to them.
+ */
+export async function markAttendance(
+  sessionId: string,
+  marks: { studentId: string; status: AttendanceStatus; note?: string }[],
+  adminUserId: string,
+): Promise<{ session: IClassSession; roster: RosterEntry[] }> {
+  const { session: classSession, roster } = await getSessionRoster(sessionId);
+  if (classSession.status === 'cancelled') {
+    throw new ApiError('Cannot mark attendance for a cancelled session', 409, 'SESSION_CANCELLED');
+  }
+  if (classSession.sessionDate.getTime() > dateOnlyUTC(new Date()).getTime()) {
+    throw new ApiError('Cannot mark attendance for a future session', 400, 'SESSION_IN_FUTURE');
+  }
+  const rosterByStudent = new Map(roster.map((r) => [r.studentId.toString(), r]));
+  for (const mark of marks) {
+    if (!ATTENDANCE_STATUSES.includes(mark.status)) {
+      throw new ApiError(`status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`, 400, 'INVALID_STATUS');
+    }
+    if (!rosterByStudent.has(String(mark.studentId))) {
+      throw new ApiError('Student was not enrolled in this batch on the session date', 400, 'NOT_ON_ROSTER');
+    }
+  }
+
+  const markedAt = new Date();
+  const markedBy = new Types.ObjectId(adminUserId);
+  const dbSession = await mongoose.startSession();
+  dbSession.startTransaction();
+  try {
+    if (marks.length > 0) {
+      await AttendanceRecord.bulkWrite(marks.map((mark) => ({
+        updateOne: {
+          filter: { sessionId: classSession._id, studentId: new Types.ObjectId(mark.studentId) },
+          update: {
+            $set: { status: mark.status, note: mark.note ?? '', markedBy, markedAt },
+            $setOnInsert: {
+              batchId: classSession.batchId,
+              enrollmentId: rosterByStudent.get(String(mark.studentId))!.enrollmentId,
+              makeupCreditId: rosterByStudent.get(String(mark.studentId))!.makeupCreditId ?? null,
+              sessionDate: classSession.sessionDate,
+            },
+          },
+          upsert: true,
+        },
+      })), { session: dbSession });
+      await ClassSession.updateOne({ _id: classSession._id }, { $set: { status: 'held' } }, { session: dbSession });
+
+      const sessionObjectId = classSession._id as Types.ObjectId;
+      const entries = marks.map((mark) => ({ mark, entry: rosterByStudent.get(String(mark.studentId))! }));
+      const ids = (pick: (m: typeof entries[number]) => boolean) => entries.filter(pick).map(({ entry }) => entry.studentId);
+      const excusedRegulars = entries.filter(({ mark, entry }) => !entry.makeupCreditId && mark.status === 'excused');
+      await grantMakeups(classSession, excusedRegulars.map(({ entry }) => entry), 'excused_absence', adminUserId, dbSession);
+      const otherRegulars = ids(({ mark, entry }) => !entry.makeupCreditId && mark.status !== 'excused');
+      if (otherRegulars.length > 0) {
+        await revokeMakeups(sessionObjectId, { source: 'excused_absence', studentIds: otherRegulars }, 'Absence no longer excused', dbSession);
+      }
+      const excusedGuests = ids(({ mark, entry }) => !!entry.makeupCreditId && mark.status === 'excused');
+      if (excusedGuests.length > 0) {
+        await releaseBookings({ sessionId: sessionObjectId, studentIds: excusedGuests }, 'Excused from make-up session', dbSession);
+      }
+      await consumeBookings(sessionObjectId, ids(({ mark, entry }) => !!entry.makeupCreditId && mark.status !== 'excused'), dbSession);
+    }
+    await dbSession.commitTransaction();
+  } catch (error) {
+    await dbSession.abortTransaction();
+    throw error;
+  } finally {
+    dbSession.endSession();
+  }
+
+  return getSessionRoster(sessionId);
+}
+
+/**
+ * Cancel a session, or restore a cancelled one. Marks on a cancelled session
+ * are kept but not counted.
+ *
+ * Cancelling owes every regular student on the roster a make-up and hands
+ * booked guests their make-up back; restoring withdraws the make-ups it
+ * created that have not been booked yet.
+ */
+export async function setSessionCancelled(
+  sessionId: string,
+  cancelled: boolean,
+  adminUserId: string,
+  reason?: string,
+): Promise<IClassSession> {
+  const { session, roster } = await getSessionRoster(sessionId);
+  const wasCancelled = session.status === 'cancelled';
+  if (cancelled) {
+    session.status = 'cancelled';
+    session.cancelReason = reason ?? '';
+  } else if (wasCancelled) {
+    const marked = await AttendanceRecord.exists({ sessionId: session._id });
+    session.status = marked ? 'held' : 'scheduled';
+    session.cancelReason = undefined;
+  }
+  if (cancelled === wasCancelled) {
+    await session.save();
+    return session;
+  }
+
+  const sessionObjectId = session._id as Types.ObjectId;
+  const dbSession = await mongoose.startSession();
+  dbSession.startTransaction();
+  try {
+    await session.save({ session: dbSession });
+    if (cancelled) {
+      await grantMakeups(session, roster.filter((r) => !r.makeupCreditId), 'cancelled_session', adminUserId, dbSession);
+      await releaseBookings({ sessionId: sessionObjectId }, 'Make-up session was cancelled', dbSession);
+    } else {
+      await revokeMakeups(sessionObjectId, { source: 'cancelled_session' }, 'Session was restored', dbSession);
+    }
+    await dbSession.commitTransaction();
+  } catch (error) {
+    await dbSession.abortTransaction();
+    throw error;
+  } finally {
+    dbSession.endSession();
+  }
+  return session;
+}
+
+// ── History and percentages ───────────────────────────────────────
+
+export interface AttendanceCounts {
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  total: number;
+  /** (present + late) / (present + late + absent), as a whole percentage; null when nothing countable. */
+  percentage: number | null;
+  lowAttendance: boolean;
+}
+
+export interface MonthlyAttendance extends AttendanceCounts {
+  month: string;              // YYYY-MM
+}
+
+function countAttendance(statuses: AttendanceStatus[]): AttendanceCounts {
+  const counts = { present: 0, late: 0, absent: 0, excused: 0 };
+  for (const s of statuses) counts[s] += 1;
+  const attended = counts.present + counts.late;
+  const countable = attended + counts.absent;
+  const percentage = countable > 0 ? Math.round((attended / countable) * 100) : null;
+  return {
+    ...counts,
+    total: statuses.length,
+    percentage,
+    lowAttendance: percentage !== null && countable >= LOW_ATTENDANCE_MIN_SESSIONS && percentage < LOW_ATTENDANCE_THRESHOLD,
+  };
+}
+
+/** Records in a date range, excluding those on cancelled sessions. */
+async function countedRecords(filter: Record<string, unknown>, from?: Date, to?: Date) {
+  const query: any = { ...filter };
+  if (from || to) {
+    query.sessionDate = {};
+    if (from) query.sessionDate.$gte = from;
+    if (to) query.sessionDate.$lt = to;
+  }
+  const records = await AttendanceRecord.find(query).sort({ sessionDate: -1 }).lean();
+  const cancelled = new Set(
+    (await ClassSession.distinct('_id', {
+      _id: { $in: [...new Set(records.map((r) => r.sessionId.toString()))].map((id) => new Types.ObjectId(id)) },
+      status: 'cancelled',
+    })).map((id) => id.toString()),
+  );
+  return records.filter((r) => !cancelled.has(r.sessionId.toString()));
+}
+
+/** A student's attendance history with per-month percentages (newest month first). */
+export async function getStudentAttendance(studentId: string, opts: { from?: Date; to?: Date } = {}) {
+  const records = await countedRecords({ studentId: new Types.ObjectId(studentId) }, opts.from, opts.to);
+  const [sessions, batches] = await Promise.all([
+    ClassSession.find({ _id: { $in: records.map((r) => r.sessionId) } }).select('startTime').lean(),
+    Batch.find({ _id: { $in: [...new Set(records.map((r) => r.batchId.toString()))] } }).select('batchName batchCode').lean(),
+  ]);
+  const startTimeBySession = new Map(sessions.map((s) => [s._id.toString(), s.startTime]));
+  const batchById = new Map(batches.map((b) => [b._id.toString(), b]));
+
+  const byMonth = new Map<string, AttendanceStatus[]>();
+  for (const r of records) {
+    const key = monthKey(r.sessionDate);
+    if (!byMonth.has(key)) byMonth.set(key, []);
+    byMonth.get(key)!.push(r.status);
+  }
+  const monthly: MonthlyAttendance[] = [...byMonth.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([month, statuses]) => ({ month, ...countAttendance(statuses) }));
+
+  return {
+    records: records.map((r) => ({
+      id: r._id.toString(),
+      sessionId: r.sessionId,
+      sessionDate: r.sessionDate,
+      startTime: startTimeBySession.get(r.sessionId.toString()),
+      batchId: r.batchId,
+      batchName: batchById.get(r.batchId.toString())?.batchName,
+      batchCode: batchById.get(r.batchId.toString())?.batchCode,
+      status: r.status,
+      note: r.note,
+    })),
+    monthly,
+    overall: countAttendance(records.map((r) => r.status)),
+  };
+}
+
+/**
+ * One month of a batch: its sessions and, per student on any of those
+ * sessions' rosters, their mark for each session and monthly percentage.
+ */
+export async function getBatchAttendance(batchId: string, month: Date) {
+  const monthStart = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), 1));
+  const monthEnd = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1));
+  const batchObjectId = new Types.ObjectId(batchId);
+
+  const [sessions, records, enrollments] = await Promise.all([
+    ClassSession.find({ batchId: batchObjectId, sessionDate: { $gte: monthStart, $lt: monthEnd } })
+      .sort({ sessionDate: 1, startTime: 1 })
+      .lean(),
+    AttendanceRecord.find({ batchId: batchObjectId, sessionDate: { $gte: monthStart, $lt: monthEnd } }).lean(),
+    Enrollment.find({
+      batchId: batchObjectId,
+      startDate: { $lt: monthEnd },
+      $or: [{ endDate: null }, { endDate: { $gt: monthStart } }],
+    }).select('studentId').lean(),
+  ]);
+  const cancelled = new Set(sessions.filter((s) => s.status === 'cancelled').map((s) => s._id.toString()));
+
+  const studentIds = new Set([
+    ...enrollments.map((e) => e.studentId.toString()),
+    ...records.map((r) => r.studentId.toString()),
+  ]);
+  const students = await StudentV2.find({ _id: { $in: [...studentIds].map((id) => new Types.ObjectId(id)) } })
+    .select('studentName studentCode')
+    .lean();
+
+  return {
+    month: monthKey(monthStart),
+    sessions: sessions.map((s) => ({ ...s, id: s._id.toString() })),
+    students: students
+      .map((s) => {
+        const own = records.filter((r) => r.studentId.toString() === s._id.toString());
+        const marks: Record<string, AttendanceStatus> = {};
+        for (const r of own) marks[r.sessionId.toString()] = r.status;
+        return {
+          studentId: s._id.toString(),
+          studentName: s.studentName,
+          studentCode: s.studentCode,
+          marks,
+          ...countAttendance(own.filter((r) => !cancelled.has(r.sessionId.toString())).map((r) => r.status)),
+        };
+      })
+      .sort((a, b) => a.studentName.localeCompare(b.studentName)),
+  };
+}
@@ -0,0 +1,196 @@
+import { Types } from 'mongoose';
+import Enrollment from '../../models/v2/Enrollment.js';
+import Invoice from '../../models/v2/Invoice.js';
+import StudentV2 from '../../models/v2/Student.js';
+import BillingRun, { IBillingRunOutcome } from '../../models/v2/BillingRun.js';
+import { createInvoice, quoteInvoiceAmount } from './feeService.js';
+
+export interface BillingRunSummary {
+  mode: 'dry-run' | 'apply';
+  billingMonth: Date;
+  totalEnrollments: number;
+  createdInvoices: number;
+  skippedCount: number;
+  failedCount: number;
+  totalAmount: number;
+  outcomes: IBillingRunOutcome[];
+  billingRunId?: string;
+}
+
+function startOfMonthUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+}
+
+function endOfMonthUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0, 23, 59, 59, 999));
+}
+
+/**
+ * Parse a "YYYY-MM" (or any Date-parsable) string into the first of that
+ * month, UTC. Returns null when the value cannot be parsed.
+ */
+export function parseBillingMonth(value: unknown): Date | null {
+  if (!value) return null;
+  const text = String(value).trim();
+  const ym = text.match(/^(\d{4})-(\d{1,2})$/);
+  if (ym) {
+    const month = parseInt(ym[2]) - 1;
+    if (month < 0 || month > 11) return null;
+    return new Date(Date.UTC(parseInt(ym[1]), month, 1));
+  }
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? null : startOfMonthUTC(parsed);
+}
+
+/**
+ * Bill every active enrollment for one month.
+ *
+ * Idempotent: an enrollment that already has an invoice for the month is
+ * recorded as skipped, and a concurrent run that wins the race on the
+ * unique_tuition_invoice_month index is treated the same way rather
+ * than as a failure. Each enrollment is billed in its own transaction (via
+ * createInvoice) so one bad row never rolls back the rest of the run.
+ *
+ * Dry-run computes the same outcomes without writing anything and without
+ * persisting a BillingRun — the same contract as importExcel.
+ */
+export async function runMonthlyBilling(params: {
+  billingMonth: Date;
+  apply: boolean;
+  adminUserId: string;
+  trigger?: 'manual' | 'cron' | 'cli';
+}): Promise<BillingRunSummary> {
+  const billingMonth = startOfMonthUTC(params.billingMonth);
+  const monthEnd = endOfMonthUTC(billingMonth);
+  const summary: BillingRunSummary = {
+    mode: params.apply ? 'apply' : 'dry-run',
+    billingMonth,
+    totalEnrollments: 0,
+    createdInvoices: 0,
+    skippedCount: 0,
+    failedCount: 0,
+    totalAmount: 0,
+    outcomes: [],
+  };
+
+  const billingRun = params.apply
+    ? await BillingRun.create({
+      billingMonth,
+      mode: 'apply',
+      trigger: params.trigger ?? 'manual',
+      status: 'running',
+      startedBy: new Types.ObjectId(params.adminUserId),
+    })
+    : null;
+  if (billingRun) summary.billingRunId = billingRun._id.toString();
+
+  try {
+    const enrollments = await Enrollment.find({ endDate: null }).sort({ startDate: 1 }).lean();
+    summary.totalEnrollments = enrollments.length;
+
+    const studentIds = enrollments.map((e) => e.studentId);
+    const [students, existingInvoices] = await Promise.all([
+      StudentV2.find({ _id: { $in: studentIds } }).select('studentName isActive').lean(),
+      Invoice.find({
+        enrollmentId: { $in: enrollments.map((e) => e._id) },
+        invoiceMonth: billingMonth,
+        kind: { $ne: 'late_fee' },
+      })
+        .select('enrollmentId')
+        .lean(),
+    ]);
+    const studentById = new Map(students.map((s) => [s._id.toString(), s]));
+    const invoicedEnrollments = new Set(existingInvoices.map((inv) => inv.enrollmentId.toString()));
+
+    const skip = (outcome: IBillingRunOutcome, code: string, message: string) => {
+      summary.outcomes.push({ ...outcome, outcome: 'skipped', code, message });
+      summary.skippedCount += 1;
+    };
+
+    for (const enrollment of enrollments) {
+      const student = studentById.get(enrollment.studentId.toString());
+      const base: IBillingRunOutcome = {
+        studentId: enrollment.studentId,
+        studentName: student?.studentName,
+        enrollmentId: enrollment._id as Types.ObjectId,
+        outcome: 'skipped',
+      };
+
+      if (!student) {
+        skip(base, 'student_missing', 'Enrollment references a student that no longer exists');
+        continue;
+      }
+      if (!student.isActive) {
+        skip(base, 'student_inactive', 'Student is marked inactive');
+        continue;
+      }
+      if (enrollment.startDate > monthEnd) {
+        skip(base, 'not_started', `Enrollment starts on ${enrollment.startDate.toISOString().slice(0, 10)}`);
+        continue;
+      }
+      if (!(enrollment.monthlyFee > 0)) {
+        skip(base, 'no_fee', 'Enrollment has no monthly fee');
+        continue;
+      }
+      if (invoicedEnrollments.has(enrollment._id.toString())) {
+        skip(base, 'already_invoiced', 'Invoice already exists for this month');
+        continue;
+      }
+
+      // Mid-month starts are priced by the course's pro-ration policy, which
+      // may leave the month unbilled altogether (e.g. cutoff policy).
+      const quote = await quoteInvoiceAmount(enrollment, billingMonth);
+      if (!(quote.amount > 0)) {
+        skip(base, 'not_billable', 'Pro-ration policy leaves nothing to bill for this month');
+        continue;
+      }
+
+      if (!params.apply) {
+        summary.outcomes.push({ ...base, outcome: 'would_create', amount: quote.amount });
+        summary.totalAmount += quote.amount;
+        continue;
+      }
+
+      try {
+        const invoice = await createInvoice({
+          studentId: enrollment.studentId.toString(),
+          enrollmentId: enrollment._id.toString(),
+          invoiceMonth: billingMonth,
+          createdBy: params.adminUserId,
+          createdBySource: 'billing',
+        });
+        summary.outcomes.push({ ...base, outcome: 'created', invoiceId: invoice._id as Types.ObjectId, amount: invoice.amount });
+        summary.createdInvoices += 1;
+        summary.totalAmount += invoice.amount;
+      } catch (error: any) {
+        if (error?.code === 11000) {
+          skip(base, 'already_invoiced', 'Invoice was created concurrently for this month');
+          continue;
+        }
+        summary.outcomes.push({ ...base, outcome: 'failed', code: 'invoice_failed', message: error?.message ?? 'Invoice creation failed' });
+        summary.failedCount += 1;
+      }
+    }
+
+    if (billingRun) {
+      billingRun.set({
+        status: 'completed',
+        finishedAt: new Date(),
+        totalEnrollments: summary.totalEnrollments,
+        createdInvoices: summary.createdInvoices,
+        skippedCount: summary.skippedCount,
+        failedCount: summary.failedCount,
+        totalAmount: summary.totalAmount,
+        outcomes: summary.outcomes,
+      });
+      await billingRun.save();
+    }
+    return summary;
+  } catch (error: any) {
+    if (billingRun) {
+      billingRun.set({ status: 'failed', finishedAt: new Date(), error: error.message, outcomes: summary.outcomes });
+      await billingRun.save();
+    }
+    throw error;
+  }
+}
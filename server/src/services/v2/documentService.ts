@@ -0,0 +1,309 @@
+import { Types } from 'mongoose';
+import { config } from '../../config/index.js';
+import { ApiError } from '../../utils/errors.js';
+import { PdfDocument, textWidth } from '../../utils/pdf.js';
+import Invoice from '../../models/v2/Invoice.js';
+import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
+import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
+import CreditLedger from '../../models/v2/CreditLedger.js';
+import WaiverLedger from '../../models/v2/WaiverLedger.js';
+import StudentV2 from '../../models/v2/Student.js';
+import Course from '../../models/v2/Course.js';
+import type { StudentStatement } from './statementService.js';
+
+export interface RenderedDocument {
+  filename: string;
+  buffer: Buffer;
+}
+
+const MARGIN = 50;
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash', online: 'Online transfer', card: 'Card', upi: 'UPI', other: 'Other',
+};
+
+function rupees(amount: number): string {
+  return `Rs. ${amount.toLocaleString('en-IN')}`;
+}
+
+function fmtDate(d: Date): string {
+  return d.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function fmtMonth(d: Date): string {
+  return d.toLocaleDateString('en-IN', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+/** Organisation block on the left, document title and reference lines on the right. Returns the next y. */
+function drawHeader(doc: PdfDocument, title: string, refs: [string, string][]): number {
+  doc.text(MARGIN, 60, config.organizationName, { size: 18, bold: true });
+  if (config.organizationAddress) doc.text(MARGIN, 78, config.organizationAddress, { size: 9, gray: true });
+  const right = doc.width - MARGIN;
+  doc.text(right, 60, title, { size: 16, bold: true, align: 'right' });
+  let y = 80;
+  for (const [label, value] of refs) {
+    doc.text(right - 110, y, label, { size: 9, gray: true, align: 'right' });
+    doc.text(right, y, value, { size: 9, align: 'right' });
+    y += 13;
+  }
+  y = Math.max(y, 100) + 8;
+  doc.line(MARGIN, y, right, y, 1);
+  return y + 22;
+}
+
+function drawParty(doc: PdfDocument, y: number, heading: string, lines: string[]): number {
+  doc.text(MARGIN, y, heading, { size: 9, bold: true, gray: true });
+  let next = y + 15;
+  for (const line of lines.filter(Boolean)) {
+    doc.text(MARGIN, next, line, { size: 10 });
+    next += 13;
+  }
+  return next + 12;
+}
+
+/** Two-column table: description on the left, amount right-aligned. */
+function drawTable(doc: PdfDocument, y: number, heading: [string, string], rows: [string, string][]): number {
+  const right = doc.width - MARGIN;
+  doc.text(MARGIN, y, heading[0], { size: 9, bold: true });
+  doc.text(right, y, heading[1], { size: 9, bold: true, align: 'right' });
+  doc.line(MARGIN, y + 6, right, y + 6);
+  let next = y + 22;
+  for (const [label, amount] of rows) {
+    if (next > doc.height - 80) {
+      doc.addPage();
+      next = 60;
+    }
+    doc.text(MARGIN, next, label, { size: 10 });
+    doc.text(right, next, amount, { size: 10, align: 'right' });
+    next += 16;
+  }
+  return next + 6;
+}
+
+function drawTotals(doc: PdfDocument, y: number, rows: [string, string, boolean?][]): number {
+  const right = doc.width - MARGIN;
+  let next = y;
+  for (const [label, amount, bold] of rows) {
+    doc.text(right - 130, next, label, { size: 10, bold, align: 'right' });
+    doc.text(right, next, amount, { size: 10, bold, align: 'right' });
+    next += 16;
+  }
+  return next + 10;
+}
+
+function drawFooter(doc: PdfDocument, note: string): void {
+  doc.text(doc.width / 2, doc.height - 40, note, { size: 8, gray: true, align: 'center' });
+}
+
+async function levelDescription(courseId: Types.ObjectId, stageNumber: number, levelNumber: number): Promise<string> {
+  const course = await Course.findById(courseId).select('displayName stages.stageNumber stages.stageName').lean();
+  const stage = course?.stages?.find((s) => s.stageNumber === stageNumber);
+  const stageLabel = stage ? `${stage.stageName} (Stage ${stageNumber})` : `Stage ${stageNumber}`;
+  return `${course?.displayName ?? 'Course'} - ${stageLabel}, Level ${levelNumber}`;
+}
+
+export async function renderInvoicePdf(invoiceId: string): Promise<RenderedDocument> {
+  const invoice = await Invoice.findById(invoiceId);
+  if (!invoice) throw new ApiError('Invoice not found', 404, 'NOT_FOUND');
+  const [student, description, allocations] = await Promise.all([
+    StudentV2.findById(invoice.studentId).select('studentCode studentName parentName phone email').lean(),
+    levelDescription(invoice.courseId, invoice.stageNumber, invoice.levelNumber),
+    PaymentAllocation.find({ invoiceId: invoice._id, isReversed: { $ne: true } })
+      .sort({ allocatedAt: 1 })
+      .populate('paymentTransactionId', 'receiptNumber paymentDate paymentMethod')
+      .lean(),
+  ]);
+
+  const month = invoice.invoiceMonth.toISOString().slice(0, 7);
+  const doc = new PdfDocument();
+  let y = drawHeader(doc, invoice.isVoid ? 'INVOICE (VOID)' : 'INVOICE', [
+    ['Invoice ID', invoice._id.toString().slice(-8).toUpperCase()],
+    ['Billing month', fmtMonth(invoice.invoiceMonth)],
+    ['Issued', fmtDate(invoice.createdAt)],
+    ['Due', fmtDate(invoice.dueDate)],
+  ]);
+  y = drawParty(doc, y, 'BILL TO', [
+    `${invoice.studentName}${student?.studentCode ? ` (${student.studentCode})` : ''}`,
+    student?.parentName ? `Parent: ${student.parentName}` : '',
+    student?.phone ?? '',
+    student?.email ?? '',
+  ]);
+
+  const lines: [string, string][] = invoice.kind === 'late_fee'
+    ? [[`Late payment fee - ${fmtMonth(invoice.invoiceMonth)} fees`, rupees(invoice.amount)]]
+    : [[`${description} - ${fmtMonth(invoice.invoiceMonth)}`, rupees(invoice.amount)]];
+  const lateFee = invoice.lateFee;
+  if (lateFee) {
+    const rule = lateFee.type === 'percentage' ? `${lateFee.value}% of the monthly fee` : rupees(lateFee.value);
+    lines.push([`  ${rule}, charged ${lateFee.daysLate} days after the due date (${lateFee.graceDays} days grace)`, '']);
+  }
+  const proRation = invoice.proRation;
+  if (proRation) {
+    const unit = proRation.method === 'sessions' ? 'classes' : proRation.method === 'cutoff' ? 'month' : 'days';
+    const period = `${fmtDate(proRation.periodStart)} to ${fmtDate(new Date(proRation.periodEnd.getTime() - 86400000))}`;
+    lines.push([
+      `  Pro-rated from ${rupees(proRation.fullMonthFee)}: ${proRation.activeUnits} of ${proRation.totalUnits} ${unit} (${period})`,
+      '',
+    ]);
+  }
+  y = drawTable(doc, y, ['Description', 'Amount'], lines);
+
+  const balance = invoice.isVoid ? 0 : Math.max(0, invoice.amount - invoice.allocatedAmount - invoice.waivedAmount);
+  const totals: [string, string, boolean?][] = [['Invoice total', rupees(invoice.amount)]];
+  if (invoice.allocatedAmount > 0) totals.push(['Paid', `- ${rupees(invoice.allocatedAmount)}`]);
+  if (invoice.waivedAmount > 0) totals.push(['Waived', `- ${rupees(invoice.waivedAmount)}`]);
+  totals.push(['Balance due', rupees(balance), true]);
+  y = drawTotals(doc, y, totals);
+
+  if (allocations.length > 0) {
+    const rows = allocations.map((a: any): [string, string] => {
+      const txn = a.paymentTransactionId;
+      const label = a.allocationType === 'credit'
+        ? `${fmtDate(a.allocatedAt)} - Applied from student credit`
+        : `${fmtDate(txn?.paymentDate ?? a.allocatedAt)} - ${PAYMENT_METHOD_LABELS[txn?.paymentMethod] ?? 'Payment'}`
+          + `${txn?.receiptNumber ? ` (receipt ${txn.receiptNumber})` : ''}`;
+      return [label, rupees(a.amount)];
+    });
+    drawTable(doc, y, ['Payments received', 'Amount'], rows);
+  }
+  if (invoice.isVoid) drawFooter(doc, `This invoice was voided${invoice.voidReason ? `: ${invoice.voidReason}` : ''}.`);
+  else drawFooter(doc, 'This is a computer-generated invoice and does not require a signature.');
+
+  return { filename: `invoice-${month}-${(student?.studentCode ?? invoice.studentName).replace(/\s+/g, '_')}.pdf`, buffer: doc.toBuffer() };
+}
+
+export async function renderReceiptPdf(paymentTransactionId: string): Promise<RenderedDocument> {
+  const payment = await PaymentTransaction.findById(paymentTransactionId);
+  if (!payment) throw new ApiError('Payment not found', 404, 'NOT_FOUND');
+  // Numbers are assigned when a payment is recorded; older payments get theirs
+  // from the receipt-numbers migration, never from a download.
+  if (!payment.receiptNumber) {
+    throw new ApiError('This payment has not been given a receipt number yet', 409, 'NO_RECEIPT_NUMBER');
+  }
+  const [student, allocations, creditRows, waivers] = await Promise.all([
+    StudentV2.findById(payment.studentId).select('studentCode parentName phone email').lean(),
+    PaymentAllocation.find({ paymentTransactionId: payment._id, allocationType: 'payment' })
+      .sort({ allocatedAt: 1 })
+      .populate('invoiceId', 'invoiceMonth')
+      .lean(),
+    CreditLedger.find({ paymentTransactionId: payment._id, type: { $in: ['credit_used', 'credit_added'] } })
+      .populate('invoiceId', 'invoiceMonth')
+      .lean(),
+    WaiverLedger.find({ paymentTransactionId: payment._id }).sort({ invoiceMonth: 1 }).lean(),
+  ]);
+
+  const doc = new PdfDocument();
+  let y = drawHeader(doc, payment.isReversed ? 'RECEIPT (REVERSED)' : 'PAYMENT RECEIPT', [
+    ['Receipt No.', payment.receiptNumber!],
+    ['Date', fmtDate(payment.paymentDate)],
+    ['Method', PAYMENT_METHOD_LABELS[payment.paymentMethod] ?? payment.paymentMethod],
+    ...(payment.transactionId ? [['Reference', payment.transactionId] as [string, string]] : []),
+  ]);
+  y = drawParty(doc, y, 'RECEIVED FROM', [
+    `${student?.parentName ? `${student.parentName} for ` : ''}${payment.studentName}${student?.studentCode ? ` (${student.studentCode})` : ''}`,
+    student?.phone ?? '',
+    student?.email ?? '',
+  ]);
+
+  const monthOf = (ref: any) => (ref?.invoiceMonth ? fmtMonth(new Date(ref.invoiceMonth)) : 'Invoice');
+  const rows: [string, string][] = allocations.map((a: any) => [`Fee for ${monthOf(a.invoiceId)}`, rupees(a.amount)]);
+  const creditUsed = creditRows.filter((r) => r.type === 'credit_used');
+  const creditAdded = creditRows.filter((r) => r.type === 'credit_added');
+  for (const row of creditUsed) {
+    rows.push([`Fee for ${monthOf(row.invoiceId)} - paid from credit balance`, rupees(Math.abs(row.amount))]);
+  }
+  for (const waiver of waivers) {
+    rows.push([`Discount on ${fmtMonth(waiver.invoiceMonth)}${waiver.reason ? ` (${waiver.reason})` : ''}`, rupees(waiver.amount)]);
+  }
+  for (const row of creditAdded) rows.push(['Stored as credit for future fees', rupees(row.amount)]);
+  y = drawTable(doc, y, ['Applied to', 'Amount'], rows);
+
+  const totals: [string, string, boolean?][] = [['Amount received', rupees(payment.amount), true]];
+  const creditTotal = creditUsed.reduce((sum, r) => sum + Math.abs(r.amount), 0);
+  const discountTotal = waivers.reduce((sum, w) => sum + w.amount, 0);
+  if (creditTotal > 0) totals.push(['Credit used', rupees(creditTotal)]);
+  if (discountTotal > 0) totals.push(['Discount', rupees(discountTotal)]);
+  drawTotals(doc, y, totals);
+
+  if (payment.isReversed) {
+    drawFooter(doc, `This payment was reversed on ${fmtDate(payment.reversedAt ?? payment.updatedAt)}${payment.reversalReason ? `: ${payment.reversalReason}` : ''}.`);
+  } else {
+    drawFooter(doc, 'This is a computer-generated receipt and does not require a signature.');
+  }
+
+  return { filename: `receipt-${payment.receiptNumber!.replace(/\//g, '-')}.pdf`, buffer: doc.toBuffer() };
+}
+
+/** Cut text to fit width points, ending in "..." when shortened. */
+function fitText(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let cut = text;
+  while (cut.length > 0 && textWidth(`${cut}...`, size) > width) cut = cut.slice(0, -1);
+  return `${cut}...`;
+}
+
+/** Balance with "Cr" for money held in the student's favour. */
+function balanceLabel(balance: number): string {
+  return balance < 0 ? `${rupees(-balance)} Cr` : rupees(balance);
+}
+
+export function renderStatementPdf(statement: StudentStatement): RenderedDocument {
+  const { student } = statement;
+  const doc = new PdfDocument();
+  const period = `${statement.from ? fmtDate(statement.from) : 'Start'} - ${fmtDate(statement.to)}`;
+  let y = drawHeader(doc, 'ACCOUNT STATEMENT', [
+    ['Period', period],
+    ['Generated', fmtDate(statement.generatedAt)],
+  ]);
+  y = drawParty(doc, y, 'STATEMENT FOR', [
+    `${student.studentName}${student.studentCode ? ` (${student.studentCode})` : ''}`,
+    student.parentName ? `Parent: ${student.parentName}` : '',
+    student.phone ?? '',
+    student.email ?? '',
+  ]);
+
+  const right = doc.width - MARGIN;
+  const cols = { date: MARGIN, description: MARGIN + 70, debit: right - 170, credit: right - 90, balance: right };
+  const descriptionWidth = cols.debit - 70 - cols.description;
+  const heading = () => {
+    doc.text(cols.date, y, 'Date', { size: 9, bold: true });
+    doc.text(cols.description, y, 'Description', { size: 9, bold: true });
+    doc.text(cols.debit, y, 'Debit', { size: 9, bold: true, align: 'right' });
+    doc.text(cols.credit, y, 'Credit', { size: 9, bold: true, align: 'right' });
+    doc.text(cols.balance, y, 'Balance', { size: 9, bold: true, align: 'right' });
+    doc.line(MARGIN, y + 6, right, y + 6);
+    y += 20;
+  };
+  heading();
+
+  doc.text(cols.description, y, 'Opening balance', { size: 9, bold: true });
+  doc.text(cols.balance, y, balanceLabel(statement.openingBalance), { size: 9, bold: true, align: 'right' });
+  y += 15;
+  for (const entry of statement.entries) {
+    if (y > doc.height - 80) {
+      doc.addPage();
+      y = 60;
+      heading();
+    }
+    const memo = entry.debit === 0 && entry.credit === 0;
+    doc.text(cols.date, y, fmtDate(entry.date), { size: 9, gray: memo });
+    const description = entry.reference && entry.type.startsWith('payment') ? `${entry.description} [${entry.reference}]` : entry.description;
+    doc.text(cols.description, y, fitText(description, descriptionWidth, 9), { size: 9, gray: memo });
+    if (entry.debit) doc.text(cols.debit, y, rupees(entry.debit), { size: 9, align: 'right' });
+    if (entry.credit) doc.text(cols.credit, y, rupees(entry.credit), { size: 9, align: 'right' });
+    if (!memo) doc.text(cols.balance, y, balanceLabel(entry.balance), { size: 9, align: 'right' });
+    y += 15;
+  }
+  doc.line(MARGIN, y - 6, right, y - 6);
+  y += 8;
+
+  drawTotals(doc, y, [
+    ['Opening balance', balanceLabel(statement.openingBalance)],
+    ['Charges', rupees(statement.totalDebits)],
+    ['Payments & adjustments', `- ${rupees(statement.totalCredits)}`],
+    [statement.closingBalance < 0 ? 'Credit on account' : 'Balance due', balanceLabel(statement.closingBalance), true],
+  ]);
+  drawFooter(doc, 'Balances marked Cr are held in your favour and will be applied to future fees.');
+
+  const code = (student.studentCode ?? student.studentName).replace(/\s+/g, '_');
+  return { filename: `statement-${code}-${statement.to.toISOString().slice(0, 10)}.pdf`, buffer: doc.toBuffer() };
+}
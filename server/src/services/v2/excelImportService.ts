@@ -1,3 +1,4 @@
+import fs from 'fs';
 import xlsx from 'xlsx';
 import path from 'path';
 import mongoose, { Types } from 'mongoose';
@@ -9,10 +10,19 @@ import Invoice from '../../models/v2/Invoice.js';
 import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
 import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
 import CreditLedger from '../../models/v2/CreditLedger.js';
-import ImportRun, { IImportIssue } from '../../models/v2/ImportRun.js';
-import { addCredit, createInvoice, processPayment } from './feeService.js';
-
-type StageName = 'Beginner' | 'Intermediate' | 'Advanced';
+import ImportRun, {
+  IImportChange,
+  IImportDiff,
+  IImportIssue,
+  IImportPreviewBatch,
+  IImportPreviewStudent,
+  IImportRun,
+} from '../../models/v2/ImportRun.js';
+import ImportProfile, { IImportProfile, ImportDateFormat, ImportProfileField } from '../../models/v2/ImportProfile.js';
+import { addCredit, changeBatch, createInvoice, processPayment, upgradeStudentLevel } from './feeService.js';
+import { resolveImportProfile } from './importProfileService.js';
+import type { IEnrollment } from '../../types/v2.js';
+import { ApiError } from '../../utils/errors.js';
 
 interface RawRow {
   rowNumber: number;
@@ -27,12 +37,14 @@ interface PaymentColumn {
 
 interface NormalizedStudentRow {
   rowNumber: number;
+  studentCode: string;
   name: string;
   phone: string;
   email: string;
   status: string;
   studentStartDate: Date | null;
   levelCode: string;
+  courseName: string;
   duration: number | null;
   batchCode: string;
   timing: string;
@@ -47,6 +59,7 @@ interface BatchGroup {
   key: string;
   batchCode: string;
   batchName: string;
+  courseName: string;
   courseId: Types.ObjectId;
   stageNumber: number;
   levelNumber: number;
@@ -57,8 +70,39 @@ interface BatchGroup {
   batchId?: Types.ObjectId;
 }
 
+interface LevelFee {
+  feeAmount: number;
+  durationMonths?: number;
+}
+
+interface StudentMatch {
+  studentId: Types.ObjectId;
+  studentName: string;
+  matchedBy: IImportChange['matchedBy'];
+}
+
+interface PlannedPayment {
+  month: string;
+  paidDate: Date;
+  amount: number;
+  invoiceId: string | null;   // null: no invoice for the month, recorded as credit
+}
+
+// What an incremental import changes for one matched student.
+interface RowChanges {
+  enrollment: IEnrollment | null;
+  level: { stageNumber: number; levelNumber: number; feeAmount: number } | null;
+  batchCode?: string | null;  // set only when the batch changes; null moves them out of any batch
+  payments: PlannedPayment[];
+  diffs: IImportDiff[];
+}
+
+type ImportCourse = InstanceType<typeof Course>;
+
 export interface ImportSummary {
   mode: 'dry-run' | 'apply';
+  incremental: boolean;
+  profileName: string;
   fileName: string;
   totalRows: number;
   validRows: number;
@@ -69,22 +113,26 @@ export interface ImportSummary {
   createdPayments: number;
   createdCredits: number;
   skippedRows: number;
+  matchedStudents: number;
+  updatedStudents: number;
+  levelChanges: number;
+  batchChanges: number;
   issues: IImportIssue[];
   importRunId?: string;
+  preview?: { students: IImportPreviewStudent[]; batches: IImportPreviewBatch[]; changes: IImportChange[] };
 }
 
-const STAGES: Record<string, { stageNumber: number; stageName: StageName }> = {
-  B: { stageNumber: 1, stageName: 'Beginner' },
-  I: { stageNumber: 2, stageName: 'Intermediate' },
-  A: { stageNumber: 3, stageName: 'Advanced' },
-};
+export type ImportIssueSeverity = IImportIssue['severity'];
 
-const DEFAULT_FEES: Record<number, Record<number, number>> = {
-  1: { 1: 2000, 2: 2500, 3: 2500 },
-  2: { 1: 3000, 2: 3500, 3: 3500 },
-  3: { 1: 4000, 2: 4500, 3: 4500 },
+// Text dates in a profile's format: [pattern, index of year, month, day].
+const DATE_PATTERNS: Record<ImportDateFormat, [RegExp, number, number, number]> = {
+  DMY: [/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/, 3, 2, 1],
+  MDY: [/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/, 3, 1, 2],
+  YMD: [/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/, 1, 2, 3],
 };
 
+const MAX_PAYMENT_COLUMNS = 40;
+
 function cleanString(value: unknown): string {
   if (value === null || value === undefined) return '';
   const text = String(value).trim();
@@ -104,13 +152,14 @@ function cleanEmail(value: unknown): string {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : '';
 }
 
-function parseDate(value: unknown): Date | null {
+function parseDate(value: unknown, dateFormat: ImportDateFormat): Date | null {
   if (!value || String(value).toLowerCase() === 'nan') return null;
   if (typeof value === 'string') {
     const lower = value.toLowerCase().trim();
     if (['need', 'start', 'batch', 'tbd', 'pending'].some((word) => lower.includes(word))) return null;
-    const dmy = lower.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
-    if (dmy) return new Date(Date.UTC(parseInt(dmy[3]), parseInt(dmy[2]) - 1, parseInt(dmy[1])));
+    const [pattern, year, month, day] = DATE_PATTERNS[dateFormat];
+    const parts = lower.match(pattern);
+    if (parts) return new Date(Date.UTC(parseInt(parts[year]), parseInt(parts[month]) - 1, parseInt(parts[day])));
     const parsed = new Date(value);
     return Number.isNaN(parsed.getTime()) ? null : new Date(Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate()));
   }
@@ -125,13 +174,13 @@ function parseDate(value: unknown): Date | null {
   return null;
 }
 
-function parseLevel(value: unknown): { stageNumber: number; levelNumber: number } | null {
+function parseLevel(value: unknown, profile: IImportProfile): { courseName: string; stageNumber: number; levelNumber: number } | null {
   const text = cleanString(value).toUpperCase().replace(/\s+/g, '');
-  const match = text.match(/^([BIA])(\d+)$/);
+  const match = text.match(/^([A-Z]+)(\d+)$/);
   if (!match) return null;
-  const stage = STAGES[match[1]];
-  if (!stage) return null;
-  return { stageNumber: stage.stageNumber, levelNumber: parseInt(match[2]) };
+  const levelCode = profile.levelCodes.find((c) => c.code === match[1]);
+  if (!levelCode) return null;
+  return { courseName: levelCode.courseName, stageNumber: levelCode.stageNumber, levelNumber: parseInt(match[2]) };
 }
 
 function parseBatchCode(value: string): { batchCode: string; schedule: { dayOfWeek: number; startTime: string }[]; valid: boolean } {
@@ -159,45 +208,59 @@ function getCell(row: Record<string, unknown>, names: string[]): unknown {
   return undefined;
 }
 
-function extractPayments(row: Record<string, unknown>): PaymentColumn[] {
+function profileCell(row: Record<string, unknown>, profile: IImportProfile, field: ImportProfileField): unknown {
+  return getCell(row, profile.columns[field] ?? []);
+}
+
+/** Header names of the index-th payment (0-based) under the profile's payment columns. */
+function paymentHeaders(header: string, index: number): string[] {
+  if (!header) return [];
+  if (header.includes('{n}')) return [header.replace(/\{n\}/g, String(index + 1))];
+  return index === 0 ? [header] : [`${header}__${index}`, `${header}.${index}`];
+}
+
+function extractPayments(row: Record<string, unknown>, profile: IImportProfile): PaymentColumn[] {
   const payments: PaymentColumn[] = [];
-  for (let index = 0; index < 40; index += 1) {
-    const suffixes = index === 0 ? [''] : [`__${index}`, `.${index}`];
-    const dueRaw = getCell(row, suffixes.map((suffix) => `Payment Due date${suffix}`));
-    const statusRaw = getCell(row, suffixes.map((suffix) => `Payment Status${suffix}`));
-    const paidRaw = getCell(row, suffixes.map((suffix) => `Payment date${suffix}`));
+  const { dueDate: dueHeader, status: statusHeader, paidDate: paidHeader } = profile.paymentColumns;
+  if (!paidHeader) return payments;
+  for (let index = 0; index < MAX_PAYMENT_COLUMNS; index += 1) {
+    const dueRaw = getCell(row, paymentHeaders(dueHeader, index));
+    const statusRaw = getCell(row, paymentHeaders(statusHeader, index));
+    const paidRaw = getCell(row, paymentHeaders(paidHeader, index));
     if (dueRaw === undefined && statusRaw === undefined && paidRaw === undefined) {
       if (index > 0) break;
       continue;
     }
-    const dueDate = parseDate(dueRaw);
-    const paidDate = parseDate(paidRaw);
+    const dueDate = parseDate(dueRaw, profile.dateFormat);
+    const paidDate = parseDate(paidRaw, profile.dateFormat);
     const status = cleanString(statusRaw);
     if (dueDate || paidDate || status) payments.push({ dueDate, status, paidDate });
   }
   return payments;
 }
 
-function normalizeRows(rawRows: RawRow[]): { rows: NormalizedStudentRow[]; issues: IImportIssue[] } {
+function normalizeRows(rawRows: RawRow[], profile: IImportProfile): { rows: NormalizedStudentRow[]; issues: IImportIssue[] } {
   const rows: NormalizedStudentRow[] = [];
   const issues: IImportIssue[] = [];
   const seen = new Set<string>();
+  const cell = (row: RawRow, field: ImportProfileField) => profileCell(row.raw, profile, field);
+  const levelExamples = profile.levelCodes.map((c) => `${c.code}1`).join(', ');
 
   for (const row of rawRows) {
-    const name = cleanString(getCell(row.raw, ['Name', 'Student Name']));
+    const name = cleanString(cell(row, 'name'));
     if (!name) {
       issues.push({ rowNumber: row.rowNumber, severity: 'error', code: 'missing_name', message: 'Student name is missing' });
       continue;
     }
-    const phone = cleanPhone(getCell(row.raw, ['Contact Number', 'Phone', 'Mobile']));
-    const email = cleanEmail(getCell(row.raw, ['E-mail', 'Email']));
+    const phone = cleanPhone(cell(row, 'phone'));
+    const email = cleanEmail(cell(row, 'email'));
     if (!phone && !email) {
       issues.push({ rowNumber: row.rowNumber, rawName: name, severity: 'error', code: 'missing_contact', message: 'Valid phone or email is required' });
       continue;
     }
-    const parsedLevel = parseLevel(getCell(row.raw, ['Level']));
+    const parsedLevel = parseLevel(cell(row, 'level'), profile);
     if (!parsedLevel) {
-      issues.push({ rowNumber: row.rowNumber, rawName: name, severity: 'error', code: 'invalid_level', message: 'Level must look like B1, I2, or A3' });
+      issues.push({ rowNumber: row.rowNumber, rawName: name, severity: 'error', code: 'invalid_level', message: `Level must be a level code followed by the level number, e.g. ${levelExamples}` });
       continue;
     }
     const identity = `${name.toLowerCase()}|${phone}|${email}`;
@@ -207,21 +270,22 @@ function normalizeRows(rawRows: RawRow[]): { rows: NormalizedStudentRow[]; issue
     }
     seen.add(identity);
 
-    const status = cleanString(getCell(row.raw, ['Status']));
+    const status = cleanString(cell(row, 'status'));
     rows.push({
       rowNumber: row.rowNumber,
+      studentCode: cleanString(cell(row, 'studentCode')).toUpperCase(),
       name,
       phone,
       email,
       status,
-      studentStartDate: parseDate(getCell(row.raw, ['Student Start Date'])),
-      levelCode: cleanString(getCell(row.raw, ['Level'])),
-      duration: parseInt(cleanString(getCell(row.raw, ['Duration']))) || null,
-      batchCode: cleanString(getCell(row.raw, ['Batch'])),
-      timing: cleanString(getCell(row.raw, ['Timing'])),
-      batchStartDate: parseDate(getCell(row.raw, ['Batch Start Date'])),
+      studentStartDate: parseDate(cell(row, 'studentStartDate'), profile.dateFormat),
+      levelCode: cleanString(cell(row, 'level')),
+      duration: parseInt(cleanString(cell(row, 'duration'))) || null,
+      batchCode: cleanString(cell(row, 'batch')),
+      timing: cleanString(cell(row, 'timing')),
+      batchStartDate: parseDate(cell(row, 'batchStartDate'), profile.dateFormat),
       ...parsedLevel,
-      payments: extractPayments(row.raw),
+      payments: extractPayments(row.raw, profile),
       isDiscontinued: /discontin|stopped|left|withdrawn/i.test(status),
     });
   }
@@ -229,32 +293,54 @@ function normalizeRows(rawRows: RawRow[]): { rows: NormalizedStudentRow[]; issue
   return { rows, issues };
 }
 
-async function ensureChessCourse(adminUserId: string) {
-  let course = await Course.findOne({ courseName: 'chess' });
-  if (course) return course;
-  course = await Course.create({
-    courseName: 'chess',
-    displayName: 'Chess',
-    description: 'Chess training program',
-    isActive: true,
-    displayOrder: 1,
-    stages: Object.values(STAGES).map((stage) => ({
-      stageNumber: stage.stageNumber,
-      stageName: stage.stageName,
-      levels: [1, 2, 3].map((levelNumber) => ({
-        levelNumber,
-        feeAmount: DEFAULT_FEES[stage.stageNumber][levelNumber],
-        durationMonths: 1,
-        approximateHours: 0,
-        description: `${stage.stageName} Level ${levelNumber}`,
+function courseLabel(courseName: string): string {
+  return courseName.charAt(0).toUpperCase() + courseName.slice(1);
+}
+
+/** The existing courses the rows import into, by course name. */
+async function findCourses(rows: NormalizedStudentRow[]): Promise<Map<string, ImportCourse>> {
+  const names = Array.from(new Set(rows.map((row) => row.courseName)));
+  const courses = await Course.find({ courseName: { $in: names } });
+  return new Map(courses.map((course) => [course.courseName, course]));
+}
+
+/**
+ * The courses the rows import into, creating any that do not exist yet from
+ * the profile's level codes (their stages, and levels priced by levelFees).
+ */
+async function ensureCourses(rows: NormalizedStudentRow[], profile: IImportProfile, adminUserId: string): Promise<Map<string, ImportCourse>> {
+  const courses = await findCourses(rows);
+  for (const courseName of new Set(rows.map((row) => row.courseName))) {
+    if (courses.has(courseName)) continue;
+    const stages = profile.levelCodes
+      .filter((c) => c.courseName === courseName && c.levelFees.length > 0)
+      .sort((a, b) => a.stageNumber - b.stageNumber);
+    if (stages.length === 0) continue;
+    const course = await Course.create({
+      courseName,
+      displayName: courseLabel(courseName),
+      description: `${courseLabel(courseName)} training program`,
+      isActive: true,
+      displayOrder: 1,
+      stages: stages.map((stage) => ({
+        stageNumber: stage.stageNumber,
+        stageName: stage.stageName,
+        levels: stage.levelFees.map((feeAmount, index) => ({
+          levelNumber: index + 1,
+          feeAmount,
+          durationMonths: 1,
+          approximateHours: 0,
+          description: `${stage.stageName} Level ${index + 1}`,
+        })),
       })),
-    })),
-    createdBy: new Types.ObjectId(adminUserId),
-  });
-  return course;
+      createdBy: new Types.ObjectId(adminUserId),
+    });
+    courses.set(courseName, course);
+  }
+  return courses;
 }
 
-function buildBatchGroups(rows: NormalizedStudentRow[], courseId: Types.ObjectId, issues: IImportIssue[]): BatchGroup[] {
+function buildBatchGroups(rows: NormalizedStudentRow[], courses: Map<string, ImportCourse>, issues: IImportIssue[]): BatchGroup[] {
   const groups = new Map<string, BatchGroup>();
   const codeUse = new Map<string, number>();
 
@@ -266,7 +352,7 @@ function buildBatchGroups(rows: NormalizedStudentRow[], courseId: Types.ObjectId
       continue;
     }
     const startKey = row.batchStartDate ? row.batchStartDate.toISOString().slice(0, 10) : 'NO_DATE';
-    const key = `${parsed.batchCode}|${row.stageNumber}|${row.levelNumber}|${startKey}`;
+    const key = `${parsed.batchCode}|${row.courseName}|${row.stageNumber}|${row.levelNumber}|${startKey}`;
     if (!groups.has(key)) {
       const useCount = codeUse.get(parsed.batchCode) ?? 0;
       codeUse.set(parsed.batchCode, useCount + 1);
@@ -274,8 +360,10 @@ function buildBatchGroups(rows: NormalizedStudentRow[], courseId: Types.ObjectId
       groups.set(key, {
         key,
         batchCode: finalCode,
-        batchName: `Chess S${row.stageNumber} L${row.levelNumber} - ${parsed.batchCode}`,
-        courseId,
+        batchName: `${courseLabel(row.courseName)} S${row.stageNumber} L${row.levelNumber} - ${parsed.batchCode}`,
+        courseName: row.courseName,
+        // A placeholder for a dry-run into a course that does not exist yet
+        courseId: (courses.get(row.courseName)?._id as Types.ObjectId) ?? new Types.ObjectId(),
         stageNumber: row.stageNumber,
         levelNumber: row.levelNumber,
         startDate: row.batchStartDate,
@@ -305,6 +393,306 @@ function latestPaymentMonth(row: NormalizedStudentRow): Date | null {
   return new Date(Date.UTC(dates[0].getUTCFullYear(), dates[0].getUTCMonth(), 1));
 }
 
+/**
+ * Months to invoice for a student in an active batch: from the start month
+ * through the level's duration, the latest payment and (unless they have
+ * discontinued) the current month.
+ */
+function invoiceMonths(row: NormalizedStudentRow, startDate: Date, level: LevelFee): Date[] {
+  const latest = latestPaymentMonth(row);
+  const durationMonths = row.duration ?? level.durationMonths ?? 1;
+  const durationEnd = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + durationMonths - 1, 1));
+  const currentMonth = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), 1));
+  const through = row.isDiscontinued ? (latest ?? durationEnd) : new Date(Math.max(durationEnd.getTime(), latest?.getTime() ?? 0, currentMonth.getTime()));
+
+  const months: Date[] = [];
+  let cursor = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), 1));
+  while (cursor <= through) {
+    months.push(cursor);
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+  }
+  return months;
+}
+
+// The course's fee for the row's level, or the profile's fee it will be created with.
+function levelFee(
+  course: ImportCourse | undefined,
+  profile: IImportProfile,
+  row: Pick<NormalizedStudentRow, 'courseName' | 'stageNumber' | 'levelNumber'>,
+): LevelFee | null {
+  if (!course) {
+    const code = profile.levelCodes.find((c) => c.courseName === row.courseName && c.stageNumber === row.stageNumber);
+    const feeAmount = code?.levelFees[row.levelNumber - 1];
+    return feeAmount === undefined ? null : { feeAmount, durationMonths: 1 };
+  }
+  const stage = course.stages.find((s) => s.stageNumber === row.stageNumber);
+  return stage?.levels.find((l) => l.levelNumber === row.levelNumber) ?? null;
+}
+
+/**
+ * Match rows to existing students by student code, then phone, then email.
+ * Siblings often share a parent's phone or email, so several hits are
+ * narrowed by name; a row that is still ambiguous is left out of the run.
+ */
+async function matchExistingStudents(
+  rows: NormalizedStudentRow[],
+  issues: IImportIssue[],
+): Promise<{ matches: Map<number, StudentMatch>; ambiguous: Set<number> }> {
+  const matches = new Map<number, StudentMatch>();
+  const ambiguous = new Set<number>();
+
+  for (const row of rows) {
+    const keys: [StudentMatch['matchedBy'], Record<string, string>][] = [];
+    if (row.studentCode) keys.push(['studentCode', { studentCode: row.studentCode }]);
+    if (row.phone) keys.push(['phone', { phone: row.phone }]);
+    if (row.email) keys.push(['email', { email: row.email }]);
+
+    for (const [matchedBy, filter] of keys) {
+      const found = await Student.find(filter).select('studentName').lean();
+      if (found.length === 0) continue;
+      const named = found.length > 1 && matchedBy !== 'studentCode'
+        ? found.filter((s) => s.studentName.trim().toLowerCase() === row.name.toLowerCase())
+        : found;
+      if (named.length === 1) {
+        matches.set(row.rowNumber, { studentId: named[0]._id as Types.ObjectId, studentName: named[0].studentName, matchedBy });
+      } else {
+        ambiguous.add(row.rowNumber);
+        issues.push({
+          rowNumber: row.rowNumber,
+          rawName: row.name,
+          severity: 'warning',
+          code: 'ambiguous_match',
+          message: `${found.length} students share this ${matchedBy === 'phone' ? 'phone number' : 'email'} and the name does not pick out one; skipped`,
+        });
+      }
+      break;
+    }
+  }
+  return { matches, ambiguous };
+}
+
+/**
+ * What the row changes for a matched student: their level in the row's
+ * course, their batch (only when the row names an active batch, or a level
+ * change leaves the old one behind) and paid months not yet recorded. A month counts as recorded
+ * when its invoice is settled or the student already has a payment that day.
+ */
+async function diffExistingStudent(
+  row: NormalizedStudentRow,
+  studentId: Types.ObjectId,
+  course: ImportCourse | undefined,
+  profile: IImportProfile,
+  group: BatchGroup | undefined,
+  issues: IImportIssue[],
+): Promise<RowChanges> {
+  const changes: RowChanges = { enrollment: null, level: null, payments: [], diffs: [] };
+  const activeGroup = group?.status === 'active' ? group : undefined;
+  const enrollment = course
+    ? await Enrollment.findOne({ studentId, courseId: course._id, endDate: null })
+    : null;
+  changes.enrollment = enrollment;
+
+  if (!enrollment) {
+    issues.push({
+      rowNumber: row.rowNumber,
+      rawName: row.name,
+      severity: 'warning',
+      code: 'no_active_enrollment',
+      message: `Student has no active ${row.courseName} enrollment; only new payments are imported`,
+    });
+  } else {
+    if (enrollment.stageNumber !== row.stageNumber || enrollment.levelNumber !== row.levelNumber) {
+      const fee = levelFee(course, profile, row);
+      if (!fee) {
+        issues.push({ rowNumber: row.rowNumber, rawName: row.name, severity: 'error', code: 'missing_fee', message: `No configured ${row.courseName} fee for stage ${row.stageNumber} level ${row.levelNumber}` });
+      } else {
+        changes.level = { stageNumber: row.stageNumber, levelNumber: row.levelNumber, feeAmount: fee.feeAmount };
+        changes.diffs.push({
+          field: 'level',
+          from: `S${enrollment.stageNumber} L${enrollment.levelNumber}`,
+          to: `S${row.stageNumber} L${row.levelNumber}`,
+        });
+      }
+    }
+    const current = enrollment.batchId
+      ? await Batch.findById(enrollment.batchId).select('batchCode').lean()
+      : null;
+    const currentCode = current?.batchCode ?? null;
+    if (activeGroup && activeGroup.batchCode !== currentCode) {
+      changes.batchCode = activeGroup.batchCode;
+    } else if (changes.level && currentCode) {
+      changes.batchCode = null;
+    }
+    if (changes.batchCode !== undefined) {
+      changes.diffs.push({ field: 'batch', from: currentCode ?? 'no batch', to: changes.batchCode ?? 'no batch' });
+    }
+  }
+
+  const enrollmentIds = course ? await Enrollment.distinct('_id', { studentId, courseId: course._id }) : [];
+  const creditAmount = enrollment?.monthlyFee ?? levelFee(course, profile, row)?.feeAmount ?? 0;
+  for (const payment of row.payments) {
+    if (!payment.paidDate) continue;
+    const paidDate = payment.paidDate;
+    const day = new Date(Date.UTC(paidDate.getUTCFullYear(), paidDate.getUTCMonth(), paidDate.getUTCDate()));
+    const recorded = await PaymentTransaction.exists({
+      studentId,
+      isReversed: { $ne: true },
+      paymentDate: { $gte: day, $lt: new Date(day.getTime() + 24 * 60 * 60 * 1000) },
+    });
+    if (recorded) continue;
+
+    const monthDate = payment.dueDate ?? paidDate;
+    const invoiceMonth = new Date(Date.UTC(monthDate.getUTCFullYear(), monthDate.getUTCMonth(), 1));
+    const month = invoiceMonth.toISOString().slice(0, 7);
+    const paidOn = paidDate.toISOString().slice(0, 10);
+    const invoice = await Invoice.findOne({ studentId, enrollmentId: { $in: enrollmentIds }, invoiceMonth, isVoid: false });
+    if (invoice) {
+      const balance = invoice.amount - invoice.allocatedAmount - invoice.waivedAmount;
+      if (balance <= 0) continue;
+      changes.payments.push({ month, paidDate, amount: balance, invoiceId: invoice._id.toString() });
+      changes.diffs.push({ field: 'payment', to: `${month}: ₹${balance} paid ${paidOn}` });
+    } else if (creditAmount > 0) {
+      changes.payments.push({ month, paidDate, amount: creditAmount, invoiceId: null });
+      changes.diffs.push({ field: 'credit', to: `${month}: ₹${creditAmount} paid ${paidOn}, no invoice` });
+    }
+  }
+  return changes;
+}
+
+/** Apply a matched student's changes through the normal lifecycle and payment flows. */
+async function applyStudentChanges(
+  studentId: string,
+  changes: RowChanges,
+  group: BatchGroup | undefined,
+  adminUserId: string,
+  importRunId: Types.ObjectId,
+  summary: ImportSummary,
+): Promise<void> {
+  const today = new Date();
+  const newBatchId = changes.batchCode ? group?.batchId?.toString() ?? null : null;
+  if (changes.batchCode && !newBatchId) throw new Error(`Batch ${changes.batchCode} was not created`);
+
+  if (changes.level && changes.enrollment) {
+    const result = await upgradeStudentLevel(
+      studentId,
+      changes.enrollment.courseId.toString(),
+      changes.level.stageNumber,
+      changes.level.levelNumber,
+      changes.level.feeAmount,
+      today,
+      adminUserId,
+      newBatchId,
+      undefined,
+      undefined,
+      changes.level.feeAmount,
+      undefined,
+      undefined,
+      undefined,
+      'upgraded',
+      changes.enrollment._id.toString(),
+    );
+    if (!result.success) throw new Error(result.error);
+    summary.levelChanges += 1;
+    if (changes.batchCode !== undefined) summary.batchChanges += 1;
+  } else if (changes.batchCode !== undefined && changes.enrollment) {
+    const result = await changeBatch(studentId, newBatchId, today, adminUserId, changes.enrollment._id.toString());
+    if (!result.success) throw new Error(result.error);
+    summary.batchChanges += 1;
+  }
+
+  for (const payment of changes.payments) {
+    const idempotencyKey = `import:${studentId}:${payment.month}:${payment.paidDate.toISOString().slice(0, 10)}`;
+    if (payment.invoiceId) {
+      await processPayment(studentId, payment.amount, [payment.invoiceId], 'other', adminUserId, undefined, {
+        paymentDate: payment.paidDate,
+        idempotencyKey,
+        createdBySource: 'import',
+        importRunId,
+      });
+      summary.createdPayments += 1;
+    } else {
+      await addCredit(studentId, payment.amount, `Imported payment for ${payment.month} with no invoice`, adminUserId, {
+        paymentMethod: 'other',
+        paymentDate: payment.paidDate,
+        idempotencyKey,
+        createdBySource: 'import',
+        importRunId,
+      });
+      summary.createdCredits += 1;
+    }
+  }
+  if (changes.diffs.length > 0) summary.updatedStudents += 1;
+}
+
+/** What applying would create or change, without touching the database beyond lookups. */
+async function buildPreview(
+  rows: NormalizedStudentRow[],
+  matches: Map<number, StudentMatch>,
+  profile: IImportProfile,
+  issues: IImportIssue[],
+): Promise<{ preview: NonNullable<ImportSummary['preview']>; skippedRows: number }> {
+  const courses = await findCourses(rows);
+
+  const groups = buildBatchGroups(rows, courses, issues);
+  const existing = new Set<string>(await Batch.distinct('batchCode', { batchCode: { $in: groups.map((g) => g.batchCode) } }));
+  const groupByRow = new Map<number, BatchGroup>();
+  for (const group of groups) for (const rowNumber of group.rowNumbers) groupByRow.set(rowNumber, group);
+
+  const students: IImportPreviewStudent[] = [];
+  const changes: IImportChange[] = [];
+  let skippedRows = 0;
+  for (const row of rows) {
+    const match = matches.get(row.rowNumber);
+    if (match) {
+      const course = courses.get(row.courseName);
+      const { diffs } = await diffExistingStudent(row, match.studentId, course, profile, groupByRow.get(row.rowNumber), issues);
+      if (diffs.length > 0) changes.push({ rowNumber: row.rowNumber, ...match, diffs });
+      continue;
+    }
+    const level = levelFee(courses.get(row.courseName), profile, row);
+    if (!level) {
+      issues.push({ rowNumber: row.rowNumber, rawName: row.name, severity: 'error', code: 'missing_fee', message: `No configured ${row.courseName} fee for stage ${row.stageNumber} level ${row.levelNumber}` });
+      skippedRows += 1;
+      continue;
+    }
+    const group = groupByRow.get(row.rowNumber);
+    const activeBatch = group?.status === 'active' ? group : undefined;
+    const startDate = effectiveStart(row, activeBatch);
+    const months = activeBatch ? invoiceMonths(row, startDate, level) : [];
+    const monthKeys = new Set(months.map((m) => m.toISOString().slice(0, 7)));
+    const paid = row.payments.filter((p) => p.paidDate);
+    const payments = paid.filter((p) => monthKeys.has((p.dueDate ?? p.paidDate)!.toISOString().slice(0, 7))).length;
+    students.push({
+      rowNumber: row.rowNumber,
+      name: row.name,
+      phone: row.phone || undefined,
+      email: row.email || undefined,
+      courseName: row.courseName,
+      stageNumber: row.stageNumber,
+      levelNumber: row.levelNumber,
+      batchCode: group?.batchCode,
+      startDate,
+      discontinued: row.isDiscontinued,
+      invoices: months.length,
+      payments,
+      credits: paid.length - payments,
+    });
+  }
+
+  const batches = groups.map((group) => ({
+    batchCode: group.batchCode,
+    batchName: group.batchName,
+    courseName: group.courseName,
+    stageNumber: group.stageNumber,
+    levelNumber: group.levelNumber,
+    status: group.status,
+    startDate: group.startDate ?? undefined,
+    students: group.rowNumbers.length,
+    exists: existing.has(group.batchCode),
+  }));
+  return { preview: { students, batches, changes }, skippedRows };
+}
+
 async function resetFreshV2Data() {
   await Promise.all([
     Student.deleteMany({}),
@@ -319,57 +707,133 @@ async function resetFreshV2Data() {
   ]);
 }
 
+/**
+ * Import a student workbook, from a file on disk (the CLI) or an uploaded
+ * buffer, read through a mapping profile (the default one unless profileId
+ * is given). A dry-run is recorded as an ImportRun with its preview and the
+ * workbook itself, so it can be applied later with applyImportRun.
+ */
 export async function importExcel(params: {
-  filePath: string;
+  filePath?: string;
+  buffer?: Buffer;
+  fileName?: string;
   apply: boolean;
   resetFreshDb?: boolean;
   adminUserId: string;
   sheetName?: string;
+  dryRunId?: string;
+  incremental?: boolean;
+  profileId?: string;
 }): Promise<ImportSummary> {
-  const workbook = xlsx.readFile(params.filePath);
+  if (!params.buffer && !params.filePath) throw new Error('Either a file path or an uploaded workbook is required');
+  if (params.incremental && params.resetFreshDb) throw new Error('An incremental import cannot reset the database');
+  const buffer = params.buffer ?? fs.readFileSync(params.filePath!);
+  const workbook = xlsx.read(buffer, { type: 'buffer' });
   const selectedSheetName = params.sheetName || workbook.SheetNames[0];
   const sheet = workbook.Sheets[selectedSheetName];
   if (!sheet) throw new Error(`Sheet not found: ${selectedSheetName}`);
+  const profile = await resolveImportProfile(params.profileId, params.adminUserId);
 
   const raw = xlsx.utils.sheet_to_json<Record<string, unknown>>(sheet);
   const rawRows = raw.map((row, index) => ({ rowNumber: index + 2, raw: row }));
-  const normalized = normalizeRows(rawRows);
+  const normalized = normalizeRows(rawRows, profile);
+  const { matches, ambiguous } = params.incremental
+    ? await matchExistingStudents(normalized.rows, normalized.issues)
+    : { matches: new Map<number, StudentMatch>(), ambiguous: new Set<number>() };
+  const rows = normalized.rows.filter((row) => !ambiguous.has(row.rowNumber));
   const summary: ImportSummary = {
     mode: params.apply ? 'apply' : 'dry-run',
-    fileName: path.basename(params.filePath),
+    incremental: params.incremental ?? false,
+    profileName: profile.name,
+    fileName: params.fileName ?? path.basename(params.filePath!),
     totalRows: rawRows.length,
-    validRows: normalized.rows.length,
+    validRows: rows.length,
     createdStudents: 0,
     createdBatches: 0,
     createdEnrollments: 0,
     createdInvoices: 0,
     createdPayments: 0,
     createdCredits: 0,
-    skippedRows: rawRows.length - normalized.rows.length,
+    skippedRows: rawRows.length - rows.length,
+    matchedStudents: matches.size,
+    updatedStudents: 0,
+    levelChanges: 0,
+    batchChanges: 0,
     issues: normalized.issues,
   };
 
   if (!params.apply) {
-    const fakeCourseId = new Types.ObjectId();
-    buildBatchGroups(normalized.rows, fakeCourseId, summary.issues);
+    const { preview, skippedRows } = await buildPreview(rows, matches, profile, summary.issues);
+    summary.preview = preview;
+    summary.skippedRows += skippedRows;
+    summary.createdStudents = preview.students.length;
+    summary.createdEnrollments = preview.students.length;
+    summary.createdBatches = preview.batches.filter((b) => !b.exists).length;
+    for (const student of preview.students) {
+      summary.createdInvoices += student.invoices;
+      summary.createdPayments += student.payments;
+      summary.createdCredits += student.credits;
+    }
+    summary.updatedStudents = preview.changes.length;
+    for (const { diffs } of preview.changes) {
+      summary.levelChanges += diffs.filter((d) => d.field === 'level').length;
+      summary.batchChanges += diffs.filter((d) => d.field === 'batch').length;
+      summary.createdPayments += diffs.filter((d) => d.field === 'payment').length;
+      summary.createdCredits += diffs.filter((d) => d.field === 'credit').length;
+    }
+    const dryRun = await ImportRun.create({
+      fileName: summary.fileName,
+      mode: 'dry-run',
+      incremental: summary.incremental,
+      profileId: profile._id,
+      profileName: profile.name,
+      status: 'completed',
+      totalRows: summary.totalRows,
+      createdStudents: summary.createdStudents,
+      createdBatches: summary.createdBatches,
+      createdEnrollments: summary.createdEnrollments,
+      createdInvoices: summary.createdInvoices,
+      createdPayments: summary.createdPayments,
+      createdCredits: summary.createdCredits,
+      skippedRows: summary.skippedRows,
+      matchedStudents: summary.matchedStudents,
+      updatedStudents: summary.updatedStudents,
+      levelChanges: summary.levelChanges,
+      batchChanges: summary.batchChanges,
+      issues: summary.issues,
+      preview,
+      sheetName: selectedSheetName,
+      workbook: buffer,
+      startedBy: new Types.ObjectId(params.adminUserId),
+      finishedAt: new Date(),
+    });
+    summary.importRunId = dryRun._id.toString();
     return summary;
   }
 
-  let importRun = await ImportRun.create({
+  const importRun = await ImportRun.create({
     fileName: summary.fileName,
     mode: 'apply',
+    incremental: summary.incremental,
+    profileId: profile._id,
+    profileName: profile.name,
     status: 'running',
     totalRows: summary.totalRows,
     skippedRows: summary.skippedRows,
     issues: summary.issues,
+    sheetName: selectedSheetName,
+    dryRunId: params.dryRunId ? new Types.ObjectId(params.dryRunId) : undefined,
+    recordsTagged: true,
     startedBy: new Types.ObjectId(params.adminUserId),
   });
-  summary.importRunId = importRun._id.toString();
+  const importRunId = importRun._id as Types.ObjectId;
+  summary.importRunId = importRunId.toString();
+  if (params.dryRunId) await ImportRun.updateOne({ _id: params.dryRunId }, { $set: { appliedRunId: importRun._id } });
 
   try {
     if (params.resetFreshDb) await resetFreshV2Data();
-    const course = await ensureChessCourse(params.adminUserId);
-    const batchGroups = buildBatchGroups(normalized.rows, course._id as Types.ObjectId, summary.issues);
+    const courses = await ensureCourses(rows, profile, params.adminUserId);
+    const batchGroups = buildBatchGroups(rows, courses, summary.issues);
     const groupByRow = new Map<number, BatchGroup>();
 
     for (const group of batchGroups) {
@@ -390,6 +854,7 @@ export async function importExcel(params: {
           endDate: null,
           description: group.batchCode,
           createdBy: new Types.ObjectId(params.adminUserId),
+          importRunId,
         });
         group.batchId = batch._id as Types.ObjectId;
         summary.createdBatches += 1;
@@ -397,7 +862,20 @@ export async function importExcel(params: {
       for (const rowNumber of group.rowNumbers) groupByRow.set(rowNumber, group);
     }
 
-    for (const row of normalized.rows) {
+    for (const row of rows) {
+      const course = courses.get(row.courseName);
+      const match = matches.get(row.rowNumber);
+      if (match) {
+        try {
+          const group = groupByRow.get(row.rowNumber);
+          const changes = await diffExistingStudent(row, match.studentId, course, profile, group, summary.issues);
+          await applyStudentChanges(match.studentId.toString(), changes, group, params.adminUserId, importRunId, summary);
+        } catch (error: any) {
+          summary.issues.push({ rowNumber: row.rowNumber, rawName: row.name, severity: 'error', code: 'row_update_failed', message: error.message });
+        }
+        continue;
+      }
+
       const session = await mongoose.startSession();
       session.startTransaction();
       let committed = false;
@@ -405,9 +883,9 @@ export async function importExcel(params: {
         const group = groupByRow.get(row.rowNumber);
         const activeBatch = group?.status === 'active' ? group : undefined;
         const startDate = effectiveStart(row, activeBatch);
-        const stage = course.stages.find((s) => s.stageNumber === row.stageNumber);
-        const level = stage?.levels.find((l) => l.levelNumber === row.levelNumber);
-        if (!level) throw new Error(`No configured fee for stage ${row.stageNumber} level ${row.levelNumber}`);
+        if (!course) throw new Error(`Course ${row.courseName} does not exist and the profile has no fees to create it with`);
+        const level = levelFee(course, profile, row);
+        if (!level) throw new Error(`No configured ${row.courseName} fee for stage ${row.stageNumber} level ${row.levelNumber}`);
 
         const [student] = await Student.create([{
           studentName: row.name,
@@ -420,6 +898,7 @@ export async function importExcel(params: {
           enrollmentDate: startDate,
           isActive: !row.isDiscontinued,
           creditBalance: 0,
+          importRunId,
         }], { session });
 
         const enrollmentEnd = row.isDiscontinued ? (latestPaymentMonth(row) ?? startDate) : null;
@@ -447,6 +926,7 @@ export async function importExcel(params: {
           endReason: enrollmentEnd ? 'left' : null,
           pausedUntil: null,
           createdBy: new Types.ObjectId(params.adminUserId),
+          importRunId,
         }], { session });
 
         await Student.findByIdAndUpdate(
@@ -472,6 +952,7 @@ export async function importExcel(params: {
                 paymentDate: payment.paidDate ?? new Date(),
                 idempotencyKey: `import:${summary.fileName}:${row.rowNumber}:${payment.paidDate?.toISOString().slice(0, 10) ?? 'nodate'}`,
                 createdBySource: 'import',
+                importRunId,
               },
             );
             summary.createdCredits += 1;
@@ -479,15 +960,8 @@ export async function importExcel(params: {
           continue;
         }
 
-        const latest = latestPaymentMonth(row);
-        const durationMonths = row.duration ?? level.durationMonths ?? 1;
-        const durationEnd = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + durationMonths - 1, 1));
-        const currentMonth = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), 1));
-        const through = row.isDiscontinued ? (latest ?? durationEnd) : new Date(Math.max(durationEnd.getTime(), latest?.getTime() ?? 0, currentMonth.getTime()));
-
         const invoiceByMonth = new Map<string, string>();
-        let cursor = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), 1));
-        while (cursor <= through) {
+        for (const cursor of invoiceMonths(row, startDate, level)) {
           const invoice = await createInvoice({
             studentId: student._id.toString(),
             enrollmentId: enrollment._id.toString(),
@@ -495,10 +969,10 @@ export async function importExcel(params: {
             amount: level.feeAmount,
             createdBy: params.adminUserId,
             createdBySource: 'import',
+            importRunId,
           });
           invoiceByMonth.set(cursor.toISOString().slice(0, 7), invoice._id.toString());
           summary.createdInvoices += 1;
-          cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
         }
 
         for (const payment of row.payments.filter((p) => p.paidDate)) {
@@ -512,6 +986,7 @@ export async function importExcel(params: {
               paymentDate: payment.paidDate ?? new Date(),
               idempotencyKey: `import:${summary.fileName}:${row.rowNumber}:${key}`,
               createdBySource: 'import',
+              importRunId,
             });
             summary.createdCredits += 1;
             summary.issues.push({ rowNumber: row.rowNumber, rawName: row.name, severity: 'warning', code: 'unmapped_payment', message: `Payment for ${key} could not be mapped to an invoice` });
@@ -528,6 +1003,7 @@ export async function importExcel(params: {
               paymentDate: payment.paidDate ?? new Date(),
               idempotencyKey: `import:${summary.fileName}:${row.rowNumber}:${key}`,
               createdBySource: 'import',
+              importRunId,
             },
           );
           summary.createdPayments += 1;
@@ -551,6 +1027,10 @@ export async function importExcel(params: {
       createdPayments: summary.createdPayments,
       createdCredits: summary.createdCredits,
       skippedRows: summary.skippedRows,
+      matchedStudents: summary.matchedStudents,
+      updatedStudents: summary.updatedStudents,
+      levelChanges: summary.levelChanges,
+      batchChanges: summary.batchChanges,
       issues: summary.issues,
     });
     await importRun.save();
@@ -561,3 +1041,90 @@ export async function importExcel(params: {
     throw error;
   }
 }
+
+function validRunId(runId: string): Types.ObjectId {
+  if (!Types.ObjectId.isValid(runId)) throw new ApiError('Invalid import run ID', 400, 'VALIDATION_ERROR');
+  return new Types.ObjectId(runId);
+}
+
+/** Apply a reviewed dry-run from the workbook it stored. Each dry-run can be applied once. */
+export async function applyImportRun(runId: string, adminUserId: string): Promise<ImportSummary> {
+  const dryRun = await ImportRun.findById(validRunId(runId)).select('+workbook');
+  if (!dryRun) throw new ApiError('Import run not found', 404, 'NOT_FOUND');
+  if (dryRun.mode !== 'dry-run') throw new ApiError('Only a dry-run can be applied', 409, 'CONFLICT');
+  if (!dryRun.workbook) throw new ApiError('This dry-run has no stored workbook; upload the file again', 409, 'CONFLICT');
+  if (dryRun.profileId) {
+    // The preview was reviewed as read by the profile at the time
+    const profile = await ImportProfile.findById(dryRun.profileId).select('updatedAt');
+    if (!profile) throw new ApiError(`Import profile "${dryRun.profileName}" has been deleted; upload the file again`, 409, 'CONFLICT');
+    if (profile.updatedAt > dryRun.startedAt) {
+      throw new ApiError(`Import profile "${dryRun.profileName}" changed after this dry-run; upload the file again`, 409, 'CONFLICT');
+    }
+  }
+
+  const claimed = await ImportRun.updateOne({ _id: dryRun._id, appliedAt: null }, { $set: { appliedAt: new Date() } });
+  if (claimed.modifiedCount === 0) throw new ApiError('This dry-run has already been applied', 409, 'CONFLICT');
+
+  try {
+    return await importExcel({
+      buffer: dryRun.workbook,
+      fileName: dryRun.fileName,
+      sheetName: dryRun.sheetName,
+      incremental: dryRun.incremental,
+      profileId: dryRun.profileId?.toString(),
+      apply: true,
+      adminUserId,
+      dryRunId: dryRun._id.toString(),
+    });
+  } catch (error) {
+    // Nothing was written unless the apply run got as far as being recorded.
+    if (!(await ImportRun.exists({ dryRunId: dryRun._id }))) {
+      await ImportRun.updateOne({ _id: dryRun._id }, { $unset: { appliedAt: 1 } });
+    }
+    throw error;
+  }
+}
+
+/** Recent runs, newest first, with issue counts instead of the issues themselves. */
+export async function listImportRuns(limit = 100) {
+  const runs = await ImportRun.find()
+    .sort({ startedAt: -1 })
+    .limit(limit)
+    .select('-preview')
+    .populate('startedBy', 'name email');
+  return runs.map((run) => {
+    const { issues, ...rest } = run.toJSON() as Record<string, any>;
+    return {
+      ...rest,
+      issueCounts: {
+        error: (issues as IImportIssue[]).filter((i) => i.severity === 'error').length,
+        warning: (issues as IImportIssue[]).filter((i) => i.severity === 'warning').length,
+      },
+    };
+  });
+}
+
+/** One run with its preview and issues, optionally narrowed by severity and code. */
+export async function getImportRun(
+  runId: string,
+  filter: { severity?: ImportIssueSeverity; code?: string } = {},
+) {
+  const run: IImportRun | null = await ImportRun.findById(validRunId(runId)).populate('startedBy', 'name email');
+  if (!run) throw new ApiError('Import run not found', 404, 'NOT_FOUND');
+
+  const codes = new Map<string, { code: string; severity: ImportIssueSeverity; count: number }>();
+  for (const issue of run.issues) {
+    const key = `${issue.severity}:${issue.code}`;
+    const entry = codes.get(key) ?? { code: issue.code, severity: issue.severity, count: 0 };
+    entry.count += 1;
+    codes.set(key, entry);
+  }
+  const json = run.toJSON() as Record<string, any>;
+  return {
+    ...json,
+    totalIssues: run.issues.length,
+    issueCodes: Array.from(codes.values()).sort((a, b) => b.count - a.count),
+    issues: (json.issues as IImportIssue[]).filter((issue) =>
+      (!filter.severity || issue.severity === filter.severity) && (!filter.code || issue.code === filter.code)),
+  };
+}
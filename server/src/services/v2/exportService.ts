@@ -0,0 +1,378 @@
+import { Types } from 'mongoose';
+import Batch from '../../models/v2/Batch.js';
+import Course from '../../models/v2/Course.js';
+import Invoice from '../../models/v2/Invoice.js';
+import Lead from '../../models/v2/Lead.js';
+import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
+import StudentV2 from '../../models/v2/Student.js';
+import User from '../../models/v2/User.js';
+import { TabularColumn } from '../../utils/tabular.js';
+import { overdueInvoiceFilter } from './feeService.js';
+import {
+  ListQuery,
+  invoiceListFilter,
+  leadListFilter,
+  paymentListFilter,
+  studentListFilter,
+} from './listFilterService.js';
+
+/**
+ * Full exports of the admin lists. Each entity takes the same query-string
+ * filters as its list endpoint (see listFilterService) and yields every
+ * matching row, read from a cursor and resolved in chunks so course, stage
+ * and batch names replace ObjectIds without loading everything at once.
+ */
+
+export const EXPORT_ENTITIES = ['students', 'invoices', 'payments', 'leads'] as const;
+
+export type ExportEntity = typeof EXPORT_ENTITIES[number];
+
+export interface EntityExport<Row> {
+  sheetName: string;
+  columns: TabularColumn<Row>[];
+  rows: AsyncIterable<Row>;
+}
+
+const CHUNK_SIZE = 500;
+
+const yesNo = (value: boolean | undefined) => (value ? 'Yes' : 'No');
+
+async function* inChunks<Doc, Row>(docs: AsyncIterable<Doc>, resolve: (chunk: Doc[]) => Promise<Row[]>): AsyncGenerator<Row> {
+  let chunk: Doc[] = [];
+  for await (const doc of docs) {
+    chunk.push(doc);
+    if (chunk.length === CHUNK_SIZE) {
+      yield* await resolve(chunk);
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) yield* await resolve(chunk);
+}
+
+function uniqueIds(values: (Types.ObjectId | null | undefined)[]): Types.ObjectId[] {
+  const seen = new Map<string, Types.ObjectId>();
+  for (const value of values) if (value) seen.set(value.toString(), value);
+  return Array.from(seen.values());
+}
+
+interface CourseNames {
+  name: (courseId?: Types.ObjectId | null) => string | undefined;
+  stage: (courseId?: Types.ObjectId | null, stageNumber?: number | null) => string | undefined;
+}
+
+// Courses are few; one read covers the whole export.
+async function loadCourseNames(): Promise<CourseNames> {
+  const courses = await Course.find().select('displayName courseName stages.stageNumber stages.stageName').lean();
+  const byId = new Map(courses.map((c) => [c._id.toString(), c]));
+  return {
+    name: (courseId) => {
+      const course = courseId ? byId.get(courseId.toString()) : undefined;
+      return course?.displayName ?? course?.courseName;
+    },
+    stage: (courseId, stageNumber) => {
+      if (!courseId || !stageNumber) return undefined;
+      return byId.get(courseId.toString())?.stages.find((s) => s.stageNumber === stageNumber)?.stageName;
+    },
+  };
+}
+
+async function batchCodes(ids: (Types.ObjectId | null | undefined)[]): Promise<Map<string, string>> {
+  const batches = await Batch.find({ _id: { $in: uniqueIds(ids) } }).select('batchCode').lean();
+  return new Map(batches.map((b) => [b._id.toString(), b.batchCode]));
+}
+
+async function studentCodes(ids: (Types.ObjectId | null | undefined)[]): Promise<Map<string, string>> {
+  const students = await StudentV2.find({ _id: { $in: uniqueIds(ids) } }).select('studentCode').lean();
+  return new Map(students.map((s) => [s._id.toString(), s.studentCode]));
+}
+
+async function userNames(ids: (Types.ObjectId | null | undefined)[]): Promise<Map<string, string>> {
+  const users = await User.find({ _id: { $in: uniqueIds(ids) } }).select('name').lean();
+  return new Map(users.map((u) => [u._id.toString(), u.name]));
+}
+
+const lookup = (map: Map<string, string>, id?: Types.ObjectId | null) => (id ? map.get(id.toString()) : undefined);
+
+// ── Students ──────────────────────────────────────────────────────
+
+export interface StudentExportRow {
+  studentCode: string;
+  studentName: string;
+  parentName?: string;
+  phone?: string;
+  email?: string;
+  course?: string;
+  stage?: string;
+  levelNumber?: number | null;
+  batchCode?: string;
+  enrollmentDate: Date;
+  isActive: boolean;
+  creditBalance: number;
+  hasOverdueFees: boolean;
+}
+
+const STUDENT_COLUMNS: TabularColumn<StudentExportRow>[] = [
+  { header: 'Code', value: (r) => r.studentCode },
+  { header: 'Student', value: (r) => r.studentName, width: 28 },
+  { header: 'Parent', value: (r) => r.parentName, width: 24 },
+  { header: 'Phone', value: (r) => r.phone, width: 14 },
+  { header: 'Email', value: (r) => r.email, width: 28 },
+  { header: 'Course', value: (r) => r.course, width: 16 },
+  { header: 'Stage', value: (r) => r.stage, width: 16 },
+  { header: 'Level', value: (r) => r.levelNumber, width: 8 },
+  { header: 'Batch', value: (r) => r.batchCode },
+  { header: 'Enrolled on', value: (r) => r.enrollmentDate },
+  { header: 'Active', value: (r) => yesNo(r.isActive), width: 8 },
+  { header: 'Credit balance', value: (r) => r.creditBalance },
+  { header: 'Overdue fees', value: (r) => yesNo(r.hasOverdueFees) },
+];
+
+async function exportStudents(query: ListQuery): Promise<EntityExport<StudentExportRow>> {
+  const filter = await studentListFilter(query);
+  const courses = await loadCourseNames();
+  const cursor = StudentV2.find(filter).sort({ studentName: 1 }).lean().cursor();
+  return {
+    sheetName: 'Students',
+    columns: STUDENT_COLUMNS,
+    rows: inChunks(cursor, async (students) => {
+      const [batches, overdueIds] = await Promise.all([
+        batchCodes(students.map((s) => s.batchId)),
+        Invoice.distinct('studentId', { studentId: { $in: students.map((s) => s._id) }, ...overdueInvoiceFilter() }),
+      ]);
+      const overdue = new Set(overdueIds.map(String));
+      return students.map((s) => ({
+        studentCode: s.studentCode,
+        studentName: s.studentName,
+        parentName: s.parentName,
+        phone: s.phone,
+        email: s.email,
+        course: courses.name(s.courseId),
+        stage: courses.stage(s.courseId, s.stageNumber),
+        levelNumber: s.levelNumber,
+        batchCode: lookup(batches, s.batchId),
+        enrollmentDate: s.enrollmentDate,
+        isActive: s.isActive,
+        creditBalance: s.creditBalance,
+        hasOverdueFees: overdue.has(s._id.toString()),
+      }));
+    }),
+  };
+}
+
+// ── Invoices ──────────────────────────────────────────────────────
+
+export interface InvoiceExportRow {
+  invoiceMonth: string;        // YYYY-MM
+  studentCode?: string;
+  studentName: string;
+  course?: string;
+  stage?: string;
+  levelNumber: number;
+  kind: string;
+  amount: number;
+  allocatedAmount: number;
+  waivedAmount: number;
+  balanceDue: number;
+  dueDate: Date;
+  status: string;
+  voidReason?: string;
+}
+
+const INVOICE_COLUMNS: TabularColumn<InvoiceExportRow>[] = [
+  { header: 'Month', value: (r) => r.invoiceMonth, width: 10 },
+  { header: 'Student code', value: (r) => r.studentCode },
+  { header: 'Student', value: (r) => r.studentName, width: 28 },
+  { header: 'Course', value: (r) => r.course, width: 16 },
+  { header: 'Stage', value: (r) => r.stage, width: 16 },
+  { header: 'Level', value: (r) => r.levelNumber, width: 8 },
+  { header: 'Kind', value: (r) => r.kind, width: 10 },
+  { header: 'Amount', value: (r) => r.amount },
+  { header: 'Paid', value: (r) => r.allocatedAmount },
+  { header: 'Waived', value: (r) => r.waivedAmount },
+  { header: 'Balance due', value: (r) => r.balanceDue },
+  { header: 'Due date', value: (r) => r.dueDate },
+  { header: 'Status', value: (r) => r.status, width: 14 },
+  { header: 'Void reason', value: (r) => r.voidReason, width: 28 },
+];
+
+async function exportInvoices(query: ListQuery): Promise<EntityExport<InvoiceExportRow>> {
+  const filter = invoiceListFilter(query);
+  const courses = await loadCourseNames();
+  // Hydrated rather than lean so the status and balanceDue virtuals apply.
+  const cursor = Invoice.find(filter).sort({ invoiceMonth: -1, studentName: 1 }).cursor();
+  return {
+    sheetName: 'Invoices',
+    columns: INVOICE_COLUMNS,
+    rows: inChunks(cursor, async (invoices) => {
+      const codes = await studentCodes(invoices.map((i) => i.studentId));
+      return invoices.map((i) => ({
+        invoiceMonth: i.invoiceMonth.toISOString().slice(0, 7),
+        studentCode: lookup(codes, i.studentId),
+        studentName: i.studentName,
+        course: courses.name(i.courseId),
+        stage: courses.stage(i.courseId, i.stageNumber),
+        levelNumber: i.levelNumber,
+        kind: i.kind,
+        amount: i.amount,
+        allocatedAmount: i.allocatedAmount,
+        waivedAmount: i.waivedAmount,
+        balanceDue: i.balanceDue ?? 0,
+        dueDate: i.dueDate,
+        status: i.status ?? '',
+        voidReason: i.voidReason,
+      }));
+    }),
+  };
+}
+
+// ── Payments ──────────────────────────────────────────────────────
+
+export interface PaymentExportRow {
+  receiptNumber?: string;
+  paymentDate: Date;
+  studentCode?: string;
+  studentName: string;
+  amount: number;
+  paymentMethod: string;
+  transactionId?: string;
+  source: string;
+  processedBy?: string;
+  isReversed: boolean;
+  reversedAt?: Date;
+  reversalReason?: string;
+  remarks?: string;
+}
+
+const PAYMENT_COLUMNS: TabularColumn<PaymentExportRow>[] = [
+  { header: 'Receipt', value: (r) => r.receiptNumber, width: 20 },
+  { header: 'Date', value: (r) => r.paymentDate },
+  { header: 'Student code', value: (r) => r.studentCode },
+  { header: 'Student', value: (r) => r.studentName, width: 28 },
+  { header: 'Amount', value: (r) => r.amount },
+  { header: 'Method', value: (r) => r.paymentMethod, width: 10 },
+  { header: 'Transaction ID', value: (r) => r.transactionId, width: 20 },
+  { header: 'Source', value: (r) => r.source, width: 10 },
+  { header: 'Recorded by', value: (r) => r.processedBy, width: 20 },
+  { header: 'Reversed', value: (r) => yesNo(r.isReversed), width: 10 },
+  { header: 'Reversed on', value: (r) => r.reversedAt },
+  { header: 'Reversal reason', value: (r) => r.reversalReason, width: 28 },
+  { header: 'Remarks', value: (r) => r.remarks, width: 28 },
+];
+
+async function exportPayments(query: ListQuery): Promise<EntityExport<PaymentExportRow>> {
+  const filter = paymentListFilter(query);
+  const cursor = PaymentTransaction.find(filter).sort({ paymentDate: -1, createdAt: -1 }).lean().cursor();
+  return {
+    sheetName: 'Payments',
+    columns: PAYMENT_COLUMNS,
+    rows: inChunks(cursor, async (payments) => {
+      const [codes, users] = await Promise.all([
+        studentCodes(payments.map((p) => p.studentId)),
+        userNames(payments.map((p) => p.processedBy)),
+      ]);
+      return payments.map((p) => ({
+        receiptNumber: p.receiptNumber,
+        paymentDate: p.paymentDate,
+        studentCode: lookup(codes, p.studentId),
+        studentName: p.studentName,
+        amount: p.amount,
+        paymentMethod: p.paymentMethod,
+        transactionId: p.transactionId,
+        source: p.createdBySource,
+        processedBy: lookup(users, p.processedBy),
+        isReversed: Boolean(p.isReversed),
+        reversedAt: p.reversedAt,
+        reversalReason: p.reversalReason,
+        remarks: p.remarks,
+      }));
+    }),
+  };
+}
+
+// ── Leads ─────────────────────────────────────────────────────────
+
+export interface LeadExportRow {
+  createdAt: Date;
+  name: string;
+  phone?: string;
+  email?: string;
+  childName?: string;
+  childAge?: number;
+  course?: string;
+  interestedStageName?: string;
+  source: string;
+  status: string;
+  followUpDate?: Date;
+  assignedTo?: string;
+  convertedStudentCode?: string;
+  convertedAt?: Date;
+  notes?: string;
+}
+
+const LEAD_COLUMNS: TabularColumn<LeadExportRow>[] = [
+  { header: 'Created', value: (r) => r.createdAt },
+  { header: 'Name', value: (r) => r.name, width: 24 },
+  { header: 'Phone', value: (r) => r.phone, width: 14 },
+  { header: 'Email', value: (r) => r.email, width: 28 },
+  { header: 'Child', value: (r) => r.childName, width: 20 },
+  { header: 'Child age', value: (r) => r.childAge, width: 10 },
+  { header: 'Course', value: (r) => r.course, width: 16 },
+  { header: 'Stage', value: (r) => r.interestedStageName, width: 16 },
+  { header: 'Source', value: (r) => r.source },
+  { header: 'Status', value: (r) => r.status },
+  { header: 'Follow-up', value: (r) => r.followUpDate },
+  { header: 'Assigned to', value: (r) => r.assignedTo, width: 20 },
+  { header: 'Converted student', value: (r) => r.convertedStudentCode, width: 18 },
+  { header: 'Converted on', value: (r) => r.convertedAt },
+  { header: 'Notes', value: (r) => r.notes, width: 40 },
+];
+
+async function exportLeads(query: ListQuery, userId: Types.ObjectId): Promise<EntityExport<LeadExportRow>> {
+  const filter = leadListFilter(query, userId);
+  const courses = await loadCourseNames();
+  const cursor = Lead.find(filter).sort({ createdAt: -1 }).lean().cursor();
+  return {
+    sheetName: 'Leads',
+    columns: LEAD_COLUMNS,
+    rows: inChunks(cursor, async (leads) => {
+      const [codes, users] = await Promise.all([
+        studentCodes(leads.map((l) => l.convertedStudentId)),
+        userNames(leads.map((l) => l.assignedTo)),
+      ]);
+      return leads.map((l) => ({
+        createdAt: l.createdAt,
+        name: l.name,
+        phone: l.phone,
+        email: l.email,
+        childName: l.childName,
+        childAge: l.childAge,
+        course: courses.name(l.interestedCourseId),
+        interestedStageName: l.interestedStageName,
+        source: l.source,
+        status: l.status,
+        followUpDate: l.followUpDate,
+        assignedTo: lookup(users, l.assignedTo),
+        convertedStudentCode: lookup(codes, l.convertedStudentId),
+        convertedAt: l.convertedAt,
+        notes: l.notes,
+      }));
+    }),
+  };
+}
+
+/** One entity's export, tagged with the entity so its row type follows. */
+export type AnyEntityExport =
+  | ({ entity: 'students' } & EntityExport<StudentExportRow>)
+  | ({ entity: 'invoices' } & EntityExport<InvoiceExportRow>)
+  | ({ entity: 'payments' } & EntityExport<PaymentExportRow>)
+  | ({ entity: 'leads' } & EntityExport<LeadExportRow>);
+
+/** Columns and a row stream for one entity, filtered like its list endpoint. */
+export async function buildEntityExport(entity: ExportEntity, query: ListQuery, userId: Types.ObjectId): Promise<AnyEntityExport> {
+  switch (entity) {
+    case 'students': return { entity, ...await exportStudents(query) };
+    case 'invoices': return { entity, ...await exportInvoices(query) };
+    case 'payments': return { entity, ...await exportPayments(query) };
+    case 'leads': return { entity, ...await exportLeads(query, userId) };
+  }
+}
@@ -1,7 +1,7 @@
 import mongoose, { ClientSession, Types } from 'mongoose';
 import { ApiError } from '../../utils/errors.js';
 import Enrollment from '../../models/v2/Enrollment.js';
-import Invoice, { IInvoice } from '../../models/v2/Invoice.js';
+import Invoice, { IInvoice, IInvoiceProRation } from '../../models/v2/Invoice.js';
 import PaymentTransaction, { IPaymentCorrection, IPaymentTransaction } from '../../models/v2/PaymentTransaction.js';
 import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
 import CreditLedger from '../../models/v2/CreditLedger.js';
@@ -9,12 +9,38 @@ import WaiverLedger from '../../models/v2/WaiverLedger.js';
 import StudentV2 from '../../models/v2/Student.js';
 import Batch from '../../models/v2/Batch.js';
 import Course from '../../models/v2/Course.js';
+import BillingRun from '../../models/v2/BillingRun.js';
+import ReceiptCounter from '../../models/v2/ReceiptCounter.js';
+import Family, { IFamily } from '../../models/v2/Family.js';
+import BatchWaitlistEntry, { IBatchWaitlistEntry } from '../../models/v2/BatchWaitlist.js';
 import type { IEnrollment, ProcessPaymentResult, ReversalResult, UpgradeError, UpgradeResult } from '../../types/v2.js';
 
 export type { IEnrollment, ProcessPaymentResult, ReversalResult, UpgradeError, UpgradeResult };
 
 type PaymentMethod = 'cash' | 'online' | 'card' | 'upi' | 'other';
 
+export interface FamilyPaymentShare extends ProcessPaymentResult {
+  studentId: string;
+  studentName: string;
+  amount: number;
+  paymentTransactionId: string | null;
+}
+
+export interface FamilyPaymentResult {
+  familyPaymentId: string;
+  amount: number;
+  shares: FamilyPaymentShare[];
+}
+
+type QuotableEnrollment = Pick<IEnrollment, 'courseId' | 'batchId' | 'monthlyFee' | 'startDate' | 'endDate'>;
+
+export interface InvoiceQuote {
+  amount: number;
+  proRation: IInvoiceProRation | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 function startOfMonthUTC(d: Date): Date {
   return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
 }
@@ -27,11 +53,79 @@ function daysInUTCMonth(year: number, month: number): number {
   return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
 }
 
+function nextMonthUTC(monthStart: Date): Date {
+  return new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1));
+}
+
+function countWeekdays(from: Date, to: Date, daysOfWeek: Set<number>): number {
+  let count = 0;
+  for (let d = new Date(from); d < to; d = new Date(d.getTime() + DAY_MS)) {
+    if (daysOfWeek.has(d.getUTCDay())) count += 1;
+  }
+  return count;
+}
+
 function dueDateForMonth(monthStart: Date, anchorDate: Date): Date {
   const day = Math.min(anchorDate.getUTCDate(), daysInUTCMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth()));
   return new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), day));
 }
 
+/** Indian financial year (April–March) a date falls in, e.g. "2026-27". */
+export function financialYearFor(d: Date): string {
+  const startYear = d.getUTCMonth() >= 3 ? d.getUTCFullYear() : d.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Invoices past their due date with a balance left. Shared by the students
+ * list's overdueOnly filter and fee reminder campaigns so both agree on who is
+ * overdue.
+ */
+export function overdueInvoiceFilter(asOf: Date = new Date()) {
+  return {
+    dueDate: { $lt: asOf },
+    isVoid: false,
+    $expr: {
+      $gt: [{ $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] }, 0],
+    },
+  };
+}
+
+/**
+ * Take the next receipt number for the payment date's financial year. Must be
+ * called inside the transaction that records the payment — if that
+ * transaction aborts, the counter increment rolls back with it. Every payment
+ * writes the same counter document, so call it as the last write before
+ * commit and run the transaction through inPaymentTransaction.
+ */
+async function nextReceiptNumber(paymentDate: Date, session: ClientSession): Promise<string> {
+  const financialYear = financialYearFor(paymentDate);
+  const counter = await ReceiptCounter.findOneAndUpdate(
+    { financialYear },
+    { $inc: { lastNumber: 1 } },
+    { session, upsert: true, returnDocument: 'after' },
+  );
+  return `RCT/${financialYear}/${String(counter!.lastNumber).padStart(5, '0')}`;
+}
+
+/**
+ * Run work in a transaction of its own, retried while it fails with a
+ * transient error — notably a write conflict with another payment taking a
+ * receipt number at the same time. work must only write through the session.
+ */
+async function inPaymentTransaction<T>(work: (session: ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await work(session);
+    });
+    return result;
+  } finally {
+    session.endSession();
+  }
+}
+
 async function assertCourseLevel(
   courseId: string | Types.ObjectId,
   stageNumber: number,
@@ -53,6 +147,7 @@ async function validateBatch(
   stageNumber: number,
   levelNumber: number,
   session: ClientSession,
+  checkCapacity = true,
 ): Promise<void> {
   const batch = await Batch.findById(batchId).session(session);
   if (!batch) throw new Error('Batch not found');
@@ -65,7 +160,7 @@ async function validateBatch(
   // Capacity is enforced AUTHORITATIVELY by reserveBatchSeat (an atomic
   // conditional updateOne). The count here is only a cheap early rejection so
   // obviously-full batches fail fast without entering the transaction body.
-  if (batch.maxStudents !== null && (batch.filledSeats ?? 0) >= batch.maxStudents) {
+  if (checkCapacity && batch.maxStudents !== null && (batch.filledSeats ?? 0) >= batch.maxStudents) {
     throw new Error(`Batch is full (${batch.filledSeats}/${batch.maxStudents})`);
   }
 }
@@ -100,29 +195,75 @@ async function reserveBatchSeat(
 /**
  * Atomically release a seat from a batch (floor at 0). Called on every
  * transition that closes an enrollment tied to a batch: pause, leave,
- * change-batch (old), upgrade (old). Must be called inside the caller's
- * transaction.
+ * change-batch (old), upgrade (old). The freed seat is offered to the first
+ * waitlisted student not yet told about one, which puts the batch on the
+ * admins' waitlist worklist. Must be called inside the caller's transaction.
  */
-async function releaseBatchSeat(
+export async function releaseBatchSeat(
   batchId: string | Types.ObjectId | null | undefined,
   session: ClientSession,
 ): Promise<void> {
   if (!batchId) return;
-  await Batch.updateOne(
-    { _id: new Types.ObjectId(batchId.toString()), filledSeats: { $gt: 0 } },
+  const batchObjectId = new Types.ObjectId(batchId.toString());
+  const released = await Batch.updateOne(
+    { _id: batchObjectId, filledSeats: { $gt: 0 } },
     { $inc: { filledSeats: -1 } },
     { session },
   );
+  if (released.modifiedCount > 0) {
+    await BatchWaitlistEntry.findOneAndUpdate(
+      { batchId: batchObjectId, status: 'waiting', seatAvailableAt: null },
+      { $set: { seatAvailableAt: new Date() } },
+      { session, sort: { createdAt: 1 } },
+    );
+  }
+}
+
+/** Whether every seat in a capped batch is taken. */
+export async function isBatchFull(batchId: string | Types.ObjectId, session: ClientSession | null = null): Promise<boolean> {
+  const batch = await Batch.findById(batchId).select('maxStudents filledSeats').session(session);
+  return !!batch && batch.maxStudents !== null && (batch.filledSeats ?? 0) >= batch.maxStudents;
+}
+
+export interface ActiveEnrollmentTarget {
+  enrollmentId?: string | null;
+  courseId?: string | null;
+}
+
+/**
+ * The active enrollment a transition applies to. A student holds at most one
+ * active enrollment per course, so callers pick it by enrollmentId, or by
+ * courseId when the student is in that course; otherwise the student's only
+ * active enrollment is used. Null when nothing matches.
+ */
+export async function findActiveEnrollment(
+  studentId: string,
+  target: ActiveEnrollmentTarget = {},
+  session: ClientSession | null = null,
+): Promise<IEnrollment | null> {
+  const base = { studentId: new Types.ObjectId(studentId), endDate: null };
+  if (target.enrollmentId) {
+    if (!Types.ObjectId.isValid(target.enrollmentId)) throw new ApiError('Invalid enrollment ID', 400, 'VALIDATION_ERROR');
+    return Enrollment.findOne({ ...base, _id: new Types.ObjectId(target.enrollmentId) }).session(session);
+  }
+  const active = await Enrollment.find(base).sort({ startDate: 1 }).session(session);
+  const inCourse = target.courseId ? active.find((e) => e.courseId.toString() === target.courseId) : undefined;
+  if (inCourse) return inCourse;
+  if (active.length > 1) {
+    throw new ApiError('Student is enrolled in more than one course — enrollmentId is required', 400, 'ENROLLMENT_REQUIRED');
+  }
+  return active[0] ?? null;
 }
 
 async function closeCurrentEnrollment(
   studentId: string,
+  target: ActiveEnrollmentTarget,
   endDate: Date,
   endReason: 'upgraded' | 'batch_change' | 'fee_change' | 'left' | 'inactive' | 'paused',
   session: ClientSession,
   pausedUntil?: Date,
 ) {
-  const current = await Enrollment.findOne({ studentId: new Types.ObjectId(studentId), endDate: null }).session(session);
+  const current = await findActiveEnrollment(studentId, target, session);
   if (!current) throw new Error('No active enrollment found for student');
   if (dateOnlyUTC(endDate) < dateOnlyUTC(current.startDate)) {
     throw new Error('Transition date cannot be before enrollment start date');
@@ -135,6 +276,94 @@ async function closeCurrentEnrollment(
   return current;
 }
 
+/**
+ * Refresh the student's denormalised course/stage/level/batch after a
+ * transition. They mirror the primary enrollment: the one currentEnrollmentId
+ * points at while it is still open, else `successor` (the enrollment that
+ * just replaced it), else the earliest still-active course. A student with no
+ * active enrollment left is cleared and marked inactive.
+ */
+async function syncStudentEnrollment(studentId: string, session: ClientSession, successor?: IEnrollment): Promise<void> {
+  const student = await StudentV2.findById(studentId).select('currentEnrollmentId').session(session);
+  if (!student) return;
+  const active = await Enrollment.find({ studentId: student._id, endDate: null }).sort({ startDate: 1 }).session(session);
+  const primary = active.find((e) => student.currentEnrollmentId && e._id.equals(student.currentEnrollmentId))
+    ?? (successor && active.find((e) => e._id.equals(successor._id)))
+    ?? active[0];
+
+  await StudentV2.findByIdAndUpdate(student._id, {
+    $set: primary
+      ? {
+        courseId: primary.courseId,
+        stageNumber: primary.stageNumber,
+        levelNumber: primary.levelNumber,
+        batchId: primary.batchId,
+        currentEnrollmentId: primary._id,
+        isActive: true,
+      }
+      : { isActive: false, currentEnrollmentId: null, batchId: null },
+  }, { session });
+}
+
+/**
+ * Price one month of an enrollment under its course's pro-ration policy.
+ *
+ * The active period is [startDate, endDate) clipped to the month — endDate is
+ * exclusive because every transition closes the old enrollment and opens the
+ * new one on the same date, so the two periods never overlap. A month the
+ * enrollment covers completely is always billed at monthlyFee with no
+ * breakdown (and without touching the database).
+ */
+export async function quoteInvoiceAmount(
+  enrollment: QuotableEnrollment,
+  invoiceMonth: Date,
+  session?: ClientSession,
+): Promise<InvoiceQuote> {
+  const monthStart = startOfMonthUTC(invoiceMonth);
+  const monthEnd = nextMonthUTC(monthStart);
+  const start = dateOnlyUTC(enrollment.startDate);
+  const end = enrollment.endDate ? dateOnlyUTC(enrollment.endDate) : null;
+  const periodStart = start > monthStart ? start : monthStart;
+  const periodEnd = end && end < monthEnd ? end : monthEnd;
+  const fullMonthFee = enrollment.monthlyFee;
+  if (periodStart <= monthStart && periodEnd >= monthEnd) return { amount: fullMonthFee, proRation: null };
+
+  const course = await Course.findById(enrollment.courseId).select('proRationPolicy').session(session ?? null);
+  const policy = course?.proRationPolicy ?? { method: 'days', cutoffDay: 15 };
+  if (policy.method === 'none') return { amount: fullMonthFee, proRation: null };
+
+  const quote = (
+    method: IInvoiceProRation['method'],
+    activeUnits: number,
+    totalUnits: number,
+    cutoffDay?: number,
+  ): InvoiceQuote => ({
+    amount: totalUnits > 0 ? Math.round((fullMonthFee * activeUnits) / totalUnits) : 0,
+    proRation: { method, fullMonthFee, activeUnits, totalUnits, periodStart, periodEnd, cutoffDay },
+  });
+  const activeDays = Math.max(0, Math.round((periodEnd.getTime() - periodStart.getTime()) / DAY_MS));
+  const monthDays = daysInUTCMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth());
+
+  if (policy.method === 'cutoff') {
+    const cutoff = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), policy.cutoffDay));
+    const ownsMonth = periodStart <= cutoff && cutoff < periodEnd;
+    return quote('cutoff', ownsMonth ? 1 : 0, 1, policy.cutoffDay);
+  }
+
+  if (policy.method === 'sessions' && enrollment.batchId) {
+    const batch = await Batch.findById(enrollment.batchId).select('schedule').session(session ?? null);
+    const daysOfWeek = new Set((batch?.schedule ?? []).map((entry) => entry.dayOfWeek));
+    const totalSessions = countWeekdays(monthStart, monthEnd, daysOfWeek);
+    // No batch schedule to count against — fall through to day-based pricing.
+    if (totalSessions > 0) {
+      const activeSessions = periodEnd > periodStart ? countWeekdays(periodStart, periodEnd, daysOfWeek) : 0;
+      return quote('sessions', activeSessions, totalSessions);
+    }
+  }
+
+  return quote('days', activeDays, monthDays);
+}
+
 export async function createInvoice(params: {
   studentId: string;
   enrollmentId: string;
@@ -143,6 +372,8 @@ export async function createInvoice(params: {
   dueDate?: Date;
   createdBy: string;
   createdBySource?: 'manual' | 'import' | 'billing';
+  /** Import run creating the invoice, so rolling the run back removes it. */
+  importRunId?: Types.ObjectId;
   session?: ClientSession;
 }): Promise<IInvoice> {
   const work = async (session?: ClientSession) => {
@@ -162,9 +393,19 @@ export async function createInvoice(params: {
       studentId: student._id,
       enrollmentId: enrollment._id,
       invoiceMonth,
+      kind: { $ne: 'late_fee' },
     }).session(session ?? null);
     if (existing) return existing;
 
+    // An explicit amount is an admin override and is billed as-is; otherwise
+    // the course's pro-ration policy prices partial months.
+    const quote = params.amount === undefined
+      ? await quoteInvoiceAmount(enrollment, invoiceMonth, session)
+      : null;
+    if (quote && !(quote.amount > 0)) {
+      throw new Error(`Nothing to bill for ${invoiceMonth.toISOString().slice(0, 7)} under the course pro-ration policy`);
+    }
+
     const [invoice] = await Invoice.create([{
       studentId: student._id,
       enrollmentId: enrollment._id,
@@ -174,11 +415,13 @@ export async function createInvoice(params: {
       levelNumber: enrollment.levelNumber,
       invoiceMonth,
       dueDate: params.dueDate ?? dueDateForMonth(invoiceMonth, enrollment.startDate),
-      amount: params.amount ?? enrollment.monthlyFee,
+      amount: params.amount ?? quote!.amount,
+      proRation: quote?.proRation ?? null,
       allocatedAmount: 0,
       waivedAmount: 0,
       createdBy: new Types.ObjectId(params.createdBy),
       createdBySource: params.createdBySource ?? 'manual',
+      importRunId: params.importRunId,
     }], { session });
     return invoice;
   };
@@ -211,19 +454,204 @@ export async function generateInvoicesForEnrollment(params: {
   let cursor = startOfMonthUTC(enrollment.startDate);
   const end = startOfMonthUTC(params.throughMonth);
   while (cursor <= end) {
-    invoices.push(await createInvoice({
-      studentId: enrollment.studentId.toString(),
-      enrollmentId: enrollment._id.toString(),
-      invoiceMonth: cursor,
-      createdBy: params.createdBy,
-      createdBySource: params.createdBySource ?? 'billing',
-      session: params.session,
-    }));
+    // Skip months the policy leaves unbilled (e.g. a start after the cutoff day).
+    const quote = await quoteInvoiceAmount(enrollment, cursor, params.session);
+    if (quote.amount > 0) {
+      invoices.push(await createInvoice({
+        studentId: enrollment.studentId.toString(),
+        enrollmentId: enrollment._id.toString(),
+        invoiceMonth: cursor,
+        createdBy: params.createdBy,
+        createdBySource: params.createdBySource ?? 'billing',
+        session: params.session,
+      }));
+    }
     cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
   }
   return invoices;
 }
 
+/**
+ * Return `amount` of what was allocated to an invoice to the student's credit:
+ * the newest allocations are reversed (a partly returned one is replaced by
+ * an allocation for what stays), the balance goes up by the same amount and
+ * each return is a credit_added row — linked to the payment it came from, so
+ * reversing that payment later claws the credit back.
+ */
+async function returnAllocationsToCredit(
+  invoice: IInvoice,
+  amount: number,
+  description: string,
+  adminUserId: string,
+  session: ClientSession,
+): Promise<void> {
+  const allocations = await PaymentAllocation.find({ invoiceId: invoice._id, isReversed: { $ne: true } })
+    .sort({ allocatedAt: -1 })
+    .session(session);
+  let remaining = amount;
+  for (const allocation of allocations) {
+    if (remaining === 0) break;
+    const returned = Math.min(allocation.amount, remaining);
+    remaining -= returned;
+    allocation.isReversed = true;
+    allocation.reversedAt = new Date();
+    await allocation.save({ session });
+    if (allocation.amount > returned) {
+      await PaymentAllocation.create([{
+        studentId: allocation.studentId,
+        invoiceId: allocation.invoiceId,
+        paymentTransactionId: allocation.paymentTransactionId,
+        creditLedgerId: allocation.creditLedgerId,
+        amount: allocation.amount - returned,
+        allocationType: allocation.allocationType,
+        allocatedAt: allocation.allocatedAt,
+        allocatedBy: new Types.ObjectId(adminUserId),
+      }], { session });
+    }
+
+    const afterInc = await StudentV2.findOneAndUpdate(
+      { _id: invoice.studentId },
+      { $inc: { creditBalance: returned } },
+      { session, runValidators: true, returnDocument: 'after' },
+    );
+    await CreditLedger.create([{
+      studentId: invoice.studentId,
+      studentName: invoice.studentName,
+      type: 'credit_added',
+      amount: returned,
+      balanceBefore: (afterInc?.creditBalance ?? 0) - returned,
+      balanceAfter: afterInc?.creditBalance ?? 0,
+      description,
+      paymentTransactionId: allocation.allocationType === 'payment' ? allocation.paymentTransactionId : undefined,
+      invoiceId: invoice._id,
+      processedBy: new Types.ObjectId(adminUserId),
+      processedAt: new Date(),
+      createdBySource: 'manual',
+    }], { session });
+  }
+  invoice.allocatedAmount -= amount - remaining;
+}
+
+/**
+ * Re-price every invoice a closed enrollment holds from the transition month
+ * onward against its new endDate. Amounts only ever go down; an invoice with
+ * nothing left to bill and nothing settled is voided. Money already allocated
+ * beyond the pro-rated amount goes back to the student's credit, since the
+ * enrollment that replaces this one bills the rest of the month. Only waivers
+ * can keep an invoice above its pro-rated amount (they are not returned).
+ * Returns the months the closed enrollment had been billed for.
+ */
+async function reprorateClosedEnrollment(
+  closed: IEnrollment,
+  endDate: Date,
+  adminUserId: string,
+  session: ClientSession,
+): Promise<Date[]> {
+  const invoices = await Invoice.find({
+    enrollmentId: closed._id,
+    invoiceMonth: { $gte: startOfMonthUTC(endDate) },
+    kind: { $ne: 'late_fee' },
+    isVoid: false,
+  }).sort({ invoiceMonth: 1 }).session(session);
+  const ended = {
+    courseId: closed.courseId,
+    batchId: closed.batchId,
+    monthlyFee: closed.monthlyFee,
+    startDate: closed.startDate,
+    endDate,
+  };
+  const reason = `Pro-rated: enrollment ended ${dateOnlyUTC(endDate).toISOString().slice(0, 10)}`;
+
+  for (const invoice of invoices) {
+    const quote = await quoteInvoiceAmount(ended, invoice.invoiceMonth, session);
+    if (quote.amount >= invoice.amount) continue;
+    const excess = Math.min(invoice.allocatedAmount, invoice.allocatedAmount + invoice.waivedAmount - quote.amount);
+    if (excess > 0) {
+      const month = invoice.invoiceMonth.toISOString().slice(0, 7);
+      await returnAllocationsToCredit(invoice, excess, `${reason}: ₹${excess} paid towards ${month} returned as credit`, adminUserId, session);
+    }
+    const settled = invoice.allocatedAmount + invoice.waivedAmount;
+    const allocationCount = settled === 0 && excess === 0
+      ? await PaymentAllocation.countDocuments({ invoiceId: invoice._id }).session(session)
+      : 0;
+    if (quote.amount === 0 && settled === 0 && allocationCount === 0) {
+      markVoid(invoice, reason, adminUserId);
+    } else {
+      invoice.amount = Math.max(quote.amount, settled);
+      invoice.proRation = quote.proRation;
+      invoice.correctionReason = [
+        reason,
+        excess > 0 ? `₹${excess} returned as credit` : null,
+        settled > quote.amount ? `₹${settled - quote.amount} waived above the pro-rated ₹${quote.amount}` : null,
+      ].filter(Boolean).join('; ');
+    }
+    await invoice.save({ session });
+  }
+  return invoices.map((invoice) => invoice.invoiceMonth);
+}
+
+/**
+ * Invoice an enrollment that opened mid-month for any month from its start
+ * that has already been billed — either on the enrollment it replaced or by a
+ * completed billing run — so it is not missed until the next run.
+ */
+async function invoiceAlreadyBilledMonths(
+  enrollment: IEnrollment,
+  replacedMonths: Date[],
+  adminUserId: string,
+  session: ClientSession,
+): Promise<void> {
+  const fromMonth = startOfMonthUTC(enrollment.startDate);
+  const runMonths: Date[] = await BillingRun.find({
+    billingMonth: { $gte: fromMonth },
+    mode: 'apply',
+    status: 'completed',
+  }).session(session).distinct('billingMonth');
+  const months = new Set([...replacedMonths, ...runMonths].map((month) => startOfMonthUTC(month).getTime()));
+
+  for (const time of [...months].sort((a, b) => a - b)) {
+    const invoiceMonth = new Date(time);
+    const quote = await quoteInvoiceAmount(enrollment, invoiceMonth, session);
+    if (!(quote.amount > 0)) continue;
+    await createInvoice({
+      studentId: enrollment.studentId.toString(),
+      enrollmentId: enrollment._id.toString(),
+      invoiceMonth,
+      createdBy: adminUserId,
+      createdBySource: 'billing',
+      session,
+    });
+  }
+}
+
+function markVoid(invoice: IInvoice, reason: string, adminUserId: string): void {
+  invoice.isVoid = true;
+  invoice.voidReason = reason;
+  invoice.voidedBy = new Types.ObjectId(adminUserId);
+  invoice.voidedAt = new Date();
+}
+
+/**
+ * Live late fees on the given tuition invoices that a payment dated
+ * paymentDate would have avoided — i.e. the payment falls on or before the
+ * last day of the grace period recorded on the fee.
+ */
+async function lateFeesAvoidedBy(invoices: IInvoice[], paymentDate: Date, session: ClientSession): Promise<IInvoice[]> {
+  const tuition = invoices.filter((inv) => inv.kind !== 'late_fee');
+  if (tuition.length === 0) return [];
+  const fees = await Invoice.find({
+    kind: 'late_fee',
+    isVoid: false,
+    penaltyForInvoiceId: { $in: tuition.map((inv) => inv._id) },
+  }).session(session);
+  return fees.filter((fee) => {
+    const base = tuition.find((inv) => inv._id.equals(fee.penaltyForInvoiceId));
+    if (!base) return false;
+    const lastGraceDay = dateOnlyUTC(base.dueDate).getTime() + (fee.lateFee?.graceDays ?? 0) * DAY_MS;
+    return dateOnlyUTC(paymentDate).getTime() <= lastGraceDay;
+  });
+}
+
 export async function processPayment(
   studentId: string,
   amount: number,
@@ -236,7 +664,13 @@ export async function processPayment(
     idempotencyKey?: string;
     remarks?: string;
     createdBySource?: 'manual' | 'import';
+    /** Import run recording the payment; every record it writes is tagged with it. */
+    importRunId?: Types.ObjectId;
     discount?: { type: 'percentage' | 'fixed'; value: number; reason?: string };
+    /** Family payment this is one sibling's share of (see processFamilyPayment). */
+    family?: { familyId: Types.ObjectId; familyPaymentId: Types.ObjectId };
+    /** Run inside the caller's transaction instead of opening one. */
+    session?: ClientSession;
   } = {},
 ): Promise<ProcessPaymentResult & { paymentTransactionId: string | null }> {
   if (amount <= 0) throw new Error('Payment amount must be greater than zero');
@@ -253,9 +687,7 @@ export async function processPayment(
     }
   }
 
-  const session = await mongoose.startSession();
-  session.startTransaction();
-  try {
+  const work = async (session: ClientSession) => {
     if (opts.idempotencyKey) {
       const duplicate = await PaymentTransaction.findOne({ idempotencyKey: opts.idempotencyKey }).session(session);
       if (duplicate) {
@@ -269,17 +701,21 @@ export async function processPayment(
     const student = await StudentV2.findById(studentId).session(session);
     if (!student) throw new Error('Student not found');
 
+    const paymentDate = opts.paymentDate ?? new Date();
     const payment = await PaymentTransaction.create([{
       studentId: student._id,
       studentName: student.studentName,
       amount,
-      paymentDate: opts.paymentDate ?? new Date(),
+      paymentDate,
       paymentMethod,
       transactionId,
       idempotencyKey: opts.idempotencyKey,
+      familyId: opts.family?.familyId ?? null,
+      familyPaymentId: opts.family?.familyPaymentId ?? null,
       remarks: opts.remarks,
       processedBy: new Types.ObjectId(adminUserId),
       createdBySource: opts.createdBySource ?? 'manual',
+      importRunId: opts.importRunId,
     }], { session });
 
     let remainingCash = amount;
@@ -290,12 +726,18 @@ export async function processPayment(
     const query = invoiceIds.length > 0
       ? { _id: { $in: invoiceIds.map((id) => new Types.ObjectId(id)) } }
       : { studentId: student._id, isVoid: false };
-    const invoices = await Invoice.find(query).sort({ dueDate: 1, invoiceMonth: 1 }).session(session);
+    const found = await Invoice.find(query).sort({ dueDate: 1, invoiceMonth: 1 }).session(session);
 
-    if (invoiceIds.length > 0 && invoices.length !== invoiceIds.length) {
+    if (invoiceIds.length > 0 && found.length !== invoiceIds.length) {
       throw new Error('One or more invoices were not found');
     }
 
+    // A back-dated payment may settle tuition within its late-fee grace period,
+    // in which case the fee should never have been charged. Hold those fees out
+    // of this allocation; they are cancelled below once the tuition is settled.
+    const avoidableFees = await lateFeesAvoidedBy(found, paymentDate, session);
+    const invoices = found.filter((inv) => !avoidableFees.some((fee) => fee._id.equals(inv._id)));
+
     // ── Apply discount as a per-invoice waiver BEFORE cash/credit allocation ──
     // A discount at payment time forgives part of each selected invoice's
     // balance; the collected cash then settles the remainder. The waiver is
@@ -403,9 +845,11 @@ export async function processPayment(
           balanceAfter: runningCredit,
           description: `Credit applied to invoice ${invoice.invoiceMonth.toISOString().slice(0, 7)}`,
           invoiceId: invoice._id,
+          paymentTransactionId: payment[0]._id,
           processedBy: new Types.ObjectId(adminUserId),
           processedAt: opts.paymentDate ?? new Date(),
           createdBySource: 'payment',
+          importRunId: opts.importRunId,
         }], { session });
         await PaymentAllocation.create([{
           studentId: student._id,
@@ -414,6 +858,7 @@ export async function processPayment(
           amount: creditApplied,
           allocationType: 'credit',
           allocatedBy: new Types.ObjectId(adminUserId),
+          importRunId: opts.importRunId,
         }], { session });
         creditUsed += creditApplied;
       }
@@ -427,6 +872,7 @@ export async function processPayment(
           amount: cashApplied,
           allocationType: 'payment',
           allocatedBy: new Types.ObjectId(adminUserId),
+          importRunId: opts.importRunId,
         }], { session });
       }
 
@@ -435,6 +881,14 @@ export async function processPayment(
       applied.push({ month: invoice.invoiceMonth, feeRecordId: invoice._id.toString(), amountApplied: totalApplied });
     }
 
+    for (const fee of avoidableFees) {
+      const tuition = invoices.find((inv) => inv._id.equals(fee.penaltyForInvoiceId));
+      if (!tuition || tuition.amount - tuition.allocatedAmount - tuition.waivedAmount > 0) continue;
+      if (fee.allocatedAmount > 0 || fee.waivedAmount > 0) continue;
+      markVoid(fee, `Late fee avoided: tuition paid on ${dateOnlyUTC(paymentDate).toISOString().slice(0, 10)}`, adminUserId);
+      await fee.save({ session });
+    }
+
     // Credit decrements already happened per-invoice via findOneAndUpdate above
     // (each reads back the authoritative balance). finalCreditBalance tracks it.
     let creditAdded = 0;
@@ -460,10 +914,17 @@ export async function processPayment(
         processedBy: new Types.ObjectId(adminUserId),
         processedAt: opts.paymentDate ?? new Date(),
         createdBySource: opts.createdBySource === 'import' ? 'import' : 'payment',
+        importRunId: opts.importRunId,
       }], { session });
     }
 
-    await session.commitTransaction();
+    // Last, so the shared receipt counter is held as briefly as possible.
+    await PaymentTransaction.updateOne(
+      { _id: payment[0]._id },
+      { $set: { receiptNumber: await nextReceiptNumber(paymentDate, session) } },
+      { session },
+    );
+
     return {
       applied,
       creditUsed,
@@ -471,12 +932,92 @@ export async function processPayment(
       remainingCredit: finalCreditBalance,
       paymentTransactionId: payment[0]._id.toString(),
     };
-  } catch (error) {
-    await session.abortTransaction();
-    throw error;
-  } finally {
-    session.endSession();
-  }
+  };
+
+  if (opts.session) return work(opts.session);
+  return inPaymentTransaction(work);
+}
+
+/**
+ * Record one payment from a family and split it across the siblings' open
+ * invoices, oldest due date first whichever child the invoice belongs to.
+ *
+ * Each child's share is recorded by processPayment as its own
+ * PaymentTransaction (with its own receipt), all linked by one
+ * familyPaymentId, so per-student ledgers and reversals work unchanged. A
+ * child's existing credit is used before the family's cash, exactly as
+ * processPayment would. Anything left once every invoice is settled is stored
+ * as credit on creditStudentId (default: the earliest-enrolled sibling).
+ */
+export async function processFamilyPayment(
+  familyId: string,
+  amount: number,
+  paymentMethod: PaymentMethod,
+  adminUserId: string,
+  transactionId?: string,
+  opts: {
+    paymentDate?: Date;
+    idempotencyKey?: string;
+    remarks?: string;
+    creditStudentId?: string;
+  } = {},
+): Promise<FamilyPaymentResult> {
+  if (amount <= 0) throw new Error('Payment amount must be greater than zero');
+
+  return inPaymentTransaction(async (session) => {
+    const family = await Family.findById(familyId).session(session);
+    if (!family) throw new ApiError('Family not found', 404, 'NOT_FOUND');
+    const members = await StudentV2.find({ familyId: family._id })
+      .sort({ enrollmentDate: 1, createdAt: 1 })
+      .session(session);
+    if (members.length === 0) throw new Error('Family has no students');
+    const creditTarget = opts.creditStudentId
+      ? members.find((m) => m._id.toString() === opts.creditStudentId)
+      : members[0];
+    if (!creditTarget) throw new Error('creditStudentId is not a member of this family');
+
+    // Work out each child's share by walking the family's invoices in the
+    // order processPayment will settle them.
+    const invoices = await Invoice.find({ studentId: { $in: members.map((m) => m._id) }, isVoid: false })
+      .sort({ dueDate: 1, invoiceMonth: 1 })
+      .session(session);
+    const creditLeft = new Map(members.map((m) => [m._id.toString(), m.creditBalance]));
+    const shares = new Map<string, number>();
+    let remaining = amount;
+    for (const invoice of invoices) {
+      if (remaining <= 0) break;
+      const key = invoice.studentId.toString();
+      const balance = Math.max(0, invoice.amount - invoice.allocatedAmount - invoice.waivedAmount);
+      const credit = Math.min(creditLeft.get(key) ?? 0, balance);
+      creditLeft.set(key, (creditLeft.get(key) ?? 0) - credit);
+      const cash = Math.min(remaining, balance - credit);
+      if (cash <= 0) continue;
+      shares.set(key, (shares.get(key) ?? 0) + cash);
+      remaining -= cash;
+    }
+    if (remaining > 0) {
+      const key = creditTarget._id.toString();
+      shares.set(key, (shares.get(key) ?? 0) + remaining);
+    }
+
+    const familyPaymentId = new Types.ObjectId();
+    const results: FamilyPaymentShare[] = [];
+    for (const member of members) {
+      const key = member._id.toString();
+      const share = shares.get(key);
+      if (!share) continue;
+      const result = await processPayment(key, share, [], paymentMethod, adminUserId, transactionId, {
+        paymentDate: opts.paymentDate,
+        idempotencyKey: opts.idempotencyKey ? `${opts.idempotencyKey}:${key}` : undefined,
+        remarks: opts.remarks,
+        family: { familyId: family._id as Types.ObjectId, familyPaymentId },
+        session,
+      });
+      results.push({ studentId: key, studentName: member.studentName, amount: share, ...result });
+    }
+
+    return { familyPaymentId: familyPaymentId.toString(), amount, shares: results };
+  });
 }
 
 /**
@@ -687,6 +1228,24 @@ export async function editPaymentMetadata(
   }
 }
 
+/**
+ * Number a payment recorded before receipts were introduced (used by the
+ * 004_receipt_numbers migration). Late numbers are taken from the payment
+ * date's financial year like any other; an already numbered payment is left
+ * as it is.
+ */
+export async function assignMissingReceiptNumber(paymentTransactionId: string): Promise<IPaymentTransaction> {
+  return inPaymentTransaction(async (session) => {
+    const payment = await PaymentTransaction.findById(paymentTransactionId).session(session);
+    if (!payment) throw new ApiError('Payment not found', 404, 'NOT_FOUND');
+    if (!payment.receiptNumber) {
+      payment.receiptNumber = await nextReceiptNumber(payment.paymentDate, session);
+      await payment.save({ session });
+    }
+    return payment;
+  });
+}
+
 export async function waiveInvoice(
   invoiceId: string,
   waivedAmount: number,
@@ -776,10 +1335,18 @@ export async function voidInvoice(invoiceId: string, reason: string, adminUserId
     if (invoice.waivedAmount > 0) {
       throw new Error('Cannot void invoice with existing waivers — reverse the waiver first');
     }
-    invoice.isVoid = true;
-    invoice.voidReason = reason;
-    invoice.voidedBy = new Types.ObjectId(adminUserId);
-    invoice.voidedAt = new Date();
+    // Voiding tuition removes the basis for its late fee, so the fee goes too.
+    if (invoice.kind !== 'late_fee') {
+      const lateFees = await Invoice.find({ kind: 'late_fee', isVoid: false, penaltyForInvoiceId: invoice._id }).session(session);
+      for (const fee of lateFees) {
+        if (fee.allocatedAmount > 0 || fee.waivedAmount > 0) {
+          throw new Error('Cannot void invoice while its late fee has payments or waivers — reverse those first');
+        }
+        markVoid(fee, `Tuition invoice voided: ${reason}`, adminUserId);
+        await fee.save({ session });
+      }
+    }
+    markVoid(invoice, reason, adminUserId);
     await invoice.save({ session });
     await session.commitTransaction();
     return invoice;
@@ -804,12 +1371,12 @@ export async function addCredit(
     remarks?: string;
     processedAt?: Date;
     createdBySource?: 'manual' | 'import' | 'payment';
+    /** Import run recording the credit; the payment and ledger entry are tagged with it. */
+    importRunId?: Types.ObjectId;
   } = {},
 ): Promise<{ paymentTransactionId: string; creditBalance: number }> {
   if (amount <= 0) throw new Error('Credit amount must be greater than zero');
-  const session = await mongoose.startSession();
-  session.startTransaction();
-  try {
+  return inPaymentTransaction(async (session) => {
     // Duplicate-submission guard — same mechanism as processPayment (H5).
     if (opts.idempotencyKey) {
       const duplicate = await PaymentTransaction.findOne({ idempotencyKey: opts.idempotencyKey }).session(session);
@@ -837,6 +1404,7 @@ export async function addCredit(
       remarks: opts.remarks,
       processedBy: new Types.ObjectId(adminUserId),
       createdBySource: opts.createdBySource === 'import' ? 'import' : 'manual',
+      importRunId: opts.importRunId,
     }], { session });
 
     // Increment atomically and read back the authoritative balance so the
@@ -859,18 +1427,55 @@ export async function addCredit(
       processedBy: new Types.ObjectId(adminUserId),
       processedAt: paymentDate,
       createdBySource: opts.createdBySource ?? 'manual',
+      importRunId: opts.importRunId,
     }], { session });
-    await session.commitTransaction();
+    await PaymentTransaction.updateOne(
+      { _id: payment[0]._id },
+      { $set: { receiptNumber: await nextReceiptNumber(paymentDate, session) } },
+      { session },
+    );
     return { paymentTransactionId: payment[0]._id.toString(), creditBalance: afterInc?.creditBalance ?? 0 };
-  } catch (error) {
-    await session.abortTransaction();
-    throw error;
-  } finally {
-    session.endSession();
+  });
+}
+
+type SiblingPricing = Pick<IEnrollment, 'monthlyFee' | 'discountType' | 'discountPct' | 'discountAmount' | 'discountReason'>;
+
+/**
+ * The family's sibling discount applied to grossFee, or null when it does not
+ * apply: the rule is off, or no other member is currently enrolled (so this
+ * is the first child).
+ */
+async function siblingPricing(family: IFamily, grossFee: number, session: ClientSession): Promise<SiblingPricing | null> {
+  const rule = family.siblingDiscount;
+  if (!rule?.enabled || !(rule.value > 0)) return null;
+  const enrolledSiblings = await StudentV2.countDocuments({
+    familyId: family._id,
+    isActive: true,
+    currentEnrollmentId: { $ne: null },
+  }).session(session);
+  if (enrolledSiblings === 0) return null;
+
+  const reason = rule.reason || 'Sibling discount';
+  if (rule.type === 'percentage') {
+    const pct = Math.min(100, rule.value);
+    return {
+      monthlyFee: Math.round(grossFee * (1 - pct / 100)),
+      discountType: 'percentage',
+      discountPct: pct,
+      discountAmount: 0,
+      discountReason: reason,
+    };
   }
+  return {
+    monthlyFee: Math.max(0, grossFee - rule.value),
+    discountType: 'fixed',
+    discountPct: 0,
+    discountAmount: rule.value,
+    discountReason: reason,
+  };
 }
 
-export async function createStudentWithEnrollment(params: {
+type NewStudentParams = {
   student: Record<string, unknown>;
   courseId: string;
   stageNumber: number;
@@ -883,19 +1488,73 @@ export async function createStudentWithEnrollment(params: {
   discountAmount?: number;
   discountReason?: string;
   feeOverridden?: boolean;  // true when monthlyFee ≠ grossFee with no discount
+  familyId?: string | null; // sibling: shares the family's contacts and sibling discount
   startDate: Date;
   createdBy: string;
   session?: ClientSession;
-}) {
+};
+
+/** The new student's own fields (with any family contacts) and the pricing of their first enrollment. */
+async function newStudentProfile(params: NewStudentParams, session: ClientSession) {
+  let pricing: SiblingPricing = {
+    monthlyFee: params.monthlyFee,
+    discountType: params.discountType ?? 'none',
+    discountPct: params.discountPct ?? 0,
+    discountAmount: params.discountAmount ?? 0,
+    discountReason: params.discountReason ?? '',
+  };
+  let familyContacts: Record<string, unknown> = {};
+  if (params.familyId) {
+    const family = await Family.findById(params.familyId).session(session);
+    if (!family) throw new ApiError('Family not found', 404, 'NOT_FOUND');
+    familyContacts = {
+      familyId: family._id,
+      parentName: family.guardianName,
+      phone: family.phone,
+      email: family.email,
+      alternatePhone: family.alternatePhone,
+      address: family.address,
+    };
+    // The sibling rule only fills in for admins who priced the enrollment
+    // at the plain course fee.
+    if (pricing.discountType === 'none' && !params.feeOverridden) {
+      pricing = (await siblingPricing(family, params.grossFee, session)) ?? pricing;
+    }
+  }
+  const studentFields = Object.fromEntries(
+    Object.entries(params.student).filter(([, v]) => v !== undefined && v !== null && v !== ''),
+  );
+  return { pricing, fields: { ...familyContacts, ...studentFields } };
+}
+
+async function inSession<T>(session: ClientSession | undefined, work: (session: ClientSession) => Promise<T>): Promise<T> {
+  if (session) return work(session);
+
+  const own = await mongoose.startSession();
+  own.startTransaction();
+  try {
+    const result = await work(own);
+    await own.commitTransaction();
+    return result;
+  } catch (error) {
+    await own.abortTransaction();
+    throw error;
+  } finally {
+    own.endSession();
+  }
+}
+
+export async function createStudentWithEnrollment(params: NewStudentParams) {
   const work = async (session: ClientSession) => {
     await assertCourseLevel(params.courseId, params.stageNumber, params.levelNumber, session);
     if (params.batchId) {
       await validateBatch(params.batchId, params.courseId, params.stageNumber, params.levelNumber, session);
       await reserveBatchSeat(params.batchId, session);
     }
+    const { pricing, fields } = await newStudentProfile(params, session);
 
     const [student] = await StudentV2.create([{
-      ...params.student,
+      ...fields,
       enrollmentDate: params.startDate,
       courseId: new Types.ObjectId(params.courseId),
       stageNumber: params.stageNumber,
@@ -912,11 +1571,7 @@ export async function createStudentWithEnrollment(params: {
       stageNumber: params.stageNumber,
       levelNumber: params.levelNumber,
       grossFee: params.grossFee,
-      monthlyFee: params.monthlyFee,
-      discountType: params.discountType ?? 'none',
-      discountPct: params.discountPct ?? 0,
-      discountAmount: params.discountAmount ?? 0,
-      discountReason: params.discountReason ?? '',
+      ...pricing,
       feeOverridden: params.feeOverridden ?? false,
       startDate: params.startDate,
       endDate: null,
@@ -929,14 +1584,109 @@ export async function createStudentWithEnrollment(params: {
     return { student, enrollment };
   };
 
-  if (params.session) return work(params.session);
+  return inSession(params.session, work);
+}
 
+/**
+ * Create a student who wants a seat in a full batch: no enrollment yet, just
+ * a place at the back of the batch's waitlist holding the fee they will be
+ * enrolled at when promoted. The student stays inactive (and unbilled) until
+ * then.
+ */
+export async function createStudentOnWaitlist(params: NewStudentParams & { batchId: string; note?: string }) {
+  return inSession(params.session, async (session) => {
+    await assertCourseLevel(params.courseId, params.stageNumber, params.levelNumber, session);
+    await validateBatch(params.batchId, params.courseId, params.stageNumber, params.levelNumber, session, false);
+    const { pricing, fields } = await newStudentProfile(params, session);
+
+    const [student] = await StudentV2.create([{
+      ...fields,
+      enrollmentDate: params.startDate,
+      isActive: false,
+      creditBalance: 0,
+    }], { session });
+    const [waitlistEntry] = await BatchWaitlistEntry.create([{
+      batchId: new Types.ObjectId(params.batchId),
+      studentId: student._id,
+      studentName: student.studentName,
+      fee: { grossFee: params.grossFee, ...pricing, feeOverridden: params.feeOverridden ?? false },
+      note: params.note,
+      addedBy: new Types.ObjectId(params.createdBy),
+    }], { session });
+    return { student, waitlistEntry, position: await waitlistPosition(waitlistEntry, session) };
+  });
+}
+
+/** 1-based place of a waiting entry in its batch's queue. */
+export async function waitlistPosition(entry: IBatchWaitlistEntry, session: ClientSession | null = null): Promise<number> {
+  const ahead = await BatchWaitlistEntry.countDocuments({
+    batchId: entry.batchId,
+    status: 'waiting',
+    createdAt: { $lt: entry.createdAt },
+  }).session(session);
+  return ahead + 1;
+}
+
+/**
+ * Enrol an existing student in another course alongside the ones they already
+ * attend. The new enrollment has its own batch, fee and invoices; the
+ * student's denormalised course fields only move to it when they had no
+ * active enrollment.
+ */
+export async function addCourseEnrollment(params: {
+  studentId: string;
+  courseId: string;
+  stageNumber: number;
+  levelNumber: number;
+  batchId?: string | null;
+  monthlyFee: number;       // effective fee (after discount) — caller must compute
+  grossFee: number;         // fee from course level before discount
+  discountType?: 'none' | 'percentage' | 'fixed';
+  discountPct?: number;
+  discountAmount?: number;
+  discountReason?: string;
+  feeOverridden?: boolean;
+  startDate: Date;
+  createdBy: string;
+}): Promise<IEnrollment> {
   const session = await mongoose.startSession();
   session.startTransaction();
   try {
-    const result = await work(session);
+    const student = await StudentV2.findById(params.studentId).session(session);
+    if (!student) throw new ApiError('Student not found', 404, 'NOT_FOUND');
+    await assertCourseLevel(params.courseId, params.stageNumber, params.levelNumber, session);
+    const alreadyEnrolled = await Enrollment.exists({
+      studentId: student._id, courseId: new Types.ObjectId(params.courseId), endDate: null,
+    }).session(session);
+    if (alreadyEnrolled) throw new ApiError('Student is already enrolled in this course', 409, 'CONFLICT');
+    if (params.batchId) {
+      await validateBatch(params.batchId, params.courseId, params.stageNumber, params.levelNumber, session);
+      await reserveBatchSeat(params.batchId, session);
+    }
+
+    const [enrollment] = await Enrollment.create([{
+      studentId: student._id,
+      batchId: params.batchId ? new Types.ObjectId(params.batchId) : null,
+      courseId: new Types.ObjectId(params.courseId),
+      stageNumber: params.stageNumber,
+      levelNumber: params.levelNumber,
+      grossFee: params.grossFee,
+      monthlyFee: params.monthlyFee,
+      discountType: params.discountType ?? 'none',
+      discountPct: params.discountPct ?? 0,
+      discountAmount: params.discountAmount ?? 0,
+      discountReason: params.discountReason ?? '',
+      feeOverridden: params.feeOverridden ?? false,
+      startDate: params.startDate,
+      endDate: null,
+      endReason: null,
+      pausedUntil: null,
+      createdBy: new Types.ObjectId(params.createdBy),
+    }], { session });
+    await invoiceAlreadyBilledMonths(enrollment, [], params.createdBy, session);
+    await syncStudentEnrollment(params.studentId, session, enrollment);
     await session.commitTransaction();
-    return result;
+    return enrollment;
   } catch (error) {
     await session.abortTransaction();
     throw error;
@@ -961,6 +1711,7 @@ export async function upgradeStudentLevel(
   newDiscountAmount?: number,
   newFeeOverridden?: boolean,
   endReason: 'upgraded' | 'fee_change' = 'upgraded',
+  enrollmentId?: string | null,
 ): Promise<UpgradeResult | UpgradeError> {
   const session = await mongoose.startSession();
   session.startTransaction();
@@ -969,7 +1720,15 @@ export async function upgradeStudentLevel(
     if (!student) return { success: false, error: 'Student not found' };
     await assertCourseLevel(courseId, newStageNumber, newLevelNumber, session);
     if (newBatchId) await validateBatch(newBatchId, courseId, newStageNumber, newLevelNumber, session);
-    const current = await closeCurrentEnrollment(studentId, upgradeDate, endReason, session);
+    // Without an enrollmentId this moves the student's enrollment in courseId,
+    // or their only enrollment when switching to a course they are not in yet.
+    const current = await closeCurrentEnrollment(studentId, { enrollmentId, courseId }, upgradeDate, endReason, session);
+    if (current.courseId.toString() !== courseId) {
+      const alreadyEnrolled = await Enrollment.exists({
+        studentId: student._id, courseId: new Types.ObjectId(courseId), endDate: null,
+      }).session(session);
+      if (alreadyEnrolled) throw new ApiError('Student is already enrolled in this course', 409, 'CONFLICT');
+    }
 
     // For fee_change with no explicit batchId, carry the existing batch forward
     const resolvedBatchId = newBatchId !== undefined
@@ -1009,16 +1768,9 @@ export async function upgradeStudentLevel(
       pausedUntil: null,
       createdBy: new Types.ObjectId(adminUserId),
     }], { session });
-    await StudentV2.findByIdAndUpdate(studentId, {
-      $set: {
-        courseId: new Types.ObjectId(courseId),
-        stageNumber: newStageNumber,
-        levelNumber: newLevelNumber,
-        batchId: resolvedBatchId,
-        currentEnrollmentId: enrollment._id,
-        isActive: true,
-      },
-    }, { session });
+    const billedMonths = await reprorateClosedEnrollment(current, upgradeDate, adminUserId, session);
+    await invoiceAlreadyBilledMonths(enrollment, billedMonths, adminUserId, session);
+    await syncStudentEnrollment(studentId, session, enrollment);
     await session.commitTransaction();
     return { success: true, enrollment };
   } catch (error) {
@@ -1034,13 +1786,14 @@ export async function changeBatch(
   newBatchId: string | null,
   changeDate: Date,
   adminUserId: string,
+  enrollmentId?: string | null,
 ): Promise<UpgradeResult | UpgradeError> {
   const session = await mongoose.startSession();
   session.startTransaction();
   try {
     const student = await StudentV2.findById(studentId).session(session);
     if (!student) return { success: false, error: 'Student not found' };
-    const current = await closeCurrentEnrollment(studentId, changeDate, 'batch_change', session);
+    const current = await closeCurrentEnrollment(studentId, { enrollmentId }, changeDate, 'batch_change', session);
     if (newBatchId) {
       await validateBatch(newBatchId, current.courseId, current.stageNumber, current.levelNumber, session);
       await reserveBatchSeat(newBatchId, session);
@@ -1072,9 +1825,9 @@ export async function changeBatch(
       pausedUntil: null,
       createdBy: new Types.ObjectId(adminUserId),
     }], { session });
-    await StudentV2.findByIdAndUpdate(studentId, {
-      $set: { batchId: newBatchId ? new Types.ObjectId(newBatchId) : null, currentEnrollmentId: enrollment._id },
-    }, { session });
+    const billedMonths = await reprorateClosedEnrollment(current, changeDate, adminUserId, session);
+    await invoiceAlreadyBilledMonths(enrollment, billedMonths, adminUserId, session);
+    await syncStudentEnrollment(studentId, session, enrollment);
     await session.commitTransaction();
     return { success: true, enrollment };
   } catch (error) {
@@ -1085,17 +1838,23 @@ export async function changeBatch(
   }
 }
 
-export async function pauseEnrollment(studentId: string, pauseDate: Date, pausedUntil: Date, _adminUserId: string): Promise<void> {
+export async function pauseEnrollment(
+  studentId: string,
+  pauseDate: Date,
+  pausedUntil: Date,
+  adminUserId: string,
+  enrollmentId?: string | null,
+): Promise<void> {
   const session = await mongoose.startSession();
   session.startTransaction();
   try {
-    const paused = await closeCurrentEnrollment(studentId, pauseDate, 'paused', session, pausedUntil);
+    const paused = await closeCurrentEnrollment(studentId, { enrollmentId }, pauseDate, 'paused', session, pausedUntil);
+    await reprorateClosedEnrollment(paused, pauseDate, adminUserId, session);
     // Release the seat and clear the denormalized batchId so the paused student
-    // no longer counts against batch capacity (H4 fix).
+    // no longer counts against batch capacity (H4 fix). A student still
+    // attending another course stays active.
     await releaseBatchSeat(paused.batchId, session);
-    await StudentV2.findByIdAndUpdate(studentId, {
-      $set: { isActive: false, currentEnrollmentId: null, batchId: null },
-    }, { session });
+    await syncStudentEnrollment(studentId, session);
     await session.commitTransaction();
   } catch (error) {
     await session.abortTransaction();
@@ -1105,24 +1864,56 @@ export async function pauseEnrollment(studentId: string, pauseDate: Date, paused
   }
 }
 
-export async function resumeEnrollment(studentId: string, resumeDate: Date, adminUserId: string): Promise<IEnrollment> {
+/**
+ * Reopen the student's latest paused enrollment (or the paused enrollment
+ * given as enrollmentId) from resumeDate. The seat in
+ * the paused batch is reserved again; with fallbackToNoBatch a batch that has
+ * since filled up or stopped being active is dropped instead of failing the
+ * resume, and the student comes back without a batch.
+ */
+export async function resumeEnrollment(
+  studentId: string,
+  resumeDate: Date,
+  adminUserId: string,
+  options: { fallbackToNoBatch?: boolean; enrollmentId?: string | null } = {},
+): Promise<IEnrollment> {
   const session = await mongoose.startSession();
   session.startTransaction();
   try {
-    const paused = await Enrollment.findOne({ studentId: new Types.ObjectId(studentId), endReason: 'paused' })
+    if (options.enrollmentId && !Types.ObjectId.isValid(options.enrollmentId)) {
+      throw new ApiError('Invalid enrollment ID', 400, 'VALIDATION_ERROR');
+    }
+    const paused = await Enrollment.findOne({
+      studentId: new Types.ObjectId(studentId),
+      endReason: 'paused',
+      ...(options.enrollmentId ? { _id: new Types.ObjectId(options.enrollmentId) } : {}),
+    })
       .sort({ endDate: -1 })
       .session(session);
     if (!paused) throw new Error('No paused enrollment found for student');
-    const active = await Enrollment.findOne({ studentId: new Types.ObjectId(studentId), endDate: null }).session(session);
-    if (active) throw new Error('Student already has an active enrollment');
+    const active = await Enrollment.findOne({
+      studentId: new Types.ObjectId(studentId), courseId: paused.courseId, endDate: null,
+    }).session(session);
+    if (active) throw new Error('Student already has an active enrollment in this course');
     // Reserve the seat in the batch being resumed into (paired with the release
     // done at pause time). Student.batchId is restored below (H4 fix).
-    if (paused.batchId) {
-      await reserveBatchSeat(paused.batchId, session);
+    let batchId = paused.batchId ?? null;
+    if (batchId) {
+      const batch = await Batch.findById(batchId).select('status').session(session);
+      if (options.fallbackToNoBatch && batch?.status !== 'active') {
+        batchId = null;
+      } else {
+        try {
+          await reserveBatchSeat(batchId, session);
+        } catch (error) {
+          if (!options.fallbackToNoBatch) throw error;
+          batchId = null;
+        }
+      }
     }
     const [enrollment] = await Enrollment.create([{
       studentId: paused.studentId,
-      batchId: paused.batchId,
+      batchId,
       courseId: paused.courseId,
       stageNumber: paused.stageNumber,
       levelNumber: paused.levelNumber,
@@ -1141,16 +1932,8 @@ export async function resumeEnrollment(studentId: string, resumeDate: Date, admi
       pausedUntil: null,
       createdBy: new Types.ObjectId(adminUserId),
     }], { session });
-    await StudentV2.findByIdAndUpdate(studentId, {
-      $set: {
-        isActive: true,
-        currentEnrollmentId: enrollment._id,
-        courseId: enrollment.courseId,
-        stageNumber: enrollment.stageNumber,
-        levelNumber: enrollment.levelNumber,
-        batchId: enrollment.batchId,
-      },
-    }, { session });
+    await invoiceAlreadyBilledMonths(enrollment, [], adminUserId, session);
+    await syncStudentEnrollment(studentId, session, enrollment);
     await session.commitTransaction();
     return enrollment;
   } catch (error) {
@@ -1161,16 +1944,21 @@ export async function resumeEnrollment(studentId: string, resumeDate: Date, admi
   }
 }
 
-export async function leaveEnrollment(studentId: string, leaveDate: Date, _adminUserId: string): Promise<void> {
+export async function leaveEnrollment(
+  studentId: string,
+  leaveDate: Date,
+  adminUserId: string,
+  enrollmentId?: string | null,
+): Promise<void> {
   const session = await mongoose.startSession();
   session.startTransaction();
   try {
-    const left = await closeCurrentEnrollment(studentId, leaveDate, 'left', session);
-    // Release the seat and clear the denormalized batchId (H4 fix).
+    const left = await closeCurrentEnrollment(studentId, { enrollmentId }, leaveDate, 'left', session);
+    await reprorateClosedEnrollment(left, leaveDate, adminUserId, session);
+    // Release the seat and clear the denormalized batchId (H4 fix); the
+    // student stays active while enrolled in another course.
     await releaseBatchSeat(left.batchId, session);
-    await StudentV2.findByIdAndUpdate(studentId, {
-      $set: { isActive: false, currentEnrollmentId: null, batchId: null },
-    }, { session });
+    await syncStudentEnrollment(studentId, session);
     await session.commitTransaction();
   } catch (error) {
     await session.abortTransaction();
@@ -0,0 +1,201 @@
+import { Types } from 'mongoose';
+import ImportProfile, {
+  IImportLevelCode,
+  IImportPaymentColumns,
+  IImportProfile,
+  IMPORT_DATE_FORMATS,
+  IMPORT_PROFILE_FIELDS,
+  ImportDateFormat,
+  ImportProfileField,
+} from '../../models/v2/ImportProfile.js';
+import { ApiError } from '../../utils/errors.js';
+
+/** The original chess workbook layout; created as the default profile. */
+export const CHESS_IMPORT_PROFILE: {
+  name: string;
+  description: string;
+  columns: Record<ImportProfileField, string[]>;
+  levelCodes: IImportLevelCode[];
+  dateFormat: ImportDateFormat;
+  paymentColumns: IImportPaymentColumns;
+} = {
+  name: 'Chess (default)',
+  description: 'Chess student workbook: levels B1–A3, day/month/year dates, repeated payment columns.',
+  columns: {
+    studentCode: ['Student Code', 'Student ID'],
+    name: ['Name', 'Student Name'],
+    phone: ['Contact Number', 'Phone', 'Mobile'],
+    email: ['E-mail', 'Email'],
+    status: ['Status'],
+    studentStartDate: ['Student Start Date'],
+    level: ['Level'],
+    duration: ['Duration'],
+    batch: ['Batch'],
+    timing: ['Timing'],
+    batchStartDate: ['Batch Start Date'],
+  },
+  levelCodes: [
+    { code: 'B', courseName: 'chess', stageNumber: 1, stageName: 'Beginner', levelFees: [2000, 2500, 2500] },
+    { code: 'I', courseName: 'chess', stageNumber: 2, stageName: 'Intermediate', levelFees: [3000, 3500, 3500] },
+    { code: 'A', courseName: 'chess', stageNumber: 3, stageName: 'Advanced', levelFees: [4000, 4500, 4500] },
+  ],
+  dateFormat: 'DMY',
+  paymentColumns: { dueDate: 'Payment Due date', status: 'Payment Status', paidDate: 'Payment date' },
+};
+
+type ProfileInput = Partial<Pick<IImportProfile, 'name' | 'description' | 'isDefault' | 'columns' | 'levelCodes' | 'dateFormat' | 'paymentColumns'>>;
+
+function validProfileId(profileId: string): Types.ObjectId {
+  if (!Types.ObjectId.isValid(profileId)) throw new ApiError('Invalid import profile ID', 400, 'VALIDATION_ERROR');
+  return new Types.ObjectId(profileId);
+}
+
+function invalid(message: string): never {
+  throw new ApiError(message, 400, 'VALIDATION_ERROR');
+}
+
+function headerList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) invalid(`columns.${field} must be a list of header names`);
+  return Array.from(new Set(value.map((v) => v.trim()).filter(Boolean)));
+}
+
+function parseColumns(value: unknown): Record<ImportProfileField, string[]> {
+  if (!value || typeof value !== 'object') invalid('columns is required');
+  const source = value as Record<string, unknown>;
+  const columns = Object.fromEntries(
+    IMPORT_PROFILE_FIELDS.map((field) => [field, headerList(source[field], field)]),
+  ) as Record<ImportProfileField, string[]>;
+  if (columns.name.length === 0) invalid('columns.name needs at least one header');
+  if (columns.level.length === 0) invalid('columns.level needs at least one header');
+  if (columns.phone.length === 0 && columns.email.length === 0) invalid('columns.phone or columns.email needs at least one header');
+  return columns;
+}
+
+function parseLevelCodes(value: unknown): IImportLevelCode[] {
+  if (!Array.isArray(value) || value.length === 0) invalid('levelCodes needs at least one level code');
+  const seen = new Set<string>();
+  return value.map((entry: any, index: number) => {
+    const code = String(entry?.code ?? '').trim().toUpperCase();
+    if (!/^[A-Z]+$/.test(code)) invalid(`levelCodes[${index}].code must be letters only (the level number follows it)`);
+    if (seen.has(code)) invalid(`Level code ${code} is listed twice`);
+    seen.add(code);
+    const courseName = String(entry?.courseName ?? '').trim().toLowerCase();
+    if (!courseName) invalid(`levelCodes[${index}].courseName is required`);
+    const stageNumber = Number(entry?.stageNumber);
+    if (!Number.isInteger(stageNumber) || stageNumber < 1) invalid(`levelCodes[${index}].stageNumber must be a positive whole number`);
+    const stageName = String(entry?.stageName ?? '').trim();
+    if (!stageName) invalid(`levelCodes[${index}].stageName is required`);
+    const fees = entry?.levelFees ?? [];
+    if (!Array.isArray(fees) || fees.some((fee) => !Number.isFinite(Number(fee)) || Number(fee) < 0)) {
+      invalid(`levelCodes[${index}].levelFees must be a list of non-negative amounts`);
+    }
+    return { code, courseName, stageNumber, stageName, levelFees: fees.map(Number) };
+  });
+}
+
+function parsePaymentColumns(value: unknown): IImportPaymentColumns {
+  const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const columns = {
+    dueDate: String(source.dueDate ?? '').trim(),
+    status: String(source.status ?? '').trim(),
+    paidDate: String(source.paidDate ?? '').trim(),
+  };
+  if (!columns.paidDate && (columns.dueDate || columns.status)) invalid('paymentColumns.paidDate is required when payment columns are set');
+  return columns;
+}
+
+/** Validate a create (all fields) or update (only fields present) body. */
+function parseProfileInput(body: any, partial: boolean): ProfileInput {
+  const input: ProfileInput = {};
+  if (!partial || body?.name !== undefined) {
+    input.name = String(body?.name ?? '').trim();
+    if (!input.name) invalid('name is required');
+  }
+  if (body?.description !== undefined) input.description = String(body.description ?? '').trim() || undefined;
+  if (body?.isDefault !== undefined) input.isDefault = Boolean(body.isDefault);
+  if (!partial || body?.columns !== undefined) input.columns = parseColumns(body?.columns);
+  if (!partial || body?.levelCodes !== undefined) input.levelCodes = parseLevelCodes(body?.levelCodes);
+  if (body?.dateFormat !== undefined) {
+    if (!IMPORT_DATE_FORMATS.includes(body.dateFormat)) invalid(`dateFormat must be one of ${IMPORT_DATE_FORMATS.join(', ')}`);
+    input.dateFormat = body.dateFormat;
+  }
+  if (!partial || body?.paymentColumns !== undefined) input.paymentColumns = parsePaymentColumns(body?.paymentColumns);
+  return input;
+}
+
+async function assertNameFree(name: string, exceptId?: Types.ObjectId) {
+  const filter = exceptId ? { name, _id: { $ne: exceptId } } : { name };
+  if (await ImportProfile.exists(filter)) throw new ApiError('An import profile with this name already exists', 409, 'CONFLICT');
+}
+
+/** The default profile, creating the chess layout as the default if there is none. */
+export async function ensureDefaultImportProfile(adminUserId: string): Promise<IImportProfile> {
+  const existing = await ImportProfile.findOne({ isDefault: true });
+  if (existing) return existing;
+  const chess = await ImportProfile.findOneAndUpdate(
+    { name: CHESS_IMPORT_PROFILE.name },
+    {
+      $set: { isDefault: true },
+      $setOnInsert: {
+        description: CHESS_IMPORT_PROFILE.description,
+        columns: CHESS_IMPORT_PROFILE.columns,
+        levelCodes: CHESS_IMPORT_PROFILE.levelCodes,
+        dateFormat: CHESS_IMPORT_PROFILE.dateFormat,
+        paymentColumns: CHESS_IMPORT_PROFILE.paymentColumns,
+        createdBy: new Types.ObjectId(adminUserId),
+      },
+    },
+    { upsert: true, new: true },
+  );
+  return chess!;
+}
+
+/** The named profile, or the default when no ID is given. */
+export async function resolveImportProfile(profileId: string | undefined, adminUserId: string): Promise<IImportProfile> {
+  if (!profileId) return ensureDefaultImportProfile(adminUserId);
+  const profile = await ImportProfile.findById(validProfileId(profileId));
+  if (!profile) throw new ApiError('Import profile not found', 404, 'NOT_FOUND');
+  return profile;
+}
+
+/** All profiles, the default first. */
+export async function listImportProfiles(adminUserId: string) {
+  await ensureDefaultImportProfile(adminUserId);
+  return ImportProfile.find().sort({ isDefault: -1, name: 1 });
+}
+
+export async function createImportProfile(body: any, adminUserId: string) {
+  const input = parseProfileInput(body, false);
+  await assertNameFree(input.name!);
+  if (input.isDefault) await ImportProfile.updateMany({ isDefault: true }, { $set: { isDefault: false } }, { timestamps: false });
+  return ImportProfile.create({ ...input, createdBy: new Types.ObjectId(adminUserId) });
+}
+
+export async function updateImportProfile(profileId: string, body: any, adminUserId: string) {
+  const profile = await ImportProfile.findById(validProfileId(profileId));
+  if (!profile) throw new ApiError('Import profile not found', 404, 'NOT_FOUND');
+  const input = parseProfileInput(body, true);
+  if (input.name !== undefined) await assertNameFree(input.name, profile._id as Types.ObjectId);
+  if (input.isDefault === false && profile.isDefault) {
+    throw new ApiError('Make another profile the default instead', 409, 'CONFLICT');
+  }
+  if (input.isDefault && !profile.isDefault) {
+    // Moving the default flag is not a mapping change: updatedAt is left alone
+    // so dry-runs made with the old default can still be applied.
+    await ImportProfile.updateMany({ isDefault: true }, { $set: { isDefault: false } }, { timestamps: false });
+  }
+  profile.set({ ...input, updatedBy: new Types.ObjectId(adminUserId) });
+  await profile.save();
+  return profile;
+}
+
+// Dry-runs made with a deleted profile can no longer be applied; the
+// workbook has to be uploaded again with another profile.
+export async function deleteImportProfile(profileId: string) {
+  const profile = await ImportProfile.findById(validProfileId(profileId));
+  if (!profile) throw new ApiError('Import profile not found', 404, 'NOT_FOUND');
+  if (profile.isDefault) throw new ApiError('The default profile cannot be deleted', 409, 'CONFLICT');
+  await profile.deleteOne();
+  return profile;
+}
@@ -0,0 +1,222 @@
+import mongoose, { Model, Types } from 'mongoose';
+import AttendanceRecord from '../../models/v2/AttendanceRecord.js';
+import Batch from '../../models/v2/Batch.js';
+import BatchWaitlistEntry from '../../models/v2/BatchWaitlist.js';
+import ClassSession from '../../models/v2/ClassSession.js';
+import CreditLedger from '../../models/v2/CreditLedger.js';
+import CreditRefund from '../../models/v2/CreditRefund.js';
+import Enrollment from '../../models/v2/Enrollment.js';
+import EnrollmentLifecycleEvent from '../../models/v2/EnrollmentLifecycleEvent.js';
+import ImportRun, { IImportRollback, IImportRun } from '../../models/v2/ImportRun.js';
+import Invoice from '../../models/v2/Invoice.js';
+import Lead from '../../models/v2/Lead.js';
+import MakeupCredit from '../../models/v2/MakeupCredit.js';
+import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
+import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
+import ReminderLog from '../../models/v2/ReminderLog.js';
+import Student from '../../models/v2/Student.js';
+import WaiverLedger from '../../models/v2/WaiverLedger.js';
+import { ApiError } from '../../utils/errors.js';
+import { releaseBatchSeat, reversePayment } from './feeService.js';
+
+/** Something recorded after the import that depends on what it created. */
+export interface RollbackBlocker {
+  code: 'lifecycle_changes' | 'student_records' | 'batch_records' | 'credit_spent';
+  message: string;
+  count: number;
+}
+
+export interface RollbackPlan {
+  importRunId: string;
+  counts: IImportRollback;
+  blockers: RollbackBlocker[];
+}
+
+// Collections whose records for an imported student, if not written by the
+// run itself, mean the student is in use.
+const STUDENT_DEPENDENTS: [Model<any>, string][] = [
+  [Enrollment, 'enrollments'],
+  [Invoice, 'invoices'],
+  [PaymentTransaction, 'payments'],
+  [PaymentAllocation, 'allocations'],
+  [CreditLedger, 'credit entries'],
+  [WaiverLedger, 'waivers'],
+  [CreditRefund, 'credit refunds'],
+  [AttendanceRecord, 'attendance records'],
+  [MakeupCredit, 'make-up credits'],
+  [BatchWaitlistEntry, 'waitlist entries'],
+  [ReminderLog, 'reminders'],
+  [EnrollmentLifecycleEvent, 'enrollment lifecycle events'],
+];
+
+// Records the run created that are changed in place rather than by adding a
+// record (an enrollment is ended by a pause, leave, upgrade or batch change;
+// an invoice is voided or corrected), so a later write means real history.
+const CHANGED_IN_PLACE: [Model<any>, string][] = [
+  [Enrollment, 'imported enrollment(s) paused, ended or moved'],
+  [Invoice, 'imported invoice(s) paid, voided or corrected'],
+];
+
+// The same for a batch the run created.
+const BATCH_DEPENDENTS: [Model<any>, string][] = [
+  [Student, 'students'],
+  [Enrollment, 'enrollments'],
+  [ClassSession, 'class sessions'],
+  [BatchWaitlistEntry, 'waitlist entries'],
+];
+
+function validRunId(runId: string): Types.ObjectId {
+  if (!Types.ObjectId.isValid(runId)) throw new ApiError('Invalid import run ID', 400, 'VALIDATION_ERROR');
+  return new Types.ObjectId(runId);
+}
+
+async function loadRollbackableRun(runId: string): Promise<IImportRun> {
+  const run = await ImportRun.findById(validRunId(runId));
+  if (!run) throw new ApiError('Import run not found', 404, 'NOT_FOUND');
+  if (run.mode !== 'apply') throw new ApiError('Only an applied import run can be rolled back', 409, 'CONFLICT');
+  if (run.status === 'running') throw new ApiError('This import is still running', 409, 'CONFLICT');
+  if (run.rolledBackAt) throw new ApiError('This import run has already been rolled back', 409, 'CONFLICT');
+  if (!run.recordsTagged) {
+    throw new ApiError('This run was applied before imports recorded what they created and cannot be rolled back', 409, 'CONFLICT');
+  }
+  return run;
+}
+
+/**
+ * What rolling back would remove, and what stands in the way. The run's own
+ * students (with their enrollments, invoices, payments and credit) and
+ * batches are removed; payments it recorded for students who already existed
+ * are reversed instead.
+ */
+async function buildPlan(run: IImportRun): Promise<RollbackPlan & { studentIds: Types.ObjectId[]; batchIds: Types.ObjectId[]; reversals: Types.ObjectId[] }> {
+  const importRunId = run._id as Types.ObjectId;
+  const studentIds = (await Student.find({ importRunId }).select('_id').lean()).map((s) => s._id as Types.ObjectId);
+  const batchIds = (await Batch.find({ importRunId }).select('_id').lean()).map((b) => b._id as Types.ObjectId);
+  const ownStudents = { importRunId, studentId: { $in: studentIds } };
+  const reversible = await PaymentTransaction.find({ importRunId, studentId: { $nin: studentIds }, isReversed: { $ne: true } })
+    .select('studentId');
+
+  const blockers: RollbackBlocker[] = [];
+  const lifecycleChanges = run.levelChanges + run.batchChanges;
+  if (lifecycleChanges > 0) {
+    blockers.push({
+      code: 'lifecycle_changes',
+      message: `${lifecycleChanges} level or batch change(s) to existing students cannot be undone automatically`,
+      count: lifecycleChanges,
+    });
+  }
+  if (studentIds.length > 0) {
+    for (const [model, label] of STUDENT_DEPENDENTS) {
+      const count = await model.countDocuments({ studentId: { $in: studentIds }, importRunId: { $ne: importRunId } });
+      if (count > 0) blockers.push({ code: 'student_records', message: `${count} ${label} recorded for imported students since the import`, count });
+    }
+    const convertedLeads = await Lead.countDocuments({ convertedStudentId: { $in: studentIds } });
+    if (convertedLeads > 0) {
+      blockers.push({ code: 'student_records', message: `${convertedLeads} lead(s) converted into imported students`, count: convertedLeads });
+    }
+  }
+  for (const [model, label] of CHANGED_IN_PLACE) {
+    const count = await model.countDocuments({ importRunId, updatedAt: { $gt: run.finishedAt ?? run.startedAt } });
+    if (count > 0) blockers.push({ code: 'student_records', message: `${count} ${label} since the import`, count });
+  }
+  if (batchIds.length > 0) {
+    for (const [model, label] of BATCH_DEPENDENTS) {
+      const count = await model.countDocuments({ batchId: { $in: batchIds }, importRunId: { $ne: importRunId } });
+      if (count > 0) blockers.push({ code: 'batch_records', message: `${count} ${label} in imported batches since the import`, count });
+    }
+  }
+  // reversePayment refuses to claw back excess credit that has been spent since.
+  let creditSpent = 0;
+  for (const payment of reversible) {
+    const added = await CreditLedger.find({ paymentTransactionId: payment._id, type: 'credit_added' }).select('amount').lean();
+    const creditAdded = added.reduce((sum, entry) => sum + entry.amount, 0);
+    if (creditAdded === 0) continue;
+    const student = await Student.findById(payment.studentId).select('creditBalance').lean();
+    if ((student?.creditBalance ?? 0) < creditAdded) creditSpent += 1;
+  }
+  if (creditSpent > 0) {
+    blockers.push({
+      code: 'credit_spent',
+      message: `${creditSpent} imported payment(s) to existing students left credit that has since been spent`,
+      count: creditSpent,
+    });
+  }
+
+  return {
+    importRunId: importRunId.toString(),
+    counts: {
+      students: studentIds.length,
+      batches: batchIds.length,
+      enrollments: await Enrollment.countDocuments({ importRunId }),
+      invoices: await Invoice.countDocuments({ importRunId }),
+      payments: await PaymentTransaction.countDocuments(ownStudents),
+      reversedPayments: reversible.length,
+      allocations: await PaymentAllocation.countDocuments(ownStudents),
+      creditEntries: await CreditLedger.countDocuments(ownStudents),
+    },
+    blockers,
+    studentIds,
+    batchIds,
+    reversals: reversible.map((p) => p._id as Types.ObjectId),
+  };
+}
+
+export async function planImportRollback(runId: string): Promise<RollbackPlan> {
+  const { importRunId, counts, blockers } = await buildPlan(await loadRollbackableRun(runId));
+  return { importRunId, counts, blockers };
+}
+
+/**
+ * Undo an applied import run. Refused while anything recorded since depends
+ * on what it created. Reversals go first, each in its own transaction, so a
+ * failed rollback can simply be run again; the removals then happen together.
+ */
+export async function rollbackImportRun(runId: string, adminUserId: string): Promise<RollbackPlan> {
+  const run = await loadRollbackableRun(runId);
+  const plan = await buildPlan(run);
+  if (plan.blockers.length > 0) {
+    throw new ApiError(`Cannot roll back: ${plan.blockers.map((b) => b.message).join('; ')}`, 409, 'CONFLICT');
+  }
+  const importRunId = run._id as Types.ObjectId;
+
+  for (const paymentId of plan.reversals) {
+    await reversePayment(paymentId.toString(), `Rollback of import ${run.fileName}`, adminUserId);
+    // Release the idempotency key so the same payment can be imported again.
+    await PaymentTransaction.updateOne({ _id: paymentId }, { $unset: { idempotencyKey: 1 } });
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const seated = await Enrollment.find({ importRunId, endDate: null, batchId: { $ne: null, $nin: plan.batchIds } })
+      .select('batchId')
+      .session(session);
+    for (const enrollment of seated) await releaseBatchSeat(enrollment.batchId, session);
+
+    const ownStudents = { importRunId, studentId: { $in: plan.studentIds } };
+    await CreditLedger.deleteMany(ownStudents, { session });
+    await PaymentAllocation.deleteMany(ownStudents, { session });
+    await PaymentTransaction.deleteMany(ownStudents, { session });
+    await Invoice.deleteMany({ importRunId }, { session });
+    await Enrollment.deleteMany({ importRunId }, { session });
+    // Through the driver: the models' cascade hooks run outside the session,
+    // and everything they would remove is already gone.
+    await Student.collection.deleteMany({ _id: { $in: plan.studentIds } }, { session });
+    await Batch.collection.deleteMany({ _id: { $in: plan.batchIds } }, { session });
+
+    const recorded = await ImportRun.updateOne(
+      { _id: importRunId, rolledBackAt: null },
+      { $set: { rolledBackAt: new Date(), rolledBackBy: new Types.ObjectId(adminUserId), rollback: plan.counts } },
+      { session },
+    );
+    if (recorded.modifiedCount === 0) throw new ApiError('This import run has already been rolled back', 409, 'CONFLICT');
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+
+  return { importRunId: plan.importRunId, counts: plan.counts, blockers: [] };
+}
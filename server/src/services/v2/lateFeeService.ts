@@ -0,0 +1,205 @@
+import mongoose, { Types } from 'mongoose';
+import Invoice, { IInvoice } from '../../models/v2/Invoice.js';
+import Course from '../../models/v2/Course.js';
+import { ApiError } from '../../utils/errors.js';
+import type { ILateFeePolicy } from '../../types/v2.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LateFeeOutcome {
+  invoiceId: Types.ObjectId;
+  studentId: Types.ObjectId;
+  studentName: string;
+  invoiceMonth: Date;
+  outcome: 'created' | 'would_create' | 'skipped' | 'failed';
+  code?: string;
+  message?: string;
+  penaltyInvoiceId?: Types.ObjectId;
+  amount?: number;
+}
+
+export interface LateFeeRunSummary {
+  mode: 'dry-run' | 'apply';
+  asOf: Date;
+  totalOverdue: number;
+  createdCount: number;
+  skippedCount: number;
+  failedCount: number;
+  totalAmount: number;
+  outcomes: LateFeeOutcome[];
+}
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/** Penalty for one invoice under a policy, in whole rupees (0 when the policy charges nothing). */
+export function computeLateFee(policy: ILateFeePolicy, invoiceAmount: number): number {
+  const raw = policy.type === 'percentage'
+    ? Math.round((invoiceAmount * policy.value) / 100)
+    : Math.round(policy.value);
+  const capped = policy.capPerInvoice !== null && policy.capPerInvoice !== undefined
+    ? Math.min(raw, policy.capPerInvoice)
+    : raw;
+  return Math.max(0, capped);
+}
+
+/**
+ * Charge late fees on tuition invoices still unpaid more than graceDays after
+ * their due date, as of the given date.
+ *
+ * Each tuition invoice is assessed at most once: an invoice that already has a
+ * late fee — live, waived or voided — is skipped, so re-running the job (or an
+ * admin voiding a fee by hand) never re-charges it. The fee is a separate
+ * Invoice (kind: 'late_fee') for the same month, due on the assessment date.
+ *
+ * Dry-run computes the same outcomes without writing, like runMonthlyBilling.
+ */
+export async function assessLateFees(params: {
+  asOf: Date;
+  apply: boolean;
+  adminUserId: string;
+}): Promise<LateFeeRunSummary> {
+  const asOf = dateOnlyUTC(params.asOf);
+  const summary: LateFeeRunSummary = {
+    mode: params.apply ? 'apply' : 'dry-run',
+    asOf,
+    totalOverdue: 0,
+    createdCount: 0,
+    skippedCount: 0,
+    failedCount: 0,
+    totalAmount: 0,
+    outcomes: [],
+  };
+
+  const overdue = await Invoice.find({
+    kind: { $ne: 'late_fee' },
+    isVoid: false,
+    dueDate: { $lt: asOf },
+    $expr: { $gt: [{ $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] }, 0] },
+  }).sort({ dueDate: 1 });
+  summary.totalOverdue = overdue.length;
+
+  const [courses, assessed] = await Promise.all([
+    Course.find({ _id: { $in: [...new Set(overdue.map((inv) => inv.courseId.toString()))] } })
+      .select('lateFeePolicy')
+      .lean(),
+    Invoice.distinct('penaltyForInvoiceId', {
+      kind: 'late_fee',
+      penaltyForInvoiceId: { $in: overdue.map((inv) => inv._id) },
+    }),
+  ]);
+  const policyByCourse = new Map(courses.map((c) => [c._id.toString(), c.lateFeePolicy]));
+  const assessedIds = new Set(assessed.map((id) => id.toString()));
+
+  for (const invoice of overdue) {
+    const base: LateFeeOutcome = {
+      invoiceId: invoice._id as Types.ObjectId,
+      studentId: invoice.studentId,
+      studentName: invoice.studentName,
+      invoiceMonth: invoice.invoiceMonth,
+      outcome: 'skipped',
+    };
+    const skip = (code: string, message: string) => {
+      summary.outcomes.push({ ...base, code, message });
+      summary.skippedCount += 1;
+    };
+
+    const policy = policyByCourse.get(invoice.courseId.toString());
+    if (!policy?.enabled) {
+      skip('no_policy', 'Course has no late-fee rule enabled');
+      continue;
+    }
+    const daysLate = Math.floor((asOf.getTime() - dateOnlyUTC(invoice.dueDate).getTime()) / DAY_MS);
+    if (daysLate <= policy.graceDays) {
+      skip('in_grace', `${daysLate} day(s) late, grace is ${policy.graceDays}`);
+      continue;
+    }
+    if (assessedIds.has(invoice._id.toString())) {
+      skip('already_assessed', 'Late fee already charged for this invoice');
+      continue;
+    }
+    const amount = computeLateFee(policy, invoice.amount);
+    if (!(amount > 0)) {
+      skip('zero_fee', 'Late-fee rule charges nothing for this invoice');
+      continue;
+    }
+
+    if (!params.apply) {
+      summary.outcomes.push({ ...base, outcome: 'would_create', amount });
+      summary.totalAmount += amount;
+      continue;
+    }
+
+    try {
+      const penalty = await createLateFeeInvoice(invoice, policy, amount, daysLate, asOf, params.adminUserId);
+      summary.outcomes.push({ ...base, outcome: 'created', penaltyInvoiceId: penalty._id as Types.ObjectId, amount });
+      summary.createdCount += 1;
+      summary.totalAmount += amount;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        skip('already_assessed', 'Late fee was created concurrently for this invoice');
+        continue;
+      }
+      if (error instanceof ApiError && error.errorCode === 'INVOICE_SETTLED') {
+        skip('settled', error.message);
+        continue;
+      }
+      summary.outcomes.push({ ...base, outcome: 'failed', code: 'late_fee_failed', message: error?.message ?? 'Late fee creation failed' });
+      summary.failedCount += 1;
+    }
+  }
+
+  return summary;
+}
+
+async function createLateFeeInvoice(
+  tuition: IInvoice,
+  policy: ILateFeePolicy,
+  amount: number,
+  daysLate: number,
+  asOf: Date,
+  adminUserId: string,
+): Promise<IInvoice> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    // Re-read inside the transaction: a payment may have landed since the scan.
+    const current = await Invoice.findById(tuition._id).session(session);
+    if (!current || current.isVoid || current.amount - current.allocatedAmount - current.waivedAmount <= 0) {
+      throw new ApiError('Tuition invoice was settled or voided before the late fee was charged', 409, 'INVOICE_SETTLED');
+    }
+    const [penalty] = await Invoice.create([{
+      studentId: current.studentId,
+      enrollmentId: current.enrollmentId,
+      studentName: current.studentName,
+      courseId: current.courseId,
+      stageNumber: current.stageNumber,
+      levelNumber: current.levelNumber,
+      invoiceMonth: current.invoiceMonth,
+      dueDate: asOf,
+      kind: 'late_fee',
+      penaltyForInvoiceId: current._id,
+      lateFee: {
+        type: policy.type,
+        value: policy.value,
+        graceDays: policy.graceDays,
+        capPerInvoice: policy.capPerInvoice ?? null,
+        daysLate,
+        assessedAt: asOf,
+      },
+      amount,
+      allocatedAmount: 0,
+      waivedAmount: 0,
+      createdBy: new Types.ObjectId(adminUserId),
+      createdBySource: 'billing',
+    }], { session });
+    await session.commitTransaction();
+    return penalty;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
@@ -0,0 +1,326 @@
+import { ClientSession, Types } from 'mongoose';
+import Lead, { ILead, LeadStatus } from '../../models/v2/Lead.js';
+import LeadActivity, { ILeadActivity, LeadActivityOutcome } from '../../models/v2/LeadActivity.js';
+import Course from '../../models/v2/Course.js';
+import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
+import { ApiError } from '../../utils/errors.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const OUTREACH_TYPES = ['call', 'message', 'visit'] as const;
+export const LEAD_ACTIVITY_OUTCOMES: LeadActivityOutcome[] = ['connected', 'no_answer', 'interested', 'call_back', 'not_interested'];
+
+/**
+ * Days from the activity to the lead's next follow-up, by outcome. A lead that
+ * did not pick up is retried the next day; one that is not interested gets no
+ * further follow-up (null clears it).
+ */
+export const FOLLOW_UP_AFTER_DAYS: Record<LeadActivityOutcome, number | null> = {
+  no_answer: 1,
+  call_back: 2,
+  interested: 3,
+  connected: 7,
+  not_interested: null,
+};
+
+const CLOSED_STATUSES: LeadStatus[] = ['converted', 'dropped'];
+
+type LoggedActivityType = 'note' | (typeof OUTREACH_TYPES)[number];
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/**
+ * Add a call, message, visit or note to a lead's timeline and reschedule its
+ * follow-up: to nextFollowUpDate when given (null clears it), otherwise by
+ * FOLLOW_UP_AFTER_DAYS for the outcome. Notes without a date leave the
+ * follow-up alone, as do converted and dropped leads.
+ */
+export async function logLeadActivity(
+  leadId: string,
+  input: {
+    type: LoggedActivityType;
+    outcome?: LeadActivityOutcome;
+    notes?: string;
+    occurredAt?: Date;
+    nextFollowUpDate?: Date | null;
+  },
+  authorId: string,
+): Promise<{ lead: ILead; activity: ILeadActivity }> {
+  const lead = await Lead.findById(leadId);
+  if (!lead) throw new ApiError('Lead not found', 404, 'NOT_FOUND');
+  const isOutreach = (OUTREACH_TYPES as readonly string[]).includes(input.type);
+  if (isOutreach && !input.outcome) {
+    throw new ApiError('outcome is required for calls, messages and visits', 400, 'VALIDATION_ERROR');
+  }
+  if (input.type === 'note' && !input.notes?.trim()) {
+    throw new ApiError('notes are required for a note', 400, 'VALIDATION_ERROR');
+  }
+
+  const occurredAt = input.occurredAt ?? new Date();
+  let followUp: Date | null | undefined;
+  if (!CLOSED_STATUSES.includes(lead.status)) {
+    if (input.nextFollowUpDate !== undefined) {
+      followUp = input.nextFollowUpDate ? dateOnlyUTC(input.nextFollowUpDate) : null;
+    } else if (isOutreach && input.outcome) {
+      const days = FOLLOW_UP_AFTER_DAYS[input.outcome];
+      followUp = days === null ? null : new Date(dateOnlyUTC(occurredAt).getTime() + days * DAY_MS);
+    }
+  }
+  if (followUp !== undefined) {
+    lead.set('followUpDate', followUp);
+    await lead.save();
+  }
+
+  const activity = await LeadActivity.create({
+    leadId: lead._id,
+    type: input.type,
+    outcome: isOutreach ? input.outcome : null,
+    notes: input.notes?.trim() || undefined,
+    nextFollowUpDate: followUp ?? null,
+    author: new Types.ObjectId(authorId),
+    occurredAt,
+  });
+  return { lead, activity };
+}
+
+export async function recordLeadStatusChange(
+  leadId: Types.ObjectId | string,
+  fromStatus: LeadStatus,
+  toStatus: LeadStatus,
+  authorId: string,
+  session?: ClientSession,
+): Promise<void> {
+  if (fromStatus === toStatus) return;
+  await LeadActivity.create([{
+    leadId: new Types.ObjectId(leadId.toString()),
+    type: 'status_change',
+    fromStatus,
+    toStatus,
+    author: new Types.ObjectId(authorId),
+  }], { session });
+}
+
+export async function recordLeadAssignment(
+  leadId: Types.ObjectId | string,
+  assignedTo: Types.ObjectId | string | null,
+  authorId: string,
+): Promise<void> {
+  await LeadActivity.create({
+    leadId: new Types.ObjectId(leadId.toString()),
+    type: 'assignment',
+    assignedTo: assignedTo ? new Types.ObjectId(assignedTo.toString()) : null,
+    author: new Types.ObjectId(authorId),
+  });
+}
+
+export async function listLeadActivities(leadId: string): Promise<ILeadActivity[]> {
+  return LeadActivity.find({ leadId: new Types.ObjectId(leadId) })
+    .populate('author', 'name email')
+    .populate('assignedTo', 'name email')
+    .sort({ occurredAt: -1, createdAt: -1 });
+}
+
+/**
+ * Open leads whose follow-up falls due: 'overdue' (before today), 'today', or
+ * 'all' (both). assignedTo narrows to one admin; null means unassigned. Each
+ * lead carries its most recent logged call/message/visit/note.
+ */
+export async function listFollowUps(params: {
+  due: 'today' | 'overdue' | 'all';
+  assignedTo?: string | null;
+  asOf?: Date;
+}) {
+  const today = dateOnlyUTC(params.asOf ?? new Date());
+  const tomorrow = new Date(today.getTime() + DAY_MS);
+  const filter: Record<string, unknown> = {
+    status: { $nin: CLOSED_STATUSES },
+    followUpDate: params.due === 'today'
+      ? { $gte: today, $lt: tomorrow }
+      : params.due === 'overdue' ? { $lt: today, $ne: null } : { $lt: tomorrow, $ne: null },
+  };
+  if (params.assignedTo !== undefined) {
+    filter.assignedTo = params.assignedTo ? new Types.ObjectId(params.assignedTo) : null;
+  }
+
+  const leads = await Lead.find(filter)
+    .sort({ followUpDate: 1, createdAt: 1 })
+    .limit(500)
+    .populate('interestedCourseId', 'displayName courseName')
+    .populate('assignedTo', 'name email')
+    .lean();
+  if (leads.length === 0) return [];
+
+  const latest = await LeadActivity.aggregate([
+    { $match: { leadId: { $in: leads.map((l) => l._id) }, type: { $in: [...OUTREACH_TYPES, 'note'] } } },
+    { $sort: { occurredAt: -1 } },
+    { $group: { _id: '$leadId', activity: { $first: '$$ROOT' } } },
+  ]);
+  const lastByLead = new Map(latest.map((row: any) => [row._id.toString(), row.activity]));
+
+  return leads.map((lead) => {
+    const last = lastByLead.get(lead._id.toString());
+    return {
+      ...lead,
+      overdue: lead.followUpDate! < today,
+      lastActivity: last
+        ? { type: last.type, outcome: last.outcome, notes: last.notes, occurredAt: last.occurredAt }
+        : null,
+    };
+  });
+}
+
+// ── Funnel analytics ──────────────────────────────────────────────
+
+const ALL_LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'follow-up', 'converted', 'dropped'];
+
+export interface LeadFunnelRow {
+  key: string;
+  label: string;
+  total: number;
+  counts: Record<LeadStatus, number>;
+  converted: number;
+  conversionRate: number;            // converted / total, 0–1
+  medianDaysToConvert: number | null;
+  revenueFirst3Months: number;
+  revenueFirst6Months: number;
+}
+
+export interface LeadFunnelReport {
+  from: Date | null;
+  to: Date | null;
+  totals: LeadFunnelRow;
+  bySource: LeadFunnelRow[];
+  byMonth: LeadFunnelRow[];
+  byCourse: LeadFunnelRow[];
+}
+
+function addMonthsUTC(d: Date, months: number): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, d.getUTCDate()));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Lead counts per status, conversion rate, median days from creation to
+ * conversion, and the payments converted students made in their first 3 and
+ * 6 months after conversion, grouped by source, by month created and by
+ * interested course. from/to bound the lead's createdAt. Revenue counts
+ * unreversed payments only; a student converted recently has an incomplete
+ * window, so recent months read low until it elapses.
+ */
+export async function getLeadFunnel(params: { from?: Date; to?: Date } = {}): Promise<LeadFunnelReport> {
+  const filter: Record<string, unknown> = {};
+  if (params.from || params.to) {
+    const createdAt: Record<string, Date> = {};
+    if (params.from) createdAt.$gte = params.from;
+    if (params.to) createdAt.$lte = params.to;
+    filter.createdAt = createdAt;
+  }
+  const leads = await Lead.find(filter)
+    .select('source status createdAt interestedCourseId convertedStudentId convertedAt')
+    .lean();
+
+  // Revenue per converted lead, from the day it converted.
+  const converted = leads.filter((l) => l.convertedStudentId && l.convertedAt);
+  const revenueByLead = new Map<string, { m3: number; m6: number }>();
+  if (converted.length > 0) {
+    const earliest = new Date(Math.min(...converted.map((l) => l.convertedAt!.getTime())));
+    const payments = await PaymentTransaction.find({
+      studentId: { $in: converted.map((l) => l.convertedStudentId) },
+      isReversed: { $ne: true },
+      paymentDate: { $gte: earliest },
+    })
+      .select('studentId amount paymentDate')
+      .lean();
+    const paymentsByStudent = new Map<string, typeof payments>();
+    for (const p of payments) {
+      const key = p.studentId.toString();
+      paymentsByStudent.set(key, [...(paymentsByStudent.get(key) ?? []), p]);
+    }
+    for (const lead of converted) {
+      const start = lead.convertedAt!;
+      const end3 = addMonthsUTC(start, 3);
+      const end6 = addMonthsUTC(start, 6);
+      const revenue = { m3: 0, m6: 0 };
+      for (const p of paymentsByStudent.get(lead.convertedStudentId!.toString()) ?? []) {
+        if (p.paymentDate < start) continue;
+        if (p.paymentDate < end3) revenue.m3 += p.amount;
+        if (p.paymentDate < end6) revenue.m6 += p.amount;
+      }
+      revenueByLead.set(lead._id.toString(), revenue);
+    }
+  }
+
+  const courseIds = [...new Set(leads.map((l) => l.interestedCourseId?.toString()).filter(Boolean))] as string[];
+  const courses = courseIds.length
+    ? await Course.find({ _id: { $in: courseIds } }).select('displayName').lean()
+    : [];
+  const courseName = new Map(courses.map((c) => [c._id.toString(), c.displayName]));
+
+  const summarize = (key: string, label: string, group: typeof leads): LeadFunnelRow => {
+    const counts = Object.fromEntries(ALL_LEAD_STATUSES.map((s) => [s, 0])) as Record<LeadStatus, number>;
+    const days: number[] = [];
+    let revenue3 = 0;
+    let revenue6 = 0;
+    let convertedCount = 0;
+    for (const lead of group) {
+      counts[lead.status] += 1;
+      if (lead.status !== 'converted') continue;
+      convertedCount += 1;
+      if (lead.convertedAt) days.push((lead.convertedAt.getTime() - lead.createdAt.getTime()) / DAY_MS);
+      const revenue = revenueByLead.get(lead._id.toString());
+      revenue3 += revenue?.m3 ?? 0;
+      revenue6 += revenue?.m6 ?? 0;
+    }
+    const mid = median(days);
+    return {
+      key,
+      label,
+      total: group.length,
+      counts,
+      converted: convertedCount,
+      conversionRate: group.length ? convertedCount / group.length : 0,
+      medianDaysToConvert: mid === null ? null : Math.round(mid * 10) / 10,
+      revenueFirst3Months: revenue3,
+      revenueFirst6Months: revenue6,
+    };
+  };
+
+  const groupBy = (keyOf: (lead: (typeof leads)[number]) => string) => {
+    const groups = new Map<string, typeof leads>();
+    for (const lead of leads) {
+      const key = keyOf(lead);
+      groups.set(key, [...(groups.get(key) ?? []), lead]);
+    }
+    return groups;
+  };
+
+  const bySource = [...groupBy((l) => l.source)].map(([source, group]) => summarize(source, source, group))
+    .sort((a, b) => b.total - a.total);
+  const byMonth = [...groupBy((l) => l.createdAt.toISOString().slice(0, 7))]
+    .map(([month, group]) => {
+      const [y, m] = month.split('-').map(Number);
+      const label = new Date(Date.UTC(y, m - 1, 1)).toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+      return summarize(month, label, group);
+    })
+    .sort((a, b) => a.key.localeCompare(b.key));
+  const byCourse = [...groupBy((l) => l.interestedCourseId?.toString() ?? 'none')]
+    .map(([id, group]) => summarize(id, id === 'none' ? 'Not specified' : courseName.get(id) ?? 'Unknown course', group))
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    from: params.from ?? null,
+    to: params.to ?? null,
+    totals: summarize('all', 'All leads', leads),
+    bySource,
+    byMonth,
+    byCourse,
+  };
+}
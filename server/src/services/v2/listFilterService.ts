@@ -0,0 +1,151 @@
+import { Types } from 'mongoose';
+import Enrollment from '../../models/v2/Enrollment.js';
+import Invoice from '../../models/v2/Invoice.js';
+import { ApiError } from '../../utils/errors.js';
+import { overdueInvoiceFilter } from './feeService.js';
+
+/**
+ * Query-string filters of the admin list endpoints, turned into Mongo
+ * filters. The student, invoice and lead list routes and their exports both
+ * build their filters here so an export always contains exactly what the list
+ * would page through. Payments have no list endpoint; their filter is only
+ * used by the payments export.
+ */
+
+export type ListQuery = Record<string, unknown>;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Students filter for course / stage / level / batch fields: matches the
+ * course mirrored on the student (kept after they pause or leave) or any
+ * other course they are actively enrolled in.
+ */
+export async function enrolledInMatch(match: Record<string, unknown>) {
+  const enrolledIds = await Enrollment.distinct('studentId', { ...match, endDate: null });
+  return { $or: [match, { _id: { $in: enrolledIds } }] };
+}
+
+// search, courseId, stageNumber, levelNumber, batchId, isActive (true | false | all), overdueOnly,
+// ids (comma-separated student ids, e.g. the rows selected in the list)
+export async function studentListFilter(query: ListQuery) {
+  const { search, courseId, stageNumber, levelNumber, batchId, isActive, overdueOnly, ids } = query;
+  const filter: any = {};
+
+  if (search) {
+    const escapedSearch = escapeRegex(search as string);
+    filter.$or = [
+      { studentName: { $regex: escapedSearch, $options: 'i' } },
+      { parentName: { $regex: escapedSearch, $options: 'i' } },
+      { phone: { $regex: escapedSearch, $options: 'i' } },
+      { email: { $regex: escapedSearch, $options: 'i' } },
+      { studentCode: { $regex: escapedSearch, $options: 'i' } },
+    ];
+  }
+  const enrollmentMatch: Record<string, unknown> = {};
+  if (courseId) enrollmentMatch.courseId = new Types.ObjectId(courseId as string);
+  if (stageNumber) enrollmentMatch.stageNumber = parseInt(stageNumber as string);
+  if (levelNumber) enrollmentMatch.levelNumber = parseInt(levelNumber as string);
+  if (batchId) enrollmentMatch.batchId = new Types.ObjectId(batchId as string);
+  if (Object.keys(enrollmentMatch).length > 0) filter.$and = [await enrolledInMatch(enrollmentMatch)];
+  if (isActive !== undefined && isActive !== 'all') filter.isActive = isActive === 'true';
+
+  // Overdue filter: only students with at least one overdue fee record
+  if (overdueOnly === 'true') {
+    filter._id = { $in: await Invoice.distinct('studentId', overdueInvoiceFilter()) };
+  }
+  if (ids) {
+    const studentIds = String(ids).split(',').filter(Boolean);
+    if (studentIds.some((id) => !Types.ObjectId.isValid(id))) throw new ApiError('ids must be student IDs', 400, 'VALIDATION_ERROR');
+    filter.$and = [...(filter.$and ?? []), { _id: { $in: studentIds.map((id) => new Types.ObjectId(id)) } }];
+  }
+  return filter;
+}
+
+// studentId, status, courseId, stageNumber, levelNumber, monthFrom, monthTo, kind (tuition | late_fee)
+export function invoiceListFilter(query: ListQuery) {
+  const { studentId, status, courseId, stageNumber, levelNumber, monthFrom, monthTo, kind } = query;
+  const filter: any = { isVoid: false };
+  if (kind === 'tuition') filter.kind = { $ne: 'late_fee' };
+  else if (kind === 'late_fee') filter.kind = 'late_fee';
+  if (studentId) filter.studentId = new Types.ObjectId(studentId as string);
+  if (courseId) filter.courseId = new Types.ObjectId(courseId as string);
+  if (stageNumber) filter.stageNumber = parseInt(stageNumber as string);
+  if (levelNumber) filter.levelNumber = parseInt(levelNumber as string);
+  if (monthFrom || monthTo) {
+    filter.invoiceMonth = {};
+    if (monthFrom) filter.invoiceMonth.$gte = new Date(monthFrom as string);
+    if (monthTo) filter.invoiceMonth.$lte = new Date(monthTo as string);
+  }
+
+  const now = new Date();
+  const balanceExpr = { $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] };
+  if (status === 'paid') {
+    filter.$expr = { $lte: [balanceExpr, 0] };
+  } else if (status === 'partially_paid') {
+    filter.$expr = {
+      $and: [
+        { $gt: [{ $add: ['$allocatedAmount', '$waivedAmount'] }, 0] },
+        { $gt: [balanceExpr, 0] },
+      ],
+    };
+  } else if (status === 'overdue') {
+    filter.dueDate = { $lt: now };
+    filter.$expr = { $gt: [balanceExpr, 0] };
+  } else if (status === 'upcoming') {
+    filter.dueDate = { $gte: now };
+    filter.$expr = { $gt: [balanceExpr, 0] };
+  } else if (status === 'void') {
+    filter.isVoid = true;
+  }
+  return filter;
+}
+
+// studentId, paymentMethod, source (manual | import), from, to (payment date,
+// inclusive), isReversed (true | false | all)
+export function paymentListFilter(query: ListQuery) {
+  const { studentId, paymentMethod, source, from, to, isReversed } = query;
+  const filter: any = {};
+  if (studentId) filter.studentId = new Types.ObjectId(studentId as string);
+  if (paymentMethod) filter.paymentMethod = paymentMethod;
+  if (source) filter.createdBySource = source;
+  if (from || to) {
+    filter.paymentDate = {};
+    if (from) filter.paymentDate.$gte = new Date(from as string);
+    if (to) filter.paymentDate.$lte = new Date(to as string);
+  }
+  if (isReversed === 'true') filter.isReversed = true;
+  else if (isReversed === 'false') filter.isReversed = { $ne: true };
+  return filter;
+}
+
+// search, status, source, followUpFrom, followUpTo, assignedTo (me | unassigned | a user id)
+export function leadListFilter(query: ListQuery, userId: Types.ObjectId) {
+  const { search, status, source, followUpFrom, followUpTo, assignedTo } = query;
+  const filter: any = {};
+
+  if (search) {
+    const escaped = escapeRegex(search as string);
+    filter.$or = [
+      { name: { $regex: escaped, $options: 'i' } },
+      { phone: { $regex: escaped, $options: 'i' } },
+      { email: { $regex: escaped, $options: 'i' } },
+      { childName: { $regex: escaped, $options: 'i' } },
+    ];
+  }
+
+  if (status) filter.status = status;
+  if (source) filter.source = source;
+  if (assignedTo === 'me') filter.assignedTo = userId;
+  else if (assignedTo === 'unassigned') filter.assignedTo = null;
+  else if (assignedTo && Types.ObjectId.isValid(assignedTo as string)) filter.assignedTo = new Types.ObjectId(assignedTo as string);
+
+  if (followUpFrom || followUpTo) {
+    filter.followUpDate = {};
+    if (followUpFrom) filter.followUpDate.$gte = new Date(followUpFrom as string);
+    if (followUpTo) filter.followUpDate.$lte = new Date(followUpTo as string);
+  }
+  return filter;
+}
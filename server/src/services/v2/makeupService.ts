@@ -0,0 +1,320 @@
+import { ClientSession, Types } from 'mongoose';
+import Batch from '../../models/v2/Batch.js';
+import Course from '../../models/v2/Course.js';
+import Enrollment from '../../models/v2/Enrollment.js';
+import ClassSession, { IClassSession } from '../../models/v2/ClassSession.js';
+import MakeupCredit, { IMakeupCredit, MakeupSource } from '../../models/v2/MakeupCredit.js';
+import { ApiError } from '../../utils/errors.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far ahead the booking screen looks for make-up sessions. */
+export const MAKEUP_BOOKING_WINDOW_DAYS = 30;
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/** Whether the student has an enrollment placing them in the batch on the date. */
+async function isEnrolledOn(studentId: Types.ObjectId, batchId: Types.ObjectId, date: Date): Promise<boolean> {
+  const found = await Enrollment.exists({
+    studentId,
+    batchId,
+    startDate: { $lt: new Date(date.getTime() + DAY_MS) },
+    $or: [{ endDate: null }, { endDate: { $gt: date } }],
+  });
+  return !!found;
+}
+
+// ── Granting and revoking ─────────────────────────────────────────
+
+/**
+ * Owe each student a make-up for a session they lost, under the course's
+ * makeupPolicy. One credit per (student, session): granting again is a no-op,
+ * and a previously revoked credit is made available again.
+ * Returns the number of students considered (0 when the policy does not apply).
+ */
+export async function grantMakeups(
+  classSession: IClassSession,
+  students: { studentId: Types.ObjectId; enrollmentId: Types.ObjectId }[],
+  source: MakeupSource,
+  adminUserId: string,
+  session?: ClientSession,
+): Promise<number> {
+  if (students.length === 0) return 0;
+  // Not lean: courses saved before makeupPolicy existed pick up its defaults.
+  const course = await Course.findById(classSession.courseId).select('makeupPolicy').session(session ?? null);
+  const policy = course?.makeupPolicy;
+  if (!policy?.enabled) return 0;
+  if (source === 'excused_absence' && !policy.excusedAbsences) return 0;
+
+  const expiresAt = new Date(classSession.sessionDate.getTime() + policy.expiryDays * DAY_MS);
+  const createdBy = new Types.ObjectId(adminUserId);
+  await MakeupCredit.bulkWrite(students.flatMap(({ studentId, enrollmentId }) => [
+    {
+      updateOne: {
+        filter: { studentId, sourceSessionId: classSession._id },
+        update: {
+          $setOnInsert: {
+            studentId,
+            enrollmentId,
+            courseId: classSession.courseId,
+            stageNumber: classSession.stageNumber,
+            levelNumber: classSession.levelNumber,
+            source,
+            sourceSessionId: classSession._id,
+            sourceBatchId: classSession.batchId,
+            sourceSessionDate: classSession.sessionDate,
+            expiresAt,
+            status: 'available',
+            booking: null,
+            createdBy,
+          },
+        },
+        upsert: true,
+      },
+    },
+    {
+      updateOne: {
+        filter: { studentId, sourceSessionId: classSession._id, status: 'revoked' },
+        update: { $set: { status: 'available', source, expiresAt }, $unset: { statusReason: 1 } },
+      },
+    },
+  ]), { session, ordered: true });
+  return students.length;
+}
+
+/** Withdraw unbooked make-ups owed for a session (booked or used ones are left alone). */
+export async function revokeMakeups(
+  sourceSessionId: Types.ObjectId,
+  filter: { source: MakeupSource; studentIds?: Types.ObjectId[] },
+  reason: string,
+  session?: ClientSession,
+): Promise<number> {
+  const query: any = { sourceSessionId, source: filter.source, status: 'available' };
+  if (filter.studentIds) query.studentId = { $in: filter.studentIds };
+  const { modifiedCount } = await MakeupCredit.updateMany(
+    query,
+    { $set: { status: 'revoked', statusReason: reason } },
+    { session },
+  );
+  return modifiedCount;
+}
+
+/** Return booked make-ups to the student, e.g. when the make-up session is cancelled. */
+export async function releaseBookings(
+  filter: { sessionId: Types.ObjectId; studentIds?: Types.ObjectId[] },
+  reason: string,
+  session?: ClientSession,
+): Promise<number> {
+  const query: any = { 'booking.sessionId': filter.sessionId, status: 'booked' };
+  if (filter.studentIds) query.studentId = { $in: filter.studentIds };
+  const { modifiedCount } = await MakeupCredit.updateMany(
+    query,
+    { $set: { status: 'available', booking: null, statusReason: reason } },
+    { session },
+  );
+  return modifiedCount;
+}
+
+/** Mark guests' make-ups as taken once their attendance is recorded. */
+export async function consumeBookings(
+  sessionId: Types.ObjectId,
+  studentIds: Types.ObjectId[],
+  session?: ClientSession,
+): Promise<number> {
+  if (studentIds.length === 0) return 0;
+  const { modifiedCount } = await MakeupCredit.updateMany(
+    { 'booking.sessionId': sessionId, studentId: { $in: studentIds }, status: 'booked' },
+    { $set: { status: 'used', usedAt: new Date() }, $unset: { statusReason: 1 } },
+    { session },
+  );
+  return modifiedCount;
+}
+
+/** Make-ups booked into a session — its guest list. */
+export async function bookedGuests(sessionId: Types.ObjectId): Promise<IMakeupCredit[]> {
+  return MakeupCredit.find({ 'booking.sessionId': sessionId, status: { $in: ['booked', 'used'] } });
+}
+
+// ── Booking ───────────────────────────────────────────────────────
+
+/**
+ * Sessions a make-up can be booked into: upcoming, not cancelled, in an active
+ * batch of the same course, stage and level, on or before the credit's expiry,
+ * and not one the student already attends. Seat counts include other guests
+ * already booked; permanent seats (Batch.filledSeats) are not involved.
+ */
+/** Batches a make-up can be taken in: active, at the credit's course, stage and level. */
+function optionBatchFilter(credit: IMakeupCredit) {
+  return {
+    status: 'active',
+    courseId: credit.courseId,
+    stageNumber: credit.stageNumber,
+    levelNumber: credit.levelNumber,
+  };
+}
+
+export async function getMakeupOptionBatchIds(creditId: string): Promise<Types.ObjectId[]> {
+  const credit = await MakeupCredit.findById(creditId);
+  if (!credit) throw new ApiError('Make-up not found', 404, 'MAKEUP_NOT_FOUND');
+  const batches = await Batch.find(optionBatchFilter(credit)).select('_id').lean();
+  return batches.map((b) => b._id as Types.ObjectId);
+}
+
+export async function getMakeupOptions(creditId: string) {
+  const credit = await MakeupCredit.findById(creditId);
+  if (!credit) throw new ApiError('Make-up not found', 404, 'MAKEUP_NOT_FOUND');
+
+  const today = dateOnlyUTC(new Date());
+  const until = new Date(Math.min(
+    dateOnlyUTC(credit.expiresAt).getTime() + DAY_MS,
+    today.getTime() + MAKEUP_BOOKING_WINDOW_DAYS * DAY_MS,
+  ));
+  const batches = await Batch.find(optionBatchFilter(credit)).select('batchName batchCode maxStudents').lean();
+  const batchById = new Map(batches.map((b) => [b._id.toString(), b]));
+
+  const sessions = await ClassSession.find({
+    batchId: { $in: batches.map((b) => b._id) },
+    status: { $ne: 'cancelled' },
+    sessionDate: { $gte: today, $lt: until },
+  }).sort({ sessionDate: 1, startTime: 1 }).lean();
+
+  const options = [];
+  for (const s of sessions) {
+    if (await isEnrolledOn(credit.studentId, s.batchId, s.sessionDate)) continue;
+    const seats = await seatsTaken(s.batchId, s._id as Types.ObjectId, s.sessionDate);
+    const batch = batchById.get(s.batchId.toString())!;
+    options.push({
+      sessionId: s._id.toString(),
+      batchId: s.batchId.toString(),
+      batchName: batch.batchName,
+      batchCode: batch.batchCode,
+      sessionDate: s.sessionDate,
+      startTime: s.startTime,
+      seatsTaken: seats,
+      maxStudents: batch.maxStudents,
+      full: batch.maxStudents !== null && seats >= batch.maxStudents,
+    });
+  }
+  return { credit, options };
+}
+
+/** Regular students enrolled on the date plus booked make-up guests. */
+async function seatsTaken(batchId: Types.ObjectId, sessionId: Types.ObjectId, date: Date): Promise<number> {
+  const [enrolled, guests] = await Promise.all([
+    Enrollment.countDocuments({
+      batchId,
+      startDate: { $lt: new Date(date.getTime() + DAY_MS) },
+      $or: [{ endDate: null }, { endDate: { $gt: date } }],
+    }),
+    MakeupCredit.countDocuments({ 'booking.sessionId': sessionId, status: { $in: ['booked', 'used'] } }),
+  ]);
+  return enrolled + guests;
+}
+
+export async function bookMakeup(creditId: string, sessionId: string, adminUserId: string): Promise<IMakeupCredit> {
+  const credit = await MakeupCredit.findById(creditId);
+  if (!credit) throw new ApiError('Make-up not found', 404, 'MAKEUP_NOT_FOUND');
+  if (credit.status !== 'available') {
+    throw new ApiError(`Make-up is ${credit.status}, not available to book`, 409, 'MAKEUP_NOT_AVAILABLE');
+  }
+  const today = dateOnlyUTC(new Date());
+  if (credit.expiresAt < today) {
+    throw new ApiError('Make-up has expired', 409, 'MAKEUP_EXPIRED');
+  }
+
+  const target = await ClassSession.findById(sessionId);
+  if (!target) throw new ApiError('Session not found', 404, 'SESSION_NOT_FOUND');
+  if (target.status === 'cancelled') throw new ApiError('Session is cancelled', 409, 'SESSION_CANCELLED');
+  if (target.sessionDate < today) throw new ApiError('Session is in the past', 400, 'SESSION_IN_PAST');
+  if (target.sessionDate > credit.expiresAt) {
+    throw new ApiError('Session is after the make-up expires', 400, 'MAKEUP_EXPIRES_FIRST');
+  }
+
+  const batch = await Batch.findById(target.batchId).select('status courseId stageNumber levelNumber maxStudents').lean();
+  if (!batch || batch.status !== 'active') throw new ApiError('Batch is not active', 409, 'BATCH_NOT_ACTIVE');
+  if (!batch.courseId.equals(credit.courseId) || batch.stageNumber !== credit.stageNumber || batch.levelNumber !== credit.levelNumber) {
+    throw new ApiError('Make-ups can only be booked into a batch at the same stage and level', 400, 'LEVEL_MISMATCH');
+  }
+  if (await isEnrolledOn(credit.studentId, target.batchId, target.sessionDate)) {
+    throw new ApiError('Student is already a regular member of this session', 409, 'ALREADY_ON_ROSTER');
+  }
+  if (await MakeupCredit.exists({ studentId: credit.studentId, 'booking.sessionId': target._id, status: { $in: ['booked', 'used'] } })) {
+    throw new ApiError('Student already has a make-up booked into this session', 409, 'ALREADY_BOOKED');
+  }
+  if (batch.maxStudents !== null && await seatsTaken(target.batchId, target._id as Types.ObjectId, target.sessionDate) >= batch.maxStudents) {
+    throw new ApiError('Session is full', 409, 'SESSION_FULL');
+  }
+
+  // Conditional on status so two admins cannot book the same credit twice.
+  const booked = await MakeupCredit.findOneAndUpdate(
+    { _id: credit._id, status: 'available' },
+    {
+      $set: {
+        status: 'booked',
+        booking: {
+          sessionId: target._id,
+          batchId: target.batchId,
+          sessionDate: target.sessionDate,
+          bookedBy: new Types.ObjectId(adminUserId),
+          bookedAt: new Date(),
+        },
+      },
+      $unset: { statusReason: 1 },
+    },
+    { new: true },
+  );
+  if (!booked) throw new ApiError('Make-up was booked or changed concurrently', 409, 'MAKEUP_NOT_AVAILABLE');
+  return booked;
+}
+
+export async function cancelMakeupBooking(creditId: string): Promise<IMakeupCredit> {
+  const credit = await MakeupCredit.findOneAndUpdate(
+    { _id: new Types.ObjectId(creditId), status: 'booked' },
+    { $set: { status: 'available', booking: null, statusReason: 'Booking cancelled' } },
+    { new: true },
+  );
+  if (!credit) throw new ApiError('No booked make-up to cancel', 409, 'MAKEUP_NOT_BOOKED');
+  return credit;
+}
+
+// ── Expiry ────────────────────────────────────────────────────────
+
+/** Expire unbooked make-ups whose expiry date has passed. Booked ones stay valid for their booking. */
+export async function expireMakeupCredits(asOf: Date): Promise<{ expiredCount: number }> {
+  const { modifiedCount } = await MakeupCredit.updateMany(
+    { status: 'available', expiresAt: { $lt: dateOnlyUTC(asOf) } },
+    { $set: { status: 'expired', statusReason: 'Not booked before expiry' } },
+  );
+  return { expiredCount: modifiedCount };
+}
+
+// ── History ───────────────────────────────────────────────────────
+
+/** A student's make-ups, newest first, with outstanding (available + booked) counts. */
+export async function getStudentMakeups(studentId: string) {
+  const credits = await MakeupCredit.find({ studentId: new Types.ObjectId(studentId) })
+    .sort({ sourceSessionDate: -1 })
+    .lean();
+  const batchIds = new Set<string>();
+  for (const c of credits) {
+    batchIds.add(c.sourceBatchId.toString());
+    if (c.booking) batchIds.add(c.booking.batchId.toString());
+  }
+  const batches = await Batch.find({ _id: { $in: [...batchIds] } }).select('batchName batchCode').lean();
+  const batchName = new Map(batches.map((b) => [b._id.toString(), b.batchName]));
+  const today = dateOnlyUTC(new Date());
+
+  return {
+    outstanding: credits.filter((c) => c.status === 'booked' || (c.status === 'available' && c.expiresAt >= today)).length,
+    credits: credits.map((c) => ({
+      ...c,
+      id: c._id.toString(),
+      // The expiry job runs daily; report lapsed credits as expired in between.
+      status: c.status === 'available' && c.expiresAt < today ? 'expired' : c.status,
+      sourceBatchName: batchName.get(c.sourceBatchId.toString()),
+      booking: c.booking ? { ...c.booking, batchName: batchName.get(c.booking.batchId.toString()) } : null,
+    })),
+  };
+}
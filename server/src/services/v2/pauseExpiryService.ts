@@ -0,0 +1,275 @@
+import { Types } from 'mongoose';
+import Enrollment from '../../models/v2/Enrollment.js';
+import StudentV2 from '../../models/v2/Student.js';
+import Batch from '../../models/v2/Batch.js';
+import EnrollmentLifecycleEvent from '../../models/v2/EnrollmentLifecycleEvent.js';
+import { ApiError } from '../../utils/errors.js';
+import { resumeEnrollment } from './feeService.js';
+import type { IEnrollment } from '../../types/v2.js';
+
+/**
+ * What the job does with a pause whose pausedUntil has passed: resume it
+ * automatically, or only put it on the admins' worklist.
+ */
+export type PauseExpiryAction = 'resume' | 'flag';
+
+export interface PauseExpiryOutcome {
+  studentId: Types.ObjectId;
+  studentName: string;
+  pausedEnrollmentId: Types.ObjectId;
+  pausedUntil: Date;
+  outcome: 'resumed' | 'resumed_without_batch' | 'flagged' | 'would_resume' | 'would_flag' | 'skipped';
+  code?: string;
+  message?: string;
+  resumedEnrollmentId?: Types.ObjectId;
+}
+
+export interface PauseExpiryRunSummary {
+  mode: 'dry-run' | 'apply';
+  action: PauseExpiryAction;
+  asOf: Date;
+  totalExpired: number;
+  resumedCount: number;
+  resumedWithoutBatchCount: number;
+  flaggedCount: number;
+  skippedCount: number;
+  outcomes: PauseExpiryOutcome[];
+}
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/**
+ * Paused enrollments with pausedUntil on or before asOf that are still the
+ * student's latest enrollment in that course — i.e. nobody has resumed,
+ * upgraded or re-enrolled the student in it since — with the student's name.
+ */
+async function expiredPauses(asOf: Date) {
+  const paused = await Enrollment.find({ endReason: 'paused', pausedUntil: { $ne: null, $lte: asOf } })
+    .sort({ pausedUntil: 1 })
+    .lean<IEnrollment[]>();
+  if (paused.length === 0) return [];
+
+  const studentIds = [...new Set(paused.map((e) => e.studentId.toString()))].map((id) => new Types.ObjectId(id));
+  const [latest, students] = await Promise.all([
+    Enrollment.aggregate([
+      { $match: { studentId: { $in: studentIds } } },
+      { $sort: { startDate: -1, createdAt: -1 } },
+      { $group: { _id: { studentId: '$studentId', courseId: '$courseId' }, enrollmentId: { $first: '$_id' } } },
+    ]),
+    StudentV2.find({ _id: { $in: studentIds } }).select('studentName studentCode').lean(),
+  ]);
+  const latestIds = new Set(latest.map((row: any) => row.enrollmentId.toString()));
+  const studentById = new Map(students.map((s) => [s._id.toString(), s]));
+
+  return paused
+    .filter((e) => latestIds.has(e._id.toString()) && studentById.has(e.studentId.toString()))
+    .map((enrollment) => ({ enrollment, student: studentById.get(enrollment.studentId.toString())! }));
+}
+
+/**
+ * Act on every expired pause as of asOf (date-only). With action 'resume' the
+ * enrollment is reopened through resumeEnrollment on its pausedUntil date,
+ * re-reserving the seat or falling back to no batch when the batch is full or
+ * no longer active; a resume that fails is flagged instead. With 'flag' every
+ * expired pause goes on the worklist.
+ *
+ * Each pause is flagged once per pausedUntil, so daily runs do not pile up
+ * duplicate worklist events; resume mode still retries flagged pauses. Every applied action is an
+ * EnrollmentLifecycleEvent, which the student's audit history shows.
+ * Dry-run computes the outcomes without writing, like assessLateFees.
+ */
+export async function processExpiredPauses(params: {
+  asOf: Date;
+  action: PauseExpiryAction;
+  apply: boolean;
+  adminUserId: string;
+  trigger: 'cron' | 'manual';
+}): Promise<PauseExpiryRunSummary> {
+  const asOf = dateOnlyUTC(params.asOf);
+  const summary: PauseExpiryRunSummary = {
+    mode: params.apply ? 'apply' : 'dry-run',
+    action: params.action,
+    asOf,
+    totalExpired: 0,
+    resumedCount: 0,
+    resumedWithoutBatchCount: 0,
+    flaggedCount: 0,
+    skippedCount: 0,
+    outcomes: [],
+  };
+
+  const expired = await expiredPauses(asOf);
+  summary.totalExpired = expired.length;
+
+  for (const { enrollment, student } of expired) {
+    const pausedUntil = enrollment.pausedUntil!;
+    const base = {
+      studentId: enrollment.studentId,
+      studentName: student.studentName,
+      pausedEnrollmentId: enrollment._id,
+      pausedUntil,
+    };
+    const eventBase = {
+      studentId: enrollment.studentId,
+      pausedEnrollmentId: enrollment._id,
+      pausedUntil,
+      batchId: enrollment.batchId ?? null,
+      trigger: params.trigger,
+      processedBy: new Types.ObjectId(params.adminUserId),
+    };
+    const flag = async (code: string, message: string) => {
+      await EnrollmentLifecycleEvent.create({ ...eventBase, action: 'flagged', code, message });
+      summary.flaggedCount += 1;
+      summary.outcomes.push({ ...base, outcome: 'flagged', code, message });
+    };
+
+    // Flag mode leaves a flagged pause alone; resume mode retries it, so a
+    // pause flagged earlier (or whose resume failed) is picked up once the
+    // batch has room again.
+    const alreadyFlagged = await EnrollmentLifecycleEvent.exists({
+      pausedEnrollmentId: enrollment._id,
+      action: 'flagged',
+      pausedUntil,
+    });
+    const skipFlagged = (message: string) => {
+      summary.skippedCount += 1;
+      summary.outcomes.push({ ...base, outcome: 'skipped', code: 'ALREADY_FLAGGED', message });
+    };
+    if (alreadyFlagged && params.action === 'flag') {
+      skipFlagged('Already on the pause-expired worklist');
+      continue;
+    }
+
+    if (!params.apply) {
+      summary.outcomes.push({ ...base, outcome: params.action === 'resume' ? 'would_resume' : 'would_flag' });
+      continue;
+    }
+
+    if (params.action === 'flag') {
+      await flag('PAUSE_EXPIRED', 'Pause ended; waiting for an admin to resume or extend it');
+      continue;
+    }
+
+    // Resume from the day the pause ended, never before the pause started.
+    const pausedOn = dateOnlyUTC(enrollment.endDate!);
+    const resumeDate = dateOnlyUTC(pausedUntil) < pausedOn ? pausedOn : dateOnlyUTC(pausedUntil);
+    try {
+      const resumed = await resumeEnrollment(enrollment.studentId.toString(), resumeDate, params.adminUserId, {
+        fallbackToNoBatch: true,
+        enrollmentId: enrollment._id.toString(),
+      });
+      if (enrollment.batchId && !resumed.batchId) {
+        const batch = await Batch.findById(enrollment.batchId).select('batchName status').lean();
+        const code = batch?.status === 'active' ? 'BATCH_FULL' : 'BATCH_INACTIVE';
+        const message = `${batch?.batchName ?? 'Batch'} ${code === 'BATCH_FULL' ? 'is full' : 'is no longer active'}; resumed without a batch`;
+        await EnrollmentLifecycleEvent.create({
+          ...eventBase,
+          action: 'resumed_without_batch',
+          resumedEnrollmentId: resumed._id,
+          code,
+          message,
+        });
+        summary.resumedWithoutBatchCount += 1;
+        summary.outcomes.push({ ...base, outcome: 'resumed_without_batch', code, message, resumedEnrollmentId: resumed._id });
+      } else {
+        await EnrollmentLifecycleEvent.create({ ...eventBase, action: 'auto_resumed', resumedEnrollmentId: resumed._id });
+        summary.resumedCount += 1;
+        summary.outcomes.push({ ...base, outcome: 'resumed', resumedEnrollmentId: resumed._id });
+      }
+    } catch (error: any) {
+      const message = String(error?.message ?? error).slice(0, 500);
+      if (alreadyFlagged) skipFlagged(`Resume failed again: ${message}`);
+      else await flag('RESUME_FAILED', message);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * The pause-expired worklist: every expired pause still waiting for a resume,
+ * with the latest flag raised for it (if the job has flagged it yet).
+ */
+export async function listExpiredPauses(asOf: Date = new Date()) {
+  const expired = await expiredPauses(dateOnlyUTC(asOf));
+  if (expired.length === 0) return [];
+
+  const enrollmentIds = expired.map(({ enrollment }) => enrollment._id);
+  const batchIds = expired.map(({ enrollment }) => enrollment.batchId).filter(Boolean);
+  const [flags, batches] = await Promise.all([
+    EnrollmentLifecycleEvent.find({ pausedEnrollmentId: { $in: enrollmentIds }, action: 'flagged' })
+      .sort({ occurredAt: -1 })
+      .lean(),
+    Batch.find({ _id: { $in: batchIds } }).select('batchName status').lean(),
+  ]);
+  const flagByEnrollment = new Map<string, (typeof flags)[number]>();
+  for (const f of flags) {
+    const key = f.pausedEnrollmentId.toString();
+    if (!flagByEnrollment.has(key)) flagByEnrollment.set(key, f);
+  }
+  const batchById = new Map(batches.map((b) => [b._id.toString(), b]));
+
+  return expired.map(({ enrollment, student }) => {
+    const flag = flagByEnrollment.get(enrollment._id.toString());
+    const batch = enrollment.batchId ? batchById.get(enrollment.batchId.toString()) : undefined;
+    return {
+      studentId: student._id.toString(),
+      studentName: student.studentName,
+      studentCode: student.studentCode,
+      pausedEnrollmentId: enrollment._id.toString(),
+      pausedOn: enrollment.endDate,
+      pausedUntil: enrollment.pausedUntil,
+      stageNumber: enrollment.stageNumber,
+      levelNumber: enrollment.levelNumber,
+      batch: batch ? { id: batch._id.toString(), batchName: batch.batchName, status: batch.status } : null,
+      flaggedAt: flag?.occurredAt ?? null,
+      code: flag?.code ?? null,
+      message: flag?.message ?? null,
+    };
+  });
+}
+
+/**
+ * Move a paused student's pausedUntil later — on their latest pause, or the
+ * paused enrollment given as enrollmentId; recorded for the audit history.
+ */
+export async function extendPause(
+  studentId: string,
+  pausedUntil: Date,
+  adminUserId: string,
+  enrollmentId?: string | null,
+): Promise<IEnrollment> {
+  const studentObjectId = new Types.ObjectId(studentId);
+  if (enrollmentId && !Types.ObjectId.isValid(enrollmentId)) {
+    throw new ApiError('Invalid enrollment ID', 400, 'VALIDATION_ERROR');
+  }
+  const paused = await Enrollment.findOne({
+    studentId: studentObjectId,
+    endReason: 'paused',
+    ...(enrollmentId ? { _id: new Types.ObjectId(enrollmentId) } : {}),
+  }).sort({ endDate: -1 });
+  if (!paused) throw new ApiError('No paused enrollment found for student', 404, 'NOT_FOUND');
+  const active = await Enrollment.exists({ studentId: studentObjectId, courseId: paused.courseId, endDate: null });
+  if (active) throw new ApiError('Student already has an active enrollment in this course', 409, 'ALREADY_ACTIVE');
+  const newPausedUntil = dateOnlyUTC(pausedUntil);
+  if (newPausedUntil <= dateOnlyUTC(paused.endDate!)) {
+    throw new ApiError('pausedUntil must be after the pause started', 400, 'INVALID_DATE');
+  }
+
+  const previous = paused.pausedUntil ?? paused.endDate!;
+  paused.pausedUntil = newPausedUntil;
+  await paused.save();
+  await EnrollmentLifecycleEvent.create({
+    studentId: studentObjectId,
+    pausedEnrollmentId: paused._id,
+    action: 'pause_extended',
+    pausedUntil: previous,
+    newPausedUntil,
+    batchId: paused.batchId ?? null,
+    trigger: 'manual',
+    processedBy: new Types.ObjectId(adminUserId),
+  });
+  return paused;
+}
@@ -0,0 +1,469 @@
+import mongoose, { Types } from 'mongoose';
+import xlsx from 'xlsx';
+import BankStatement, { IBankStatement, IStatementLine, StatementLineStatus, StatementMatchType } from '../../models/v2/BankStatement.js';
+import PaymentTransaction, { IPaymentTransaction } from '../../models/v2/PaymentTransaction.js';
+import { ApiError } from '../../utils/errors.js';
+import { processPayment } from './feeService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default tolerance, in days, between a bank line and the recorded paymentDate. */
+export const DEFAULT_MATCH_WINDOW_DAYS = 3;
+export const MAX_MATCH_WINDOW_DAYS = 15;
+
+// A recorded transactionId shorter than this is not searched for inside the
+// bank narration — short ids match unrelated text too easily.
+const MIN_REFERENCE_IN_TEXT = 6;
+
+const PAYMENT_FIELDS = 'studentId studentName amount paymentDate paymentMethod transactionId receiptNumber familyPaymentId isReversed';
+
+/** Header names (file's own spelling) overriding auto-detection. */
+export interface StatementColumnMapping {
+  date?: string;
+  amount?: string;
+  reference?: string;
+  description?: string;
+}
+
+interface ParsedLine {
+  lineNumber: number;
+  txnDate: Date;
+  amount: number;
+  reference?: string;
+  description?: string;
+}
+
+// Normalised header spellings seen in Indian bank and UPI app exports.
+const COLUMN_ALIASES = {
+  date: ['date', 'txndate', 'transactiondate', 'trandate', 'valuedate', 'valuedt', 'postingdate', 'txndt'],
+  credit: ['credit', 'credits', 'creditamount', 'creditamt', 'cr', 'amountcr', 'deposit', 'deposits', 'depositamount', 'depositamt'],
+  amount: ['amount', 'amt', 'txnamount', 'transactionamount', 'amountinr', 'amountrs'],
+  direction: ['drcr', 'crdr', 'type', 'txntype', 'transactiontype'],
+  reference: [
+    'utr', 'utrno', 'utrnumber', 'rrn', 'upirefno', 'upiref', 'upitransactionid', 'reference', 'referenceno',
+    'refno', 'referencenumber', 'refnochequeno', 'chqrefno', 'chequerefno', 'transactionid', 'txnid', 'transactionreference',
+  ],
+  description: ['description', 'narration', 'particulars', 'remarks', 'details', 'transactiondetails'],
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeReference(value?: string | null): string {
+  return (value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+function daysApart(a: Date, b: Date): number {
+  return Math.round(Math.abs(dateOnlyUTC(a).getTime() - dateOnlyUTC(b).getTime()) / DAY_MS);
+}
+
+/** Day-first dates as Indian banks print them; ISO dates are also accepted. */
+function parseStatementDate(value: unknown): Date | null {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return validDate(+iso[1], +iso[2], +iso[3]);
+  const dmy = text.match(/^(\d{1,2})[/.\- ](\d{1,2})[/.\- ](\d{2,4})\b/);
+  if (dmy) return validDate(fullYear(+dmy[3]), +dmy[2], +dmy[1]);
+  const named = text.match(/^(\d{1,2})[/.\- ]([a-z]{3})[a-z]*[/.\-, ]+(\d{2,4})\b/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    return month > 0 ? validDate(fullYear(+named[3]), month, +named[1]) : null;
+  }
+  return null;
+}
+
+function fullYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+/** "1,500.00", "₹ 1500 CR", "(200.00)" → number; null when not a number. */
+function parseAmount(value: unknown): number | null {
+  let text = String(value ?? '').trim();
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text) || /dr\.?$/i.test(text) || text.startsWith('-');
+  text = text.replace(/[(),₹\s]|inr|rs\.?|cr\.?$|dr\.?$/gi, '').replace(/^-/, '');
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = Math.round(parseFloat(text) * 100) / 100;
+  return negative ? -amount : amount;
+}
+
+function findColumn(headers: string[], aliases: string[], override?: string): number {
+  if (override) return headers.indexOf(normalizeHeader(override));
+  return headers.findIndex((h) => aliases.includes(h));
+}
+
+/**
+ * Read a bank/UPI statement export into incoming-credit lines. The header row
+ * is found by looking for a date and an amount column, so account details
+ * printed above the table are skipped. Debits, balances and rows without a
+ * usable date or amount are counted in skippedRows.
+ */
+export function parseStatement(
+  buffer: Buffer,
+  mapping: StatementColumnMapping = {},
+): { lines: ParsedLine[]; skippedRows: number } {
+  const workbook = xlsx.read(buffer, { type: 'buffer', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new ApiError('The statement file is empty', 400, 'INVALID_STATEMENT');
+  const rows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false });
+
+  let headerIndex = -1;
+  let columns = { date: -1, credit: -1, amount: -1, direction: -1, reference: -1, description: -1 };
+  for (let i = 0; i < Math.min(rows.length, 30); i += 1) {
+    const headers = rows[i].map(normalizeHeader);
+    const found = {
+      date: findColumn(headers, COLUMN_ALIASES.date, mapping.date),
+      credit: mapping.amount ? -1 : findColumn(headers, COLUMN_ALIASES.credit),
+      amount: findColumn(headers, COLUMN_ALIASES.amount, mapping.amount),
+      direction: findColumn(headers, COLUMN_ALIASES.direction),
+      reference: findColumn(headers, COLUMN_ALIASES.reference, mapping.reference),
+      description: findColumn(headers, COLUMN_ALIASES.description, mapping.description),
+    };
+    if (found.date >= 0 && (found.credit >= 0 || found.amount >= 0)) {
+      headerIndex = i;
+      columns = found;
+      break;
+    }
+  }
+  if (headerIndex < 0) {
+    throw new ApiError(
+      'Could not find the date and amount columns in the statement. Name them with the column mapping fields.',
+      400,
+      'INVALID_STATEMENT',
+    );
+  }
+
+  const lines: ParsedLine[] = [];
+  let skippedRows = 0;
+  for (let i = headerIndex + 1; i < rows.length; i += 1) {
+    const row = rows[i];
+    if (row.every((cell) => String(cell ?? '').trim() === '')) continue;
+    const txnDate = parseStatementDate(row[columns.date]);
+    let amount: number | null;
+    if (columns.credit >= 0) {
+      amount = parseAmount(row[columns.credit]);
+    } else {
+      amount = parseAmount(row[columns.amount]);
+      const direction = columns.direction >= 0 ? String(row[columns.direction] ?? '').trim().toLowerCase() : '';
+      if (direction.startsWith('d')) amount = null;
+    }
+    if (!txnDate || amount === null || amount <= 0) {
+      skippedRows += 1;
+      continue;
+    }
+    const text = (index: number) => (index >= 0 ? String(row[index] ?? '').trim() || undefined : undefined);
+    lines.push({
+      lineNumber: i + 1,
+      txnDate,
+      amount,
+      reference: text(columns.reference),
+      description: text(columns.description)?.slice(0, 1000),
+    });
+  }
+  return { lines, skippedRows };
+}
+
+// ── Matching ──────────────────────────────────────────────────────
+
+/**
+ * Payments as the bank sees them: a family payment split across siblings is
+ * one transfer, so its shares are matched together.
+ */
+interface PaymentGroup {
+  ids: Types.ObjectId[];
+  amount: number;
+  paymentDate: Date;
+  transactionId?: string;
+  reference: string;
+}
+
+function groupPayments(payments: any[]): PaymentGroup[] {
+  const groups = new Map<string, PaymentGroup>();
+  for (const p of payments) {
+    const key = (p.familyPaymentId ?? p._id).toString();
+    const group = groups.get(key);
+    if (group) {
+      group.ids.push(p._id);
+      group.amount += p.amount;
+    } else {
+      groups.set(key, {
+        ids: [p._id],
+        amount: p.amount,
+        paymentDate: p.paymentDate,
+        transactionId: p.transactionId,
+        reference: normalizeReference(p.transactionId),
+      });
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Match the statement's unmatched lines to unclaimed payments, in two passes:
+ *   1. reference — the line's reference (or narration) carries a payment's
+ *      transactionId. A differing amount or date still links the two but marks
+ *      the line 'mismatch' so the discrepancy is looked at.
+ *   2. amount + date — same amount within dateWindowDays. Taken only when one
+ *      payment is nearest; ties are left for the admin.
+ * Lines already matched, mismatched or ignored are left as they are.
+ */
+async function matchLines(statement: IBankStatement): Promise<void> {
+  const open = statement.lines.filter((l) => l.status === 'unmatched');
+  if (open.length === 0) return;
+
+  const windowDays = statement.dateWindowDays;
+  const claimed = new Set(statement.lines.flatMap((l) => l.paymentTransactionIds.map((id) => id.toString())));
+  const references = [...new Set(open.map((l) => l.reference).filter((r): r is string => !!r))];
+  const payments = await PaymentTransaction.find({
+    isReversed: { $ne: true },
+    $or: [
+      {
+        paymentMethod: { $ne: 'cash' },
+        paymentDate: {
+          $gte: new Date(statement.periodFrom.getTime() - windowDays * DAY_MS),
+          $lt: new Date(statement.periodTo.getTime() + (windowDays + 1) * DAY_MS),
+        },
+      },
+      ...(references.length > 0 ? [{ transactionId: { $in: references } }] : []),
+    ],
+  }).select(PAYMENT_FIELDS).lean();
+  const groups = groupPayments(payments).filter((g) => !g.ids.some((id) => claimed.has(id.toString())));
+
+  const take = (line: IStatementLine, group: PaymentGroup, matchType: StatementMatchType, problems: string[]) => {
+    line.status = problems.length > 0 ? 'mismatch' : 'matched';
+    line.matchType = matchType;
+    line.paymentTransactionIds = group.ids;
+    line.note = problems.length > 0 ? problems.join('; ') : undefined;
+    groups.splice(groups.indexOf(group), 1);
+  };
+
+  for (const line of open) {
+    const reference = normalizeReference(line.reference);
+    const narration = normalizeReference(line.description);
+    const group = groups.find((g) => g.reference && (
+      g.reference === reference
+      || (g.reference.length >= MIN_REFERENCE_IN_TEXT && narration.includes(g.reference))
+    ));
+    if (!group) continue;
+    const problems: string[] = [];
+    if (group.amount !== line.amount) problems.push(`Amount differs: bank ₹${line.amount}, LMS ₹${group.amount}`);
+    const apart = daysApart(group.paymentDate, line.txnDate);
+    if (apart > windowDays) problems.push(`Date differs by ${apart} days`);
+    take(line, group, 'transaction_id', problems);
+  }
+
+  const remaining = open
+    .filter((l) => l.status === 'unmatched')
+    .sort((a, b) => a.txnDate.getTime() - b.txnDate.getTime());
+  for (const line of remaining) {
+    const candidates = groups
+      .filter((g) => g.amount === line.amount && daysApart(g.paymentDate, line.txnDate) <= windowDays)
+      .sort((a, b) => daysApart(a.paymentDate, line.txnDate) - daysApart(b.paymentDate, line.txnDate));
+    if (candidates.length === 0) {
+      line.note = undefined;
+      continue;
+    }
+    if (candidates.length > 1
+      && daysApart(candidates[0].paymentDate, line.txnDate) === daysApart(candidates[1].paymentDate, line.txnDate)) {
+      line.note = `${candidates.length} payments of ₹${line.amount} within ${windowDays} days; not matched automatically`;
+      continue;
+    }
+    const group = candidates[0];
+    const reference = normalizeReference(line.reference);
+    const problems = reference && group.reference && reference !== group.reference
+      ? [`Reference differs: bank ${line.reference}, LMS ${group.transactionId}`]
+      : [];
+    take(line, group, 'amount_date', problems);
+  }
+}
+
+// ── Statements ────────────────────────────────────────────────────
+
+/** Parse, store and reconcile a statement. Returns the reconciliation report. */
+export async function importStatement(params: {
+  fileName: string;
+  buffer: Buffer;
+  mapping?: StatementColumnMapping;
+  dateWindowDays?: number;
+  adminUserId: string;
+}) {
+  const { lines, skippedRows } = parseStatement(params.buffer, params.mapping);
+  if (lines.length === 0) {
+    throw new ApiError('No incoming credits were found in the statement', 400, 'INVALID_STATEMENT');
+  }
+  const dates = lines.map((l) => l.txnDate.getTime());
+  const statement = new BankStatement({
+    fileName: params.fileName,
+    periodFrom: new Date(Math.min(...dates)),
+    periodTo: new Date(Math.max(...dates)),
+    dateWindowDays: params.dateWindowDays ?? DEFAULT_MATCH_WINDOW_DAYS,
+    lines: lines.map((l) => ({ ...l, status: 'unmatched', paymentTransactionIds: [] })),
+    skippedRows,
+    uploadedBy: new Types.ObjectId(params.adminUserId),
+  });
+  await matchLines(statement);
+  await statement.save();
+  return getReconciliationReport(statement._id.toString());
+}
+
+/** Re-run matching for unmatched lines, e.g. after payments were recorded by hand. */
+export async function rematchStatement(statementId: string) {
+  const statement = await BankStatement.findById(statementId);
+  if (!statement) throw new ApiError('Statement not found', 404, 'NOT_FOUND');
+  await matchLines(statement);
+  await statement.save();
+  return getReconciliationReport(statementId);
+}
+
+function lineCounts(lines: IStatementLine[]): Record<StatementLineStatus, number> {
+  const counts: Record<StatementLineStatus, number> = { matched: 0, mismatch: 0, unmatched: 0, ignored: 0 };
+  for (const line of lines) counts[line.status] += 1;
+  return counts;
+}
+
+export async function listStatements(limit = 50) {
+  const statements = await BankStatement.find()
+    .populate('uploadedBy', 'name')
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean();
+  return statements.map(({ _id, lines, ...rest }) => ({
+    ...rest,
+    id: _id.toString(),
+    lineCount: lines.length,
+    counts: lineCounts(lines),
+  }));
+}
+
+/**
+ * The reconciliation report: every statement line with its linked payments,
+ * plus non-cash payments dated inside the statement period that no line
+ * accounts for (unmatched in the bank, i.e. recorded in the LMS only).
+ */
+export async function getReconciliationReport(statementId: string) {
+  const statement = await BankStatement.findById(statementId).populate('uploadedBy', 'name').lean();
+  if (!statement) throw new ApiError('Statement not found', 404, 'NOT_FOUND');
+
+  const linkedIds = statement.lines.flatMap((l) => l.paymentTransactionIds);
+  const [linked, unmatchedInLms] = await Promise.all([
+    PaymentTransaction.find({ _id: { $in: linkedIds } }).select(PAYMENT_FIELDS).lean(),
+    PaymentTransaction.find({
+      _id: { $nin: linkedIds },
+      isReversed: { $ne: true },
+      paymentMethod: { $ne: 'cash' },
+      paymentDate: { $gte: statement.periodFrom, $lt: new Date(statement.periodTo.getTime() + DAY_MS) },
+    }).select(PAYMENT_FIELDS).sort({ paymentDate: 1 }).lean(),
+  ]);
+  const paymentById = new Map(linked.map((p) => [p._id.toString(), p]));
+
+  const { _id, lines, ...rest } = statement;
+  const counts = lineCounts(lines);
+  const total = (status: StatementLineStatus) =>
+    lines.filter((l) => l.status === status).reduce((sum, l) => sum + l.amount, 0);
+
+  return {
+    statement: { ...rest, id: _id.toString() },
+    summary: {
+      lines: lines.length,
+      ...counts,
+      unmatchedInLms: unmatchedInLms.length,
+      bankTotal: lines.reduce((sum, l) => sum + l.amount, 0),
+      matchedTotal: total('matched') + total('mismatch'),
+      unmatchedTotal: total('unmatched'),
+      unmatchedInLmsTotal: unmatchedInLms.reduce((sum, p) => sum + p.amount, 0),
+    },
+    lines: lines.map(({ _id: lineId, paymentTransactionIds, ...line }) => ({
+      ...line,
+      id: lineId.toString(),
+      payments: paymentTransactionIds.map((id) => paymentById.get(id.toString())).filter(Boolean),
+    })),
+    unmatchedInLms,
+  };
+}
+
+async function loadLine(statementId: string, lineId: string, session?: mongoose.ClientSession) {
+  const statement = await BankStatement.findById(statementId).session(session ?? null);
+  if (!statement) throw new ApiError('Statement not found', 404, 'NOT_FOUND');
+  const line = statement.lines.find((l) => l._id.toString() === lineId);
+  if (!line) throw new ApiError('Statement line not found', 404, 'NOT_FOUND');
+  return { statement, line };
+}
+
+/**
+ * Record a payment for an unmatched bank line against the chosen student. The
+ * line's date, amount and reference become the payment's paymentDate, amount
+ * and transactionId, and the line is linked to it in the same transaction.
+ */
+export async function recordPaymentFromLine(
+  statementId: string,
+  lineId: string,
+  params: { studentId: string; paymentMethod: IPaymentTransaction['paymentMethod']; invoiceIds?: string[] },
+  adminUserId: string,
+) {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const { statement, line } = await loadLine(statementId, lineId, session);
+    if (line.status !== 'unmatched') {
+      throw new ApiError('Only unmatched lines can be recorded as payments', 409, 'LINE_ALREADY_RESOLVED');
+    }
+    if (!Number.isInteger(line.amount)) {
+      throw new ApiError('The bank amount includes paise; record this payment manually', 422, 'FRACTIONAL_AMOUNT');
+    }
+    const result = await processPayment(
+      params.studentId,
+      line.amount,
+      params.invoiceIds ?? [],
+      params.paymentMethod,
+      adminUserId,
+      line.reference,
+      {
+        paymentDate: line.txnDate,
+        idempotencyKey: `statement-line:${line._id.toString()}`,
+        remarks: `Recorded from bank statement ${statement.fileName}, line ${line.lineNumber}`,
+        session,
+      },
+    );
+    line.status = 'matched';
+    line.matchType = 'created';
+    line.paymentTransactionIds = [new Types.ObjectId(result.paymentTransactionId!)];
+    line.note = undefined;
+    await statement.save({ session });
+    await session.commitTransaction();
+    return result;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/** Set aside a line that is not a fee payment (interest, refunds), or bring it back. */
+export async function setLineIgnored(statementId: string, lineId: string, ignored: boolean, note?: string) {
+  const { statement, line } = await loadLine(statementId, lineId);
+  if (ignored ? line.status !== 'unmatched' : line.status !== 'ignored') {
+    throw new ApiError(
+      ignored ? 'Only unmatched lines can be ignored' : 'Line is not ignored',
+      409,
+      'INVALID_LINE_STATE',
+    );
+  }
+  line.status = ignored ? 'ignored' : 'unmatched';
+  line.note = ignored ? note : undefined;
+  await statement.save();
+  return line;
+}
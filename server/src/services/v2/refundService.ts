@@ -0,0 +1,178 @@
+import mongoose, { ClientSession, Types } from 'mongoose';
+import { config } from '../../config/index.js';
+import CreditLedger from '../../models/v2/CreditLedger.js';
+import CreditRefund, { CreditRefundStatus, ICreditRefund, RefundMethod } from '../../models/v2/CreditRefund.js';
+import StudentV2 from '../../models/v2/Student.js';
+import { ApiError } from '../../utils/errors.js';
+
+export const REFUND_METHODS: RefundMethod[] = ['cash', 'online', 'card', 'upi', 'other'];
+
+const METHOD_LABELS: Record<RefundMethod, string> = {
+  cash: 'cash', online: 'online transfer', card: 'card', upi: 'UPI', other: 'other',
+};
+
+export interface CreditRefundInput {
+  amount: number;
+  paymentMethod: RefundMethod;
+  reference?: string;
+  refundDate?: Date;
+  reason: string;
+}
+
+/** Whether a refund of this amount needs a superadmin, given who is asking. */
+export function refundNeedsApproval(amount: number, role: string): boolean {
+  return role !== 'superadmin' && amount > config.refundApprovalThreshold;
+}
+
+/**
+ * Pay the refund out: decrement the balance atomically (refusing to take it
+ * below zero), write the credit_refund ledger entry and mark it completed.
+ */
+async function payOut(refund: ICreditRefund, approverId: string, session: ClientSession): Promise<void> {
+  const after = await StudentV2.findOneAndUpdate(
+    { _id: refund.studentId, creditBalance: { $gte: refund.amount } },
+    { $inc: { creditBalance: -refund.amount } },
+    { session, runValidators: true, returnDocument: 'after' },
+  );
+  if (!after) {
+    const student = await StudentV2.findById(refund.studentId).select('creditBalance').session(session).lean();
+    throw new ApiError(
+      `Refund of ₹${refund.amount} exceeds the available credit balance of ₹${student?.creditBalance ?? 0}`,
+      422,
+      'INSUFFICIENT_CREDIT',
+    );
+  }
+  const [entry] = await CreditLedger.create([{
+    studentId: refund.studentId,
+    studentName: refund.studentName,
+    type: 'credit_refund',
+    amount: -refund.amount,
+    balanceBefore: after.creditBalance + refund.amount,
+    balanceAfter: after.creditBalance,
+    description: `Refunded to parent by ${METHOD_LABELS[refund.paymentMethod]}${refund.reference ? ` (ref ${refund.reference})` : ''}: ${refund.reason}`,
+    processedBy: new Types.ObjectId(approverId),
+    processedAt: refund.refundDate,
+    createdBySource: 'manual',
+  }], { session });
+
+  refund.status = 'completed';
+  refund.approvedBy = new Types.ObjectId(approverId);
+  refund.approvedAt = new Date();
+  refund.creditLedgerId = entry._id as Types.ObjectId;
+  await refund.save({ session });
+}
+
+async function inTransaction<T>(work: (session: ClientSession) => Promise<T>): Promise<T> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const result = await work(session);
+    await session.commitTransaction();
+    return result;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Refund part or all of a student's credit balance. Paid out straight away
+ * when refundNeedsApproval is false; otherwise left pending for a superadmin.
+ * Pending refunds count against the balance so two requests cannot promise
+ * the same credit twice.
+ */
+export async function requestCreditRefund(
+  studentId: string,
+  input: CreditRefundInput,
+  requester: { id: string; role: string },
+): Promise<ICreditRefund> {
+  if (!Types.ObjectId.isValid(studentId)) throw new ApiError('Invalid student ID', 400, 'VALIDATION_ERROR');
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    throw new ApiError('amount must be a whole number greater than 0', 400, 'VALIDATION_ERROR');
+  }
+  if (!REFUND_METHODS.includes(input.paymentMethod)) {
+    throw new ApiError(`paymentMethod must be one of: ${REFUND_METHODS.join(', ')}`, 400, 'VALIDATION_ERROR');
+  }
+  if (!input.reason?.trim()) throw new ApiError('reason is required', 400, 'VALIDATION_ERROR');
+
+  const student = await StudentV2.findById(studentId).select('studentName creditBalance').lean();
+  if (!student) throw new ApiError('Student not found', 404, 'NOT_FOUND');
+  const pending = await CreditRefund.aggregate([
+    { $match: { studentId: student._id, status: 'pending' } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ]);
+  const available = student.creditBalance - (pending[0]?.total ?? 0);
+  if (input.amount > available) {
+    throw new ApiError(
+      `Refund of ₹${input.amount} exceeds the available credit balance of ₹${Math.max(0, available)}`
+        + `${pending[0]?.total ? ` (₹${pending[0].total} already awaiting approval)` : ''}`,
+      422,
+      'INSUFFICIENT_CREDIT',
+    );
+  }
+
+  return inTransaction(async (session) => {
+    const [refund] = await CreditRefund.create([{
+      studentId: student._id,
+      studentName: student.studentName,
+      amount: input.amount,
+      paymentMethod: input.paymentMethod,
+      reference: input.reference?.trim() || undefined,
+      refundDate: input.refundDate ?? new Date(),
+      reason: input.reason.trim(),
+      requestedBy: new Types.ObjectId(requester.id),
+    }], { session });
+    if (!refundNeedsApproval(input.amount, requester.role)) await payOut(refund, requester.id, session);
+    return refund;
+  });
+}
+
+async function pendingRefund(refundId: string, session: ClientSession): Promise<ICreditRefund> {
+  if (!Types.ObjectId.isValid(refundId)) throw new ApiError('Invalid refund ID', 400, 'VALIDATION_ERROR');
+  const refund = await CreditRefund.findById(refundId).session(session);
+  if (!refund) throw new ApiError('Refund not found', 404, 'NOT_FOUND');
+  if (refund.status !== 'pending') throw new ApiError(`Refund is already ${refund.status}`, 409, 'CONFLICT');
+  return refund;
+}
+
+/** Superadmin approval: pays the refund out. refundDate may be updated to when the money actually left. */
+export async function approveCreditRefund(
+  refundId: string,
+  approverId: string,
+  updates: { refundDate?: Date; reference?: string } = {},
+): Promise<ICreditRefund> {
+  return inTransaction(async (session) => {
+    const refund = await pendingRefund(refundId, session);
+    if (updates.refundDate) refund.refundDate = updates.refundDate;
+    if (updates.reference?.trim()) refund.reference = updates.reference.trim();
+    await payOut(refund, approverId, session);
+    return refund;
+  });
+}
+
+export async function rejectCreditRefund(refundId: string, rejecterId: string, reason: string): Promise<ICreditRefund> {
+  if (!reason?.trim()) throw new ApiError('reason is required', 400, 'VALIDATION_ERROR');
+  return inTransaction(async (session) => {
+    const refund = await pendingRefund(refundId, session);
+    refund.status = 'rejected';
+    refund.rejectedBy = new Types.ObjectId(rejecterId);
+    refund.rejectedAt = new Date();
+    refund.rejectionReason = reason.trim();
+    await refund.save({ session });
+    return refund;
+  });
+}
+
+/** Newest first, as documents so they serialise like the refunds requestCreditRefund returns. */
+export async function listCreditRefunds(filter: { studentId?: string; status?: CreditRefundStatus } = {}) {
+  const query: Record<string, unknown> = {};
+  if (filter.studentId) query.studentId = new Types.ObjectId(filter.studentId);
+  if (filter.status) query.status = filter.status;
+  return CreditRefund.find(query)
+    .sort({ createdAt: -1 })
+    .populate('requestedBy', 'name email')
+    .populate('approvedBy', 'name email')
+    .populate('rejectedBy', 'name email');
+}
@@ -0,0 +1,134 @@
+import { appendFile } from 'fs/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../../config/index.js';
+import { ApiError } from '../../utils/errors.js';
+
+/** Who a reminder is about and the contact details on file for them. */
+export interface ReminderRecipient {
+  studentName: string;
+  parentName?: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface ReminderMessage {
+  to: ReminderRecipient;
+  subject: string;
+  body: string;
+}
+
+export interface ReminderDelivery {
+  recipient: string;
+  // For channels the admin completes by hand (WhatsApp): the link to open.
+  link?: string;
+}
+
+/**
+ * A way of delivering reminders. Register new ones with
+ * registerReminderChannel; campaigns and one-off reminders pick by name.
+ */
+export interface ReminderChannel {
+  name: string;
+  label: string;
+  /** The address used for this student, or null when the channel cannot reach them. */
+  recipientFor(to: ReminderRecipient): string | null;
+  /** Why the channel cannot send right now (e.g. not configured), or null. */
+  unavailableReason(): string | null;
+  deliver(message: ReminderMessage, recipient: string): Promise<ReminderDelivery>;
+}
+
+const channels = new Map<string, ReminderChannel>();
+
+export function registerReminderChannel(channel: ReminderChannel): void {
+  channels.set(channel.name, channel);
+}
+
+/** Resolve a channel by name, rejecting unknown or unavailable ones. */
+export function getReminderChannel(name: string): ReminderChannel {
+  const channel = channels.get(name);
+  if (!channel) {
+    throw new ApiError(`Unknown reminder channel "${name}". Use one of ${[...channels.keys()].join(', ')}`, 400, 'INVALID_CHANNEL');
+  }
+  const reason = channel.unavailableReason();
+  if (reason) throw new ApiError(reason, 400, 'CHANNEL_UNAVAILABLE');
+  return channel;
+}
+
+export function listReminderChannels() {
+  return [...channels.values()].map((c) => ({
+    name: c.name,
+    label: c.label,
+    available: c.unavailableReason() === null,
+    unavailableReason: c.unavailableReason(),
+  }));
+}
+
+// ── WhatsApp (click-to-send link) ─────────────────────────────────
+
+/** Phone in international form without "+", defaulting to India (91). */
+function whatsAppNumber(phone?: string): string | null {
+  let digits = (phone ?? '').replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  if (digits.length === 10) digits = `91${digits}`;
+  return digits.length >= 11 && digits.length <= 15 ? digits : null;
+}
+
+registerReminderChannel({
+  name: 'whatsapp',
+  label: 'WhatsApp link',
+  recipientFor: (to) => whatsAppNumber(to.phone),
+  unavailableReason: () => null,
+  async deliver(message, recipient) {
+    return { recipient, link: `https://wa.me/${recipient}?text=${encodeURIComponent(message.body)}` };
+  },
+});
+
+// ── Email (SMTP) ──────────────────────────────────────────────────
+
+let transporter: Transporter | null = null;
+
+function smtpTransport(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: config.smtpHost,
+      port: config.smtpPort,
+      secure: config.smtpSecure,
+      auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPass } : undefined,
+    });
+  }
+  return transporter;
+}
+
+registerReminderChannel({
+  name: 'email',
+  label: 'Email',
+  recipientFor: (to) => (to.email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to.email) ? to.email.toLowerCase() : null),
+  unavailableReason: () => (config.smtpHost && config.smtpFrom ? null : 'Email reminders need SMTP_HOST and SMTP_FROM to be configured'),
+  async deliver(message, recipient) {
+    await smtpTransport().sendMail({
+      from: `${config.organizationName} <${config.smtpFrom}>`,
+      to: recipient,
+      subject: message.subject,
+      text: message.body,
+    });
+    return { recipient };
+  },
+});
+
+// ── Log sink (testing) ────────────────────────────────────────────
+
+registerReminderChannel({
+  name: 'log',
+  label: config.reminderLogFile ? `Log file (${config.reminderLogFile})` : 'Server console',
+  recipientFor: (to) => to.phone || to.email || to.studentName,
+  unavailableReason: () => null,
+  async deliver(message, recipient) {
+    const entry = { at: new Date().toISOString(), recipient, subject: message.subject, body: message.body };
+    if (config.reminderLogFile) {
+      await appendFile(config.reminderLogFile, `${JSON.stringify(entry)}\n`, 'utf8');
+    } else {
+      console.log('📨 Fee reminder', entry);
+    }
+    return { recipient };
+  },
+});
@@ -0,0 +1,366 @@
+import { Types } from 'mongoose';
+import { config } from '../../config/index.js';
+import { ApiError } from '../../utils/errors.js';
+import Invoice from '../../models/v2/Invoice.js';
+import StudentV2 from '../../models/v2/Student.js';
+import ReminderTemplate from '../../models/v2/ReminderTemplate.js';
+import ReminderCampaign, { IReminderCampaign } from '../../models/v2/ReminderCampaign.js';
+import ReminderLog, { IReminderLog } from '../../models/v2/ReminderLog.js';
+import { overdueInvoiceFilter } from './feeService.js';
+import { enrolledInMatch } from './listFilterService.js';
+import { ReminderChannel, ReminderRecipient, getReminderChannel } from './reminderChannels.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A student is not reminded again by a campaign within this many days. */
+export const DEFAULT_COOLDOWN_DAYS = 7;
+
+export const REMINDER_PLACEHOLDERS = [
+  'studentName',
+  'parentName',
+  'monthsDue',
+  'balanceDue',
+  'dueDate',
+  'organizationName',
+] as const;
+
+/** Used when a campaign or reminder names no template. */
+export const DEFAULT_REMINDER_TEMPLATE = {
+  name: 'Default fee reminder',
+  subject: 'Fee reminder for {{studentName}}',
+  body: `Hello {{parentName}},
+
+This is a gentle reminder that fees of ₹{{balanceDue}} for {{studentName}} ({{monthsDue}}) have been due since {{dueDate}}.
+
+We request you to kindly make the payment at your earliest convenience to avoid any interruption in classes.
+
+For any queries regarding payment, please feel free to contact us.
+
+Thank you!
+{{organizationName}}`,
+};
+
+export interface CampaignFilters {
+  courseId?: string;
+  stageNumber?: number;
+  levelNumber?: number;
+  batchId?: string;
+  minBalance?: number;
+}
+
+export type SkipReason = 'recent' | 'no_contact';
+
+interface ResolvedTemplate {
+  id: Types.ObjectId | null;
+  name: string;
+  subject: string;
+  body: string;
+}
+
+interface OverdueSummary {
+  balanceDue: number;
+  monthsDue: Date[];
+  dueDate: Date;
+}
+
+/** Placeholders in text that are not in REMINDER_PLACEHOLDERS. */
+export function unknownPlaceholders(text: string): string[] {
+  const used = [...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map((m) => m[1]);
+  return [...new Set(used.filter((name) => !(REMINDER_PLACEHOLDERS as readonly string[]).includes(name)))];
+}
+
+export function renderTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => vars[name] ?? match);
+}
+
+async function resolveTemplate(templateId?: string): Promise<ResolvedTemplate> {
+  if (!templateId) return { id: null, ...DEFAULT_REMINDER_TEMPLATE };
+  const template = await ReminderTemplate.findById(templateId);
+  if (!template) throw new ApiError('Reminder template not found', 404, 'NOT_FOUND');
+  if (!template.isActive) throw new ApiError('Reminder template is inactive', 400, 'TEMPLATE_INACTIVE');
+  return {
+    id: template._id as Types.ObjectId,
+    name: template.name,
+    subject: template.subject || DEFAULT_REMINDER_TEMPLATE.subject,
+    body: template.body,
+  };
+}
+
+/** Overdue balance, invoice months and earliest due date per student. */
+async function overdueSummaries(studentIds?: Types.ObjectId[]): Promise<Map<string, OverdueSummary>> {
+  const rows = await Invoice.aggregate([
+    { $match: { ...overdueInvoiceFilter(), ...(studentIds ? { studentId: { $in: studentIds } } : {}) } },
+    {
+      $group: {
+        _id: '$studentId',
+        balanceDue: { $sum: { $subtract: ['$amount', { $add: ['$allocatedAmount', '$waivedAmount'] }] } },
+        monthsDue: { $addToSet: '$invoiceMonth' },
+        dueDate: { $min: '$dueDate' },
+      },
+    },
+  ]);
+  return new Map(rows.map((r: any) => [
+    r._id.toString(),
+    { balanceDue: r.balanceDue, monthsDue: (r.monthsDue as Date[]).sort((a, b) => a.getTime() - b.getTime()), dueDate: r.dueDate },
+  ]));
+}
+
+/** Latest delivered reminder per student within the cooldown; a generated WhatsApp link counts. */
+async function recentReminders(studentIds: Types.ObjectId[], cooldownDays: number): Promise<Map<string, Date>> {
+  if (cooldownDays <= 0 || studentIds.length === 0) return new Map();
+  const rows = await ReminderLog.aggregate([
+    {
+      $match: {
+        studentId: { $in: studentIds },
+        status: { $in: ['sent', 'link_generated'] },
+        sentAt: { $gte: new Date(Date.now() - cooldownDays * DAY_MS) },
+      },
+    },
+    { $group: { _id: '$studentId', lastSentAt: { $max: '$sentAt' } } },
+  ]);
+  return new Map(rows.map((r: any) => [r._id.toString(), r.lastSentAt as Date]));
+}
+
+function templateVars(student: ReminderRecipient, summary: OverdueSummary): Record<string, string> {
+  return {
+    studentName: student.studentName,
+    parentName: student.parentName || student.studentName,
+    monthsDue: summary.monthsDue
+      .map((m) => m.toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' }))
+      .join(', '),
+    balanceDue: summary.balanceDue.toLocaleString('en-IN'),
+    dueDate: summary.dueDate.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' }),
+    organizationName: config.organizationName,
+  };
+}
+
+/**
+ * Render the reminder for one student and hand it to the channel. Delivery
+ * failures are logged (status 'failed'), not thrown; a delivery that only
+ * produced a link is logged as 'link_generated'.
+ */
+async function deliverReminder(params: {
+  student: ReminderRecipient & { _id: Types.ObjectId };
+  summary: OverdueSummary;
+  template: ResolvedTemplate;
+  channel: ReminderChannel;
+  recipient: string;
+  adminUserId: string;
+  campaignId?: Types.ObjectId;
+}): Promise<IReminderLog> {
+  const { student, summary, template, channel, recipient } = params;
+  const vars = templateVars(student, summary);
+  const subject = renderTemplate(template.subject, vars);
+  const message = renderTemplate(template.body, vars);
+  const base = {
+    studentId: student._id,
+    campaignId: params.campaignId ?? null,
+    templateId: template.id,
+    channel: channel.name,
+    recipient,
+    subject,
+    message,
+    balanceDue: summary.balanceDue,
+    monthsDue: summary.monthsDue,
+    sentBy: new Types.ObjectId(params.adminUserId),
+    sentAt: new Date(),
+  };
+  try {
+    const delivery = await channel.deliver({ to: student, subject, body: message }, recipient);
+    return await ReminderLog.create({ ...base, recipient: delivery.recipient, link: delivery.link, status: delivery.link ? 'link_generated' : 'sent' });
+  } catch (error: any) {
+    return ReminderLog.create({ ...base, status: 'failed', error: String(error?.message ?? error).slice(0, 1000) });
+  }
+}
+
+// ── Campaigns ─────────────────────────────────────────────────────
+
+/**
+ * Overdue students matching the filters (the students list's overdueOnly set,
+ * active students only), each with the reason they would be skipped, if any.
+ */
+async function campaignTargets(filters: CampaignFilters, channel: ReminderChannel, cooldownDays: number) {
+  const summaries = await overdueSummaries();
+  const query: any = {
+    _id: { $in: [...summaries.keys()].map((id) => new Types.ObjectId(id)) },
+    isActive: true,
+  };
+  const enrollmentMatch: Record<string, unknown> = {};
+  if (filters.courseId) enrollmentMatch.courseId = new Types.ObjectId(filters.courseId);
+  if (filters.stageNumber) enrollmentMatch.stageNumber = filters.stageNumber;
+  if (filters.levelNumber) enrollmentMatch.levelNumber = filters.levelNumber;
+  if (filters.batchId) enrollmentMatch.batchId = new Types.ObjectId(filters.batchId);
+  if (Object.keys(enrollmentMatch).length > 0) query.$and = [await enrolledInMatch(enrollmentMatch)];
+
+  const students = await StudentV2.find(query)
+    .select('studentName parentName phone email')
+    .sort({ studentName: 1 })
+    .lean();
+  const eligible = students.filter((s) => summaries.get(s._id.toString())!.balanceDue >= (filters.minBalance ?? 0));
+  const recent = await recentReminders(eligible.map((s) => s._id as Types.ObjectId), cooldownDays);
+
+  return eligible.map((student) => {
+    const key = student._id.toString();
+    const recipient = channel.recipientFor(student);
+    const lastRemindedAt = recent.get(key) ?? null;
+    const skip: SkipReason | null = lastRemindedAt ? 'recent' : recipient ? null : 'no_contact';
+    return { student, summary: summaries.get(key)!, recipient, lastRemindedAt, skip };
+  });
+}
+
+export interface CampaignParams {
+  templateId?: string;
+  channel: string;
+  filters?: CampaignFilters;
+  cooldownDays?: number;
+}
+
+/** Who a campaign would reach, with each rendered message. Sends nothing. */
+export async function previewCampaign(params: CampaignParams) {
+  const channel = getReminderChannel(params.channel);
+  const template = await resolveTemplate(params.templateId);
+  const targets = await campaignTargets(params.filters ?? {}, channel, params.cooldownDays ?? DEFAULT_COOLDOWN_DAYS);
+  return {
+    template: { id: template.id, name: template.name },
+    channel: channel.name,
+    recipients: targets.map(({ student, summary, recipient, lastRemindedAt, skip }) => ({
+      studentId: student._id.toString(),
+      studentName: student.studentName,
+      recipient,
+      balanceDue: summary.balanceDue,
+      monthsDue: summary.monthsDue,
+      lastRemindedAt,
+      skip,
+      message: renderTemplate(template.body, templateVars(student, summary)),
+    })),
+  };
+}
+
+/**
+ * Send the campaign: one reminder per targeted student, skipping anyone
+ * reminded within cooldownDays or unreachable on the channel. Messages go out
+ * one at a time so SMTP servers are not flooded.
+ */
+export async function runCampaign(params: CampaignParams & { adminUserId: string }) {
+  const channel = getReminderChannel(params.channel);
+  const template = await resolveTemplate(params.templateId);
+  const filters = params.filters ?? {};
+  const cooldownDays = params.cooldownDays ?? DEFAULT_COOLDOWN_DAYS;
+  const targets = await campaignTargets(filters, channel, cooldownDays);
+
+  const campaign = await ReminderCampaign.create({
+    templateId: template.id,
+    templateName: template.name,
+    channel: channel.name,
+    filters: {
+      courseId: filters.courseId ? new Types.ObjectId(filters.courseId) : null,
+      stageNumber: filters.stageNumber ?? null,
+      levelNumber: filters.levelNumber ?? null,
+      batchId: filters.batchId ? new Types.ObjectId(filters.batchId) : null,
+      minBalance: filters.minBalance ?? null,
+    },
+    cooldownDays,
+    targeted: targets.length,
+    createdBy: new Types.ObjectId(params.adminUserId),
+  });
+
+  // Counters are written as each message goes out, so an interrupted run
+  // still shows what it delivered.
+  const campaignId = campaign._id as Types.ObjectId;
+  const count = (counter: 'sent' | 'linksGenerated' | 'failed' | 'skippedRecent' | 'skippedNoContact') =>
+    ReminderCampaign.updateOne({ _id: campaignId }, { $inc: { [counter]: 1 } });
+
+  for (const target of targets) {
+    if (target.skip === 'recent') {
+      await count('skippedRecent');
+      continue;
+    }
+    if (target.skip === 'no_contact' || !target.recipient) {
+      await count('skippedNoContact');
+      continue;
+    }
+    const log = await deliverReminder({
+      student: target.student as ReminderRecipient & { _id: Types.ObjectId },
+      summary: target.summary,
+      template,
+      channel,
+      recipient: target.recipient,
+      adminUserId: params.adminUserId,
+      campaignId,
+    });
+    if (log.status === 'sent') await count('sent');
+    else if (log.status === 'link_generated') await count('linksGenerated');
+    else await count('failed');
+  }
+  await ReminderCampaign.updateOne({ _id: campaignId }, { $set: { finishedAt: new Date() } });
+  return getCampaign(campaign._id.toString());
+}
+
+export async function listCampaigns(limit = 30): Promise<IReminderCampaign[]> {
+  return ReminderCampaign.find()
+    .populate('createdBy', 'name email')
+    .sort({ startedAt: -1 })
+    .limit(limit);
+}
+
+export async function getCampaign(campaignId: string) {
+  const campaign = await ReminderCampaign.findById(campaignId).populate('createdBy', 'name email');
+  if (!campaign) throw new ApiError('Campaign not found', 404, 'NOT_FOUND');
+  const logs = await ReminderLog.find({ campaignId: campaign._id })
+    .populate('studentId', 'studentName studentCode')
+    .sort({ createdAt: 1 });
+  return { campaign, logs };
+}
+
+// ── One-off reminders ─────────────────────────────────────────────
+
+/**
+ * Remind one overdue student now. Refused with 409 when they were reminded
+ * within cooldownDays unless force is set; a delivery failure is logged and
+ * then surfaced as 502.
+ */
+export async function sendStudentReminder(
+  studentId: string,
+  params: { templateId?: string; channel: string; force?: boolean; cooldownDays?: number },
+  adminUserId: string,
+): Promise<IReminderLog> {
+  const channel = getReminderChannel(params.channel);
+  const template = await resolveTemplate(params.templateId);
+  const student = await StudentV2.findById(studentId).select('studentName parentName phone email').lean();
+  if (!student) throw new ApiError('Student not found', 404, 'NOT_FOUND');
+
+  const summary = (await overdueSummaries([student._id as Types.ObjectId])).get(student._id.toString());
+  if (!summary) throw new ApiError('Student has no overdue fees', 422, 'NOTHING_OVERDUE');
+  const recipient = channel.recipientFor(student);
+  if (!recipient) throw new ApiError(`No contact on file for ${channel.label}`, 422, 'NO_CONTACT');
+
+  if (!params.force) {
+    const recent = await recentReminders([student._id as Types.ObjectId], params.cooldownDays ?? DEFAULT_COOLDOWN_DAYS);
+    const last = recent.get(student._id.toString());
+    if (last) {
+      throw new ApiError(
+        `Already reminded on ${last.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}`,
+        409,
+        'REMINDED_RECENTLY',
+      );
+    }
+  }
+
+  const log = await deliverReminder({
+    student: student as ReminderRecipient & { _id: Types.ObjectId },
+    summary,
+    template,
+    channel,
+    recipient,
+    adminUserId,
+  });
+  if (log.status === 'failed') throw new ApiError(`Reminder could not be sent: ${log.error}`, 502, 'DELIVERY_FAILED');
+  return log;
+}
+
+export async function getStudentReminders(studentId: string): Promise<IReminderLog[]> {
+  return ReminderLog.find({ studentId: new Types.ObjectId(studentId) })
+    .populate('sentBy', 'name email')
+    .sort({ sentAt: -1 })
+    .limit(100);
+}
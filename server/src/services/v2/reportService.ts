@@ -0,0 +1,344 @@
+import { Types } from 'mongoose';
+import Invoice from '../../models/v2/Invoice.js';
+import Enrollment from '../../models/v2/Enrollment.js';
+import StudentV2 from '../../models/v2/Student.js';
+import Batch from '../../models/v2/Batch.js';
+import Course from '../../models/v2/Course.js';
+import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
+import WaiverLedger from '../../models/v2/WaiverLedger.js';
+import { ApiError } from '../../utils/errors.js';
+
+// ── Revenue & collections ─────────────────────────────────────────
+
+export interface RevenueMonth {
+  month: string;               // YYYY-MM
+  billed: number;              // non-void invoices for the month (tuition + late fees)
+  billedLateFees: number;      // of which late fees
+  voided: number;              // invoices for the month that were voided
+  collectedCash: number;       // payment allocations made in the month
+  collectedCredit: number;     // credit allocations made in the month
+  collected: number;           // cash + credit
+  waivedManual: number;
+  waivedDiscount: number;
+  waived: number;
+  outstanding: number;         // what is still unpaid today on the month's invoices
+}
+
+export interface RevenueDelta {
+  change: number;
+  pct: number | null;          // null when the earlier figure is 0
+}
+
+export type RevenueDeltaMetric = 'billed' | 'collected' | 'collectedCash' | 'waived' | 'outstanding';
+
+export const REVENUE_DELTA_METRICS: RevenueDeltaMetric[] = ['billed', 'collected', 'collectedCash', 'waived', 'outstanding'];
+
+export interface RevenueReportRow extends RevenueMonth {
+  monthOverMonth: Record<RevenueDeltaMetric, RevenueDelta>;
+  yearOverYear: Record<RevenueDeltaMetric, RevenueDelta>;
+}
+
+export interface RevenueReport {
+  from: string;
+  to: string;
+  months: RevenueReportRow[];
+  totals: Omit<RevenueMonth, 'month'>;
+}
+
+const MAX_REPORT_MONTHS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+function monthKey(d: Date): string {
+  return d.toISOString().slice(0, 7);
+}
+
+function addMonthsUTC(d: Date, months: number): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+}
+
+function emptyMonth(month: string): RevenueMonth {
+  return {
+    month,
+    billed: 0,
+    billedLateFees: 0,
+    voided: 0,
+    collectedCash: 0,
+    collectedCredit: 0,
+    collected: 0,
+    waivedManual: 0,
+    waivedDiscount: 0,
+    waived: 0,
+    outstanding: 0,
+  };
+}
+
+function delta(current: number, previous: number | undefined): RevenueDelta {
+  const before = previous ?? 0;
+  return { change: current - before, pct: before === 0 ? null : Math.round(((current - before) / before) * 1000) / 10 };
+}
+
+/**
+ * Per-month billing and collections between two months (inclusive, first of
+ * month UTC). Billed, voided and outstanding follow the invoice month, so
+ * they describe what was raised for that month; collections and waivers
+ * follow the day they happened (allocatedAt / waivedAt), so they describe
+ * cash flow. Reversed allocations and waivers are excluded.
+ *
+ * Each month carries month-over-month and year-over-year deltas; the twelve
+ * months before `from` are loaded for the comparison but not returned.
+ */
+export async function getRevenueReport(from: Date, to: Date): Promise<RevenueReport> {
+  if (to < from) throw new ApiError('to must not be before from', 400, 'VALIDATION_ERROR');
+  const rangeEnd = addMonthsUTC(to, 1);
+  const monthsInRange = (rangeEnd.getUTCFullYear() - from.getUTCFullYear()) * 12 + rangeEnd.getUTCMonth() - from.getUTCMonth();
+  if (monthsInRange > MAX_REPORT_MONTHS) {
+    throw new ApiError(`Report range cannot exceed ${MAX_REPORT_MONTHS} months`, 400, 'VALIDATION_ERROR');
+  }
+  const loadFrom = addMonthsUTC(from, -12);
+  const byMonth = { format: '%Y-%m', timezone: 'UTC' };
+
+  const [invoiceRows, allocationRows, waiverRows] = await Promise.all([
+    Invoice.aggregate([
+      { $match: { invoiceMonth: { $gte: loadFrom, $lt: rangeEnd } } },
+      {
+        $group: {
+          _id: { $dateToString: { date: '$invoiceMonth', ...byMonth } },
+          billed: { $sum: { $cond: ['$isVoid', 0, '$amount'] } },
+          billedLateFees: { $sum: { $cond: [{ $and: [{ $not: ['$isVoid'] }, { $eq: ['$kind', 'late_fee'] }] }, '$amount', 0] } },
+          voided: { $sum: { $cond: ['$isVoid', '$amount', 0] } },
+          outstanding: {
+            $sum: {
+              $cond: [
+                '$isVoid',
+                0,
+                { $max: [0, { $subtract: ['$amount', { $add: ['$allocatedAmount', { $ifNull: ['$waivedAmount', 0] }] }] }] },
+              ],
+            },
+          },
+        },
+      },
+    ]),
+    PaymentAllocation.aggregate([
+      { $match: { isReversed: { $ne: true }, allocatedAt: { $gte: loadFrom, $lt: rangeEnd } } },
+      {
+        $group: {
+          _id: { $dateToString: { date: '$allocatedAt', ...byMonth } },
+          collectedCash: { $sum: { $cond: [{ $eq: ['$allocationType', 'payment'] }, '$amount', 0] } },
+          collectedCredit: { $sum: { $cond: [{ $eq: ['$allocationType', 'credit'] }, '$amount', 0] } },
+        },
+      },
+    ]),
+    WaiverLedger.aggregate([
+      { $match: { reversedAt: null, waivedAt: { $gte: loadFrom, $lt: rangeEnd } } },
+      {
+        $group: {
+          _id: { $dateToString: { date: '$waivedAt', ...byMonth } },
+          waivedManual: { $sum: { $cond: [{ $eq: ['$waiverType', 'manual'] }, '$amount', 0] } },
+          waivedDiscount: { $sum: { $cond: [{ $eq: ['$waiverType', 'discount'] }, '$amount', 0] } },
+        },
+      },
+    ]),
+  ]);
+
+  const series = new Map<string, RevenueMonth>();
+  for (let m = loadFrom; m < rangeEnd; m = addMonthsUTC(m, 1)) series.set(monthKey(m), emptyMonth(monthKey(m)));
+  for (const row of invoiceRows) {
+    const month = series.get(row._id);
+    if (month) Object.assign(month, { billed: row.billed, billedLateFees: row.billedLateFees, voided: row.voided, outstanding: row.outstanding });
+  }
+  for (const row of allocationRows) {
+    const month = series.get(row._id);
+    if (month) Object.assign(month, { collectedCash: row.collectedCash, collectedCredit: row.collectedCredit });
+  }
+  for (const row of waiverRows) {
+    const month = series.get(row._id);
+    if (month) Object.assign(month, { waivedManual: row.waivedManual, waivedDiscount: row.waivedDiscount });
+  }
+  for (const month of series.values()) {
+    month.collected = month.collectedCash + month.collectedCredit;
+    month.waived = month.waivedManual + month.waivedDiscount;
+  }
+
+  const { month: _total, ...totals } = emptyMonth('');
+  const months: RevenueReportRow[] = [];
+  for (let m = from; m < rangeEnd; m = addMonthsUTC(m, 1)) {
+    const current = series.get(monthKey(m))!;
+    const lastMonth = series.get(monthKey(addMonthsUTC(m, -1)));
+    const lastYear = series.get(monthKey(addMonthsUTC(m, -12)));
+    const deltas = (previous: RevenueMonth | undefined) => Object.fromEntries(
+      REVENUE_DELTA_METRICS.map((metric) => [metric, delta(current[metric], previous?.[metric])]),
+    ) as Record<RevenueDeltaMetric, RevenueDelta>;
+    months.push({ ...current, monthOverMonth: deltas(lastMonth), yearOverYear: deltas(lastYear) });
+    for (const key of Object.keys(totals) as (keyof typeof totals)[]) totals[key] += current[key];
+  }
+
+  return { from: monthKey(from), to: monthKey(to), months, totals };
+}
+
+// ── Accounts receivable ageing ────────────────────────────────────
+
+export type AgeingBucket = 'current' | 'd0_30' | 'd31_60' | 'd61_90' | 'd90_plus';
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string }[] = [
+  { key: 'current', label: 'Not yet due' },
+  { key: 'd0_30', label: '0–30 days' },
+  { key: 'd31_60', label: '31–60 days' },
+  { key: 'd61_90', label: '61–90 days' },
+  { key: 'd90_plus', label: '90+ days' },
+];
+
+export type AgeingAmounts = Record<AgeingBucket, number> & { total: number };
+
+export interface AgeingStudentRow extends AgeingAmounts {
+  studentId: string;
+  studentName: string;
+  studentCode?: string;
+  isActive: boolean;
+  invoiceCount: number;
+  oldestDueDate: Date;
+  creditBalance: number;
+  net: number;                  // total less credit on account, never below 0
+}
+
+export interface AgeingGroupRow extends AgeingAmounts {
+  key: string;
+  label: string;
+  students: number;
+}
+
+export interface AgeingReport {
+  asOf: Date;
+  totals: AgeingAmounts & { creditApplied: number; net: number };  // creditApplied: credit up to each student's total
+  byStudent: AgeingStudentRow[];
+  byBatch: AgeingGroupRow[];
+  byStage: AgeingGroupRow[];
+}
+
+function ageingBucket(dueDate: Date, asOf: Date): AgeingBucket {
+  const days = Math.floor((asOf.getTime() - dateOnlyUTC(dueDate).getTime()) / DAY_MS);
+  if (days <= 0) return 'current';
+  if (days <= 30) return 'd0_30';
+  if (days <= 60) return 'd31_60';
+  if (days <= 90) return 'd61_90';
+  return 'd90_plus';
+}
+
+function emptyAmounts(): AgeingAmounts {
+  return { current: 0, d0_30: 0, d31_60: 0, d61_90: 0, d90_plus: 0, total: 0 };
+}
+
+/**
+ * Every unpaid, non-void invoice (tuition and late fees) bucketed by days
+ * past its due date as of asOf; an invoice due today is not yet due. Per
+ * student the total is netted against the credit on account. Batch and stage
+ * groups are gross: credit belongs to the student, not to any one invoice.
+ * The batch is the one the invoice's enrollment was in.
+ */
+export async function getAgeingReport(asOfInput: Date = new Date()): Promise<AgeingReport> {
+  const asOf = dateOnlyUTC(asOfInput);
+  const invoices = await Invoice.find({
+    isVoid: false,
+    $expr: { $gt: [{ $subtract: ['$amount', { $add: ['$allocatedAmount', { $ifNull: ['$waivedAmount', 0] }] }] }, 0] },
+  })
+    .select('studentId enrollmentId courseId stageNumber amount allocatedAmount waivedAmount dueDate')
+    .lean();
+
+  const idsOf = (values: (Types.ObjectId | null | undefined)[]) => [...new Set(values.filter(Boolean).map(String))];
+  const [students, enrollments] = await Promise.all([
+    StudentV2.find({ _id: { $in: idsOf(invoices.map((i) => i.studentId)) } })
+      .select('studentName studentCode isActive creditBalance')
+      .lean(),
+    Enrollment.find({ _id: { $in: idsOf(invoices.map((i) => i.enrollmentId)) } }).select('batchId').lean(),
+  ]);
+  const batchOfEnrollment = new Map(enrollments.map((e) => [e._id.toString(), e.batchId ? e.batchId.toString() : null]));
+  const [batches, courses] = await Promise.all([
+    Batch.find({ _id: { $in: idsOf(enrollments.map((e) => e.batchId)) } }).select('batchName batchCode').lean(),
+    Course.find({ _id: { $in: idsOf(invoices.map((i) => i.courseId)) } }).select('displayName stages').lean(),
+  ]);
+  const studentById = new Map(students.map((s) => [s._id.toString(), s]));
+  const batchById = new Map(batches.map((b) => [b._id.toString(), b]));
+  const courseById = new Map(courses.map((c) => [c._id.toString(), c]));
+
+  const byStudent = new Map<string, AgeingStudentRow>();
+  const groups = {
+    batch: new Map<string, AgeingGroupRow & { studentIds: Set<string> }>(),
+    stage: new Map<string, AgeingGroupRow & { studentIds: Set<string> }>(),
+  };
+  const addToGroup = (map: (typeof groups)['batch'], key: string, label: string, studentId: string, bucket: AgeingBucket, balance: number) => {
+    if (!map.has(key)) map.set(key, { key, label, students: 0, studentIds: new Set(), ...emptyAmounts() });
+    const row = map.get(key)!;
+    row[bucket] += balance;
+    row.total += balance;
+    row.studentIds.add(studentId);
+  };
+
+  for (const invoice of invoices) {
+    const studentId = invoice.studentId.toString();
+    const student = studentById.get(studentId);
+    if (!student) continue;
+    const balance = Math.max(0, invoice.amount - invoice.allocatedAmount - (invoice.waivedAmount ?? 0));
+    const bucket = ageingBucket(invoice.dueDate, asOf);
+
+    if (!byStudent.has(studentId)) {
+      byStudent.set(studentId, {
+        studentId,
+        studentName: student.studentName,
+        studentCode: student.studentCode,
+        isActive: student.isActive,
+        invoiceCount: 0,
+        oldestDueDate: invoice.dueDate,
+        creditBalance: student.creditBalance ?? 0,
+        net: 0,
+        ...emptyAmounts(),
+      });
+    }
+    const row = byStudent.get(studentId)!;
+    row[bucket] += balance;
+    row.total += balance;
+    row.invoiceCount += 1;
+    if (invoice.dueDate < row.oldestDueDate) row.oldestDueDate = invoice.dueDate;
+
+    const batchId = batchOfEnrollment.get(invoice.enrollmentId.toString()) ?? null;
+    const batch = batchId ? batchById.get(batchId) : undefined;
+    addToGroup(groups.batch, batchId ?? 'none', batch ? `${batch.batchName} (${batch.batchCode})` : 'No batch', studentId, bucket, balance);
+
+    const course = courseById.get(invoice.courseId.toString());
+    const stageName = course?.stages.find((st) => st.stageNumber === invoice.stageNumber)?.stageName ?? `Stage ${invoice.stageNumber}`;
+    addToGroup(
+      groups.stage,
+      `${invoice.courseId}:${invoice.stageNumber}`,
+      `${course?.displayName ?? 'Unknown course'} › ${stageName}`,
+      studentId,
+      bucket,
+      balance,
+    );
+  }
+
+  const totals = { ...emptyAmounts(), creditApplied: 0, net: 0 };
+  const studentRows = [...byStudent.values()];
+  for (const row of studentRows) {
+    row.net = Math.max(0, row.total - row.creditBalance);
+    for (const { key } of AGEING_BUCKETS) totals[key] += row[key];
+    totals.total += row.total;
+    totals.creditApplied += Math.min(row.creditBalance, row.total);
+    totals.net += row.net;
+  }
+  // Oldest debt first, then largest.
+  studentRows.sort((a, b) => b.d90_plus - a.d90_plus || b.d61_90 - a.d61_90 || b.total - a.total);
+
+  const finishGroups = (map: (typeof groups)['batch']): AgeingGroupRow[] => [...map.values()]
+    .map(({ studentIds, ...row }) => ({ ...row, students: studentIds.size }))
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    asOf,
+    totals,
+    byStudent: studentRows,
+    byBatch: finishGroups(groups.batch),
+    byStage: finishGroups(groups.stage),
+  };
+}
@@ -0,0 +1,265 @@
+import { Types } from 'mongoose';
+import Invoice from '../../models/v2/Invoice.js';
+import PaymentTransaction from '../../models/v2/PaymentTransaction.js';
+import PaymentAllocation from '../../models/v2/PaymentAllocation.js';
+import CreditLedger from '../../models/v2/CreditLedger.js';
+import WaiverLedger from '../../models/v2/WaiverLedger.js';
+import StudentV2 from '../../models/v2/Student.js';
+import { ApiError } from '../../utils/errors.js';
+
+// ── Student account statement ─────────────────────────────────────
+//
+// One chronological ledger per student. Balance is what the student owes:
+// invoices are debits, money received and waivers are credits, and voids and
+// reversals post the opposite entry on the day they happened. Credit on
+// account is not a separate balance here — an overpayment simply takes the
+// balance below zero, and spending that credit on an invoice is a memo line
+// that moves nothing.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dateOnlyUTC(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+export type StatementEntryType =
+  | 'invoice'
+  | 'late_fee'
+  | 'invoice_void'
+  | 'payment'
+  | 'payment_reversal'
+  | 'waiver'
+  | 'waiver_reversal'
+  | 'credit_applied'
+  | 'refund'
+  | 'credit_adjustment';
+
+export interface StatementEntry {
+  date: Date;
+  type: StatementEntryType;
+  description: string;
+  reference?: string;          // receipt number or invoice month
+  debit: number;
+  credit: number;
+  balance: number;             // running balance after this entry
+  invoiceId?: string;
+  paymentTransactionId?: string;
+}
+
+export interface StudentStatement {
+  student: { id: string; studentName: string; studentCode?: string; parentName?: string; phone?: string; email?: string };
+  from: Date | null;           // null = from the first entry
+  to: Date;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+  generatedAt: Date;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash', online: 'Online transfer', card: 'Card', upi: 'UPI', other: 'Other',
+};
+
+// Same-day entries read in this order: charges first, then what settled them.
+const TYPE_ORDER: Record<StatementEntryType, number> = {
+  invoice: 0, late_fee: 1, payment: 2, credit_applied: 3, waiver: 4, refund: 5, credit_adjustment: 6,
+  invoice_void: 7, waiver_reversal: 8, payment_reversal: 9,
+};
+
+function monthLabel(d: Date): string {
+  return d.toLocaleDateString('en-IN', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Statement for one student between from and to (inclusive dates; from
+ * defaults to the beginning of the account, to to today). Everything dated
+ * before from is rolled into the opening balance.
+ */
+export async function getStudentStatement(studentId: string, from?: Date | null, to?: Date | null): Promise<StudentStatement> {
+  if (!Types.ObjectId.isValid(studentId)) throw new ApiError('Invalid student ID', 400, 'VALIDATION_ERROR');
+  const student = await StudentV2.findById(studentId).select('studentName studentCode parentName phone email').lean();
+  if (!student) throw new ApiError('Student not found', 404, 'NOT_FOUND');
+
+  const start = from ? dateOnlyUTC(from) : null;
+  const end = dateOnlyUTC(to ?? new Date());
+  if (start && start > end) throw new ApiError('from must be on or before to', 400, 'VALIDATION_ERROR');
+  const endExclusive = new Date(end.getTime() + DAY_MS);
+
+  const [invoices, payments, allocations, credits, waivers] = await Promise.all([
+    Invoice.find({ studentId: student._id })
+      .select('invoiceMonth kind lateFee amount isVoid voidReason voidedAt createdAt')
+      .lean(),
+    PaymentTransaction.find({ studentId: student._id })
+      .select('amount paymentDate paymentMethod transactionId receiptNumber isReversed reversedAt reversalReason')
+      .lean(),
+    PaymentAllocation.find({ studentId: student._id, allocationType: 'payment', isReversed: { $ne: true } })
+      .select('invoiceId paymentTransactionId amount')
+      .lean(),
+    CreditLedger.find({ studentId: student._id }).lean(),
+    WaiverLedger.find({ studentId: student._id }).lean(),
+  ]);
+
+  const invoiceMonth = new Map(invoices.map((inv) => [inv._id.toString(), inv.invoiceMonth]));
+  const appliedTo = new Map<string, string[]>();
+  for (const alloc of allocations) {
+    if (!alloc.paymentTransactionId || !alloc.invoiceId) continue;
+    const month = invoiceMonth.get(alloc.invoiceId.toString());
+    const key = alloc.paymentTransactionId.toString();
+    appliedTo.set(key, [...(appliedTo.get(key) ?? []), `${month ? monthLabel(month) : 'invoice'} Rs. ${alloc.amount.toLocaleString('en-IN')}`]);
+  }
+  const heldAsCredit = new Map<string, number>();
+  for (const row of credits) {
+    if (row.type !== 'credit_added' || !row.paymentTransactionId) continue;
+    const key = row.paymentTransactionId.toString();
+    heldAsCredit.set(key, (heldAsCredit.get(key) ?? 0) + row.amount);
+  }
+
+  const raw: Omit<StatementEntry, 'balance'>[] = [];
+  for (const inv of invoices) {
+    const id = inv._id.toString();
+    const month = monthLabel(inv.invoiceMonth);
+    const isLateFee = inv.kind === 'late_fee';
+    raw.push({
+      date: isLateFee ? inv.lateFee?.assessedAt ?? inv.createdAt : inv.invoiceMonth,
+      type: isLateFee ? 'late_fee' : 'invoice',
+      description: isLateFee ? `Late fee on ${month} fees` : `Tuition fee for ${month}`,
+      reference: month,
+      debit: inv.amount,
+      credit: 0,
+      invoiceId: id,
+    });
+    if (inv.isVoid) {
+      raw.push({
+        date: inv.voidedAt ?? inv.createdAt,
+        type: 'invoice_void',
+        description: `${isLateFee ? 'Late fee' : 'Invoice'} for ${month} voided${inv.voidReason ? `: ${inv.voidReason}` : ''}`,
+        reference: month,
+        debit: 0,
+        credit: inv.amount,
+        invoiceId: id,
+      });
+    }
+  }
+
+  for (const payment of payments) {
+    const id = payment._id.toString();
+    const method = PAYMENT_METHOD_LABELS[payment.paymentMethod] ?? payment.paymentMethod;
+    const detail = [...(appliedTo.get(id) ?? [])];
+    const credit = heldAsCredit.get(id);
+    if (credit) detail.push(`Rs. ${credit.toLocaleString('en-IN')} held as credit`);
+    raw.push({
+      date: payment.paymentDate,
+      type: 'payment',
+      description: `Payment received (${method}${payment.transactionId ? ` ${payment.transactionId}` : ''})${detail.length ? ` - ${detail.join(', ')}` : ''}`,
+      reference: payment.receiptNumber,
+      debit: 0,
+      credit: payment.amount,
+      paymentTransactionId: id,
+    });
+    if (payment.isReversed) {
+      raw.push({
+        date: payment.reversedAt ?? payment.paymentDate,
+        type: 'payment_reversal',
+        description: `Payment reversed${payment.reversalReason ? `: ${payment.reversalReason}` : ''}`,
+        reference: payment.receiptNumber,
+        debit: payment.amount,
+        credit: 0,
+        paymentTransactionId: id,
+      });
+    }
+  }
+
+  for (const waiver of waivers) {
+    const month = monthLabel(waiver.invoiceMonth);
+    raw.push({
+      date: waiver.waivedAt,
+      type: 'waiver',
+      description: `${waiver.waiverType === 'discount' ? 'Discount' : 'Waiver'} on ${month} fees${waiver.reason ? ` (${waiver.reason})` : ''}`,
+      reference: month,
+      debit: 0,
+      credit: waiver.amount,
+      invoiceId: waiver.invoiceId.toString(),
+    });
+    if (waiver.reversedAt) {
+      raw.push({
+        date: waiver.reversedAt,
+        type: 'waiver_reversal',
+        description: `${waiver.waiverType === 'discount' ? 'Discount' : 'Waiver'} on ${month} fees reversed`,
+        reference: month,
+        debit: waiver.amount,
+        credit: 0,
+        invoiceId: waiver.invoiceId.toString(),
+      });
+    }
+  }
+
+  for (const row of credits) {
+    if (row.type === 'credit_used') {
+      const month = row.invoiceId ? invoiceMonth.get(row.invoiceId.toString()) : undefined;
+      raw.push({
+        date: row.processedAt,
+        type: 'credit_applied',
+        description: `Rs. ${Math.abs(row.amount).toLocaleString('en-IN')} of credit balance applied to ${month ? `${monthLabel(month)} fees` : 'an invoice'}`,
+        reference: month ? monthLabel(month) : undefined,
+        debit: 0,
+        credit: 0,
+        invoiceId: row.invoiceId?.toString(),
+      });
+    } else if (!row.paymentTransactionId) {
+      // Credit tied to a payment is already on the statement as that payment
+      // (or its reversal). Anything else moved money on its own: a refund
+      // paid out to the parent, or a manual adjustment.
+      const isRefund = row.type === 'credit_refund';
+      raw.push({
+        date: row.processedAt,
+        type: isRefund ? 'refund' : 'credit_adjustment',
+        description: row.description || (isRefund ? 'Credit refunded' : 'Credit adjusted'),
+        debit: row.amount < 0 ? -row.amount : 0,
+        credit: row.amount > 0 ? row.amount : 0,
+      });
+    }
+  }
+
+  raw.sort((a, b) => {
+    const byDay = dateOnlyUTC(a.date).getTime() - dateOnlyUTC(b.date).getTime();
+    return byDay || TYPE_ORDER[a.type] - TYPE_ORDER[b.type] || a.date.getTime() - b.date.getTime();
+  });
+
+  let openingBalance = 0;
+  let balance = 0;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  const entries: StatementEntry[] = [];
+  for (const entry of raw) {
+    if (entry.date >= endExclusive) continue;
+    balance += entry.debit - entry.credit;
+    if (start && entry.date < start) {
+      openingBalance = balance;
+      continue;
+    }
+    totalDebits += entry.debit;
+    totalCredits += entry.credit;
+    entries.push({ ...entry, balance });
+  }
+
+  return {
+    student: {
+      id: student._id.toString(),
+      studentName: student.studentName,
+      studentCode: student.studentCode,
+      parentName: student.parentName,
+      phone: student.phone,
+      email: student.email,
+    },
+    from: start,
+    to: end,
+    openingBalance,
+    totalDebits,
+    totalCredits,
+    closingBalance: balance,
+    entries,
+    generatedAt: new Date(),
+  };
+}
@@ -0,0 +1,223 @@
+import { Types } from 'mongoose';
+import Batch from '../../models/v2/Batch.js';
+import Course from '../../models/v2/Course.js';
+import StudentV2 from '../../models/v2/Student.js';
+import Enrollment from '../../models/v2/Enrollment.js';
+import BatchWaitlistEntry, { IBatchWaitlistEntry, WaitlistFee } from '../../models/v2/BatchWaitlist.js';
+import { addCourseEnrollment, changeBatch, waitlistPosition } from './feeService.js';
+import type { IEnrollment } from '../../types/v2.js';
+import { ApiError } from '../../utils/errors.js';
+
+// ── Batch waitlists ───────────────────────────────────────────────
+//
+// A full batch keeps a first-come queue of students who want in. Promotion
+// gives the next student a seat: a student already in the batch's course is
+// moved across with changeBatch, anyone else is enrolled in the course from
+// the promotion date at the fee recorded when they joined the queue.
+
+export interface SeatOffer {
+  entryId: string;
+  batchId: string;
+  batchName: string;
+  batchCode?: string;
+  freeSeats: number | null;    // null when the batch has no seat limit
+  studentId: string;
+  studentName: string;
+  position: number;
+  waitingSince: Date;
+  seatAvailableAt: Date | null;
+}
+
+function validId(id: string, label: string): Types.ObjectId {
+  if (!Types.ObjectId.isValid(id)) throw new ApiError(`Invalid ${label} ID`, 400, 'VALIDATION_ERROR');
+  return new Types.ObjectId(id);
+}
+
+async function findBatch(batchId: string) {
+  const batch = await Batch.findById(validId(batchId, 'batch'));
+  if (!batch) throw new ApiError('Batch not found', 404, 'NOT_FOUND');
+  return batch;
+}
+
+/** The batch's waiting students in queue order, with their 1-based position. */
+export async function listWaitlist(batchId: string) {
+  const entries = await BatchWaitlistEntry.find({ batchId: validId(batchId, 'batch'), status: 'waiting' })
+    .sort({ createdAt: 1 })
+    .populate('addedBy', 'name email');
+  return entries.map((entry, i) => ({ ...entry.toJSON(), position: i + 1 }));
+}
+
+/** Waiting students per batch, for batch lists. */
+export async function waitlistSizes(batchIds: Types.ObjectId[]): Promise<Map<string, number>> {
+  const rows = await BatchWaitlistEntry.aggregate([
+    { $match: { batchId: { $in: batchIds }, status: 'waiting' } },
+    { $group: { _id: '$batchId', count: { $sum: 1 } } },
+  ]);
+  return new Map(rows.map((row: any) => [row._id.toString(), row.count]));
+}
+
+/**
+ * Queue an existing student for a batch. A student not yet in the batch's
+ * course is held at the course's fee for the batch's level (no discount);
+ * students who join the queue as they are created carry their own pricing
+ * (see createStudentOnWaitlist).
+ */
+export async function addToWaitlist(
+  batchId: string,
+  studentId: string,
+  adminUserId: string,
+  note?: string,
+): Promise<{ entry: IBatchWaitlistEntry; position: number }> {
+  const batch = await findBatch(batchId);
+  if (batch.status === 'ended') throw new ApiError('Batch has ended', 400, 'BATCH_ENDED');
+  const student = await StudentV2.findById(validId(studentId, 'student')).select('studentName');
+  if (!student) throw new ApiError('Student not found', 404, 'NOT_FOUND');
+
+  const enrollment = await Enrollment.findOne({ studentId: student._id, courseId: batch.courseId, endDate: null });
+  if (enrollment?.batchId?.equals(batch._id)) throw new ApiError('Student is already in this batch', 409, 'CONFLICT');
+  const waiting = await BatchWaitlistEntry.exists({ batchId: batch._id, studentId: student._id, status: 'waiting' });
+  if (waiting) throw new ApiError('Student is already on this waitlist', 409, 'CONFLICT');
+
+  let fee: WaitlistFee | null = null;
+  if (!enrollment) {
+    const course = await Course.findById(batch.courseId);
+    const levelFee: number | null = (course as any)?.getFeeForLevel(batch.stageNumber, batch.levelNumber) ?? null;
+    if (levelFee === null) {
+      throw new ApiError(`No configured fee for Stage ${batch.stageNumber} Level ${batch.levelNumber}`, 400, 'VALIDATION_ERROR');
+    }
+    fee = {
+      grossFee: levelFee,
+      monthlyFee: levelFee,
+      discountType: 'none',
+      discountPct: 0,
+      discountAmount: 0,
+      discountReason: '',
+      feeOverridden: false,
+    };
+  }
+
+  const entry = await BatchWaitlistEntry.create({
+    batchId: batch._id,
+    studentId: student._id,
+    studentName: student.studentName,
+    fee,
+    note: note?.trim() || undefined,
+    addedBy: new Types.ObjectId(adminUserId),
+  });
+  return { entry, position: await waitlistPosition(entry) };
+}
+
+/**
+ * Give a seat to a waiting student: the given entry, or the one at the front
+ * of the queue. Fails with the usual "Batch is full" while no seat is free.
+ */
+export async function promoteFromWaitlist(
+  batchId: string,
+  adminUserId: string,
+  options: { entryId?: string | null; date?: Date } = {},
+): Promise<{ entry: IBatchWaitlistEntry; enrollment: IEnrollment }> {
+  const batch = await findBatch(batchId);
+  const entry = await BatchWaitlistEntry.findOne({
+    batchId: batch._id,
+    status: 'waiting',
+    ...(options.entryId ? { _id: validId(options.entryId, 'waitlist entry') } : {}),
+  }).sort({ createdAt: 1 });
+  if (!entry) {
+    throw new ApiError(options.entryId ? 'Waitlist entry not found' : 'Nobody is waiting for this batch', 404, 'NOT_FOUND');
+  }
+
+  // Claim the entry before enrolling, so two promotions racing for it cannot
+  // both enroll the student; it goes back to the queue if enrolling fails.
+  const claimed = await BatchWaitlistEntry.findOneAndUpdate(
+    { _id: entry._id, status: 'waiting' },
+    { $set: { status: 'promoted', resolvedBy: new Types.ObjectId(adminUserId), resolvedAt: new Date() } },
+    { new: true },
+  );
+  if (!claimed) throw new ApiError('This waitlist entry has just been promoted or removed', 409, 'CONFLICT');
+
+  const date = options.date ?? new Date();
+  const studentId = entry.studentId.toString();
+  let enrollment: IEnrollment;
+  try {
+    const current = await Enrollment.findOne({ studentId: entry.studentId, courseId: batch.courseId, endDate: null });
+    if (current) {
+      if (current.batchId?.equals(batch._id)) {
+        // Already moved in some other way; just close the entry.
+        enrollment = current;
+      } else {
+        const result = await changeBatch(studentId, batch._id.toString(), date, adminUserId, current._id.toString());
+        if (!result.success) throw new ApiError(result.error, 400, 'PROMOTION_FAILED');
+        enrollment = result.enrollment;
+      }
+    } else {
+      const fee = entry.fee;
+      if (!fee) throw new ApiError('Student is no longer enrolled in this course', 409, 'CONFLICT');
+      enrollment = await addCourseEnrollment({
+        studentId,
+        courseId: batch.courseId.toString(),
+        stageNumber: batch.stageNumber,
+        levelNumber: batch.levelNumber,
+        batchId: batch._id.toString(),
+        ...fee,
+        startDate: date,
+        createdBy: adminUserId,
+      });
+    }
+  } catch (error) {
+    await BatchWaitlistEntry.updateOne(
+      { _id: entry._id, status: 'promoted' },
+      { $set: { status: 'waiting' }, $unset: { resolvedBy: 1, resolvedAt: 1 } },
+    );
+    throw error;
+  }
+
+  claimed.enrollmentId = enrollment._id as Types.ObjectId;
+  await claimed.save();
+  return { entry: claimed, enrollment };
+}
+
+export async function removeFromWaitlist(batchId: string, entryId: string, adminUserId: string): Promise<IBatchWaitlistEntry> {
+  const entry = await BatchWaitlistEntry.findOneAndUpdate(
+    { _id: validId(entryId, 'waitlist entry'), batchId: validId(batchId, 'batch'), status: 'waiting' },
+    { $set: { status: 'removed', resolvedBy: new Types.ObjectId(adminUserId), resolvedAt: new Date() } },
+    { new: true },
+  );
+  if (!entry) throw new ApiError('Waitlist entry not found', 404, 'NOT_FOUND');
+  return entry;
+}
+
+/**
+ * Worklist: for every batch with free seats and students waiting, the
+ * students at the front of the queue — one per free seat.
+ */
+export async function listSeatOffers(): Promise<SeatOffer[]> {
+  const batchIds: Types.ObjectId[] = await BatchWaitlistEntry.distinct('batchId', { status: 'waiting' });
+  if (batchIds.length === 0) return [];
+  const batches = await Batch.find({
+    _id: { $in: batchIds },
+    status: { $ne: 'ended' },
+    $expr: { $or: [{ $eq: ['$maxStudents', null] }, { $lt: ['$filledSeats', '$maxStudents'] }] },
+  }).select('batchName batchCode maxStudents filledSeats').lean();
+
+  const offers: SeatOffer[] = [];
+  for (const batch of batches) {
+    const freeSeats = batch.maxStudents === null ? null : batch.maxStudents - (batch.filledSeats ?? 0);
+    const entries = await BatchWaitlistEntry.find({ batchId: batch._id, status: 'waiting' })
+      .sort({ createdAt: 1 })
+      .limit(freeSeats ?? 0) // 0: no limit
+      .lean();
+    entries.forEach((entry, i) => offers.push({
+      entryId: entry._id.toString(),
+      batchId: batch._id.toString(),
+      batchName: batch.batchName,
+      batchCode: batch.batchCode,
+      freeSeats,
+      studentId: entry.studentId.toString(),
+      studentName: entry.studentName,
+      position: i + 1,
+      waitingSince: entry.createdAt,
+      seatAvailableAt: entry.seatAvailableAt,
+    }));
+  }
+  return offers.sort((a, b) => (a.seatAvailableAt?.getTime() ?? Infinity) - (b.seatAvailableAt?.getTime() ?? Infinity));
+}
@@ -8,6 +8,8 @@ export interface IUser extends Document {
   role: 'user' | 'admin' | 'superadmin';
   isActive: boolean;
   deletedAt?: Date | null;
+  // Set on parent portal accounts created by staff; self-registered accounts never have it
+  portalProvisionedBy?: Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
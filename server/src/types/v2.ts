@@ -31,6 +31,47 @@ export interface ICourseStage {
   levels: ICourseLevel[];
 }
 
+/**
+ * How a partial month is billed when an enrollment starts or ends mid-month.
+ *   days     — fee × active days / days in month
+ *   sessions — fee × scheduled classes in the active range / classes in the
+ *              month, counted from Batch.schedule (falls back to days when the
+ *              enrollment has no batch)
+ *   cutoff   — the enrollment active on cutoffDay owns the whole month; any
+ *              other partial month is not billed
+ *   none     — always bill the full month
+ */
+export type ProRationMethod = 'none' | 'days' | 'sessions' | 'cutoff';
+
+export interface IProRationPolicy {
+  method: ProRationMethod;
+  cutoffDay: number;      // 1–28, only used by 'cutoff'
+}
+
+/**
+ * Late-fee rule applied once to a tuition invoice still unpaid graceDays after
+ * its due date. 'flat' charges value rupees; 'percentage' charges value% of
+ * the invoice amount, limited to capPerInvoice when set.
+ */
+export interface ILateFeePolicy {
+  enabled: boolean;
+  type: 'flat' | 'percentage';
+  value: number;
+  graceDays: number;
+  capPerInvoice: number | null;
+}
+
+/**
+ * Make-up class rule. Students are owed a make-up for each cancelled session
+ * (and for each excused absence when excusedAbsences is on); the entitlement
+ * must be used within expiryDays of the missed class.
+ */
+export interface IMakeupPolicy {
+  enabled: boolean;
+  expiryDays: number;
+  excusedAbsences: boolean;
+}
+
 export interface ICourse extends Document {
   courseName: string;     // slug / internal key, lowercase unique
   displayName: string;    // human-readable, e.g. "Chess"
@@ -38,6 +79,9 @@ export interface ICourse extends Document {
   isActive: boolean;
   displayOrder: number;
   stages: ICourseStage[]; // replaces the old flat levels[]
+  proRationPolicy: IProRationPolicy;
+  lateFeePolicy: ILateFeePolicy;
+  makeupPolicy: IMakeupPolicy;
   createdBy: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -64,6 +108,7 @@ export interface IBatch extends Document {
   endDate: Date | null;
   description?: string;
   createdBy: Types.ObjectId;
+  importRunId?: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -92,6 +137,7 @@ export interface IEnrollment extends Document {
   /** Free-text note explaining a grandfather or in-place fee amendment. */
   feeNote?: string;
   createdBy: Types.ObjectId;
+  importRunId?: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -110,6 +156,8 @@ export interface IStudentV2 extends Document {
   alternateEmail?: string;
   address?: string;
   referredBy?: string;
+  /** Guardian account shared with siblings */
+  familyId?: Types.ObjectId | null;
   /** Denormalized from active Enrollment.courseId */
   courseId?: Types.ObjectId | null;
   /** Denormalized from active Enrollment.stageNumber */
@@ -122,6 +170,7 @@ export interface IStudentV2 extends Document {
   isActive: boolean;
   /** Authoritative credit balance in rupees. Updated atomically via $inc. */
   creditBalance: number;
+  importRunId?: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
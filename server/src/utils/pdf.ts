@@ -0,0 +1,107 @@
+/**
+ * Minimal PDF writer for printable documents (invoices, receipts).
+ *
+ * Produces single- or multi-page A4 PDFs using the built-in Helvetica fonts,
+ * so no font files or native dependencies are needed. Coordinates are in
+ * points measured from the TOP-left corner of the page. Text is encoded as
+ * WinAnsi (Latin-1); characters outside it are replaced — use "Rs." rather
+ * than the rupee sign.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// Helvetica advance widths (per 1000 em) for the characters documents use
+// most; anything else falls back to an average glyph width.
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '/': 278, ':': 278, '(': 333, ')': 333, '%': 889, '#': 556,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+};
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+  gray?: boolean;
+}
+
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escapePdfString(text: string): string {
+  return toWinAnsi(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+/** Approximate rendered width of a string in points. */
+export function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const ch of text) {
+    const known = HELVETICA_WIDTHS[ch];
+    if (known !== undefined) units += known;
+    else if (ch >= 'A' && ch <= 'Z') units += bold ? 722 : 667;
+    else units += bold ? 556 : 500;
+  }
+  return (units * size) / 1000;
+}
+
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private pages: string[][] = [[]];
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, opts: PdfTextOptions = {}): void {
+    const size = opts.size ?? 10;
+    const width = textWidth(value, size, opts.bold);
+    const left = opts.align === 'right' ? x - width : opts.align === 'center' ? x - width / 2 : x;
+    const color = opts.gray ? '0.4 g' : '0 g';
+    this.ops.push(
+      `BT ${color} /${opts.bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapePdfString(value)}) Tj ET`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5): void {
+    this.ops.push(
+      `${lineWidth} w ${x1.toFixed(2)} ${(PAGE_HEIGHT - y1).toFixed(2)} m ${x2.toFixed(2)} ${(PAGE_HEIGHT - y2).toFixed(2)} l S`,
+    );
+  }
+
+  toBuffer(): Buffer {
+    // Object layout: 1 catalog, 2 page tree, 3–4 fonts, then a (page,
+    // content) pair per page.
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    this.pages.forEach((ops, i) => {
+      const content = ops.join('\n');
+      objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+      objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id += 1) {
+      offsets[id] = Buffer.byteLength(body, 'latin1');
+      body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id += 1) {
+      body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(body, 'latin1');
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Tabular exports (CSV / XLSX) for reports.
+ *
+ * A report describes its columns once and hands over plain row objects; the
+ * same definition produces both formats, so the spreadsheet and the CSV never
+ * disagree on headers or column order.
+ */
+import type { Response } from 'express';
+import xlsx from 'xlsx';
+
+export type TabularFormat = 'csv' | 'xlsx';
+
+export const TABULAR_FORMATS: TabularFormat[] = ['csv', 'xlsx'];
+
+export interface TabularColumn<Row> {
+  header: string;
+  value: (row: Row) => string | number | Date | null | undefined;
+  width?: number;   // XLSX column width in characters
+}
+
+function csvCell(value: string | number | Date | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine<Row>(columns: TabularColumn<Row>[], row: Row): string {
+  return columns.map((c) => csvCell(c.value(row))).join(',');
+}
+
+function csvHeader<Row>(columns: TabularColumn<Row>[]): string {
+  return columns.map((c) => csvCell(c.header)).join(',');
+}
+
+export function toCsv<Row>(columns: TabularColumn<Row>[], rows: Row[]): string {
+  const lines = [csvHeader(columns)];
+  for (const row of rows) lines.push(csvLine(columns, row));
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function toXlsx<Row>(sheetName: string, columns: TabularColumn<Row>[], rows: Row[]): Buffer {
+  const data = [
+    columns.map((c) => c.header),
+    ...rows.map((row) => columns.map((c) => c.value(row) ?? null)),
+  ];
+  const ws = xlsx.utils.aoa_to_sheet(data, { cellDates: true });
+  ws['!cols'] = columns.map((c) => ({ wch: c.width ?? Math.max(12, c.header.length + 2) }));
+  const wb = xlsx.utils.book_new();
+  // Sheet names are capped at 31 characters and may not contain []:*?/\
+  xlsx.utils.book_append_sheet(wb, ws, sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+  return xlsx.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
+
+/** Send rows as a CSV or XLSX attachment named `${basename}.${format}`. */
+export function sendTabular<Row>(
+  res: Response,
+  format: TabularFormat,
+  basename: string,
+  columns: TabularColumn<Row>[],
+  rows: Row[],
+  sheetName = basename,
+): void {
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${basename}.csv"`);
+    res.send(toCsv(columns, rows));
+    return;
+  }
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${basename}.xlsx"`);
+  res.send(toXlsx(sheetName, columns, rows));
+}
+
+function drained(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * Like sendTabular, for row sets too large to hold as objects. CSV is written
+ * as rows arrive; an XLSX workbook can only be written whole, so its rows are
+ * collected first.
+ */
+export async function streamTabular<Row>(
+  res: Response,
+  format: TabularFormat,
+  basename: string,
+  columns: TabularColumn<Row>[],
+  rows: AsyncIterable<Row>,
+  sheetName = basename,
+): Promise<void> {
+  if (format === 'xlsx') {
+    const collected: Row[] = [];
+    for await (const row of rows) collected.push(row);
+    return sendTabular(res, format, basename, columns, collected, sheetName);
+  }
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${basename}.csv"`);
+  res.write(`${csvHeader(columns)}\r\n`);
+  try {
+    for await (const row of rows) {
+      // Respect backpressure so a slow client does not buffer the whole export.
+      if (!res.write(`${csvLine(columns, row)}\r\n`)) await drained(res);
+      if (res.destroyed) return;   // the client went away
+    }
+  } catch (error) {
+    // Too late for an error response: cut the download short so it is not
+    // mistaken for a complete file.
+    console.error('Export failed mid-stream:', error);
+    res.destroy();
+    return;
+  }
+  res.end();
+}